@@ -5,12 +5,21 @@ import { BackendAnalysisService } from './src/services/backendAnalysisService';
 import { ArchitectureController } from './src/controllers/architectureController';
 import { getVisualizations } from './src/controllers/visualizationController';
 import { getCacheService, closeCacheService } from './src/services/cacheServiceProvider';
-import type { LLMConfig } from './src/types';
+import type { AnalysisJob, AnalysisJobEvent, LLMConfig } from './src/types';
 import { safeAsync, errorHandler } from './src/middleware/errorHandler';
 import he from 'he';
 import { getContributorStats, getContributorDetails } from './src/controllers/contributorController';
 import crypto from 'crypto';
 import { LLMService } from './src/services/llmService';
+import { LocalGitService } from './src/services/localGitService';
+import { parseRepositoryUrl } from './src/services/repositoryProvider';
+import { AnalysisJobRequest, AnalysisJobRunner, AnalysisJobService } from './src/services/analysisJobService';
+import { FileResultCache } from './src/services/fileResultCache';
+import { SBOM_FORMATS, SbomFormat, SbomSource, createSbom } from './src/services/sbom';
+import { SARIF_MEDIA_TYPE, SarifFindings, SarifImportTarget, SarifSource, createSarifLog, mergeSarifFindings, readSarifLog } from './src/services/sarif';
+import { callGraphNeighbourhood } from './src/services/callGraph';
+import { architectureRulesJUnit } from './src/services/architectureRules';
+import type { AnalysisResult, CallGraph } from './src/types';
 
 const app: Express = express();
 const port = process.env.PORT || 3001;
@@ -129,8 +138,145 @@ app.post('/api/llm/enhance-diagram', safeAsync(async (req: Request, res: Respons
   }
 }));
 
-// Handle analysis request with proper SSE formatting and error handling
-const handleAnalysisRequest = async (req: Request, res: Response) => {
+// Validate an analysis request from the query string (GET) or body (POST)
+function parseAnalysisRequest(req: Request): { request?: AnalysisJobRequest; error?: string } {
+  const { repoUrl, llmConfig: llmConfigString, githubToken: rawGithubToken } =
+    req.method === 'POST' ? req.body : req.query;
+
+  // Parse llmConfig if provided; POST bodies may send it as an object
+  let llmConfig: LLMConfig | undefined;
+  try {
+    llmConfig = typeof llmConfigString === 'string' ? JSON.parse(llmConfigString) : llmConfigString || undefined;
+  } catch (e) {
+    console.warn('Failed to parse llmConfig:', e);
+    llmConfig = undefined;
+  }
+
+  const githubToken = typeof rawGithubToken === 'string' && rawGithubToken.trim() !== ''
+    ? rawGithubToken
+    : undefined;
+
+  // Enhanced validation for repoUrl
+  if (!repoUrl || typeof repoUrl !== 'string' || repoUrl.trim() === '') {
+    const error = 'Repository URL is required and must be a valid non-empty string';
+    console.error(error, { repoUrl, type: typeof repoUrl });
+    return { error };
+  }
+
+  // Additional validation for repository URL format (HTTPS, SSH, .git suffix, /tree/branch) and a
+  // supported host (GitHub, GitLab, Gitea, Bitbucket Server). Local paths and file:// URLs are
+  // checked against LOCAL_REPO_ROOTS by the analysis service.
+  const isLocalRepo = LocalGitService.parseLocalRepoUrl(repoUrl) !== null;
+  let urlError: string | undefined;
+  if (!isLocalRepo) {
+    try {
+      parseRepositoryUrl(repoUrl);
+    } catch (e) {
+      urlError = (e instanceof Error ? e.message : String(e)).replace(/\.$/, '');
+    }
+  }
+  if (urlError) {
+    const error = `${urlError}. Expected forms like https://github.com/owner/repo, https://gitlab.com/group/project, git@github.com:owner/repo.git, with /tree/branch, or a file:// URL for a local repository.`;
+    console.error(error, { repoUrl: repoUrl.trim() });
+    return { error: he.encode(error) };
+  }
+
+  // Prevent analysis of test/placeholder URLs
+  const testUrls = [
+    'https://github.com/test/test',
+    'https://github.com/example/example',
+    'https://github.com/demo/demo',
+    'https://github.com/sample/sample'
+  ];
+  if (testUrls.includes(repoUrl.trim().toLowerCase())) {
+    const error = 'Test/placeholder URLs are not allowed for analysis';
+    console.error(error, { repoUrl: repoUrl.trim() });
+    return { error };
+  }
+
+  return { request: { repoUrl: repoUrl.trim(), githubToken, llmConfig } };
+}
+
+// Hashed cache key to avoid collisions
+const analysisCacheKey = (repoUrl: string) =>
+  `analysis_${crypto.createHash('sha256').update(repoUrl).digest('hex')}`;
+
+// Per-file results survive between analyses so re-analyzing a repository only redoes changed files
+const fileResultCache = new FileResultCache(cacheService);
+
+// Runs one queued analysis job and caches the report under both the repository and report keys.
+// A report cut short by cancellation is only cached by ID so it never answers later requests.
+const runAnalysisJob: AnalysisJobRunner = async ({ repoUrl, githubToken, llmConfig }, { sendProgress, signal }) => {
+  console.log(`[${new Date().toISOString()}] Starting analysis for: ${repoUrl}`);
+  const analysisService = new BackendAnalysisService(githubToken, llmConfig);
+  const report = await analysisService.analyze(repoUrl, {
+    useCache: false, // Caching is handled at this layer
+    // No branch: the analysis resolves the repository's default branch from its provider
+    dependencies: true,
+    architecture: true,
+    quality: true,
+    security: true,
+    technicalDebt: true,
+    performance: true,
+    hotspots: true,
+    keyFunctions: true,
+    prAnalysis: true,
+    contributorAnalysis: true,
+    aiSummary: !!llmConfig?.apiKey,
+    aiArchitecture: !!llmConfig?.apiKey,
+    temporalCoupling: true,
+    dataTransformation: true,
+    gitGraph: true,
+    sendProgress,
+    signal,
+    fileResultCache,
+  });
+
+  // Validate that we have a valid report object
+  if (!report) {
+    throw new Error('Analysis completed but no report was generated');
+  }
+  // Generate a fallback ID if report.id is missing
+  if (!report.id) {
+    report.id = `fallback_${Date.now()}`;
+  }
+
+  const jsonString = safeSerializeReport(report);
+  if (signal.aborted) {
+    await cacheService.set(report.id, jsonString);
+    console.log(`Partial report of cancelled analysis cached as ${report.id}`);
+    return { reportId: report.id };
+  }
+  await cacheService.set(analysisCacheKey(repoUrl), jsonString);
+  // Also cache the report by its ID for the /api/report/:id endpoint
+  await cacheService.set(report.id, jsonString);
+  console.log(`Report cached with both keys: ${analysisCacheKey(repoUrl)} and ${report.id}`);
+  return { reportId: report.id };
+};
+
+const jobService = new AnalysisJobService(cacheService, runAnalysisJob);
+jobService.recover().catch(error => console.error('[server]: Failed to recover analysis jobs:', error));
+
+// Queue an analysis, or record a completed job straight away when the report is cached. A
+// completed job has nothing left to cancel, so it comes without a subscriber ID.
+async function submitAnalysisJob(request: AnalysisJobRequest): Promise<{ job: AnalysisJob; subscriberId?: string }> {
+  const cached = await cacheService.get<string>(analysisCacheKey(request.repoUrl));
+  if (cached) {
+    const reportId: string | undefined = JSON.parse(cached).id;
+    if (reportId) {
+      console.log(`Returning cached analysis for ${request.repoUrl}`);
+      // The report key may have been trimmed independently of the repository key
+      await cacheService.set(reportId, cached);
+      return { job: await jobService.createCompletedJob(request.repoUrl, reportId) };
+    }
+  }
+  return jobService.submit(request);
+}
+
+// Stream a job's events over SSE, replaying everything after `lastEventId` first. The
+// connection closes after the job's `done` event; closing it early leaves the job running.
+// A subscriber ID is sent to this connection only, ahead of the job's shared event log.
+async function streamJobEvents(req: Request, res: Response, jobId: string, lastEventId: number, subscriberId?: string): Promise<void> {
   // --- Step 1: Set SSE Headers ---
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
@@ -139,6 +285,9 @@ const handleAnalysisRequest = async (req: Request, res: Response) => {
     'Access-Control-Allow-Origin': '*',
   });
   res.flushHeaders();
+  if (subscriberId) {
+    res.write(`event: subscription\ndata: ${JSON.stringify({ jobId, subscriberId })}\n\n`);
+  }
 
   // --- Step 2: Force Keep-Alive and Handle Disconnection ---
   // The `connection: 'close'` header from the client is the root cause.
@@ -148,18 +297,17 @@ const handleAnalysisRequest = async (req: Request, res: Response) => {
   req.socket.setTimeout(0); // Disable socket timeout to prevent premature closing
 
   let clientDisconnected = false;
-  let keepAliveInterval: NodeJS.Timeout | null = null;
+  let unsubscribe: (() => void) | null = null;
 
   const cleanup = () => {
     if (!clientDisconnected) {
       clientDisconnected = true;
-      if (keepAliveInterval) clearInterval(keepAliveInterval!);
-      console.warn('Client disconnected, cleaning up resources.');
+      clearInterval(keepAliveInterval);
+      unsubscribe?.();
       try { res.end(); } catch (e) { /* ignore */ }
     }
   };
 
-  // Attach listeners immediately. The fragile setTimeout is removed.
   req.on('close', cleanup);
   req.on('error', (err) => {
     console.error('Request error:', err);
@@ -172,13 +320,7 @@ const handleAnalysisRequest = async (req: Request, res: Response) => {
 
   // --- Step 3: Implement a Robust Heartbeat ---
   // Send a comment every 15 seconds to prevent proxy timeouts.
-  keepAliveInterval = setInterval(() => {
-    if (clientDisconnected) {
-      clearInterval(keepAliveInterval!);
-      return;
-    }
-
-    // Emit a named keep-alive event to clients
+  const keepAliveInterval = setInterval(() => {
     try {
       res.write('event: keep-alive\ndata: {}\n\n');
     } catch (err) {
@@ -187,177 +329,65 @@ const handleAnalysisRequest = async (req: Request, res: Response) => {
     }
   }, 15000);
 
-  const sendProgress = (step: string, progress: number) => {
-    if (clientDisconnected) {
-      console.warn(`Skipping progress update (client disconnected): ${progress}% - ${step}`);
-      return;
+  // --- Step 4: Relay job events in log order ---
+  const writeEvent = async (event: AnalysisJobEvent) => {
+    if (clientDisconnected) return;
+    let data = JSON.stringify(event.data);
+    if (event.type === 'result') {
+      // The event log only stores the report ID; clients get the full report
+      const report = await cacheService.get<string>(event.data.reportId as string);
+      if (!report) {
+        res.write(`id: ${event.id}\nevent: error-message\ndata: ${JSON.stringify({ error: 'Report not found or expired.' })}\n\n`);
+        return;
+      }
+      data = report;
     }
-
-    console.log(`[${new Date().toISOString()}] Progress: ${progress}% - ${step}`);
-    try {
-      const payload = { step, progress, timestamp: Date.now() };
-      res.write(`event: progress\ndata: ${JSON.stringify(payload)}\n\n`);
-    } catch (err) {
-      console.warn('Progress write failed:', err);
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`);
+    if (event.type === 'done') {
       cleanup();
     }
   };
 
-  // Send initial progress from server before heavy work
-  sendProgress('Starting analysis', 1);
-
+  let writing = Promise.resolve();
   try {
-    console.log('Received query:', req.query);
-    console.log('Request method:', req.method);
-    console.log('Request body:', req.body);
-    
-    const { repoUrl, llmConfig: llmConfigString, githubToken: rawGithubToken } = 
-      req.method === 'POST' ? req.body : req.query;
-
-    console.log('Extracted parameters:', { repoUrl, llmConfigString: llmConfigString, rawGithubToken });
-
-    // Parse llmConfig if provided
-    let llmConfig;
-    try {
-      llmConfig = llmConfigString ? JSON.parse(llmConfigString as string) : undefined;
-    } catch (e) {
-      console.warn('Failed to parse llmConfig:', e);
-      llmConfig = undefined;
-    }
-
-    const githubToken = typeof rawGithubToken === 'string' && rawGithubToken.trim() !== '' 
-      ? rawGithubToken 
-      : undefined;
-    
-    // Enhanced validation for repoUrl
-    if (!repoUrl || typeof repoUrl !== 'string' || repoUrl.trim() === '') {
-      const error = 'Repository URL is required and must be a valid non-empty string';
-      console.error(error, { repoUrl, type: typeof repoUrl });
-      res.write(`event: error-message\ndata: ${JSON.stringify({ error })}\n\n`);
-      res.end();
-      return;    }
-
-    // Additional validation for repository URL format (HTTPS, SSH, Enterprise, .git suffix, /tree/branch)
-    const urlPattern = /^(?:https?:\/\/|git@)[^\/ :]+[\/ :][A-Za-z0-9-]+\/[A-Za-z0-9_.-]+(?:\/tree\/[A-Za-z0-9_.-]+)?(?:\.git)?$/;
-    if (!urlPattern.test(repoUrl.trim())) {
-      const error = 'Invalid repository URL format. Expected forms like https://github.com/owner/repo, git@github.com:owner/repo.git, or with /tree/branch.';
-      console.error(error, { repoUrl: repoUrl.trim() });
-      res.write(`event: error-message\ndata: ${JSON.stringify({ error: he.encode(error) })}\n\n`);
-      res.end();
-      return;
-    }
-
-    // Prevent analysis of test/placeholder URLs
-    const testUrls = [
-      'https://github.com/test/test',
-      'https://github.com/example/example',
-      'https://github.com/demo/demo',
-      'https://github.com/sample/sample'
-    ];
-    if (testUrls.includes(repoUrl.trim().toLowerCase())) {
-      const error = 'Test/placeholder URLs are not allowed for analysis';
-      console.error(error, { repoUrl: repoUrl.trim() });
-      res.write(`event: error-message\ndata: ${JSON.stringify({ error })}\n\n`);
-      res.end();
-      return;
-    }
+    unsubscribe = await jobService.subscribe(jobId, lastEventId, event => {
+      writing = writing.then(() => writeEvent(event)).catch(error => handleAnalysisError(res, error));
+    });
+    // The client may have gone away while the log was replayed
+    if (clientDisconnected) unsubscribe();
+  } catch (error) {
+    clearInterval(keepAliveInterval);
+    handleAnalysisError(res, error);
+  }
+}
 
-    const cleanRepoUrl = repoUrl.trim();
-
-    console.log(`🔍 Analysis request validated for: ${cleanRepoUrl}`);
-
-    // Send initial progress to confirm connection
-    sendProgress('Connection established', 0);
-
-    // Check cache first with hashed key to avoid collisions
-    const repoHash = crypto.createHash('sha256').update(cleanRepoUrl).digest('hex');
-    const cacheKey = `analysis_${repoHash}`;
-    const cached = await cacheService.get(cacheKey);
-    if (cached) {
-      console.log(`Returning cached analysis for key ${cacheKey}`);
-      // Use the same 'result' event for consistency
-      res.write(`event: result\ndata: ${cached}\n\n`);
-      // Also send the 'done' event
-      res.write(`event: done\ndata: ${JSON.stringify({ message: "Stream finished (from cache)" })}\n\n`);
-      res.end();
-      return;
-    }
+// Resume point from the EventSource reconnect header, or ?lastEventId for clients that cannot set it
+function getLastEventId(req: Request): number {
+  const raw = req.get('Last-Event-ID') ?? req.query.lastEventId;
+  const id = parseInt(typeof raw === 'string' ? raw : '', 10);
+  return Number.isFinite(id) && id > 0 ? id : 0;
+}
 
-    console.log(`[${new Date().toISOString()}] Starting analysis for: ${cleanRepoUrl}`);
-    const analysisService = new BackendAnalysisService(githubToken, llmConfig);
-    try {
-      const report = await analysisService.analyze(cleanRepoUrl, {
-        useCache: false, // Caching is handled at this layer
-        branch: 'main', // Default branch, can be overridden by query params
-        dependencies: true,
-        architecture: true,
-        quality: true,
-        security: true,
-        technicalDebt: true,
-        performance: true,
-        hotspots: true,
-        keyFunctions: true,
-        prAnalysis: true,
-        contributorAnalysis: true,
-        aiSummary: !!llmConfig?.apiKey,
-        aiArchitecture: !!llmConfig?.apiKey,
-        temporalCoupling: true,
-        dataTransformation: true,
-        gitGraph: true,
-        sendProgress,
-      });
-      if (keepAliveInterval) clearInterval(keepAliveInterval!);
-      
-      if (clientDisconnected) {
-        console.warn('Client disconnected - skipping completion signal');
-        return;
-      }
-      
-      // Validate that we have a valid report object
-      if (!report) {
-        console.error('Analysis completed but no report was generated');
-        res.write(`event: error-message\ndata: ${JSON.stringify({ error: 'Analysis completed but no report was generated' })}\n\n`);
-        res.end();
-        return;
-      }
-      
-      const jsonString = safeSerializeReport(report);
-      await cacheService.set(cacheKey, jsonString);
-      
-      // Also cache the report by its ID for the /api/report/:id endpoint
-      if (report && report.id) {
-        await cacheService.set(report.id, jsonString);
-        console.log(`Report cached with both keys: ${cacheKey} and ${report.id}`);
-      } else {
-        // Generate a fallback ID if report.id is missing
-        const fallbackId = `fallback_${Date.now()}`;
-        await cacheService.set(fallbackId, jsonString);
-        console.log(`Report cached with fallback ID: ${cacheKey} and ${fallbackId}`);
-        // Add the id to the report object for consistency
-        if (report) {
-          report.id = fallbackId;
-        }
-      }
-      
-      // Send the final report payload under a 'result' event
-      console.log('Sending final analysis report to client.');
-      res.write(`event: result\ndata: ${jsonString}\n\n`);
-      
-      // Send a final 'done' event to signal completion gracefully
-      console.log('Signaling end of stream to client.');
-      res.write(`event: done\ndata: ${JSON.stringify({ message: "Stream finished" })}\n\n`);
-
-      // Now, it's safe to close the connection.
-      res.end();
-    } catch (error) {
-      if (keepAliveInterval) clearInterval(keepAliveInterval!);
-      handleAnalysisError(res, error);
-      return;
-    }
+// Submit-and-stream in one request, kept for existing clients. The analysis itself runs as a
+// job, so reconnecting with the same repository attaches to it instead of starting over.
+const handleAnalysisRequest = async (req: Request, res: Response) => {
+  const { request, error } = parseAnalysisRequest(req);
+  if (!request) {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.write(`event: error-message\ndata: ${JSON.stringify({ error })}\n\n`);
+    res.end();
+    return;
+  }
 
+  try {
+    console.log(`🔍 Analysis request validated for: ${request.repoUrl}`);
+    const { job, subscriberId } = await submitAnalysisJob(request);
+    // Event IDs belong to a single job and a reconnect may resolve to a different one,
+    // so this endpoint always replays the job from its start
+    await streamJobEvents(req, res, job.id, 0, subscriberId);
   } catch (error) {
     console.error('Analysis failed:', error);
-    if (keepAliveInterval) clearInterval(keepAliveInterval!);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
     handleAnalysisError(res, error);
   }
 };
@@ -377,6 +407,51 @@ app.post('/api/analyze', (req, res) => {
   handleAnalysisRequest(req, res);
 });
 
+// Analysis jobs: submit, inspect, follow and cancel
+app.post('/api/jobs', safeAsync(async (req: Request, res: Response) => {
+  const { request, error } = parseAnalysisRequest(req);
+  if (!request) {
+    return res.status(400).json({ error });
+  }
+  const { job, subscriberId } = await submitAnalysisJob(request);
+  res.status(202).json({
+    jobId: job.id,
+    subscriberId,
+    status: job.status,
+    statusUrl: `/api/jobs/${job.id}`,
+    eventsUrl: `/api/jobs/${job.id}/events`,
+  });
+}));
+
+app.get('/api/jobs/:id', safeAsync(async (req: Request, res: Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found or expired.' });
+  }
+  res.status(200).json({ ...job, queuePosition: await jobService.getQueuePosition(job.id) });
+}));
+
+app.get('/api/jobs/:id/events', safeAsync(async (req: Request, res: Response) => {
+  const job = await jobService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found or expired.' });
+  }
+  await streamJobEvents(req, res, job.id, getLastEventId(req));
+}));
+
+// Jobs are shared by everyone analyzing the same repository, so leaving one only cancels it
+// for the client that submitted it or the last one still subscribed
+app.delete('/api/jobs/:id', safeAsync(async (req: Request, res: Response) => {
+  if (!(await jobService.getJob(req.params.id))) {
+    return res.status(404).json({ error: 'Job not found or expired.' });
+  }
+  const job = await jobService.withdraw(req.params.id, req.get('X-Subscriber-Id') ?? '');
+  if (!job) {
+    return res.status(403).json({ error: 'Only a client subscribed to this job can cancel it.' });
+  }
+  res.status(200).json(job);
+}));
+
 // New endpoint to fetch the full report by ID
 app.get('/api/report/:id', safeAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -388,6 +463,169 @@ app.get('/api/report/:id', safeAsync(async (req: Request, res: Response) => {
   }
 }));
 
+// Software bill of materials of a stored report, or of the report posted with the request
+function sendSbom(req: Request, res: Response, report: SbomSource | undefined) {
+  const format = req.query.format ?? req.body?.format ?? 'cyclonedx';
+  if (format !== 'cyclonedx' && format !== 'spdx') {
+    return res.status(400).json({ error: 'format must be "cyclonedx" or "spdx".' });
+  }
+  if (!report?.id || !report.dependencies) {
+    return res.status(400).json({ error: 'A report with its dependencies is required.' });
+  }
+  const { mediaType, extension } = SBOM_FORMATS[format as SbomFormat];
+  const filename = `${(report.basicInfo?.fullName ?? report.id).replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${extension}`;
+  res.setHeader('Content-Type', mediaType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.status(200).send(JSON.stringify(createSbom(report, format as SbomFormat), null, 2));
+}
+
+app.get('/api/report/:id/sbom', safeAsync(async (req: Request, res: Response) => {
+  const report = await cacheService.get(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found or expired.' });
+  }
+  sendSbom(req, res, JSON.parse(report as string));
+}));
+
+app.post('/api/sbom', safeAsync(async (req: Request, res: Response) => {
+  sendSbom(req, res, req.body?.report);
+}));
+
+// SARIF log of the findings of a stored report, or of the report posted with the request
+function sendSarif(res: Response, report: SarifSource | undefined) {
+  if (!report?.id || !report.repositoryUrl) {
+    return res.status(400).json({ error: 'A report with its findings is required.' });
+  }
+  const filename = `${(report.basicInfo?.fullName ?? report.id).replace(/[^a-z0-9]/gi, '_').toLowerCase()}.sarif`;
+  res.setHeader('Content-Type', SARIF_MEDIA_TYPE);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.status(200).send(JSON.stringify(createSarifLog(report), null, 2));
+}
+
+app.get('/api/report/:id/sarif', safeAsync(async (req: Request, res: Response) => {
+  const report = await cacheService.get(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found or expired.' });
+  }
+  sendSarif(res, JSON.parse(report as string));
+}));
+
+app.post('/api/sarif', safeAsync(async (req: Request, res: Response) => {
+  sendSarif(res, req.body?.report);
+}));
+
+// The findings of an uploaded SARIF log, or undefined after answering with the reason it cannot be read
+function readUploadedSarif(req: Request, res: Response): { origin: string; findings: SarifFindings } | undefined {
+  const { sarif, name } = req.body ?? {};
+  if (!sarif || (typeof name !== 'string' || !name.trim())) {
+    res.status(400).json({ error: 'sarif and name are required.' });
+    return undefined;
+  }
+  try {
+    return { origin: name.trim(), findings: readSarifLog(sarif, name.trim()) };
+  } catch (error) {
+    res.status(400).json({ error: error instanceof SyntaxError ? `${name} is not valid JSON.` : (error as Error).message });
+    return undefined;
+  }
+}
+
+// Merge an uploaded SARIF log into a stored report, replacing what an earlier upload of the same name added
+app.post('/api/report/:id/sarif/import', safeAsync(async (req: Request, res: Response) => {
+  const cached = await cacheService.get(req.params.id);
+  if (!cached) {
+    return res.status(404).json({ error: 'Report not found or expired.' });
+  }
+  const upload = readUploadedSarif(req, res);
+  if (!upload) return;
+  const report = JSON.parse(cached as string);
+  const merged = mergeSarifFindings(report, upload.origin, upload.findings);
+  const jsonString = safeSerializeReport({ ...report, ...merged });
+  await cacheService.set(report.id, jsonString);
+  // Keep the report answering later requests for the repository in step
+  const repositoryKey = analysisCacheKey(report.repositoryUrl);
+  const latest = await cacheService.get<string>(repositoryKey);
+  if (latest && JSON.parse(latest).id === report.id) {
+    await cacheService.set(repositoryKey, jsonString);
+  }
+  res.status(200).json(merged);
+}));
+
+// Merge an uploaded SARIF log into the findings posted with the request
+app.post('/api/sarif/import', safeAsync(async (req: Request, res: Response) => {
+  const upload = readUploadedSarif(req, res);
+  if (!upload) return;
+  const report: Partial<SarifImportTarget> = req.body?.report ?? {};
+  res.status(200).json(mergeSarifFindings(
+    { securityIssues: report.securityIssues ?? [], technicalDebt: report.technicalDebt ?? [], sarifImports: report.sarifImports },
+    upload.origin,
+    upload.findings,
+  ));
+}));
+
+// Callers and callees of one function, from a stored report's call graph or one posted with the request
+function sendCallGraph(req: Request, res: Response, callGraph: CallGraph | undefined) {
+  const file = req.query.file ?? req.body?.file;
+  const name = req.query.function ?? req.body?.function;
+  const depth = Number(req.query.depth ?? req.body?.depth ?? 1);
+  if (typeof file !== 'string' || typeof name !== 'string') {
+    return res.status(400).json({ error: 'file and function are required.' });
+  }
+  if (!Number.isInteger(depth) || depth < 1 || depth > 5) {
+    return res.status(400).json({ error: 'depth must be a whole number from 1 to 5.' });
+  }
+  if (!callGraph) {
+    return res.status(400).json({ error: 'A report with a call graph is required.' });
+  }
+  const neighbourhood = callGraphNeighbourhood(callGraph, `${file}#${name}`, depth);
+  if (!neighbourhood) {
+    return res.status(404).json({ error: `No function ${name} in ${file}.` });
+  }
+  res.status(200).json(neighbourhood);
+}
+
+app.get('/api/report/:id/call-graph', safeAsync(async (req: Request, res: Response) => {
+  const report = await cacheService.get(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found or expired.' });
+  }
+  sendCallGraph(req, res, JSON.parse(report as string).callGraph);
+}));
+
+app.post('/api/call-graph', safeAsync(async (req: Request, res: Response) => {
+  sendCallGraph(req, res, req.body?.report?.callGraph);
+}));
+
+// Import cycles and layer rule violations as JSON or JUnit XML, for CI to fail builds on
+function sendArchitectureRules(req: Request, res: Response, report: Pick<AnalysisResult, 'id' | 'basicInfo' | 'architectureRules'> | undefined) {
+  const format = req.query.format ?? req.body?.format ?? 'json';
+  if (format !== 'json' && format !== 'junit') {
+    return res.status(400).json({ error: 'format must be "json" or "junit".' });
+  }
+  if (!report?.id || !report.architectureRules) {
+    return res.status(400).json({ error: 'A report with architecture rule results is required.' });
+  }
+  const filename = `${(report.basicInfo?.fullName ?? report.id).replace(/[^a-z0-9]/gi, '_').toLowerCase()}.architecture.${format === 'junit' ? 'xml' : 'json'}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  if (format === 'junit') {
+    res.setHeader('Content-Type', 'application/xml');
+    return res.status(200).send(architectureRulesJUnit(report.architectureRules));
+  }
+  res.setHeader('Content-Type', 'application/json');
+  res.status(200).send(JSON.stringify(report.architectureRules, null, 2));
+}
+
+app.get('/api/report/:id/architecture-rules', safeAsync(async (req: Request, res: Response) => {
+  const report = await cacheService.get(req.params.id);
+  if (!report) {
+    return res.status(404).json({ error: 'Report not found or expired.' });
+  }
+  sendArchitectureRules(req, res, JSON.parse(report as string));
+}));
+
+app.post('/api/architecture-rules', safeAsync(async (req: Request, res: Response) => {
+  sendArchitectureRules(req, res, req.body?.report);
+}));
+
 // Endpoint to validate GitHub token
 app.post('/api/validate-github-token', safeAsync(async (req: Request, res: Response) => {
   const { token } = req.body;
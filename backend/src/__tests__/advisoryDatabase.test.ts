@@ -0,0 +1,135 @@
+import { AdvisoryDatabase, cvssV3BaseScore } from '../services/advisoryDatabase';
+import { BackendAnalysisService } from '../services/backendAnalysisService';
+import { parseDependencyManifests } from '../services/dependencyManifests';
+import { compareVersions, minSatisfyingVersion } from '../services/semver';
+import JSZip from 'jszip';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'osv');
+
+describe('semver', () => {
+  it('orders prereleases below releases and compares numerically', () => {
+    expect(compareVersions('1.0.0-alpha', '1.0.0')).toBeLessThan(0);
+    expect(compareVersions('1.0.0-alpha.1', '1.0.0-alpha.beta')).toBeLessThan(0);
+    expect(compareVersions('4.17.9', '4.17.21')).toBeLessThan(0);
+    expect(compareVersions('v2.0', '2.0.0')).toBe(0);
+  });
+
+  it.each([
+    ['^4.17.15', '4.17.15'],
+    ['~1.2', '1.2.0'],
+    ['>=1.0.0 <2', '1.0.0'],
+    ['>1.2.3', '1.2.4'],
+    ['1.x', '1.0.0'],
+    ['2.0.0 - 3', '2.0.0'],
+    ['1.4.0 || 0.5.x', '0.5.0'],
+    ['*', '0.0.0'],
+  ])('resolves %s to at least %s', (range, expected) => {
+    expect(minSatisfyingVersion(range)).toBe(expected);
+  });
+
+  it.each(['latest', 'github:owner/repo', 'file:../lib', '>=2 <1'])('does not resolve %s', range => {
+    expect(minSatisfyingVersion(range)).toBeNull();
+  });
+});
+
+describe('AdvisoryDatabase', () => {
+  let database: AdvisoryDatabase;
+
+  beforeAll(async () => {
+    database = await AdvisoryDatabase.load(FIXTURES);
+  });
+
+  it('computes CVSS v3 base scores', () => {
+    expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBe(9.8);
+    expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toBe(6.1);
+    expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:H/UI:N/S:U/C:H/I:H/A:H')).toBe(7.2);
+    expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:N/I:N/A:N')).toBe(0);
+    expect(cvssV3BaseScore('AV:N/AC:L/Au:N/C:P/I:P/A:P')).toBeUndefined();
+  });
+
+  it('skips withdrawn advisories', () => {
+    expect(database.size).toBe(3);
+    expect(database.findVulnerabilities('npm', 'express', '4.0.0')).toEqual([]);
+  });
+
+  it('matches versions against introduced and fixed events', () => {
+    expect(database.findVulnerabilities('npm', 'lodash', '4.17.15').map(v => v.id).sort())
+      .toEqual(['GHSA-35jh-r3h4-6jhm', 'GHSA-p6mc-m468-83gw']);
+    expect(database.findVulnerabilities('npm', 'lodash', '4.17.20').map(v => v.id)).toEqual(['GHSA-35jh-r3h4-6jhm']);
+    expect(database.findVulnerabilities('npm', 'lodash', '3.6.0').map(v => v.id)).toEqual(['GHSA-35jh-r3h4-6jhm']);
+    expect(database.findVulnerabilities('npm', 'lodash', '4.17.21')).toEqual([]);
+  });
+
+  it('treats last_affected as inclusive and falls back to the database severity', () => {
+    const [vulnerability] = database.findVulnerabilities('npm', 'minimist', '1.2.5');
+    expect(vulnerability).toMatchObject({
+      id: 'GHSA-xvch-5gv4-984h',
+      severity: 'critical',
+      affectedRanges: ['<0.2.4', '>=1.0.0 <=1.2.5'],
+      fixedVersions: ['0.2.4'],
+    });
+    expect(vulnerability.cvssScore).toBeUndefined();
+    expect(database.findVulnerabilities('npm', 'minimist', '1.2.6')).toEqual([]);
+    expect(database.findVulnerabilities('npm', 'minimist', '0.2.4')).toEqual([]);
+  });
+
+  it('reports advisory details with CVSS-derived severity', () => {
+    const [vulnerability] = database.findVulnerabilities('npm', 'lodash', '4.17.20');
+    expect(vulnerability).toEqual({
+      id: 'GHSA-35jh-r3h4-6jhm',
+      aliases: ['CVE-2021-23337'],
+      packageName: 'lodash',
+      ecosystem: 'npm',
+      version: '4.17.20',
+      summary: 'Command Injection in lodash',
+      severity: 'high',
+      cvssScore: 7.2,
+      cvssVector: 'CVSS:3.1/AV:N/AC:L/PR:H/UI:N/S:U/C:H/I:H/A:H',
+      affectedRanges: ['<4.17.21'],
+      fixedVersions: ['4.17.21'],
+      cwe: 'CWE-77',
+      url: 'https://nvd.nist.gov/vuln/detail/CVE-2021-23337',
+    });
+  });
+
+  it('loads advisories from zip exports in subdirectories', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'osv-'));
+    try {
+      const zip = new JSZip();
+      for (const name of fs.readdirSync(FIXTURES)) zip.file(name, fs.readFileSync(path.join(FIXTURES, name)));
+      fs.mkdirSync(path.join(dir, 'npm'));
+      fs.writeFileSync(path.join(dir, 'npm', 'all.zip'), await zip.generateAsync({ type: 'nodebuffer' }));
+      const zipped = await AdvisoryDatabase.load(dir);
+      expect(zipped.size).toBe(3);
+      expect(zipped.findVulnerabilities('npm', 'lodash', '4.17.20')).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('summarizes dependency vulnerabilities for the report', () => {
+    const packageJson = JSON.stringify({
+      dependencies: { lodash: '^4.17.15', minimist: '1.2.6', left: 'latest' },
+      devDependencies: { express: '^4.0.0' },
+    });
+    const metrics = new BackendAnalysisService().analyzeDependencyVulnerabilities(
+      parseDependencyManifests([{ path: 'package.json', content: packageJson }]),
+      database
+    );
+    expect(metrics).toMatchObject({
+      totalDependencies: 4,
+      devDependencies: 1,
+      vulnerablePackages: 1,
+      highVulnerabilities: 2,
+      criticalVulnerabilities: 0,
+      dependencyScore: 75,
+      vulnerabilityDistribution: [{ severity: 'High', count: 2, color: '#F59E0B' }],
+    });
+    expect(metrics.vulnerabilities?.map(v => v.packageName)).toEqual(['lodash', 'lodash']);
+    expect(metrics.vulnerabilities?.[0]).toMatchObject({ manifestPath: 'package.json', direct: true, dependencyPath: ['package.json', 'npm:lodash@^4.17.15'] });
+    expect(metrics.dependencyGraph.projects).toEqual(['package.json']);
+  });
+});
@@ -0,0 +1,279 @@
+import { AnalysisJobContext, AnalysisJobRequest, AnalysisJobService, JobStore } from '../services/analysisJobService';
+import { AnalysisJobEvent } from '../types';
+
+/**
+ * In-memory stand-in for the Redis primitives the queue uses. Values are serialized like
+ * Redis would, so nothing relies on sharing object references with the service.
+ */
+class MemoryJobStore implements JobStore {
+  values = new Map<string, string>();
+  lists = new Map<string, string[]>();
+  sets = new Map<string, Set<string>>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const value = this.values.get(key);
+    return value === undefined ? null : JSON.parse(value) as T;
+  }
+  async setRecord<T>(key: string, data: T): Promise<void> {
+    this.values.set(key, JSON.stringify(data));
+  }
+  async delete(key: string): Promise<boolean> {
+    return [this.values, this.lists, this.sets].some(map => map.delete(key));
+  }
+  async pushToList(key: string, value: string, options: { front?: boolean } = {}): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    if (options.front) list.unshift(value); else list.push(value);
+    this.lists.set(key, list);
+    return list.length;
+  }
+  async popFromList(key: string): Promise<string | null> {
+    return this.lists.get(key)?.shift() ?? null;
+  }
+  async getListRange(key: string, start: number, stop: number = -1): Promise<string[]> {
+    const list = this.lists.get(key) ?? [];
+    return list.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+  async removeFromList(key: string, value: string): Promise<number> {
+    const list = this.lists.get(key) ?? [];
+    const kept = list.filter(v => v !== value);
+    this.lists.set(key, kept);
+    return list.length - kept.length;
+  }
+  async addToSet(key: string, member: string): Promise<void> {
+    this.sets.set(key, (this.sets.get(key) ?? new Set()).add(member));
+  }
+  async removeFromSet(key: string, member: string): Promise<void> {
+    this.sets.get(key)?.delete(member);
+  }
+  async getSetMembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])];
+  }
+}
+
+/**
+ * Runner whose jobs stay in flight until the test settles them.
+ */
+const controllableRunner = () => {
+  const calls = new Map<string, { request: AnalysisJobRequest; context: AnalysisJobContext; resolve: (reportId: string) => void; reject: (error: Error) => void }>();
+  const runner = (request: AnalysisJobRequest, context: AnalysisJobContext) =>
+    new Promise<{ reportId: string }>((resolve, reject) => {
+      calls.set(context.jobId, { request, context, resolve: reportId => resolve({ reportId }), reject });
+    });
+  return { runner, calls };
+};
+
+const waitFor = async (condition: () => boolean | Promise<boolean>) => {
+  for (let i = 0; i < 100; i++) {
+    if (await condition()) return;
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  throw new Error('Condition not met');
+};
+
+describe('AnalysisJobService', () => {
+  it('runs jobs up to the concurrency limit and queues the rest', async () => {
+    const store = new MemoryJobStore();
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(store, runner, 1);
+
+    const { job: first } = await service.submit({ repoUrl: 'https://github.com/acme/one', githubToken: 'secret' });
+    const { job: second } = await service.submit({ repoUrl: 'https://github.com/acme/two' });
+    await waitFor(() => calls.has(first.id));
+
+    expect((await service.getJob(first.id))?.status).toBe('running');
+    expect((await service.getJob(second.id))?.status).toBe('queued');
+    expect(await service.getQueuePosition(second.id)).toBe(0);
+    expect(calls.has(second.id)).toBe(false);
+
+    calls.get(first.id)!.context.sendProgress('Analyzing files', 40);
+    calls.get(first.id)!.resolve('report-one');
+    await waitFor(() => calls.has(second.id));
+
+    const finished = await service.getJob(first.id);
+    expect(finished).toMatchObject({ status: 'completed', progress: 100, reportId: 'report-one' });
+    // Credentials are dropped once the job no longer needs them
+    expect(JSON.stringify([...store.values.values()])).not.toContain('secret');
+
+    const events = await service.getEvents(first.id);
+    expect(events.map(e => e.type)).toEqual(['status', 'status', 'progress', 'result', 'done']);
+    expect(events.map(e => e.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(events[3].data).toEqual({ reportId: 'report-one' });
+  });
+
+  it('reuses the active job for the same repository', async () => {
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(new MemoryJobStore(), runner, 1);
+
+    const { job: first } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    const { job: again } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    expect(again.id).toBe(first.id);
+
+    await waitFor(() => calls.has(first.id));
+    calls.get(first.id)!.reject(new Error('Rate limited'));
+    await waitFor(async () => (await service.getJob(first.id))?.status === 'failed');
+
+    const { job: retry } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    expect(retry.id).not.toBe(first.id);
+    expect((await service.getJob(first.id))?.error).toBe('Rate limited');
+  });
+
+  it('replays events after the last event ID and then streams new ones', async () => {
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(new MemoryJobStore(), runner, 1);
+
+    const { job } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    await waitFor(() => calls.has(job.id));
+    calls.get(job.id)!.context.sendProgress('Fetching files', 10);
+    calls.get(job.id)!.context.sendProgress('Analyzing files', 50);
+    await waitFor(async () => (await service.getEvents(job.id)).length === 4);
+
+    // A client that saw events 1 and 2 reconnects
+    const received: AnalysisJobEvent[] = [];
+    const unsubscribe = await service.subscribe(job.id, 2, event => received.push(event));
+    expect(received.map(e => [e.id, e.data.step])).toEqual([[3, 'Fetching files'], [4, 'Analyzing files']]);
+
+    calls.get(job.id)!.resolve('report-one');
+    await waitFor(() => received.some(e => e.type === 'done'));
+    unsubscribe();
+
+    expect(received.map(e => e.id)).toEqual([3, 4, 5, 6]);
+    expect(received.map(e => e.type)).toEqual(['progress', 'progress', 'result', 'done']);
+  });
+
+  it('cancels queued and running jobs', async () => {
+    const store = new MemoryJobStore();
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(store, runner, 1);
+
+    const { job: running } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    const { job: queued } = await service.submit({ repoUrl: 'https://github.com/acme/two' });
+    await waitFor(() => calls.has(running.id));
+
+    expect((await service.cancel(queued.id))?.status).toBe('cancelled');
+    expect(await service.getQueuePosition(queued.id)).toBeNull();
+
+    // A running job is signalled and stays running until its runner stops
+    expect(await service.cancel(running.id)).toMatchObject({ status: 'running', step: 'Cancelling' });
+    expect(calls.get(running.id)!.context.signal.aborted).toBe(true);
+    calls.get(running.id)!.context.sendProgress('Analyzing files', 60);
+
+    // The partial report the runner returns is kept, but the job is not completed
+    calls.get(running.id)!.resolve('partial-report');
+    await waitFor(async () => (await store.getSetMembers('jobs:running')).length === 0);
+    const cancelled = await service.getJob(running.id);
+    expect(cancelled).toMatchObject({ status: 'cancelled', reportId: 'partial-report' });
+    expect(calls.has(queued.id)).toBe(false);
+
+    const events = await service.getEvents(running.id);
+    expect(events.map(e => e.type)).toEqual(['status', 'status', 'status', 'done']);
+    expect(events[3].data).toMatchObject({ status: 'cancelled', reportId: 'partial-report' });
+  });
+
+  it('cancels a shared job only for its submitter', async () => {
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(new MemoryJobStore(), runner, 1);
+
+    const submitted = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    const viewer = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    const { job } = submitted;
+    await waitFor(() => calls.has(job.id));
+
+    expect(await service.withdraw(job.id, 'someone-else')).toBeNull();
+    expect(await service.withdraw(job.id, viewer.subscriberId)).toMatchObject({ status: 'running', step: 'Starting analysis' });
+    expect(calls.get(job.id)!.context.signal.aborted).toBe(false);
+
+    expect(await service.withdraw(job.id, submitted.subscriberId)).toMatchObject({ status: 'running', step: 'Cancelling' });
+    expect(calls.get(job.id)!.context.signal.aborted).toBe(true);
+  });
+
+  it('cancels a job when its last subscriber leaves', async () => {
+    const store = new MemoryJobStore();
+    const { runner } = controllableRunner();
+    const service = new AnalysisJobService(store, runner, 0);
+
+    const { job } = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    const viewer = await service.submit({ repoUrl: 'https://github.com/acme/one' });
+    // The submitter is gone without having cancelled
+    store.sets.get(`job:${job.id}:subscribers`)!.clear();
+    store.sets.get(`job:${job.id}:subscribers`)!.add(viewer.subscriberId);
+
+    expect(await service.withdraw(job.id, viewer.subscriberId)).toMatchObject({ status: 'cancelled' });
+  });
+
+  it('stores credentials encrypted and drops them when a job fails, is cancelled or cannot record its outcome', async () => {
+    const store = new MemoryJobStore();
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(store, runner, 1);
+    const request = (name: string) => ({ repoUrl: `https://github.com/acme/${name}`, githubToken: 'secret', llmConfig: { provider: 'openai' as const, apiKey: 'sk-secret', model: 'gpt-4o' } });
+    const isStored = () => JSON.stringify([...store.values.values()]).includes('secret');
+
+    const { job: failing } = await service.submit(request('one'));
+    const { job: queued } = await service.submit(request('two'));
+    expect(store.values.has(`job:${queued.id}:request`)).toBe(true);
+    expect(isStored()).toBe(false);
+    await waitFor(() => calls.has(failing.id));
+    expect(calls.get(failing.id)!.request).toEqual(request('one'));
+    await service.cancel(queued.id);
+    calls.get(failing.id)!.reject(new Error('Rate limited'));
+    await waitFor(async () => (await service.getJob(failing.id))?.status === 'failed');
+    expect(isStored()).toBe(false);
+
+    const { job: broken } = await service.submit(request('three'));
+    await waitFor(() => calls.has(broken.id));
+    store.setRecord = async () => { throw new Error('Redis unavailable'); };
+    calls.get(broken.id)!.resolve('report-three');
+    await waitFor(async () => (await store.getSetMembers('jobs:running')).length === 0);
+    expect(isStored()).toBe(false);
+  });
+
+  it('re-queues jobs that were running when the process stopped', async () => {
+    process.env.JOB_CREDENTIALS_KEY = 'shared-secret';
+    const store = new MemoryJobStore();
+    const before = controllableRunner();
+    const crashed = new AnalysisJobService(store, before.runner, 1);
+    const { job: interrupted } = await crashed.submit({ repoUrl: 'https://github.com/acme/one', githubToken: 'token' });
+    const { job: waiting } = await crashed.submit({ repoUrl: 'https://github.com/acme/two' });
+    await waitFor(() => before.calls.has(interrupted.id));
+
+    // A new process starts on the same store; the old one never finishes its job
+    const after = controllableRunner();
+    const restarted = new AnalysisJobService(store, after.runner, 1);
+    delete process.env.JOB_CREDENTIALS_KEY;
+    await restarted.recover();
+    await waitFor(() => after.calls.has(interrupted.id));
+
+    expect(after.calls.get(interrupted.id)!.request.githubToken).toBe('token');
+    expect(await restarted.getQueuePosition(waiting.id)).toBe(0);
+
+    after.calls.get(interrupted.id)!.resolve('report-one');
+    await waitFor(() => after.calls.has(waiting.id));
+    expect((await restarted.getJob(interrupted.id))?.status).toBe('completed');
+  });
+
+  it('fails queued jobs whose credentials were sealed by a process without a shared key', async () => {
+    const store = new MemoryJobStore();
+    const before = controllableRunner();
+    const crashed = new AnalysisJobService(store, before.runner, 0);
+    const { job: anonymous } = await crashed.submit({ repoUrl: 'https://github.com/acme/one' });
+    const { job: authenticated } = await crashed.submit({ repoUrl: 'https://github.com/acme/two', githubToken: 'token' });
+
+    const after = controllableRunner();
+    const restarted = new AnalysisJobService(store, after.runner, 2);
+    await restarted.recover();
+    await waitFor(async () => (await restarted.getJob(authenticated.id))?.status === 'failed');
+
+    expect((await restarted.getJob(authenticated.id))?.error).toMatch(/submit the analysis again/);
+    expect(after.calls.has(authenticated.id)).toBe(false);
+    await waitFor(() => after.calls.has(anonymous.id));
+  });
+
+  it('records cached reports as completed jobs', async () => {
+    const { runner, calls } = controllableRunner();
+    const service = new AnalysisJobService(new MemoryJobStore(), runner, 1);
+
+    const job = await service.createCompletedJob('https://github.com/acme/one', 'cached-report');
+    expect(job).toMatchObject({ status: 'completed', reportId: 'cached-report' });
+    expect((await service.getEvents(job.id)).map(e => e.type)).toEqual(['status', 'result', 'done']);
+    expect(calls.size).toBe(0);
+  });
+});
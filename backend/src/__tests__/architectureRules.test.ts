@@ -0,0 +1,95 @@
+import { architectureRulesJUnit, checkArchitectureRules, DEFAULT_ARCHITECTURE_RULES, stronglyConnectedComponents } from '../services/architectureRules';
+import { ArchitectureData, SystemArchitecture } from '../types';
+
+const files = [
+  { path: 'src/pages/Orders.tsx', content: `import { listOrders } from '../services/orders';\nimport { db } from '../models/db';\nexport const Orders = () => listOrders(db);\n` },
+  { path: 'src/services/orders.ts', content: `import { db } from '../models/db';\nimport { audit } from './audit';\nexport const listOrders = () => { audit(); return db; };\n` },
+  { path: 'src/services/audit.ts', content: `import type { Order } from '../models/order';\nconst { listOrders } = require('./orders');\nexport function audit() { return listOrders; }\n` },
+  { path: 'src/models/db.ts', content: `export const db = {};\n` },
+  { path: 'src/models/order.ts', content: `import { audit } from '../services/audit';\nexport interface Order { id: string }\naudit();\n` },
+  { path: 'src/models/self.js', content: `module.exports = require('./self');\n` },
+];
+
+const layerOf = (file: string) => (file.includes('/pages/') ? 'presentation' : file.includes('/services/') ? 'business' : 'data');
+const architecture: ArchitectureData = {
+  nodes: files.map(file => ({ id: file.path, name: file.path, type: 'module', path: file.path, layer: layerOf(file.path) })),
+  links: [],
+};
+
+const component = (id: string, type: 'frontend' | 'service' | 'database', componentFiles: string[]) =>
+  ({ id, name: id, type, path: `src/${id}`, dependencies: [], files: componentFiles, complexity: 1 });
+const pages = component('pages', 'frontend', ['src/pages/Orders.tsx']);
+const services = component('services', 'service', ['src/services/orders.ts', 'src/services/audit.ts']);
+const models = component('models', 'database', ['src/models/db.ts', 'src/models/order.ts', 'src/models/self.js']);
+const system: SystemArchitecture = {
+  layers: [
+    { name: 'Presentation Layer', type: 'presentation', components: [pages] },
+    { name: 'Business Layer', type: 'business', components: [services] },
+    { name: 'Data Layer', type: 'data', components: [models] },
+  ],
+  components: [pages, services, models],
+  dependencies: [
+    { from: 'pages', to: 'services', type: 'uses' },
+    { from: 'pages', to: 'models', type: 'uses' },
+    { from: 'services', to: 'models', type: 'uses' },
+    { from: 'models', to: 'services', type: 'uses' },
+  ],
+  mermaidDiagram: '',
+  patterns: [],
+  summary: '',
+};
+
+describe('checkArchitectureRules', () => {
+  const report = checkArchitectureRules(files, architecture, system, DEFAULT_ARCHITECTURE_RULES);
+
+  it('reports file cycles with the chain of imports, ignoring type-only imports', () => {
+    const fileCycles = report.cycles.filter(cycle => cycle.graph === 'file');
+    expect(fileCycles.map(cycle => cycle.members)).toEqual([
+      ['src/services/audit.ts', 'src/services/orders.ts'],
+      ['src/models/self.js'],
+    ]);
+    expect(fileCycles[0].chain).toEqual([
+      { from: 'src/services/audit.ts', to: 'src/services/orders.ts', file: 'src/services/audit.ts', line: 2, specifier: './orders' },
+      { from: 'src/services/orders.ts', to: 'src/services/audit.ts', file: 'src/services/orders.ts', line: 2, specifier: './audit' },
+    ]);
+  });
+
+  it('reports component cycles with a file import behind each step', () => {
+    const componentCycles = report.cycles.filter(cycle => cycle.graph === 'component');
+    expect(componentCycles).toHaveLength(1);
+    expect(componentCycles[0].members).toEqual(['src/models', 'src/services']);
+    expect(componentCycles[0].chain.map(step => [step.from, step.to, step.file, step.line])).toEqual([
+      ['src/models', 'src/services', 'src/models/order.ts', 1],
+      ['src/services', 'src/models', 'src/services/orders.ts', 1],
+    ]);
+  });
+
+  it('checks layer rules against the file and component layers', () => {
+    expect(report.violations.map(violation => [violation.graph, violation.import.from, violation.import.to, violation.import.line])).toEqual([
+      ['component', 'src/pages', 'src/models', 2],
+      ['file', 'src/pages/Orders.tsx', 'src/models/db.ts', 2],
+    ]);
+    expect(report.passed).toBe(false);
+
+    const relaxed = checkArchitectureRules(files, architecture, system, { layerRules: [], failOnCycles: false });
+    expect(relaxed.violations).toEqual([]);
+    expect(relaxed.passed).toBe(true);
+  });
+
+  it('exports the results as JUnit XML', () => {
+    const xml = architectureRulesJUnit(report);
+    expect(xml).toContain('<testsuite name="architecture-rules" tests="5" failures="5" skipped="0">');
+    expect(xml).toContain('src/services/audit.ts -&gt; src/services/orders.ts (line 2, &#x27;./orders&#x27;)');
+    expect(xml).toContain('message="Presentation code should reach data through the business layer"');
+  });
+});
+
+describe('stronglyConnectedComponents', () => {
+  it('handles import chains too long to walk recursively', () => {
+    const size = 20000;
+    const nodes = Array.from({ length: size }, (_, i) => `m${i}`);
+    const components = stronglyConnectedComponents(nodes, node => [`m${(Number(node.slice(1)) + 1) % size}`]);
+    expect(components).toHaveLength(1);
+    expect(components[0]).toHaveLength(size);
+  });
+});
@@ -0,0 +1,127 @@
+import { buildCallGraph, callGraphNeighbourhood } from '../services/callGraph';
+
+const files = [
+  {
+    path: 'src/orders.ts',
+    content: `import { format } from './utils';
+import axios from 'axios';
+
+export class Orders {
+  save(order) {
+    this.validate(order);
+    axios.post('/orders', format(order));
+    return order.lines.map(line => line.total());
+  }
+
+  validate(order) {
+    this.hooks[order.kind]();
+  }
+}
+
+const orders = new Orders();
+
+export const api = {
+  submit: (order) => orders.save(order),
+};
+`,
+  },
+  {
+    path: 'src/utils/index.ts',
+    content: `export function format(value) {
+  return JSON.stringify(value);
+}
+
+export default function (message) {
+  console.log(format(message));
+}
+`,
+  },
+  {
+    path: 'src/index.ts',
+    content: `export * from './utils';
+export { api as orderApi } from './orders';
+`,
+  },
+  {
+    path: 'src/cli.js',
+    content: `const { orderApi, format } = require('./index');
+const log = require('./utils').default;
+
+function main(args, callback) {
+  orderApi.submit(format(args));
+  log(args);
+  callback();
+}
+
+main(process.argv);
+`,
+  },
+];
+
+describe('buildCallGraph', () => {
+  const graph = buildCallGraph(files);
+  const edgesFrom = (id: string) => graph.edges.filter(edge => edge.from === id);
+
+  it('names nodes like key functions', () => {
+    expect(graph.nodes.map(node => node.id)).toEqual([
+      'src/orders.ts#Orders.save',
+      'src/orders.ts#Orders.validate',
+      'src/orders.ts#api.submit',
+      'src/utils/index.ts#format',
+      'src/utils/index.ts#default',
+      'src/cli.js#main',
+      'src/cli.js#<module>',
+    ]);
+    expect(graph.nodes.find(node => node.id === 'src/orders.ts#api.submit')).toMatchObject({ exported: true, startLine: 19, endLine: 19 });
+    expect(graph.nodes.find(node => node.id === 'src/cli.js#main')?.exported).toBeUndefined();
+  });
+
+  it('follows calls through imports, re-exports and instances', () => {
+    expect(edgesFrom('src/orders.ts#Orders.save')).toEqual([
+      { from: 'src/orders.ts#Orders.save', to: 'src/orders.ts#Orders.validate', callee: 'this.validate', line: 6, resolution: 'internal' },
+      { from: 'src/orders.ts#Orders.save', callee: 'axios.post', line: 7, resolution: 'external', module: 'axios' },
+      { from: 'src/orders.ts#Orders.save', to: 'src/utils/index.ts#format', callee: 'format', line: 7, resolution: 'internal' },
+      { from: 'src/orders.ts#Orders.save', callee: 'order.lines.map', line: 8, resolution: 'dynamic' },
+      { from: 'src/orders.ts#Orders.save', callee: 'line.total', line: 8, resolution: 'dynamic' },
+    ]);
+    expect(edgesFrom('src/orders.ts#api.submit')).toMatchObject([{ to: 'src/orders.ts#Orders.save', callee: 'orders.save' }]);
+    expect(edgesFrom('src/cli.js#main')).toMatchObject([
+      { callee: 'orderApi.submit', to: 'src/orders.ts#api.submit', resolution: 'internal' },
+      { callee: 'format', to: 'src/utils/index.ts#format', resolution: 'internal' },
+      { callee: 'log', to: 'src/utils/index.ts#default', resolution: 'internal' },
+      { callee: 'callback', resolution: 'dynamic' },
+    ]);
+    expect(edgesFrom('src/cli.js#<module>')).toMatchObject([{ callee: 'main', to: 'src/cli.js#main' }]);
+  });
+
+  it('marks dynamic calls instead of dropping them, and skips globals', () => {
+    expect(edgesFrom('src/orders.ts#Orders.validate')).toEqual([
+      { from: 'src/orders.ts#Orders.validate', callee: 'this.hooks[order.kind]', line: 12, resolution: 'dynamic' },
+    ]);
+    // console.log and JSON.stringify are never declared in the file
+    expect(edgesFrom('src/utils/index.ts#format')).toEqual([]);
+  });
+});
+
+describe('callGraphNeighbourhood', () => {
+  const graph = buildCallGraph(files);
+
+  it('collects callers and callees up to the depth', () => {
+    const neighbourhood = callGraphNeighbourhood(graph, 'src/orders.ts#api.submit', 1);
+    expect(neighbourhood?.distances).toEqual({
+      'src/orders.ts#api.submit': 0,
+      'src/orders.ts#Orders.save': 1,
+      'src/cli.js#main': -1,
+    });
+
+    const wider = callGraphNeighbourhood(graph, 'src/orders.ts#api.submit', 2);
+    expect(wider?.distances).toMatchObject({
+      'src/orders.ts#Orders.validate': 2,
+      'src/utils/index.ts#format': 2,
+      'src/cli.js#<module>': -2,
+    });
+    // Unresolved calls of the focus and its nearer callees come along
+    expect(wider?.edges.filter(edge => edge.resolution !== 'internal').map(edge => edge.callee)).toEqual(['axios.post', 'order.lines.map', 'line.total']);
+    expect(callGraphNeighbourhood(graph, 'src/orders.ts#missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+import { cloneDebt, DEFAULT_CLONE_DETECTION_CONFIG, detectClones, tokenize } from '../services/cloneDetection';
+
+const original = `export function total(items: Item[], rate: number) {
+  let sum = 0;
+  for (const item of items) {
+    if (item.price > 100) sum += item.price * rate;
+    else sum += item.price;
+  }
+  const rounded = Math.round(sum * 100) / 100;
+  console.log('total', rounded);
+  return rounded;
+}
+`;
+
+// The same tokens, laid out and commented differently
+const reformatted = `// Order totals
+export function total(items: Item[], rate: number) { let sum = 0; /* running */
+  for (const item of items) { if (item.price > 100) sum += item.price * rate; else sum += item.price; }
+  const rounded = Math.round(sum * 100) / 100; console.log('total', rounded); return rounded;
+}
+`;
+
+const renamed = original
+  .replace(/items/g, 'lines').replace(/item\b/g, 'line').replace(/rate/g, 'factor')
+  .replace(/sum/g, 'acc').replace(/price/g, 'cost').replace('> 100', '> 50');
+
+const edited = original.replace('  }\n', '  }\n  if (!items.length) return 0;\n');
+
+const table = `export const LANGUAGES = {\n${Array.from({ length: 40 }, (_, i) => `  '.e${i}': 'language${i}',`).join('\n')}\n};\n`;
+
+const config = { ...DEFAULT_CLONE_DETECTION_CONFIG, minTokens: 20 };
+
+describe('detectClones', () => {
+  it('finds copies that differ only in layout and comments as type 1', () => {
+    const report = detectClones([{ path: 'src/total.ts', content: original }, { path: 'src/copy.ts', content: reformatted }], config);
+    expect(report.classes).toHaveLength(1);
+    expect(report.classes[0]).toMatchObject({ type: 1, lines: 10 });
+    expect(report.classes[0].fragments.map(fragment => [fragment.file, fragment.startLine, fragment.endLine])).toEqual([
+      ['src/total.ts', 1, 10],
+      ['src/copy.ts', 2, 5],
+    ]);
+    expect(report.classes[0].fragments[0].content).toBe(original.trimEnd());
+  });
+
+  it('merges overlapping windows into one class and reports renamed copies as type 2', () => {
+    const report = detectClones([
+      { path: 'src/total.ts', content: original },
+      { path: 'src/copy.ts', content: reformatted },
+      { path: 'src/renamed.ts', content: renamed },
+      { path: 'src/table.ts', content: table },
+      { path: 'README.md', content: original },
+    ], config);
+    expect(report.classes).toHaveLength(1);
+    expect(report.classes[0].type).toBe(2);
+    expect(report.classes[0].fragments.map(fragment => fragment.file)).toEqual(['src/total.ts', 'src/copy.ts', 'src/renamed.ts']);
+    // The rows of a lookup table repeat each other without being clones, and markdown is not searched
+    expect(report.files.map(file => [file.file, file.duplicatedLines, file.totalLines])).toEqual([
+      ['src/renamed.ts', 10, 11],
+      ['src/total.ts', 10, 11],
+      ['src/copy.ts', 4, 6],
+    ]);
+    expect(report.duplicatedLines).toBe(24);
+  });
+
+  it('joins clones separated by small edits as type 3 when gapped clones are enabled', () => {
+    const files = [{ path: 'src/total.ts', content: original }, { path: 'src/edited.ts', content: edited }];
+
+    const exact = detectClones(files, config);
+    expect(exact.classes.map(clone => [clone.type, clone.fragments.map(fragment => `${fragment.file}:${fragment.startLine}-${fragment.endLine}`)])).toEqual([
+      [1, ['src/total.ts:1-6', 'src/edited.ts:1-6']],
+      [1, ['src/total.ts:7-10', 'src/edited.ts:8-11']],
+    ]);
+
+    const gapped = detectClones(files, { ...config, gapped: true });
+    expect(gapped.classes).toHaveLength(1);
+    expect(gapped.classes[0]).toMatchObject({ type: 3, lines: 11 });
+    expect(gapped.files.find(file => file.file === 'src/edited.ts')?.duplicatedLines).toBe(11);
+  });
+
+  it('ignores clones shorter than the minimum and configured files', () => {
+    const files = [{ path: 'src/total.ts', content: original }, { path: 'src/copy.ts', content: reformatted }];
+    expect(detectClones(files, { ...config, minTokens: 100 }).classes).toEqual([]);
+    expect(detectClones(files, { ...config, ignoreFiles: ['src/copy.*'] }).classes).toEqual([]);
+  });
+});
+
+describe('cloneDebt', () => {
+  it('reports a debt item per class with the other locations', () => {
+    const report = detectClones([{ path: 'src/total.ts', content: original }, { path: 'src/renamed.ts', content: renamed }], config);
+    expect(cloneDebt(report)).toEqual([expect.objectContaining({
+      type: 'duplication',
+      rule: 'clone-type-2',
+      file: 'src/total.ts',
+      line: 1,
+      severity: 'low',
+      recommendation: expect.stringContaining('src/renamed.ts:1-10'),
+    })]);
+  });
+});
+
+describe('tokenize', () => {
+  it('drops comments and normalizes identifiers and literals', () => {
+    const tokens = tokenize(`x = 'a # b'  # note\nif x: """doc\n"""`, 'python')!;
+    expect(tokens.map(token => token.normalized)).toEqual(['$id', '=', '$str', 'if', '$id', ':', '$str']);
+    expect(tokens[tokens.length - 1]).toMatchObject({ line: 2, endLine: 3 });
+    expect(tokenize('{}', 'json')).toBeUndefined();
+  });
+});
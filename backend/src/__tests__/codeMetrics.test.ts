@@ -0,0 +1,120 @@
+import { analyzeCode, functionLengthDistribution, halsteadMetrics, maintainabilityIndex, measureCode } from '../services/codeMetrics';
+import { analyzeJavaScript } from '../services/javascriptSyntax';
+import { FunctionInfo } from '../types';
+
+describe('halsteadMetrics', () => {
+  it('derives the measures from the operators and operands', () => {
+    // x = a + b * a
+    const metrics = halsteadMetrics(['=', '+', '*'], ['x', 'a', 'b', 'a']);
+    expect(metrics).toMatchObject({
+      distinctOperators: 3,
+      distinctOperands: 3,
+      totalOperators: 3,
+      totalOperands: 4,
+      vocabulary: 6,
+      length: 7,
+      volume: 18.09,
+      difficulty: 2,
+      effort: 36.19,
+      time: 2.01,
+      bugs: 0.006,
+    });
+    expect(halsteadMetrics([], [])).toMatchObject({ volume: 0, difficulty: 0, effort: 0 });
+  });
+});
+
+describe('maintainabilityIndex', () => {
+  it('rescales the classic index to 0-100', () => {
+    expect(maintainabilityIndex(0, 1, 0)).toBe(100);
+    expect(maintainabilityIndex(1000, 10, 100)).toBe(34);
+    expect(maintainabilityIndex(1e9, 500, 100000)).toBe(0);
+  });
+});
+
+describe('functionLengthDistribution', () => {
+  it('buckets functions by their lines of code', () => {
+    const fn = (name: string, sloc: number): FunctionInfo => ({ name, startLine: 1, endLine: sloc + 5, sloc });
+    expect(functionLengthDistribution([fn('a', 4), fn('b', 10), fn('c', 30), fn('d', 120)])).toEqual({
+      count: 4,
+      mean: 41,
+      median: 20,
+      max: 120,
+      buckets: { '1-10': 2, '11-25': 0, '26-50': 1, '51-100': 0, '101+': 1 },
+      longest: { name: 'd', startLine: 1, lines: 120 },
+    });
+    expect(functionLengthDistribution([])).toMatchObject({ count: 0, mean: 0, median: 0, max: 0 });
+  });
+});
+
+describe('analyzeJavaScript', () => {
+  const source = `// Totals
+export class Cart {
+  total(items: number[], rate = 0.2, ...rest): number {
+    let sum = 0;
+    for (const i of items) {
+      if (i > 0 && rate || i < -1) {
+        sum += i;
+      } else if (i === 0) {
+        continue;
+      } else {
+        items.forEach(x => { if (x) { sum++; } });
+      }
+    }
+    return sum > 0 ? sum : 0;
+  }
+
+  private refresh = async () => {};
+}
+
+const api = { get() { return 1; }, nested: { put: () => 2 } };
+module.exports.run = function () {};
+export default () => {};
+`;
+
+  it('names methods, object members and assigned functions', () => {
+    const { functions } = analyzeJavaScript(source);
+    expect(functions.map(fn => fn.name)).toEqual(['Cart.total', 'Cart.refresh', 'api.get', 'api.nested.put', 'module.exports.run', 'default']);
+    expect(functions[0]).toMatchObject({
+      startLine: 3,
+      endLine: 15,
+      sloc: 13,
+      // for, if, &&, ||, else if, the callback's if, the conditional
+      cyclomaticComplexity: 8,
+      // for 1, if 2, the two operators 2, else if 1, else 1, the callback's if 4, the conditional 1
+      cognitiveComplexity: 12,
+      nestingDepth: 3,
+      parameters: [
+        { name: 'items', type: 'number[]', optional: false },
+        { name: 'rate', type: 'any', optional: true, initializer: '0.2' },
+        { name: '...rest', type: 'any', optional: true },
+      ],
+      returnType: 'number',
+    });
+    expect(functions[1]).toMatchObject({ isAsync: true, visibility: 'private' });
+  });
+
+  it('measures the whole file', () => {
+    const metrics = measureCode(analyzeJavaScript(source), source);
+    expect(metrics).toMatchObject({
+      complexity: 8,
+      cognitiveComplexity: 12,
+      maxNestingDepth: 3,
+      linesOfCode: 23,
+      sourceLinesOfCode: 19,
+      functions: { count: 6, max: 13, longest: { name: 'Cart.total', startLine: 3, lines: 13 } },
+    });
+    // Comments are neither operators nor operands
+    expect(metrics.halstead?.totalOperators).toBeGreaterThan(0);
+    expect(analyzeJavaScript('// a\n/* b */').operators).toEqual([]);
+    expect(metrics.maintainability).toBeGreaterThan(0);
+    expect(metrics.maintainability).toBeLessThan(100);
+  });
+});
+
+describe('analyzeCode', () => {
+  it('picks the analyzer for the file\'s language', async () => {
+    expect((await analyzeCode('app.py', 'def f():\n    return 1\n'))?.functions.map(fn => fn.name)).toEqual(['f']);
+    expect((await analyzeCode('app.ts', 'function f() {}'))?.functions.map(fn => fn.name)).toEqual(['f']);
+    expect(await analyzeCode('README.md', '# Title')).toBeUndefined();
+  });
+});
@@ -0,0 +1,122 @@
+import { codeSmellConfig, DEFAULT_CODE_SMELL_CONFIG, findCodeSmells, loadCodeSmellConfig } from '../services/codeSmells';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const typescript = `// @ts-ignore
+import legacy from './legacy';
+
+const TIMEOUT = 3000;
+enum Level { Low = 10, High = 20 }
+const company = { size: 250 };
+
+export function schedule(job: any, retries = 3) {
+  const items: any[] = [job];
+  console.log('scheduling', items[5]);
+  return setTimeout(() => legacy(job), 1500 * -1 + TIMEOUT);
+}
+
+export function register(name: string, host: string, port: number, user: string, password: string, database: string) {
+  for (const a of [name]) {
+    if (a) {
+      while (port) {
+        try {
+          if (host) return user;
+        } catch {}
+      }
+    }
+  }
+  return password + database;
+}
+
+export class Registry {
+${Array.from({ length: 21 }, (_, i) => `  method${i}() { return ${i % 2}; }`).join('\n')}
+}
+`;
+
+const python = `def connect(host, port, user, password, database, timeout):
+    return None
+`;
+
+const files = [
+  { path: 'src/jobs.ts', content: typescript },
+  { path: 'src/__tests__/jobs.test.ts', content: `console.log(42);\nconst x: any = 1;\n` },
+  { path: 'db/connect.py', content: python },
+  { path: 'docs/notes.md', content: 'Set `any` option; // @ts-ignore' },
+];
+
+const found = (debt: Awaited<ReturnType<typeof findCodeSmells>>) => debt.map(item => `${item.rule} ${item.file}:${item.line}`);
+
+describe('findCodeSmells', () => {
+  it('reports the built-in rules from syntax trees rather than text', async () => {
+    const debt = await findCodeSmells(files, DEFAULT_CODE_SMELL_CONFIG);
+    expect(found(debt)).toEqual([
+      'explicit-any src/jobs.ts:8',
+      'explicit-any src/jobs.ts:9',
+      'ts-ignore src/jobs.ts:1',
+      'console-log src/jobs.ts:10',
+      // Constants, enum members, properties, defaults and indexes name their numbers
+      'magic-number src/jobs.ts:11',
+      'long-parameter-list src/jobs.ts:14',
+      'deep-nesting src/jobs.ts:14',
+      'god-class src/jobs.ts:28',
+      'explicit-any src/__tests__/jobs.test.ts:2',
+      'long-parameter-list db/connect.py:1',
+    ]);
+    expect(debt.find(item => item.rule === 'god-class')).toMatchObject({
+      type: 'complexity',
+      severity: 'high',
+      effort: 'high',
+      description: 'Registry has 21 methods (limit 20).',
+    });
+    expect(debt.find(item => item.rule === 'magic-number')?.description).toBe('Magic number 1500.');
+  });
+
+  it('applies per-repository changes to the rules', async () => {
+    const config = codeSmellConfig({
+      rules: [
+        { id: 'magic-number', enabled: false },
+        { id: 'explicit-any', enabled: false },
+        { id: 'long-parameter-list', threshold: 6, severity: 'high' },
+        { id: 'god-class', threshold: 25 },
+      ],
+      ignoreFiles: ['src/__tests__/**'],
+    });
+    const debt = await findCodeSmells(files, config);
+    expect(found(debt)).toEqual([
+      'ts-ignore src/jobs.ts:1',
+      'console-log src/jobs.ts:10',
+      'deep-nesting src/jobs.ts:14',
+    ]);
+
+    const strict = await findCodeSmells(files, codeSmellConfig({ rules: [{ id: 'long-parameter-list', threshold: 5, severity: 'high' }] }));
+    expect(strict.filter(item => item.rule === 'long-parameter-list').map(item => item.severity)).toEqual(['high', 'high']);
+  });
+
+  it('layers the checked-in .code-smells.json over the server rules', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smells-'));
+    const serverRules = path.join(dir, 'code-smells.json');
+    fs.writeFileSync(serverRules, JSON.stringify({ rules: [{ id: 'console-log', enabled: false }, { id: 'god-class', threshold: 30 }] }));
+    process.env.CODE_SMELL_RULES_PATH = serverRules;
+    try {
+      const checkedIn = { path: '.code-smells.json', content: JSON.stringify({ rules: [{ id: 'god-class', threshold: 10 }], ignoreFiles: ['scripts/**'] }) };
+      const config = await loadCodeSmellConfig([...files, checkedIn]);
+      expect(config.rules.find(rule => rule.id === 'console-log')?.enabled).toBe(false);
+      expect(config.rules.find(rule => rule.id === 'god-class')?.threshold).toBe(10);
+      expect(config.ignoreFiles).toEqual(['scripts/**']);
+      // A file of that name below the root is not the repository's configuration
+      expect((await loadCodeSmellConfig([{ ...checkedIn, path: 'docs/.code-smells.json' }])).rules.find(rule => rule.id === 'god-class')?.threshold).toBe(30);
+    } finally {
+      delete process.env.CODE_SMELL_RULES_PATH;
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    expect(await loadCodeSmellConfig(files)).toBe(DEFAULT_CODE_SMELL_CONFIG);
+  });
+
+  it('rejects rules it does not know', () => {
+    expect(() => codeSmellConfig({ rules: [{ id: 'no-any' }] })).toThrow();
+    expect(DEFAULT_CODE_SMELL_CONFIG.rules.find(rule => rule.id === 'deep-nesting')).toEqual({
+      id: 'deep-nesting', enabled: true, severity: 'medium', effort: 'medium', threshold: 4,
+    });
+  });
+});
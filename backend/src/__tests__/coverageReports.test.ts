@@ -0,0 +1,125 @@
+import { coveragePercentage, readCoverageReports } from '../services/coverageReports';
+import { isCoverageReport } from '../services/repositoryFiles';
+
+const repositoryPaths = [
+  'package.json',
+  'src/cart.ts',
+  'src/util/index.ts',
+  'packages/api/src/util/index.ts',
+  'app/models.py',
+  'service/src/main/java/com/shop/Order.java',
+];
+
+// Run on a CI machine, so files are named by absolute paths
+const lcov = `TN:
+SF:/home/runner/work/shop/shop/src/cart.ts
+DA:1,4
+DA:2,4
+DA:3,0
+DA:5,1
+BRDA:2,0,0,4
+BRDA:2,0,1,0
+BRDA:5,1,0,-
+end_of_record
+SF:/home/runner/work/shop/shop/src/generated.ts
+DA:1,1
+end_of_record
+`;
+
+const istanbul = JSON.stringify({
+  '/work/packages/api/src/util/index.ts': {
+    path: '/work/packages/api/src/util/index.ts',
+    statementMap: {
+      0: { start: { line: 1, column: 0 }, end: { line: 1, column: 20 } },
+      1: { start: { line: 2, column: 2 }, end: { line: 2, column: 9 } },
+      2: { start: { line: 2, column: 10 }, end: { line: 2, column: 30 } },
+    },
+    s: { 0: 3, 1: 0, 2: 2 },
+    branchMap: {},
+    b: { 0: [3, 0] },
+  },
+});
+
+const cobertura = `<?xml version="1.0" ?>
+<coverage line-rate="0.5" branch-rate="0.5" version="7.4">
+  <sources><source>/builds/shop/app</source></sources>
+  <packages>
+    <package name="app">
+      <classes>
+        <class name="models.py" filename="models.py">
+          <lines>
+            <line number="1" hits="1"/>
+            <line number="4" hits="1" branch="true" condition-coverage="50% (1/2)"/>
+            <line number="5" hits="0"/>
+            <line number="7" hits="0"/>
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+const jacoco = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<!DOCTYPE report PUBLIC "-//JACOCO//DTD Report 1.1//EN" "report.dtd">
+<report name="service">
+  <package name="com/shop">
+    <sourcefile name="Order.java">
+      <line nr="3" mi="0" ci="3" mb="0" cb="0"/>
+      <line nr="8" mi="2" ci="4" mb="1" cb="3"/>
+      <line nr="9" mi="5" ci="0" mb="0" cb="0"/>
+    </sourcefile>
+  </package>
+</report>`;
+
+describe('readCoverageReports', () => {
+  it('reads line and branch coverage from lcov, Istanbul, Cobertura and JaCoCo reports', () => {
+    const report = readCoverageReports([
+      { path: 'coverage/lcov.info', content: lcov },
+      { path: 'packages/api/coverage/coverage-final.json', content: istanbul },
+      { path: 'coverage.xml', content: cobertura },
+      { path: 'service/build/reports/jacoco/test/jacocoTestReport.xml', content: jacoco },
+    ], repositoryPaths)!;
+
+    expect(report.reports.map(r => r.format)).toEqual(['lcov', 'istanbul', 'cobertura', 'jacoco']);
+    expect(report.files).toEqual({
+      'app/models.py': { lines: { covered: 2, total: 4 }, branches: { covered: 1, total: 2 } },
+      // Matched inside the package the report belongs to, not src/util/index.ts
+      'packages/api/src/util/index.ts': { lines: { covered: 2, total: 2 }, branches: { covered: 1, total: 2 } },
+      'service/src/main/java/com/shop/Order.java': { lines: { covered: 2, total: 3 }, branches: { covered: 3, total: 4 } },
+      'src/cart.ts': { lines: { covered: 3, total: 4 }, branches: { covered: 1, total: 3 } },
+    });
+    expect(report.lines).toEqual({ covered: 9, total: 13 });
+    expect(report.branches).toEqual({ covered: 6, total: 11 });
+    expect(report.unmatchedFiles).toBe(1);
+    expect(coveragePercentage(report.lines)).toBe(69.2);
+  });
+
+  it('counts a line covered when any report saw it run', () => {
+    const rerun = 'SF:src/cart.ts\nDA:3,2\nBRDA:2,0,1,1\nend_of_record\n';
+    const report = readCoverageReports([
+      { path: 'coverage/lcov.info', content: lcov },
+      { path: 'coverage/integration.lcov', content: rerun },
+    ], repositoryPaths)!;
+    expect(report.files['src/cart.ts']).toEqual({ lines: { covered: 4, total: 4 }, branches: { covered: 2, total: 3 } });
+  });
+
+  it('skips reports it cannot read and returns nothing without a readable report', () => {
+    const errors: string[] = [];
+    const report = readCoverageReports([
+      { path: 'coverage/coverage-final.json', content: '{ not json' },
+      { path: 'docs/coverage.xml', content: '<checklist><item/></checklist>' },
+    ], repositoryPaths, file => errors.push(file));
+    expect(report).toBeUndefined();
+    expect(errors).toEqual(['coverage/coverage-final.json', 'docs/coverage.xml']);
+  });
+});
+
+describe('isCoverageReport', () => {
+  it('recognizes report file names inside output directories', () => {
+    expect(isCoverageReport('coverage/lcov.info')).toBe(true);
+    expect(isCoverageReport('target/site/jacoco/jacoco.xml')).toBe(true);
+    expect(isCoverageReport('build/cobertura-coverage.xml')).toBe(true);
+    expect(isCoverageReport('node_modules/pkg/coverage/lcov.info')).toBe(false);
+    expect(isCoverageReport('src/coverage.ts')).toBe(false);
+  });
+});
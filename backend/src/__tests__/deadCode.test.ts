@@ -0,0 +1,74 @@
+import { DEFAULT_DEAD_CODE_CONFIG, findDeadCode, globPattern } from '../services/deadCode';
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const files = [
+  {
+    path: 'package.json',
+    content: json({
+      name: 'shop',
+      scripts: { start: 'tsx server.ts', lint: 'eslint .' },
+      dependencies: { express: '^4.0.0', lodash: '^4.0.0', 'left-pad': '^1.0.0', tailwindcss: '^3.0.0', eslint: '^9.0.0', '@types/express': '^4.0.0' },
+    }),
+  },
+  { path: 'server.ts', content: `import express from 'express';\nimport { routes } from './src/routes';\nexpress().use(routes);\n` },
+  { path: 'src/routes.ts', content: `import { format, type Money } from './utils';\nexport * from './handlers';\nexport const routes = [];\nexport const unusedRoute = format(1 as Money);\n` },
+  { path: 'src/utils/index.ts', content: `export function format(value: number) { return String(value); }\nexport function parse(text: string) { return Number(text); }\nexport type Money = number;\n` },
+  { path: 'src/handlers.ts', content: `export const list = () => [];\nexport const remove = () => {};\n` },
+  { path: 'src/legacy.ts', content: `import { parse } from './utils';\nexport const old = parse('1');\n` },
+  { path: 'src/config.js', content: `const { list } = require('./handlers');\nmodule.exports = list;\n` },
+  { path: 'src/admin.ts', content: `import * as helpers from './helpers';\nexport const admin = helpers;\n` },
+  { path: 'src/helpers.ts', content: `export const a = 1;\nexport const b = 2;\n` },
+  { path: 'src/__tests__/routes.test.ts', content: `import { list } from '../routes';\nimport '../admin';\nlist();\n` },
+  { path: 'src/global.d.ts', content: `declare const VERSION: string;\n` },
+  { path: 'tailwind.config.js', content: `module.exports = { content: ['./src/**/*.ts'] };\n` },
+  { path: 'src/styles.css', content: `@import "tailwindcss";\n` },
+  { path: 'web/index.html', content: `<script type="module" src="/main.tsx"></script>` },
+  { path: 'web/main.tsx', content: `import('./lazy').then(m => m.default);\n` },
+  { path: 'web/lazy.tsx', content: `export default 1;\nexport const extra = 2;\n` },
+];
+
+const byRule = (rule: string, debt: ReturnType<typeof findDeadCode>) =>
+  debt.filter(item => item.rule === rule).map(item => (item.line ? `${item.file}:${item.line}` : item.file));
+
+describe('findDeadCode', () => {
+  const debt = findDeadCode(files, DEFAULT_DEAD_CODE_CONFIG);
+
+  it('reports files no entry point reaches', () => {
+    // server.ts is run by a script, web/main.tsx loaded by a page and the test is an entry point itself
+    expect(byRule('unused-file', debt)).toEqual(['src/legacy.ts', 'src/config.js']);
+    expect(debt.every(item => item.type === 'dead-code')).toBe(true);
+  });
+
+  it('reports exports nothing imports, following re-exports and namespace imports', () => {
+    // list is used through `export *`; helpers is imported as a namespace and lazy.tsx dynamically,
+    // while a bare import of admin.ts uses none of its exports
+    expect(byRule('unused-export', debt)).toEqual(['src/routes.ts:4', 'src/utils/index.ts:2', 'src/handlers.ts:2', 'src/admin.ts:2']);
+  });
+
+  it('reports dependencies that are neither imported nor named by scripts or configuration', () => {
+    expect(byRule('unused-dependency', debt)).toEqual(['package.json:9', 'package.json:10']);
+    expect(debt.find(item => item.rule === 'unused-dependency')?.description).toContain('lodash');
+  });
+
+  it('uses configured entry points and exclusions', () => {
+    const configured = findDeadCode(files, {
+      ...DEFAULT_DEAD_CODE_CONFIG,
+      entryPoints: ['src/config.js'],
+      includeTests: false,
+      ignoreFiles: ['src/legacy.*'],
+      ignoreDependencies: ['lodash', 'left-pad'],
+    });
+    expect(byRule('unused-file', configured)).toEqual(['src/admin.ts', 'src/helpers.ts']);
+    expect(byRule('unused-dependency', configured)).toEqual([]);
+  });
+});
+
+describe('globPattern', () => {
+  it('matches directories, names and alternatives', () => {
+    expect(globPattern('src/**/*.{ts,tsx}').test('src/a/b/c.tsx')).toBe(true);
+    expect(globPattern('src/**/*.{ts,tsx}').test('src/c.ts')).toBe(true);
+    expect(globPattern('src/*.ts').test('src/a/c.ts')).toBe(false);
+    expect(globPattern('scripts/?.js').test('scripts/a.js')).toBe(true);
+  });
+});
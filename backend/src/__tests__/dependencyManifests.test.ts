@@ -0,0 +1,136 @@
+import { ManifestFile, parseDependencyManifests } from '../services/dependencyManifests';
+import { isDependencyManifest } from '../services/repositoryFiles';
+import { DependencyPackage } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'manifests');
+
+// A fixture directory as the files of a repository
+function readRepository(name: string): ManifestFile[] {
+  const root = path.join(FIXTURES, name);
+  return fs.readdirSync(root, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => {
+      const filePath = path.join(entry.parentPath, entry.name);
+      return { path: path.relative(root, filePath).split(path.sep).join('/'), content: fs.readFileSync(filePath, 'utf8') };
+    });
+}
+
+const parse = (name: string) => parseDependencyManifests(readRepository(name));
+
+// name -> resolved version, for compact expectations
+const resolved = (packages: DependencyPackage[] = [], filter: (p: DependencyPackage) => boolean = () => true) =>
+  Object.fromEntries(packages.filter(filter).map(p => [p.name, p.resolvedVersion]));
+
+describe('parseDependencyManifests', () => {
+  it('recognizes manifests and lockfiles outside vendored directories', () => {
+    expect(isDependencyManifest('services/api/go.sum')).toBe(true);
+    expect(isDependencyManifest('requirements/dev.txt')).toBe(true);
+    expect(isDependencyManifest('dev-requirements.txt')).toBe(true);
+    expect(isDependencyManifest('notes.txt')).toBe(false);
+    expect(isDependencyManifest('node_modules/lodash/package.json')).toBe(false);
+  });
+
+  it('resolves npm workspace dependencies through the shared package-lock', () => {
+    const info = parse('npm-workspaces');
+    expect(info.packages).toEqual([
+      { name: 'lodash', ecosystem: 'npm', manifestPath: 'package.json', version: '^4.17.15', resolvedVersion: '4.17.20', direct: true, dev: false },
+      { name: 'typescript', ecosystem: 'npm', manifestPath: 'package.json', version: '^5.4.0', resolvedVersion: '5.4.5', direct: true, dev: true },
+      { name: 'lodash', ecosystem: 'npm', manifestPath: 'packages/app/package.json', version: '^4.17.21', resolvedVersion: '4.17.21', direct: true, dev: false },
+      { name: 'minimist', ecosystem: 'npm', manifestPath: 'packages/lib/package.json', version: '1.2.5', resolvedVersion: '1.2.5', direct: true, dev: false },
+      { name: 'is-number', ecosystem: 'npm', manifestPath: 'package-lock.json', resolvedVersion: '7.0.0', direct: false, dev: false },
+    ]);
+    expect(info.dependencies).toEqual({ lodash: '^4.17.15', minimist: '1.2.5' });
+    expect(info.devDependencies).toEqual({ typescript: '^5.4.0' });
+    expect(info.manifests).toContainEqual({ path: 'package-lock.json', ecosystem: 'npm', kind: 'lockfile' });
+  });
+
+  it('reads Yarn classic and Berry lockfiles by requested range', () => {
+    const classic = parse('yarn-classic').packages;
+    expect(resolved(classic, p => p.direct)).toEqual({ '@babel/code-frame': '7.12.13', chalk: '2.4.2' });
+    expect(resolved(classic, p => !p.direct)).toEqual({ '@babel/highlight': '7.13.10' });
+
+    const berry = parse('yarn-berry').packages;
+    expect(berry).toEqual([
+      { name: 'lodash', ecosystem: 'npm', manifestPath: 'package.json', version: '^4.17.4', resolvedVersion: '4.17.21', direct: true, dev: false },
+    ]);
+  });
+
+  it('reads pnpm importers and strips peer suffixes', () => {
+    const packages = parse('pnpm').packages;
+    expect(resolved(packages, p => p.direct)).toEqual({ react: '18.2.0', string_decoder: '1.3.0', vitest: '1.6.0' });
+    expect(resolved(packages, p => !p.direct)).toEqual({ 'js-tokens': '4.0.0', 'loose-envify': '1.4.0' });
+  });
+
+  it('reads requirements files, PEP 621 and Poetry tables and poetry.lock', () => {
+    const packages = parse('python').packages!;
+    const byName = (name: string) => packages.filter(p => p.name === name);
+
+    expect(byName('requests')).toEqual([
+      { name: 'requests', ecosystem: 'PyPI', manifestPath: 'pyproject.toml', version: '>=2.28,<3', resolvedVersion: '2.31.0', direct: true, dev: false },
+    ]);
+    expect(byName('Django')[0]).toMatchObject({ resolvedVersion: '4.2.1', dev: false });
+    expect(byName('PyYAML')[0]).toMatchObject({ version: '>=6.0', resolvedVersion: undefined });
+    expect(byName('pytest')[0]).toMatchObject({ manifestPath: 'pyproject.toml', resolvedVersion: '8.2.0', dev: true });
+    expect(byName('ruff')[0]).toMatchObject({ resolvedVersion: '0.4.4', dev: true });
+    expect(byName('urllib3')[0]).toMatchObject({ version: '^1.26', resolvedVersion: '1.26.18' });
+    expect(byName('flask')[0]).toMatchObject({ manifestPath: 'requirements.txt', resolvedVersion: '2.2.2', dev: false });
+    expect(byName('itsdangerous')[0]).toMatchObject({ version: '>=2.0', dev: false });
+    expect(byName('black')[0]).toMatchObject({ manifestPath: 'requirements/dev.txt', resolvedVersion: '24.4.2', dev: true });
+    // The project's own package and the interpreter are not dependencies
+    expect(byName('acme-service')).toEqual([]);
+    expect(byName('python')).toEqual([]);
+    expect(resolved(packages, p => !p.direct)).toEqual({ certifi: '2023.7.22' });
+  });
+
+  it('reads go.mod requirements and the modules only go.sum lists', () => {
+    const packages = parse('go').packages;
+    expect(resolved(packages, p => p.direct)).toEqual({ 'github.com/gin-gonic/gin': 'v1.9.0', 'github.com/google/uuid': 'v1.3.0' });
+    expect(packages?.filter(p => !p.direct).map(p => [p.name, p.resolvedVersion, p.manifestPath])).toEqual([
+      ['golang.org/x/net', 'v0.17.0', 'go.mod'],
+      ['github.com/go-playground/validator/v10', 'v10.11.2', 'go.sum'],
+    ]);
+  });
+
+  it('inherits Cargo workspace dependencies and picks the matching locked copy', () => {
+    const packages = parse('rust').packages!;
+    expect(resolved(packages, p => p.direct)).toEqual({
+      serde: '1.0.193',
+      regex: '1.10.2',
+      rand: '0.8.5',
+      libc: '0.2.150',
+      tempfile: '3.8.1',
+    });
+    expect(packages.find(p => p.name === 'tempfile')?.dev).toBe(true);
+    expect(packages.some(p => p.name === 'acme-core' || p.name === 'acme-cli')).toBe(false);
+    expect(resolved(packages, p => !p.direct)).toEqual({ 'aho-corasick': '1.1.2', regex: '0.2.11' });
+  });
+
+  it('reads Maven POMs with managed versions and Gradle build scripts', () => {
+    const packages = parse('jvm').packages!;
+    const byName = (name: string) => packages.find(p => p.name === name);
+
+    expect(byName('com.fasterxml.jackson.core:jackson-databind')).toMatchObject({ manifestPath: 'app/pom.xml', resolvedVersion: '2.15.2' });
+    expect(byName('org.apache.logging.log4j:log4j-core')).toMatchObject({ version: '[2.17.1,3.0)', resolvedVersion: undefined });
+    expect(byName('junit:junit')).toMatchObject({ resolvedVersion: '4.13.2', dev: true });
+    expect(byName('com.squareup.okhttp3:okhttp')).toMatchObject({ manifestPath: 'app/build.gradle.kts', resolvedVersion: '4.12.0' });
+    expect(byName('com.google.guava:guava')).toMatchObject({ resolvedVersion: '32.1.3-jre' });
+    expect(byName('org.postgresql:postgresql')).toMatchObject({ version: '42.+', resolvedVersion: undefined });
+    expect(byName('org.junit.jupiter:junit-jupiter')?.dev).toBe(true);
+    expect(byName('org.springframework.boot:spring-boot-dependencies')).toBeUndefined();
+    expect(packages.every(p => p.ecosystem === 'Maven' && p.direct)).toBe(true);
+  });
+
+  it('skips unreadable files and reports them', () => {
+    const errors: string[] = [];
+    const info = parseDependencyManifests([
+      { path: 'package.json', content: '{ "dependencies": { "lodash": "4.17.21" } }' },
+      { path: 'package-lock.json', content: '{ not json' },
+      { path: 'Cargo.toml', content: '[dependencies\nserde = "1"' },
+    ], filePath => errors.push(filePath));
+
+    expect(errors).toEqual(['package-lock.json', 'Cargo.toml']);
+    expect(resolved(info.packages)).toEqual({ lodash: '4.17.21' });
+  });
+});
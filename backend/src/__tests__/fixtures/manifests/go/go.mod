@@ -0,0 +1,14 @@
+module github.com/acme/server
+
+go 1.21
+
+require (
+	github.com/gin-gonic/gin v1.9.0
+	golang.org/x/net v0.17.0 // indirect
+)
+
+require github.com/google/uuid v1.3.0
+
+replace (
+	example.com/old v1.0.0 => example.com/new v1.1.0
+)
@@ -0,0 +1,9 @@
+val okhttpVersion = "4.12.0"
+
+dependencies {
+    implementation("com.squareup.okhttp3:okhttp:$okhttpVersion")
+    implementation(platform("org.springframework.boot:spring-boot-dependencies:3.2.0"))
+    implementation(group = "com.google.guava", name = "guava", version = "32.1.3-jre")
+    runtimeOnly("org.postgresql:postgresql:42.+")
+    testImplementation("org.junit.jupiter:junit-jupiter:5.10.1")
+}
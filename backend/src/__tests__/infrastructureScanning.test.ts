@@ -0,0 +1,208 @@
+import { infrastructurePlatform, scanInfrastructure } from '../services/infrastructureScanning';
+
+const findings = (path: string, content: string) =>
+  scanInfrastructure([{ path, content }]).map(issue => [issue.rule, issue.line, issue.infrastructure?.resource]);
+
+describe('infrastructurePlatform', () => {
+  it('recognizes files by name and path', () => {
+    expect(infrastructurePlatform('Dockerfile')).toBe('dockerfile');
+    expect(infrastructurePlatform('docker/Dockerfile.prod')).toBe('dockerfile');
+    expect(infrastructurePlatform('api.dockerfile')).toBe('dockerfile');
+    expect(infrastructurePlatform('docker-compose.override.yml')).toBe('compose');
+    expect(infrastructurePlatform('compose.yaml')).toBe('compose');
+    expect(infrastructurePlatform('.github/workflows/ci.yml')).toBe('github-actions');
+    expect(infrastructurePlatform('infra/s3.tf')).toBe('terraform');
+    expect(infrastructurePlatform('deploy/api.yaml')).toBe('kubernetes');
+    expect(infrastructurePlatform('src/index.ts')).toBeUndefined();
+    expect(infrastructurePlatform('node_modules/pkg/Dockerfile')).toBeUndefined();
+  });
+});
+
+describe('scanInfrastructure', () => {
+  it('checks the base images and user of Dockerfiles', () => {
+    expect(findings('Dockerfile', [
+      'FROM --platform=$BUILDPLATFORM node AS build',
+      'USER node',
+      'RUN npm ci && \\',
+      '    npm run build',
+      '',
+      'FROM nginx:1.27 AS runtime',
+      'COPY --from=build /app/dist /usr/share/nginx/html',
+    ].join('\n'))).toEqual([
+      ['unpinned-image', 1, undefined],
+      ['root-container', 6, undefined],
+    ]);
+    // The last stage starts as the user its base stage ended with
+    expect(findings('Dockerfile', ['FROM python:3.12-slim AS base', 'USER app', 'FROM base', 'CMD ["python", "app.py"]'].join('\n'))).toEqual([]);
+    expect(findings('Dockerfile', ['FROM alpine:latest', 'USER root:root'].join('\n'))).toEqual([
+      ['unpinned-image', 1, undefined],
+      ['root-container', 2, undefined],
+    ]);
+    expect(findings('Dockerfile', 'FROM gcr.io/distroless/nodejs20-debian12:nonroot')).toEqual([]);
+  });
+
+  it('checks the services of Compose files', () => {
+    const issues = scanInfrastructure([{
+      path: 'docker-compose.yml',
+      content: [
+        'services:',
+        '  db:',
+        '    image: postgres',
+        '    user: "0"',
+        '  agent:',
+        '    image: registry.local:5000/agent:latest',
+        '    privileged: true',
+        '  api:',
+        '    build: .',
+        '    image: api',
+        '  cache:',
+        '    image: redis:7.2@sha256:' + 'a'.repeat(64),
+      ].join('\n'),
+    }]);
+    expect(issues.map(issue => [issue.rule, issue.line, issue.infrastructure?.resource])).toEqual([
+      ['unpinned-image', 3, 'service db'],
+      ['root-container', 4, 'service db'],
+      ['unpinned-image', 6, 'service agent'],
+      ['privileged-container', 7, 'service agent'],
+    ]);
+    expect(issues[3]).toMatchObject({
+      type: 'infrastructure',
+      severity: 'high',
+      cwe: 'CWE-250',
+      codeSnippet: 'privileged: true',
+      infrastructure: { platform: 'compose' },
+    });
+  });
+
+  it('checks the containers of Kubernetes workloads', () => {
+    expect(findings('deploy/app.yaml', [
+      'apiVersion: apps/v1',
+      'kind: Deployment',
+      'metadata:',
+      '  name: api',
+      'spec:',
+      '  template:',
+      '    spec:',
+      '      securityContext:',
+      '        runAsNonRoot: true',
+      '      containers:',
+      '        - name: api',
+      '          image: ghcr.io/acme/api:1.4.2',
+      '          resources:',
+      '            limits: { cpu: 500m, memory: 256Mi }',
+      '        - name: proxy',
+      '          image: envoyproxy/envoy',
+      '          securityContext:',
+      '            privileged: true',
+      '            runAsUser: 0',
+      '          resources:',
+      '            limits:',
+      '              memory: 64Mi',
+      '---',
+      'apiVersion: batch/v1',
+      'kind: CronJob',
+      'metadata:',
+      '  name: cleanup',
+      'spec:',
+      '  jobTemplate:',
+      '    spec:',
+      '      template:',
+      '        spec:',
+      '          containers:',
+      '            - name: cleanup',
+      '              image: busybox:1.36',
+      '              resources: { limits: { cpu: 100m, memory: 32Mi } }',
+      '---',
+      'apiVersion: v1',
+      'kind: Service',
+      'metadata:',
+      '  name: api',
+    ].join('\n'))).toEqual([
+      ['missing-resource-limits', 15, 'Deployment/api container proxy'],
+      ['unpinned-image', 16, 'Deployment/api container proxy'],
+      ['privileged-container', 18, 'Deployment/api container proxy'],
+      ['root-container', 19, 'Deployment/api container proxy'],
+      ['root-container', 34, 'CronJob/cleanup container cleanup'],
+    ]);
+  });
+
+  it('leaves YAML alone that is not a manifest, and Helm templates', () => {
+    expect(scanInfrastructure([
+      { path: 'config/settings.yml', content: 'containers:\n  - image: nginx\n' },
+      { path: 'chart/templates/pod.yaml', content: 'apiVersion: v1\nkind: Pod\nspec:\n  containers:\n    - image: {{ .Values.image }}\n' },
+      { path: 'broken.yaml', content: 'apiVersion: v1\nkind: [Pod\n' },
+    ])).toEqual([]);
+  });
+
+  it('finds publicly readable S3 buckets in Terraform', () => {
+    expect(findings('infra/storage.tf', [
+      'resource "aws_s3_bucket" "assets" {',
+      '  bucket = "acme-assets"',
+      '  acl    = "public-read"',
+      '  tags = {',
+      '    acl = "private"',
+      '  }',
+      '}',
+      '',
+      'resource "aws_s3_bucket_public_access_block" "assets" {',
+      '  bucket                  = aws_s3_bucket.assets.id',
+      '  block_public_acls       = true',
+      '  block_public_policy     = false',
+      '  ignore_public_acls      = true',
+      '  restrict_public_buckets = false',
+      '}',
+      '',
+      'resource "aws_s3_bucket_policy" "logs" {',
+      '  bucket = aws_s3_bucket.logs.id',
+      '  policy = jsonencode({',
+      '    Statement = [{ Effect = "Allow", Principal = "*", Action = "s3:GetObject" }]',
+      '  })',
+      '}',
+      '',
+      '# resource "aws_s3_bucket_acl" "old" { acl = "public-read" }',
+      'resource "aws_s3_bucket_acl" "private" {',
+      '  acl = "private"',
+      '}',
+    ].join('\n'))).toEqual([
+      ['public-s3-bucket', 3, 'aws_s3_bucket.assets'],
+      ['public-s3-bucket', 12, 'aws_s3_bucket_public_access_block.assets'],
+      ['public-s3-bucket', 19, 'aws_s3_bucket_policy.logs'],
+    ]);
+  });
+
+  it('finds pull request checkouts in pull_request_target workflows and unpinned actions', () => {
+    const workflow = [
+      'on:',
+      '  pull_request_target:',
+      '    types: [opened]',
+      'jobs:',
+      '  test:',
+      '    runs-on: ubuntu-latest',
+      '    steps:',
+      '      - uses: actions/checkout@v4',
+      '        with:',
+      '          ref: ${{ github.event.pull_request.head.sha }}',
+      '      - uses: acme/setup-tool@v2',
+      '      - uses: acme/lint@8f4b7f84864484a7bf31766abe9204da3cbe65b3',
+      '      - uses: ./.github/actions/local',
+      '      - uses: docker://alpine:3.20',
+      '  release:',
+      '    uses: acme/workflows/.github/workflows/release.yml@main',
+    ].join('\n');
+    expect(findings('.github/workflows/pr.yml', workflow)).toEqual([
+      ['pull-request-target-checkout', 10, 'job test'],
+      ['unpinned-action', 11, 'job test'],
+      ['unpinned-action', 14, 'job test'],
+      ['unpinned-action', 16, 'job release'],
+    ]);
+    // The same checkout is harmless where the workflow has no secrets or write access
+    expect(findings('.github/workflows/ci.yml', workflow.replace('pull_request_target', 'pull_request'))
+      .filter(([rule]) => rule === 'pull-request-target-checkout')).toEqual([]);
+  });
+
+  it('reports files that cannot be parsed', () => {
+    const errors: string[] = [];
+    expect(scanInfrastructure([{ path: 'compose.yml', content: 'services: [\n' }], file => errors.push(file))).toEqual([]);
+    expect(errors).toEqual(['compose.yml']);
+  });
+});
@@ -0,0 +1,105 @@
+import { analyzeJavaScript } from '../services/javascriptSyntax';
+import { keyFunctionCandidates, rankKeyFunctions } from '../services/keyFunctions';
+import { analyzeSource } from '../services/syntaxTree';
+
+const files = [
+  {
+    path: 'src/orders.ts',
+    content: `import { format } from './utils';
+
+export class Orders {
+  save(order) {
+    if (!order) return;
+    this.validate(order);
+    return format(order);
+  }
+
+  validate(order) {
+    for (const line of order.lines) {
+      if (line.qty < 0 || line.price < 0) throw new Error('bad line');
+    }
+  }
+}
+
+const orders = new Orders();
+
+export const api = {
+  submit: (order) => orders.save(order),
+};
+`,
+  },
+  {
+    path: 'src/utils.ts',
+    content: `export function format(value) {
+  return JSON.stringify(value);
+}
+
+export const log = (message) => console.log(format(message));
+`,
+  },
+  {
+    path: 'src/cli.ts',
+    content: `import * as utils from './utils';
+import { api } from './orders';
+
+function main(args) {
+  utils.format(args);
+  api.submit(args);
+}
+`,
+  },
+];
+
+const candidates = () => files.flatMap(file => keyFunctionCandidates(file.path, analyzeJavaScript(file.content).functions));
+
+describe('rankKeyFunctions', () => {
+  it('counts the functions in the repository that call each one', () => {
+    const ranked = rankKeyFunctions(candidates(), files);
+    const fn = (name: string) => ranked.find(f => f.name === name);
+
+    expect(fn('format')).toMatchObject({
+      fanIn: 3,
+      fanOut: 0,
+      callers: [
+        { name: 'Orders.save', file: 'src/orders.ts' },
+        { name: 'log', file: 'src/utils.ts' },
+        { name: 'main', file: 'src/cli.ts' },
+      ],
+    });
+    expect(fn('Orders.save')).toMatchObject({
+      fanIn: 1,
+      fanOut: 2,
+      callees: [{ name: 'Orders.validate', file: 'src/orders.ts' }, { name: 'format', file: 'src/utils.ts' }],
+      calls: ['this.validate', 'format'],
+    });
+    expect(fn('api.submit')).toMatchObject({ fanIn: 1, callers: [{ name: 'main', file: 'src/cli.ts' }] });
+    // console.log is not the repository's log
+    expect(fn('log')).toMatchObject({ fanIn: 0, fanOut: 1 });
+  });
+
+  it('ranks by importance and explains each function', () => {
+    const ranked = rankKeyFunctions(candidates(), files, 3);
+    expect(ranked).toHaveLength(3);
+    expect(ranked.map(fn => fn.importance)).toEqual([...ranked.map(fn => fn.importance)].sort((a, b) => (b ?? 0) - (a ?? 0)));
+    expect(ranked.every(fn => (fn.importance ?? 0) > 0 && (fn.importance ?? 0) <= 100)).toBe(true);
+
+    const validate = rankKeyFunctions(candidates(), files).find(fn => fn.name === 'Orders.validate');
+    expect(validate?.explanation).toBe(
+      'Has cyclomatic complexity 4 and cognitive complexity 4 over 5 lines. Called by 1 function in the repository and calls 0 others.'
+    );
+    expect(validate?.content?.split('\n')[0]).toBe('  validate(order) {');
+  });
+
+  it('follows calls between Python methods', async () => {
+    const source = `class Store:
+    def get(self, key):
+        return self.load(key)
+
+    def load(self, key):
+        return key
+`;
+    const { functions } = await analyzeSource(source, 'python');
+    const ranked = rankKeyFunctions(keyFunctionCandidates('store.py', functions));
+    expect(ranked.find(fn => fn.name === 'Store.load')).toMatchObject({ fanIn: 1, callers: [{ name: 'Store.get', file: 'store.py' }] });
+  });
+});
@@ -0,0 +1,185 @@
+import { parseDependencyManifests } from '../services/dependencyManifests';
+import {
+  checkLicenseCompliance,
+  DEFAULT_LICENSE_POLICY,
+  identifyLicenseText,
+  loadLicensePolicy,
+  resolvePackageLicenses,
+} from '../services/licenseCompliance';
+import { DependencyPackage, LicensePolicy } from '../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const npmPackage = (name: string, license?: string, extra: Partial<DependencyPackage> = {}): DependencyPackage => ({
+  name,
+  ecosystem: 'npm',
+  manifestPath: 'package.json',
+  version: '^1.0.0',
+  resolvedVersion: '1.0.0',
+  direct: true,
+  dev: false,
+  ...(license ? { license } : {}),
+  ...extra,
+});
+
+const judge = (packages: DependencyPackage[], policy: LicensePolicy = DEFAULT_LICENSE_POLICY) => {
+  const report = checkLicenseCompliance(packages, policy);
+  return (name: string) => report.packages.find(p => p.packageName === name);
+};
+
+describe('checkLicenseCompliance', () => {
+  it('applies the allowed and denied lists before the copyleft rules', () => {
+    const result = judge([
+      npmPackage('mit', 'MIT'),
+      npmPackage('gpl', 'GPL-3.0-only'),
+      npmPackage('lgpl', 'LGPL-2.1-or-later'),
+      npmPackage('agpl', 'AGPL-3.0-only'),
+      npmPackage('artistic', 'Artistic-2.0'),
+    ]);
+    expect(result('mit')).toMatchObject({ status: 'allowed', category: 'permissive', reason: 'MIT is on the allowed list' });
+    expect(result('gpl')).toMatchObject({ status: 'denied', category: 'strong-copyleft' });
+    expect(result('lgpl')).toMatchObject({ status: 'review', category: 'weak-copyleft' });
+    expect(result('agpl')).toMatchObject({ status: 'denied', category: 'network-copyleft' });
+    expect(result('artistic')).toMatchObject({ status: 'review', reason: 'Artistic-2.0 is not on the allowed list' });
+
+    const custom = judge([npmPackage('mit', 'MIT'), npmPackage('lgpl', 'LGPL-2.1-only')], {
+      ...DEFAULT_LICENSE_POLICY,
+      deniedLicenses: ['MIT'],
+      copyleft: { ...DEFAULT_LICENSE_POLICY.copyleft, weak: 'allow' },
+    });
+    expect(custom('mit')?.status).toBe('denied');
+    expect(custom('lgpl')?.status).toBe('allowed');
+  });
+
+  it('takes the best choice of an OR and the worst part of an AND', () => {
+    const result = judge([
+      npmPackage('dual', '(GPL-2.0-only OR MIT)'),
+      npmPackage('combined', 'MIT AND GPL-2.0-or-later'),
+      npmPackage('deprecated', 'GPL-2.0+'),
+      npmPackage('classpath', 'GPL-2.0-only WITH Classpath-exception-2.0'),
+    ], { ...DEFAULT_LICENSE_POLICY, deniedLicenses: ['GPL-2.0-or-later'] });
+    expect(result('dual')).toMatchObject({ status: 'allowed', reason: 'MIT is on the allowed list' });
+    expect(result('combined')).toMatchObject({ status: 'denied', reason: 'GPL-2.0-or-later is on the denied list' });
+    expect(result('deprecated')).toMatchObject({ status: 'denied', license: 'GPL-2.0+' });
+    // The exception allows linking, so only the library itself is copyleft
+    expect(result('classpath')).toMatchObject({ status: 'review', category: 'weak-copyleft' });
+  });
+
+  it('reads loosely written licenses and flags unknown ones', () => {
+    const result = judge([
+      npmPackage('spelled', 'Apache 2.0'),
+      npmPackage('loose', '(MIT OR Apache 2.0)'),
+      npmPackage('proprietary', 'UNLICENSED'),
+      npmPackage('custom', 'SEE LICENSE IN LICENSE.md'),
+      npmPackage('missing'),
+    ]);
+    expect(result('spelled')).toMatchObject({ status: 'allowed', license: 'Apache-2.0' });
+    expect(result('loose')).toMatchObject({ status: 'allowed', license: '(MIT OR Apache-2.0)' });
+    expect(result('proprietary')).toMatchObject({ status: 'review', category: 'proprietary' });
+    expect(result('custom')).toMatchObject({ status: 'review', category: 'unknown', license: 'SEE LICENSE IN LICENSE.md' });
+    expect(result('missing')).toMatchObject({ status: 'review', category: 'unknown', reason: 'No license found in lockfiles or vendored package metadata' });
+  });
+
+  it('lists development dependencies without counting them unless asked to', () => {
+    const packages = [
+      npmPackage('mit', 'MIT'),
+      npmPackage('gpl-tool', 'GPL-3.0-only', { dev: true }),
+      npmPackage('gpl-tool', 'GPL-3.0-only', { dev: true, manifestPath: 'packages/app/package.json' }),
+    ];
+    const report = checkLicenseCompliance(packages, DEFAULT_LICENSE_POLICY);
+    expect(report.packages).toHaveLength(2);
+    expect(report.packages[1]).toMatchObject({ status: 'denied', dev: true, checked: false });
+    expect(report.summary).toEqual({ allowed: 1, review: 0, denied: 0, unknown: 0 });
+    expect(report.distribution).toEqual([
+      { license: 'GPL-3.0-only', category: 'strong-copyleft', count: 1 },
+      { license: 'MIT', category: 'permissive', count: 1 },
+    ]);
+
+    const strict = checkLicenseCompliance(packages, { ...DEFAULT_LICENSE_POLICY, checkDevDependencyLicenses: true });
+    expect(strict.summary.denied).toBe(1);
+  });
+
+  it('treats every license without copyleft terms as allowed when no allowed list is set', () => {
+    const result = judge([npmPackage('artistic', 'Artistic-2.0')], { ...DEFAULT_LICENSE_POLICY, allowedLicenses: [] });
+    expect(result('artistic')).toMatchObject({ status: 'allowed', reason: 'Artistic-2.0 has no copyleft terms' });
+  });
+});
+
+describe('resolvePackageLicenses', () => {
+  const mitText = `MIT License
+
+Copyright (c) 2015 Dave Cheney
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal`;
+
+  it('reads licenses from vendored package metadata', () => {
+    const files = [
+      { path: 'package.json', content: JSON.stringify({ dependencies: { 'left-pad': '^1.3.0', legacy: '1.0.0' } }) },
+      { path: 'node_modules/left-pad/package.json', content: JSON.stringify({ name: 'left-pad', version: '1.3.0', license: 'WTFPL' }) },
+      { path: 'node_modules/legacy/package.json', content: JSON.stringify({ name: 'legacy', licenses: [{ type: 'MIT' }, { type: 'GPL-2.0' }] }) },
+      { path: 'requirements.txt', content: 'Django_REST==3.14.0\nrequests==2.31.0\n' },
+      {
+        path: 'venv/lib/python3.11/site-packages/django_rest-3.14.0.dist-info/METADATA',
+        content: 'Metadata-Version: 2.1\nName: django-rest\nVersion: 3.14.0\nLicense: UNKNOWN\nClassifier: License :: OSI Approved :: BSD License\n\nLicense: GPL\n',
+      },
+      {
+        path: 'venv/lib/python3.11/site-packages/requests-2.31.0.dist-info/METADATA',
+        content: 'Metadata-Version: 2.4\nName: requests\nVersion: 2.31.0\nLicense-Expression: Apache-2.0\n',
+      },
+      { path: 'Cargo.toml', content: '[package]\nname = "cli"\nversion = "0.1.0"\n\n[dependencies]\nserde = "1.0"\n' },
+      { path: 'vendor/serde/Cargo.toml', content: '[package]\nname = "serde"\nversion = "1.0.193"\nlicense = "MIT OR Apache-2.0"\n' },
+      { path: 'go.mod', content: 'module example.com/app\n\ngo 1.21\n\nrequire github.com/pkg/errors v0.9.1\n' },
+      { path: 'vendor/github.com/pkg/errors/LICENSE', content: mitText },
+    ];
+    const packages = resolvePackageLicenses(parseDependencyManifests(files).packages ?? [], files);
+    const license = (name: string) => packages.find(p => p.name === name);
+
+    expect(license('left-pad')).toMatchObject({ license: 'WTFPL', licenseSource: 'node_modules/left-pad/package.json' });
+    expect(license('legacy')?.license).toBe('(MIT OR GPL-2.0)');
+    expect(license('Django_REST')?.license).toBe('BSD License');
+    expect(license('requests')?.license).toBe('Apache-2.0');
+    expect(license('serde')).toMatchObject({ license: 'MIT OR Apache-2.0', licenseSource: 'vendor/serde/Cargo.toml' });
+    expect(license('github.com/pkg/errors')?.license).toBe('MIT');
+  });
+
+  it('keeps licenses the lockfile records', () => {
+    const packages = [npmPackage('left-pad', 'MIT')];
+    const files = [{ path: 'node_modules/left-pad/package.json', content: JSON.stringify({ name: 'left-pad', version: '1.0.0', license: 'WTFPL' }) }];
+    expect(resolvePackageLicenses(packages, files)[0]).toEqual(packages[0]);
+  });
+
+  it('recognizes common license texts', () => {
+    expect(identifyLicenseText(mitText)).toBe('MIT');
+    expect(identifyLicenseText('GNU LESSER GENERAL PUBLIC LICENSE\n  Version 3, 29 June 2007')).toBe('LGPL-3.0-only');
+    expect(identifyLicenseText('Apache License\n  Version 2.0, January 2004')).toBe('Apache-2.0');
+    expect(identifyLicenseText('All rights reserved.')).toBeUndefined();
+  });
+});
+
+describe('loadLicensePolicy', () => {
+  afterEach(() => {
+    delete process.env.LICENSE_POLICY_PATH;
+  });
+
+  it('overrides the default policy with the configured file', async () => {
+    expect(await loadLicensePolicy()).toEqual(DEFAULT_LICENSE_POLICY);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'license-policy-'));
+    try {
+      process.env.LICENSE_POLICY_PATH = path.join(dir, 'policy.json');
+      fs.writeFileSync(process.env.LICENSE_POLICY_PATH, JSON.stringify({ deniedLicenses: ['WTFPL'], copyleft: { weak: 'allow' } }));
+      expect(await loadLicensePolicy()).toEqual({
+        ...DEFAULT_LICENSE_POLICY,
+        deniedLicenses: ['WTFPL'],
+        copyleft: { weak: 'allow', strong: 'deny', network: 'deny' },
+      });
+
+      fs.writeFileSync(process.env.LICENSE_POLICY_PATH, JSON.stringify({ unknownLicenses: 'ignore' }));
+      await expect(loadLicensePolicy()).rejects.toThrow();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
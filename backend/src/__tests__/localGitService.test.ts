@@ -0,0 +1,98 @@
+import { LocalGitService } from '../services/localGitService';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+describe('LocalGitService', () => {
+  let rootDir: string;
+  let workDir: string;
+  let bareDir: string;
+  const originalRoots = process.env.LOCAL_REPO_ROOTS;
+
+  const git = (cwd: string, ...args: string[]) =>
+    execFileSync('git', args, {
+      cwd,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: 'Ada',
+        GIT_AUTHOR_EMAIL: 'ada@example.com',
+        GIT_COMMITTER_NAME: 'Ada',
+        GIT_COMMITTER_EMAIL: 'ada@example.com',
+      },
+    }).toString();
+
+  beforeAll(() => {
+    rootDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'local-git-')));
+    workDir = path.join(rootDir, 'project');
+    bareDir = path.join(rootDir, 'project.git');
+    fs.mkdirSync(workDir);
+
+    git(workDir, 'init', '-q', '-b', 'main');
+    fs.writeFileSync(path.join(workDir, 'index.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(workDir, 'LICENSE'), 'MIT License\n\nPermission is hereby granted, free of charge, to any person\n');
+    git(workDir, 'add', '.');
+    git(workDir, 'commit', '-q', '-m', 'Initial commit');
+
+    fs.writeFileSync(path.join(workDir, 'index.ts'), 'export const a = 2;\nexport const b = 3;\n');
+    fs.writeFileSync(path.join(workDir, 'util.ts'), 'export function add(x: number, y: number) { return x + y; }\n');
+    git(workDir, 'add', '.');
+    git(workDir, 'commit', '-q', '-m', 'Add util');
+
+    git(rootDir, 'clone', '-q', '--bare', workDir, bareDir);
+    process.env.LOCAL_REPO_ROOTS = rootDir;
+  });
+
+  afterAll(() => {
+    process.env.LOCAL_REPO_ROOTS = originalRoots;
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('recognises file URLs and absolute paths but not remote URLs', () => {
+    expect(LocalGitService.parseLocalRepoUrl('file:///srv/git/app.git')).toBe('/srv/git/app.git');
+    expect(LocalGitService.parseLocalRepoUrl('/srv/git/app')).toBe('/srv/git/app');
+    expect(LocalGitService.parseLocalRepoUrl('https://github.com/owner/repo')).toBeNull();
+    expect(LocalGitService.parseLocalRepoUrl('not-a-valid-github-url')).toBeNull();
+  });
+
+  it('rejects paths outside LOCAL_REPO_ROOTS', async () => {
+    await expect(LocalGitService.fromUrl('/etc')).rejects.toThrow('LOCAL_REPO_ROOTS');
+  });
+
+  it.each([
+    ['working copy', () => workDir],
+    ['bare repository', () => bareDir],
+  ])('reads files, commits and contributors from a %s', async (_label, dir) => {
+    const service = await LocalGitService.fromUrl(pathToFileURL(dir()).href);
+    expect(service).not.toBeNull();
+
+    const { repository, files } = await service!.getBatchedRepositoryData('main');
+    expect(repository.name).toBe('project');
+    expect(repository.defaultBranch).toBe('main');
+    expect(repository.license?.spdxId).toBe('MIT');
+    expect(files.map(f => f.path).sort()).toEqual(['LICENSE', 'index.ts', 'util.ts']);
+    expect(files.find(f => f.path === 'index.ts')?.content).toBe('export const a = 2;\nexport const b = 3;\n');
+
+    const commits = await service!.getCommits('main');
+    expect(commits).toHaveLength(2);
+    expect(commits[0].message).toBe('Add util');
+    expect(commits[0].files).toEqual(expect.arrayContaining([
+      expect.objectContaining({ filename: 'index.ts', additions: 2, deletions: 1, status: 'modified' }),
+      expect.objectContaining({ filename: 'util.ts', additions: 1, deletions: 0, status: 'added' }),
+    ]));
+    expect(commits[0].stats).toEqual({ additions: 3, deletions: 1, total: 4 });
+
+    const contributors = await service!.getContributors('main');
+    expect(contributors).toEqual([
+      expect.objectContaining({ login: 'Ada', email: 'ada@example.com', contributions: 2 }),
+    ]);
+  });
+
+  it('includes per-file patches in commit details', async () => {
+    const service = new LocalGitService(workDir);
+    const [latest] = await service.getCommits();
+    const details = await service.getCommitDetails(latest.sha);
+    expect(details.files?.find(f => f.filename === 'util.ts')?.patch).toContain('+export function add');
+  });
+});
@@ -0,0 +1,85 @@
+import { ModuleResolver, parseJsonc } from '../services/moduleResolver';
+
+const json = (value: unknown) => JSON.stringify(value);
+
+const files = [
+  { path: 'tsconfig.base.json', content: `{
+    // Shared by the apps
+    "compilerOptions": { "baseUrl": ".", "paths": { "@shared/*": ["packages/shared/src/*"], }, },
+  }` },
+  { path: 'apps/web/tsconfig.json', content: json({ files: [], references: [{ path: './tsconfig.app.json' }] }) },
+  { path: 'apps/web/tsconfig.app.json', content: json({ extends: '../../tsconfig.base', compilerOptions: { paths: { '@/*': ['apps/web/src/*'] } } }) },
+  { path: 'apps/web/src/App.tsx', content: '' },
+  { path: 'apps/web/src/lib/utils.ts', content: '' },
+  { path: 'apps/web/src/lib/react-helpers.ts', content: '' },
+  { path: 'apps/web/src/components/index.ts', content: '' },
+  { path: 'apps/api/jsconfig.json', content: json({ compilerOptions: { baseUrl: 'src' } }) },
+  { path: 'apps/api/src/server.js', content: '' },
+  { path: 'apps/api/src/routes/users.js', content: '' },
+  { path: 'packages/shared/tsconfig.json', content: json({ extends: '../../tsconfig.base.json' }) },
+  { path: 'packages/shared/src/format.ts', content: '' },
+  { path: 'packages/shared/src/dates.ts', content: '' },
+  {
+    path: 'packages/ui/package.json',
+    content: json({
+      name: '@acme/ui',
+      exports: {
+        '.': { types: './dist/index.d.ts', import: './dist/index.mjs', require: './dist/index.js' },
+        './icons/*': './src/icons/*.tsx',
+        './package.json': './package.json',
+      },
+    }),
+  },
+  { path: 'packages/ui/src/index.ts', content: '' },
+  { path: 'packages/ui/src/icons/Star.tsx', content: '' },
+  { path: 'packages/config/package.json', content: json({ name: 'config', main: 'lib/index.js' }) },
+  { path: 'packages/config/lib/index.js', content: '' },
+  { path: 'packages/config/presets.json', content: '{}' },
+];
+
+describe('ModuleResolver', () => {
+  const resolver = new ModuleResolver(files);
+
+  it('resolves relative imports with extensions, index files and compiled names', () => {
+    expect(resolver.resolve('./lib/utils', 'apps/web/src/App.tsx')).toBe('apps/web/src/lib/utils.ts');
+    expect(resolver.resolve('./lib/utils.js', 'apps/web/src/App.tsx')).toBe('apps/web/src/lib/utils.ts');
+    expect(resolver.resolve('./components', 'apps/web/src/App.tsx')).toBe('apps/web/src/components/index.ts');
+    expect(resolver.resolve('../../shared', 'apps/web/src/App.tsx')).toBeUndefined();
+    expect(resolver.resolve('../../../../outside', 'apps/web/src/App.tsx')).toBeUndefined();
+  });
+
+  it('follows paths and baseUrl from the nearest config and the configs it extends', () => {
+    // Paths are relative to the baseUrl, which comes from the extended config and is relative to it
+    expect(resolver.resolve('@/lib/utils', 'apps/web/src/App.tsx')).toBe('apps/web/src/lib/utils.ts');
+    expect(resolver.resolve('packages/shared/src/format', 'apps/web/src/App.tsx')).toBe('packages/shared/src/format.ts');
+    expect(resolver.resolve('@shared/format', 'packages/shared/src/dates.ts')).toBe('packages/shared/src/format.ts');
+    // As in TypeScript, a config's paths replace those of the config it extends
+    expect(resolver.resolve('@shared/format', 'apps/web/src/App.tsx')).toBeUndefined();
+    expect(resolver.resolve('routes/users', 'apps/api/src/server.js')).toBe('apps/api/src/routes/users.js');
+    // The alias belongs to the web app only
+    expect(resolver.resolve('@/lib/utils', 'apps/api/src/server.js')).toBeUndefined();
+  });
+
+  it('resolves workspace packages through exports and main', () => {
+    // The built entry point is not committed, so its source is used
+    expect(resolver.resolve('@acme/ui', 'apps/web/src/App.tsx')).toBe('packages/ui/src/index.ts');
+    expect(resolver.resolve('@acme/ui/icons/Star', 'apps/web/src/App.tsx')).toBe('packages/ui/src/icons/Star.tsx');
+    // Subpaths the package does not export stay private
+    expect(resolver.resolve('@acme/ui/src/index', 'apps/web/src/App.tsx')).toBeUndefined();
+    expect(resolver.resolve('config', 'apps/api/src/server.js')).toBe('packages/config/lib/index.js');
+    expect(resolver.resolve('config/presets', 'apps/api/src/server.js')).toBe('packages/config/presets.json');
+  });
+
+  it('leaves packages from outside the repository unresolved', () => {
+    // Not the repository file whose path contains "react"
+    expect(resolver.resolve('react', 'apps/web/src/App.tsx')).toBeUndefined();
+    expect(resolver.resolve('@acme/uikit', 'apps/web/src/App.tsx')).toBeUndefined();
+  });
+});
+
+describe('parseJsonc', () => {
+  it('ignores comments and trailing commas but not slashes in strings', () => {
+    expect(parseJsonc('{ /* a */ "url": "http://x//y", // b\n "list": [1, 2,], }')).toEqual({ url: 'http://x//y', list: [1, 2] });
+    expect(parseJsonc('{ nope }')).toBeUndefined();
+  });
+});
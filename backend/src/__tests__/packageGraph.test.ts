@@ -0,0 +1,94 @@
+import { parseDependencyManifests } from '../services/dependencyManifests';
+import { buildDependencyGraph, pathTo } from '../services/packageGraph';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'manifests');
+
+const packageJson = JSON.stringify({
+  dependencies: { express: '^4.18.0' },
+  devDependencies: { jest: '^29.0.0' },
+});
+
+// express -> body-parser -> debug@2, jest -> debug@4, which also depends on ms
+const packageLock = JSON.stringify({
+  lockfileVersion: 3,
+  packages: {
+    '': { dependencies: { express: '^4.18.0' }, devDependencies: { jest: '^29.0.0' } },
+    'node_modules/express': { version: '4.18.2', dependencies: { 'body-parser': '1.20.1', debug: '2.6.9' } },
+    'node_modules/body-parser': { version: '1.20.1', dependencies: { debug: '2.6.9' } },
+    'node_modules/debug': { version: '2.6.9', dependencies: { ms: '2.0.0' } },
+    'node_modules/ms': { version: '2.0.0' },
+    'node_modules/jest': { version: '29.7.0', dev: true, dependencies: { debug: '^4.3.4' } },
+    'node_modules/jest/node_modules/debug': { version: '4.3.4', dev: true, dependencies: { ms: '2.1.2' } },
+    'node_modules/jest/node_modules/ms': { version: '2.1.2', dev: true },
+  },
+});
+
+const graphOf = (files: Array<{ path: string; content: string }>) =>
+  buildDependencyGraph(parseDependencyManifests(files).packages ?? []);
+
+describe('buildDependencyGraph', () => {
+  const graph = graphOf([
+    { path: 'package.json', content: packageJson },
+    { path: 'package-lock.json', content: packageLock },
+  ]);
+  const node = (id: string) => graph.nodes.find(n => n.id === id);
+
+  it('links manifests to direct dependencies and packages to what they require', () => {
+    expect(graph.projects).toEqual(['package.json']);
+    expect(graph.links).toEqual(expect.arrayContaining([
+      { source: 'package.json', target: 'npm:express@4.18.2' },
+      { source: 'npm:express@4.18.2', target: 'npm:body-parser@1.20.1' },
+      { source: 'npm:body-parser@1.20.1', target: 'npm:debug@2.6.9' },
+      { source: 'npm:jest@29.7.0', target: 'npm:debug@4.3.4' },
+      { source: 'npm:debug@4.3.4', target: 'npm:ms@2.1.2' },
+    ]));
+    expect(graph.links).toHaveLength(8);
+  });
+
+  it('places each package at its shortest distance from a manifest', () => {
+    expect(node('npm:express@4.18.2')).toMatchObject({ depth: 1, via: 'package.json', dev: false });
+    // Reached directly from express, not through body-parser
+    expect(node('npm:debug@2.6.9')).toMatchObject({ depth: 2, via: 'npm:express@4.18.2', dev: false });
+    expect(node('npm:ms@2.0.0')).toMatchObject({ depth: 3, dev: false });
+    expect(node('npm:ms@2.1.2')).toMatchObject({ depth: 3, via: 'npm:debug@4.3.4', dev: true });
+  });
+
+  it('reports packages installed at several versions', () => {
+    expect(graph.duplicates).toEqual([
+      { ecosystem: 'npm', name: 'debug', versions: ['2.6.9', '4.3.4'] },
+      { ecosystem: 'npm', name: 'ms', versions: ['2.0.0', '2.1.2'] },
+    ]);
+  });
+
+  it('explains why a transitive package is installed', () => {
+    expect(pathTo(graph, 'npm:ms@2.1.2')).toEqual(['package.json', 'npm:jest@29.7.0', 'npm:debug@4.3.4', 'npm:ms@2.1.2']);
+    expect(pathTo(graph, 'npm:express@4.18.2')).toEqual(['package.json', 'npm:express@4.18.2']);
+    expect(pathTo(graph, 'npm:left-pad@1.0.0')).toBeUndefined();
+  });
+
+  it('follows pnpm snapshots and Yarn dependency lists', () => {
+    const read = (name: string) => fs.readdirSync(path.join(FIXTURES, name))
+      .map(file => ({ path: file, content: fs.readFileSync(path.join(FIXTURES, name, file), 'utf8') }));
+
+    const pnpm = graphOf(read('pnpm'));
+    expect(pathTo(pnpm, 'npm:js-tokens@4.0.0')).toEqual(['package.json', 'npm:react@18.2.0', 'npm:loose-envify@1.4.0', 'npm:js-tokens@4.0.0']);
+    expect(pnpm.nodes.find(n => n.name === 'vitest')).toMatchObject({ depth: 1, dev: true });
+
+    const yarn = graphOf(read('yarn-classic'));
+    expect(yarn.nodes.find(n => n.name === '@babel/highlight')).toMatchObject({ depth: 2, via: 'npm:@babel/code-frame@7.12.13' });
+  });
+
+  it('keeps packages whose lockfile records no edges outside the tree', () => {
+    const go = graphOf([
+      { path: 'go.mod', content: 'module example.com/app\n\ngo 1.21\n\nrequire github.com/google/uuid v1.3.0\n' },
+      { path: 'go.sum', content: 'github.com/google/uuid v1.3.0 h1:abc=\ngolang.org/x/text v0.14.0 h1:def=\n' },
+    ]);
+    expect(go.nodes.find(n => n.name === 'github.com/google/uuid')?.depth).toBe(1);
+    const text = go.nodes.find(n => n.name === 'golang.org/x/text');
+    expect(text).toBeDefined();
+    expect(text?.depth).toBeUndefined();
+    expect(pathTo(go, text!.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,265 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRepositoryProvider, parseRepositoryUrl } from '../services/repositoryProvider';
+
+interface RecordedInteraction {
+  request: { method: string; url: string };
+  response: { status: number; headers: Record<string, string>; body?: unknown; bodyBase64?: string };
+}
+
+// Query parameter order is irrelevant to the host, so compare URLs with sorted params
+const normalizeUrl = (url: string) => {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  return parsed.toString();
+};
+
+/**
+ * Serves axios requests from a recorded fixture file and fails on any request
+ * that was not recorded, so providers cannot silently hit the network.
+ */
+const replayFixture = (name: string): { adapter: AxiosAdapter; requested: string[] } => {
+  const fixturePath = path.join(__dirname, 'fixtures', 'providers', `${name}.json`);
+  const { interactions } = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as { interactions: RecordedInteraction[] };
+  const requested: string[] = [];
+
+  const adapter: AxiosAdapter = async (config: InternalAxiosRequestConfig) => {
+    const url = normalizeUrl(axios.getUri(config));
+    const method = (config.method || 'get').toUpperCase();
+    requested.push(url);
+
+    const match = interactions.find(i => i.request.method === method && normalizeUrl(i.request.url) === url);
+    if (!match) {
+      throw new Error(`No recorded response for ${method} ${url}`);
+    }
+
+    const response: AxiosResponse = {
+      data: match.response.bodyBase64 !== undefined ? Buffer.from(match.response.bodyBase64, 'base64') : match.response.body,
+      status: match.response.status,
+      statusText: String(match.response.status),
+      headers: match.response.headers,
+      config,
+    };
+    if (response.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${response.status}`, undefined, config, {}, response);
+    }
+    return response;
+  };
+
+  return { adapter, requested };
+};
+
+const originalHosts = process.env.REPOSITORY_HOSTS;
+const SELF_HOSTED = 'gitlab.example.com=gitlab,git.example.com=bitbucket-server,github.example.com=github';
+
+beforeEach(() => {
+  process.env.REPOSITORY_HOSTS = SELF_HOSTED;
+});
+
+afterEach(() => {
+  process.env.REPOSITORY_HOSTS = originalHosts;
+});
+
+describe('parseRepositoryUrl', () => {
+  it.each([
+    ['https://github.com/owner/repo', { kind: 'github', baseUrl: 'https://github.com', owner: 'owner', repo: 'repo' }],
+    ['https://www.github.com/owner/repo.git', { kind: 'github', baseUrl: 'https://github.com', owner: 'owner', repo: 'repo' }],
+    ['git@github.com:owner/repo.git', { kind: 'github', baseUrl: 'https://github.com', owner: 'owner', repo: 'repo' }],
+    ['https://github.com/owner/repo/tree/release/1.x', { kind: 'github', owner: 'owner', repo: 'repo', branch: 'release/1.x' }],
+    ['https://gitlab.com/group/subgroup/project', { kind: 'gitlab', baseUrl: 'https://gitlab.com', owner: 'group/subgroup', repo: 'project' }],
+    ['https://gitlab.com/group/project/-/tree/develop', { kind: 'gitlab', owner: 'group', repo: 'project', branch: 'develop' }],
+    ['ssh://git@gitlab.example.com:2222/group/project.git', { kind: 'gitlab', baseUrl: 'https://gitlab.example.com', owner: 'group', repo: 'project' }],
+    ['https://codeberg.org/owner/repo/src/branch/main', { kind: 'gitea', baseUrl: 'https://codeberg.org', owner: 'owner', repo: 'repo', branch: 'main' }],
+    ['https://git.example.com/bitbucket/projects/ACME/repos/widgets/browse', { kind: 'bitbucket-server', baseUrl: 'https://git.example.com/bitbucket', owner: 'ACME', repo: 'widgets' }],
+    ['https://git.example.com/scm/acme/widgets.git', { kind: 'bitbucket-server', baseUrl: 'https://git.example.com', owner: 'ACME', repo: 'widgets' }],
+    ['https://git.example.com/users/jane/repos/dotfiles', { kind: 'bitbucket-server', owner: '~jane', repo: 'dotfiles' }],
+  ])('parses %s', (url, expected) => {
+    expect(parseRepositoryUrl(url)).toMatchObject(expected);
+  });
+
+  it('uses REPOSITORY_HOSTS for self-hosted instances', () => {
+    process.env.REPOSITORY_HOSTS = 'code.example.com=gitea, src.example.com=gitlab';
+    expect(parseRepositoryUrl('https://code.example.com/team/app').kind).toBe('gitea');
+    expect(parseRepositoryUrl('https://src.example.com/team/app').kind).toBe('gitlab');
+  });
+
+  it('sends requests to the configured origin, not to the scheme and port of the URL', () => {
+    process.env.REPOSITORY_HOSTS = 'http://stash.example.com:7990=bitbucket-server,git.example.com=gitea';
+    expect(parseRepositoryUrl('https://stash.example.com/scm/acme/widgets.git').baseUrl).toBe('http://stash.example.com:7990');
+    expect(parseRepositoryUrl('http://git.example.com:6379/team/app').baseUrl).toBe('https://git.example.com');
+    expect(parseRepositoryUrl('http://github.com:8080/owner/repo').baseUrl).toBe('https://github.com');
+  });
+
+  it('rejects malformed URLs and unknown hosts', () => {
+    expect(() => parseRepositoryUrl('not-a-valid-github-url')).toThrow('Invalid repository URL format');
+    expect(() => parseRepositoryUrl('https://github.com/owner')).toThrow('Invalid repository URL format');
+    expect(() => parseRepositoryUrl('https://code.example.com/team/app')).toThrow('Unsupported repository host');
+    expect(() => parseRepositoryUrl('https://bitbucket.org/team/app')).toThrow('Bitbucket Cloud');
+  });
+
+  it.each([
+    'https://github.com/owner/%2e%2e',
+    'https://github.com/owner%2F..%2Fusers/repo',
+    'https://gitlab.com/group/..%5Cadmin/project',
+    'git@github.com:owner/../repo.git',
+    'https://github.com/owner/%E0%A4%A',
+  ])('rejects %s, whose path segments do not decode to plain names', url => {
+    expect(() => parseRepositoryUrl(url)).toThrow('Invalid repository URL format');
+  });
+
+  it.each([
+    'http://169.254.169.254/projects/a/repos/b',
+    'http://localhost:6379/scm/a/b.git',
+    'https://github.evil.com/a/b',
+    'https://gitlab.internal/group/project',
+    'https://gitea.com/owner/repo',
+  ])('rejects %s, whose host is not configured', url => {
+    expect(() => parseRepositoryUrl(url)).toThrow('Unsupported repository host');
+  });
+});
+
+describe('repository providers against recorded responses', () => {
+  const originalAdapter = axios.defaults.adapter;
+
+  const useFixture = (name: string) => {
+    const replay = replayFixture(name);
+    axios.defaults.adapter = replay.adapter;
+    return replay;
+  };
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+  });
+
+  it('reads a GitLab project in a nested group', async () => {
+    useFixture('gitlab');
+    const provider = await createRepositoryProvider('https://gitlab.example.com/acme/platform/widgets', 'glpat-test');
+    expect(provider.kind).toBe('gitlab');
+    expect(provider.webUrl).toBe('https://gitlab.example.com/acme/platform/widgets');
+
+    const { repository, files } = await provider.getBatchedRepositoryData('develop');
+    expect(repository).toMatchObject({
+      name: 'widgets',
+      fullName: 'acme/platform/widgets',
+      language: 'TypeScript',
+      stars: 42,
+      defaultBranch: 'main',
+      size: 2048,
+      license: { spdxId: 'Apache-2.0' },
+    });
+    expect(files.map(f => f.path).sort()).toEqual(['package.json', 'src/greet.ts', 'src/index.ts']);
+    expect(files.find(f => f.path === 'src/greet.ts')?.content).toContain('export function greet');
+
+    const commits = await provider.getCommits();
+    expect(commits.map(c => c.message.trim())).toEqual(['Add greeting helper', 'Initial commit', 'Scaffold project']);
+    expect(commits[0].stats).toEqual({ additions: 4, deletions: 1, total: 5 });
+
+    const details = await provider.getCommitDetails(commits[0].sha);
+    expect(details.files).toEqual([
+      expect.objectContaining({ filename: 'src/index.ts', additions: 3, deletions: 1, status: 'modified' }),
+      expect.objectContaining({ filename: 'src/greet.ts', additions: 3, deletions: 0, status: 'added' }),
+    ]);
+
+    const contributors = await provider.getContributors();
+    expect(contributors.map(c => [c.login, c.contributions])).toEqual([['Jane Doe', 2], ['John Roe', 1]]);
+
+    const mergeRequests = await provider.getPullRequests();
+    expect(mergeRequests.map(mr => mr.state)).toEqual(['open', 'merged', 'closed']);
+  });
+
+  it('reads a Gitea repository and derives contributors from history', async () => {
+    useFixture('gitea');
+    const provider = await createRepositoryProvider('https://codeberg.org/forgejo-user/widgets');
+    expect(provider.kind).toBe('gitea');
+
+    const { repository, files } = await provider.getBatchedRepositoryData();
+    expect(repository).toMatchObject({
+      fullName: 'forgejo-user/widgets',
+      language: 'TypeScript',
+      size: 512,
+      license: { spdxId: 'MIT' },
+    });
+    expect(files.map(f => f.path).sort()).toEqual(['package.json', 'src/greet.ts', 'src/index.ts']);
+
+    const commits = await provider.getCommits('main');
+    expect(commits).toHaveLength(3);
+
+    const details = await provider.getCommitDetails(commits[0].sha);
+    expect(details.files?.find(f => f.filename === 'src/greet.ts')).toMatchObject({
+      status: 'added',
+      additions: 3,
+      patch: expect.stringContaining('+export function greet'),
+    });
+
+    // Same address with different casing is one contributor
+    const contributors = await provider.getContributors('main');
+    expect(contributors.map(c => [c.login, c.contributions])).toEqual([['Jane Doe', 2], ['John Roe', 1]]);
+
+    const pulls = await provider.getPullRequests();
+    expect(pulls.map(pr => pr.state)).toEqual(['merged', 'closed']);
+  });
+
+  it('reads a Bitbucket Server repository behind a context path', async () => {
+    const { requested } = useFixture('bitbucket-server');
+    const provider = await createRepositoryProvider('https://git.example.com/bitbucket/projects/ACME/repos/widgets/browse', 'bbtoken');
+    expect(provider.kind).toBe('bitbucket-server');
+    expect(provider.webUrl).toBe('https://git.example.com/bitbucket/projects/ACME/repos/widgets');
+
+    const { repository, files } = await provider.getBatchedRepositoryData();
+    expect(repository).toMatchObject({
+      fullName: 'ACME/widgets',
+      defaultBranch: 'main',
+      language: 'typescript',
+      updatedAt: '2024-04-28T08:00:12.000Z',
+    });
+    expect(files.map(f => f.path).sort()).toEqual(['package.json', 'src/greet.ts', 'src/index.ts']);
+
+    const commits = await provider.getCommits('main');
+    expect(commits.map(c => c.author.email)).toEqual(['jane@example.com', 'john@example.com', 'jane@example.com']);
+    expect(requested.filter(url => url.includes('/commits?'))).toHaveLength(3);
+
+    const details = await provider.getCommitDetails(commits[0].sha);
+    expect(details.stats).toEqual({ additions: 6, deletions: 1, total: 7 });
+    expect(details.files?.[0]).toMatchObject({ filename: 'src/index.ts', status: 'modified' });
+    expect(details.files?.[0].patch).toBe(
+      "@@ -1,1 +1,3 @@\n-console.log('hello');\n+import { greet } from './greet';\n+\n+console.log(greet('world'));"
+    );
+    expect(details.files?.[1]).toMatchObject({ filename: 'src/greet.ts', status: 'added', additions: 3 });
+
+    const pulls = await provider.getPullRequests();
+    expect(pulls).toEqual([
+      expect.objectContaining({ id: 12, state: 'merged', author: 'jane', mergedAt: '2024-04-28T08:00:12.000Z' }),
+      expect.objectContaining({ id: 11, state: 'closed', mergedAt: null }),
+    ]);
+  });
+
+  it('sends GitHub Enterprise requests to the /api/v3 endpoint', async () => {
+    const { requested } = useFixture('github-enterprise');
+    const provider = await createRepositoryProvider('https://github.example.com/acme/widgets');
+    expect(provider.kind).toBe('github');
+
+    const { repository, files } = await provider.getBatchedRepositoryData();
+    expect(repository).toMatchObject({ fullName: 'acme/widgets', license: { spdxId: 'MIT' } });
+    expect(files).toHaveLength(3);
+    expect(requested.every(url => url.startsWith('https://github.example.com/api/v3/'))).toBe(true);
+  });
+
+  it('surfaces host errors with the host name', async () => {
+    useFixture('gitea');
+    const provider = await createRepositoryProvider('https://codeberg.org/forgejo-user/missing');
+    await expect(provider.getRepository()).rejects.toThrow('Repository forgejo-user/missing not found on Gitea');
+  });
+
+  it('stops issuing requests once the signal is aborted', async () => {
+    const { requested } = useFixture('gitlab');
+    const provider = await createRepositoryProvider('https://gitlab.example.com/acme/platform/widgets');
+    const before = requested.length;
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(provider.getCommits(undefined, undefined, undefined, controller.signal))
+      .rejects.toThrow('Cancelled while');
+    expect(requested).toHaveLength(before);
+  });
+});
@@ -0,0 +1,285 @@
+import { createSarifLog, mergeSarifFindings, readSarifLog, SarifSource } from '../services/sarif';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The official SARIF 2.1.0 schema, unchanged from https://json.schemastore.org/sarif-2.1.0.json
+// (the OASIS sarif-schema-2.1.0.json, $id https://raw.githubusercontent.com/oasis-tcs/sarif-spec/master/Schemata/sarif-schema-2.1.0.json)
+const SARIF_SCHEMA = path.join(__dirname, 'fixtures', 'sarif-schema-2.1.0.json');
+
+const report: SarifSource = {
+  id: 'acme-shop-1700000000000',
+  repositoryUrl: 'https://github.com/acme/shop',
+  createdAt: '2024-05-01T12:30:45.123Z',
+  commitSha: '0123456789abcdef0123456789abcdef01234567',
+  securityIssues: [
+    {
+      type: 'vulnerability',
+      severity: 'high',
+      file: 'src/routes/users.ts',
+      line: 12,
+      description: 'Command injection: req.query read at src/routes/users.ts:10 reaches child_process.exec',
+      recommendation: 'Pass arguments as an array to execFile.',
+      cwe: 'CWE-78',
+      codeSnippet: 'exec(`ls ${dir}`);',
+      taint: {
+        source: 'req.query',
+        sink: 'child_process.exec',
+        steps: [
+          { file: 'src/routes/users.ts', line: 10, code: 'const dir = req.query.dir;', description: 'req.query is read' },
+          { file: 'src/routes/users.ts', line: 12, code: 'exec(`ls ${dir}`);', description: 'dir reaches child_process.exec' },
+        ],
+      },
+    },
+    {
+      type: 'vulnerability',
+      severity: 'medium',
+      file: 'src/app.tsx',
+      line: 3,
+      description: 'HTML is set from a value',
+      recommendation: 'Sanitize the HTML.',
+      cwe: 'CWE-79',
+      rule: 'react-dangerously-set-inner-html',
+    },
+    {
+      type: 'vulnerability',
+      severity: 'critical',
+      file: 'src/app.tsx',
+      line: 9,
+      description: 'HTML is set from the query string',
+      recommendation: 'Sanitize the HTML.',
+      cwe: 'CWE-79',
+      rule: 'react-dangerously-set-inner-html',
+    },
+    {
+      type: 'vulnerability',
+      severity: 'low',
+      file: 'lib/legacy code.js',
+      line: 4,
+      description: 'Imported finding',
+      recommendation: '',
+      rule: 'js/weak-crypto',
+      source: { tool: 'CodeQL', version: '2.17.0', origin: 'results/codeql.sarif' },
+    },
+  ],
+  technicalDebt: [{
+    type: 'dead-code',
+    rule: 'unused-export',
+    severity: 'low',
+    file: 'src/util.ts',
+    line: 7,
+    description: 'formatDate is exported but never imported',
+    effort: 'low',
+    impact: 'low',
+  }],
+  performanceMetrics: [{
+    function: 'N/A',
+    file: 'src/list.tsx',
+    complexity: 'N/A',
+    estimatedRuntime: 'N/A',
+    recommendation: 'Deep cloning with JSON methods can be slow for large objects.',
+  }],
+};
+
+describe('createSarifLog', () => {
+  const log = createSarifLog(report);
+  const [own, imported] = log.runs;
+
+  it('writes the report findings as results of rules, with a run per imported tool', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs.length).toBe(2);
+    expect(own.tool.driver.name).toBe('repo-auditor');
+    expect(own.tool.driver.rules!.map(rule => rule.id)).toEqual([
+      'taint/child_process.exec',
+      'react-dangerously-set-inner-html',
+      'unused-export',
+      'performance',
+    ]);
+    expect(own.results!.map(result => [result.ruleId, result.ruleIndex, result.level])).toEqual([
+      ['taint/child_process.exec', 0, 'error'],
+      ['react-dangerously-set-inner-html', 1, 'warning'],
+      ['react-dangerously-set-inner-html', 1, 'error'],
+      ['unused-export', 2, 'note'],
+      ['performance', 3, 'note'],
+    ]);
+    expect(own.versionControlProvenance).toEqual([{
+      repositoryUri: 'https://github.com/acme/shop',
+      revisionId: '0123456789abcdef0123456789abcdef01234567',
+      mappedTo: { uriBaseId: '%SRCROOT%' },
+    }]);
+    expect(imported.tool.driver).toMatchObject({ name: 'CodeQL', version: '2.17.0' });
+    expect(imported.properties).toEqual({ origin: 'results/codeql.sarif' });
+    expect(imported.results![0].locations![0].physicalLocation!.artifactLocation!.uri).toBe('lib/legacy%20code.js');
+  });
+
+  it('validates against the SARIF 2.1.0 schema', () => {
+    // The schema's language pattern has a stray bracket that only parses without the u flag
+    const ajv = new Ajv({ strict: false, unicodeRegExp: false });
+    addFormats(ajv);
+    const validate = ajv.compile(JSON.parse(fs.readFileSync(SARIF_SCHEMA, 'utf8')));
+    expect(validate(JSON.parse(JSON.stringify(log)))).toBe(true);
+    expect(validate.errors ?? []).toEqual([]);
+
+    const [result] = own.results!;
+    expect(validate({ ...log, runs: [{ ...own, results: [{ ...result, level: 'fatal' }] }] })).toBe(false);
+  });
+
+  it('ranks rules by their most severe result and relates them to CWE taxa', () => {
+    const rule = own.tool.driver.rules![1];
+    expect(rule).toMatchObject({
+      defaultConfiguration: { level: 'error' },
+      help: { text: 'Sanitize the HTML.' },
+      properties: { tags: ['security', 'external/cwe/cwe-079'], 'security-severity': '9.5' },
+      relationships: [{ target: { id: '79', toolComponent: { name: 'CWE', index: 0 } }, kinds: ['superset'] }],
+    });
+    expect(own.tool.driver.supportedTaxonomies).toEqual([{ name: 'CWE', index: 0 }]);
+    expect(own.taxonomies![0]).toMatchObject({ name: 'CWE', organization: 'MITRE', taxa: [{ id: '78' }, { id: '79' }] });
+    expect(own.results![1].taxa).toEqual([{ id: '79', index: 1, toolComponent: { name: 'CWE', index: 0 } }]);
+    expect(own.tool.driver.rules![2].properties).toEqual({ tags: ['maintainability', 'dead-code'] });
+  });
+
+  it('locates results with snippets and follows taint flows step by step', () => {
+    const [taint] = own.results!;
+    expect(taint.locations).toEqual([{
+      physicalLocation: {
+        artifactLocation: { uri: 'src/routes/users.ts', uriBaseId: '%SRCROOT%' },
+        region: { startLine: 12, snippet: { text: 'exec(`ls ${dir}`);' } },
+      },
+    }]);
+    expect(taint.codeFlows![0].threadFlows[0].locations.map(({ location }) => [location.physicalLocation!.region!.startLine, location.message!.text]))
+      .toEqual([[10, 'req.query is read'], [12, 'dir reaches child_process.exec']]);
+    // A performance finding has no line, so no region
+    expect(own.results![4].locations![0].physicalLocation).toEqual({ artifactLocation: { uri: 'src/list.tsx', uriBaseId: '%SRCROOT%' } });
+  });
+});
+
+describe('readSarifLog', () => {
+  const codeql = {
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'CodeQL',
+          semanticVersion: '2.17.0',
+          rules: [
+            {
+              id: 'js/sql-injection',
+              shortDescription: { text: 'Database query built from user-controlled sources' },
+              help: { text: 'Use query parameters.' },
+              properties: { tags: ['security', 'external/cwe/cwe-089'], 'security-severity': '8.8' },
+            },
+            {
+              id: 'js/unused-local-variable',
+              messageStrings: { unused: { text: 'Unused variable {0}.' } },
+              defaultConfiguration: { level: 'note' },
+              properties: { tags: ['maintainability'] },
+            },
+          ],
+        },
+      },
+      originalUriBaseIds: { ROOT: { uri: 'file:///home/runner/work/shop/shop/' } },
+      artifacts: [{ location: { uri: 'src/db.ts', uriBaseId: '%SRCROOT%' } }],
+      results: [
+        {
+          ruleId: 'js/sql-injection',
+          ruleIndex: 0,
+          message: { text: 'This query depends on a [user-provided value](1).' },
+          locations: [{ physicalLocation: { artifactLocation: { index: 0 }, region: { startLine: 14, snippet: { text: '  db.query(sql);\n' } } } }],
+        },
+        {
+          ruleIndex: 1,
+          level: 'warning',
+          message: { id: 'unused', arguments: ['tmp'] },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///home/runner/work/shop/shop/src/util%20s.ts' }, region: { startLine: 3 } } }],
+        },
+        {
+          ruleId: 'js/unused-local-variable',
+          message: { text: 'Unused variable old.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: './src/old.ts' } } }],
+          suppressions: [{ kind: 'inSource' }],
+        },
+        {
+          ruleId: 'js/unused-local-variable',
+          kind: 'pass',
+          message: { text: 'Checked' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'src/ok.ts' } } }],
+        },
+      ],
+    }],
+  };
+
+  it('reads security findings and technical debt attributed to their tool and log', () => {
+    const findings = readSarifLog(JSON.stringify(codeql), 'results/codeql.sarif');
+    const source = { tool: 'CodeQL', version: '2.17.0', origin: 'results/codeql.sarif' };
+    expect(findings.tools).toEqual(['CodeQL']);
+    expect(findings.securityIssues).toEqual([{
+      type: 'vulnerability',
+      severity: 'high',
+      file: 'src/db.ts',
+      line: 14,
+      description: 'This query depends on a [user-provided value](1).',
+      recommendation: 'Use query parameters.',
+      cwe: 'CWE-89',
+      codeSnippet: 'db.query(sql);',
+      rule: 'js/sql-injection',
+      source,
+    }]);
+    expect(findings.technicalDebt).toEqual([{
+      type: 'smell',
+      rule: 'js/unused-local-variable',
+      severity: 'medium',
+      file: 'src/util s.ts',
+      line: 3,
+      description: 'Unused variable tmp.',
+      effort: 'medium',
+      impact: 'medium',
+      source,
+    }]);
+  });
+
+  it('reads back the logs it writes', () => {
+    const findings = readSarifLog(createSarifLog(report), 'export.sarif');
+    expect(findings.tools).toEqual(['repo-auditor', 'CodeQL']);
+    expect(findings.securityIssues.map(issue => [issue.file, issue.line, issue.severity, issue.cwe])).toEqual([
+      ['src/routes/users.ts', 12, 'high', 'CWE-78'],
+      ['src/app.tsx', 3, 'medium', 'CWE-79'],
+      ['src/app.tsx', 9, 'critical', 'CWE-79'],
+      ['lib/legacy code.js', 4, 'low', undefined],
+    ]);
+    expect(findings.technicalDebt.map(debt => [debt.rule, debt.file])).toEqual([['unused-export', 'src/util.ts'], ['performance', 'src/list.tsx']]);
+  });
+
+  it('rejects files that are not SARIF 2.1.0 logs', () => {
+    expect(() => readSarifLog('{"version":"1.0.0","runs":[]}', 'old.sarif')).toThrow('old.sarif is not a SARIF 2.1.0 log');
+    expect(() => readSarifLog('{', 'broken.sarif')).toThrow(SyntaxError);
+  });
+});
+
+describe('mergeSarifFindings', () => {
+  it('replaces the findings of an earlier import of the same log', () => {
+    const log = (ruleId: string) => ({
+      version: '2.1.0',
+      runs: [{
+        tool: { driver: { name: 'Semgrep' } },
+        results: [{ ruleId, level: 'error', message: { text: ruleId }, locations: [{ physicalLocation: { artifactLocation: { uri: 'a.ts' } } }], properties: { tags: ['security'] } }],
+      }],
+    });
+    const first = mergeSarifFindings(
+      { securityIssues: report.securityIssues!, technicalDebt: [] },
+      'semgrep.sarif',
+      readSarifLog(log('first'), 'semgrep.sarif'),
+      '2024-05-01T00:00:00.000Z',
+    );
+    const second = mergeSarifFindings(first, 'semgrep.sarif', readSarifLog(log('second'), 'semgrep.sarif'), '2024-05-02T00:00:00.000Z');
+    expect(second.securityIssues.length).toBe(report.securityIssues!.length + 1);
+    expect(second.securityIssues[second.securityIssues.length - 1]).toMatchObject({ rule: 'second', severity: 'high', source: { tool: 'Semgrep', origin: 'semgrep.sarif' } });
+    expect(second.sarifImports).toEqual([{
+      origin: 'semgrep.sarif',
+      tools: ['Semgrep'],
+      securityIssues: 1,
+      technicalDebt: 0,
+      importedAt: '2024-05-02T00:00:00.000Z',
+    }]);
+  });
+});
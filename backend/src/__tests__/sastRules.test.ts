@@ -0,0 +1,217 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BUNDLED_SAST_RULES, loadSastRules, parseSastRules, runSastRules } from '../services/sastRules';
+
+const rules = parseSastRules(`
+rules:
+  - id: sql-concatenation
+    languages: [typescript]
+    severity: ERROR
+    message: $DB.query is called with SQL built from $INPUT
+    metadata:
+      cwe: ["CWE-89: SQL Injection"]
+      recommendation: Use bound parameters.
+    patterns:
+      - pattern-either:
+          - pattern: $DB.query("..." + $INPUT, ...)
+          - pattern: $DB.query(\`...\${$INPUT}...\`, ...)
+      - pattern-not: $DB.query("..." + "...", ...)
+      - pattern-inside: |
+          async function $HANDLER(...) {
+            ...
+          }
+      - pattern-not-inside: |
+          if ($CHECK) {
+            ...
+          }
+  - id: compare-to-itself
+    languages: [javascript, typescript]
+    severity: warning
+    message: $X is compared with itself
+    pattern: $X === $X
+  - id: debug-route
+    languages: [js]
+    severity: INFO
+    message: A debugging route is registered
+    paths:
+      exclude: ["**/*.test.ts"]
+    patterns:
+      - pattern: $APP.get($PATH, ...)
+      - metavariable-regex:
+          metavariable: $PATH
+          regex: ^['"]/debug
+  - id: lock-then-release
+    languages: [typescript]
+    severity: INFO
+    message: Lock released in the same block
+    pattern: |
+      $LOCK.acquire();
+      ...
+      $LOCK.release();
+`, 'test-rules.yml');
+
+const source = `import { db } from './db';
+
+export async function findUser(name: string, id: number) {
+  const rows = await db.query("SELECT * FROM users WHERE name = " + name);
+  const same = await (db as any).query(\`SELECT * FROM users WHERE id = \${id}\`, []);
+  if (name.length > 3) {
+    return db.query("SELECT * FROM users WHERE name = " + name);
+  }
+  db.query("SELECT " + "1");
+  return id === id ? rows : same;
+}
+
+db.query("SELECT * FROM logs WHERE day = " + day);
+
+function guarded(lock: Lock) {
+  lock.acquire();
+  work();
+  lock.release();
+  lock.acquire(); // nosemgrep: lock-then-release
+  lock.release();
+}
+
+app.get('/debug/state', handler);
+app.get('/users', handler);
+app?.get("/debug", other);
+`;
+
+describe('runSastRules', () => {
+  it('matches patterns by structure with metavariables, ellipses and the pattern operators', () => {
+    const issues = runSastRules([{ path: 'src/users.ts', content: source }], rules);
+    expect(issues.map(issue => [issue.rule, issue.line, issue.description])).toEqual([
+      ['sql-concatenation', 4, 'db.query is called with SQL built from name'],
+      // Through the type assertion and the template literal
+      ['sql-concatenation', 5, 'db.query is called with SQL built from id'],
+      ['compare-to-itself', 10, 'id is compared with itself'],
+      ['lock-then-release', 16, 'Lock released in the same block'],
+      ['debug-route', 23, 'A debugging route is registered'],
+      ['debug-route', 25, 'A debugging route is registered'],
+    ]);
+    expect(issues[0]).toMatchObject({
+      type: 'vulnerability',
+      severity: 'high',
+      cwe: 'CWE-89',
+      recommendation: 'Use bound parameters.',
+      codeSnippet: 'const rows = await db.query("SELECT * FROM users WHERE name = " + name);',
+    });
+  });
+
+  it('applies path filters and reads only JavaScript and TypeScript', () => {
+    const issues = runSastRules([
+      { path: 'src/users.test.ts', content: source },
+      { path: 'src/users.py', content: 'app.get("/debug", handler)' },
+    ], rules);
+    expect(issues.some(issue => issue.rule === 'debug-route')).toBe(false);
+    expect(issues.every(issue => issue.file === 'src/users.test.ts')).toBe(true);
+  });
+
+  it('finds risky constructs with the bundled rules', () => {
+    const issues = runSastRules([{
+      path: 'src/app.tsx',
+      content: [
+        'const hash = crypto.createHash("md5").update(body).digest("hex");',
+        'const agent = new https.Agent({ keepAlive: true, rejectUnauthorized: false });',
+        'const Preview = ({ html }) => <div className="preview" dangerouslySetInnerHTML={{ __html: html }} />;',
+        'const Static = () => <div dangerouslySetInnerHTML={{ __html: "<br>" }} />;',
+        'jwt.verify(token, key, { algorithms: ["HS256", "none"] });',
+        'eval("1 + 1");',
+        'eval(code);',
+      ].join('\n'),
+    }], BUNDLED_SAST_RULES);
+    expect(issues.map(issue => [issue.rule, issue.line, issue.cwe])).toEqual([
+      ['weak-hash-algorithm', 1, 'CWE-328'],
+      ['tls-verification-disabled', 2, 'CWE-295'],
+      ['react-dangerously-set-inner-html', 3, 'CWE-79'],
+      ['jwt-none-algorithm', 5, 'CWE-347'],
+      ['eval-with-expression', 7, 'CWE-95'],
+    ]);
+  });
+});
+
+describe('parseSastRules', () => {
+  it('skips rules it cannot run and reports why', () => {
+    const errors: string[] = [];
+    const parsed = parseSastRules(`
+rules:
+  - id: python-only
+    languages: [python]
+    severity: ERROR
+    message: m
+    pattern: os.system($X)
+  - id: taint-mode
+    mode: taint
+    languages: [javascript]
+    severity: ERROR
+    message: m
+    pattern-sources: [{ pattern: req.query }]
+  - id: regex
+    languages: [javascript]
+    severity: ERROR
+    message: m
+    pattern-regex: TODO
+  - id: broken
+    languages: [javascript]
+    severity: ERROR
+    message: m
+    pattern: foo(
+  - id: fine
+    languages: [javascript]
+    severity: ERROR
+    message: m
+    pattern: foo(...)
+`, 'team.yml', (source, e) => errors.push(`${source}: ${(e as Error).message}`));
+    expect(parsed.map(rule => rule.id)).toEqual(['fine']);
+    expect(errors).toEqual([
+      'team.yml: taint-mode: Rule taint-mode uses taint mode, which is not supported',
+      'team.yml: regex: Rule regex uses pattern-regex, which is not supported',
+      'team.yml: broken: Cannot parse the pattern: foo(',
+      'team.yml: Rules for languages other than JavaScript and TypeScript were skipped: python-only',
+    ]);
+  });
+
+  it('compiles every bundled rule', () => {
+    expect(BUNDLED_SAST_RULES.length).toBe(15);
+  });
+});
+
+describe('loadSastRules', () => {
+  const originalDirectory = process.env.SAST_RULES_DIR;
+  afterEach(() => {
+    process.env.SAST_RULES_DIR = originalDirectory;
+  });
+
+  it('adds the rules of the configured directory, replacing bundled rules with the same id', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sast-rules-'));
+    try {
+      fs.mkdirSync(path.join(directory, 'team'));
+      fs.writeFileSync(path.join(directory, 'team', 'rules.yaml'), `
+rules:
+  - id: eval-with-expression
+    languages: [javascript]
+    severity: INFO
+    message: Tuned
+    pattern: eval(...)
+  - id: no-alert
+    languages: [javascript]
+    severity: INFO
+    message: alert() blocks the page
+    pattern: alert(...)
+`);
+      fs.writeFileSync(path.join(directory, 'broken.yml'), 'rules: {');
+      fs.writeFileSync(path.join(directory, 'README.md'), '# Rules');
+      process.env.SAST_RULES_DIR = directory;
+
+      const errors: string[] = [];
+      const loaded = await loadSastRules(source => errors.push(source));
+      expect(loaded.length).toBe(BUNDLED_SAST_RULES.length + 1);
+      expect(loaded.find(rule => rule.id === 'eval-with-expression')).toMatchObject({ severity: 'low', origin: path.join('team', 'rules.yaml') });
+      expect(loaded[loaded.length - 1].id).toBe('no-alert');
+      expect(errors).toEqual(['broken.yml']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
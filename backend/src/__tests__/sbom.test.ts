@@ -0,0 +1,171 @@
+import { parseDependencyManifests } from '../services/dependencyManifests';
+import { createCycloneDxBom, createSpdxDocument, packageUrl, SbomSource } from '../services/sbom';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The official CycloneDX schemas, as bundled with the reference library
+const CYCLONEDX_SCHEMAS = path.join(path.dirname(require.resolve('@cyclonedx/cyclonedx-library/package.json')), 'res', 'schema');
+
+// The SPDX 2.3 document schema, which no package bundles
+const SPDX_SCHEMA = path.join(__dirname, 'fixtures', 'spdx-2.3.schema.json');
+
+const packageJson = JSON.stringify({
+  dependencies: { '@babel/code-frame': '^7.22.0', left: 'latest' },
+  devDependencies: { 'is-number': '^7.0.0' },
+});
+
+const packageLock = JSON.stringify({
+  lockfileVersion: 3,
+  packages: {
+    '': {},
+    'node_modules/@babel/code-frame': {
+      version: '7.22.13',
+      integrity: 'sha512-XktuhWlJ5g+3TJXc5upd9Ks1HutSArik6jf2eAjYFyIOf4ej3RN+184cZbzDvbPnuTJIUhPKKJE3cIsYTiAT3w==',
+      license: 'MIT',
+      dependencies: { '@babel/highlight': '^7.22.13' },
+    },
+    'node_modules/@babel/highlight': { version: '7.22.20', license: '(MIT OR Apache-2.0)' },
+    'node_modules/is-number': {
+      version: '7.0.0',
+      dev: true,
+      integrity: 'sha1-dTU0W4lnNNX4DE0GxQlVUnoU8Ss= sha512-41Cifkg6e8TylSpdtTpeLVMqvSBEVzTttHvERD741+pnZ8ANv0004MRL43QKPDlK9cGvNp6NZWZUBlbGXYxxng==',
+      license: 'SEE LICENSE IN LICENSE.txt',
+    },
+  },
+});
+
+const report: SbomSource = {
+  id: 'acme-shop-1700000000000',
+  repositoryUrl: 'https://github.com/acme/shop',
+  createdAt: '2024-05-01T12:30:45.123Z',
+  commitSha: '0123456789abcdef0123456789abcdef01234567',
+  dependencies: parseDependencyManifests([
+    { path: 'package.json', content: packageJson },
+    { path: 'package-lock.json', content: packageLock },
+    { path: 'services/etl/requirements.txt', content: 'Django_REST==3.14.0\n' },
+    {
+      path: 'services/billing/pom.xml',
+      content: `<project><dependencies><dependency>
+        <groupId>org.apache.commons</groupId><artifactId>commons-lang3</artifactId><version>3.12.0</version>
+      </dependency></dependencies></project>`,
+    },
+  ]),
+};
+
+describe('packageUrl', () => {
+  it.each([
+    ['npm', '@babel/code-frame', '7.22.13', 'pkg:npm/%40babel/code-frame@7.22.13'],
+    ['PyPI', 'Django_REST', '3.14.0', 'pkg:pypi/django-rest@3.14.0'],
+    ['Go', 'github.com/gin-gonic/gin', 'v1.9.0', 'pkg:golang/github.com/gin-gonic/gin@v1.9.0'],
+    ['crates.io', 'serde', '1.0.193', 'pkg:cargo/serde@1.0.193'],
+    ['Maven', 'org.apache.commons:commons-lang3', '3.12.0', 'pkg:maven/org.apache.commons/commons-lang3@3.12.0'],
+    ['npm', 'left', undefined, 'pkg:npm/left'],
+  ] as const)('identifies %s package %s', (ecosystem, name, version, expected) => {
+    expect(packageUrl(ecosystem, name, version)).toBe(expected);
+  });
+});
+
+describe('CycloneDX', () => {
+  const bom = createCycloneDxBom(report);
+
+  it('validates against the CycloneDX 1.5 schema', () => {
+    const ajv = new Ajv({ strict: false });
+    addFormats(ajv);
+    // Registered under the file names the BOM schema refers to them by
+    for (const name of ['spdx.SNAPSHOT.schema.json', 'jsf-0.82.SNAPSHOT.schema.json']) {
+      const schema = JSON.parse(fs.readFileSync(path.join(CYCLONEDX_SCHEMAS, name), 'utf8'));
+      ajv.addSchema({ ...schema, $id: `http://cyclonedx.org/schema/${name}` });
+    }
+    const validate = ajv.compile(JSON.parse(fs.readFileSync(path.join(CYCLONEDX_SCHEMAS, 'bom-1.5.SNAPSHOT.schema.json'), 'utf8')));
+    expect(validate(JSON.parse(JSON.stringify(bom)))).toBe(true);
+    expect(validate.errors ?? []).toEqual([]);
+  });
+
+  it('describes components with purls, hashes and licenses', () => {
+    const component = (name: string) => bom.components.find(c => c.name === name);
+    expect(component('@babel/code-frame')).toMatchObject({
+      version: '7.22.13',
+      scope: 'required',
+      purl: 'pkg:npm/%40babel/code-frame@7.22.13',
+      licenses: [{ license: { id: 'MIT' } }],
+      hashes: [{ alg: 'SHA-512', content: expect.stringMatching(/^5e4b6e85/) }],
+    });
+    expect(component('@babel/highlight')?.licenses).toEqual([{ expression: '(MIT OR Apache-2.0)' }]);
+    // The strongest of several hashes, and licenses that are not SPDX expressions by name
+    expect(component('is-number')).toMatchObject({
+      scope: 'excluded',
+      hashes: [{ alg: 'SHA-512' }],
+      licenses: [{ license: { name: 'SEE LICENSE IN LICENSE.txt' } }],
+    });
+    expect(component('commons-lang3')).toMatchObject({ group: 'org.apache.commons', purl: 'pkg:maven/org.apache.commons/commons-lang3@3.12.0' });
+    expect(component('left')).not.toHaveProperty('version');
+  });
+
+  it('records the dependency tree from the repository down', () => {
+    expect(bom.dependencies[0]).toEqual({
+      ref: 'repository',
+      dependsOn: expect.arrayContaining(['npm:@babel/code-frame@7.22.13', 'npm:is-number@7.0.0', 'PyPI:Django_REST@3.14.0']),
+    });
+    expect(bom.dependencies).toContainEqual({ ref: 'npm:@babel/code-frame@7.22.13', dependsOn: ['npm:@babel/highlight@7.22.20'] });
+    expect(bom.serialNumber).toBe(createCycloneDxBom(report).serialNumber);
+  });
+});
+
+describe('SPDX', () => {
+  const document = createSpdxDocument(report);
+  const ids = new Set(document.packages.map(p => p.SPDXID));
+
+  it('validates against the SPDX 2.3 schema', () => {
+    const ajv = new Ajv({ strict: false });
+    addFormats(ajv);
+    const validate = ajv.compile(JSON.parse(fs.readFileSync(SPDX_SCHEMA, 'utf8')));
+    expect(validate(JSON.parse(JSON.stringify(document)))).toBe(true);
+    expect(validate.errors ?? []).toEqual([]);
+    // The schema does check the document: unknown fields and relationship types are rejected
+    expect(validate({ ...document, packages: [{ ...document.packages[0], license: 'MIT' }] })).toBe(false);
+    expect(validate({ ...document, relationships: [{ ...document.relationships[0], relationshipType: 'USES' }] })).toBe(false);
+  });
+
+  it('has the fields SPDX 2.3 requires', () => {
+    expect(document).toMatchObject({
+      spdxVersion: 'SPDX-2.3',
+      dataLicense: 'CC0-1.0',
+      SPDXID: 'SPDXRef-DOCUMENT',
+      name: 'https://github.com/acme/shop',
+      creationInfo: { created: '2024-05-01T12:30:45Z', creators: expect.arrayContaining(['Tool: repo-auditor']) },
+    });
+    expect(document.documentNamespace).toMatch(/^https:\/\/spdx\.org\/spdxdocs\/[^#]+$/);
+    for (const pkg of document.packages) {
+      expect(pkg.SPDXID).toMatch(/^SPDXRef-[A-Za-z0-9.-]+$/);
+      expect(pkg).toHaveProperty('downloadLocation');
+      expect(pkg.filesAnalyzed).toBe(false);
+    }
+    expect(ids.size).toBe(document.packages.length);
+  });
+
+  it('declares licenses only as SPDX expressions and checksums in hex', () => {
+    const pkg = (name: string) => document.packages.find(p => p.name === name)!;
+    expect(pkg('@babel/highlight').licenseDeclared).toBe('(MIT OR Apache-2.0)');
+    expect(pkg('is-number').licenseDeclared).toBe('NOASSERTION');
+    expect(pkg('is-number')).toMatchObject({ checksums: [{ algorithm: 'SHA512', checksumValue: expect.stringMatching(/^[0-9a-f]{128}$/) }] });
+    expect(pkg('Django_REST')).toMatchObject({
+      externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: 'pkg:pypi/django-rest@3.14.0' }],
+    });
+    expect(document.packages[0]).toMatchObject({
+      SPDXID: 'SPDXRef-Repository',
+      downloadLocation: 'git+https://github.com/acme/shop.git@0123456789abcdef0123456789abcdef01234567',
+    });
+  });
+
+  it('relates every package to the repository', () => {
+    for (const relationship of document.relationships) {
+      expect([...ids, 'SPDXRef-DOCUMENT']).toContain(relationship.spdxElementId);
+      expect(ids.has(relationship.relatedSpdxElement)).toBe(true);
+    }
+    const id = (name: string) => document.packages.find(p => p.name === name)!.SPDXID;
+    expect(document.relationships).toContainEqual({ spdxElementId: id('is-number'), relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-Repository' });
+    expect(document.relationships).toContainEqual({ spdxElementId: id('@babel/code-frame'), relationshipType: 'DEPENDS_ON', relatedSpdxElement: id('@babel/highlight') });
+  });
+});
@@ -0,0 +1,230 @@
+import { AdvancedAnalysisService } from '../services/advancedAnalysisService';
+import { LLMService } from '../services/llmService';
+import { analyzeSource, hasSyntaxTreeGrammar } from '../services/syntaxTree';
+
+const byName = async (...args: Parameters<typeof analyzeSource>) => {
+  const { functions } = await analyzeSource(...args);
+  return (name: string) => functions.find(fn => fn.name === name);
+};
+
+describe('analyzeSource', () => {
+  it('finds where Python functions end without braces to go by', async () => {
+    const source = [
+      'class Cart:',
+      '    def total(self, items: list[int], *args, rate=0.2, **kw) -> float:',
+      '        # The sum before tax',
+      '        subtotal = sum(i for i in items if i)',
+      '',
+      '        if rate and subtotal:',
+      '            for item in items:',
+      '                if item > 100:',
+      '                    subtotal -= 1',
+      '        elif kw or args:',
+      '            pass',
+      '        return subtotal * rate if rate else subtotal',
+      '',
+      '    async def _refresh(self):',
+      '        def local(x):',
+      '            return x or 0',
+      '        return [lambda y: y if y else 0]',
+      '',
+      'print("{")',
+    ].join('\n');
+    const fn = await byName(source, 'python');
+
+    expect(fn('Cart.total')).toMatchObject({
+      startLine: 2,
+      endLine: 12,
+      sloc: 9,
+      // if, and, elif, or, for, nested if, the generator's for and if, the conditional
+      cyclomaticComplexity: 10,
+      // if 1, and 1, for 2, nested if 3, elif 1, or 1, the conditional 1
+      cognitiveComplexity: 10,
+      nestingDepth: 3,
+      parameters: [
+        { name: 'items', type: 'list[int]', optional: false },
+        { name: '*args', optional: true },
+        { name: 'rate', optional: true, initializer: '0.2' },
+        { name: '**kw', optional: true },
+      ],
+      returnType: 'float',
+      isAsync: false,
+      visibility: 'public',
+    });
+    // The nested function counts on its own; the lambda counts towards its function
+    expect(fn('Cart._refresh')).toMatchObject({ startLine: 14, endLine: 17, cyclomaticComplexity: 2, isAsync: true, visibility: 'protected', parameters: [] });
+    expect(fn('Cart.local')).toMatchObject({ startLine: 15, endLine: 16, cyclomaticComplexity: 2 });
+  });
+
+  it('reads Go functions and methods', async () => {
+    const source = `package main
+
+func (s *Server) Handle(a, b int, opts ...string) (int, error) {
+	if a > 0 && b < 0 {
+	} else if a == 1 {
+		for range opts {
+		}
+	}
+	switch a {
+	case 1, 2:
+	default:
+	}
+	return 0, nil
+}
+
+func helper() {}
+`;
+    const fn = await byName(source, 'go');
+    expect(fn('Server.Handle')).toMatchObject({
+      startLine: 3,
+      endLine: 14,
+      // if, &&, else if, for, one case
+      cyclomaticComplexity: 6,
+      // if 1, && 1, else if 1, for 2, switch 1
+      cognitiveComplexity: 6,
+      // An else if is no deeper than its if
+      nestingDepth: 2,
+      parameters: [{ name: 'a', type: 'int' }, { name: 'b', type: 'int' }, { name: 'opts', type: '...string', optional: true }],
+      returnType: '(int, error)',
+      visibility: 'public',
+    });
+    expect(fn('helper')).toMatchObject({ cyclomaticComplexity: 1, visibility: 'private' });
+  });
+
+  it('reads Java methods and leaves out interface methods without bodies', async () => {
+    const source = `public class Shop {
+  public Shop(int a) {}
+
+  private static <T> List<T> run(final String name, int... rest) throws IOException {
+    switch (name) { case "a": break; default: }
+    try { } catch (Exception e) { }
+    Runnable r = () -> { if (rest.length > 0) {} };
+    return name.isEmpty() ? null : List.of();
+  }
+
+  interface Visitor { void visit(); }
+}`;
+    const { functions, complexity } = await analyzeSource(source, 'java');
+    expect(functions.map(fn => fn.name)).toEqual(['Shop.Shop', 'Shop.run']);
+    expect(functions[1]).toMatchObject({
+      startLine: 4,
+      endLine: 9,
+      cyclomaticComplexity: 5,
+      parameters: [{ name: 'name', type: 'String', optional: false }, { name: 'rest', type: 'int...', optional: true }],
+      returnType: 'List<T>',
+      visibility: 'private',
+    });
+    expect(complexity).toBe(5);
+  });
+
+  it('reads Rust functions in impl blocks', async () => {
+    const source = `impl<T> Store<T> {
+    pub async fn get(&self, mut key: String, n: usize) -> Option<T> {
+        if let Some(x) = self.cache.get(&key) { } else if n > 0 && key.is_empty() { }
+        match n { 0 => None, _ => None }
+    }
+}
+
+trait Named { fn name(&self) -> String; }
+`;
+    const { functions } = await analyzeSource(source, 'rust');
+    expect(functions).toHaveLength(1);
+    expect(functions[0]).toMatchObject({
+      name: 'Store.get',
+      startLine: 2,
+      endLine: 5,
+      // if let, else if, &&, the arm that is not a catch-all
+      cyclomaticComplexity: 5,
+      parameters: [{ name: 'key', type: 'String' }, { name: 'n', type: 'usize' }],
+      returnType: 'Option<T>',
+      isAsync: true,
+      visibility: 'public',
+    });
+  });
+
+  it('reads C# methods, constructors and local functions', async () => {
+    const source = `namespace Shop {
+  public class Orders {
+    public Orders() {}
+    private async Task<int> CountAsync(string name, int limit = 3, params object[] rest) {
+      foreach (var order in rest) {
+        if (order == null || limit < 0) { continue; }
+      }
+      var kind = limit switch { 1 => "one", _ => "many" };
+      int Clamp(int q) { return q > limit ? limit : q; }
+      return Clamp(rest.Length);
+    }
+  }
+}`;
+    const fn = await byName(source, 'csharp');
+    expect(fn('Orders.CountAsync')).toMatchObject({
+      startLine: 4,
+      endLine: 11,
+      cyclomaticComplexity: 5,
+      nestingDepth: 2,
+      parameters: [
+        { name: 'name', type: 'string', optional: false },
+        { name: 'limit', type: 'int', optional: true, initializer: '3' },
+        { name: 'rest', type: 'object[]', optional: true },
+      ],
+      returnType: 'Task<int>',
+      isAsync: true,
+      visibility: 'private',
+    });
+    expect(fn('Orders.Clamp')).toMatchObject({ startLine: 9, endLine: 9, cyclomaticComplexity: 2, returnType: 'int' });
+    expect(fn('Orders.Orders')).toMatchObject({ cyclomaticComplexity: 1, visibility: 'public' });
+  });
+
+  it('reads Ruby methods in classes and modules', async () => {
+    const source = `module Shop
+  class Cart
+    def total(items, rate = 0.2, *rest, key:, **opts, &block)
+      return 0 unless items
+      items.each do |item|
+        puts item if item
+      end
+      case rate
+      when 0 then 0
+      else rate
+      end
+    end
+
+    def self.build
+    end
+  end
+end
+`;
+    const fn = await byName(source, 'ruby');
+    expect(fn('Shop.Cart.total')).toMatchObject({
+      startLine: 3,
+      endLine: 12,
+      cyclomaticComplexity: 4,
+      parameters: [
+        { name: 'items', optional: false },
+        { name: 'rate', optional: true, initializer: '0.2' },
+        { name: '*rest', optional: true },
+        { name: 'key:', optional: false },
+        { name: '**opts', optional: true },
+        { name: '&block', optional: true },
+      ],
+    });
+    expect(fn('Shop.Cart.build')).toMatchObject({ startLine: 14, endLine: 15, cyclomaticComplexity: 1 });
+  });
+
+  it('recovers from syntax errors', async () => {
+    const { functions, hasErrors } = await analyzeSource('def broken(:\n    pass\n\ndef fine(a):\n    return a\n', 'python');
+    expect(hasErrors).toBe(true);
+    expect(functions.find(fn => fn.name === 'fine')).toMatchObject({ startLine: 4, endLine: 5 });
+  });
+});
+
+describe('AdvancedAnalysisService.parseFunctions', () => {
+  it('uses syntax trees for the languages that have a grammar', async () => {
+    expect(hasSyntaxTreeGrammar('python')).toBe(true);
+    expect(hasSyntaxTreeGrammar('php')).toBe(false);
+
+    const service = new AdvancedAnalysisService(new LLMService({ provider: 'openai', apiKey: '' }));
+    const functions = await service.parseFunctions('def first():\n    return 1\n\ndef second():\n    return 2\n', 'python');
+    expect(functions.map(fn => [fn.name, fn.startLine, fn.endLine])).toEqual([['first', 1, 2], ['second', 4, 5]]);
+  });
+});
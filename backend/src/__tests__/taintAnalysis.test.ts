@@ -0,0 +1,134 @@
+import { findTaintFlows } from '../services/taintAnalysis';
+
+const routes = `import express from 'express';
+import { exec } from 'node:child_process';
+import { findUser, readReport } from './db';
+import { archive } from './files';
+
+const app = express();
+
+app.get('/ping', (req, res) => {
+  const host = req.query.host;
+  exec(\`ping -c 1 \${host}\`, (err, output) => res.send(output));
+});
+
+app.get('/users/:id', async (req, res) => {
+  const user = await findUser(req.params.id);
+  res.json(user);
+});
+
+app.get('/users', async (req, res) => {
+  const rows = await db.query('SELECT * FROM users WHERE name = $1', [req.query.name]);
+  res.json(rows);
+});
+
+app.get('/hello', (req, res) => {
+  const name = escapeHtml(req.query.name);
+  res.send('<h1>Hello ' + name + '</h1>');
+});
+
+app.get('/echo', (req, res) => {
+  res.send(\`<p>\${req.body.message}</p>\`);
+});
+
+app.get('/reports/:name', (req, res) => {
+  res.type('text').send(readReport(req.params.name));
+});
+
+archive(process.argv[2]);
+`;
+
+const db = `import fs from 'fs';
+import { pool } from './pool';
+
+function whereId(id: string) {
+  return 'WHERE id = ' + id;
+}
+
+export async function findUser(id: string) {
+  const sql = \`SELECT * FROM users \${whereId(id)}\`;
+  return pool.query(sql);
+}
+
+export function readReport(name: string) {
+  return fs.readFileSync(\`reports/\${parseInt(name, 10)}.txt\`, 'utf8');
+}
+`;
+
+const files = `const { execSync } = require('child_process');
+const path = require('path');
+
+function run(command) {
+  return execSync(command);
+}
+
+module.exports = {
+  archive(target) {
+    run('tar czf backup.tgz ' + path.join('data', target));
+  },
+};
+`;
+
+const page = `const params = new URLSearchParams(window.location.search);
+document.getElementById('title').innerHTML = params.get('title');
+setTimeout(() => eval(document.location.hash.slice(1)), 0);
+`;
+
+describe('findTaintFlows', () => {
+  const issues = findTaintFlows([
+    { path: 'src/routes.ts', content: routes },
+    { path: 'src/db.ts', content: db },
+    { path: 'src/files.js', content: files },
+    { path: 'public/page.js', content: page },
+  ]);
+
+  it('follows input through calls and imports to the sinks it reaches', () => {
+    expect(issues.map(issue => [issue.cwe, issue.taint!.source, issue.taint!.sink, `${issue.file}:${issue.line}`])).toEqual([
+      ['CWE-79', 'window.location', 'innerHTML', 'public/page.js:2'],
+      ['CWE-95', 'document.location', 'eval', 'public/page.js:3'],
+      ['CWE-89', 'req.params', 'pool.query', 'src/db.ts:10'],
+      ['CWE-78', 'process.argv', 'child_process.execSync', 'src/files.js:5'],
+      ['CWE-78', 'req.query', 'child_process.exec', 'src/routes.ts:10'],
+      ['CWE-79', 'req.body', 'res.send', 'src/routes.ts:29'],
+    ]);
+  });
+
+  it('records every step from the source to the sink', () => {
+    const sql = issues.find(issue => issue.cwe === 'CWE-89')!;
+    expect(sql).toMatchObject({
+      type: 'vulnerability',
+      severity: 'critical',
+      description: 'SQL injection: req.params read at src/routes.ts:14 reaches pool.query',
+    });
+    expect(sql.taint!.steps.map(step => [step.file, step.line, step.description])).toEqual([
+      ['src/routes.ts', 14, 'Read from req.params'],
+      ['src/routes.ts', 14, 'Passed to `findUser` as argument 1'],
+      ['src/db.ts', 9, 'Passed to `whereId` as argument 1'],
+      ['src/db.ts', 5, 'Returned from `whereId`'],
+      ['src/db.ts', 9, 'Assigned to `sql`'],
+      ['src/db.ts', 10, 'Reaches pool.query'],
+    ]);
+    expect(sql.taint!.steps[4].code).toBe('const sql = `SELECT * FROM users ${whereId(id)}`;');
+
+    const command = issues.find(issue => issue.file === 'src/files.js')!;
+    expect(command.taint!.steps.map(step => step.description)).toEqual([
+      'Read from process.argv',
+      'Passed to `archive` as argument 1',
+      'Passed to `run` as argument 1',
+      'Reaches child_process.execSync',
+    ]);
+  });
+
+  it('does not report parameterized queries, sanitized input or values that never reach a sink', () => {
+    const lines = issues.filter(issue => issue.file === 'src/routes.ts').map(issue => issue.line);
+    // The parameterized query, the escaped greeting, the numeric report name and the JSON responses
+    for (const line of [15, 19, 20, 25, 33]) expect(lines).not.toContain(line);
+  });
+
+  it('reads only JavaScript and TypeScript outside minified bundles', () => {
+    expect(findTaintFlows([
+      { path: 'app.py', content: 'os.system(request.args["cmd"])' },
+      { path: 'dist/app.min.js', content: 'eval(process.argv[2])' },
+    ])).toEqual([]);
+  });
+});
@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+// What happens to a dependency under a license rule
+const LicenseActionSchema = z.enum(['allow', 'review', 'deny']);
+
 // Dependency configuration schema
 export const DependencyConfigSchema = z.object({
   // Package Management
@@ -27,6 +30,18 @@ export const DependencyConfigSchema = z.object({
       'ISC',
       'Unlicense'
     ]),
+    // Never accepted, even when another rule would allow them
+    deniedLicenses: z.array(z.string()).default([]),
+    // Copyleft licenses that are neither allowed nor denied by name
+    copyleft: z.object({
+      weak: LicenseActionSchema.default('review'), // LGPL, MPL, EPL: changes to the library must be shared
+      strong: LicenseActionSchema.default('deny'), // GPL: the combined work must be distributed under it
+      network: LicenseActionSchema.default('deny'), // AGPL, SSPL: also applies to software offered as a service
+    }).default({}),
+    // Packages without a license, with a proprietary one or one that is not an SPDX expression
+    unknownLicenses: LicenseActionSchema.default('review'),
+    // Development dependencies are not distributed, so only checked on request
+    checkDevDependencyLicenses: z.boolean().default(false),
   }),
   
   // Security Scanning
@@ -76,6 +91,14 @@ export const defaultDependencyConfig: DependencyConfig = {
       'ISC',
       'Unlicense'
     ],
+    deniedLicenses: [],
+    copyleft: {
+      weak: 'review',
+      strong: 'deny',
+      network: 'deny',
+    },
+    unknownLicenses: 'review',
+    checkDevDependencyLicenses: false,
   },
   
   security: {
@@ -2,6 +2,7 @@
 
 import { FileInfo } from '../types';
 import { dependencyUtils } from './dependencies.config'; // Assuming dependencyUtils is exported
+import { analyzeCode } from '../services/codeMetrics';
 
 // This interface was previously in quality.ts (as seen in CodeQualityMetrics.tsx)
 export interface CodeQualityMetrics {
@@ -12,8 +13,8 @@ export interface CodeQualityMetrics {
   dependencyCount: number;
 }
 
-// Basic calculation, can be expanded
-export function calculateCodeQualityMetrics(files: FileInfo[]): CodeQualityMetrics {
+// Averages over the files given; parsed files are measured from their syntax trees
+export async function calculateCodeQualityMetrics(files: FileInfo[]): Promise<CodeQualityMetrics> {
   if (!files || files.length === 0) {
     return {
       cyclomaticComplexity: 0,
@@ -28,21 +29,19 @@ export function calculateCodeQualityMetrics(files: FileInfo[]): CodeQualityMetri
   const allFunctionLengths: number[] = [];
   const uniqueDependencies = new Set<string>();
 
-  files.forEach(file => {
+  for (const file of files) {
     if (file.content) {
-      totalCyclomaticComplexity += dependencyUtils.calculateCyclomaticComplexity(file.content);
+      const analysis = await analyzeCode(file.path, file.content).catch(() => undefined);
+      totalCyclomaticComplexity += analysis?.complexity ?? dependencyUtils.calculateCyclomaticComplexity(file.content);
       totalFileLength += file.content.split('\n').length;
-      
-      // Mock function length extraction
-      const functionsInFile = file.content.match(/function\s+\w+\s*\([^)]*\)\s*\{/g) || [];
-      functionsInFile.forEach(() => {
-        allFunctionLengths.push(Math.floor(Math.random() * 40) + 10); // Placeholder
-      });
+      for (const fn of analysis?.functions ?? []) {
+        allFunctionLengths.push(fn.sloc ?? fn.endLine - fn.startLine + 1);
+      }
     }
     if (file.dependencies) {
         file.dependencies.forEach(dep => uniqueDependencies.add(dep));
     }
-  });
+  }
 
   const avgCyclomaticComplexity = files.length > 0 ? Math.round(totalCyclomaticComplexity / files.length) : 0;
   const avgFileLength = files.length > 0 ? Math.round(totalFileLength / files.length) : 0;
@@ -50,7 +49,7 @@ export function calculateCodeQualityMetrics(files: FileInfo[]): CodeQualityMetri
   return {
     cyclomaticComplexity: avgCyclomaticComplexity,
     fileLength: avgFileLength, // Representing average file length here
-    functionLengths: allFunctionLengths.slice(0, 5), // Sample of function lengths
+    functionLengths: allFunctionLengths, // Lines of code in each function found
     testCoverage: 0, // Placeholder - this usually comes from test reports
     dependencyCount: uniqueDependencies.size,
   };
@@ -0,0 +1,183 @@
+// The rules the SAST rule engine runs when no rule directory is configured, in Semgrep's YAML
+// format. Flows of request input into queries, commands and files are found by taint analysis;
+// these rules flag constructs that are risky wherever their values come from.
+export const BUNDLED_SAST_RULE_PACK = String.raw`
+rules:
+  - id: eval-with-expression
+    languages: [javascript, typescript]
+    severity: ERROR
+    message: eval() runs $CODE as code; any part of it that comes from input can run arbitrary code.
+    metadata:
+      cwe: "CWE-95: Improper Neutralization of Directives in Dynamically Evaluated Code ('Eval Injection')"
+      recommendation: Read data with JSON.parse and look up behaviour in a fixed table instead of evaluating code.
+    patterns:
+      - pattern: eval($CODE)
+      - pattern-not: eval("...")
+
+  - id: function-constructor
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: The Function constructor compiles its arguments as code, as eval() does.
+    metadata:
+      cwe: "CWE-95: Improper Neutralization of Directives in Dynamically Evaluated Code ('Eval Injection')"
+      recommendation: Write the function in the source instead of building it from strings.
+    pattern-either:
+      - pattern: new Function(...)
+      - pattern: Function(...)
+
+  - id: string-timer
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: A string passed to setTimeout or setInterval is evaluated as code.
+    metadata:
+      cwe: "CWE-95: Improper Neutralization of Directives in Dynamically Evaluated Code ('Eval Injection')"
+      recommendation: Pass a function instead of a string.
+    pattern-either:
+      - pattern: setTimeout("...", ...)
+      - pattern: setInterval("...", ...)
+
+  - id: react-dangerously-set-inner-html
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: dangerouslySetInnerHTML renders $HTML as markup without escaping it.
+    metadata:
+      cwe: "CWE-79: Improper Neutralization of Input During Web Page Generation ('Cross-site Scripting')"
+      recommendation: Render the value as text, or sanitize it with a library such as DOMPurify first.
+    patterns:
+      - pattern: <$EL dangerouslySetInnerHTML={$HTML} />
+      - pattern-not: '<$EL dangerouslySetInnerHTML={{ __html: "..." }} />'
+
+  - id: inner-html-assignment
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: Assigning $HTML to $EL parses it as markup, so any input in it can inject script.
+    metadata:
+      cwe: "CWE-79: Improper Neutralization of Input During Web Page Generation ('Cross-site Scripting')"
+      recommendation: Set textContent instead, or sanitize the markup first.
+    patterns:
+      - pattern-either:
+          - pattern: $EL.innerHTML = $HTML
+          - pattern: $EL.outerHTML = $HTML
+      - pattern-not: $EL.innerHTML = "..."
+      - pattern-not: $EL.outerHTML = "..."
+
+  - id: weak-hash-algorithm
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: $ALG is not collision resistant and must not protect passwords, signatures or integrity.
+    metadata:
+      cwe: "CWE-328: Use of Weak Hash"
+      recommendation: Use SHA-256 or stronger, and a slow password hash such as scrypt or Argon2 for passwords.
+    patterns:
+      - pattern-either:
+          - pattern: $CRYPTO.createHash($ALG)
+          - pattern: createHash($ALG)
+      - metavariable-regex:
+          metavariable: $ALG
+          regex: ^['"](md4|md5|sha1|ripemd160)['"]$
+
+  - id: weak-cipher
+    languages: [javascript, typescript]
+    severity: ERROR
+    message: $ALG is a broken cipher.
+    metadata:
+      cwe: "CWE-327: Use of a Broken or Risky Cryptographic Algorithm"
+      recommendation: Use AES-256-GCM or ChaCha20-Poly1305 with createCipheriv and a random IV.
+    patterns:
+      - pattern-either:
+          - pattern: $CRYPTO.createCipheriv($ALG, ...)
+          - pattern: $CRYPTO.createCipher($ALG, ...)
+      - metavariable-regex:
+          metavariable: $ALG
+          regex: ^['"](des|des-ede|des-ede3|des-ecb|rc2|rc4|bf|aes-\d+-ecb)(-[\w-]+)?['"]$
+
+  - id: tls-verification-disabled
+    languages: [javascript, typescript]
+    severity: ERROR
+    message: TLS certificate verification is turned off, so any server can impersonate the real one.
+    metadata:
+      cwe: "CWE-295: Improper Certificate Validation"
+      recommendation: Keep verification on and add the issuing CA with the ca option if the certificate is private.
+    pattern-either:
+      - pattern: '{ ..., rejectUnauthorized: false, ... }'
+      - pattern: process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0"
+
+  - id: jwt-none-algorithm
+    languages: [javascript, typescript]
+    severity: ERROR
+    message: Tokens signed with the "none" algorithm carry no signature, so anyone can forge them.
+    metadata:
+      cwe: "CWE-347: Improper Verification of Cryptographic Signature"
+      recommendation: List only the signing algorithms the application issues, such as HS256 or RS256.
+    pattern-either:
+      - pattern: '$JWT.verify($TOKEN, $KEY, { ..., algorithms: [..., "none", ...], ... })'
+      - pattern: '$JWT.sign($PAYLOAD, $KEY, { ..., algorithm: "none", ... })'
+
+  - id: hardcoded-jwt-secret
+    languages: [javascript, typescript]
+    severity: ERROR
+    message: The key tokens are signed with is written in the source, so anyone with the code can forge tokens.
+    metadata:
+      cwe: "CWE-798: Use of Hard-coded Credentials"
+      recommendation: Read the key from the environment or a secret manager.
+    pattern-either:
+      - pattern: $JWT.sign($PAYLOAD, "...", ...)
+      - pattern: $JWT.verify($TOKEN, "...", ...)
+
+  - id: cors-any-origin
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: Every origin may read the responses of this server.
+    metadata:
+      cwe: "CWE-942: Permissive Cross-domain Policy with Untrusted Domains"
+      recommendation: List the origins that may call the API.
+    pattern-either:
+      - pattern: 'cors({ ..., origin: "*", ... })'
+      - pattern: $RES.setHeader("Access-Control-Allow-Origin", "*")
+      - pattern: $RES.header("Access-Control-Allow-Origin", "*")
+      - pattern: $RES.set("Access-Control-Allow-Origin", "*")
+
+  - id: insecure-session-cookie
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: The session cookie is sent over plain HTTP, where it can be read and replayed.
+    metadata:
+      cwe: "CWE-614: Sensitive Cookie in HTTPS Session Without 'Secure' Attribute"
+      recommendation: Set secure to true, and trust the proxy if TLS ends in front of the server.
+    pattern: '$SESSION({ ..., cookie: { ..., secure: false, ... }, ... })'
+
+  - id: postmessage-any-origin
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: The message can be read by whatever page $TARGET holds.
+    metadata:
+      cwe: "CWE-345: Insufficient Verification of Data Authenticity"
+      recommendation: Pass the origin of the page the message is meant for.
+    pattern: $TARGET.postMessage($MESSAGE, "*")
+
+  - id: child-process-shell
+    languages: [javascript, typescript]
+    severity: WARNING
+    message: With shell set, $CMD and its arguments are interpreted by a shell.
+    metadata:
+      cwe: "CWE-78: Improper Neutralization of Special Elements used in an OS Command ('OS Command Injection')"
+      recommendation: Leave shell off and pass arguments as an array.
+    pattern-either:
+      - pattern: '$CP.spawn($CMD, $ARGS, { ..., shell: true, ... })'
+      - pattern: '$CP.spawnSync($CMD, $ARGS, { ..., shell: true, ... })'
+      - pattern: '$CP.execFile($CMD, $ARGS, { ..., shell: true, ... }, ...)'
+      - pattern: 'spawn($CMD, $ARGS, { ..., shell: true, ... })'
+
+  - id: non-literal-regexp
+    languages: [javascript, typescript]
+    severity: INFO
+    message: A regular expression built from $PATTERN can take exponential time on crafted input.
+    metadata:
+      cwe: "CWE-1333: Inefficient Regular Expression Complexity"
+      recommendation: Escape input before building a pattern from it, or match it with string methods.
+    patterns:
+      - pattern: new RegExp($PATTERN, ...)
+      - pattern-not: new RegExp("...", ...)
+      # Input escaped in place with replace()
+      - pattern-not: new RegExp($INPUT.replace(...), ...)
+`;
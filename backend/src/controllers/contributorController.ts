@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { GitHubService } from '../services/githubService';
+import { createRepositoryProvider, RepositoryProvider } from '../services/repositoryProvider';
 import { Contributor, Commit } from '../types';
 
 // Extended interface for contributor with additional fields
@@ -24,24 +24,21 @@ export const getContributorStats = async (req: Request, res: Response) => {
       });
     }
     
-    // Extract owner and repo from URL
-    const match = repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-    if (!match) {
-      return res.status(400).json({ 
-        error: 'Invalid GitHub repository URL' 
-      });
-    }
-    
-    const [_, owner, repo] = match;
-    
     // Get token from request if available
     const token = req.headers.authorization?.split(' ')[1];
     
-    // Use GitHub service
-    const githubService = new GitHubService(token);
+    // Pick the provider for the repository's host
+    let provider: RepositoryProvider;
+    try {
+      provider = await createRepositoryProvider(repoUrl, token);
+    } catch (error) {
+      return res.status(400).json({ 
+        error: error instanceof Error ? error.message : 'Invalid repository URL' 
+      });
+    }
     
     // Get contributors and recent commits
-    const contributors = await githubService.getContributors(owner, repo);
+    const contributors = await provider.getContributors();
     
     // Determine date cutoff based on period
     const now = new Date();
@@ -62,7 +59,7 @@ export const getContributorStats = async (req: Request, res: Response) => {
     }
     
     // Get commits for the period
-    const commits = await githubService.getCommits(owner, repo);
+    const commits = await provider.getCommits();
     
     // Filter commits by date
     const recentCommits = commits.filter((commit: Commit) => 
@@ -133,24 +130,21 @@ export const getContributorDetails = async (req: Request, res: Response) => {
       });
     }
     
-    // Extract owner and repo from URL
-    const match = repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-    if (!match) {
-      return res.status(400).json({ 
-        error: 'Invalid GitHub repository URL' 
-      });
-    }
-    
-    const [_, owner, repo] = match;
-    
     // Get token from request if available
     const token = req.headers.authorization?.split(' ')[1];
     
-    // Use GitHub service
-    const githubService = new GitHubService(token);
+    // Pick the provider for the repository's host
+    let provider: RepositoryProvider;
+    try {
+      provider = await createRepositoryProvider(repoUrl, token);
+    } catch (error) {
+      return res.status(400).json({ 
+        error: error instanceof Error ? error.message : 'Invalid repository URL' 
+      });
+    }
     
     // Get contributor basic info
-    const contributors = await githubService.getContributors(owner, repo);
+    const contributors = await provider.getContributors();
     const contributor = contributors.find(c => c.login === contributorLogin) as ExtendedContributor;
     
     if (!contributor) {
@@ -160,7 +154,7 @@ export const getContributorDetails = async (req: Request, res: Response) => {
     }
     
     // Get all commits for this repository
-    const allCommits = await githubService.getCommits(owner, repo);
+    const allCommits = await provider.getCommits();
     
     // Filter for this contributor's commits
     const contributorCommits = allCommits.filter((commit: Commit) => 
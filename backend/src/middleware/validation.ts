@@ -1,13 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
+import { LocalGitService } from '../services/localGitService';
+import { parseRepositoryUrl } from '../services/repositoryProvider';
 
 export const validateAnalysisRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   // For GET requests, data is in req.query. For POST, it's in req.body.
   // The /api/analyze endpoint is GET for SSE.
   const repoUrl = req.query.repoUrl as string || req.body.repoUrl as string;
   
-  if (!repoUrl || typeof repoUrl !== 'string' || !repoUrl.includes('github.com')) {
+  if (!repoUrl || typeof repoUrl !== 'string') {
     res.status(400).json({ 
-      error: 'Invalid repository URL. Must be a valid GitHub repository URL.',
+      error: 'Invalid repository URL. Must be a GitHub, GitLab, Gitea or Bitbucket Server repository URL.',
       validExample: 'https://github.com/user/repo'
     });
     return; // Terminate after sending response
@@ -21,22 +23,18 @@ export const validateAnalysisRequest = async (req: Request, res: Response, next:
     return; // Terminate after sending response
   }
 
-  // Further validation: ensure it's a plausible GitHub URL structure
-  try {
-    const url = new URL(repoUrl);
-    if (url.hostname !== 'github.com') {
-      throw new Error('Hostname must be github.com');
+  // Further validation: a supported host and a path that names a repository.
+  // Local paths are checked against LOCAL_REPO_ROOTS when the analysis starts.
+  if (LocalGitService.parseLocalRepoUrl(repoUrl) === null) {
+    try {
+      parseRepositoryUrl(repoUrl);
+    } catch (e) {
+      res.status(400).json({
+        error: 'Invalid URL format. Please provide a full repository URL.',
+        details: e instanceof Error ? e.message : 'Unknown URL parsing error.'
+      });
+      return; // Terminate after sending response
     }
-    const pathParts = url.pathname.split('/').filter(part => part.length > 0);
-    if (pathParts.length < 2) { // Must have at least /owner/repo
-      throw new Error('URL path must include owner and repository name.');
-    }
-  } catch (e) {
-    res.status(400).json({
-      error: 'Invalid URL format. Please provide a full GitHub repository URL.',
-      details: e instanceof Error ? e.message : 'Unknown URL parsing error.'
-    });
-    return; // Terminate after sending response
   }
   
   next();
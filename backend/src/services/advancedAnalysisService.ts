@@ -8,6 +8,7 @@ import {
   FunctionParameter
 } from '../types';
 import { LLMService, LLMError as CustomLLMError } from './llmService';
+import { analyzeSource, hasSyntaxTreeGrammar } from './syntaxTree';
 
 // Enhanced language detection and parsing utilities
 interface LanguageParser {
@@ -39,49 +40,6 @@ const LANGUAGE_PARSERS: Record<string, LanguageParser> = {
     commentRegex: /\/\/.*|\/\*[\s\S]*?\*\//g,
     complexityKeywords: ['if', 'else', 'for', 'while', 'switch', 'case', 'catch', 'try', '&&', '||', '?']
   },
-  python: {
-    name: 'Python',
-    extensions: ['.py', '.pyw', '.pyi'],
-    functionRegex: /(?:def\s+(\w+)|class\s+(\w+))/g,
-    classRegex: /class\s+(\w+)/g,
-    importRegex: /(?:from\s+(\S+)\s+import|import\s+(\S+))/g,
-    commentRegex: /#.*|'''[\s\S]*?'''|"""[\s\S]*?"""/g,
-    complexityKeywords: ['if', 'elif', 'else', 'for', 'while', 'try', 'except', 'with', 'and', 'or']
-  },
-  java: {
-    name: 'Java',
-    extensions: ['.java'],
-    functionRegex: /(?:public|private|protected)?\s*(?:static\s+)?(?:final\s+)?(?:\w+\s+)+(\w+)\s*\([^)]*\)\s*\{/g,
-    classRegex: /(?:public\s+)?(?:abstract\s+)?class\s+(\w+)/g,
-    importRegex: /import\s+([^;]+);/g,
-    commentRegex: /\/\/.*|\/\*[\s\S]*?\*\//g,
-    complexityKeywords: ['if', 'else', 'for', 'while', 'switch', 'case', 'catch', 'try', '&&', '||', '?']
-  },
-  go: {
-    name: 'Go',
-    extensions: ['.go'],
-    functionRegex: /func\s+(?:\([^)]*\)\s+)?(\w+)\s*\([^)]*\)/g,
-    importRegex: /import\s+(?:"([^"]+)"|(\w+)\s+"([^"]+)")/g,
-    commentRegex: /\/\/.*|\/\*[\s\S]*?\*\//g,
-    complexityKeywords: ['if', 'else', 'for', 'switch', 'case', 'select', '&&', '||']
-  },
-  rust: {
-    name: 'Rust',
-    extensions: ['.rs'],
-    functionRegex: /fn\s+(\w+)\s*\([^)]*\)/g,
-    importRegex: /use\s+([^;]+);/g,
-    commentRegex: /\/\/.*|\/\*[\s\S]*?\*\//g,
-    complexityKeywords: ['if', 'else', 'for', 'while', 'loop', 'match', '&&', '||']
-  },
-  csharp: {
-    name: 'C#',
-    extensions: ['.cs'],
-    functionRegex: /(?:public|private|protected|internal)?\s*(?:static\s+)?(?:virtual\s+)?(?:override\s+)?(?:\w+\s+)+(\w+)\s*\([^)]*\)\s*\{/g,
-    classRegex: /(?:public\s+)?(?:abstract\s+)?class\s+(\w+)/g,
-    importRegex: /using\s+([^;]+);/g,
-    commentRegex: /\/\/.*|\/\*[\s\S]*?\*\//g,
-    complexityKeywords: ['if', 'else', 'for', 'while', 'switch', 'case', 'catch', 'try', '&&', '||', '?']
-  },
   php: {
     name: 'PHP',
     extensions: ['.php'],
@@ -90,15 +48,6 @@ const LANGUAGE_PARSERS: Record<string, LanguageParser> = {
     importRegex: /(?:require|include)(?:_once)?\s*['"`]([^'"`]+)['"`]/g,
     commentRegex: /\/\/.*|\/\*[\s\S]*?\*\/|#.*/g,
     complexityKeywords: ['if', 'else', 'for', 'while', 'switch', 'case', 'catch', 'try', '&&', '||', '?']
-  },
-  ruby: {
-    name: 'Ruby',
-    extensions: ['.rb'],
-    functionRegex: /def\s+(\w+)/g,
-    classRegex: /class\s+(\w+)/g,
-    importRegex: /require\s+['"`]([^'"`]+)['"`]/g,
-    commentRegex: /#.*/g,
-    complexityKeywords: ['if', 'else', 'elsif', 'for', 'while', 'case', 'when', 'rescue', '&&', '||']
   }
 };
 
@@ -135,55 +84,9 @@ export class AnalysisError extends Error {
   }
 }
 
-interface SecretPattern {
-  pattern: RegExp;
-  type: string;
-  severity: SecurityIssue['severity'];
-  cwe?: string;
-}
-
 export class AdvancedAnalysisService {
   private llmService: LLMService;
   
-  private readonly secretPatterns: SecretPattern[] = [
-    { 
-      pattern: /(?:api[_-]?key|token|secret)\s*[:=]\s*['"]([a-zA-Z0-9\-_]{20,})['"]/gi,
-      type: 'Generic API Key/Token',
-      severity: 'high',
-      cwe: 'CWE-798'
-    },
-    { 
-      pattern: /(?:password|pwd)\s*[:=]\s*['"](.{8,})['"]/gi,
-      type: 'Password',
-      severity: 'critical',
-      cwe: 'CWE-798'
-    },
-    { 
-      pattern: /private[_-]?key-----BEGIN ((?:RSA|EC|OPENSSH|PGP) )?PRIVATE KEY-----/gi,
-      type: 'Private Key Block',
-      severity: 'critical',
-      cwe: 'CWE-320'
-    },
-    {
-      pattern: /AWS_ACCESS_KEY_ID\s*[:=]\s*['"](AKIA[0-9A-Z]{16})['"]/gi,
-      type: 'AWS Access Key ID',
-      severity: 'critical',
-      cwe: 'CWE-798'
-    },
-    {
-      pattern: /AWS_SECRET_ACCESS_KEY\s*[:=]\s*['"]([a-zA-Z0-9/+=]{40})['"]/gi,
-      type: 'AWS Secret Access Key',
-      severity: 'critical',
-      cwe: 'CWE-798'
-    },
-    { 
-      pattern: /(?:mongodb|mysql|postgres|sqlserver|redis):\/\/(?:[^:@\s]+:[^@\s]+@)/gi,
-      type: 'Database Connection String with Credentials',
-      severity: 'high',
-      cwe: 'CWE-798'
-    }
-  ];
-
   constructor(llmService: LLMService) {
     this.llmService = llmService;
   }
@@ -231,77 +134,22 @@ export class AdvancedAnalysisService {
     }
   }
 
-  /**
-   * Safely execute regex matching with timeout and max matches to prevent ReDoS
-   */
-  private matchPatternSafely(pattern: RegExp, text: string, timeoutMs: number = 5000): Promise<RegExpMatchArray[]> {
-    return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => reject(new Error('Pattern matching timeout')), timeoutMs);
-      const matches: RegExpMatchArray[] = [];
-      let match: RegExpMatchArray | null;
-      let count = 0;
-      const MAX_MATCHES = 1000;
-      
-      try {
-        // Reset lastIndex in case of global regex reuse
-        pattern.lastIndex = 0;
-        while ((match = pattern.exec(text)) !== null && count < MAX_MATCHES) {
-          matches.push(match);
-          count++;
-        }
-        clearTimeout(timer);
-        resolve(matches);
-      } catch (err) {
-        clearTimeout(timer);
-        reject(err);
-      }
-    });
-  }
-
-  async analyzeSecurityIssues(files: FileInfo[]): Promise<SecurityIssue[]> {
+  async analyzeSecurityIssues(files: FileInfo[], signal?: AbortSignal): Promise<SecurityIssue[]> {
     const issues: SecurityIssue[] = [];
-    const CODE_SNIPPET_CONTEXT_LINES = 2;
     let llmVulnCheckCounter = 0;
     const MAX_FILES_FOR_LLM_VULN_CHECK = 10;
 
     for (const file of files) {
+      // When cancelled, stop scanning and keep the findings collected so far
+      if (signal?.aborted) break;
       if (!file.content) continue;
       
-      const lines = file.content.split('\n');
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        for (const { pattern, type, severity, cwe } of this.secretPatterns) {
-          try {
-            const matches = await this.matchPatternSafely(pattern, line);
-            if (matches.length) {
-              const start = Math.max(0, i - CODE_SNIPPET_CONTEXT_LINES);
-              const end = Math.min(lines.length, i + CODE_SNIPPET_CONTEXT_LINES + 1);
-              const snippet = lines.slice(start, end).join('\n');
-              matches.forEach(() => {
-                issues.push({ 
-                  type: 'secret', 
-                  severity, 
-                  file: file.path, 
-                  line: i + 1,
-                  description: `Potential ${type} detected.`,
-                  recommendation: `Validate and remove credentials from code; use secure vaults instead.`,
-                  cwe, 
-                  codeSnippet: snippet 
-                });
-              });
-            }
-          } catch (err) {
-            console.warn(`Timeout or error scanning for ${type} in ${file.path}:`, err);
-          }
-        }
-      }
-      
       // LLM-based vulnerability check for a limited number of files
       if (this.llmService.isConfigured() && llmVulnCheckCounter < MAX_FILES_FOR_LLM_VULN_CHECK) {
         const analyzableExtensions = ['.js', '.ts', '.py', '.java', '.php', '.rb', '.go', '.cs', '.c', '.cpp', '.jsx', '.tsx', '.html', '.sql'];
         const fileExtension = `.${file.name.split('.').pop()?.toLowerCase()}`;
         if (analyzableExtensions.includes(fileExtension) && file.content.length >= 50) {
-          await this.checkCodeVulnerabilitiesLLM(file, issues);
+          await this.checkCodeVulnerabilitiesLLM(file, issues, signal);
           llmVulnCheckCounter++;
           // Delay between LLM calls to avoid rate limits
           const delayMs = Number(process.env.LLM_VULN_DELAY_MS) || 2000;
@@ -312,7 +160,7 @@ export class AdvancedAnalysisService {
     return issues;
   }
 
-  private async checkCodeVulnerabilitiesLLM(file: FileInfo, issues: SecurityIssue[]): Promise<void> {
+  private async checkCodeVulnerabilitiesLLM(file: FileInfo, issues: SecurityIssue[], signal?: AbortSignal): Promise<void> {
     if (!this.llmService.isConfigured() || !file.content || file.content.length < 50) return;
 
     const analyzableExtensions = ['.js', '.ts', '.py', '.java', '.php', '.rb', '.go', '.cs', '.c', '.cpp', '.jsx', '.tsx', '.html', '.sql'];
@@ -333,7 +181,7 @@ Return ONLY a JSON array of vulnerability objects, or an empty array.
 `;
 
     try {
-      const response = await this.llmService.generateText(prompt, 500);
+      const response = await this.llmService.generateText(prompt, 500, signal);
       const parsedVulnerabilities = this._cleanAndParseJson<Omit<SecurityIssue, 'file'>[]>(response);
 
       if (parsedVulnerabilities && Array.isArray(parsedVulnerabilities)) {
@@ -352,7 +200,7 @@ Return ONLY a JSON array of vulnerability objects, or an empty array.
     }
   }
 
-  async analyzePerformanceMetrics(files: FileInfo[]): Promise<PerformanceMetric[]> {
+  async analyzePerformanceMetrics(files: FileInfo[], signal?: AbortSignal): Promise<PerformanceMetric[]> {
     const metrics: PerformanceMetric[] = [];
     if (!this.llmService.isConfigured()) return metrics;
 
@@ -370,9 +218,10 @@ Return ONLY a JSON array of vulnerability objects, or an empty array.
     }
 
     for (const file of filesToProcessPerf) {
+      if (signal?.aborted) break;
       if (file.content) {
         try {
-          const llmPerfAnalysis = await this.llmService.analyzeAlgorithmicComplexity(file.content, file.path);
+          const llmPerfAnalysis = await this.llmService.analyzeAlgorithmicComplexity(file.content, file.path, signal);
           if (llmPerfAnalysis) {
             metrics.push({
               function: file.name, 
@@ -394,7 +243,7 @@ Return ONLY a JSON array of vulnerability objects, or an empty array.
     return metrics;
   }
 
-  async analyzeTechnicalDebt(files: FileInfo[]): Promise<TechnicalDebt[]> {
+  async analyzeTechnicalDebt(files: FileInfo[], signal?: AbortSignal): Promise<TechnicalDebt[]> {
     const debt: TechnicalDebt[] = [];
     
     if (!this.llmService.isConfigured()) {
@@ -438,6 +287,7 @@ Return ONLY a JSON array of vulnerability objects, or an empty array.
     }
 
     for (const file of filesToProcessTechDebt) {
+        if (signal?.aborted) break;
         const contentToAnalyze = file.content!.substring(0, 4000);
         const prompt = `
 Analyze the following code from "${file.path}" for technical debt.
@@ -452,7 +302,7 @@ ${contentToAnalyze}
 Return ONLY a JSON array of technical debt objects, or an empty array.
 `;
         try {
-            const response = await this.llmService.generateText(prompt, 600);
+            const response = await this.llmService.generateText(prompt, 600, signal);
             const parsedDebt = this._cleanAndParseJson<Omit<TechnicalDebt, 'file'>[]>(response);
             if (parsedDebt && Array.isArray(parsedDebt)) {
                 parsedDebt.forEach(item => {
@@ -471,7 +321,7 @@ Return ONLY a JSON array of technical debt objects, or an empty array.
     }
     return debt;
   }
-  async detectAPIEndpoints(files: FileInfo[]): Promise<APIEndpoint[]> {
+  async detectAPIEndpoints(files: FileInfo[], signal?: AbortSignal): Promise<APIEndpoint[]> {
     const endpoints: APIEndpoint[] = [];
     
     // Enhanced regex-based detection for when LLM is not configured
@@ -496,6 +346,7 @@ Return ONLY a JSON array of technical debt objects, or an empty array.
     }
     
     for (const file of filesToProcessApi) { 
+      if (signal?.aborted) break;
       const contentToAnalyze = file.content!.substring(0, 4000);
       const prompt = `
 Analyze the following code from "${file.path}" to detect API endpoint definitions.
@@ -509,7 +360,7 @@ ${contentToAnalyze}
 Return ONLY a JSON array of endpoint objects, or an empty array.
 `;
         try {
-          const response = await this.llmService.generateText(prompt, 600);
+          const response = await this.llmService.generateText(prompt, 600, signal);
           const parsedEndpoints = this._cleanAndParseJson<Omit<APIEndpoint, 'file'>[]>(response);
           if (parsedEndpoints && Array.isArray(parsedEndpoints)) {
             parsedEndpoints.forEach(ep => {
@@ -598,6 +449,9 @@ Return ONLY a JSON array of roadmap items.
 
     // Determine language if not provided
     const detectedLanguage = language?.toLowerCase() || 'javascript';
+    if (hasSyntaxTreeGrammar(detectedLanguage)) {
+      return (await analyzeSource(fileContent, detectedLanguage)).functions;
+    }
     const parser = LANGUAGE_PARSERS[detectedLanguage];
     
     if (!parser) {
@@ -675,19 +529,6 @@ Return ONLY a JSON array of roadmap items.
       case 'typescript':
         paramsMatch = functionSignature.match(/\(([^)]*)\)/);
         break;
-      case 'python':
-        paramsMatch = functionSignature.match(/\(([^)]*)\):/);
-        break;
-      case 'java':
-      case 'csharp':
-        paramsMatch = functionSignature.match(/\(([^)]*)\)\s*\{/);
-        break;
-      case 'go':
-        paramsMatch = functionSignature.match(/\(([^)]*)\)/);
-        break;
-      case 'rust':
-        paramsMatch = functionSignature.match(/\(([^)]*)\)/);
-        break;
       default:
         paramsMatch = functionSignature.match(/\(([^)]*)\)/);
     }
@@ -781,52 +622,6 @@ Return ONLY a JSON array of roadmap items.
         }
         break;
         
-      case 'python':
-        // Handle Python: name, name: type, name = default, name: type = default
-        const pyMatch = param.match(/^(\w+)(?:\s*:\s*([^=]+))?(?:\s*=\s*.*)?$/);
-        if (pyMatch) {
-          name = pyMatch[1];
-          type = pyMatch[2] ? pyMatch[2].trim() : 'Any';
-          optional = param.includes('=');
-        } else {
-          name = param;
-        }
-        break;
-        
-      case 'java':
-      case 'csharp':
-        // Handle Java/C#: Type name, final Type name
-        const javaMatch = param.match(/(?:final\s+)?(\w+(?:<[^>]+>)?(?:\[\])?)\s+(\w+)/);
-        if (javaMatch) {
-          type = javaMatch[1];
-          name = javaMatch[2];
-        } else {
-          name = param;
-        }
-        break;
-        
-      case 'go':
-        // Handle Go: name type, name ...type
-        const goMatch = param.match(/(\w+)\s+(\.\.\.)?(.+)/);
-        if (goMatch) {
-          name = goMatch[1];
-          type = (goMatch[2] || '') + goMatch[3];
-        } else {
-          name = param;
-        }
-        break;
-        
-      case 'rust':
-        // Handle Rust: name: type, mut name: type
-        const rustMatch = param.match(/(?:mut\s+)?(\w+):\s*(.+)/);
-        if (rustMatch) {
-          name = rustMatch[1];
-          type = rustMatch[2];
-        } else {
-          name = param;
-        }
-        break;
-        
       default:
         name = param.match(/\w+/)?.[0] || param;
     }
@@ -967,7 +762,7 @@ Return ONLY a JSON array of roadmap items.
 
     return endpoints;
   }
-  async analyzeFeatureFileMatrix(files: FileInfo[]): Promise<{ featureFile: string; sourceFiles: string[] }[]> {
+  async analyzeFeatureFileMatrix(files: FileInfo[], signal?: AbortSignal): Promise<{ featureFile: string; sourceFiles: string[] }[]> {
     console.log(`[FeatureFileMatrix] Starting analysis with ${files.length} total files`);
     
     if (!this.llmService.isConfigured()) {
@@ -993,6 +788,7 @@ Return ONLY a JSON array of roadmap items.
     }    const matrix: { featureFile: string; sourceFiles: string[] }[] = [];
 
     for (const featureFile of featureFiles.slice(0, 5)) { // Limit to 5 feature files to manage cost/time
+      if (signal?.aborted) break;
       const sourceFilePaths = sourceFiles
         .sort((a, b) => a.path.localeCompare(b.path))
         .slice(0, 100) // Reduced limit to prevent prompt truncation
@@ -1017,7 +813,7 @@ Respond ONLY with valid minified JSON matching this exact schema:
 
 Select the 3-8 most relevant source files that would implement the scenarios described in the feature file.
 `;      try {
-        const response = await this.llmService.generateText(prompt, 800);
+        const response = await this.llmService.generateText(prompt, 800, signal);
         console.log(`[FeatureFileMatrix] LLM response for ${featureFile.path}: ${response.substring(0, 200)}...`);
         
         const parsedResult = this._cleanAndParseJson<{ sourceFiles: string[] }>(response);
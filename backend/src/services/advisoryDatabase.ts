@@ -0,0 +1,290 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import JSZip from 'jszip';
+import { DependencyVulnerability, SecurityIssue } from '../types';
+import { compareVersions } from './semver';
+
+// OSV schema (https://ossf.github.io/osv-schema/), limited to the fields we read
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+interface OsvAffected {
+  package?: { ecosystem: string; name: string };
+  ranges?: Array<{ type: 'SEMVER' | 'ECOSYSTEM' | 'GIT'; events: OsvEvent[] }>;
+  versions?: string[];
+  severity?: OsvSeverity[];
+}
+
+interface OsvSeverity {
+  type: string;
+  score: string;
+}
+
+export interface OsvAdvisory {
+  id: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  withdrawn?: string;
+  severity?: OsvSeverity[];
+  affected?: OsvAffected[];
+  references?: Array<{ type: string; url: string }>;
+  database_specific?: { severity?: string; cwe_ids?: string[] };
+}
+
+// CVSS v3.x base metric weights, from the specification
+const CVSS_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+// CVSS v3.1 rounds up to one decimal in a way that avoids floating point artifacts
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+/**
+ * Base score of a CVSS v3.0/v3.1 vector such as `CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H`,
+ * or undefined when the vector is not a complete v3 vector.
+ */
+export function cvssV3BaseScore(vector: string): number | undefined {
+  const [version, ...parts] = vector.split('/');
+  if (!/^CVSS:3\.[01]$/.test(version)) return undefined;
+  const metrics = Object.fromEntries(parts.map(part => part.split(':')));
+  const changedScope = metrics.S === 'C';
+  const privileges = ({ N: 0.85, L: changedScope ? 0.68 : 0.62, H: changedScope ? 0.5 : 0.27 } as Record<string, number>)[metrics.PR];
+  const weight = (metric: string) => CVSS_WEIGHTS[metric][metrics[metric]];
+  if (privileges === undefined || !['U', 'C'].includes(metrics.S) || Object.keys(CVSS_WEIGHTS).some(m => weight(m) === undefined)) {
+    return undefined;
+  }
+
+  const iss = 1 - (1 - weight('C')) * (1 - weight('I')) * (1 - weight('A'));
+  const impact = changedScope ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability = 8.22 * weight('AV') * weight('AC') * privileges * weight('UI');
+  if (impact <= 0) return 0;
+  return roundUp(Math.min((changedScope ? 1.08 : 1) * (impact + exploitability), 10));
+}
+
+function severityFromScore(score: number): SecurityIssue['severity'] {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  return 'low';
+}
+
+// GitHub advisories label severities instead of (or as well as) giving a vector
+const DATABASE_SEVERITIES: Record<string, SecurityIssue['severity']> = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  LOW: 'low',
+};
+
+/**
+ * Severity of an advisory for one affected package: from its CVSS v3 vector when there is
+ * one, else from the database's own label, else medium.
+ */
+function advisorySeverity(advisory: OsvAdvisory, affected: OsvAffected): Pick<DependencyVulnerability, 'severity' | 'cvssScore' | 'cvssVector'> {
+  const vectors = [...(affected.severity ?? []), ...(advisory.severity ?? [])].filter(s => s.type === 'CVSS_V3');
+  for (const { score: vector } of vectors) {
+    const cvssScore = cvssV3BaseScore(vector);
+    if (cvssScore !== undefined) return { severity: severityFromScore(cvssScore), cvssScore, cvssVector: vector };
+  }
+  const label = advisory.database_specific?.severity?.toUpperCase();
+  return { severity: (label && DATABASE_SEVERITIES[label]) || 'medium' };
+}
+
+// Python package names compare case-insensitively with runs of -_. treated as one -
+function normalizePackageName(ecosystem: string, name: string): string {
+  return ecosystem === 'PyPI' ? name.toLowerCase().replace(/[-_.]+/g, '-') : name;
+}
+
+const packageKey = (ecosystem: string, name: string) => `${ecosystem}:${normalizePackageName(ecosystem, name)}`;
+
+/**
+ * Whether `version` falls in an OSV range, following the schema's evaluation order:
+ * events are walked in version order, `introduced` opens the range and `fixed` or
+ * `last_affected` closes it.
+ */
+function inRange(version: string, events: OsvEvent[]): boolean {
+  const eventVersion = (event: OsvEvent) => event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+  const sorted = [...events].sort((a, b) => {
+    const versionA = eventVersion(a);
+    const versionB = eventVersion(b);
+    if (versionA === '0') return versionB === '0' ? 0 : -1;
+    if (versionB === '0') return 1;
+    return compareVersions(versionA, versionB);
+  });
+
+  let affected = false;
+  for (const event of sorted) {
+    if (event.introduced !== undefined) {
+      if (event.introduced === '0' || compareVersions(version, event.introduced) >= 0) affected = true;
+    } else if (event.fixed !== undefined) {
+      if (compareVersions(version, event.fixed) >= 0) affected = false;
+    } else if (event.last_affected !== undefined) {
+      if (compareVersions(version, event.last_affected) > 0) affected = false;
+    } else if (event.limit !== undefined && compareVersions(version, event.limit) >= 0) {
+      affected = false;
+    }
+  }
+  return affected;
+}
+
+// Human-readable ranges, e.g. ">=4.0.0 <4.17.21"
+function describeRanges(affected: OsvAffected): string[] {
+  const described: string[] = [];
+  for (const range of affected.ranges ?? []) {
+    if (range.type === 'GIT') continue;
+    let introduced: string | undefined;
+    for (const event of range.events) {
+      if (event.introduced !== undefined) {
+        introduced = event.introduced;
+        continue;
+      }
+      const end = event.fixed !== undefined ? `<${event.fixed}` : event.last_affected !== undefined ? `<=${event.last_affected}` : undefined;
+      if (introduced !== undefined && end) {
+        described.push(introduced === '0' ? end : `>=${introduced} ${end}`);
+        introduced = undefined;
+      }
+    }
+    if (introduced !== undefined) described.push(introduced === '0' ? '*' : `>=${introduced}`);
+  }
+  return described;
+}
+
+/**
+ * An OSV-format advisory dump (e.g. osv.dev's per-ecosystem `all.zip` exports), indexed by
+ * package so dependencies can be checked without network access.
+ */
+export class AdvisoryDatabase {
+  private advisories = new Map<string, Array<{ advisory: OsvAdvisory; affected: OsvAffected }>>();
+  private count = 0;
+
+  constructor(advisories: OsvAdvisory[] = []) {
+    advisories.forEach(advisory => this.add(advisory));
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(advisory: OsvAdvisory): void {
+    if (advisory.withdrawn) return;
+    this.count++;
+    // Full dumps run to hundreds of megabytes, so only the fields matching reads are kept
+    const reference = advisory.references?.find(r => r.type === 'ADVISORY') ?? advisory.references?.[0];
+    const compact: OsvAdvisory = {
+      id: advisory.id,
+      aliases: advisory.aliases,
+      summary: advisory.summary || advisory.details?.split('\n')[0],
+      severity: advisory.severity,
+      references: reference ? [reference] : undefined,
+      database_specific: { severity: advisory.database_specific?.severity, cwe_ids: advisory.database_specific?.cwe_ids },
+    };
+    for (const affected of advisory.affected ?? []) {
+      if (!affected.package) continue;
+      const key = packageKey(affected.package.ecosystem, affected.package.name);
+      const entries = this.advisories.get(key) ?? [];
+      entries.push({
+        advisory: compact,
+        affected: { package: affected.package, ranges: affected.ranges, versions: affected.versions, severity: affected.severity },
+      });
+      this.advisories.set(key, entries);
+    }
+  }
+
+  /**
+   * Reads every `*.json` advisory and `*.zip` archive of advisories under a directory.
+   */
+  static async load(directory: string): Promise<AdvisoryDatabase> {
+    const database = new AdvisoryDatabase();
+    await database.loadDirectory(directory);
+    console.log(`[AdvisoryDatabase] Loaded ${database.size} advisories from ${directory}`);
+    return database;
+  }
+
+  private async loadDirectory(directory: string): Promise<void> {
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const filePath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        await this.loadDirectory(filePath);
+        continue;
+      }
+      if (!entry.isFile()) continue;
+      if (entry.name.endsWith('.json')) {
+        this.addJson(await fs.readFile(filePath, 'utf8'), filePath);
+      } else if (entry.name.endsWith('.zip')) {
+        const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+        for (const file of Object.values(zip.files)) {
+          if (!file.dir && file.name.endsWith('.json')) this.addJson(await file.async('text'), `${filePath}:${file.name}`);
+        }
+      }
+    }
+  }
+
+  private addJson(json: string, source: string): void {
+    try {
+      const parsed = JSON.parse(json);
+      (Array.isArray(parsed) ? parsed : [parsed]).forEach(advisory => this.add(advisory));
+    } catch (error) {
+      console.warn(`[AdvisoryDatabase] Skipping unreadable advisory ${source}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Advisories affecting one version of a package.
+   */
+  findVulnerabilities(ecosystem: string, name: string, version: string): DependencyVulnerability[] {
+    const vulnerabilities: DependencyVulnerability[] = [];
+    for (const { advisory, affected } of this.advisories.get(packageKey(ecosystem, name)) ?? []) {
+      const listed = affected.versions?.includes(version) ?? false;
+      const ranges = (affected.ranges ?? []).filter(range => range.type !== 'GIT');
+      if (!listed && !ranges.some(range => inRange(version, range.events))) continue;
+
+      vulnerabilities.push({
+        id: advisory.id,
+        aliases: advisory.aliases ?? [],
+        packageName: name,
+        ecosystem,
+        version,
+        summary: advisory.summary || advisory.id,
+        ...advisorySeverity(advisory, affected),
+        affectedRanges: describeRanges(affected),
+        fixedVersions: ranges.flatMap(range => range.events.filter(e => e.fixed !== undefined).map(e => e.fixed!)),
+        cwe: advisory.database_specific?.cwe_ids?.[0],
+        url: advisory.references?.[0]?.url,
+      });
+    }
+    return vulnerabilities;
+  }
+}
+
+let databasePromise: Promise<AdvisoryDatabase | null> | null = null;
+
+/**
+ * The advisory database under OSV_DATABASE_PATH, loaded once per process. Null when no
+ * path is configured.
+ */
+export function getAdvisoryDatabase(): Promise<AdvisoryDatabase | null> {
+  const directory = process.env.OSV_DATABASE_PATH;
+  if (!directory) return Promise.resolve(null);
+  if (!databasePromise) {
+    databasePromise = AdvisoryDatabase.load(directory).catch(error => {
+      // Let a later analysis retry, e.g. once the dump has been downloaded
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
@@ -0,0 +1,437 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { AnalysisJob, AnalysisJobEvent, LLMConfig } from '../types';
+import { RedisCacheService } from './redisCacheService';
+
+/**
+ * The subset of RedisCacheService the queue needs, so the service can run against any
+ * store with the same semantics.
+ */
+export type JobStore = Pick<
+  RedisCacheService,
+  'get' | 'setRecord' | 'delete' | 'pushToList' | 'popFromList' | 'getListRange' |
+  'removeFromList' | 'addToSet' | 'removeFromSet' | 'getSetMembers'
+>;
+
+export interface AnalysisJobRequest {
+  repoUrl: string;
+  githubToken?: string;
+  llmConfig?: LLMConfig;
+}
+
+/**
+ * A request as it waits in the store: the provider token and LLM config are encrypted, so
+ * they are never readable from Redis.
+ */
+interface StoredJobRequest {
+  repoUrl: string;
+  credentials?: string;
+}
+
+/**
+ * A client's claim on a job. Jobs are shared by everyone who submits the same repository
+ * while it is active; the subscriber ID lets a client withdraw without cancelling the job
+ * for the others.
+ */
+export interface AnalysisJobSubscription {
+  job: AnalysisJob;
+  subscriberId: string;
+}
+
+export interface AnalysisJobContext {
+  jobId: string;
+  /**
+   * Aborted when the job is cancelled while running. The runner should stop promptly and
+   * may still return a partial report, which is kept on the cancelled job.
+   */
+  signal: AbortSignal;
+  sendProgress: (step: string, progress: number) => void;
+}
+
+/**
+ * Does the actual work for a job and returns the ID the finished report was stored under.
+ */
+export type AnalysisJobRunner = (request: AnalysisJobRequest, context: AnalysisJobContext) => Promise<{ reportId: string }>;
+
+type JobEventListener = (event: AnalysisJobEvent) => void;
+
+// Jobs, their event logs and stored requests all expire together
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+const DEFAULT_CONCURRENCY = 2;
+const CREDENTIALS_CIPHER = 'aes-256-gcm';
+
+const QUEUE_KEY = 'jobs:queue';
+const RUNNING_KEY = 'jobs:running';
+const jobKey = (id: string) => `job:${id}`;
+const requestKey = (id: string) => `job:${id}:request`;
+const eventsKey = (id: string) => `job:${id}:events`;
+const submitterKey = (id: string) => `job:${id}:submitter`;
+const subscribersKey = (id: string) => `job:${id}:subscribers`;
+// Points at the queued or running job for a repository so concurrent submissions share it
+const activeKey = (repoUrl: string) => `jobs:active:${crypto.createHash('sha256').update(repoUrl).digest('hex')}`;
+
+const isFinished = (job: AnalysisJob) =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+/**
+ * Runs analyses as queued jobs outside of any HTTP request. Job records, the queue and
+ * each job's event log live in Redis, so a client can disconnect and reattach (or a second
+ * viewer can attach) and replay progress from any event ID, and queued work survives a
+ * restart. Execution happens in this process, at most `concurrency` jobs at a time.
+ */
+export class AnalysisJobService {
+  private store: JobStore;
+  private runner: AnalysisJobRunner;
+  private concurrency: number;
+  private running = new Map<string, { job: AnalysisJob; controller: AbortController }>();
+  private emitter = new EventEmitter();
+  private draining = false;
+  private credentialsKey: Buffer;
+
+  constructor(store: JobStore, runner: AnalysisJobRunner, concurrency?: number) {
+    this.store = store;
+    this.runner = runner;
+    this.concurrency = concurrency ?? (parseInt(process.env.ANALYSIS_CONCURRENCY || '', 10) || DEFAULT_CONCURRENCY);
+    // Without a configured secret, credentials of queued jobs do not survive a restart and
+    // cannot be read by other instances sharing the store
+    const secret = process.env.JOB_CREDENTIALS_KEY;
+    this.credentialsKey = secret ? crypto.createHash('sha256').update(secret).digest() : crypto.randomBytes(32);
+    // Every SSE viewer of a job adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Queues an analysis, or subscribes to the job already queued or running for the same
+   * repository.
+   */
+  async submit(request: AnalysisJobRequest): Promise<AnalysisJobSubscription> {
+    const subscriberId = crypto.randomUUID();
+    const activeId = await this.store.get<string>(activeKey(request.repoUrl));
+    if (activeId) {
+      const active = await this.getJob(activeId);
+      if (active && !isFinished(active)) {
+        console.log(`[AnalysisJobService] Reusing ${active.status} job ${active.id} for ${request.repoUrl}`);
+        await this.store.addToSet(subscribersKey(active.id), subscriberId, { ttlSeconds: JOB_TTL_SECONDS });
+        return { job: active, subscriberId };
+      }
+    }
+
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      repoUrl: request.repoUrl,
+      status: 'queued',
+      progress: 0,
+      step: 'Queued',
+      createdAt: new Date().toISOString(),
+    };
+    await this.saveJob(job);
+    await this.store.setRecord(requestKey(job.id), this.sealRequest(request), JOB_TTL_SECONDS);
+    await this.store.setRecord(submitterKey(job.id), subscriberId, JOB_TTL_SECONDS);
+    await this.store.addToSet(subscribersKey(job.id), subscriberId, { ttlSeconds: JOB_TTL_SECONDS });
+    await this.store.setRecord(activeKey(request.repoUrl), job.id, JOB_TTL_SECONDS);
+    await this.appendEvent(job.id, 'status', { jobId: job.id, status: job.status });
+    await this.store.pushToList(QUEUE_KEY, job.id);
+    console.log(`[AnalysisJobService] Queued job ${job.id} for ${request.repoUrl}`);
+
+    this.drain();
+    return { job, subscriberId };
+  }
+
+  /**
+   * Records a job that is already complete, for requests answered from the report cache, so
+   * callers can treat every analysis as a job.
+   */
+  async createCompletedJob(repoUrl: string, reportId: string): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = { id: crypto.randomUUID(), repoUrl, status: 'running', progress: 0, step: 'Loading cached report', createdAt: now, startedAt: now };
+    await this.appendEvent(job.id, 'status', { jobId: job.id, status: 'completed' });
+    return this.finish(job, 'completed', { reportId });
+  }
+
+  async getJob(id: string): Promise<AnalysisJob | null> {
+    return this.running.get(id)?.job ?? this.store.get<AnalysisJob>(jobKey(id));
+  }
+
+  /**
+   * Zero-based position in the queue, or null if the job is not waiting.
+   */
+  async getQueuePosition(id: string): Promise<number | null> {
+    const queue = await this.store.getListRange(QUEUE_KEY, 0);
+    const position = queue.indexOf(id);
+    return position === -1 ? null : position;
+  }
+
+  /**
+   * Cancels a queued or running job. A queued job is cancelled immediately; a running job
+   * is signalled to stop and becomes `cancelled` when its runner returns. Finished jobs
+   * are returned unchanged.
+   */
+  async cancel(id: string): Promise<AnalysisJob | null> {
+    const job = await this.getJob(id);
+    if (!job || isFinished(job)) return job;
+
+    const active = this.running.get(id);
+    if (active) {
+      if (!active.controller.signal.aborted) {
+        console.log(`[AnalysisJobService] Cancelling running job ${id}`);
+        active.controller.abort();
+        job.step = 'Cancelling';
+        await this.saveJob(job);
+        await this.appendEvent(id, 'status', { jobId: id, status: job.status, message: 'Cancelling analysis' });
+      }
+      return job;
+    }
+
+    await this.store.removeFromList(QUEUE_KEY, id);
+    console.log(`[AnalysisJobService] Cancelled queued job ${id}`);
+    return this.finish(job, 'cancelled', { message: 'Analysis cancelled' });
+  }
+
+  /**
+   * Withdraws a subscriber from a job. The job is cancelled when its submitter withdraws
+   * or no other subscriber is left; until then it keeps running for the others. Returns
+   * null when the subscriber never subscribed to the job.
+   */
+  async withdraw(id: string, subscriberId: string): Promise<AnalysisJob | null> {
+    const job = await this.getJob(id);
+    if (!job || isFinished(job)) return job;
+
+    const subscribers = await this.store.getSetMembers(subscribersKey(id));
+    if (!subscribers.includes(subscriberId)) return null;
+    await this.store.removeFromSet(subscribersKey(id), subscriberId);
+
+    if (subscriberId === await this.store.get<string>(submitterKey(id)) || subscribers.length === 1) {
+      return this.cancel(id);
+    }
+    console.log(`[AnalysisJobService] Subscriber left job ${id}; ${subscribers.length - 1} remaining`);
+    return job;
+  }
+
+  /**
+   * Events after `afterId` (0 for the full log), in order.
+   */
+  async getEvents(id: string, afterId: number = 0): Promise<AnalysisJobEvent[]> {
+    const raw = await this.store.getListRange(eventsKey(id), afterId);
+    return raw.map((entry, index) => ({ id: afterId + index + 1, ...JSON.parse(entry) }));
+  }
+
+  /**
+   * Replays events after `afterId` and then delivers new ones as they happen. Live events
+   * that arrive during the replay are held back so nothing is delivered twice or out of order.
+   * Returns a function that stops the subscription.
+   */
+  async subscribe(id: string, afterId: number, listener: JobEventListener): Promise<() => void> {
+    let replaying = true;
+    const held: AnalysisJobEvent[] = [];
+    const onEvent = (event: AnalysisJobEvent) => (replaying ? held.push(event) : listener(event));
+    this.emitter.on(id, onEvent);
+
+    let lastId = afterId;
+    for (const event of await this.getEvents(id, afterId)) {
+      listener(event);
+      lastId = event.id;
+    }
+    replaying = false;
+    for (const event of held) {
+      if (event.id > lastId) listener(event);
+    }
+
+    return () => {
+      this.emitter.off(id, onEvent);
+    };
+  }
+
+  /**
+   * Puts jobs that were running when the process stopped back at the head of the queue
+   * and starts working through it. Call once at startup.
+   */
+  async recover(): Promise<void> {
+    const interrupted = await this.store.getSetMembers(RUNNING_KEY);
+    for (const id of interrupted) {
+      await this.store.removeFromSet(RUNNING_KEY, id);
+      const job = await this.store.get<AnalysisJob>(jobKey(id));
+      if (!job || isFinished(job)) {
+        await this.forgetRequest(id);
+        continue;
+      }
+
+      job.status = 'queued';
+      job.progress = 0;
+      job.step = 'Re-queued after server restart';
+      await this.saveJob(job);
+      await this.appendEvent(id, 'status', { jobId: id, status: job.status, message: job.step });
+      await this.store.pushToList(QUEUE_KEY, id, { front: true });
+    }
+    if (interrupted.length > 0) {
+      console.log(`[AnalysisJobService] Re-queued ${interrupted.length} interrupted job(s)`);
+    }
+    this.drain();
+  }
+
+  /**
+   * Starts queued jobs until the concurrency limit is reached. Safe to call at any time.
+   */
+  private drain(): void {
+    if (this.draining) return;
+    this.draining = true;
+
+    const next = async () => {
+      try {
+        while (this.running.size < this.concurrency) {
+          const id = await this.store.popFromList(QUEUE_KEY);
+          if (!id) break;
+          await this.start(id);
+        }
+      } catch (error) {
+        console.error('[AnalysisJobService] Failed to start queued job:', error);
+      } finally {
+        this.draining = false;
+      }
+    };
+    void next();
+  }
+
+  private async start(id: string): Promise<void> {
+    const job = await this.store.get<AnalysisJob>(jobKey(id));
+    // Cancelled or expired while waiting
+    if (!job || job.status !== 'queued') {
+      await this.forgetRequest(id);
+      return;
+    }
+
+    const stored = await this.store.get<StoredJobRequest>(requestKey(id));
+    if (!stored) {
+      await this.finish(job, 'failed', { error: 'Job request expired before it could run' });
+      return;
+    }
+    const request = this.openRequest(stored);
+    if (!request) {
+      await this.finish(job, 'failed', { error: 'Job credentials could not be read after a server restart; submit the analysis again' });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.running.set(id, { job, controller });
+    await this.store.addToSet(RUNNING_KEY, id);
+
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    job.step = 'Starting analysis';
+    await this.saveJob(job);
+    await this.appendEvent(id, 'status', { jobId: id, status: job.status });
+    console.log(`[AnalysisJobService] Started job ${id} (${this.running.size}/${this.concurrency} running)`);
+
+    const sendProgress = (step: string, progress: number) => {
+      if (job.status !== 'running' || controller.signal.aborted) return;
+      job.step = step;
+      job.progress = progress;
+      this.saveJob(job)
+        .then(() => this.appendEvent(id, 'progress', { step, progress, timestamp: Date.now() }))
+        .catch(error => console.warn(`[AnalysisJobService] Failed to record progress for job ${id}:`, error));
+    };
+
+    // Runs in the background; the slot is released when the runner settles
+    this.runner(request, { jobId: id, signal: controller.signal, sendProgress })
+      .then(async ({ reportId }) => {
+        if (controller.signal.aborted) {
+          await this.finish(job, 'cancelled', { reportId, message: 'Analysis cancelled; partial report kept' });
+        } else {
+          await this.finish(job, 'completed', { reportId });
+        }
+      })
+      .catch(async error => {
+        if (controller.signal.aborted) {
+          await this.finish(job, 'cancelled', { message: 'Analysis cancelled' });
+        } else {
+          await this.finish(job, 'failed', { error: error instanceof Error ? error.message : String(error) });
+        }
+      })
+      .catch(error => console.error(`[AnalysisJobService] Failed to finish job ${id}:`, error))
+      .finally(async () => {
+        this.running.delete(id);
+        // Also when finishing failed half-way
+        await this.forgetRequest(id).catch(() => undefined);
+        await this.store.removeFromSet(RUNNING_KEY, id).catch(() => undefined);
+        this.drain();
+      });
+  }
+
+  private async finish(
+    job: AnalysisJob,
+    status: 'completed' | 'failed' | 'cancelled',
+    outcome: { reportId?: string; error?: string; message?: string }
+  ): Promise<AnalysisJob> {
+    // Credentials are only needed to run the job, so they go before anything that may fail
+    await this.forgetRequest(job.id);
+
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.reportId = outcome.reportId;
+    if (status === 'completed') {
+      job.progress = 100;
+      job.step = 'Analysis complete';
+    } else {
+      job.step = outcome.message || outcome.error || status;
+      job.error = outcome.error;
+    }
+    await this.saveJob(job);
+
+    if (await this.store.get<string>(activeKey(job.repoUrl)) === job.id) {
+      await this.store.delete(activeKey(job.repoUrl));
+    }
+
+    if (status === 'completed') {
+      await this.appendEvent(job.id, 'result', { reportId: job.reportId });
+    } else if (status === 'failed') {
+      await this.appendEvent(job.id, 'error-message', { error: job.error });
+    }
+    await this.appendEvent(job.id, 'done', { status, reportId: job.reportId, message: `Job ${status}` });
+    console.log(`[AnalysisJobService] Job ${job.id} ${status}`);
+    return job;
+  }
+
+  /**
+   * Drops the stored request, with the provider token and LLM key it carries, and who may
+   * cancel the job. Nothing of it is needed once the job can no longer run.
+   */
+  private async forgetRequest(id: string): Promise<void> {
+    await this.store.delete(requestKey(id));
+    await this.store.delete(submitterKey(id));
+    await this.store.delete(subscribersKey(id));
+  }
+
+  private sealRequest({ repoUrl, githubToken, llmConfig }: AnalysisJobRequest): StoredJobRequest {
+    if (!githubToken && !llmConfig) return { repoUrl };
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(CREDENTIALS_CIPHER, this.credentialsKey, iv);
+    const encrypted = Buffer.concat([cipher.update(JSON.stringify({ githubToken, llmConfig }), 'utf8'), cipher.final()]);
+    return { repoUrl, credentials: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64') };
+  }
+
+  /**
+   * The request with its credentials decrypted, or null when they were sealed with another
+   * key.
+   */
+  private openRequest({ repoUrl, credentials }: StoredJobRequest): AnalysisJobRequest | null {
+    if (!credentials) return { repoUrl };
+    const sealed = Buffer.from(credentials, 'base64');
+    try {
+      const decipher = crypto.createDecipheriv(CREDENTIALS_CIPHER, this.credentialsKey, sealed.subarray(0, 12));
+      decipher.setAuthTag(sealed.subarray(12, 28));
+      const decrypted = Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString('utf8');
+      return { repoUrl, ...JSON.parse(decrypted) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveJob(job: AnalysisJob): Promise<void> {
+    await this.store.setRecord(jobKey(job.id), job, JOB_TTL_SECONDS);
+  }
+
+  private async appendEvent(jobId: string, type: AnalysisJobEvent['type'], data: Record<string, unknown>): Promise<void> {
+    // The list length after the push is the event's 1-based position, i.e. its ID
+    const id = await this.store.pushToList(eventsKey(jobId), JSON.stringify({ type, data }), { ttlSeconds: JOB_TTL_SECONDS });
+    this.emitter.emit(jobId, { id, type, data });
+  }
+}
@@ -1,5 +1,6 @@
 import { LLMConfig, FileInfo } from '../types';
 import { LLMService } from './llmService';
+import { JAVASCRIPT_EXTENSIONS, ModuleResolver } from './moduleResolver';
 import * as path from 'path';
 
 export interface ArchitectureConfig {
@@ -67,7 +68,8 @@ export class ArchitectureAnalysisService {
       console.log(`[Architecture Analysis] Identified ${components.length} components`);
       
       // Step 2: Analyze dependencies between components - improved detection
-      const dependencies = this.analyzeDependencies(relevantFiles, components);
+      // Every file is passed to the resolver, which reads tsconfig.json and package.json files
+      const dependencies = this.analyzeDependencies(relevantFiles, components, new ModuleResolver(files));
       console.log(`[Architecture Analysis] Identified ${dependencies.length} dependencies between components`);
       
       // Step 3: Organize components into layers
@@ -347,7 +349,7 @@ export class ArchitectureAnalysisService {
     return fileCount > 0 ? Math.round(totalComplexity / fileCount) : 1;
   }
 
-  private analyzeDependencies(files: FileInfo[], components: ArchitectureComponent[]): Array<{ from: string; to: string; type: string }> {
+  private analyzeDependencies(files: FileInfo[], components: ArchitectureComponent[], resolver: ModuleResolver): Array<{ from: string; to: string; type: string }> {
     const dependencies: Array<{ from: string; to: string; type: string }> = [];
     const componentLookup = new Map<string, ArchitectureComponent>();
     
@@ -365,10 +367,15 @@ export class ArchitectureAnalysisService {
       const sourceComponent = componentLookup.get(file.path);
       if (!sourceComponent) continue;
       
+      const isJavaScript = JAVASCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase());
       const imports = this.extractImports(file.content, file.path);
       
       for (const importPath of imports) {
-        const targetComponent = this.findTargetComponent(importPath, file.path, components);
+        // JavaScript and TypeScript imports resolve to a file; other languages are matched by path
+        const resolved = isJavaScript ? resolver.resolve(importPath, file.path) : undefined;
+        const targetComponent = isJavaScript
+          ? (resolved ? componentLookup.get(resolved) : undefined)
+          : this.findTargetComponent(importPath, file.path, components);
         if (targetComponent && targetComponent.id !== sourceComponent.id) {
           const dependencyType = this.inferDependencyType(importPath, sourceComponent, targetComponent);
           
@@ -395,13 +402,14 @@ export class ArchitectureAnalysisService {
     const imports: string[] = [];
     const ext = path.extname(filePath).toLowerCase();
     
-    // TypeScript/JavaScript imports
-    if (['.ts', '.tsx', '.js', '.jsx'].includes(ext)) {
+    // TypeScript/JavaScript imports, resolved by the module resolver whatever they look like
+    if (JAVASCRIPT_EXTENSIONS.includes(ext)) {
       const importRegex = /(?:import.*from\s+['"`]([^'"`]+)['"`]|require\s*\(\s*['"`]([^'"`]+)['"`]\s*\))/g;
       let match;
       while ((match = importRegex.exec(content)) !== null) {
         imports.push(match[1] || match[2]);
       }
+      return imports;
     }
     
     // Python imports
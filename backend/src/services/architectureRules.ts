@@ -0,0 +1,312 @@
+/**
+ * Checks a repository's structure: import cycles between files and between components, and
+ * layer rules such as "presentation must not import data". Files take the layer `inferLayer`
+ * gave their architecture node and components the layer `organizeLayers` put them in.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import he from 'he';
+import { z } from 'zod';
+import {
+  ArchitectureData,
+  ArchitectureImport,
+  ArchitectureRules,
+  ArchitectureRulesReport,
+  FileInfo,
+  ImportCycle,
+  LayerViolation,
+  SystemArchitecture,
+} from '../types';
+import { parseJavaScript, readImports } from './javascriptSyntax';
+import { JAVASCRIPT_EXTENSIONS, ModuleResolver } from './moduleResolver';
+
+const ArchitectureRulesSchema = z.object({
+  layerRules: z.array(z.object({
+    from: z.string().min(1),
+    to: z.string().min(1),
+    message: z.string().optional(),
+  })).default([
+    { from: 'presentation', to: 'data', message: 'Presentation code should reach data through the business layer' },
+  ]),
+  // Whether import cycles fail the check, or are only reported
+  failOnCycles: z.boolean().default(true),
+});
+
+export const DEFAULT_ARCHITECTURE_RULES: ArchitectureRules = ArchitectureRulesSchema.parse({});
+
+/**
+ * The architecture rules: the defaults, overridden by the JSON file at ARCHITECTURE_RULES_PATH
+ * when one is configured.
+ */
+export async function loadArchitectureRules(): Promise<ArchitectureRules> {
+  const file = process.env.ARCHITECTURE_RULES_PATH;
+  if (!file) return DEFAULT_ARCHITECTURE_RULES;
+  return ArchitectureRulesSchema.parse(JSON.parse(await fs.readFile(file, 'utf8')));
+}
+
+// --- Import graphs ---
+
+interface ImportEdge extends ArchitectureImport {
+  typeOnly?: boolean;
+}
+
+// Imports by importer and imported, one per pair
+type ImportGraph = Map<string, Map<string, ImportEdge>>;
+
+function addEdge(graph: ImportGraph, edge: ImportEdge): void {
+  let targets = graph.get(edge.from);
+  if (!targets) graph.set(edge.from, targets = new Map());
+  const existing = targets.get(edge.to);
+  // An import that is kept at runtime stands for the pair over a type-only one
+  if (!existing || (existing.typeOnly && !edge.typeOnly)) targets.set(edge.to, edge);
+}
+
+/**
+ * Imports between the JavaScript and TypeScript files of the repository, resolved as the
+ * module resolver resolves them. Imports of packages and of files outside the repository
+ * are left out.
+ */
+function buildFileGraph(files: Array<Pick<FileInfo, 'path' | 'content'>>, onError?: (file: string, error: unknown) => void): ImportGraph {
+  const resolver = new ModuleResolver(files);
+  const graph: ImportGraph = new Map();
+  for (const file of files) {
+    if (!file.content || !JAVASCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase())) continue;
+    let imports;
+    try {
+      imports = readImports(parseJavaScript(file.content).program);
+    } catch (e) {
+      onError?.(file.path, e);
+      continue;
+    }
+    for (const { specifier, line, typeOnly } of imports) {
+      const to = resolver.resolve(specifier, file.path);
+      if (!to || !JAVASCRIPT_EXTENSIONS.includes(path.extname(to).toLowerCase())) continue;
+      addEdge(graph, { from: file.path, to, file: file.path, line, specifier, ...(typeOnly ? { typeOnly } : {}) });
+    }
+  }
+  return graph;
+}
+
+/**
+ * Dependencies between components, named by path. Each carries the first file import that
+ * crosses between the two components when there is one; dependencies found for other
+ * languages have none.
+ */
+function buildComponentGraph(system: SystemArchitecture, fileGraph: ImportGraph): ImportGraph {
+  const componentPaths = new Map(system.components.map(component => [component.id, component.path]));
+  const componentOf = new Map<string, string>();
+  for (const component of system.components) {
+    for (const file of component.files) componentOf.set(file, component.path);
+  }
+
+  const crossings = new Map<string, ImportEdge>();
+  for (const targets of fileGraph.values()) {
+    for (const edge of targets.values()) {
+      const from = componentOf.get(edge.from);
+      const to = componentOf.get(edge.to);
+      const key = `${from}\n${to}`;
+      const existing = crossings.get(key);
+      if (from && to && from !== to && (!existing || (existing.typeOnly && !edge.typeOnly))) crossings.set(key, edge);
+    }
+  }
+
+  const graph: ImportGraph = new Map();
+  for (const dependency of system.dependencies) {
+    const from = componentPaths.get(dependency.from);
+    const to = componentPaths.get(dependency.to);
+    if (!from || !to) continue;
+    const crossing = crossings.get(`${from}\n${to}`);
+    addEdge(graph, crossing
+      ? { from, to, file: crossing.file, line: crossing.line, specifier: crossing.specifier, ...(crossing.typeOnly ? { typeOnly: true } : {}) }
+      : { from, to });
+  }
+  return graph;
+}
+
+// --- Cycles ---
+
+/**
+ * Tarjan's algorithm, iteratively so that long import chains cannot overflow the stack.
+ * Returns the strongly connected components, each listing its nodes in sorted order.
+ */
+export function stronglyConnectedComponents(nodes: string[], successors: (node: string) => string[]): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+    const work: Array<{ node: string; next: string[]; position: number }> = [];
+    const enter = (node: string) => {
+      index.set(node, counter);
+      lowLink.set(node, counter++);
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, next: successors(node), position: 0 });
+    };
+    enter(root);
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      if (frame.position < frame.next.length) {
+        const successor = frame.next[frame.position++];
+        if (!index.has(successor)) {
+          enter(successor);
+        } else if (onStack.has(successor)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(successor)!));
+        }
+        continue;
+      }
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component.sort());
+      }
+    }
+  }
+  return components;
+}
+
+// The shortest chain of imports from `start` back to itself without leaving `members`
+function shortestCycle(graph: ImportGraph, start: string, members: Set<string>): ImportEdge[] {
+  const reachedBy = new Map<string, ImportEdge>();
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    for (const edge of graph.get(queue[i])?.values() ?? []) {
+      if (!members.has(edge.to) || edge.typeOnly) continue;
+      if (edge.to === start) {
+        const chain = [edge];
+        for (let step = reachedBy.get(edge.from); step; step = reachedBy.get(step.from)) chain.unshift(step);
+        return chain;
+      }
+      if (reachedBy.has(edge.to)) continue;
+      reachedBy.set(edge.to, edge);
+      queue.push(edge.to);
+    }
+  }
+  return [];
+}
+
+/**
+ * Import cycles: strongly connected components of more than one node, and nodes importing
+ * themselves. Type-only imports are left out since they do not load the module.
+ */
+function findCycles(graph: ImportGraph, kind: ImportCycle['graph']): ImportCycle[] {
+  const nodes = [...new Set([...graph.keys(), ...[...graph.values()].flatMap(targets => [...targets.keys()])])].sort();
+  const successors = (node: string) => [...graph.get(node)?.values() ?? []].filter(edge => !edge.typeOnly).map(edge => edge.to);
+  return stronglyConnectedComponents(nodes, successors)
+    .filter(members => members.length > 1 || successors(members[0]).includes(members[0]))
+    .map(members => ({
+      graph: kind,
+      members,
+      chain: shortestCycle(graph, members[0], new Set(members)).map(({ typeOnly: _typeOnly, ...step }) => step),
+    }));
+}
+
+// --- Layer rules ---
+
+function findViolations(graph: ImportGraph, layerOf: Map<string, string>, rules: ArchitectureRules, kind: LayerViolation['graph']): LayerViolation[] {
+  const violations: LayerViolation[] = [];
+  for (const targets of graph.values()) {
+    for (const { typeOnly: _typeOnly, ...edge } of targets.values()) {
+      const fromLayer = layerOf.get(edge.from);
+      const toLayer = layerOf.get(edge.to);
+      if (!fromLayer || !toLayer) continue;
+      const rule = rules.layerRules.find(candidate =>
+        candidate.from.toLowerCase() === fromLayer.toLowerCase() && candidate.to.toLowerCase() === toLayer.toLowerCase());
+      if (rule) violations.push({ rule, graph: kind, fromLayer, toLayer, import: edge });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Checks the import graphs against the rules. The file graph covers JavaScript and TypeScript;
+ * the component graph is `SystemArchitecture`'s, so it covers every language it reads.
+ */
+export function checkArchitectureRules(
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  architecture: ArchitectureData,
+  system: SystemArchitecture | undefined,
+  rules: ArchitectureRules,
+  onError?: (file: string, error: unknown) => void,
+): ArchitectureRulesReport {
+  const fileGraph = buildFileGraph(files, onError);
+  const fileLayers = new Map(architecture.nodes.map(node => [node.id, node.layer]));
+  const cycles = findCycles(fileGraph, 'file');
+  const violations = findViolations(fileGraph, fileLayers, rules, 'file');
+
+  if (system) {
+    const componentGraph = buildComponentGraph(system, fileGraph);
+    const componentLayers = new Map(system.layers.flatMap(layer => layer.components.map(component => [component.path, layer.type] as [string, string])));
+    cycles.push(...findCycles(componentGraph, 'component'));
+    violations.push(...findViolations(componentGraph, componentLayers, rules, 'component'));
+  }
+
+  cycles.sort((a, b) => a.graph.localeCompare(b.graph) || b.members.length - a.members.length || a.members[0].localeCompare(b.members[0]));
+  violations.sort((a, b) => a.graph.localeCompare(b.graph) || a.import.from.localeCompare(b.import.from) || a.import.to.localeCompare(b.import.to));
+  return {
+    rules,
+    cycles,
+    violations,
+    passed: violations.length === 0 && (!rules.failOnCycles || cycles.length === 0),
+  };
+}
+
+// --- CI export ---
+
+const describeStep = (step: ArchitectureImport) =>
+  `${step.from} -> ${step.to}${step.file ? ` (${step.file !== step.from ? `${step.file}:` : 'line '}${step.line}, '${step.specifier}')` : ''}`;
+
+/**
+ * The report as a JUnit test suite, so CI servers can show each cycle and violation as a
+ * failed test. Cycles are skipped rather than failed when the rules do not fail on them.
+ */
+export function architectureRulesJUnit(report: ArchitectureRulesReport): string {
+  const cases = [
+    ...report.cycles.map(cycle => ({
+      name: `${cycle.graph} cycle: ${cycle.members.join(', ')}`,
+      message: `Import cycle between ${cycle.members.length} ${cycle.graph}s`,
+      detail: cycle.chain.map(describeStep).join('\n'),
+      skipped: !report.rules.failOnCycles,
+    })),
+    ...report.violations.map(violation => ({
+      name: `${violation.graph} layer rule ${violation.rule.from} -> ${violation.rule.to}: ${violation.import.from}`,
+      message: violation.rule.message ?? `${violation.fromLayer} must not import ${violation.toLayer}`,
+      detail: describeStep(violation.import),
+      skipped: false,
+    })),
+  ];
+  const failures = cases.filter(testCase => !testCase.skipped).length;
+  const testCases = cases.map(({ name, message, detail, skipped }) => [
+    `    <testcase classname="architecture" name="${he.escape(name)}">`,
+    skipped
+      ? `      <skipped message="${he.escape(message)}"/>`
+      : `      <failure message="${he.escape(message)}">${he.escape(detail)}</failure>`,
+    '    </testcase>',
+  ].join('\n'));
+  if (cases.length === 0) testCases.push('    <testcase classname="architecture" name="architecture rules"/>');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${Math.max(cases.length, 1)}" failures="${failures}">`,
+    `  <testsuite name="architecture-rules" tests="${Math.max(cases.length, 1)}" failures="${failures}" skipped="${cases.length - failures}">`,
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -1,29 +1,51 @@
 import { GitHubService } from './githubService';
+import { ChangedFile, RepositoryProvider, createRepositoryProvider } from './repositoryProvider';
+import { FileAnalysisResults, FileFindingKind, FileResultCache, gitBlobHash } from './fileResultCache';
+import { getLanguageFromExtension, getPrimaryLanguage, isCoverageReport, isCredentialFile, isDependencyManifest, isDockerfile, isSarifLog, isSourceFile, isTextFile, isVendoredPackageMetadata } from './repositoryFiles';
+import { coveragePercentage, readCoverageReports } from './coverageReports';
+import { analyzeSource, hasSyntaxTreeGrammar } from './syntaxTree';
+import { analyzeJavaScript } from './javascriptSyntax';
+import { measureCode } from './codeMetrics';
+import { keyFunctionCandidates, rankKeyFunctions } from './keyFunctions';
+import { buildCallGraph } from './callGraph';
+import { JAVASCRIPT_EXTENSIONS, ModuleResolver } from './moduleResolver';
+import { ManifestFile, parseDependencyManifests } from './dependencyManifests';
+import { buildDependencyGraph, packageNodeId, pathTo } from './packageGraph';
+import { AdvisoryDatabase, getAdvisoryDatabase } from './advisoryDatabase';
+import { checkLicenseCompliance, DEFAULT_LICENSE_POLICY, loadLicensePolicy, resolvePackageLicenses } from './licenseCompliance';
+import { checkArchitectureRules, DEFAULT_ARCHITECTURE_RULES, loadArchitectureRules } from './architectureRules';
+import { DEFAULT_DEAD_CODE_CONFIG, findDeadCode, loadDeadCodeConfig } from './deadCode';
+import { DEFAULT_CODE_SMELL_CONFIG, findCodeSmells, loadCodeSmellConfig } from './codeSmells';
+import { cloneDebt, DEFAULT_CLONE_DETECTION_CONFIG, detectClones, loadCloneDetectionConfig } from './cloneDetection';
+import { commitsWithoutSecrets, DEFAULT_SECRET_SCAN_CONFIG, loadSecretScanConfig, scanSecrets, secretScanConfigKey } from './secretScanning';
+import { findTaintFlows } from './taintAnalysis';
+import { BUNDLED_SAST_RULES, loadSastRules, runSastRules, SastRule } from './sastRules';
+import { scanInfrastructure } from './infrastructureScanning';
+import { mergeSarifFindings, readSarifLog, SarifImportTarget } from './sarif';
+import { minSatisfyingVersion } from './semver';
 import { LLMService } from './llmService';
 import {
   AnalysisResult, FileInfo, LLMConfig, Repository, Commit, Contributor, BasicRepositoryInfo,
   ProcessedCommit, ProcessedContributor, DependencyInfo, ArchitectureData, QualityMetrics,
-  Hotspot, KeyFunction, SecurityIssue, TechnicalDebt, PerformanceMetric, APIEndpoint,
-  AnalysisWarning,  // ADDED: Import new types for advanced diagrams
+  Hotspot, KeyFunction, SecurityIssue, PerformanceMetric, APIEndpoint,
+  AnalysisWarning, IncrementalAnalysisInfo, DependencyMetrics, DependencyVulnerability, LicenseComplianceReport, LicensePolicy, ArchitectureRules, ArchitectureRulesReport, DeadCodeConfig, CloneDetectionConfig, DuplicationReport, CodeSmellConfig, CoverageReport, SecretScanConfig,  // ADDED: Import new types for advanced diagrams
   TemporalCoupling, SankeyData, SankeyNode, SankeyLink, GitGraphData, GitGraphLink, GitGraphNode
 } from '../types';
 import * as parser from '@babel/parser';
 import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
 import { ArchitectureAnalysisService } from './architectureAnalysisService';
 import { AIArchitectureConfigManager } from '../config/aiArchitectureConfig';
 import { AdvancedAnalysisService } from './advancedAnalysisService';
-import { execFile } from 'child_process';
-import { promisify } from 'util';
-import * as os from 'os';
-import * as fs from 'fs/promises';
 
 export class BackendAnalysisService {
-  private githubService: GitHubService;
+  private repositoryToken?: string;
   private llmService: LLMService;
   private advancedAnalysisService: AdvancedAnalysisService;  // Add field for advanced service
   private analysisWarnings: AnalysisWarning[]; // Added to store warnings
   constructor(githubToken?: string, llmConfig?: LLMConfig) {
-    this.githubService = new GitHubService(githubToken);
+    // Used for whichever host the repository URL points at, not only GitHub
+    this.repositoryToken = githubToken;
     this.analysisWarnings = []; // Initialize warnings
 
     let finalLlmConfig: LLMConfig;
@@ -60,6 +82,16 @@ export class BackendAnalysisService {
     console.warn(`Analysis Warning [${step}]: ${message}`, error ? error : '');
   }
 
+  /**
+   * Once the analysis is cancelled, a step that fails (usually because its request was
+   * aborted) is recorded as a warning so the partial report can still be returned. Any
+   * other failure is rethrown.
+   */
+  private handleStepError(step: string, error: unknown, signal?: AbortSignal): void {
+    if (!signal?.aborted) throw error;
+    this.addWarning(step, 'Interrupted because the analysis was cancelled.', error);
+  }
+
   public async validateGithubToken(token: string): Promise<{ isValid: boolean; error?: string }> {
     const githubService = new GitHubService(token);
     try {
@@ -88,19 +120,7 @@ export class BackendAnalysisService {
     }
   }
 
-  private isValidRepoUrl(url: string): boolean {
-    return url.includes('github.com/');
-  }
-
-  private extractRepoParts(repoUrl: string): [string, string] {
-    const parts = repoUrl.match(/github\.com\/([^/]+)\/([^/]+)/);
-    if (!parts || parts.length < 3) {
-      throw new Error('Invalid repository URL format');
-    }
-    return [parts[1], parts[2].replace(/\.git$/, '')];
-  }
-
-  private transformRepoData(repoData: Repository): BasicRepositoryInfo {
+  private transformRepoData(repoData: Repository, repositoryUrl: string): BasicRepositoryInfo {
     return {
       name: repoData.name,
       fullName: repoData.fullName,
@@ -109,7 +129,7 @@ export class BackendAnalysisService {
       forks: repoData.forks,
       watchers: repoData.watchers,
       language: repoData.language,
-      url: `https://github.com/${repoData.fullName}`,
+      url: repositoryUrl,
       owner: repoData.fullName.split('/')[0],
       createdAt: repoData.createdAt,
       updatedAt: repoData.updatedAt,
@@ -144,18 +164,7 @@ export class BackendAnalysisService {
     }));
   }
 
-  private parseDependencies(packageJsonContent: string): DependencyInfo {
-    try {
-      const parsed = JSON.parse(packageJsonContent);
-      return {
-        dependencies: parsed.dependencies || {},
-        devDependencies: parsed.devDependencies || {},
-      };
-    } catch (e) {
-      this.addWarning("Dependency Parsing", "Failed to parse package.json content", e);
-      return { dependencies: {}, devDependencies: {} };
-    }
-  }  private async detectArchitecturePatterns(filesInput: FileInfo[]): Promise<ArchitectureData> {
+  private async detectArchitecturePatterns(filesInput: FileInfo[]): Promise<ArchitectureData> {
     // Quick fallback for large repositories to avoid long processing
     if (filesInput.length > 200) {
       console.warn('[Architecture Analysis] Large repo detected; using enhanced fallback architecture analysis');
@@ -176,6 +185,8 @@ export class BackendAnalysisService {
     });
 
     const links: { source: string; target: string }[] = [];
+    const resolver = new ModuleResolver(filesInput);
+    const nodeIds = new Set(nodes.map(node => node.id));
     const sourceFiles = filesInput.filter(file => this.isSourceFile(file.path));
     const filesWithContent: Array<{ file: FileInfo; content: string }> = [];
 
@@ -207,14 +218,14 @@ export class BackendAnalysisService {
          console.log(`[Architecture Analysis] File ${file.path} has ${importedPaths.length} imports: ${importedPaths.slice(0, 3).join(', ')}${importedPaths.length > 3 ? '...' : ''}`);
          
          for (const importedPath of importedPaths) {
-           const targetNode = this.findNodeByPath(nodes, importedPath, file.path);
-           if (targetNode) {
+           const target = resolver.resolve(importedPath, file.path);
+           if (target && nodeIds.has(target)) {
              links.push({
                source: file.path,
-               target: targetNode.id,
+               target,
              });
              totalLinksCreated++;
-             console.log(`[Architecture Analysis] Created link: ${file.path} -> ${targetNode.id}`);
+             console.log(`[Architecture Analysis] Created link: ${file.path} -> ${target}`);
            } else if (importedPath.startsWith('.')) {
              console.log(`[Architecture Analysis] Relative import not resolved: ${importedPath} from ${file.path}`);
            }
@@ -354,7 +365,8 @@ export class BackendAnalysisService {
    */
   private async safeCalculateQualityMetrics(
     repoTree: FileInfo[],
-    sendProgress?: (step: string, progress: number) => void
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
   ): Promise<QualityMetrics> {
     const metrics: QualityMetrics = {};
     const sourceFiles = repoTree.filter(f => this.isSourceFile(f.path));
@@ -362,6 +374,8 @@ export class BackendAnalysisService {
     const chunkSize = 25;
 
     for (let i = 0; i < totalFiles; i += chunkSize) {
+      // Files measured before a cancellation are kept
+      if (signal?.aborted) break;
       const chunk = sourceFiles.slice(i, i + chunkSize);
       
       for (const file of chunk) {
@@ -372,26 +386,23 @@ export class BackendAnalysisService {
             continue;
           }
 
+          const language = getLanguageFromExtension(file.path);
           if (this.isJavaScriptFile(file.path)) {
             try {
-              const ast = parser.parse(content, {
-                sourceType: 'module',
-                plugins: ['jsx', 'typescript', 'estree', 'doExpressions', 'objectRestSpread', 'classProperties', 'exportDefaultFrom', 'exportNamespaceFrom', 'asyncGenerators', 'dynamicImport', 'optionalChaining', 'nullishCoalescingOperator'],
-                errorRecovery: true,
-              });
-              
-              const complexity = this.calculateComplexity(ast);
-              const linesOfCode = content.split('\n').length;
-              // Simplified maintainability index, can be improved
-              const maintainability = Math.max(0, (171 - 5.2 * Math.log(1) - 0.23 * complexity - 16.2 * Math.log(linesOfCode)) * 100 / 171);
-
+              metrics[file.path] = measureCode(analyzeJavaScript(content), content);
+            } catch (analysisErr) {
+              this.addWarning('Quality Metrics', `Babel parser failed for ${file.path}. Using fallback.`, analysisErr);
               metrics[file.path] = {
-                complexity,
-                maintainability: isNaN(maintainability) ? 100 : Math.round(maintainability),
-                linesOfCode,
+                complexity: this.calculateFallbackComplexity(content),
+                maintainability: 50,
+                linesOfCode: content.split('\n').length,
               };
+            }
+          } else if (hasSyntaxTreeGrammar(language)) {
+            try {
+              metrics[file.path] = measureCode(await analyzeSource(content, language), content);
             } catch (analysisErr) {
-              this.addWarning('Quality Metrics', `Babel parser failed for ${file.path}. Using fallback.`, analysisErr);
+              this.addWarning('Quality Metrics', `Syntax tree parsing failed for ${file.path}. Using fallback.`, analysisErr);
               metrics[file.path] = {
                 complexity: this.calculateFallbackComplexity(content),
                 maintainability: 50,
@@ -432,44 +443,6 @@ export class BackendAnalysisService {
     return Math.min(100, complexity);
   }
   
-  private calculateComplexity(node: any): number {
-    let complexity = 0;
-    const visitor = (node: any) => {
-      switch (node.type) {
-        case 'IfStatement':
-        case 'ForStatement':
-        case 'ForInStatement':
-        case 'ForOfStatement':
-        case 'WhileStatement':
-        case 'DoWhileStatement':
-        case 'SwitchCase':
-        case 'CatchClause':
-        case 'ConditionalExpression':
-          complexity++;
-          break;
-        case 'LogicalExpression':
-          if (node.operator === '&&' || node.operator === '||') {
-            complexity++;
-          }
-          break;
-      }
-      for (const key in node) {
-        if (node.hasOwnProperty(key)) {
-          const child = node[key];
-          if (typeof child === 'object' && child !== null) {
-            if (Array.isArray(child)) {
-              child.forEach(visitor);
-            } else {
-              visitor(child);
-            }
-          }
-        }
-      }
-    };
-    visitor(node);
-    return complexity + 1; // Start with a base complexity of 1 for the function/file
-  }
-
   private isSourceFile(filePath: string): boolean {
     const ext = path.extname(filePath).toLowerCase();
     const fileName = path.basename(filePath).toLowerCase();
@@ -624,48 +597,6 @@ export class BackendAnalysisService {
       }
     }
     return imports;
-  }private findNodeByPath(nodes: Array<{ id: string; path: string }>, importedPath: string, currentFilePath: string): { id: string; path: string } | undefined {
-    // 1. Try to resolve relative paths
-    if (importedPath.startsWith('.')) {
-      const currentFileDir = path.dirname(currentFilePath);
-      const absolutePath = path.resolve(currentFileDir, importedPath);
-
-      // Try to find a direct match or with common extensions
-      const extensions = ['.js', '.ts', '.jsx', '.tsx', '.json', ''];
-      for (const ext of extensions) {
-        const potentialPath = absolutePath + ext;
-        const foundNode = nodes.find(n => path.resolve(n.path) === potentialPath);
-        if (foundNode) return foundNode;
-        
-        // Also check for index files in directories
-        const indexPath = path.join(potentialPath, 'index' + ext);
-        const foundIndexNode = nodes.find(n => path.resolve(n.path) === indexPath);
-        if (foundIndexNode) return foundIndexNode;
-      }
-    }
-
-    // 2. Try to find by module name (for non-relative paths)
-    const foundNode = nodes.find(n => n.path.includes(importedPath));
-    if (foundNode) return foundNode;
-
-    // 3. Fallback for partial matches (e.g. 'components/Button' matching 'src/components/Button.tsx')
-    const partialMatches = nodes.filter(n => {
-      const normalizedNodePath = n.path.replace(/\\/g, '/');
-      const normalizedImportPath = importedPath.replace(/\\/g, '/');
-      return normalizedNodePath.endsWith(normalizedImportPath) || 
-             normalizedNodePath.endsWith(normalizedImportPath + '.js') ||
-             normalizedNodePath.endsWith(normalizedImportPath + '.ts') ||
-             normalizedNodePath.endsWith(normalizedImportPath + '.jsx') ||
-             normalizedNodePath.endsWith(normalizedImportPath + '.tsx');
-    });
-
-    if (partialMatches.length > 0) {
-      // Prefer shorter path difference
-      partialMatches.sort((a, b) => a.path.length - b.path.length);
-      return partialMatches[0];
-    }
-    
-    return undefined;
   }
   async analyze(
     repoUrl: string,
@@ -689,11 +620,33 @@ export class BackendAnalysisService {
         gitGraph?: boolean;
         sendProgress?: (step: string, progress: number) => void;
         apiEndpoints?: boolean;
+        /** Stops the analysis early; the report is built from the steps that finished */
+        signal?: AbortSignal;
+        /** Reuses per-file results of earlier analyses and fetches only the files changed since the last one */
+        fileResultCache?: FileResultCache;
+        /** Advisories to check dependencies against; defaults to the database under OSV_DATABASE_PATH */
+        advisoryDatabase?: AdvisoryDatabase | null;
+        /** License rules dependencies are checked against; defaults to DependencyConfig's, overridden by LICENSE_POLICY_PATH */
+        licensePolicy?: LicensePolicy;
+        /** Layer rules and whether cycles fail the architecture check; defaults overridden by ARCHITECTURE_RULES_PATH */
+        architectureRules?: ArchitectureRules;
+        /** Entry points and exclusions of dead-code detection; defaults overridden by DEAD_CODE_CONFIG_PATH */
+        deadCode?: DeadCodeConfig;
+        /** Minimum clone size and whether gapped clones are joined; defaults overridden by CLONE_DETECTION_CONFIG_PATH */
+        cloneDetection?: CloneDetectionConfig;
+        /** Code smell rules enabled, disabled or retuned; defaults overridden by CODE_SMELL_RULES_PATH */
+        codeSmells?: CodeSmellConfig;
+        /** Commits searched for secrets, entropy thresholds and verification; defaults overridden by SECRET_SCAN_CONFIG_PATH */
+        secretScan?: SecretScanConfig;
+        /** Semgrep-style rules run over the syntax trees; the bundled pack plus the rules in SAST_RULES_DIR by default */
+        sastRules?: SastRule[];
     }
   ): Promise<AnalysisResult> {
     this.analysisWarnings = []; // Reset warnings for each new analysis
 
-    const [owner, repo] = this.extractRepoParts(repoUrl);
+    // Picks GitHub, GitLab, Gitea, Bitbucket Server or a local checkout from the URL
+    const provider = await createRepositoryProvider(repoUrl, this.repositoryToken);
+    const signal = options.signal;
     let errorMessage = '';
     // --- Stateful Progress Manager ---
     let lastProgress = 0;
@@ -731,26 +684,45 @@ export class BackendAnalysisService {
 
     try {
       sendProgress('init', 'Initializing analysis...', 5);
-      if (!this.isValidRepoUrl(repoUrl)) {
-        throw new Error('Invalid GitHub repository URL');
-      }
       // Determine branch to use: provided or repository default
       let branch = options.branch;
       if (!branch) {
         try {
-          const repoMeta = await this.githubService.getRepository(owner, repo);
+          const repoMeta = await provider.getRepository(signal);
           branch = repoMeta.defaultBranch;
         } catch (e) {
+          signal?.throwIfAborted();
           branch = 'main'; // Fallback to 'main' if unable to retrieve default branch
         }
       }
       sendProgress('repoInfo', 'Fetching repository metadata', 10);
+      const cache = options.fileResultCache;
+      // Cached results are only valid for the exact files they were computed from, so the
+      // analysis is pinned to one commit
+      let headSha: string | undefined;
+      if (cache) {
+        try {
+          headSha = await provider.resolveCommit(branch, signal);
+        } catch (e) {
+          signal?.throwIfAborted();
+          this.addWarning('Incremental Analysis', `Could not resolve ${branch} to a commit; earlier results will not be reused.`, e);
+        }
+      }
       let batchedData, repoData, files;
+      let incrementalAnalysis: IncrementalAnalysisInfo | undefined;
+      let fileResults = new Map<string, FileAnalysisResults>();
+      let cachedContents = new Set<string>();
       try {
         sendProgress('repoInfo', 'Fetching repository metadata (start)', 15);
-        batchedData = await this.githubService.getBatchedRepositoryData(owner, repo, branch);
-        repoData = batchedData.repository;
-        files = batchedData.files;
+        const changedData = cache && headSha ? await this.loadChangedFiles(provider, cache, branch, headSha, signal) : null;
+        if (changedData) {
+          ({ repository: repoData, files, results: fileResults, cachedContents, info: incrementalAnalysis } = changedData);
+        } else {
+          // Nothing can be reported without the files, so cancellation here fails the analysis
+          batchedData = await provider.getBatchedRepositoryData(headSha ?? branch, signal);
+          repoData = batchedData.repository;
+          files = batchedData.files;
+        }
         sendProgress('repoInfo', 'Fetched repository metadata', 100);
         sendProgress('files', 'Fetched repository tree via GraphQL', 100);
       } catch (e) {
@@ -758,46 +730,104 @@ export class BackendAnalysisService {
         sendProgress('repoInfo', errorMessage, 100);
         throw e;
       }
-      const basicInfo = this.transformRepoData(repoData);
+      const repositoryUrl = provider.webUrl;
+      const basicInfo = this.transformRepoData(repoData, repositoryUrl);
+      // Files not carried over from the last analysis are looked up by content, which also
+      // catches reverts and files copied from elsewhere in the repository
+      const blobHashes = new Map<string, string>();
+      for (const file of files) {
+        if (file.content !== undefined) blobHashes.set(file.path, gitBlobHash(file.content));
+      }
+      if (cache && headSha) {
+        const lookups = [...blobHashes]
+          .filter(([filePath]) => !fileResults.has(filePath))
+          .map(([filePath, blobHash]) => ({ path: filePath, blobHash }));
+        try {
+          (await cache.getResults(lookups)).forEach((stored, filePath) => fileResults.set(filePath, stored));
+        } catch (e) {
+          this.addWarning('Incremental Analysis', 'Could not read cached file results; all files will be analyzed.', e);
+        }
+      }
+      for (const filePath of blobHashes.keys()) {
+        if (!fileResults.has(filePath)) fileResults.set(filePath, {});
+      }
+      // Lockfiles, build files and vendored package metadata are read for the dependency step
+      // alone, coverage reports for test coverage, credential files for secret scanning,
+      // Dockerfiles for infrastructure checks and SARIF logs for the findings of other tools;
+      // every other step expects content only on source files
+      const manifestFiles: ManifestFile[] = [];
+      const coverageFiles: ManifestFile[] = [];
+      const credentialFiles: ManifestFile[] = [];
+      const dockerfiles: ManifestFile[] = [];
+      const sarifFiles: ManifestFile[] = [];
+      for (const file of files) {
+        if (file.content === undefined) continue;
+        if (isDependencyManifest(file.path) || isVendoredPackageMetadata(file.path)) {
+          manifestFiles.push({ path: file.path, content: file.content });
+        } else if (isCoverageReport(file.path)) {
+          coverageFiles.push({ path: file.path, content: file.content });
+        } else if (isCredentialFile(file.path)) {
+          credentialFiles.push({ path: file.path, content: file.content });
+        } else if (isDockerfile(file.path)) {
+          dockerfiles.push({ path: file.path, content: file.content });
+        } else if (isSarifLog(file.path)) {
+          sarifFiles.push({ path: file.path, content: file.content });
+        } else {
+          continue;
+        }
+        if (!(isTextFile(file.path) && isSourceFile(file.path))) file.content = undefined;
+      }
       sendProgress('files', 'Processing repository files', 10);
       // Step 3: Fetch commits
-      let commitsData, commits;
+      let commits: ProcessedCommit[] = [];
       try {
         sendProgress('commits', 'Fetching commit history', 0);
-        commitsData = await this.githubService.getCommits(owner, repo, branch, 2000, (_step, progress) => sendProgress('commits', 'Fetching commit history', progress));
+        const onCommitProgress = (_step: string, progress: number) => sendProgress('commits', 'Fetching commit history', progress);
+        const commitsData = await provider.getCommits(headSha ?? branch, 2000, onCommitProgress, signal);
         commits = this.processCommits(commitsData);
         sendProgress('commits', 'Fetched commit history', 100);
       } catch (e) {
         errorMessage = 'Failed to fetch commit history';
         sendProgress('commits', errorMessage, 100);
-        throw e;
+        this.handleStepError('Commits', e, signal);
       }
       // Step 4: Fetch contributors
       let contributors: ProcessedContributor[] = [];
-      if (options.contributorAnalysis) {
+      if (options.contributorAnalysis && !signal?.aborted) {
         try {
           sendProgress('contributors', 'Fetching contributors', 0);
-          const contributorsData = await this.githubService.getContributors(owner, repo);
+          const contributorsData = await provider.getContributors(branch, signal);
           contributors = this.processContributors(contributorsData);
           sendProgress('contributors', 'Fetched contributor data', 100);
         } catch (e) {
           errorMessage = 'Failed to fetch contributors';
           sendProgress('contributors', errorMessage, 100);
-          throw e;
+          this.handleStepError('Contributors', e, signal);
         }
       }
-      // Step 5: Fetch dependencies from package.json
+      // Step 5: Read dependencies from manifests and lockfiles
       let dependencies: DependencyInfo = { dependencies: {}, devDependencies: {} };
+      let dependencyMetrics: DependencyMetrics | undefined;
+      let licenseCompliance: LicenseComplianceReport | undefined;
+      let dependencyIssues: SecurityIssue[] = [];
       if (options.dependencies) {
         try {
           sendProgress('dependencies', 'Analyzing dependencies', 0);
-          const packageJsonFile = files.find(f => f.path === 'package.json');
-          if (packageJsonFile?.content) {
-            dependencies = this.parseDependencies(packageJsonFile.content);
+          dependencies = parseDependencyManifests(manifestFiles, (filePath, error) =>
+            this.addWarning('Dependency Parsing', `Failed to parse ${filePath}`, error));
+          if (dependencies.packages?.length) {
+            sendProgress('dependencies', 'Checking dependencies against advisories', 50);
+            const advisories = options.advisoryDatabase !== undefined ? options.advisoryDatabase : await this.loadAdvisoryDatabase();
+            dependencyMetrics = this.analyzeDependencyVulnerabilities(dependencies, advisories);
+            dependencyIssues = this.createDependencySecurityIssues(dependencyMetrics.vulnerabilities ?? [], manifestFiles);
+            sendProgress('dependencies', 'Checking dependency licenses', 75);
+            dependencies.packages = resolvePackageLicenses(dependencies.packages, manifestFiles);
+            licenseCompliance = checkLicenseCompliance(dependencies.packages, options.licensePolicy ?? await this.loadLicensePolicy());
+            dependencyIssues.push(...this.createLicenseSecurityIssues(licenseCompliance, manifestFiles));
             sendProgress('dependencies', 'Parsed dependencies', 100);
           } else {
-            this.addWarning("Dependencies", "package.json not found or content is missing.");
-            sendProgress('dependencies', 'No package.json found', 100);
+            this.addWarning("Dependencies", "No dependency manifests found or their content is missing.");
+            sendProgress('dependencies', 'No dependency manifests found', 100);
           }
         } catch (e) {
           errorMessage = 'Failed to analyze dependencies';
@@ -808,7 +838,7 @@ export class BackendAnalysisService {
       // Step 6: Analyze architecture
       let architecture: ArchitectureData = { nodes: [], links: [] };
       sendProgress('architecture', 'Detecting architecture patterns', 0);
-      if (options.architecture) {
+      if (options.architecture && !signal?.aborted) {
         try {
           sendProgress('architecture', 'Detecting architecture patterns (start)', 10);
           architecture = await this.safeDetectArchitecturePatterns(files);
@@ -821,20 +851,70 @@ export class BackendAnalysisService {
       }
       // Generate full system architecture structure using ArchitectureAnalysisService
       let systemArchitecture;
-      if (options.architecture) {
+      if (options.architecture && !signal?.aborted) {
         const aiConfigManager = new AIArchitectureConfigManager();
         const archService = new ArchitectureAnalysisService(aiConfigManager.getConfig());
         sendProgress('architecture', 'Generating detailed system architecture', 80);
         systemArchitecture = await archService.analyzeArchitecture(files);
         sendProgress('architecture', 'Generated detailed system architecture', 100);
       }
+      let architectureRules: ArchitectureRulesReport | undefined;
+      if (options.architecture && !signal?.aborted) {
+        try {
+          architectureRules = checkArchitectureRules(
+            files,
+            architecture,
+            systemArchitecture,
+            options.architectureRules ?? await this.loadArchitectureRules(),
+            (file, e) => this.addWarning('Architecture Rules', `Could not read the imports of ${file}`, e),
+          );
+        } catch (e) {
+          this.addWarning('Architecture Rules', 'Failed to check import cycles and layer rules', e);
+        }
+      }
+      // Measured coverage replaces the estimate from test files wherever a report names the file
+      let coverage: CoverageReport | undefined;
+      if (coverageFiles.length > 0) {
+        coverage = readCoverageReports(
+          coverageFiles,
+          files.map(f => f.path),
+          (file, e) => this.addWarning('Test Coverage', `Could not read the coverage report ${file}`, e),
+        );
+        if (coverage && coverage.lines.total === 0) {
+          this.addWarning('Test Coverage', 'The coverage reports name no files in this repository; test coverage is estimated instead.');
+        }
+        for (const file of files) {
+          const fileCoverage = coverage?.files[file.path];
+          if (fileCoverage) file.testCoverage = coveragePercentage(fileCoverage.lines);
+        }
+      }
       // Step 7: Calculate quality metrics
       let quality: QualityMetrics = {};
       sendProgress('quality', 'Calculating quality metrics', 0);
-      if (options.quality) {
+      if (options.quality && !signal?.aborted) {
         try {
           sendProgress('quality', 'Calculating quality metrics (start)', 10);
-          quality = await this.safeCalculateQualityMetrics(files, (step, progress) => sendProgress('quality', step, progress));
+          const measured = await this.safeCalculateQualityMetrics(
+            files.filter(f => !fileResults.get(f.path)?.metrics),
+            (step, progress) => sendProgress('quality', step, progress),
+            signal
+          );
+          for (const file of files) {
+            const stored = fileResults.get(file.path);
+            if (stored && measured[file.path]) stored.metrics = measured[file.path];
+            const fileMetrics = stored?.metrics ?? measured[file.path];
+            if (fileMetrics) {
+              // Coverage comes from this run's reports, so it is kept out of the stored metrics
+              const fileCoverage = coverage?.files[file.path];
+              quality[file.path] = fileCoverage ? {
+                ...fileMetrics,
+                lineCoverage: coveragePercentage(fileCoverage.lines),
+                ...(fileCoverage.branches ? { branchCoverage: coveragePercentage(fileCoverage.branches) } : {}),
+              } : fileMetrics;
+              // Hotspots and the complexity chart read it from the file
+              file.complexity = fileMetrics.complexity;
+            }
+          }
           sendProgress('quality', 'Calculated quality metrics', 100);
         } catch (e) {
           errorMessage = 'Failed to calculate quality metrics';
@@ -845,22 +925,86 @@ export class BackendAnalysisService {
       // Steps 8-19: Perform final analysis steps in parallel
       sendProgress('finalizing', 'Generating analysis data', 5);
       const analysisPromises: Record<string, Promise<any>> = {};
-      if (options.hotspots) analysisPromises.hotspots = Promise.resolve(this.generateHotspots(files, commits));
-      if (options.keyFunctions) analysisPromises.keyFunctions = Promise.resolve(this.generateKeyFunctions(files));
+      // After a cancellation only the steps that need no further requests still run
+      const runRemoteSteps = !signal?.aborted;
+      if (options.hotspots) analysisPromises.hotspots = Promise.resolve(this.generateHotspots(files, commits, coverage));
+      if (options.keyFunctions) {
+        analysisPromises.keyFunctions = this.reuseFileFindings(
+          files.filter(f => this.isJavaScriptFile(f.path) || hasSyntaxTreeGrammar(getLanguageFromExtension(f.path))),
+          fileResults,
+          'keyFunctions',
+          pending => this.findKeyFunctions(pending)
+        ).then(found => rankKeyFunctions(found, files));
+        analysisPromises.callGraph = Promise.resolve().then(() =>
+          buildCallGraph(files, (file, e) => this.addWarning('Call Graph', `Failed to parse ${file}`, e))
+        );
+      }
       if (options.security) {
-        // Use Semgrep for multi-language scanning if enabled, else advanced or fallback
-        if (process.env.USE_SEMGREP === 'true') {
-          analysisPromises.securityIssues = this.cloneAndScanWithSemgrep(repoUrl, branch, files);
-        } else if (this.llmService.isConfigured()) {
-          analysisPromises.securityIssues = this.advancedAnalysisService.analyzeSecurityIssues(files);
+        if (this.llmService.isConfigured() && runRemoteSteps) {
+          analysisPromises.securityIssues = this.reuseFileFindings(
+            files, fileResults, 'llmSecurityIssues', pending => this.advancedAnalysisService.analyzeSecurityIssues(pending, signal)
+          );
         } else {
-          analysisPromises.securityIssues = Promise.resolve(this.generateFallbackSecurityIssues(files));
+          analysisPromises.securityIssues = this.reuseFileFindings(
+            files, fileResults, 'securityIssues', pending => this.generateFallbackSecurityIssues(pending)
+          );
         }
+        const sastRules = options.sastRules ?? await this.loadSastRules();
+        analysisPromises.sastFindings = Promise.resolve()
+          .then(() => runSastRules(files, sastRules, (file, e) => this.addWarning('SAST Rules', `Failed to parse ${file}`, e)))
+          .catch(e => {
+            this.addWarning('SAST Rules', 'Failed to run the SAST rules', e);
+            return [];
+          });
+        // Flows cross files through imports, so taint analysis always reads the whole tree
+        analysisPromises.taintFlows = Promise.resolve()
+          .then(() => findTaintFlows(files, (file, e) => this.addWarning('Taint Analysis', `Failed to parse ${file}`, e)))
+          .catch(e => {
+            this.addWarning('Taint Analysis', 'Failed to follow untrusted input', e);
+            return [];
+          });
+        // Dockerfiles named like api.dockerfile are also source files, so they are taken from one list only
+        analysisPromises.infrastructureIssues = Promise.resolve()
+          .then(() => scanInfrastructure(
+            [...files.filter(f => !isDockerfile(f.path)), ...dockerfiles],
+            (file, e) => this.addWarning('Infrastructure as Code', `Failed to parse ${file}`, e),
+          ))
+          .catch(e => {
+            this.addWarning('Infrastructure as Code', 'Failed to check infrastructure-as-code files', e);
+            return [];
+          });
+        // Secrets stay exposed in history after they are deleted, so every scanned commit is searched
+        analysisPromises.secrets = this.scanSecrets(
+          provider, commits, files, credentialFiles, options.secretScan ?? await this.loadSecretScanConfig(), runRemoteSteps, cache, signal
+        );
+      }
+      if (options.technicalDebt) {
+        // Duplication and dead code span files, so they are always recomputed over the whole tree
+        const deadCodeConfig = options.deadCode ?? await this.loadDeadCodeConfig();
+        const cloneConfig = options.cloneDetection ?? await this.loadCloneDetectionConfig();
+        const duplication: Promise<DuplicationReport | undefined> = Promise.resolve()
+          .then(() => detectClones(files, cloneConfig))
+          .catch(e => {
+            this.addWarning('Clone Detection', 'Failed to detect duplicated code', e);
+            return undefined;
+          });
+        analysisPromises.duplication = duplication;
+        const smellConfig = options.codeSmells ?? await this.loadCodeSmellConfig(files);
+        const findSmells = (pending: FileInfo[]) =>
+          findCodeSmells(pending, smellConfig, (file, e) => this.addWarning('Code Smells', `Failed to parse ${file}`, e));
+        // Cached smells were found with the default rules, so retuned rules check every file again
+        const smells = isDeepStrictEqual(smellConfig, DEFAULT_CODE_SMELL_CONFIG)
+          ? this.reuseFileFindings(files, fileResults, 'technicalDebt', findSmells)
+          : findSmells(files);
+        analysisPromises.technicalDebt = Promise.all([smells, duplication]).then(([found, clones]) => [
+          ...found,
+          ...(clones ? cloneDebt(clones) : []),
+          ...findDeadCode(files, deadCodeConfig, (file, e) => this.addWarning('Dead Code', `Could not read the imports of ${file}`, e)),
+        ]);
       }
-      if (options.technicalDebt) analysisPromises.technicalDebt = Promise.resolve(this.generateFallbackTechnicalDebt(files, quality));
       if (options.performance) analysisPromises.performanceMetrics = Promise.resolve(this.generateFallbackPerformanceMetrics(files));
       if (options.apiEndpoints) analysisPromises.apiEndpoints = Promise.resolve(this.generateFallbackAPIEndpoints(files));
-      if (options.prAnalysis) analysisPromises.prData = this.githubService.getPullRequests(owner, repo);
+      if (options.prAnalysis && runRemoteSteps) analysisPromises.prData = provider.getPullRequests(signal);
       if (options.temporalCoupling) analysisPromises.temporalCouplingData = Promise.resolve(this.generateTemporalCouplings(commits, files));
       if (options.dataTransformation) analysisPromises.dataTransformationData = Promise.resolve(this.generateDataTransformationFlow(files, commits));
       if (options.gitGraph) analysisPromises.gitGraphData = Promise.resolve(this.generateGitGraphData(commits, contributors));
@@ -872,6 +1016,24 @@ export class BackendAnalysisService {
         Object.keys(analysisPromises).forEach((key, index) => {
             results[key] = analysisResults[index];
         });
+        if (options.security) {
+          results.securityIssues = [
+            ...(Array.isArray(results.securityIssues) ? results.securityIssues : []),
+            ...results.sastFindings,
+            ...results.taintFlows,
+            ...results.infrastructureIssues,
+            ...results.secrets,
+            ...dependencyIssues,
+          ];
+        }
+        if (sarifFiles.length > 0 && (options.security || options.technicalDebt)) {
+          const imported = this.importSarifLogs(sarifFiles);
+          if (options.security) results.securityIssues = [...results.securityIssues, ...imported.securityIssues];
+          if (options.technicalDebt) {
+            results.technicalDebt = [...(Array.isArray(results.technicalDebt) ? results.technicalDebt : []), ...imported.technicalDebt];
+          }
+          results.sarifImports = imported.sarifImports;
+        }
         sendProgress('finalizing', 'Generated analysis data', 30);
       } catch (e) {
         errorMessage = 'Failed during final analysis steps';
@@ -881,17 +1043,17 @@ export class BackendAnalysisService {
       // AI-powered analysis
       let aiSummary: string | undefined;
       let aiArchitecture: string | undefined;
-      if (this.llmService.isConfigured() && (options.aiSummary || options.aiArchitecture)) {
+      if (this.llmService.isConfigured() && (options.aiSummary || options.aiArchitecture) && !signal?.aborted) {
         try {
           sendProgress('finalizing', 'Generating AI analysis', 40);
           const aiPromises: Promise<string | undefined>[] = [];
           if (options.aiSummary) {
-            aiPromises.push(this.generateAISummary(repoData, files));
+            aiPromises.push(this.generateAISummary(repoData, files, signal));
           } else {
             aiPromises.push(Promise.resolve(undefined));
           }
           if (options.aiArchitecture) {
-            aiPromises.push(this.generateAIArchitectureDescription(repoData, files, architecture));
+            aiPromises.push(this.generateAIArchitectureDescription(repoData, files, architecture, signal));
           } else {
             aiPromises.push(Promise.resolve(undefined));
           }
@@ -921,6 +1083,12 @@ export class BackendAnalysisService {
         }
       }
       sendProgress('finalizing', 'Finalizing report', 99);
+      if (signal?.aborted) {
+        this.addWarning('Cancelled', 'The analysis was cancelled before it finished; this report only contains the steps that completed.');
+      } else if (cache && headSha) {
+        // A cancelled run may hold results for only some files, so only complete runs are stored
+        await this.saveFileResults(cache, repositoryUrl, branch, headSha, files, [...manifestFiles, ...coverageFiles, ...credentialFiles, ...dockerfiles, ...sarifFiles], blobHashes, fileResults, cachedContents);
+      }
       
       // Calculate metrics for AnalysisResult
       const sourceFiles = files.filter(f => this.isSourceFile(f.path));
@@ -940,13 +1108,18 @@ export class BackendAnalysisService {
         : 0;
       
       // Enhanced metric calculations
-      const testCoverage = this.calculateTestCoverage(files);
+      const measuredCoverage = coverage && coverage.lines.total > 0 ? coverage : undefined;
+      const testCoverage = measuredCoverage ? coveragePercentage(measuredCoverage.lines) : this.estimateTestCoverage(files);
       const languageDistribution = this.detectLanguages(files);
       const languageCount = Object.keys(languageDistribution).length;
-      console.log(`[Backend Analysis] Detected ${languageCount} languages, test coverage: ${testCoverage.toFixed(1)}%`);
+      console.log(`[Backend Analysis] Detected ${languageCount} languages, test coverage: ${testCoverage.toFixed(1)}% (${measuredCoverage ? 'from coverage reports' : 'estimated'})`);
       
       const busFactor = this.calculateBusFactor(contributors, commits);
-      const securityScore = Math.max(0, 100 - (results.securityIssues?.length || 0) * 5);
+      // License findings are a legal matter, not a weakness, and stay out of the security figures
+      const securityFindings: SecurityIssue[] = Array.isArray(results.securityIssues)
+        ? results.securityIssues.filter((s: SecurityIssue) => s?.type !== 'license')
+        : [];
+      const securityScore = Math.max(0, 100 - securityFindings.length * 5);
       const technicalDebtScore = Math.max(0, 100 - (results.technicalDebt?.length || 0) * 2);
       const qualityScore = this.calculateQualityScore(avgMaintainability, avgComplexity, testCoverage, securityScore, technicalDebtScore);
       
@@ -954,8 +1127,10 @@ export class BackendAnalysisService {
       
       return {
         id: `${repoData.fullName.replace(/\//g, '-')}-${Date.now()}`,
-        repositoryUrl: `https://github.com/${repoData.fullName}`,
+        repositoryUrl,
         createdAt: new Date().toISOString(),
+        commitSha: headSha,
+        incrementalAnalysis,
         basicInfo,
         repository: repoData,
         commits,
@@ -963,6 +1138,8 @@ export class BackendAnalysisService {
         files,
         languages: languageDistribution,
         dependencies,
+        dependencyMetrics,
+        licenseCompliance,
         dependencyGraph: architecture,
         qualityMetrics: quality,
         securityIssues: results.securityIssues || [],
@@ -970,10 +1147,15 @@ export class BackendAnalysisService {
         performanceMetrics: results.performanceMetrics || [],
         hotspots: results.hotspots || [],
         keyFunctions: results.keyFunctions || [],
+        callGraph: results.callGraph,
         apiEndpoints: results.apiEndpoints || [],
         aiSummary,
         architectureAnalysis: aiArchitecture,
         systemArchitecture,
+        architectureRules,
+        duplication: results.duplication,
+        coverage: measuredCoverage,
+        sarifImports: results.sarifImports,
         temporalCoupling: results.temporalCouplingData || [],
         dataTransformation: results.dataTransformationData || { nodes: [], links: [] },
         pullRequests: results.prData || [],
@@ -996,14 +1178,16 @@ export class BackendAnalysisService {
           })(),
           codeQuality: qualityScore,
           testCoverage: testCoverage,
+          testCoverageSource: measuredCoverage ? 'report' : 'estimate',
+          ...(measuredCoverage?.branches ? { branchCoverage: coveragePercentage(measuredCoverage.branches) } : {}),
           busFactor: busFactor,
           securityScore: securityScore,
           technicalDebtScore: technicalDebtScore,
           performanceScore: Math.max(0, 100 - (results.performanceMetrics?.length || 0) * 3),
-          criticalVulnerabilities: Array.isArray(results.securityIssues) ? results.securityIssues.filter((s) => s?.severity === 'critical').length : 0,
-          highVulnerabilities: Array.isArray(results.securityIssues) ? results.securityIssues.filter((s) => s?.severity === 'high').length : 0,
-          mediumVulnerabilities: Array.isArray(results.securityIssues) ? results.securityIssues.filter((s) => s?.severity === 'medium').length : 0,
-          lowVulnerabilities: Array.isArray(results.securityIssues) ? results.securityIssues.filter((s) => s?.severity === 'low').length : 0,
+          criticalVulnerabilities: securityFindings.filter(s => s.severity === 'critical').length,
+          highVulnerabilities: securityFindings.filter(s => s.severity === 'high').length,
+          mediumVulnerabilities: securityFindings.filter(s => s.severity === 'medium').length,
+          lowVulnerabilities: securityFindings.filter(s => s.severity === 'low').length,
           totalPRs: (results.prData || []).length,
           mergedPRs: (results.prData || []).filter((pr: {mergedAt?: string | null}) => pr.mergedAt).length,
           prMergeRate: (results.prData || []).length > 0 ? (results.prData || []).filter((pr: {mergedAt?: string | null}) => pr.mergedAt).length / (results.prData || []).length * 100 : 0,
@@ -1025,6 +1209,164 @@ export class BackendAnalysisService {
       throw err;
     }
   }
+
+  // Past this share of changed files, downloading the archive is cheaper than fetching each one
+  private static MAX_INCREMENTAL_CHANGE_RATIO = 0.5;
+
+  /**
+   * Rebuilds the tree at `headSha` from the last analysis of the branch plus the files
+   * changed since that analysis's commit. Returns null, and the caller downloads the whole
+   * tree, when there is no earlier analysis or the changes cannot be listed or fetched.
+   */
+  private async loadChangedFiles(
+    provider: RepositoryProvider,
+    cache: FileResultCache,
+    branch: string,
+    headSha: string,
+    signal?: AbortSignal
+  ): Promise<{
+    repository: Repository;
+    files: FileInfo[];
+    results: Map<string, FileAnalysisResults>;
+    cachedContents: Set<string>;
+    info: IncrementalAnalysisInfo;
+  } | null> {
+    try {
+      const snapshot = await cache.getSnapshot(provider.webUrl, branch);
+      if (!snapshot) return null;
+      const changes: ChangedFile[] = snapshot.sha === headSha
+        ? []
+        : await provider.compareCommits(snapshot.sha, headSha, signal);
+      if (changes.length > snapshot.files.length * BackendAnalysisService.MAX_INCREMENTAL_CHANGE_RATIO) {
+        console.log(`[Backend Analysis] ${changes.length} files changed since ${snapshot.sha.slice(0, 7)}, downloading the whole tree`);
+        return null;
+      }
+
+      const changed = new Set<string>();
+      const removed = new Set<string>();
+      for (const change of changes) {
+        if (change.status === 'removed') removed.add(change.path);
+        else changed.add(change.path);
+        if (change.previousPath) removed.add(change.previousPath);
+      }
+      const unchanged = snapshot.files.filter(f => !changed.has(f.path) && !removed.has(f.path));
+      const withContent = unchanged.filter((f): f is typeof f & { blobHash: string } => f.blobHash !== undefined);
+      const [results, contents] = await Promise.all([
+        cache.getResults(withContent.map(f => ({ path: f.path, blobHash: f.blobHash }))),
+        cache.getContents(withContent.map(f => f.blobHash)),
+      ]);
+      // Files whose cached content has expired are fetched again along with the changed ones
+      const expired = new Set(withContent.filter(f => !contents.has(f.blobHash)).map(f => f.path));
+      const [repository, fetched] = await Promise.all([
+        provider.getRepository(signal),
+        provider.getFilesAt(headSha, [...changed, ...expired], signal),
+      ]);
+
+      // Keep the order of the earlier tree so rankings break ties the same way as a full run
+      const fetchedByPath = new Map(fetched.map(f => [f.path, f]));
+      const files: FileInfo[] = snapshot.files
+        .filter(f => !removed.has(f.path))
+        .map(f => fetchedByPath.get(f.path) ?? {
+          name: path.basename(f.path),
+          path: f.path,
+          size: f.size,
+          type: 'file',
+          content: f.blobHash !== undefined ? contents.get(f.blobHash) : undefined,
+          language: getLanguageFromExtension(f.path),
+        });
+      const known = new Set(files.map(f => f.path));
+      files.push(...fetched.filter(f => !known.has(f.path)));
+
+      // Hosts without language statistics fill them in from the files, as after a download
+      if (repository.language === 'Unknown') repository.language = getPrimaryLanguage(files) || repository.language;
+      if (!repository.size) repository.size = Math.round(files.reduce((sum, f) => sum + f.size, 0) / 1024);
+
+      const info: IncrementalAnalysisInfo = {
+        baseSha: snapshot.sha,
+        headSha,
+        changedFiles: changed.size,
+        removedFiles: snapshot.files.filter(f => removed.has(f.path)).length,
+        reusedFiles: withContent.length - expired.size,
+      };
+      console.log(`[Backend Analysis] Incremental analysis ${info.baseSha.slice(0, 7)}..${headSha.slice(0, 7)}: ${info.changedFiles} changed, ${info.removedFiles} removed, ${info.reusedFiles} reused`);
+      return {
+        repository,
+        files,
+        results,
+        cachedContents: new Set(contents.keys()),
+        info,
+      };
+    } catch (e) {
+      signal?.throwIfAborted();
+      this.addWarning('Incremental Analysis', 'Could not fetch only the changed files; analyzing the whole tree.', e);
+      return null;
+    }
+  }
+
+  /**
+   * Stores this run's per-file results and file list as the base for the next analysis of
+   * the branch. Failing to store them only costs the next run its head start.
+   */
+  private async saveFileResults(
+    cache: FileResultCache,
+    repositoryUrl: string,
+    branch: string,
+    headSha: string,
+    files: FileInfo[],
+    manifestFiles: ManifestFile[],
+    blobHashes: Map<string, string>,
+    fileResults: Map<string, FileAnalysisResults>,
+    cachedContents: Set<string>
+  ): Promise<void> {
+    try {
+      const newContents = new Map<string, string>();
+      for (const file of [...files, ...manifestFiles]) {
+        const blobHash = blobHashes.get(file.path);
+        // Credential files are read again on every run rather than kept with their secrets
+        if (isCredentialFile(file.path)) continue;
+        if (blobHash && file.content !== undefined && !cachedContents.has(blobHash)) newContents.set(blobHash, file.content);
+      }
+      await cache.saveContents(newContents);
+      await cache.saveResults([...fileResults].map(([filePath, results]) => ({
+        path: filePath,
+        blobHash: blobHashes.get(filePath)!,
+        results,
+      })));
+      // The snapshot goes last so it never points at results that were not stored
+      await cache.saveSnapshot(repositoryUrl, branch, {
+        sha: headSha,
+        analyzedAt: new Date().toISOString(),
+        files: files.map(f => ({ path: f.path, size: f.size, blobHash: blobHashes.get(f.path) })),
+      });
+    } catch (e) {
+      this.addWarning('Incremental Analysis', 'Could not store file results for the next analysis.', e);
+    }
+  }
+
+  /**
+   * Runs a per-file analysis on the files that have no stored `kind` findings yet, stores
+   * what it finds per file, and returns the findings for all of `files` in file order.
+   */
+  private async reuseFileFindings<T extends { file: string }>(
+    files: FileInfo[],
+    fileResults: Map<string, FileAnalysisResults>,
+    kind: FileFindingKind,
+    analyze: (pending: FileInfo[]) => T[] | Promise<T[]>
+  ): Promise<T[]> {
+    const pending = files.filter(f => !fileResults.get(f.path)?.[kind]);
+    const found = pending.length > 0 ? await analyze(pending) : [];
+    const foundByFile = new Map<string, T[]>();
+    for (const finding of found) {
+      const fileFindings = foundByFile.get(finding.file) ?? [];
+      fileFindings.push(finding);
+      foundByFile.set(finding.file, fileFindings);
+    }
+    for (const file of pending) {
+      const stored = fileResults.get(file.path);
+      if (stored) (stored as Record<FileFindingKind, unknown>)[kind] = foundByFile.get(file.path) ?? [];
+    }
+    return files.flatMap(f => (fileResults.get(f.path)?.[kind] as T[] | undefined) ?? foundByFile.get(f.path) ?? []);
+  }
   private static EXTENSION_LANGUAGE_MAP: Record<string, string> = {
     // JavaScript/TypeScript
     '.ts': 'typescript',
@@ -1127,7 +1469,11 @@ export class BackendAnalysisService {
     '.idea',
   ]);
 
-  private generateHotspots(files: FileInfo[], commits: ProcessedCommit[]): Hotspot[] {
+  /**
+   * Complex files that change often. Where a coverage report measured a file, poorly tested
+   * hotspots rank as critical and well tested ones as medium risk.
+   */
+  private generateHotspots(files: FileInfo[], commits: ProcessedCommit[], coverage?: CoverageReport): Hotspot[] {
     const fileChangeCounts: Record<string, number> = {};
     commits.forEach(commit => {
       if (commit.files) {
@@ -1141,85 +1487,48 @@ export class BackendAnalysisService {
 
     const hotspots = files
       .filter(f => fileChangeCounts[f.path] > 0 && f.complexity && f.complexity > 10)
-      .map(f => ({
-        file: f.name,
-        path: f.path,
-        complexity: f.complexity || 0,
-        changes: fileChangeCounts[f.path],
-        riskLevel: 'high' as 'high',
-      }))
+      .map((f): Hotspot => {
+        const fileCoverage = coverage?.files[f.path];
+        const hotspot: Hotspot = {
+          file: f.name,
+          path: f.path,
+          complexity: f.complexity || 0,
+          changes: fileChangeCounts[f.path],
+          riskLevel: 'high',
+        };
+        if (!fileCoverage) return hotspot;
+        const lineCoverage = coveragePercentage(fileCoverage.lines);
+        return {
+          ...hotspot,
+          riskLevel: lineCoverage < 50 ? 'critical' : lineCoverage >= 80 ? 'medium' : 'high',
+          lineCoverage,
+          ...(fileCoverage.branches ? { branchCoverage: coveragePercentage(fileCoverage.branches) } : {}),
+        };
+      })
       .sort((a, b) => b.changes * b.complexity - a.changes * a.complexity)
       .slice(0, 20);
 
     return hotspots;
   }
-  private generateKeyFunctions(files: FileInfo[]): KeyFunction[] {
+  // Every parsed function is a candidate; ranking needs the whole repository's calls
+  private async findKeyFunctions(files: FileInfo[]): Promise<KeyFunction[]> {
     const keyFunctions: KeyFunction[] = [];
-    const sourceFiles = files.filter(f => this.isJavaScriptFile(f.path));
-
-    for (const file of sourceFiles) {
+    for (const file of files) {
       if (!file.content) continue;
+      const language = getLanguageFromExtension(file.path);
       try {
-        const ast = parser.parse(file.content, {
-          sourceType: 'module',
-          plugins: ['jsx', 'typescript', 'estree', 'doExpressions', 'objectRestSpread', 'classProperties', 'exportDefaultFrom', 'exportNamespaceFrom', 'asyncGenerators', 'dynamicImport', 'optionalChaining', 'nullishCoalescingOperator'],
-          errorRecovery: true,
-        });
-
-        const visitor = (p: any) => {
-          if (p.node.type === 'FunctionDeclaration' || p.node.type === 'FunctionExpression' || p.node.type === 'ArrowFunctionExpression') {
-            const functionName = p.node.id?.name || (p.parent.type === 'VariableDeclarator' && p.parent.id.type === 'Identifier' ? p.parent.id.name : 'anonymous');
-            const complexity = this.calculateComplexity(p.node);
-            if (complexity > 5) { // Threshold for "key" function
-              keyFunctions.push({
-                name: functionName,
-                file: file.path,
-                complexity: complexity,
-                explanation: `A function with complexity ${complexity}.`,
-                linesOfCode: p.node.loc.end.line - p.node.loc.start.line,
-                startLine: p.node.loc.start.line,
-                endLine: p.node.loc.end.line,
-              });
-            }
-          }
-          p.traverse(visitor);
-        };
-        
-        // The traversal logic needs to be adapted for babel's new API if this doesn't work
-        // This is a simplified stand-in for a proper traversal
-        JSON.stringify(ast, (_key, value) => {
-            if (value && (value.type === 'FunctionDeclaration' || value.type === 'FunctionExpression' || value.type === 'ArrowFunctionExpression')) {
-                const functionName = value.id?.name || 'anonymous';
-                const complexity = this.calculateComplexity(value);
-                if (complexity > 5) {
-                    keyFunctions.push({
-                        name: functionName,
-                        file: file.path,
-                        complexity: complexity,
-                        explanation: `A function with complexity ${complexity}.`,
-                        linesOfCode: value.loc.end.line - value.loc.start.line,
-                        startLine: value.loc.start.line,
-                        endLine: value.loc.end.line,
-                    });
-                }
-            }
-            return value;
-        });
-
+        if (this.isJavaScriptFile(file.path)) {
+          keyFunctions.push(...keyFunctionCandidates(file.path, analyzeJavaScript(file.content).functions));
+        } else if (hasSyntaxTreeGrammar(language)) {
+          keyFunctions.push(...keyFunctionCandidates(file.path, (await analyzeSource(file.content, language)).functions));
+        }
       } catch (e) {
         this.addWarning('Key Function Analysis', `Failed to parse ${file.path}`, e);
       }
     }
-
-    keyFunctions.sort((a, b) => {
-      if (b.complexity !== a.complexity) {
-        return b.complexity - a.complexity;
-      }
-      return (b.linesOfCode || 0) - (a.linesOfCode || 0);
-    });
-
-    return keyFunctions.slice(0, 20);
+    return keyFunctions;
   }
+
     private generateFallbackAPIEndpoints(files: FileInfo[]): APIEndpoint[] {
       const endpoints: APIEndpoint[] = [];
       const apiFiles = files.filter(f => 
@@ -1273,7 +1582,7 @@ export class BackendAnalysisService {
 
       return endpoints.slice(0, 50); // Limit results
     }
-  private async generateAISummary(repoData: Repository, files: FileInfo[]): Promise<string> {
+  private async generateAISummary(repoData: Repository, files: FileInfo[], signal?: AbortSignal): Promise<string> {
     if (!this.llmService.isConfigured()) {
       return "LLM service not configured.";
     }
@@ -1291,14 +1600,14 @@ export class BackendAnalysisService {
       Provide a summary in 3-4 sentences.
     `;
     try {
-      const summary = await this.llmService.generateText(prompt);
+      const summary = await this.llmService.generateText(prompt, undefined, signal);
       return summary;
     } catch (error) {
       this.addWarning('AI Summary', 'Failed to generate AI summary via LLM.', error);
       return 'Could not generate AI summary.';
     }
   }
-  private async generateAIArchitectureDescription(repoData: Repository, files: FileInfo[], dependencyGraph: ArchitectureData): Promise<string> {
+  private async generateAIArchitectureDescription(repoData: Repository, files: FileInfo[], dependencyGraph: ArchitectureData, signal?: AbortSignal): Promise<string> {
     if (!this.llmService.isConfigured()) {
       return "LLM service not configured.";
     }
@@ -1319,88 +1628,241 @@ export class BackendAnalysisService {
       Provide a description in 4-5 sentences.
     `;
     try {
-      const description = await this.llmService.generateText(prompt);
+      const description = await this.llmService.generateText(prompt, undefined, signal);
       return description;
     } catch (error) {
       this.addWarning('AI Architecture', 'Failed to generate AI architecture description via LLM.', error);
       return 'Could not generate AI architecture description.';
     }
   }
-    async analyzeDependencyVulnerabilities(dependencies: DependencyInfo): Promise<any> {
+    /**
+     * The advisory database is optional: without one, dependencies are listed but not checked.
+     */
+    private async loadAdvisoryDatabase(): Promise<AdvisoryDatabase | null> {
+        try {
+            const database = await getAdvisoryDatabase();
+            if (!database) {
+                this.addWarning('Dependencies', 'No advisory database configured (OSV_DATABASE_PATH); dependency vulnerabilities were not checked.');
+            }
+            return database;
+        } catch (e) {
+            this.addWarning('Dependencies', 'Failed to load the advisory database; dependency vulnerabilities were not checked.', e);
+            return null;
+        }
+    }
+    /**
+     * An unreadable policy file falls back to the default policy rather than skipping the check.
+     */
+    private async loadLicensePolicy(): Promise<LicensePolicy> {
+        try {
+            return await loadLicensePolicy();
+        } catch (e) {
+            this.addWarning('Dependencies', 'Failed to load the license policy (LICENSE_POLICY_PATH); dependency licenses were checked against the default policy.', e);
+            return DEFAULT_LICENSE_POLICY;
+        }
+    }
+    /**
+     * An unreadable rules file falls back to the default rules rather than skipping the check.
+     */
+    private async loadArchitectureRules(): Promise<ArchitectureRules> {
+        try {
+            return await loadArchitectureRules();
+        } catch (e) {
+            this.addWarning('Architecture Rules', 'Failed to load the architecture rules (ARCHITECTURE_RULES_PATH); the default rules were checked.', e);
+            return DEFAULT_ARCHITECTURE_RULES;
+        }
+    }
+    /**
+     * An unreadable configuration falls back to the default entry points rather than skipping the check.
+     */
+    private async loadDeadCodeConfig(): Promise<DeadCodeConfig> {
+        try {
+            return await loadDeadCodeConfig();
+        } catch (e) {
+            this.addWarning('Dead Code', 'Failed to load the dead-code configuration (DEAD_CODE_CONFIG_PATH); the default entry points were used.', e);
+            return DEFAULT_DEAD_CODE_CONFIG;
+        }
+    }
+    /**
+     * An unreadable configuration falls back to the built-in rules rather than skipping the check.
+     */
+    private async loadCodeSmellConfig(files: FileInfo[]): Promise<CodeSmellConfig> {
+        try {
+            return await loadCodeSmellConfig(files);
+        } catch (e) {
+            this.addWarning('Code Smells', 'Failed to load the code smell rules (CODE_SMELL_RULES_PATH or .code-smells.json); the built-in rules were used.', e);
+            return DEFAULT_CODE_SMELL_CONFIG;
+        }
+    }
+    /**
+     * An unreadable configuration falls back to the default scan rather than skipping it.
+     */
+    private async loadSecretScanConfig(): Promise<SecretScanConfig> {
+        try {
+            return await loadSecretScanConfig();
+        } catch (e) {
+            this.addWarning('Secret Scanning', 'Failed to load the secret scanning configuration (SECRET_SCAN_CONFIG_PATH); the defaults were used.', e);
+            return DEFAULT_SECRET_SCAN_CONFIG;
+        }
+    }
+    /**
+     * Rule files that cannot be read are skipped one by one; a rule directory that cannot be
+     * listed leaves the bundled rules.
+     */
+    private async loadSastRules(): Promise<SastRule[]> {
+        try {
+            return await loadSastRules((source, e) => this.addWarning('SAST Rules', `Skipped ${source} in SAST_RULES_DIR`, e));
+        } catch (e) {
+            this.addWarning('SAST Rules', 'Failed to read the rule directory (SAST_RULES_DIR); only the bundled rules were run.', e);
+            return BUNDLED_SAST_RULES;
+        }
+    }
+    /**
+     * An unreadable configuration falls back to the default clone size rather than skipping the check.
+     */
+    private async loadCloneDetectionConfig(): Promise<CloneDetectionConfig> {
+        try {
+            return await loadCloneDetectionConfig();
+        } catch (e) {
+            this.addWarning('Clone Detection', 'Failed to load the clone detection configuration (CLONE_DETECTION_CONFIG_PATH); the defaults were used.', e);
+            return DEFAULT_CLONE_DETECTION_CONFIG;
+        }
+    }
+    // Registries whose requirements use npm-style ranges
+    private static RANGE_ECOSYSTEMS = new Set(['npm', 'crates.io']);
+
+    /**
+     * Matches dependencies against advisories at the version their lockfile resolved. Without
+     * a lockfile, each declared range is checked at the lowest version it allows.
+     */
+    analyzeDependencyVulnerabilities(dependencies: DependencyInfo, advisories: AdvisoryDatabase | null): DependencyMetrics {
         const allDeps = { ...dependencies.dependencies, ...dependencies.devDependencies };
-        const totalDeps = Object.keys(allDeps).length;
-        if (totalDeps === 0) {
-            return {
-                totalDependencies: 0,
-                vulnerablePackages: 0,
-                vulnerabilities: {},
-                dependencyScore: 100,
-                dependencyGraph: { nodes: [], links: [] },
-                vulnerabilityDistribution: [],
-            };
+        const packages = dependencies.packages ?? [];
+        const vulnerabilities: DependencyVulnerability[] = [];
+        const dependencyGraph = buildDependencyGraph(packages);
+        if (advisories) {
+            const checked = new Set<string>();
+            for (const pkg of packages) {
+                const version = pkg.resolvedVersion
+                    ?? (pkg.version && BackendAnalysisService.RANGE_ECOSYSTEMS.has(pkg.ecosystem) ? minSatisfyingVersion(pkg.version) : null);
+                // A package installed for several projects is reported where it is first declared
+                const key = `${pkg.ecosystem}:${pkg.name}@${version}`;
+                if (!version || checked.has(key)) continue;
+                checked.add(key);
+                vulnerabilities.push(...advisories.findVulnerabilities(pkg.ecosystem, pkg.name, version)
+                    .map(vulnerability => ({
+                        ...vulnerability,
+                        manifestPath: pkg.manifestPath,
+                        direct: pkg.direct,
+                        dependencyPath: pathTo(dependencyGraph, packageNodeId(pkg)),
+                    })));
+            }
         }
-
-        // This is a simulation. In a real scenario, you would use a service like Snyk, NPM audit, etc.
-        const vulnerabilityData = this.simulateVulnerabilityAnalysis(allDeps);
-        const vulnerablePackages = Object.keys(vulnerabilityData).length;
-        const dependencyScore = this.calculateDependencyScore(vulnerabilityData, totalDeps);
-        const dependencyGraph = this.generateDependencyGraph(allDeps);
-        const vulnerabilityDistribution = this.generateVulnerabilityDistribution(vulnerabilityData);
+        const vulnerablePackages = new Set(vulnerabilities.map(v => `${v.ecosystem}:${v.packageName}`)).size;
+        const installedPackages = new Set(packages.map(p => `${p.ecosystem}:${p.name}`)).size;
+        const countSeverity = (severity: DependencyVulnerability['severity']) => vulnerabilities.filter(v => v.severity === severity).length;
 
         return {
-            totalDependencies: totalDeps,
+            totalDependencies: Object.keys(allDeps).length,
+            devDependencies: Object.keys(dependencies.devDependencies).length,
+            transitiveDependencies: new Set(packages.filter(p => !p.direct).map(p => `${p.ecosystem}:${p.name}`)).size,
+            outdatedPackages: 0, // Needs registry access
             vulnerablePackages,
-            vulnerabilities: vulnerabilityData,
-            dependencyScore,
+            criticalVulnerabilities: countSeverity('critical'),
+            highVulnerabilities: countSeverity('high'),
+            mediumVulnerabilities: countSeverity('medium'),
+            lowVulnerabilities: countSeverity('low'),
+            lastScan: new Date().toISOString(),
+            dependencyScore: this.calculateDependencyScore(vulnerablePackages, installedPackages),
             dependencyGraph,
-            vulnerabilityDistribution,
+            vulnerabilityDistribution: this.generateVulnerabilityDistribution(vulnerabilities),
+            vulnerabilities,
         };
     }
-    private simulateVulnerabilityAnalysis(dependencies: Record<string, string>) {
-        const vulnerabilities: any = {};
-        const commonVulnerablePackages = ['express', 'lodash', 'request', 'react-scripts', 'axios'];
-        
-        Object.keys(dependencies).forEach(dep => {
-            if (commonVulnerablePackages.includes(dep) && Math.random() < 0.3) {
-                vulnerabilities[dep] = {
-                    severity: ['low', 'medium', 'high', 'critical'][Math.floor(Math.random() * 4)],
-                    summary: `Simulated vulnerability in ${dep}`,
-                    version: dependencies[dep],
-                };
+    // Index of the line of a manifest that names a package, or -1
+    private findPackageLine(lines: string[], packageName: string): number {
+        // Quoted names first, so "react" does not match the "react-dom" line; Maven
+        // manifests name the artifact on a line of its own
+        const candidates = [`"${packageName}"`, packageName, packageName.split(':').pop()!];
+        return candidates.map(candidate => lines.findIndex(line => line.includes(candidate))).find(index => index >= 0) ?? -1;
+    }
+    // Findings of the SARIF logs committed to the repository; logs that cannot be read are skipped with a warning
+    private importSarifLogs(sarifFiles: ManifestFile[]): Required<SarifImportTarget> {
+        let imported: Required<SarifImportTarget> = { securityIssues: [], technicalDebt: [], sarifImports: [] };
+        for (const file of sarifFiles) {
+            try {
+                imported = mergeSarifFindings(imported, file.path, readSarifLog(file.content, file.path));
+            } catch (e) {
+                this.addWarning('SARIF Import', `Failed to read ${file.path}`, e);
             }
+        }
+        return imported;
+    }
+    private createDependencySecurityIssues(vulnerabilities: DependencyVulnerability[], manifestFiles: ManifestFile[]): SecurityIssue[] {
+        const contents = new Map(manifestFiles.map(f => [f.path, f.content.split('\n')]));
+        return vulnerabilities.map(vulnerability => {
+            const lines = contents.get(vulnerability.manifestPath ?? '') ?? [];
+            const lineIndex = this.findPackageLine(lines, vulnerability.packageName);
+            return {
+                type: 'vulnerability',
+                severity: vulnerability.severity,
+                file: vulnerability.manifestPath ?? 'package.json',
+                line: lineIndex >= 0 ? lineIndex + 1 : undefined,
+                description: `${vulnerability.packageName}@${vulnerability.version}${vulnerability.direct === false ? ' (transitive)' : ''} is affected by ${[vulnerability.id, ...vulnerability.aliases].join(' / ')}: ${vulnerability.summary}`,
+                recommendation: vulnerability.fixedVersions.length > 0
+                    ? `Upgrade ${vulnerability.packageName} to ${vulnerability.fixedVersions.join(' or ')} or later.`
+                    : `No fixed release of ${vulnerability.packageName} is known; consider replacing it.`,
+                cwe: vulnerability.cwe,
+                codeSnippet: lineIndex >= 0 ? lines[lineIndex].trim() : undefined,
+            };
         });
-        return vulnerabilities;
-    }
-    private calculateDependencyScore(vulnerabilityData: any, totalDeps: number): number {
-        const vulnerableCount = Object.keys(vulnerabilityData).length;
-        return Math.round(Math.max(0, (1 - (vulnerableCount / totalDeps)) * 100));
-    }
-    private generateDependencyGraph(dependencies: Record<string, string>) {
-      const nodes = Object.keys(dependencies).map(name => ({
-        id: name,
-        name,
-        version: dependencies[name],
-      }));
-      // This is a simplified graph; a real one would show inter-dependencies
-      const links = Object.keys(dependencies).map(name => ({
-        source: name,
-        target: 'root', // Assuming a single root for simplicity
-      }));
-      return { nodes, links };
+    }
+    /**
+     * Packages whose license the policy denies or wants reviewed, as findings on the manifest
+     * or lockfile that brings them in.
+     */
+    private createLicenseSecurityIssues(report: LicenseComplianceReport, manifestFiles: ManifestFile[]): SecurityIssue[] {
+        const contents = new Map(manifestFiles.map(f => [f.path, f.content.split('\n')]));
+        return report.packages
+            .filter(pkg => pkg.checked && pkg.status !== 'allowed')
+            .map(pkg => {
+                const lines = contents.get(pkg.manifestPath) ?? [];
+                const lineIndex = this.findPackageLine(lines, pkg.packageName);
+                const unknown = pkg.category === 'unknown' || pkg.category === 'proprietary';
+                return {
+                    type: 'license',
+                    severity: pkg.status === 'denied' ? 'high' : unknown ? 'low' : 'medium',
+                    file: pkg.manifestPath,
+                    line: lineIndex >= 0 ? lineIndex + 1 : undefined,
+                    description: `${pkg.packageName}${pkg.version ? `@${pkg.version}` : ''}${pkg.direct ? '' : ' (transitive)'} is licensed under ${pkg.license ?? 'an unknown license'}: ${pkg.reason}.`,
+                    recommendation: pkg.status === 'denied'
+                        ? `Replace ${pkg.packageName} with a differently licensed alternative, or obtain legal approval and update the license policy.`
+                        : unknown
+                            ? `Confirm the license of ${pkg.packageName} with its authors before distributing it.`
+                            : `Have ${pkg.license} reviewed; once approved, add it to allowedLicenses.`,
+                    codeSnippet: lineIndex >= 0 ? lines[lineIndex].trim() : undefined,
+                };
+            });
+    }
+    private calculateDependencyScore(vulnerablePackages: number, totalDeps: number): number {
+        if (totalDeps === 0) return 100;
+        return Math.round(Math.max(0, (1 - (vulnerablePackages / totalDeps)) * 100));
     }
       /**
        * Generates a distribution of vulnerabilities by severity.
-       * @param vulnerabilityData - The vulnerability data.
-       * @returns An array of objects with severity, count, and color.
+       * @param vulnerabilities - The matched advisories.
+       * @returns An array of objects with severity, count, and color, for severities that occur.
        */
-      private generateVulnerabilityDistribution(vulnerabilityData: any) {
-        const distribution: Record<string, number> = { low: 0, medium: 0, high: 0, critical: 0 };
-        Object.values(vulnerabilityData).forEach((vuln: any) => {
-            if (distribution[vuln.severity] !== undefined) {
-                distribution[vuln.severity]++;
-            }
-        });
-        return Object.entries(distribution).map(([severity, count]) => ({ severity, count, color: 'red' }));
+      private generateVulnerabilityDistribution(vulnerabilities: DependencyVulnerability[]) {
+        const severities = [
+            { severity: 'critical', label: 'Critical', color: '#DC2626' },
+            { severity: 'high', label: 'High', color: '#F59E0B' },
+            { severity: 'medium', label: 'Medium', color: '#FBBF24' },
+            { severity: 'low', label: 'Low', color: '#3B82F6' },
+        ];
+        return severities
+            .map(({ severity, label, color }) => ({ severity: label, count: vulnerabilities.filter(v => v.severity === severity).length, color }))
+            .filter(entry => entry.count > 0);
     }
     private generateTemporalCouplings(commits: ProcessedCommit[], files?: FileInfo[]): TemporalCoupling[] {
       // If there are many files, use a more efficient structure-based coupling as a fallback
@@ -1564,17 +2026,20 @@ export class BackendAnalysisService {
         (f.path.includes('util') || f.path.includes('service') || f.path.includes('api') || f.path.includes('data'))
       );
 
+      const resolver = new ModuleResolver(files);
+      const dataFilePaths = new Set(dataFiles.map(f => f.path));
+
       dataFiles.slice(0, 15).forEach((file, idx) => {
         addNode(file.path);
         if (file.content) {
           const imports = this.parseImports(file.content);
           imports.forEach(importedPath => {
-            const targetNode = this.findNodeByPath(dataFiles.map(f => ({ id: f.path, path: f.path })), importedPath, file.path);
-            if (targetNode) {
-              addNode(targetNode.path);
+            const target = resolver.resolve(importedPath, file.path);
+            if (target && dataFilePaths.has(target)) {
+              addNode(target);
               links.push({
                 source: file.path,
-                target: targetNode.path,
+                target,
                 value: 1, // Simplified value
               });
             }
@@ -1611,15 +2076,86 @@ export class BackendAnalysisService {
 
       return { nodes, links };
     }
+  private static COMMIT_PATCH_BATCH_SIZE = 8;
+
+  /**
+   * Secrets in the current tree and in the patches of the analyzed commits. Commits the cache
+   * knows to hold no secrets are not read again. Patches take a request per commit on hosted
+   * providers, so there at most `maxCommits` of the others are read, newest first and a batch at
+   * a time, and none without an access token unless `historyWithoutToken` allows it; the walk
+   * goes on from there in the next analysis. A commit whose patches cannot be read is skipped.
+   */
+  private async scanSecrets(
+    provider: RepositoryProvider,
+    commits: ProcessedCommit[],
+    files: FileInfo[],
+    credentialFiles: ManifestFile[],
+    config: SecretScanConfig,
+    readHistory: boolean,
+    cache: FileResultCache | undefined,
+    signal?: AbortSignal
+  ): Promise<SecurityIssue[]> {
+    const rateLimited = provider.kind !== 'local' && !this.repositoryToken && !config.historyWithoutToken;
+    if (readHistory && rateLimited && config.maxCommits > 0 && commits.length > 0) {
+      this.addWarning('Secret Scanning', 'Only the current tree was searched for secrets. Searching history takes a request per commit; configure an access token in Settings, or enable historyWithoutToken in SECRET_SCAN_CONFIG_PATH.');
+    }
+    const searched = readHistory && !rateLimited && config.maxCommits > 0 ? commits.map(commit => commit.sha) : [];
+    const configKey = secretScanConfigKey(config);
+    let clean = new Set<string>();
+    if (cache && searched.length > 0) {
+      try {
+        clean = await cache.getCleanCommits(searched, configKey);
+      } catch (e) {
+        this.addWarning('Secret Scanning', 'Could not read earlier commit scans; all commits will be read.', e);
+      }
+    }
+    const unread = searched.filter(sha => !clean.has(sha));
+    const shas = provider.kind === 'local' ? unread : unread.slice(0, config.maxCommits);
+    if (shas.length < unread.length) {
+      const skipped = unread.length - shas.length;
+      this.addWarning('Secret Scanning', cache
+        ? `The patches of ${skipped} older commits were not searched for secrets yet; only ${config.maxCommits} commits are read per analysis, so later analyses continue where this one stopped. Raise maxCommits in SECRET_SCAN_CONFIG_PATH to search them sooner.`
+        : `The patches of ${skipped} older commits were not searched for secrets; only ${config.maxCommits} commits are read per analysis. Raise maxCommits in SECRET_SCAN_CONFIG_PATH to search them.`);
+    }
+    const history: Commit[] = [];
+    let unreadable = 0;
+    for (let i = 0; i < shas.length && !signal?.aborted; i += BackendAnalysisService.COMMIT_PATCH_BATCH_SIZE) {
+      const batch = await Promise.all(shas.slice(i, i + BackendAnalysisService.COMMIT_PATCH_BATCH_SIZE)
+        .map(sha => provider.getCommitDetails(sha, signal).catch(() => undefined)));
+      for (const commit of batch) {
+        if (commit) history.push(commit);
+        else unreadable++;
+      }
+    }
+    if (unreadable > 0) {
+      this.addWarning('Secret Scanning', `Could not read the patches of ${unreadable} commits; they were not searched for secrets.`);
+    }
+    if (cache && history.length > 0) {
+      await cache.saveCleanCommits(commitsWithoutSecrets(history, config), configKey)
+        .catch(e => this.addWarning('Secret Scanning', 'Could not store commit scans for the next analysis.', e));
+    }
+    try {
+      const credentials = new Map(credentialFiles.map(file => [file.path, file.content]));
+      return await scanSecrets(
+        files.map(file => ({ path: file.path, content: credentials.get(file.path) ?? file.content })),
+        history,
+        config,
+        { signal, onError: (context, e) => this.addWarning('Secret Scanning', `Could not complete ${context}`, e) },
+      );
+    } catch (e) {
+      this.addWarning('Secret Scanning', 'Failed to scan for secrets', e);
+      return [];
+    }
+  }
+
+  // Secrets are found by secret scanning, which also searches history, and JavaScript and
+  // TypeScript code by the SAST rules, which read the syntax tree
   private generateFallbackSecurityIssues(files: FileInfo[]): SecurityIssue[] {
     const issues: SecurityIssue[] = [];
     const patterns = [
-      { regex: /AWS_ACCESS_KEY_ID/g, type: 'secret', severity: 'critical', cwe: 'CWE-798' },
-      { regex: /private_key/g, type: 'secret', severity: 'critical', cwe: 'CWE-798' },
-      { regex: /dangerouslySetInnerHTML/g, type: 'vulnerability', severity: 'high', cwe: 'CWE-79' },
-      { regex: /eval\(/g, type: 'vulnerability', severity: 'high', cwe: 'CWE-95' },
-      { regex: /password\s*=\s*['"`][^'"`]+['"`]/gi, type: 'secret', severity: 'high', cwe: 'CWE-259' },
-      { regex: /TODO:|FIXME:/g, type: 'configuration', severity: 'low', cwe: 'CWE-546' },
+      { regex: /dangerouslySetInnerHTML/g, type: 'vulnerability', severity: 'high', cwe: 'CWE-79', code: true },
+      { regex: /eval\(/g, type: 'vulnerability', severity: 'high', cwe: 'CWE-95', code: true },
+      { regex: /TODO:|FIXME:/g, type: 'configuration', severity: 'low', cwe: 'CWE-546', code: false },
     ];
 
     // Skip very large files to avoid regex DoS
@@ -1628,9 +2164,13 @@ export class BackendAnalysisService {
 
     sourceFiles.forEach(file => {
       if (!file.content) return;
+      // Global regexes carry lastIndex between test() calls; reset them so a file's
+      // findings do not depend on which files were scanned before it
+      patterns.forEach(pattern => { pattern.regex.lastIndex = 0; });
+      const filePatterns = JAVASCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase()) ? patterns.filter(pattern => !pattern.code) : patterns;
       const lines = file.content.split('\n');
       lines.forEach((line, index) => {
-        patterns.forEach(pattern => {
+        filePatterns.forEach(pattern => {
           if (pattern.regex.test(line)) {
             issues.push({
               type: pattern.type as any,
@@ -1648,68 +2188,6 @@ export class BackendAnalysisService {
     });
     return issues;
   }
-  private generateFallbackTechnicalDebt(files: FileInfo[], _quality: QualityMetrics): TechnicalDebt[] {
-    const debt: TechnicalDebt[] = [];
-    const patterns = [
-      { regex: /console\.log/g, type: 'smell', severity: 'low', effort: 'low' },
-      { regex: /\/\/\s*@ts-ignore/g, type: 'smell', severity: 'medium', effort: 'medium' },
-      { regex: /any/g, type: 'smell', severity: 'medium', effort: 'high' },
-      { regex: /function\s*\w*\s*\([^)]*?\)\s*\{[\s\S]{500,}/g, type: 'complexity', severity: 'high', effort: 'high' }, // Long function
-    ];
-    
-    const sourceFiles = files.filter(f => this.isSourceFile(f.path));
-
-    sourceFiles.forEach(file => {
-      if (!file.content) return;
-      const lines = file.content.split('\n');
-      lines.forEach((line, index) => {
-        patterns.forEach(pattern => {
-          if (pattern.regex.test(line)) {
-            debt.push({
-              type: pattern.type as any,
-              severity: pattern.severity as any,
-              file: file.path,
-              line: index + 1,
-              description: `Code smell detected: ${line.trim()}`,
-              effort: pattern.effort,
-              impact: 'low',
-            });
-          }
-        });
-      });
-    });
-
-    // Check for duplicated code blocks (simple version)
-    const codeBlocks = new Map<string, { file: string; line: number }[]>();
-    files.forEach(file => {
-      if (!file.content) return;
-      const lines = file.content.split('\n');
-      for (let i = 0; i < lines.length - 5; i++) {
-        const block = lines.slice(i, i + 5).join('\n');
-        if (block.trim().length > 50) { // Ignore small blocks
-          if (!codeBlocks.has(block)) codeBlocks.set(block, []);
-          codeBlocks.get(block)!.push({ file: file.path, line: i + 1 });
-        }
-      }
-    });
-
-    codeBlocks.forEach((locations) => {
-      if (locations.length > 1) {
-        debt.push({
-          type: 'duplication',
-          severity: 'medium',
-          file: locations[0].file,
-          line: locations[0].line,
-          description: `Duplicated code block found in ${locations.length} locations.`,
-          effort: 'medium',
-          impact: 'medium',
-          recommendation: `Refactor duplicated code into a shared function. Other locations: ${locations.slice(1).map(l => `${l.file}:${l.line}`).join(', ')}`,
-        });
-      }
-    });
-
-    return debt;
-  }
   private generateFallbackPerformanceMetrics(files: FileInfo[]): PerformanceMetric[] {
     const metrics: PerformanceMetric[] = [];
     const patterns = [
@@ -1799,9 +2277,11 @@ export class BackendAnalysisService {
   }
 
   /**
-   * Calculate more accurate test coverage by analyzing test files and testing patterns
+   * A rough guess at test coverage from the ratio of test files to source files and the number
+   * of test calls in them, used only when the repository holds no coverage report. It is
+   * reported as an estimate, never as measured coverage.
    */
-  private calculateTestCoverage(files: FileInfo[]): number {
+  private estimateTestCoverage(files: FileInfo[]): number {
     const sourceFiles = files.filter(f => this.isSourceFile(f.path) && !this.isTestFile(f.path));
     const testFiles = files.filter(f => this.isTestFile(f.path));
     
@@ -1945,38 +2425,4 @@ export class BackendAnalysisService {
     return Math.round(qualityScore * 10) / 10;
   }
 
-  // Add methods for Semgrep-based security scanning
-  private async cloneAndScanWithSemgrep(repoUrl: string, branch: string, files: FileInfo[]): Promise<SecurityIssue[]> {
-    const tmpDir = path.join(os.tmpdir(), `semgrep-scan-${Date.now()}`);
-    await promisify(execFile)('git', ['clone', '--depth', '1', '--branch', branch, repoUrl, tmpDir]);
-    try {
-      const { stdout } = await promisify(execFile)('semgrep', ['--config', 'p/ci', '--json'], { cwd: tmpDir });
-      const output = JSON.parse(stdout);
-      return output.results.map((r: any) => ({
-        type: 'vulnerability',
-        severity: this.mapSemgrepSeverity(r.extra.metadata.severity || ''),
-        file: r.path,
-        line: r.start.line,
-        description: r.extra.message,
-        recommendation: r.extra.metadata.fix?.message || '',
-        cwe: r.extra.metadata.cwe || '',
-        codeSnippet: r.extra.lines,
-      }));
-    } catch (e) {
-      this.addWarning('Semgrep Scan', 'Semgrep scanning failed', e);
-      return this.generateFallbackSecurityIssues(files);
-    } finally {
-      await fs.rm(tmpDir, { recursive: true, force: true });
-    }
-  }
-
-  private mapSemgrepSeverity(sev: string): SecurityIssue['severity'] {
-    switch (sev.toLowerCase()) {
-      case 'critical': return 'critical';
-      case 'error': return 'high';
-      case 'warning': return 'medium';
-      case 'info': return 'low';
-      default: return 'low';
-    }
-  }
 }
@@ -0,0 +1,392 @@
+import axios, { AxiosResponse } from 'axios';
+import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
+import { extractRepositoryArchive, fetchFiles, getPrimaryLanguage } from './repositoryFiles';
+import {
+  ChangedFile, RepositoryLocation, RepositoryProvider, contributorsFromCommits, handleProviderError
+} from './repositoryProvider';
+
+// Raw Bitbucket Server / Data Center REST 1.0 responses, limited to the fields we read
+interface RawBitbucketPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface RawBitbucketRepository {
+  slug: string;
+  name: string;
+  description?: string;
+  project: { key: string; name: string };
+}
+
+interface RawBitbucketCommit {
+  id: string;
+  message: string;
+  author: { name: string; emailAddress?: string };
+  authorTimestamp: number;
+}
+
+interface RawBitbucketDiffSegment {
+  type: 'ADDED' | 'REMOVED' | 'CONTEXT';
+  lines: Array<{ line: string; source: number; destination: number }>;
+}
+
+interface RawBitbucketDiff {
+  source: { toString: string } | null;
+  destination: { toString: string } | null;
+  hunks?: Array<{
+    sourceLine: number;
+    sourceSpan: number;
+    destinationLine: number;
+    destinationSpan: number;
+    segments: RawBitbucketDiffSegment[];
+  }>;
+}
+
+interface RawBitbucketChange {
+  path: { toString: string };
+  srcPath?: { toString: string };
+  type: 'ADD' | 'DELETE' | 'MODIFY' | 'MOVE' | 'COPY' | 'UNKNOWN';
+}
+
+interface RawBitbucketPullRequest {
+  id: number;
+  title: string;
+  state: 'OPEN' | 'MERGED' | 'DECLINED';
+  author: { user: { name: string } };
+  createdDate: number;
+  closedDate?: number;
+}
+
+// Larger change sets are cheaper to analyze from a fresh archive
+const MAX_COMPARE_CHANGES = 1000;
+
+const SEGMENT_PREFIX: Record<RawBitbucketDiffSegment['type'], string> = {
+  ADDED: '+',
+  REMOVED: '-',
+  CONTEXT: ' ',
+};
+
+/**
+ * RepositoryProvider for self-hosted Bitbucket Server / Data Center (REST API 1.0).
+ * Repositories are addressed by project key (or ~username for personal repos) and slug.
+ */
+export class BitbucketServerService implements RepositoryProvider {
+  readonly kind = 'bitbucket-server';
+  readonly owner: string;
+  readonly repo: string;
+  readonly webUrl: string;
+  private repoURL: string;
+  private token?: string;
+
+  constructor(location: RepositoryLocation, token?: string) {
+    this.owner = location.owner;
+    this.repo = location.repo;
+    const repoPath = location.owner.startsWith('~')
+      ? `users/${encodeURIComponent(location.owner.slice(1))}/repos/${encodeURIComponent(location.repo)}`
+      : `projects/${encodeURIComponent(location.owner)}/repos/${encodeURIComponent(location.repo)}`;
+    this.webUrl = `${location.baseUrl}/${repoPath}`;
+    this.repoURL = `${location.baseUrl}/rest/api/1.0/${repoPath}`;
+    this.token = token;
+  }
+
+  private getHeaders() {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+    return headers;
+  }
+
+  private handleBitbucketError(error: unknown, context: string): never {
+    handleProviderError('Bitbucket Server', error, context, `${this.owner}/${this.repo}`, !!this.token);
+  }
+
+  /**
+   * Follows Bitbucket's start/limit paging (isLastPage, nextPageStart) until `limit` items.
+   */
+  private async getPaginated<T>(
+    url: string,
+    params: Record<string, string | number | boolean>,
+    limit: number,
+    onPage?: (fetched: number) => void,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    let items: T[] = [];
+    let start: number | undefined = 0;
+    while (start !== undefined && items.length < limit) {
+      const response: AxiosResponse<RawBitbucketPage<T>> = await axios.get(url, {
+        headers: this.getHeaders(),
+        params: { ...params, start, limit: Math.min(100, limit - items.length) },
+        timeout: 15000,
+        signal,
+      });
+      items = items.concat(response.data.values);
+      onPage?.(items.length);
+      start = response.data.isLastPage ? undefined : response.data.nextPageStart;
+    }
+    return items.slice(0, limit);
+  }
+
+  private async getDefaultBranch(signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await axios.get<{ displayId: string }>(`${this.repoURL}/default-branch`, {
+        headers: this.getHeaders(),
+        signal,
+      });
+      return response.data.displayId;
+    } catch {
+      // Empty repositories have no default branch yet
+      return 'master';
+    }
+  }
+
+  /**
+   * Bitbucket has no stars, forks counters or language statistics; creation and update
+   * dates come from the commit history instead.
+   */
+  async getRepository(signal?: AbortSignal): Promise<Repository> {
+    try {
+      const [repoResponse, defaultBranch] = await Promise.all([
+        axios.get<RawBitbucketRepository>(this.repoURL, { headers: this.getHeaders(), signal }),
+        this.getDefaultBranch(signal),
+      ]);
+      const latest = await axios.get<RawBitbucketPage<RawBitbucketCommit>>(`${this.repoURL}/commits`, {
+        headers: this.getHeaders(),
+        params: { until: defaultBranch, limit: 1 },
+        signal,
+      }).then(response => response.data.values[0]).catch(() => undefined);
+      const updatedAt = latest ? new Date(latest.authorTimestamp).toISOString() : new Date().toISOString();
+
+      const data = repoResponse.data;
+      return {
+        name: data.slug,
+        fullName: `${data.project.key}/${data.slug}`,
+        description: data.description || '',
+        language: 'Unknown',
+        stars: 0,
+        forks: 0,
+        watchers: 0,
+        createdAt: updatedAt,
+        updatedAt,
+        defaultBranch,
+        size: 0,
+        openIssues: 0,
+        hasWiki: false,
+        hasPages: false,
+      };
+    } catch (error) {
+      this.handleBitbucketError(error, 'fetching repository information');
+    }
+  }
+
+  async getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{ repository: Repository; files: FileInfo[] }> {
+    console.log(`[BitbucketServerService] Fetching repository data for ${this.owner}/${this.repo} using Archive download`);
+    const repository = await this.getRepository(signal);
+    const files = await this.downloadRepositoryArchive(branch || repository.defaultBranch, signal);
+    // Fill in what the repository endpoint cannot tell us from the archive itself
+    repository.language = getPrimaryLanguage(files) || repository.language;
+    repository.size = Math.round(files.reduce((sum, f) => sum + f.size, 0) / 1024);
+    return { repository, files };
+  }
+
+  async downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      const response = await axios.get(`${this.repoURL}/archive`, {
+        headers: this.getHeaders(),
+        // The prefix gives the archive the same top-level directory other hosts add
+        params: { at: branch, format: 'zip', prefix: `${this.repo}/` },
+        responseType: 'arraybuffer',
+        timeout: 120000,
+        maxContentLength: 100 * 1024 * 1024,
+        signal,
+      });
+      console.log(`[BitbucketServerService] Downloaded ${(response.data.byteLength / 1024 / 1024).toFixed(2)}MB archive`);
+      return await extractRepositoryArchive(response.data, signal);
+    } catch (error) {
+      this.handleBitbucketError(error, `downloading repository archive for ${branch}`);
+    }
+  }
+
+  private toCommit(c: RawBitbucketCommit): Commit {
+    const date = new Date(c.authorTimestamp).toISOString();
+    return {
+      sha: c.id,
+      message: c.message,
+      author: { name: c.author.name, email: c.author.emailAddress || 'N/A', date },
+      date,
+    };
+  }
+
+  async getCommits(
+    branchOrSha?: string,
+    limit: number = 2000,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]> {
+    try {
+      const params: Record<string, string> = {};
+      if (branchOrSha) params.until = branchOrSha;
+      const rawCommits = await this.getPaginated<RawBitbucketCommit>(
+        `${this.repoURL}/commits`, params, limit,
+        fetched => sendProgress?.(`Fetched ${fetched} commits...`, Math.round(100 * Math.min(1, fetched / limit))),
+        signal
+      );
+      return rawCommits.map(c => this.toCommit(c));
+    } catch (error) {
+      this.handleBitbucketError(error, 'fetching commits');
+    }
+  }
+
+  /**
+   * Bitbucket returns diffs as structured hunks; they are rendered back into unified
+   * diff text so `patch` looks the same as on every other host.
+   */
+  async getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit> {
+    try {
+      const commitURL = `${this.repoURL}/commits/${commitSha}`;
+      const [commitResponse, diffResponse] = await Promise.all([
+        axios.get<RawBitbucketCommit>(commitURL, { headers: this.getHeaders(), signal }),
+        axios.get<{ diffs: RawBitbucketDiff[] }>(`${commitURL}/diff`, {
+          headers: this.getHeaders(),
+          params: { contextLines: 3 },
+          signal,
+        }),
+      ]);
+
+      const files = diffResponse.data.diffs.map(diff => {
+        let additions = 0;
+        let deletions = 0;
+        const patchLines: string[] = [];
+        for (const hunk of diff.hunks || []) {
+          patchLines.push(`@@ -${hunk.sourceLine},${hunk.sourceSpan} +${hunk.destinationLine},${hunk.destinationSpan} @@`);
+          for (const segment of hunk.segments) {
+            if (segment.type === 'ADDED') additions += segment.lines.length;
+            if (segment.type === 'REMOVED') deletions += segment.lines.length;
+            for (const line of segment.lines) {
+              patchLines.push(SEGMENT_PREFIX[segment.type] + line.line);
+            }
+          }
+        }
+        const status = !diff.source ? 'added'
+          : !diff.destination ? 'removed'
+          : diff.source.toString !== diff.destination.toString ? 'renamed'
+          : 'modified';
+        return {
+          filename: (diff.destination || diff.source)!.toString,
+          additions,
+          deletions,
+          changes: additions + deletions,
+          status,
+          patch: patchLines.join('\n'),
+        };
+      });
+
+      const additions = files.reduce((sum, f) => sum + f.additions, 0);
+      const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+      return {
+        ...this.toCommit(commitResponse.data),
+        stats: { additions, deletions, total: additions + deletions },
+        files,
+      };
+    } catch (error) {
+      this.handleBitbucketError(error, `fetching commit details for ${commitSha}`);
+    }
+  }
+
+  // Bitbucket Server has no contributors endpoint, so authors are aggregated from history
+  async getContributors(branch?: string, signal?: AbortSignal): Promise<Contributor[]> {
+    return contributorsFromCommits(await this.getCommits(branch, undefined, undefined, signal));
+  }
+
+  async resolveCommit(ref: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await axios.get<RawBitbucketPage<RawBitbucketCommit>>(`${this.repoURL}/commits`, {
+        headers: this.getHeaders(),
+        params: { until: ref, limit: 1 },
+        signal,
+      });
+      if (!response.data.values[0]) throw new Error(`no commits found for ${ref}`);
+      return response.data.values[0].id;
+    } catch (error) {
+      this.handleBitbucketError(error, `resolving ${ref}`);
+    }
+  }
+
+  /**
+   * Bitbucket compares against the merge base, so the change list is only a direct diff
+   * when no commit of `baseSha` is missing from `headSha`.
+   */
+  async compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    try {
+      const missing = await axios.get<RawBitbucketPage<RawBitbucketCommit>>(`${this.repoURL}/compare/commits`, {
+        headers: this.getHeaders(),
+        params: { from: baseSha, to: headSha, limit: 1 },
+        signal,
+      });
+      if (missing.data.values.length > 0) {
+        throw new Error(`${headSha} does not descend from ${baseSha}`);
+      }
+
+      const changes = await this.getPaginated<RawBitbucketChange>(
+        `${this.repoURL}/compare/changes`, { from: headSha, to: baseSha }, MAX_COMPARE_CHANGES + 1, undefined, signal
+      );
+      if (changes.length > MAX_COMPARE_CHANGES) {
+        throw new Error(`more than ${MAX_COMPARE_CHANGES} files changed`);
+      }
+      return changes.map((change): ChangedFile => {
+        switch (change.type) {
+          case 'ADD':
+          case 'COPY':
+            return { path: change.path.toString, status: 'added' };
+          case 'DELETE':
+            return { path: change.path.toString, status: 'removed' };
+          case 'MOVE':
+            return { path: change.path.toString, status: 'renamed', previousPath: change.srcPath?.toString };
+          default:
+            return { path: change.path.toString, status: 'modified' };
+        }
+      });
+    } catch (error) {
+      this.handleBitbucketError(error, `comparing ${baseSha}...${headSha}`);
+    }
+  }
+
+  async getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      return await fetchFiles(paths, async filePath => {
+        const response = await axios.get<ArrayBuffer>(
+          `${this.repoURL}/raw/${filePath.split('/').map(encodeURIComponent).join('/')}`,
+          { headers: this.getHeaders(), params: { at: ref }, responseType: 'arraybuffer', signal }
+        );
+        return Buffer.from(response.data);
+      }, signal);
+    } catch (error) {
+      this.handleBitbucketError(error, `fetching files at ${ref}`);
+    }
+  }
+
+  async getPullRequests(signal?: AbortSignal): Promise<PullRequestData[]> {
+    try {
+      const pulls = await this.getPaginated<RawBitbucketPullRequest>(
+        `${this.repoURL}/pull-requests`, { state: 'ALL', order: 'NEWEST' }, 100, undefined, signal
+      );
+      return pulls.map(pr => {
+        const closedAt = pr.closedDate ? new Date(pr.closedDate).toISOString() : null;
+        return {
+          id: pr.id,
+          title: pr.title,
+          author: pr.author.user.name,
+          state: pr.state === 'MERGED' ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+          createdAt: new Date(pr.createdDate).toISOString(),
+          closedAt,
+          mergedAt: pr.state === 'MERGED' ? closedAt : null,
+        };
+      });
+    } catch (error) {
+      // Same as GitHub: pull requests are optional and should not fail the analysis
+      console.warn(`Failed to fetch pull requests for ${this.owner}/${this.repo}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+}
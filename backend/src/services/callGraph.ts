@@ -0,0 +1,447 @@
+/**
+ * Call graph for JavaScript and TypeScript. Each file's imports, exports and calls are read
+ * from its Babel syntax tree, imports are resolved to files in the repository, and every call
+ * is followed through them to the function it reaches. Calls whose target cannot be worked
+ * out statically are kept as dynamic edges rather than dropped.
+ */
+
+import * as path from 'path';
+import { CallGraph, CallGraphEdge, CallGraphNeighbourhood, CallGraphNode, FileInfo } from '../types';
+import { bindingNames, memberName, readJavaScript } from './javascriptSyntax';
+import { isRelativeSpecifier, JAVASCRIPT_EXTENSIONS, ModuleResolver, packageName } from './moduleResolver';
+
+// The node that calls made outside any function belong to
+export const MODULE_NODE = '<module>';
+
+const MAX_CALLEE_LENGTH = 80;
+
+// A name bound to a value of another module: `imported` is the exported name, '*' the whole module
+interface Binding {
+  source: string;
+  imported: string;
+}
+
+// An exported name and the local name or re-exported binding behind it
+type Export = { local: string } | Binding;
+
+// A value in a file: the function, class or object called `name`, or the module itself
+interface Target {
+  file: string;
+  name?: string;
+}
+
+type Resolution = { to: string } | { module: string };
+
+interface ModuleSummary {
+  file: string;
+  // Function names, as in `analyzeJavaScript`, and their node IDs
+  functions: Map<string, string>;
+  imports: Map<string, Binding>;
+  exports: Map<string, Export>;
+  // Sources of `export * from`
+  exportAll: string[];
+  // Variables and members initialised with `new X()`, and the class
+  instances: Map<string, string>;
+  // Every name declared in the file, so calls to globals can be told apart from local values
+  declared: Set<string>;
+}
+
+const nodeId = (file: string, name: string) => `${file}#${name}`;
+const qualifierOf = (name: string) => name.slice(0, Math.max(0, name.lastIndexOf('.')));
+
+const stringValue = (node: any): string | undefined => (node?.type === 'StringLiteral' ? node.value : undefined);
+const exportedName = (node: any): string => node.type === 'StringLiteral' ? node.value : node.name;
+
+// `require('x')`, with the module it names
+function requiredModule(node: any): string | undefined {
+  if (node?.type !== 'CallExpression' || node.callee.type !== 'Identifier' || node.callee.name !== 'require') return undefined;
+  return stringValue(node.arguments[0]);
+}
+
+// Bindings made by an import declaration or a `require` assigned to a variable
+function addImports(node: any, imports: Map<string, Binding>): void {
+  if (node.type === 'ImportDeclaration') {
+    if (node.importKind === 'type') return;
+    for (const specifier of node.specifiers) {
+      if (specifier.importKind === 'type') continue;
+      const imported = specifier.type === 'ImportDefaultSpecifier' ? 'default'
+        : specifier.type === 'ImportNamespaceSpecifier' ? '*'
+        : exportedName(specifier.imported);
+      imports.set(specifier.local.name, { source: node.source.value, imported });
+    }
+    return;
+  }
+  // const x = require('x'), const { a, b: c } = require('x') and const a = require('x').a
+  const init = node.init?.type === 'MemberExpression' && !node.init.computed ? node.init.object : node.init;
+  const source = requiredModule(init);
+  if (!source) return;
+  if (init !== node.init) {
+    if (node.id.type === 'Identifier') imports.set(node.id.name, { source, imported: node.init.property.name });
+  } else if (node.id.type === 'Identifier') {
+    imports.set(node.id.name, { source, imported: '*' });
+  } else if (node.id.type === 'ObjectPattern') {
+    for (const property of node.id.properties) {
+      if (property.type !== 'ObjectProperty' || property.computed || property.value.type !== 'Identifier') continue;
+      imports.set(property.value.name, { source, imported: property.key.name ?? property.key.value });
+    }
+  }
+}
+
+// ES exports of a top-level statement, and CommonJS ones assigned to `module.exports` or `exports`
+function addExports(statement: any, summary: ModuleSummary): void {
+  const { exports } = summary;
+  switch (statement.type) {
+    case 'ExportNamedDeclaration': {
+      if (statement.exportKind === 'type') return;
+      const declaration = statement.declaration;
+      if (declaration?.type === 'VariableDeclaration') {
+        for (const declarator of declaration.declarations) {
+          for (const name of bindingNames(declarator.id)) exports.set(name, { local: name });
+        }
+      } else if (declaration?.id) {
+        exports.set(declaration.id.name, { local: declaration.id.name });
+      }
+      for (const specifier of statement.specifiers ?? []) {
+        const exported = exportedName(specifier.exported);
+        if (statement.source) {
+          const imported = specifier.type === 'ExportNamespaceSpecifier' ? '*' : specifier.type === 'ExportDefaultSpecifier' ? 'default' : exportedName(specifier.local);
+          exports.set(exported, { source: statement.source.value, imported });
+        } else {
+          exports.set(exported, { local: specifier.local.name });
+        }
+      }
+      return;
+    }
+    case 'ExportDefaultDeclaration': {
+      const declaration = statement.declaration;
+      // Anonymous default exports are named `default`, as `analyzeJavaScript` names them
+      exports.set('default', { local: declaration.type === 'Identifier' ? declaration.name : declaration.id?.name ?? 'default' });
+      return;
+    }
+    case 'ExportAllDeclaration':
+      if (statement.exportKind !== 'type') summary.exportAll.push(statement.source.value);
+      return;
+    case 'ExpressionStatement': {
+      const assignment = statement.expression;
+      if (assignment.type !== 'AssignmentExpression' || assignment.operator !== '=') return;
+      const target = memberName(assignment.left);
+      const value = assignment.right;
+      if (target === 'module.exports') {
+        const source = requiredModule(value);
+        if (source) {
+          exports.set('default', { source, imported: '*' });
+          return;
+        }
+        exports.set('default', { local: value.type === 'Identifier' ? value.name : 'module.exports' });
+        if (value.type !== 'ObjectExpression') return;
+        for (const property of value.properties) {
+          if (property.type === 'SpreadElement' || property.computed) continue;
+          const key = property.key.name ?? String(property.key.value);
+          const local = property.type === 'ObjectProperty' && property.value.type === 'Identifier' ? property.value.name : `module.exports.${key}`;
+          exports.set(key, { local });
+        }
+      } else if (target && /^(module\.)?exports\.[^.]+$/.test(target)) {
+        exports.set(target.slice(target.lastIndexOf('.') + 1), { local: value.type === 'Identifier' ? value.name : target });
+      }
+      return;
+    }
+  }
+}
+
+// Imports, declared names and instances from anywhere in the file
+function collectBindings(node: any, summary: ModuleSummary): void {
+  if (!node || typeof node.type !== 'string') return;
+  switch (node.type) {
+    case 'ImportDeclaration':
+      addImports(node, summary.imports);
+      for (const specifier of node.specifiers) summary.declared.add(specifier.local.name);
+      return;
+    case 'VariableDeclarator':
+      addImports(node, summary.imports);
+      for (const name of bindingNames(node.id)) summary.declared.add(name);
+      if (node.id.type === 'Identifier' && node.init?.type === 'NewExpression') {
+        const className = memberName(node.init.callee);
+        if (className) summary.instances.set(node.id.name, className);
+      }
+      break;
+    case 'ClassProperty':
+      // private repository = new Repository()
+      if (!node.computed && node.key.type === 'Identifier' && node.value?.type === 'NewExpression') {
+        const className = memberName(node.value.callee);
+        if (className) summary.instances.set(`this.${node.key.name}`, className);
+      }
+      break;
+    case 'AssignmentExpression':
+      // this.repository = new Repository()
+      if (node.right.type === 'NewExpression') {
+        const target = memberName(node.left);
+        const className = memberName(node.right.callee);
+        if (target && className) summary.instances.set(target, className);
+      }
+      break;
+    case 'FunctionDeclaration':
+    case 'FunctionExpression':
+    case 'ArrowFunctionExpression':
+    case 'ObjectMethod':
+    case 'ClassMethod':
+    case 'ClassPrivateMethod':
+      if (node.id) summary.declared.add(node.id.name);
+      for (const param of node.params ?? []) {
+        for (const name of bindingNames(param)) summary.declared.add(name);
+      }
+      break;
+    case 'ClassDeclaration':
+    case 'TSEnumDeclaration':
+      if (node.id) summary.declared.add(node.id.name);
+      break;
+    case 'CatchClause':
+      for (const name of bindingNames(node.param)) summary.declared.add(name);
+      break;
+  }
+  for (const key of Object.keys(node)) {
+    if (key === 'loc' || key.endsWith('Comments')) continue;
+    const value = node[key];
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child.type === 'string') collectBindings(child, summary);
+    }
+  }
+}
+
+/**
+ * Follows names through imports, exports and instances to the function they reach.
+ */
+class CallResolver {
+  private readonly modules: Map<string, ModuleSummary>;
+  private readonly resolver: ModuleResolver;
+
+  constructor(modules: Map<string, ModuleSummary>, resolver: ModuleResolver) {
+    this.modules = modules;
+    this.resolver = resolver;
+  }
+
+  /**
+   * What `segments` reach from `summary`, such as `['orders', 'save']` for `orders.save`:
+   * a function of the file, one reached through an import or a `new` instance, or a package.
+   */
+  resolveName(summary: ModuleSummary, segments: string[], seen = new Set<string>()): Resolution | undefined {
+    const key = `${summary.file}:${segments.join('.')}`;
+    if (seen.has(key)) return undefined;
+    seen.add(key);
+
+    const local = summary.functions.get(segments.join('.'));
+    if (local) return { to: local };
+
+    const [head, ...members] = segments;
+    const binding = summary.imports.get(head);
+    if (binding) {
+      const file = this.resolver.resolve(binding.source, summary.file);
+      // Imports of repository files that are not parsed, such as JSON, reach no function
+      if (file && !this.modules.has(file)) return undefined;
+      if (!file) return isRelativeSpecifier(binding.source) ? undefined : { module: packageName(binding.source) };
+      const target = binding.imported === '*' ? { file } : this.resolveExport(file, binding.imported, seen);
+      return target && this.lookup(target, members, seen);
+    }
+
+    // Instances are reached through their class: `orders.save` is `Orders.save`
+    for (let length = segments.length - 1; length > 0; length--) {
+      const className = summary.instances.get(segments.slice(0, length).join('.'));
+      if (className) return this.resolveName(summary, [...className.split('.'), ...segments.slice(length)], seen);
+    }
+    return undefined;
+  }
+
+  // The value a module exports as `name`, following re-exports
+  private resolveExport(file: string, name: string, seen: Set<string>): Target | undefined {
+    const key = `${file}:export:${name}`;
+    const summary = this.modules.get(file);
+    if (!summary || seen.has(key)) return undefined;
+    seen.add(key);
+
+    const exported = summary.exports.get(name);
+    if (exported && 'local' in exported) {
+      // A name that is itself imported is exported from where it came from
+      const binding = summary.imports.get(exported.local);
+      return binding ? this.resolveBinding(file, binding, seen) : { file, name: exported.local };
+    }
+    if (exported) return this.resolveBinding(file, exported, seen);
+    if (name === 'default') return undefined;
+    for (const source of summary.exportAll) {
+      const target = this.resolver.resolve(source, file);
+      const found = target && this.resolveExport(target, name, seen);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  private resolveBinding(from: string, binding: Binding, seen: Set<string>): Target | undefined {
+    const file = this.resolver.resolve(binding.source, from);
+    if (!file) return undefined;
+    return binding.imported === '*' ? { file } : this.resolveExport(file, binding.imported, seen);
+  }
+
+  private lookup(target: Target, members: string[], seen: Set<string>): Resolution | undefined {
+    const summary = this.modules.get(target.file);
+    if (!summary) return undefined;
+    if (target.name) return this.resolveName(summary, [...target.name.split('.'), ...members], seen);
+
+    const [head, ...rest] = members;
+    const exported = head !== undefined ? this.resolveExport(target.file, head, seen) : undefined;
+    if (exported) return this.lookup(exported, rest, seen);
+    // A CommonJS module is the one value it exports, so its members are that value's
+    const main = this.resolveExport(target.file, 'default', seen);
+    return main ? this.lookup(main, members, seen) : undefined;
+  }
+}
+
+function summarize(file: string, program: any, functionNames: string[]): ModuleSummary {
+  const summary: ModuleSummary = {
+    file,
+    functions: new Map(),
+    imports: new Map(),
+    exports: new Map(),
+    exportAll: [],
+    instances: new Map(),
+    declared: new Set(),
+  };
+  for (const name of functionNames) {
+    if (!summary.functions.has(name)) summary.functions.set(name, nodeId(file, name));
+  }
+  collectBindings(program, summary);
+  for (const statement of program.body) addExports(statement, summary);
+  return summary;
+}
+
+/**
+ * The edge for one call, or nothing for a call to a global such as `console.log` or
+ * `setTimeout`, which the file never declares.
+ */
+function callEdge(call: any, caller: string, summary: ModuleSummary, resolver: CallResolver, content: string): CallGraphEdge | undefined {
+  const name = memberName(call.callee);
+  const line = call.loc.start.line;
+  const from = nodeId(summary.file, caller);
+  if (!name) {
+    // Computed members, call results, `super` and other expressions
+    const text = content.slice(call.callee.start, call.callee.end).replace(/\s+/g, ' ');
+    const callee = text.length > MAX_CALLEE_LENGTH ? `${text.slice(0, MAX_CALLEE_LENGTH - 1)}…` : text;
+    return { from, callee, line, resolution: 'dynamic' };
+  }
+
+  const segments = name.split('.');
+  let resolved: Resolution | undefined;
+  if (segments[0] === 'this') {
+    // `this` is the class or object the caller belongs to
+    const owner = caller === MODULE_NODE ? '' : qualifierOf(caller);
+    resolved = (owner ? resolver.resolveName(summary, [...owner.split('.'), ...segments.slice(1)]) : undefined)
+      ?? resolver.resolveName(summary, segments);
+  } else {
+    resolved = resolver.resolveName(summary, segments);
+    if (!resolved && !summary.declared.has(segments[0]) && !summary.functions.has(segments[0])) return undefined;
+  }
+
+  if (resolved && 'to' in resolved) return { from, to: resolved.to, callee: name, line, resolution: 'internal' };
+  if (resolved) return { from, callee: name, line, resolution: 'external', module: resolved.module };
+  return { from, callee: name, line, resolution: 'dynamic' };
+}
+
+/**
+ * Builds the call graph of the JavaScript and TypeScript files. Nodes are named as
+ * `KeyFunction`s are, so a key function's node is `file#name`. Each caller has one edge
+ * per distinct callee, at the first line it is called on.
+ */
+export function buildCallGraph(files: Array<Pick<FileInfo, 'path' | 'content'>>, onError?: (file: string, error: unknown) => void): CallGraph {
+  const parsed: Array<{ file: string; content: string; module: ReturnType<typeof readJavaScript> }> = [];
+  for (const file of files) {
+    if (!file.content || !JAVASCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase())) continue;
+    try {
+      parsed.push({ file: file.path, content: file.content, module: readJavaScript(file.content) });
+    } catch (e) {
+      onError?.(file.path, e);
+    }
+  }
+
+  const modules = new Map(parsed.map(({ file, module }) => [file, summarize(file, module.program, module.analysis.functions.map(fn => fn.name))]));
+  const resolver = new CallResolver(modules, new ModuleResolver(files));
+  const nodes = new Map<string, CallGraphNode>();
+  const edges: CallGraphEdge[] = [];
+
+  for (const { file, content, module } of parsed) {
+    const summary = modules.get(file)!;
+    const exportedLocals = [...summary.exports.values()].flatMap(exported => ('local' in exported ? [exported.local] : []));
+    const isExported = (name: string) => exportedLocals.some(local => name === local || name.startsWith(`${local}.`));
+    module.analysis.functions.forEach((fn, i) => {
+      const id = nodeId(file, fn.name);
+      if (!nodes.has(id)) {
+        nodes.set(id, { id, name: fn.name, file, startLine: fn.startLine, endLine: fn.endLine, ...(isExported(fn.name) ? { exported: true } : {}) });
+      }
+      edges.push(...callEdges(module.callSites[i], fn.name, summary, resolver, content));
+    });
+
+    const moduleEdges = callEdges(module.moduleCallSites, MODULE_NODE, summary, resolver, content);
+    if (moduleEdges.length > 0) {
+      nodes.set(nodeId(file, MODULE_NODE), { id: nodeId(file, MODULE_NODE), name: MODULE_NODE, file });
+      edges.push(...moduleEdges);
+    }
+  }
+
+  // Functions sharing a name, such as overloads, share a node and so their edges
+  const seen = new Set<string>();
+  const unique = edges.filter(edge => {
+    const key = `${edge.from}\n${edge.callee}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { nodes: [...nodes.values()], edges: unique };
+}
+
+function callEdges(calls: any[], caller: string, summary: ModuleSummary, resolver: CallResolver, content: string): CallGraphEdge[] {
+  const edges: CallGraphEdge[] = [];
+  const seen = new Set<string>();
+  for (const call of calls) {
+    const edge = callEdge(call, caller, summary, resolver, content);
+    if (!edge || seen.has(edge.callee)) continue;
+    seen.add(edge.callee);
+    edges.push(edge);
+  }
+  return edges;
+}
+
+/**
+ * The callers of `focus` up to `depth` calls away, its callees up to `depth` calls away, the
+ * internal calls between them, and the external and dynamic calls the focus and its callees
+ * make. Returns undefined when the graph has no such node.
+ */
+export function callGraphNeighbourhood(graph: CallGraph, focus: string, depth = 1): CallGraphNeighbourhood | undefined {
+  if (!graph.nodes.some(node => node.id === focus)) return undefined;
+  const internal = graph.edges.filter(edge => edge.resolution === 'internal' && edge.to);
+  const distances: Record<string, number> = { [focus]: 0 };
+
+  const walk = (direction: 1 | -1) => {
+    let frontier = [focus];
+    for (let step = 1; step <= depth && frontier.length > 0; step++) {
+      const next: string[] = [];
+      for (const edge of internal) {
+        const [near, far] = direction === 1 ? [edge.from, edge.to!] : [edge.to!, edge.from];
+        if (frontier.includes(near) && distances[far] === undefined) {
+          distances[far] = direction * step;
+          next.push(far);
+        }
+      }
+      frontier = next;
+    }
+  };
+  walk(1);
+  walk(-1);
+
+  const included = (id: string | undefined) => id !== undefined && distances[id] !== undefined;
+  return {
+    focus,
+    distances,
+    nodes: graph.nodes.filter(node => included(node.id)),
+    edges: graph.edges.filter(edge =>
+      edge.resolution === 'internal'
+        ? included(edge.from) && included(edge.to)
+        : included(edge.from) && distances[edge.from] >= 0 && distances[edge.from] < depth
+    ),
+  };
+}
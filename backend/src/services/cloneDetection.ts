@@ -0,0 +1,482 @@
+/**
+ * Clone detection over token streams. Source files are split into tokens with comments and
+ * layout dropped; identifiers and literals are normalized away, so windows of `minTokens`
+ * equal tokens find clones whose variables were renamed or whose constants changed (type 2)
+ * as well as verbatim copies (type 1). Matching windows are extended into maximal clones,
+ * optionally joined across small edits (type 3), and clones sharing a fragment are grouped
+ * into clone classes.
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { CloneClass, CloneDetectionConfig, CloneFragment, DuplicationReport, FileDuplication, FileInfo, TechnicalDebt } from '../types';
+import { globPattern } from './deadCode';
+import { getLanguageFromExtension, isSourceFile } from './repositoryFiles';
+
+const CloneDetectionConfigSchema = z.object({
+  // The shortest clone reported, in tokens
+  minTokens: z.number().int().min(10).default(50),
+  // Whether clones separated by small edits are joined into one type-3 clone
+  gapped: z.boolean().default(false),
+  // The most tokens added, removed or changed on either side between two joined clones
+  maxGapTokens: z.number().int().min(1).default(10),
+  // Files never searched for clones, as glob patterns
+  ignoreFiles: z.array(z.string()).default([]),
+});
+
+export const DEFAULT_CLONE_DETECTION_CONFIG: CloneDetectionConfig = CloneDetectionConfigSchema.parse({});
+
+/**
+ * The clone detection configuration: the defaults, overridden by the JSON file at
+ * CLONE_DETECTION_CONFIG_PATH when one is configured.
+ */
+export async function loadCloneDetectionConfig(): Promise<CloneDetectionConfig> {
+  const file = process.env.CLONE_DETECTION_CONFIG_PATH;
+  if (!file) return DEFAULT_CLONE_DETECTION_CONFIG;
+  return CloneDetectionConfigSchema.parse(JSON.parse(await fs.readFile(file, 'utf8')));
+}
+
+// --- Tokens ---
+
+// Comment syntax by language; languages missing here are not searched
+const LINE_AND_BLOCK = /\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y;
+const HASH = /#[^\n]*/y;
+const COMMENTS: Record<string, RegExp[]> = {
+  ...Object.fromEntries(
+    ['typescript', 'javascript', 'java', 'kotlin', 'scala', 'groovy', 'c', 'cpp', 'csharp', 'fsharp', 'go', 'rust', 'swift', 'dart']
+      .map(language => [language, [LINE_AND_BLOCK]]),
+  ),
+  php: [LINE_AND_BLOCK, HASH],
+  python: [HASH],
+  ruby: [/^=begin\b[\s\S]*?^=end\b[^\n]*/my, HASH],
+  shell: [HASH],
+  elixir: [HASH],
+  powershell: [/<#[\s\S]*?(?:#>|$)/y, HASH],
+  sql: [/--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  lua: [/--\[\[[\s\S]*?(?:\]\]|$)|--[^\n]*/y],
+  haskell: [/\{-[\s\S]*?(?:-\}|$)|--[^\n]*/y],
+  elm: [/\{-[\s\S]*?(?:-\}|$)|--[^\n]*/y],
+};
+
+const WHITESPACE = /\s+/y;
+const STRING = /"""[\s\S]*?(?:"""|$)|'''[\s\S]*?(?:'''|$)|"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`/y;
+const NUMBER = /(?:0[xob][\da-f_]+|\d[\d_]*(?:\.\d[\d_]*)?(?:e[+-]?\d+)?|\.\d[\d_]*(?:e[+-]?\d+)?)[a-z]*/iy;
+const WORD = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const PUNCTUATION = /\.\.\.|===|!==|>>>|\?\?=|\|\|=|&&=|=>|==|!=|<=|>=|&&|\|\||\?\?|\?\.|\+\+|--|->|::|<<|>>|[+\-*/%&|^]=|\S/y;
+
+// Keywords of the supported languages; every other word is an identifier, which a type-2 clone may rename
+const KEYWORDS = new Set([
+  'abstract', 'and', 'as', 'async', 'await', 'begin', 'break', 'case', 'catch', 'chan', 'class', 'const', 'continue',
+  'def', 'default', 'defer', 'del', 'delete', 'do', 'elif', 'else', 'elsif', 'end', 'enum', 'except', 'export',
+  'extends', 'extern', 'false', 'final', 'finally', 'fn', 'for', 'foreach', 'from', 'fun', 'func', 'function', 'go',
+  'goto', 'if', 'impl', 'implements', 'import', 'in', 'instanceof', 'interface', 'is', 'lambda', 'let', 'loop',
+  'match', 'mod', 'module', 'mut', 'namespace', 'new', 'nil', 'None', 'not', 'null', 'object', 'of', 'or',
+  'override', 'package', 'pass', 'private', 'protected', 'pub', 'public', 'raise', 'range', 'readonly', 'rescue',
+  'return', 'select', 'self', 'sizeof', 'static', 'struct', 'super', 'switch', 'then', 'this', 'throw', 'throws',
+  'trait', 'true', 'True', 'False', 'try', 'typeof', 'undefined', 'unless', 'until', 'use', 'using', 'val', 'var',
+  'virtual', 'void', 'when', 'where', 'while', 'with', 'yield',
+]);
+
+// Normalized forms of identifiers and literals
+const IDENTIFIER = '$id';
+const STRING_LITERAL = '$str';
+const NUMBER_LITERAL = '$num';
+
+interface Token {
+  raw: string;
+  normalized: string;
+  line: number;
+  endLine: number;
+}
+
+const newlines = (text: string) => {
+  let count = 0;
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) count++;
+  return count;
+};
+
+/**
+ * The tokens of a source file without its comments and whitespace, or undefined for a
+ * language whose comments are not known.
+ */
+export function tokenize(content: string, language: string | undefined): Token[] | undefined {
+  const comments = language ? COMMENTS[language] : undefined;
+  if (!comments) return undefined;
+
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    const found = pattern.exec(content);
+    return found && found[0].length > 0 ? found[0] : undefined;
+  };
+
+  while (index < content.length) {
+    const skipped = match(WHITESPACE) ?? comments.map(match).find(text => text !== undefined);
+    if (skipped !== undefined) {
+      line += newlines(skipped);
+      index += skipped.length;
+      continue;
+    }
+    let text: string;
+    let normalized: string;
+    const string = match(STRING);
+    const number = string === undefined ? match(NUMBER) : undefined;
+    const word = string === undefined && number === undefined ? match(WORD) : undefined;
+    if (string !== undefined) {
+      text = string;
+      normalized = STRING_LITERAL;
+    } else if (number !== undefined) {
+      text = number;
+      normalized = NUMBER_LITERAL;
+    } else if (word !== undefined) {
+      text = word;
+      normalized = KEYWORDS.has(word) ? word : IDENTIFIER;
+    } else {
+      text = match(PUNCTUATION)!;
+      normalized = text;
+    }
+    const endLine = line + newlines(text);
+    tokens.push({ raw: text, normalized, line, endLine });
+    line = endLine;
+    index += text.length;
+  }
+  return tokens;
+}
+
+// --- Matching ---
+
+// Clone classes in the report, largest first; every clone still counts toward duplicated lines
+const MAX_CLASSES = 200;
+// Lines of each fragment kept for the side-by-side view
+const MAX_FRAGMENT_LINES = 200;
+const HASH_BASE = 1000003;
+
+// Every token of the searched files, concatenated, so a position identifies file and token
+interface TokenStream {
+  files: Array<{ path: string; lines: string[]; start: number; end: number }>;
+  fileOf: Int32Array;
+  normalized: Int32Array;
+  raw: Int32Array;
+  line: Int32Array;
+  endLine: Int32Array;
+}
+
+function tokenStream(files: Array<Pick<FileInfo, 'path' | 'content'>>, config: CloneDetectionConfig): TokenStream {
+  const ignored = config.ignoreFiles.map(globPattern);
+  const symbols = new Map<string, number>();
+  const symbol = (text: string) => {
+    let id = symbols.get(text);
+    if (id === undefined) symbols.set(text, (id = symbols.size + 1));
+    return id;
+  };
+
+  const tokenized: Array<{ path: string; content: string; tokens: Token[] }> = [];
+  for (const file of files) {
+    if (!file.content || !isSourceFile(file.path) || ignored.some(pattern => pattern.test(file.path))) continue;
+    const tokens = tokenize(file.content, getLanguageFromExtension(file.path));
+    if (tokens && tokens.length >= config.minTokens) tokenized.push({ path: file.path, content: file.content, tokens });
+  }
+
+  const total = tokenized.reduce((sum, file) => sum + file.tokens.length, 0);
+  const stream: TokenStream = {
+    files: [],
+    fileOf: new Int32Array(total),
+    normalized: new Int32Array(total),
+    raw: new Int32Array(total),
+    line: new Int32Array(total),
+    endLine: new Int32Array(total),
+  };
+  let position = 0;
+  tokenized.forEach(({ path, content, tokens }, fileIndex) => {
+    stream.files.push({ path, lines: content.split('\n'), start: position, end: position + tokens.length });
+    for (const token of tokens) {
+      stream.fileOf[position] = fileIndex;
+      stream.normalized[position] = symbol(token.normalized);
+      stream.raw[position] = symbol(token.raw);
+      stream.line[position] = token.line;
+      stream.endLine[position] = token.endLine;
+      position++;
+    }
+  });
+  return stream;
+}
+
+/**
+ * Windows that repeat themselves within `minTokens / 2` tokens, such as lookup tables and
+ * runs of similar fields. They match every shifted copy of themselves, so they are left out
+ * rather than reported as clones of their own rows.
+ */
+function periodicWindows(stream: TokenStream, minTokens: number): Uint8Array {
+  const { normalized } = stream;
+  const periodic = new Uint8Array(normalized.length);
+  const streak = new Int32Array(normalized.length + 1);
+  for (let period = 1; period <= minTokens / 2; period++) {
+    for (const file of stream.files) {
+      streak[file.end] = 0;
+      for (let i = file.end - 1; i >= file.start; i--) {
+        streak[i] = i + period < file.end && normalized[i] === normalized[i + period] ? streak[i + 1] + 1 : 0;
+        if (streak[i] >= minTokens - period) periodic[i] = 1;
+      }
+    }
+  }
+  return periodic;
+}
+
+const sameTokens = (tokens: Int32Array, a: number, b: number, length: number) => {
+  for (let i = 0; i < length; i++) if (tokens[a + i] !== tokens[b + i]) return false;
+  return true;
+};
+
+// Two copies of the same code: token ranges [aStart, aEnd] and [bStart, bEnd], inclusive
+interface Clone {
+  aStart: number;
+  aEnd: number;
+  bStart: number;
+  bEnd: number;
+  type: 1 | 2 | 3;
+}
+
+/**
+ * Pairs of windows of `minTokens` normalized tokens that are equal, extended into maximal
+ * clones. Windows are bucketed by a rolling hash, and each window is paired with the first
+ * copy of it, so code copied many times yields a clone per copy rather than one per pair.
+ */
+function findClones(stream: TokenStream, minTokens: number): Clone[] {
+  const { normalized, fileOf } = stream;
+  const windows: number[] = [];
+  const hashes = new Int32Array(normalized.length);
+  const periodic = periodicWindows(stream, minTokens);
+  let highest = 1;
+  for (let i = 1; i < minTokens; i++) highest = Math.imul(highest, HASH_BASE);
+
+  for (const file of stream.files) {
+    let hash = 0;
+    for (let i = file.start; i < file.end; i++) {
+      if (i - file.start >= minTokens) hash = (hash - Math.imul(normalized[i - minTokens], highest)) | 0;
+      hash = (Math.imul(hash, HASH_BASE) + normalized[i]) | 0;
+      if (i - file.start >= minTokens - 1) {
+        const start = i - minTokens + 1;
+        hashes[start] = hash;
+        if (!periodic[start]) windows.push(start);
+      }
+    }
+  }
+  windows.sort((a, b) => hashes[a] - hashes[b] || a - b);
+
+  // Matching window starts, by the distance between the copies
+  const matches = new Map<number, number[]>();
+  for (let i = 0; i < windows.length; ) {
+    let j = i + 1;
+    while (j < windows.length && hashes[windows[j]] === hashes[windows[i]]) j++;
+    const first = windows[i];
+    for (let k = i + 1; k < j; k++) {
+      const other = windows[k];
+      // Copies within a file must not overlap
+      if (fileOf[other] === fileOf[first] && other - first < minTokens) continue;
+      if (!sameTokens(normalized, first, other, minTokens)) continue;
+      const distance = other - first;
+      if (!matches.has(distance)) matches.set(distance, []);
+      matches.get(distance)!.push(first);
+    }
+    i = j;
+  }
+
+  const clones: Clone[] = [];
+  for (const [distance, starts] of matches) {
+    starts.sort((a, b) => a - b);
+    for (let i = 0; i < starts.length; ) {
+      let j = i;
+      while (j + 1 < starts.length && starts[j + 1] === starts[j] + 1 && fileOf[starts[j + 1]] === fileOf[starts[i]]) j++;
+      const aStart = starts[i];
+      // Overlapping copies of a repeating pattern are cut where the second one begins
+      const aEnd = Math.min(starts[j] + minTokens - 1, aStart + distance - 1);
+      const length = aEnd - aStart + 1;
+      const bStart = aStart + distance;
+      clones.push({ aStart, aEnd, bStart, bEnd: bStart + length - 1, type: sameTokens(stream.raw, aStart, bStart, length) ? 1 : 2 });
+      i = j + 1;
+    }
+  }
+  return clones;
+}
+
+/**
+ * Joins clones of the same two files that follow each other with at most `maxGap` tokens in
+ * between on either side: code copied and then edited in a few places.
+ */
+function joinGappedClones(stream: TokenStream, clones: Clone[], maxGap: number): Clone[] {
+  const byFiles = new Map<string, Clone[]>();
+  for (const clone of clones) {
+    const key = `${stream.fileOf[clone.aStart]}:${stream.fileOf[clone.bStart]}`;
+    if (!byFiles.has(key)) byFiles.set(key, []);
+    byFiles.get(key)!.push(clone);
+  }
+
+  const joined: Clone[] = [];
+  for (const group of byFiles.values()) {
+    group.sort((a, b) => a.aStart - b.aStart || a.bStart - b.bStart);
+    const sameFile = stream.fileOf[group[0].aStart] === stream.fileOf[group[0].bStart];
+    const open: Clone[] = [];
+    for (const clone of group) {
+      const previous = open.find(candidate => {
+        const aGap = clone.aStart - candidate.aEnd - 1;
+        const bGap = clone.bStart - candidate.bEnd - 1;
+        // Within a file the joined copies must still not overlap
+        return aGap >= 0 && bGap >= 0 && aGap <= maxGap && bGap <= maxGap && (!sameFile || clone.aEnd < candidate.bStart);
+      });
+      if (previous) {
+        previous.aEnd = clone.aEnd;
+        previous.bEnd = clone.bEnd;
+        previous.type = 3;
+      } else {
+        const copy = { ...clone };
+        open.push(copy);
+        joined.push(copy);
+      }
+    }
+  }
+  return joined;
+}
+
+// Clones sharing a fragment, transitively
+function groupClones(clones: Clone[]): Array<{ fragments: Array<[number, number]>; type: 1 | 2 | 3 }> {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    for (let node = key; node !== root; ) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+  const add = (key: string) => {
+    if (!parent.has(key)) parent.set(key, key);
+  };
+
+  for (const clone of clones) {
+    const a = `${clone.aStart}:${clone.aEnd}`;
+    const b = `${clone.bStart}:${clone.bEnd}`;
+    add(a);
+    add(b);
+    parent.set(find(a), find(b));
+  }
+
+  const groups = new Map<string, { fragments: Array<[number, number]>; type: 1 | 2 | 3 }>();
+  for (const key of parent.keys()) {
+    const root = find(key);
+    if (!groups.has(root)) groups.set(root, { fragments: [], type: 1 });
+    const [start, end] = key.split(':').map(Number);
+    groups.get(root)!.fragments.push([start, end]);
+  }
+  // Copies found from different starting windows may overlap; they are one fragment
+  for (const group of groups.values()) {
+    group.fragments.sort((a, b) => a[0] - b[0]);
+    group.fragments = group.fragments.reduce<Array<[number, number]>>((merged, fragment) => {
+      const last = merged[merged.length - 1];
+      if (last && fragment[0] <= last[1]) last[1] = Math.max(last[1], fragment[1]);
+      else merged.push(fragment);
+      return merged;
+    }, []);
+  }
+  for (const clone of clones) {
+    const group = groups.get(find(`${clone.aStart}:${clone.aEnd}`))!;
+    group.type = Math.max(group.type, clone.type) as 1 | 2 | 3;
+  }
+  return [...groups.values()];
+}
+
+// Total lines covered by a set of inclusive line ranges
+function coveredLines(ranges: Array<[number, number]>): number {
+  ranges.sort((a, b) => a[0] - b[0]);
+  let covered = 0;
+  let reached = 0;
+  for (const [start, end] of ranges) {
+    if (end <= reached) continue;
+    covered += end - Math.max(start, reached + 1) + 1;
+    reached = end;
+  }
+  return covered;
+}
+
+/**
+ * Clone classes across the source files, with the lines each file shares with code
+ * elsewhere. Files in languages the tokenizer does not know are skipped.
+ */
+export function detectClones(files: Array<Pick<FileInfo, 'path' | 'content'>>, config: CloneDetectionConfig): DuplicationReport {
+  const stream = tokenStream(files, config);
+  let clones = findClones(stream, config.minTokens);
+  if (config.gapped) clones = joinGappedClones(stream, clones, config.maxGapTokens);
+
+  const fragmentOf = (start: number, end: number) => {
+    const file = stream.files[stream.fileOf[start]];
+    return { file, startLine: stream.line[start], endLine: stream.endLine[end], tokens: end - start + 1 };
+  };
+  const groups = groupClones(clones).filter(group => group.fragments.length > 1).map(group => {
+    const fragments = group.fragments.map(([start, end]) => ({ start, ...fragmentOf(start, end) }));
+    const lines = Math.max(...fragments.map(fragment => fragment.endLine - fragment.startLine + 1));
+    return { type: group.type, fragments, lines, tokens: Math.max(...fragments.map(fragment => fragment.tokens)) };
+  });
+
+  const ranges = new Map<string, Array<[number, number]>>();
+  for (const group of groups) {
+    for (const fragment of group.fragments) {
+      if (!ranges.has(fragment.file.path)) ranges.set(fragment.file.path, []);
+      ranges.get(fragment.file.path)!.push([fragment.startLine, fragment.endLine]);
+    }
+  }
+  const fileDuplication: FileDuplication[] = stream.files
+    .filter(file => ranges.has(file.path))
+    .map(file => ({ file: file.path, duplicatedLines: coveredLines(ranges.get(file.path)!), totalLines: file.lines.length }))
+    .sort((a, b) => b.duplicatedLines - a.duplicatedLines || a.file.localeCompare(b.file));
+
+  // Largest classes by the lines that removing the copies would save
+  groups.sort((a, b) => (b.fragments.length - 1) * b.lines - (a.fragments.length - 1) * a.lines || a.fragments[0].start - b.fragments[0].start);
+  const classes: CloneClass[] = groups.slice(0, MAX_CLASSES).map((group, index) => ({
+    id: `clone-${index + 1}`,
+    type: group.type,
+    tokens: group.tokens,
+    lines: group.lines,
+    fragments: group.fragments.map(({ file, startLine, endLine }): CloneFragment => ({
+      file: file.path,
+      startLine,
+      endLine,
+      content: file.lines.slice(startLine - 1, Math.min(endLine, startLine - 1 + MAX_FRAGMENT_LINES)).join('\n'),
+    })),
+  }));
+
+  return {
+    config,
+    classes,
+    files: fileDuplication,
+    duplicatedLines: fileDuplication.reduce((sum, file) => sum + file.duplicatedLines, 0),
+    totalLines: stream.files.reduce((sum, file) => sum + file.lines.length, 0),
+  };
+}
+
+const CLONE_TYPES: Record<CloneClass['type'], string> = {
+  1: 'identical copies',
+  2: 'copies with renamed identifiers or changed literals',
+  3: 'copies with edits',
+};
+
+// A technical debt item per clone class, at its first fragment
+export function cloneDebt(report: DuplicationReport): TechnicalDebt[] {
+  return report.classes.map(clone => {
+    const [first, ...others] = clone.fragments;
+    const severity = clone.lines >= 50 ? 'high' : clone.lines >= 20 ? 'medium' : 'low';
+    return {
+      type: 'duplication',
+      rule: `clone-type-${clone.type}`,
+      severity,
+      file: first.file,
+      line: first.startLine,
+      description: `${clone.lines} lines duplicated in ${clone.fragments.length} places (${CLONE_TYPES[clone.type]}).`,
+      effort: severity,
+      impact: clone.fragments.length > 2 ? 'high' : 'medium',
+      recommendation: `Extract the shared code into a function or module. Other locations: ${others.map(fragment => `${fragment.file}:${fragment.startLine}-${fragment.endLine}`).join(', ')}`,
+    };
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * File-level quality measures computed from a parsed source file: Halstead's measures, the
+ * classic maintainability index, cognitive complexity, nesting depth and how long the file's
+ * functions are.
+ */
+
+import { FileMetrics, FunctionInfo, FunctionLengthBucket, FunctionLengthDistribution, HalsteadMetrics } from '../types';
+import { analyzeJavaScript } from './javascriptSyntax';
+import { getLanguageFromExtension } from './repositoryFiles';
+import { analyzeSource, hasSyntaxTreeGrammar, SourceAnalysis } from './syntaxTree';
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+export function halsteadMetrics(operators: string[], operands: string[]): HalsteadMetrics {
+  const distinctOperators = new Set(operators).size;
+  const distinctOperands = new Set(operands).size;
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = operators.length + operands.length;
+  const volume = vocabulary > 1 ? length * Math.log2(vocabulary) : 0;
+  const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (operands.length / distinctOperands) : 0;
+  const effort = difficulty * volume;
+  return {
+    distinctOperators,
+    distinctOperands,
+    totalOperators: operators.length,
+    totalOperands: operands.length,
+    vocabulary,
+    length,
+    volume: round(volume),
+    difficulty: round(difficulty),
+    effort: round(effort),
+    // Halstead's estimates: eighteen elementary mental discriminations a second, and a bug
+    // for every three thousand bits of volume
+    time: round(effort / 18),
+    bugs: round(volume / 3000, 3),
+  };
+}
+
+/**
+ * The classic maintainability index, 171 - 5.2 ln(V) - 0.23 G - 16.2 ln(LOC), rescaled to
+ * 0-100 as Visual Studio reports it. Empty files, with no volume or lines, score 100.
+ */
+export function maintainabilityIndex(volume: number, complexity: number, sourceLines: number): number {
+  const index = 171 - 5.2 * Math.log(Math.max(volume, 1)) - 0.23 * complexity - 16.2 * Math.log(Math.max(sourceLines, 1));
+  return Math.round(Math.min(100, Math.max(0, (index * 100) / 171)));
+}
+
+const LENGTH_BUCKETS: Array<[FunctionLengthBucket, number]> = [['1-10', 10], ['11-25', 25], ['26-50', 50], ['51-100', 100], ['101+', Infinity]];
+
+export function functionLengthDistribution(functions: FunctionInfo[]): FunctionLengthDistribution {
+  const buckets = Object.fromEntries(LENGTH_BUCKETS.map(([bucket]) => [bucket, 0])) as Record<FunctionLengthBucket, number>;
+  const measured = functions.map(fn => ({ fn, lines: fn.sloc ?? fn.endLine - fn.startLine + 1 }));
+  for (const { lines } of measured) {
+    buckets[LENGTH_BUCKETS.find(([, max]) => lines <= max)![0]]++;
+  }
+
+  const lengths = measured.map(({ lines }) => lines).sort((a, b) => a - b);
+  const middle = Math.floor(lengths.length / 2);
+  const median = lengths.length === 0 ? 0 : lengths.length % 2 ? lengths[middle] : (lengths[middle - 1] + lengths[middle]) / 2;
+  const longest = measured.reduce<(typeof measured)[number] | undefined>((best, item) => (!best || item.lines > best.lines ? item : best), undefined);
+  return {
+    count: lengths.length,
+    mean: lengths.length ? round(lengths.reduce((sum, lines) => sum + lines, 0) / lengths.length, 1) : 0,
+    median,
+    max: lengths[lengths.length - 1] ?? 0,
+    buckets,
+    ...(longest ? { longest: { name: longest.fn.name, startLine: longest.fn.startLine, lines: longest.lines } } : {}),
+  };
+}
+
+export function measureCode(analysis: SourceAnalysis, content: string): FileMetrics {
+  const halstead = halsteadMetrics(analysis.operators, analysis.operands);
+  return {
+    complexity: analysis.complexity,
+    maintainability: maintainabilityIndex(halstead.volume, analysis.complexity, analysis.sourceLines),
+    linesOfCode: content.split('\n').length,
+    sourceLinesOfCode: analysis.sourceLines,
+    cognitiveComplexity: analysis.cognitiveComplexity,
+    maxNestingDepth: analysis.maxNestingDepth,
+    halstead,
+    functions: functionLengthDistribution(analysis.functions),
+  };
+}
+
+// Parses a file with the analyzer for its language, if there is one
+export async function analyzeCode(filePath: string, content: string): Promise<SourceAnalysis | undefined> {
+  const language = getLanguageFromExtension(filePath);
+  if (language === 'javascript' || language === 'typescript') return analyzeJavaScript(content);
+  if (hasSyntaxTreeGrammar(language)) return analyzeSource(content, language);
+  return undefined;
+}
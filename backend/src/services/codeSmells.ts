@@ -0,0 +1,316 @@
+/**
+ * Code smell rules run over syntax trees. Rules about functions and classes (long parameter
+ * lists, deep nesting, long functions, god classes) read the functions every supported
+ * language's analyzer finds; rules about TypeScript and JavaScript constructs (`any`,
+ * `@ts-ignore`, magic numbers, `console.log`) walk the Babel tree. Each rule can be enabled,
+ * disabled or retuned for the whole server and again by a repository's `.code-smells.json`.
+ */
+
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { CodeSmellConfig, CodeSmellRule, FileInfo, FunctionInfo, TechnicalDebt } from '../types';
+import { globPattern } from './deadCode';
+import { readJavaScript, walkSyntaxTree } from './javascriptSyntax';
+import { getLanguageFromExtension, isCodeSmellConfig, isSourceFile } from './repositoryFiles';
+import { analyzeSource, hasSyntaxTreeGrammar } from './syntaxTree';
+
+export const CODE_SMELL_RULE_IDS = [
+  'explicit-any', 'ts-ignore', 'console-log', 'magic-number',
+  'long-parameter-list', 'long-function', 'deep-nesting', 'god-class',
+] as const;
+
+export type CodeSmellRuleId = (typeof CODE_SMELL_RULE_IDS)[number];
+
+interface Finding {
+  line: number;
+  description: string;
+}
+
+interface JavaScriptFile {
+  program: any;
+  comments: any[];
+  isTest: boolean;
+}
+
+interface RuleDefinition {
+  type: TechnicalDebt['type'];
+  severity: CodeSmellRule['severity'];
+  effort: CodeSmellRule['effort'];
+  threshold?: number;
+  recommendation: string;
+  // Findings among the functions of a file in any language with an analyzer
+  functions?: (functions: FunctionInfo[], threshold: number) => Finding[];
+  // Findings in the syntax tree of a JavaScript or TypeScript file
+  syntax?: (file: JavaScriptFile) => Finding[];
+}
+
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)(__tests__|__mocks__|tests?|e2e|cypress)\/)/;
+// Numbers too common to need a name
+const ALLOWED_NUMBERS = new Set([-1, 0, 1, 2]);
+
+// The line of every node a predicate picks
+const nodesWhere = (program: any, predicate: (node: any, ancestors: any[]) => boolean, describe: (node: any) => string): Finding[] => {
+  const findings: Finding[] = [];
+  walkSyntaxTree(program, (node, ancestors) => {
+    if (predicate(node, ancestors)) findings.push({ line: node.loc?.start.line ?? 0, description: describe(node) });
+  });
+  return findings;
+};
+
+/**
+ * Whether a number literal says what it means without a name: a constant's, enum member's,
+ * property's or parameter default's value, a type, or an array index.
+ */
+function isNamedNumber(node: any, ancestors: any[]): boolean {
+  let child = node;
+  let index = ancestors.length - 1;
+  if (ancestors[index]?.type === 'UnaryExpression' && ancestors[index].operator === '-') {
+    child = ancestors[index];
+    index--;
+  }
+  const parent = ancestors[index];
+  switch (parent?.type) {
+    case 'VariableDeclarator':
+      return ancestors[index - 1]?.kind === 'const' && parent.init === child;
+    case 'TSEnumMember':
+    case 'TSLiteralType':
+      return true;
+    case 'AssignmentPattern':
+      return parent.right === child;
+    case 'ObjectProperty':
+    case 'ClassProperty':
+      return parent.value === child;
+    case 'MemberExpression':
+    case 'OptionalMemberExpression':
+      return parent.computed && parent.property === child;
+    default:
+      return false;
+  }
+}
+
+const numberValue = (node: any, ancestors: any[]) => {
+  const parent = ancestors[ancestors.length - 1];
+  return parent?.type === 'UnaryExpression' && parent.operator === '-' ? -node.value : node.value;
+};
+
+const RULES: Record<CodeSmellRuleId, RuleDefinition> = {
+  'explicit-any': {
+    type: 'smell',
+    severity: 'medium',
+    effort: 'medium',
+    recommendation: 'Give the value a real type, or `unknown` narrowed where it is used.',
+    syntax: ({ program }) => nodesWhere(
+      program,
+      node => node.type === 'TSAnyKeyword',
+      () => 'Explicit `any` turns off type checking for this value.',
+    ),
+  },
+  'ts-ignore': {
+    type: 'smell',
+    severity: 'medium',
+    effort: 'medium',
+    recommendation: 'Fix the type error, or use `@ts-expect-error` with a reason so the comment goes once the error does.',
+    syntax: ({ comments }) => comments
+      .filter(comment => /^[\s*]*@ts-(ignore|nocheck)\b/.test(comment.value))
+      .map(comment => ({
+        line: comment.loc.start.line,
+        description: `\`${/@ts-(ignore|nocheck)/.exec(comment.value)![0]}\` hides type errors.`,
+      })),
+  },
+  'console-log': {
+    type: 'smell',
+    severity: 'low',
+    effort: 'low',
+    recommendation: 'Remove debugging output or route it through a logger.',
+    syntax: ({ program, isTest }) => (isTest ? [] : nodesWhere(
+      program,
+      node => node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && !node.callee.computed
+        && node.callee.object.type === 'Identifier' && node.callee.object.name === 'console' && node.callee.property.name === 'log',
+      () => '`console.log` left in the code.',
+    )),
+  },
+  'magic-number': {
+    type: 'smell',
+    severity: 'low',
+    effort: 'low',
+    recommendation: 'Name the number with a constant that says what it stands for.',
+    // Test data is full of numbers that are only examples
+    syntax: ({ program, isTest }) => (isTest ? [] : nodesWhere(
+      program,
+      (node, ancestors) => node.type === 'NumericLiteral' && !ALLOWED_NUMBERS.has(numberValue(node, ancestors)) && !isNamedNumber(node, ancestors),
+      node => `Magic number ${node.extra?.raw ?? node.value}.`,
+    )),
+  },
+  'long-parameter-list': {
+    type: 'smell',
+    severity: 'medium',
+    effort: 'medium',
+    threshold: 5,
+    recommendation: 'Group related parameters into an options object or a type of their own.',
+    functions: (functions, threshold) => functions
+      .map(fn => ({ fn, count: (fn.parameters ?? []).filter(parameter => parameter.name !== 'this').length }))
+      .filter(({ count }) => count > threshold)
+      .map(({ fn, count }) => ({ line: fn.startLine, description: `${fn.name} takes ${count} parameters (limit ${threshold}).` })),
+  },
+  'long-function': {
+    type: 'complexity',
+    severity: 'medium',
+    effort: 'high',
+    threshold: 60,
+    recommendation: 'Split the function into steps with names of their own.',
+    functions: (functions, threshold) => functions
+      .filter(fn => (fn.sloc ?? fn.endLine - fn.startLine + 1) > threshold)
+      .map(fn => ({ line: fn.startLine, description: `${fn.name} has ${fn.sloc ?? fn.endLine - fn.startLine + 1} lines of code (limit ${threshold}).` })),
+  },
+  'deep-nesting': {
+    type: 'complexity',
+    severity: 'medium',
+    effort: 'medium',
+    threshold: 4,
+    recommendation: 'Return early, or move nested blocks into functions of their own.',
+    functions: (functions, threshold) => functions
+      .filter(fn => (fn.nestingDepth ?? 0) > threshold)
+      .map(fn => ({ line: fn.startLine, description: `${fn.name} nests control flow ${fn.nestingDepth} levels deep (limit ${threshold}).` })),
+  },
+  'god-class': {
+    type: 'complexity',
+    severity: 'high',
+    effort: 'high',
+    threshold: 20,
+    recommendation: 'Split the class along the responsibilities its methods serve.',
+    functions: (functions, threshold) => {
+      // Methods are named after the class they belong to, as Cart.total
+      const classes = new Map<string, FunctionInfo[]>();
+      for (const fn of functions) {
+        const dot = fn.name.lastIndexOf('.');
+        if (dot < 0) continue;
+        const owner = fn.name.slice(0, dot);
+        if (!classes.has(owner)) classes.set(owner, []);
+        classes.get(owner)!.push(fn);
+      }
+      return [...classes]
+        .filter(([, methods]) => methods.length > threshold)
+        .map(([owner, methods]) => ({
+          line: Math.min(...methods.map(method => method.startLine)),
+          description: `${owner} has ${methods.length} methods (limit ${threshold}).`,
+        }));
+    },
+  },
+};
+
+const RuleOverrideSchema = z.object({
+  id: z.enum(CODE_SMELL_RULE_IDS),
+  enabled: z.boolean().optional(),
+  severity: z.enum(['low', 'medium', 'high']).optional(),
+  effort: z.enum(['low', 'medium', 'high']).optional(),
+  threshold: z.number().int().positive().optional(),
+});
+
+const CodeSmellConfigSchema = z.object({
+  // Changes to the built-in rules, by rule id; rules left out keep their defaults
+  rules: z.array(RuleOverrideSchema).default([]),
+  // Files never checked, as glob patterns
+  ignoreFiles: z.array(z.string()).default([]),
+});
+
+/**
+ * The built-in rules with each configuration's changes applied in turn, so later ones win.
+ * Unknown rule ids are rejected rather than ignored, so a misspelt rule does not silently
+ * stay on.
+ */
+export function codeSmellConfig(...configs: unknown[]): CodeSmellConfig {
+  const parsed = configs.map(config => CodeSmellConfigSchema.parse(config));
+  const rules = parsed.flatMap(config => config.rules);
+  const ignoreFiles = parsed.flatMap(config => config.ignoreFiles);
+  return {
+    rules: CODE_SMELL_RULE_IDS.map(id => {
+      const { severity, effort, threshold } = RULES[id];
+      const rule: CodeSmellRule = { id, enabled: true, severity, effort, ...(threshold !== undefined ? { threshold } : {}) };
+      for (const override of rules.filter(candidate => candidate.id === id)) {
+        Object.assign(rule, Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined)));
+      }
+      return rule;
+    }),
+    ignoreFiles,
+  };
+}
+
+export const DEFAULT_CODE_SMELL_CONFIG: CodeSmellConfig = codeSmellConfig({});
+
+/**
+ * The code smell rules: the built-in defaults, changed by the JSON file at
+ * CODE_SMELL_RULES_PATH when one is configured and then by the `.code-smells.json` the
+ * repository checks in, which has the same shape.
+ */
+export async function loadCodeSmellConfig(files: Array<Pick<FileInfo, 'path' | 'content'>> = []): Promise<CodeSmellConfig> {
+  const file = process.env.CODE_SMELL_RULES_PATH;
+  const configs: unknown[] = file ? [JSON.parse(await fs.readFile(file, 'utf8'))] : [];
+  const checkedIn = files.find(candidate => isCodeSmellConfig(candidate.path))?.content;
+  if (checkedIn) configs.push(JSON.parse(checkedIn));
+  return configs.length === 0 ? DEFAULT_CODE_SMELL_CONFIG : codeSmellConfig(...configs);
+}
+
+const isRuleId = (id: string): id is CodeSmellRuleId => (CODE_SMELL_RULE_IDS as readonly string[]).includes(id);
+
+/**
+ * Runs the enabled rules over the source files. Files in languages without an analyzer are
+ * skipped, as are those a rule needs a Babel tree for when they are not JavaScript or
+ * TypeScript.
+ */
+export async function findCodeSmells(
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  config: CodeSmellConfig,
+  onError?: (file: string, error: unknown) => void,
+): Promise<TechnicalDebt[]> {
+  const rules = config.rules.filter(rule => rule.enabled && isRuleId(rule.id));
+  if (rules.length === 0) return [];
+  const ignored = config.ignoreFiles.map(globPattern);
+  const debt: TechnicalDebt[] = [];
+
+  for (const file of files) {
+    if (!file.content || !isSourceFile(file.path) || ignored.some(pattern => pattern.test(file.path))) continue;
+    const language = getLanguageFromExtension(file.path);
+    let functions: FunctionInfo[];
+    let syntax: JavaScriptFile | undefined;
+    try {
+      if (language === 'javascript' || language === 'typescript') {
+        const module = readJavaScript(file.content);
+        functions = module.analysis.functions;
+        syntax = { program: module.program, comments: module.comments, isTest: TEST_FILE.test(file.path) };
+      } else if (hasSyntaxTreeGrammar(language)) {
+        functions = (await analyzeSource(file.content, language)).functions;
+      } else {
+        continue;
+      }
+    } catch (e) {
+      onError?.(file.path, e);
+      continue;
+    }
+
+    for (const rule of rules) {
+      const definition = RULES[rule.id as CodeSmellRuleId];
+      const findings = [
+        ...(definition.functions ? definition.functions(functions, rule.threshold ?? definition.threshold ?? 0) : []),
+        ...(definition.syntax && syntax ? definition.syntax(syntax) : []),
+      ];
+      // Several hits on one line are one finding
+      const lines = new Set<number>();
+      for (const finding of findings) {
+        if (lines.has(finding.line)) continue;
+        lines.add(finding.line);
+        debt.push({
+          type: definition.type,
+          rule: rule.id,
+          severity: rule.severity,
+          file: file.path,
+          line: finding.line,
+          description: finding.description,
+          effort: rule.effort,
+          impact: rule.severity,
+          recommendation: definition.recommendation,
+        });
+      }
+    }
+  }
+  return debt;
+}
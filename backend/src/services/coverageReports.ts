@@ -0,0 +1,296 @@
+/**
+ * Test coverage read from the reports a test run leaves behind: lcov tracefiles, Istanbul's
+ * coverage-final.json, and Cobertura and JaCoCo XML. Reports name files by the path they had
+ * on the machine that ran the tests, so each is matched to a repository path before the
+ * lines and branch outcomes of all reports are merged per file.
+ */
+
+import path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { CoverageCount, CoverageFormat, CoverageReport, FileCoverage } from '../types';
+
+interface ReportFile {
+  path: string;
+  content: string;
+}
+
+// Hits per executable line, and whether each branch outcome was taken
+interface FileHits {
+  lines: Map<number, number>;
+  branches: Map<string, boolean>;
+  // Formats number branch outcomes differently, so a file's branches come from one format
+  branchFormat?: CoverageFormat;
+}
+
+// A file as a report names it: the paths it may stand for, most specific first
+interface CoveredFile {
+  candidates: string[];
+  hits: FileHits;
+}
+
+// Directories test runners write reports to; the project they cover starts above them
+const OUTPUT_DIRECTORIES = new Set(['coverage', 'build', 'target', 'out', 'reports']);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: name => ['source', 'package', 'class', 'line', 'group', 'sourcefile'].includes(name),
+});
+
+function emptyHits(): FileHits {
+  return { lines: new Map(), branches: new Map() };
+}
+
+function recordLine(hits: FileHits, line: number, count: number): void {
+  if (!Number.isInteger(line) || line < 1 || !Number.isFinite(count)) return;
+  hits.lines.set(line, Math.max(hits.lines.get(line) ?? 0, count));
+}
+
+function recordBranch(hits: FileHits, key: string, taken: boolean): void {
+  hits.branches.set(key, taken || hits.branches.get(key) === true);
+}
+
+// Branch outcomes of a line known only by count, as Cobertura and JaCoCo give them
+function recordLineBranches(hits: FileHits, line: number, covered: number, total: number): void {
+  for (let i = 0; i < total; i++) recordBranch(hits, `${line}:${i}`, i < covered);
+}
+
+function normalizePath(filePath: string): string {
+  const normalized = path.posix.normalize(filePath.trim().replace(/^file:\/\//, '').replace(/\\/g, '/'));
+  return normalized.replace(/^\.\//, '');
+}
+
+/**
+ * lcov tracefiles, written by Istanbul/nyc, c8, gcov's lcov, coverage.py and most other
+ * tools: an `SF:` record per file with `DA:line,hits` and `BRDA:line,block,branch,taken` lines.
+ */
+function parseLcov(content: string): CoveredFile[] {
+  const files: CoveredFile[] = [];
+  let current: FileHits | undefined;
+  for (const line of content.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    const tag = colon < 0 ? line.trim() : line.slice(0, colon);
+    const fields = colon < 0 ? [] : line.slice(colon + 1).split(',');
+    if (tag === 'SF') {
+      current = emptyHits();
+      files.push({ candidates: [line.slice(colon + 1)], hits: current });
+    } else if (tag === 'end_of_record') {
+      current = undefined;
+    } else if (current && tag === 'DA') {
+      recordLine(current, Number(fields[0]), Number(fields[1]));
+    } else if (current && tag === 'BRDA') {
+      const [lineNumber, block, branch, taken] = fields;
+      recordBranch(current, `${lineNumber}:${block}:${branch}`, taken !== '-' && Number(taken) > 0);
+    }
+  }
+  return files;
+}
+
+/**
+ * Istanbul's coverage-final.json: statement and branch maps per file with hit counts. A
+ * line counts the hits of the statements starting on it, as Istanbul's own line summary does.
+ */
+function parseIstanbul(content: string): CoveredFile[] {
+  const report = JSON.parse(content);
+  if (!report || typeof report !== 'object') throw new Error('Expected an object of files');
+  return Object.entries<any>(report).map(([key, file]) => {
+    const hits = emptyHits();
+    for (const [id, statement] of Object.entries<any>(file?.statementMap ?? {})) {
+      recordLine(hits, Number(statement?.start?.line), Number(file.s?.[id] ?? 0));
+    }
+    for (const [id, counts] of Object.entries<any>(file?.b ?? {})) {
+      if (Array.isArray(counts)) counts.forEach((count, i) => recordBranch(hits, `${id}:${i}`, Number(count) > 0));
+    }
+    return { candidates: [typeof file?.path === 'string' ? file.path : key], hits };
+  });
+}
+
+/**
+ * Cobertura XML, written by coverage.py, gcovr, Coverlet and Istanbul's cobertura reporter:
+ * classes name a file relative to one of the report's `<source>` directories, and lines carry
+ * hits and, for branching lines, a condition coverage such as "50% (1/2)".
+ */
+function parseCobertura(coverage: any): CoveredFile[] {
+  const sources: string[] = (coverage.sources?.source ?? []).filter((source: unknown) => typeof source === 'string');
+  const files: CoveredFile[] = [];
+  for (const pkg of coverage.packages?.package ?? []) {
+    for (const cls of pkg?.classes?.class ?? []) {
+      if (typeof cls?.filename !== 'string') continue;
+      const hits = emptyHits();
+      for (const line of cls.lines?.line ?? []) {
+        const lineNumber = Number(line.number);
+        recordLine(hits, lineNumber, Number(line.hits));
+        const condition = /\((\d+)\/(\d+)\)/.exec(line['condition-coverage'] ?? '');
+        if (line.branch === 'true' && condition) recordLineBranches(hits, lineNumber, Number(condition[1]), Number(condition[2]));
+      }
+      files.push({ candidates: [...sources.map(source => path.posix.join(normalizePath(source), cls.filename)), cls.filename], hits });
+    }
+  }
+  return files;
+}
+
+/**
+ * JaCoCo XML: source files grouped by package (and, for multi-module builds, by group), with
+ * missed and covered instructions (`mi`/`ci`) and branches (`mb`/`cb`) per line.
+ */
+function parseJacoco(report: any): CoveredFile[] {
+  const files: CoveredFile[] = [];
+  const visit = (node: any) => {
+    for (const group of node?.group ?? []) visit(group);
+    for (const pkg of node?.package ?? []) {
+      for (const sourceFile of pkg?.sourcefile ?? []) {
+        if (typeof sourceFile?.name !== 'string') continue;
+        const hits = emptyHits();
+        for (const line of sourceFile.line ?? []) {
+          const lineNumber = Number(line.nr);
+          const [missed, covered] = [Number(line.mi ?? 0), Number(line.ci ?? 0)];
+          if (missed + covered > 0) recordLine(hits, lineNumber, covered);
+          const [missedBranches, coveredBranches] = [Number(line.mb ?? 0), Number(line.cb ?? 0)];
+          recordLineBranches(hits, lineNumber, coveredBranches, missedBranches + coveredBranches);
+        }
+        const packagePath = typeof pkg.name === 'string' && pkg.name ? `${pkg.name}/` : '';
+        files.push({ candidates: [`${packagePath}${sourceFile.name}`], hits });
+      }
+    }
+  };
+  visit(report);
+  return files;
+}
+
+function parseReport(report: ReportFile): { format: CoverageFormat; files: CoveredFile[] } {
+  const fileName = path.posix.basename(report.path).toLowerCase();
+  if (fileName === 'lcov.info' || fileName.endsWith('.lcov')) return { format: 'lcov', files: parseLcov(report.content) };
+  if (fileName.endsWith('.json')) return { format: 'istanbul', files: parseIstanbul(report.content) };
+  const document = xmlParser.parse(report.content);
+  if (document?.coverage) return { format: 'cobertura', files: parseCobertura(document.coverage) };
+  if (document?.report) return { format: 'jacoco', files: parseJacoco(document.report) };
+  throw new Error('Not a Cobertura or JaCoCo report');
+}
+
+/**
+ * Finds the repository path a report's file name stands for. Names relative to the project
+ * the report covers resolve directly; absolute names from the machine that ran the tests, and
+ * JaCoCo's package-relative names, match the repository path sharing the most trailing
+ * segments with them. A name that matches two paths equally well is left unmatched.
+ */
+function createPathMatcher(repositoryPaths: string[]) {
+  const known = new Set(repositoryPaths);
+  const byName = new Map<string, string[]>();
+  for (const repositoryPath of repositoryPaths) {
+    const name = path.posix.basename(repositoryPath);
+    byName.set(name, [...(byName.get(name) ?? []), repositoryPath]);
+  }
+
+  return (candidates: string[], projectRoot: string): string | undefined => {
+    const names = candidates.map(normalizePath);
+    for (const name of names) {
+      if (!name.startsWith('/') && known.has(path.posix.join(projectRoot, name))) return path.posix.join(projectRoot, name);
+      if (known.has(name)) return name;
+    }
+
+    let best: { path: string; score: number; inProject: boolean }[] = [];
+    for (const name of names) {
+      const segments = name.split('/');
+      for (const repositoryPath of byName.get(segments[segments.length - 1]) ?? []) {
+        const repositorySegments = repositoryPath.split('/');
+        const shorter = Math.min(segments.length, repositorySegments.length);
+        let common = 0;
+        while (common < shorter && segments[segments.length - 1 - common] === repositorySegments[repositorySegments.length - 1 - common]) common++;
+        // One has to be a suffix of the other; sharing only a file name is not enough
+        if (common < shorter) continue;
+        const match = { path: repositoryPath, score: common, inProject: projectRoot === '.' || repositoryPath.startsWith(`${projectRoot}/`) };
+        const rank = (m: typeof match) => m.score * 2 + (m.inProject ? 1 : 0);
+        if (best.length === 0 || rank(match) > rank(best[0])) best = [match];
+        else if (rank(match) === rank(best[0]) && !best.some(m => m.path === match.path)) best.push(match);
+      }
+    }
+    return best.length === 1 ? best[0].path : undefined;
+  };
+}
+
+// The directory of the project a report covers: above the coverage/, build/ or target/ it sits in
+function projectRootOf(reportPath: string): string {
+  const segments = path.posix.dirname(normalizePath(reportPath)).split('/');
+  const output = segments.findIndex(segment => OUTPUT_DIRECTORIES.has(segment));
+  const root = (output < 0 ? segments : segments.slice(0, output)).join('/');
+  return root === '' ? '.' : root;
+}
+
+function count(values: Iterable<boolean>): CoverageCount {
+  let covered = 0;
+  let total = 0;
+  for (const value of values) {
+    total++;
+    if (value) covered++;
+  }
+  return { covered, total };
+}
+
+function addCount(sum: CoverageCount, part: CoverageCount): CoverageCount {
+  return { covered: sum.covered + part.covered, total: sum.total + part.total };
+}
+
+/**
+ * The share of a count that is covered, as a percentage rounded to one decimal
+ */
+export function coveragePercentage(coverage: CoverageCount): number {
+  return coverage.total > 0 ? Math.round((coverage.covered / coverage.total) * 1000) / 10 : 0;
+}
+
+/**
+ * Reads and merges the coverage reports found in the repository. A line is covered when any
+ * report saw it run. Returns undefined when none of the reports could be read.
+ */
+export function readCoverageReports(
+  reports: ReportFile[],
+  repositoryPaths: string[],
+  onError?: (file: string, error: unknown) => void
+): CoverageReport | undefined {
+  const match = createPathMatcher(repositoryPaths);
+  const merged = new Map<string, FileHits>();
+  const unmatched = new Set<string>();
+  const read: CoverageReport['reports'] = [];
+
+  for (const report of reports) {
+    let parsed: ReturnType<typeof parseReport>;
+    try {
+      parsed = parseReport(report);
+    } catch (e) {
+      onError?.(report.path, e);
+      continue;
+    }
+    read.push({ path: report.path, format: parsed.format });
+    const projectRoot = projectRootOf(report.path);
+    for (const file of parsed.files) {
+      const repositoryPath = match(file.candidates, projectRoot);
+      if (!repositoryPath) {
+        unmatched.add(normalizePath(file.candidates[file.candidates.length - 1]));
+        continue;
+      }
+      const hits = merged.get(repositoryPath) ?? emptyHits();
+      file.hits.lines.forEach((lineHits, line) => recordLine(hits, line, lineHits));
+      if (file.hits.branches.size > 0 && (hits.branchFormat ?? parsed.format) === parsed.format) {
+        hits.branchFormat = parsed.format;
+        file.hits.branches.forEach((taken, key) => recordBranch(hits, key, taken));
+      }
+      merged.set(repositoryPath, hits);
+    }
+  }
+  if (read.length === 0) return undefined;
+
+  const files: Record<string, FileCoverage> = {};
+  let lines: CoverageCount = { covered: 0, total: 0 };
+  let branches: CoverageCount | undefined;
+  for (const [repositoryPath, hits] of [...merged].sort(([a], [b]) => a.localeCompare(b))) {
+    const fileCoverage: FileCoverage = { lines: count([...hits.lines.values()].map(lineHits => lineHits > 0)) };
+    if (hits.branches.size > 0) {
+      fileCoverage.branches = count(hits.branches.values());
+      branches = addCount(branches ?? { covered: 0, total: 0 }, fileCoverage.branches);
+    }
+    files[repositoryPath] = fileCoverage;
+    lines = addCount(lines, fileCoverage.lines);
+  }
+  return { reports: read, files, lines, ...(branches ? { branches } : {}), unmatchedFiles: unmatched.size };
+}
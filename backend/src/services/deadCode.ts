@@ -0,0 +1,390 @@
+/**
+ * Dead code in JavaScript and TypeScript: files no entry point reaches through imports,
+ * exports nothing imports, and packages listed in package.json `dependencies` that no file
+ * uses. Entry points are what package manifests, HTML pages, tool conventions and tests
+ * load, plus the patterns the dead-code configuration adds.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { DeadCodeConfig, FileInfo, TechnicalDebt } from '../types';
+import { ModuleExport, ModuleImport, parseJavaScript, readExports, readImports } from './javascriptSyntax';
+import { isRelativeSpecifier, JAVASCRIPT_EXTENSIONS, ModuleResolver, packageName, parseJsonc } from './moduleResolver';
+import { isSourceFile } from './repositoryFiles';
+
+const DeadCodeConfigSchema = z.object({
+  // Glob patterns of further entry points, relative to the repository root
+  entryPoints: z.array(z.string()).default([]),
+  // Whether tests are entry points; when they are not, code only tests use is reported
+  includeTests: z.boolean().default(true),
+  // Files never reported, as glob patterns
+  ignoreFiles: z.array(z.string()).default([]),
+  // Packages used without being imported, such as CLIs run from scripts under another name
+  ignoreDependencies: z.array(z.string()).default([]),
+});
+
+export const DEFAULT_DEAD_CODE_CONFIG: DeadCodeConfig = DeadCodeConfigSchema.parse({});
+
+/**
+ * The dead-code configuration: the defaults, overridden by the JSON file at
+ * DEAD_CODE_CONFIG_PATH when one is configured.
+ */
+export async function loadDeadCodeConfig(): Promise<DeadCodeConfig> {
+  const file = process.env.DEAD_CODE_CONFIG_PATH;
+  if (!file) return DEFAULT_DEAD_CODE_CONFIG;
+  return DeadCodeConfigSchema.parse(JSON.parse(await fs.readFile(file, 'utf8')));
+}
+
+/**
+ * A regular expression for a glob pattern: `**` matches any number of directories, `*` and
+ * `?` anything but a slash, and `{a,b}` either alternative.
+ */
+export function globPattern(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      pattern += '(?:.*/)?';
+      i += 2;
+    } else if (glob.startsWith('**', i)) {
+      pattern += '.*';
+      i += 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end < 0) {
+        pattern += '\\{';
+        continue;
+      }
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(part => part.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+// --- Entry points ---
+
+const TEST_FILE = /(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)(__tests__|__mocks__|tests?|e2e|cypress)\/)|((^|\/)(setupTests|[^/]+\.setup)\.[cm]?[jt]sx?$)/;
+const STORY_FILE = /\.stories\.[cm]?[jt]sx?$/;
+// Loaded by the tools they configure: vite.config.ts, jest.config.js, .eslintrc.cjs and the like
+const TOOL_CONFIG_FILE = /(^|\/)([^/]+\.config|\.[^/]+rc)\.[cm]?[jt]s$/;
+const DECLARATION_FILE = /\.d\.[cm]?ts$/;
+// Single-file components, whose script blocks are read for imports but which are not reported
+const COMPONENT_FILE = /\.(vue|svelte|astro)$/;
+// Next.js routes, loaded by the framework from the pages and app directories
+const NEXT_PAGE = /^(src\/)?pages\//;
+const NEXT_APP_FILE = /^(src\/)?app\/(.*\/)?(page|layout|template|loading|error|global-error|not-found|default|route|opengraph-image|twitter-image|icon|apple-icon|sitemap|robots|manifest)\.[cm]?[jt]sx?$/;
+const NEXT_ROOT_FILE = /^(src\/)?(middleware|instrumentation)\.[jt]s$/;
+const SCRIPT_SOURCE = /<script\b[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi;
+const SCRIPT_FILE = /\.[cm]?[jt]sx?$/;
+
+const isJavaScriptFile = (file: string) => JAVASCRIPT_EXTENSIONS.includes(path.posix.extname(file).toLowerCase());
+const inNodeModules = (file: string) => file.split('/').includes('node_modules');
+// A path relative to a package directory, which is '.' at the repository root
+const relativeTo = (directory: string, file: string) => (directory === '.' ? file : file.slice(directory.length + 1));
+const isInside = (directory: string, file: string) => directory === '.' || file.startsWith(`${directory}/`);
+
+interface PackageManifest {
+  file: string;
+  directory: string;
+  manifest: any;
+}
+
+// Every string in a package.json field such as `bin` or a conditional `exports` map
+function stringLeaves(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(stringLeaves);
+  if (value && typeof value === 'object') return Object.values(value).flatMap(stringLeaves);
+  return [];
+}
+
+function manifestEntryPoints(pkg: PackageManifest, files: string[], resolver: ModuleResolver): string[] {
+  const { directory, manifest } = pkg;
+  const entries: string[] = [];
+  const targets = [
+    ...['main', 'module', 'source', 'browser', 'bin', 'exports'].flatMap(field => stringLeaves(manifest[field])),
+    // Files scripts run directly, such as `tsx watch server.ts` or `node dist/cli.js`
+    ...stringLeaves(manifest.scripts).flatMap(script => script.split(/[\s;&|=]+/).filter(token => SCRIPT_FILE.test(token))),
+  ];
+  if (!['main', 'module', 'exports', 'bin'].some(field => manifest[field] !== undefined)) targets.push('./index');
+
+  for (const target of targets) {
+    if (target.includes('*')) {
+      // Subpath patterns of `exports` map every file they match
+      const pattern = globPattern(path.posix.normalize(target).replace(/\*/g, '**'));
+      entries.push(...files.filter(file => isInside(directory, file) && pattern.test(relativeTo(directory, file))));
+      continue;
+    }
+    const file = resolver.resolvePackageTarget(directory, target);
+    if (file) entries.push(file);
+  }
+  return entries;
+}
+
+// Scripts HTML pages load, as Vite's index.html loads /src/main.tsx
+function htmlEntryPoints(file: string, content: string, resolver: ModuleResolver): string[] {
+  const directory = path.posix.dirname(file);
+  const entries: string[] = [];
+  for (const [, source] of content.matchAll(SCRIPT_SOURCE)) {
+    if (/^([a-z]+:)?\/\//i.test(source)) continue;
+    // Root-relative sources are relative to the page, which is the root the dev server serves
+    const target = source.startsWith('/') ? `.${source}` : source;
+    const entry = resolver.resolvePackageTarget(directory, target.split(/[?#]/)[0]);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+const dependsOn = (manifest: any, name: string) =>
+  ['dependencies', 'devDependencies', 'peerDependencies'].some(field => manifest[field]?.[name] !== undefined);
+
+function conventionalEntryPoint(file: string, packages: PackageManifest[], config: DeadCodeConfig): boolean {
+  if (DECLARATION_FILE.test(file) || TOOL_CONFIG_FILE.test(file) || STORY_FILE.test(file)) return true;
+  if (config.includeTests && TEST_FILE.test(file)) return true;
+  return packages.some(({ directory, manifest }) => {
+    if (!isInside(directory, file) || !dependsOn(manifest, 'next')) return false;
+    const relative = relativeTo(directory, file);
+    return NEXT_PAGE.test(relative) || NEXT_APP_FILE.test(relative) || NEXT_ROOT_FILE.test(relative);
+  });
+}
+
+// --- Module graph ---
+
+interface ModuleInfo {
+  imports: Array<ModuleImport & { resolved?: string }>;
+  exports: ModuleExport[];
+}
+
+// The script blocks of a single-file component, with other lines blanked so line numbers hold
+function componentScript(content: string): string {
+  const script = content.split('\n').map(() => '');
+  const blocks = /(<script\b[^>]*>)([\s\S]*?)<\/script>|^---\n([\s\S]*?)\n---/gm;
+  for (const match of content.matchAll(blocks)) {
+    const body = match[2] ?? match[3];
+    const start = content.slice(0, match.index! + (match[1] ?? '---\n').length).split('\n').length - 1;
+    body.split('\n').forEach((line, i) => { script[start + i] = line; });
+  }
+  return script.join('\n');
+}
+
+function readModules(files: Array<Pick<FileInfo, 'path' | 'content'>>, resolver: ModuleResolver, onError?: (file: string, error: unknown) => void): Map<string, ModuleInfo> {
+  const modules = new Map<string, ModuleInfo>();
+  for (const file of files) {
+    if (file.content === undefined || inNodeModules(file.path)) continue;
+    const isComponent = COMPONENT_FILE.test(file.path);
+    if (!isJavaScriptFile(file.path) && !isComponent) continue;
+    try {
+      const program = parseJavaScript(isComponent ? componentScript(file.content) : file.content).program;
+      modules.set(file.path, {
+        imports: readImports(program).map(entry => ({ ...entry, resolved: resolver.resolve(entry.specifier, file.path) })),
+        exports: isComponent ? [] : readExports(program),
+      });
+    } catch (e) {
+      onError?.(file.path, e);
+    }
+  }
+  return modules;
+}
+
+/**
+ * Marks the exports other files use. A name used from a file that re-exports it is used in
+ * the file it comes from, and a namespace import or `require()` uses every export.
+ */
+class ExportUsage {
+  private readonly used = new Map<string, Set<string>>();
+  private readonly usesEverything = new Set<string>();
+  private readonly seen = new Set<string>();
+
+  constructor(private readonly modules: Map<string, ModuleInfo>) {}
+
+  use(file: string, name: string): void {
+    const key = `${file}\0${name}`;
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+    const module = this.modules.get(file);
+    if (!module) return;
+    if (name === '*') {
+      this.usesEverything.add(file);
+      for (const exported of module.exports) this.useExport(file, exported);
+      return;
+    }
+    const exported = module.exports.find(candidate => candidate.name === name);
+    if (exported) {
+      this.useExport(file, exported);
+      return;
+    }
+    // Not declared here, so it may come through `export * from`
+    for (const reexport of module.exports.filter(candidate => candidate.name === '*')) this.useExport(file, reexport, name);
+  }
+
+  isUsed(file: string, name: string): boolean {
+    return this.usesEverything.has(file) || !!this.used.get(file)?.has(name);
+  }
+
+  private useExport(file: string, exported: ModuleExport, name = exported.name): void {
+    if (exported.name !== '*') {
+      if (!this.used.has(file)) this.used.set(file, new Set());
+      this.used.get(file)!.add(exported.name);
+    }
+    if (!exported.source) return;
+    const source = this.modules.get(file)!.imports.find(entry => entry.reexport && entry.specifier === exported.source)?.resolved;
+    // `export *` passes the name on; `export { a as b }` and `export * as b` name what they take
+    if (source) this.use(source, exported.name === '*' ? name : exported.imported!);
+  }
+}
+
+// --- Unused dependencies ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The line a dependency is declared on in its manifest
+function declarationLine(content: string, name: string): number | undefined {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => /"dependencies"\s*:/.test(line));
+  const declaration = new RegExp(`^\\s*"${escapeRegExp(name)}"\\s*:`);
+  const index = lines.findIndex((line, i) => i > start && declaration.test(line));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+function unusedDependencies(
+  pkg: PackageManifest,
+  content: string,
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  modules: Map<string, ModuleInfo>,
+  config: DeadCodeConfig,
+): TechnicalDebt[] {
+  const declared = Object.keys(pkg.manifest.dependencies ?? {})
+    // Type packages are used by the compiler without being imported
+    .filter(name => !name.startsWith('@types/') && !config.ignoreDependencies.includes(name));
+  if (declared.length === 0) return [];
+
+  const imported = new Set<string>();
+  for (const [file, module] of modules) {
+    if (!isInside(pkg.directory, file)) continue;
+    for (const entry of module.imports) {
+      if (!isRelativeSpecifier(entry.specifier)) imported.add(packageName(entry.specifier.replace(/^npm:/, '')));
+    }
+  }
+  const scripts = stringLeaves(pkg.manifest.scripts).join('\n');
+  // Configuration, styles and pages name packages as strings: presets, plugins, @import
+  const otherFiles = files.filter(file => file.content && isInside(pkg.directory, file.path) && !inNodeModules(file.path)
+    && !modules.has(file.path) && !/(^|\/)(package\.json|package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/.test(file.path));
+
+  return declared
+    .filter(name => {
+      if (imported.has(name)) return false;
+      const word = new RegExp(`(^|[\\s"'\`/])${escapeRegExp(name)}($|[\\s"'\`/@])`, 'm');
+      if (word.test(scripts)) return false;
+      const quoted = new RegExp(`["'\`]${escapeRegExp(name)}(["'\`/]|$)`, 'm');
+      return !otherFiles.some(file => quoted.test(file.content!));
+    })
+    .map(name => ({
+      type: 'dead-code' as const,
+      rule: 'unused-dependency',
+      severity: 'medium' as const,
+      file: pkg.file,
+      line: declarationLine(content, name),
+      description: `The dependency ${name} is declared but never imported`,
+      effort: 'low',
+      impact: 'medium',
+      recommendation: `Remove ${name} from package.json, or add it to ignoreDependencies if it is used without an import.`,
+    }));
+}
+
+/**
+ * Finds unreferenced files, unused exports and unused dependencies. Without any entry point,
+ * as in a repository of loose scripts, only dependencies are checked, since every file would
+ * otherwise be reported.
+ */
+export function findDeadCode(
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  config: DeadCodeConfig,
+  onError?: (file: string, error: unknown) => void,
+): TechnicalDebt[] {
+  const resolver = new ModuleResolver(files);
+  const modules = readModules(files, resolver, onError);
+  const paths = files.map(file => file.path);
+  const packages: Array<PackageManifest & { content: string }> = files
+    // Manifests under test directories are fixtures
+    .filter(file => path.posix.basename(file.path) === 'package.json' && file.content && !inNodeModules(file.path) && !TEST_FILE.test(file.path))
+    .flatMap(file => {
+      const manifest = parseJsonc(file.content!);
+      return manifest && typeof manifest === 'object' ? [{ file: file.path, directory: path.posix.dirname(file.path), manifest, content: file.content! }] : [];
+    });
+
+  const configured = config.entryPoints.map(globPattern);
+  const ignored = config.ignoreFiles.map(globPattern);
+  const entryPoints = new Set<string>([
+    ...packages.flatMap(pkg => manifestEntryPoints(pkg, paths, resolver)),
+    ...files.filter(file => /\.html?$/i.test(file.path) && file.content && !inNodeModules(file.path))
+      .flatMap(file => htmlEntryPoints(file.path, file.content!, resolver)),
+    ...[...modules.keys()].filter(file => COMPONENT_FILE.test(file)
+      || conventionalEntryPoint(file, packages, config)
+      || configured.some(pattern => pattern.test(file))),
+  ]);
+
+  const debt: TechnicalDebt[] = packages.flatMap(pkg => unusedDependencies(pkg, pkg.content, files, modules, config));
+  if (![...entryPoints].some(file => modules.has(file) && !DECLARATION_FILE.test(file))) return debt;
+
+  // Files the entry points reach, and the exports they use on the way
+  const reachable = new Set<string>(entryPoints);
+  const usage = new ExportUsage(modules);
+  const queue = [...entryPoints];
+  for (const file of entryPoints) usage.use(file, '*');
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+    for (const entry of modules.get(file)?.imports ?? []) {
+      if (!entry.resolved) continue;
+      if (!entry.reexport) {
+        for (const name of entry.names === '*' ? ['*'] : entry.names) usage.use(entry.resolved, name);
+      }
+      if (!reachable.has(entry.resolved)) {
+        reachable.add(entry.resolved);
+        queue.push(entry.resolved);
+      }
+    }
+  }
+
+  // Tests are never reported themselves, only what no entry point but a test uses
+  const reportable = (file: string) => isJavaScriptFile(file) && isSourceFile(file) && !DECLARATION_FILE.test(file)
+    && !TEST_FILE.test(file) && !ignored.some(pattern => pattern.test(file));
+  for (const [file, module] of modules) {
+    if (!reportable(file)) continue;
+    if (!reachable.has(file)) {
+      debt.push({
+        type: 'dead-code',
+        rule: 'unused-file',
+        severity: 'medium',
+        file,
+        description: `${path.posix.basename(file)} is not imported from any entry point`,
+        effort: 'low',
+        impact: 'medium',
+        recommendation: 'Delete the file, or add it to the dead-code entry points if something loads it without an import.',
+      });
+      continue;
+    }
+    if (entryPoints.has(file)) continue;
+    for (const exported of module.exports) {
+      if (exported.name === '*' || usage.isUsed(file, exported.name)) continue;
+      debt.push({
+        type: 'dead-code',
+        rule: 'unused-export',
+        severity: 'low',
+        file,
+        line: exported.line,
+        description: `The export ${exported.name} is not imported by any other file`,
+        effort: 'low',
+        impact: 'low',
+        recommendation: 'Remove the export, and the declaration too if the file does not use it itself.',
+      });
+    }
+  }
+  return debt;
+}
@@ -0,0 +1,798 @@
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { parse as parseToml } from 'smol-toml';
+import { parse as parseYaml } from 'yaml';
+import { DependencyEcosystem, DependencyInfo, DependencyManifest, DependencyPackage } from '../types';
+import { isDependencyManifest } from './repositoryFiles';
+import { compareVersions, minSatisfyingVersion, parseVersion } from './semver';
+
+/**
+ * Reads the dependencies a repository declares (package.json, pyproject.toml, go.mod,
+ * Cargo.toml, pom.xml, build.gradle, requirements files) and the versions its lockfiles
+ * resolved them to, including the transitive packages only lockfiles list.
+ */
+
+export interface ManifestFile {
+  path: string;
+  content: string;
+}
+
+// A dependency as one manifest declares it
+interface Declaration {
+  name: string;
+  requirement?: string;
+  // Version the requirement allows no alternative to, e.g. "==2.31.0" or a go.mod entry
+  pinned?: string;
+  dev: boolean;
+  // go.mod lists indirect dependencies next to direct ones
+  transitive?: boolean;
+}
+
+interface LockedPackage {
+  name: string;
+  version: string;
+  dev: boolean;
+  // name@version of the locked packages it depends on
+  requires: string[];
+  integrity?: string; // Subresource Integrity string of the downloaded archive
+  license?: string;
+}
+
+// What a lockfile says was installed
+interface Lockfile {
+  packages: LockedPackage[];
+  // Installed version of a direct dependency of the project at `importer`, a path
+  // relative to the lockfile's directory ('' for the same directory)
+  resolve(importer: string, name: string, requirement?: string): string | undefined;
+}
+
+// Cross-manifest facts some manifests need to be read correctly
+interface ProjectContext {
+  // Keys (see localKey) of packages built from the repository itself, which resolve to
+  // local paths rather than registry releases
+  localPackages: Set<string>;
+  // Cargo `[workspace.dependencies]` tables by workspace directory
+  cargoWorkspaces: Map<string, Record<string, any>>;
+  // Maven `<dependencyManagement>` versions by groupId:artifactId
+  mavenManagedVersions: Map<string, string>;
+}
+
+type ManifestParser = (file: ManifestFile, context: ProjectContext) => Declaration[];
+
+const dirname = (filePath: string) => {
+  const dir = path.posix.dirname(filePath);
+  return dir === '.' ? '' : dir;
+};
+
+// Python package names compare case-insensitively with runs of -_. treated as one -
+const normalizePythonName = (name: string) => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+// Key of a package in ProjectContext.localPackages
+const localKey = (ecosystem: DependencyEcosystem, name: string) =>
+  `${ecosystem}:${ecosystem === 'PyPI' ? normalizePythonName(name) : name}`;
+
+const isSemVer = (version: unknown): version is string => typeof version === 'string' && parseVersion(version) !== null;
+
+// ---------------------------------------------------------------------------------------
+// npm
+
+// Ordered so that a package listed twice is recorded with its runtime role
+const NPM_DEPENDENCY_FIELDS: Array<[string, boolean]> = [
+  ['dependencies', false],
+  ['optionalDependencies', false],
+  ['devDependencies', true],
+];
+
+const parsePackageJson: ManifestParser = (file, context) => {
+  const manifest = JSON.parse(file.content);
+  const declarations: Declaration[] = [];
+  for (const [field, dev] of NPM_DEPENDENCY_FIELDS) {
+    for (const [name, requirement] of Object.entries<unknown>(manifest[field] ?? {})) {
+      if (typeof requirement !== 'string' || context.localPackages.has(localKey('npm', name))) continue;
+      // Workspace and local links are part of the repository
+      if (/^(workspace|file|link):/.test(requirement)) continue;
+      declarations.push({ name, requirement, pinned: isSemVer(requirement) ? requirement : undefined, dev });
+    }
+  }
+  return declarations;
+};
+
+function parsePackageLock(content: string): Lockfile {
+  const lock = JSON.parse(content);
+  const packages: LockedPackage[] = [];
+  const dependencyNames = (entry: any) =>
+    Object.keys({ ...entry.dependencies, ...entry.optionalDependencies, ...entry.peerDependencies });
+
+  if (lock.packages) {
+    // lockfileVersion 2 and 3 key every installed copy by its node_modules path, and a
+    // package finds its dependencies the way Node does: in the nearest node_modules above it
+    const locate = (from: string, name: string): any => {
+      for (let dir = from; ; dir = dir.includes('/node_modules/') ? dir.slice(0, dir.lastIndexOf('/node_modules/')) : '') {
+        const entry = lock.packages[`${dir ? `${dir}/` : ''}node_modules/${name}`];
+        if (entry) return entry.link ? undefined : entry;
+        if (!dir) return undefined;
+      }
+    };
+    for (const [key, entry] of Object.entries<any>(lock.packages)) {
+      const index = key.lastIndexOf('node_modules/');
+      if (index === -1 || entry.link || !isSemVer(entry.version)) continue;
+      packages.push({
+        name: entry.name ?? key.slice(index + 'node_modules/'.length),
+        version: entry.version,
+        dev: Boolean(entry.dev || entry.devOptional),
+        requires: dependencyNames(entry).flatMap(name => {
+          const dependency = locate(key, name);
+          return isSemVer(dependency?.version) ? [`${dependency.name ?? name}@${dependency.version}`] : [];
+        }),
+        integrity: integrityOf(entry.integrity),
+        license: typeof entry.license === 'string' ? entry.license : undefined,
+      });
+    }
+    return { packages, resolve: (importer, name) => locate(importer, name)?.version };
+  }
+
+  // lockfileVersion 1 nests dependencies that could not be hoisted, and lists what each
+  // package requires by range
+  const visit = (dependencies: Record<string, any> | undefined, ancestors: Array<Record<string, any>>) => {
+    const scopes = [dependencies ?? {}, ...ancestors];
+    for (const [name, entry] of Object.entries(dependencies ?? {})) {
+      const own = [entry.dependencies ?? {}, ...scopes];
+      if (isSemVer(entry.version)) {
+        packages.push({
+          name,
+          version: entry.version,
+          dev: Boolean(entry.dev),
+          requires: Object.keys(entry.requires ?? {}).flatMap(required => {
+            const version = own.find(scope => scope[required])?.[required].version;
+            return isSemVer(version) ? [`${required}@${version}`] : [];
+          }),
+          integrity: integrityOf(entry.integrity),
+        });
+      }
+      visit(entry.dependencies, scopes);
+    }
+  };
+  visit(lock.dependencies, []);
+  return { packages, resolve: (_importer, name) => lock.dependencies?.[name]?.version };
+}
+
+// The strongest hash of an integrity string, which may list several ("sha1-... sha512-...")
+function integrityOf(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const hashes = value.split(/\s+/).filter(hash => /^sha(1|256|384|512)-[A-Za-z0-9+/]+=*$/.test(hash));
+  return hashes.sort((a, b) => parseInt(b.slice(3), 10) - parseInt(a.slice(3), 10))[0];
+}
+
+// "@scope/name@^1.0.0" -> ["@scope/name", "^1.0.0"]
+function splitSpecifier(specifier: string): [string, string] {
+  const index = specifier.indexOf('@', 1);
+  return index === -1 ? [specifier, ''] : [specifier.slice(0, index), specifier.slice(index + 1)];
+}
+
+function parseYarnLock(content: string): Lockfile {
+  const versions = new Map<string, string>();
+  // Resolved once every entry is known, as entries refer to each other by range
+  const entries: Array<{ name: string; version: string; dependencies: Array<[string, string]>; integrity?: string }> = [];
+  const add = (specifiers: string[], version: string, dependencies: Array<[string, string]>, integrity?: string) => {
+    for (const specifier of specifiers) {
+      const [name, range] = splitSpecifier(specifier);
+      versions.set(`${name}@${range.replace(/^npm:/, '')}`, version);
+      entries.push({ name, version, dependencies, integrity });
+    }
+  };
+  const unquote = (value: string) => value.trim().replace(/^"|"$/g, '');
+
+  if (/^__metadata:/m.test(content)) {
+    // Yarn 2+ lockfiles are YAML
+    for (const [key, entry] of Object.entries<any>(parseYaml(content) ?? {})) {
+      if (key === '__metadata' || String(entry?.resolution).includes('@workspace:') || !isSemVer(entry?.version)) continue;
+      const dependencies = Object.entries<string>({ ...entry.dependencies, ...entry.optionalDependencies });
+      // No integrity: Berry's checksum covers its own zip archives, not the registry tarball
+      add(key.split(',').map(unquote), entry.version, dependencies);
+    }
+  } else {
+    // Yarn 1 uses its own format: unindented specifier lines, then indented fields
+    let current: { specifiers: string[]; version?: string; integrity?: string; dependencies: Array<[string, string]> } | null = null;
+    let inDependencies = false;
+    const flush = () => {
+      if (current?.version) add(current.specifiers, current.version, current.dependencies, current.integrity);
+    };
+    for (const line of content.split(/\r?\n/)) {
+      if (/^[^\s#].*:$/.test(line)) {
+        flush();
+        current = { specifiers: line.slice(0, -1).split(',').map(unquote), dependencies: [] };
+        continue;
+      }
+      if (!current) continue;
+      const field = /^ {2}(\w+):?(?: "?([^"\s]+)"?)?$/.exec(line);
+      if (field) {
+        inDependencies = field[1] === 'dependencies' || field[1] === 'optionalDependencies';
+        if (field[1] === 'version' && isSemVer(field[2])) current.version = field[2];
+        if (field[1] === 'integrity') current.integrity = integrityOf(field[2]);
+        continue;
+      }
+      const dependency = /^ {4}("?)([^"\s]+)\1:? "?([^"]+)"?$/.exec(line);
+      if (dependency && inDependencies) current.dependencies.push([dependency[2], dependency[3]]);
+    }
+    flush();
+  }
+
+  const packages = new Map<string, LockedPackage>();
+  for (const { name, version, dependencies, integrity } of entries) {
+    if (packages.has(`${name}@${version}`)) continue;
+    packages.set(`${name}@${version}`, {
+      name,
+      version,
+      dev: false,
+      requires: dependencies.flatMap(([dependency, range]) => {
+        const resolved = versions.get(`${dependency}@${String(range).replace(/^npm:/, '')}`);
+        return resolved ? [`${dependency}@${resolved}`] : [];
+      }),
+      integrity,
+    });
+  }
+  return {
+    packages: [...packages.values()],
+    resolve: (_importer, name, requirement) => (requirement !== undefined ? versions.get(`${name}@${requirement}`) : undefined),
+  };
+}
+
+function parsePnpmLock(content: string): Lockfile {
+  const lock = parseYaml(content) ?? {};
+  const lockVersion = parseFloat(String(lock.lockfileVersion));
+  // Peer dependency suffixes: "1.0.0_react@18.2.0" before v6, "1.0.0(react@18.2.0)" after.
+  // Only for versions, as package names may contain underscores
+  const stripPeers = (version: string) => version.split('(')[0].split('_')[0];
+  const parseKey = (key: string): [string, string] => {
+    const id = key.replace(/^\//, '').split('(')[0];
+    if (lockVersion >= 6) {
+      // "/@scope/name@1.0.0", without the leading slash from v9
+      return splitSpecifier(id);
+    }
+    // "/@scope/name/1.0.0"
+    const parts = id.split('/');
+    const nameParts = id.startsWith('@') ? 2 : 1;
+    return [parts.slice(0, nameParts).join('/'), stripPeers(parts.slice(nameParts).join('/'))];
+  };
+  const requiredVersions = (dependencies: Record<string, unknown> | undefined) =>
+    Object.entries(dependencies ?? {}).flatMap(([name, value]) => {
+      const version = stripPeers(String(typeof value === 'object' && value !== null ? (value as any).version : value));
+      return isSemVer(version) ? [`${name}@${version}`] : [];
+    });
+
+  // From v9, what each package requires moved to a separate snapshots section
+  const requires = new Map<string, string[]>();
+  for (const [key, entry] of Object.entries<any>({ ...lock.packages, ...lock.snapshots })) {
+    const [name, version] = parseKey(key);
+    const found = requires.get(`${name}@${version}`) ?? [];
+    found.push(...requiredVersions({ ...entry?.dependencies, ...entry?.optionalDependencies }));
+    requires.set(`${name}@${version}`, found);
+  }
+
+  const packages: LockedPackage[] = [];
+  for (const [key, entry] of Object.entries<any>(lock.packages ?? {})) {
+    const [name, version] = parseKey(key);
+    if (!isSemVer(version)) continue;
+    packages.push({
+      name,
+      version,
+      dev: entry?.dev === true,
+      requires: [...new Set(requires.get(`${name}@${version}`))],
+      integrity: integrityOf(entry?.resolution?.integrity),
+    });
+  }
+
+  // Before workspaces support the root project's dependencies sit at the top level
+  const importers: Record<string, any> = lock.importers ?? { '.': lock };
+  return {
+    packages,
+    resolve: (importer, name) => {
+      const project = importers[importer || '.'];
+      for (const [field] of NPM_DEPENDENCY_FIELDS) {
+        const entry = project?.[field]?.[name];
+        if (entry === undefined) continue;
+        const [resolved] = requiredVersions({ [name]: entry });
+        return resolved?.slice(name.length + 1);
+      }
+      return undefined;
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------------------
+// Python
+
+// PEP 508 requirement such as "requests[socks]>=2.28,<3; python_version >= '3.8'"
+function parsePep508(specifier: string, dev: boolean): Declaration | null {
+  const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/.exec(specifier.split(';')[0].trim());
+  if (!match) return null;
+  // Direct references ("name @ https://...") name no release
+  const requirement = match[2].startsWith('@') ? undefined : match[2].replace(/^\((.*)\)$/, '$1').trim() || undefined;
+  const pinned = requirement && /^===?\s*([^\s,*]+)$/.exec(requirement)?.[1];
+  return { name: match[1], requirement, pinned: pinned || undefined, dev };
+}
+
+const DEV_REQUIREMENTS = /(^|[-_./])(dev|test|tests|testing|lint|docs)([-_.]|$)/;
+
+const parseRequirements: ManifestParser = (file, context) => {
+  const dev = DEV_REQUIREMENTS.test(file.path.toLowerCase());
+  const declarations: Declaration[] = [];
+  for (const rawLine of file.content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').replace(/\s--hash[=\s]\S+/g, '').trim();
+    // Options such as -r, -e and --index-url
+    if (!line || line.startsWith('-')) continue;
+    const declaration = parsePep508(line, dev);
+    if (declaration && !context.localPackages.has(localKey('PyPI', declaration.name))) declarations.push(declaration);
+  }
+  return declarations;
+};
+
+// Poetry requirements are "^2.0", "2.0.1" (exact), "*" or tables with a version
+function poetryDeclaration(name: string, spec: unknown, dev: boolean): Declaration | null {
+  const table = typeof spec === 'object' && spec !== null ? spec as Record<string, any> : null;
+  const requirement = table ? table.version : spec;
+  if (typeof requirement !== 'string') {
+    // Path dependencies are part of the repository; git ones name no release
+    return table && table.git ? { name, dev } : null;
+  }
+  const pinned = /^(?:==)?\s*(\d[\w.!+-]*)$/.exec(requirement.trim())?.[1];
+  return { name, requirement, pinned, dev };
+}
+
+const parsePyproject: ManifestParser = (file, context) => {
+  const data = parseToml(file.content) as Record<string, any>;
+  const declarations: Declaration[] = [];
+  const addPep508 = (specifiers: unknown, dev: boolean) => {
+    if (!Array.isArray(specifiers)) return;
+    for (const specifier of specifiers) {
+      // dependency-groups may include other groups as tables
+      const declaration = typeof specifier === 'string' ? parsePep508(specifier, dev) : null;
+      if (declaration && !context.localPackages.has(localKey('PyPI', declaration.name))) declarations.push(declaration);
+    }
+  };
+  const addPoetry = (table: Record<string, unknown> | undefined, dev: boolean) => {
+    for (const [name, spec] of Object.entries(table ?? {})) {
+      if (name === 'python') continue;
+      const declaration = poetryDeclaration(name, spec, dev);
+      if (declaration) declarations.push(declaration);
+    }
+  };
+
+  addPep508(data.project?.dependencies, false);
+  for (const extra of Object.values(data.project?.['optional-dependencies'] ?? {})) addPep508(extra, false);
+  for (const group of Object.values(data['dependency-groups'] ?? {})) addPep508(group, true);
+
+  const poetry = data.tool?.poetry;
+  addPoetry(poetry?.dependencies, false);
+  addPoetry(poetry?.['dev-dependencies'], true);
+  for (const group of Object.values<any>(poetry?.group ?? {})) addPoetry(group?.dependencies, true);
+  return declarations;
+};
+
+function parsePoetryLock(content: string): Lockfile {
+  const data = parseToml(content) as Record<string, any>;
+  const entries: any[] = Array.isArray(data.package) ? data.package : [];
+  const locked = entries.filter(entry => typeof entry.name === 'string' && typeof entry.version === 'string');
+  const byName = new Map(locked.map(entry => [normalizePythonName(entry.name), entry]));
+  const packages = locked.map(entry => ({
+    name: entry.name as string,
+    version: entry.version as string,
+    // Poetry before 1.2 marks development packages with a category
+    dev: entry.category === 'dev',
+    requires: Object.keys(entry.dependencies ?? {}).flatMap(name => {
+      const dependency = byName.get(normalizePythonName(name));
+      return dependency ? [`${dependency.name}@${dependency.version}`] : [];
+    }),
+  }));
+  return { packages, resolve: (_importer, name) => byName.get(normalizePythonName(name))?.version };
+}
+
+// ---------------------------------------------------------------------------------------
+// Go
+
+const parseGoMod: ManifestParser = file => {
+  const declarations: Declaration[] = [];
+  let block: string | null = null;
+  for (const rawLine of file.content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const blockStart = /^(\w+)\s*\($/.exec(line);
+    if (blockStart) {
+      block = blockStart[1];
+      continue;
+    }
+    if (block && line === ')') {
+      block = null;
+      continue;
+    }
+    const requirement = block === 'require' ? line : /^require\s+(.+)$/.exec(line)?.[1];
+    const match = requirement && /^(\S+)\s+(v\S+)(.*)$/.exec(requirement);
+    if (!match) continue;
+    // Go's minimal version selection builds exactly the versions go.mod lists
+    declarations.push({ name: match[1], requirement: match[2], pinned: match[2], dev: false, transitive: /\/\/\s*indirect/.test(match[3]) });
+  }
+  return declarations;
+};
+
+// go.sum lists every module version the build graph considered; the highest one of each
+// module is the one selected. It does not record which module requires which.
+function parseGoSum(content: string): Lockfile {
+  const versions = new Map<string, string>();
+  for (const line of content.split(/\r?\n/)) {
+    const [module, version] = line.trim().split(/\s+/);
+    if (!module || !version || version.endsWith('/go.mod')) continue;
+    const known = versions.get(module);
+    if (!known || compareVersions(version, known) > 0) versions.set(module, version);
+  }
+  return {
+    packages: [...versions].map(([name, version]) => ({ name, version, dev: false, requires: [] })),
+    resolve: (_importer, name) => versions.get(name),
+  };
+}
+
+// ---------------------------------------------------------------------------------------
+// Rust
+
+const CARGO_DEPENDENCY_TABLES: Array<[string, boolean]> = [
+  ['dependencies', false],
+  ['build-dependencies', false],
+  ['dev-dependencies', true],
+];
+
+// The workspace a crate inherits dependency versions from: the nearest one above it
+function findAncestor<T>(byDirectory: Map<string, T>, filePath: string): [string, T] | undefined {
+  for (let dir = dirname(filePath); ; dir = dirname(dir)) {
+    const found = byDirectory.get(dir);
+    if (found !== undefined) return [dir, found];
+    if (!dir) return undefined;
+  }
+}
+
+const parseCargoToml: ManifestParser = (file, context) => {
+  const data = parseToml(file.content) as Record<string, any>;
+  const workspace = findAncestor(context.cargoWorkspaces, file.path)?.[1] ?? {};
+  const declarations: Declaration[] = [];
+  // Platform-specific dependencies live under [target.'cfg(...)'.dependencies]
+  for (const section of [data, ...Object.values<any>(data.target ?? {})]) {
+    for (const [table, dev] of CARGO_DEPENDENCY_TABLES) {
+      for (const [key, value] of Object.entries<any>(section?.[table] ?? {})) {
+        const spec = value?.workspace === true ? workspace[key] : value;
+        const details = typeof spec === 'object' && spec !== null ? spec : { version: spec };
+        const name: string = details.package ?? key;
+        if (details.path || context.localPackages.has(localKey('crates.io', name))) continue;
+        const requirement = typeof details.version === 'string' ? details.version : undefined;
+        const pinned = requirement && /^=\s*([^\s,]+)$/.exec(requirement)?.[1];
+        declarations.push({ name, requirement, pinned: pinned || undefined, dev });
+      }
+    }
+  }
+  return declarations;
+};
+
+function parseCargoLock(content: string): Lockfile {
+  const data = parseToml(content) as Record<string, any>;
+  const entries: any[] = (Array.isArray(data.package) ? data.package : [])
+    .filter((entry: any) => typeof entry.name === 'string' && typeof entry.version === 'string');
+  // Dependencies are listed as "name", or "name version" when several versions are locked
+  const requires = (entry: any): string[] => (Array.isArray(entry.dependencies) ? entry.dependencies : []).flatMap((dependency: string) => {
+    const [name, version] = dependency.split(' ');
+    const target = entries.find(e => e.name === name && (!version || e.version === version));
+    return target?.source ? [`${name}@${target.version}`] : [];
+  });
+  // Crates without a source are the workspace's own
+  const packages: LockedPackage[] = entries
+    .filter(entry => entry.source)
+    .map(entry => ({
+      name: entry.name,
+      version: entry.version,
+      dev: false,
+      requires: requires(entry),
+      // Registry crates carry the SHA-256 of their .crate file
+      integrity: /^[0-9a-f]{64}$/.test(entry.checksum) ? `sha256-${Buffer.from(entry.checksum, 'hex').toString('base64')}` : undefined,
+    }));
+  return {
+    packages,
+    resolve: (_importer, name, requirement) => {
+      const candidates = packages.filter(p => p.name === name).map(p => p.version).sort(compareVersions);
+      if (candidates.length <= 1 || !requirement) return candidates[0];
+      // Several semver-incompatible copies: the lowest one the requirement allows
+      const minimum = minSatisfyingVersion(requirement);
+      return candidates.find(version => !minimum || compareVersions(version, minimum) >= 0) ?? candidates[candidates.length - 1];
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------------------
+// Maven and Gradle
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  isArray: name => name === 'dependency',
+});
+
+interface PomDocument {
+  properties: Record<string, string>;
+  managed: any[];
+  dependencies: any[];
+  coordinates: { groupId?: string; artifactId?: string };
+}
+
+function readPom(content: string): PomDocument {
+  const project = xmlParser.parse(content)?.project ?? {};
+  const version = project.version ?? project.parent?.version;
+  const groupId = project.groupId ?? project.parent?.groupId;
+  return {
+    properties: {
+      ...(typeof project.properties === 'object' ? project.properties : {}),
+      ...(version ? { 'project.version': version, version } : {}),
+      ...(groupId ? { 'project.groupId': groupId } : {}),
+    },
+    managed: project.dependencyManagement?.dependencies?.dependency ?? [],
+    dependencies: project.dependencies?.dependency ?? [],
+    coordinates: { groupId, artifactId: project.artifactId },
+  };
+}
+
+// Substitutes ${property} references, following properties defined in terms of others
+function interpolate(value: unknown, properties: Record<string, string>): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  let result = value.trim();
+  for (let depth = 0; depth < 5 && result.includes('${'); depth++) {
+    result = result.replace(/\$\{([^}]+)\}/g, (reference, key) => (typeof properties[key] === 'string' ? properties[key] : reference));
+  }
+  return result;
+}
+
+// Plain versions are exact; "[1.0,2.0)" is a range and "${...}" is unresolved
+const pinnedJvmVersion = (version?: string) =>
+  version && /^[\w.-]+$/.test(version) && !/^latest\b/i.test(version) ? version : undefined;
+
+const parsePom: ManifestParser = (file, context) => {
+  const pom = readPom(file.content);
+  const declarations: Declaration[] = [];
+  for (const dependency of pom.dependencies) {
+    const groupId = interpolate(dependency.groupId, pom.properties);
+    const artifactId = interpolate(dependency.artifactId, pom.properties);
+    if (!groupId || !artifactId) continue;
+    const name = `${groupId}:${artifactId}`;
+    if (context.localPackages.has(localKey('Maven', name))) continue;
+    const requirement = interpolate(dependency.version, pom.properties) ?? context.mavenManagedVersions.get(name);
+    declarations.push({ name, requirement, pinned: pinnedJvmVersion(requirement), dev: dependency.scope === 'test' });
+  }
+  return declarations;
+};
+
+const GRADLE_CONFIGURATIONS = [
+  'implementation', 'api', 'compileOnly', 'runtimeOnly', 'compile', 'runtime',
+  'testImplementation', 'testCompileOnly', 'testRuntimeOnly', 'testCompile',
+  'androidTestImplementation', 'annotationProcessor', 'kapt', 'ksp', 'classpath',
+].join('|');
+
+// implementation 'g:a:v', implementation("g:a:v"), testImplementation group: 'g', name: 'a', version: 'v'
+const GRADLE_STRING_NOTATION = new RegExp(`\\b(${GRADLE_CONFIGURATIONS})\\s*\\(?\\s*['"]([^'"\\s:]+):([^'"\\s:]+)(?::([^'"\\s:@]+))?[^'"]*['"]`, 'g');
+const GRADLE_MAP_NOTATION = new RegExp(
+  `\\b(${GRADLE_CONFIGURATIONS})\\s*\\(?\\s*group\\s*[:=]\\s*['"]([^'"]+)['"]\\s*,\\s*name\\s*[:=]\\s*['"]([^'"]+)['"](?:\\s*,\\s*version\\s*[:=]\\s*['"]([^'"]+)['"])?`,
+  'g'
+);
+
+const parseGradle: ManifestParser = file => {
+  // Versions are often kept in variables: def x = '1.0', val x = "1.0", ext.x = '1.0'
+  const variables: Record<string, string> = {};
+  for (const match of file.content.matchAll(/(?:^|[\s.{])(\w+)\s*=\s*['"]([^'"$]+)['"]/gm)) variables[match[1]] = match[2];
+  const resolveVariables = (version?: string) =>
+    version?.replace(/\$\{?(?:\w+\.)*(\w+)\}?/g, (reference, name) => variables[name] ?? reference);
+
+  const declarations: Declaration[] = [];
+  for (const notation of [GRADLE_STRING_NOTATION, GRADLE_MAP_NOTATION]) {
+    for (const [, configuration, groupId, artifactId, version] of file.content.matchAll(notation)) {
+      const requirement = resolveVariables(version);
+      declarations.push({
+        name: `${groupId}:${artifactId}`,
+        requirement,
+        pinned: requirement?.includes('$') || requirement?.includes('+') ? undefined : pinnedJvmVersion(requirement),
+        dev: /^(test|androidTest)/.test(configuration) || configuration === 'classpath',
+      });
+    }
+  }
+  return declarations;
+};
+
+// ---------------------------------------------------------------------------------------
+
+const MANIFEST_PARSERS: Record<string, [DependencyEcosystem, ManifestParser]> = {
+  'package.json': ['npm', parsePackageJson],
+  'pyproject.toml': ['PyPI', parsePyproject],
+  'go.mod': ['Go', parseGoMod],
+  'Cargo.toml': ['crates.io', parseCargoToml],
+  'pom.xml': ['Maven', parsePom],
+  'build.gradle': ['Maven', parseGradle],
+  'build.gradle.kts': ['Maven', parseGradle],
+};
+
+// In order of preference when a directory has more than one
+const LOCKFILE_PARSERS: Record<string, [DependencyEcosystem, (content: string) => Lockfile]> = {
+  'npm-shrinkwrap.json': ['npm', parsePackageLock],
+  'package-lock.json': ['npm', parsePackageLock],
+  'pnpm-lock.yaml': ['npm', parsePnpmLock],
+  'yarn.lock': ['npm', parseYarnLock],
+  'poetry.lock': ['PyPI', parsePoetryLock],
+  'go.sum': ['Go', parseGoSum],
+  'Cargo.lock': ['crates.io', parseCargoLock],
+};
+
+function manifestParser(filePath: string): [DependencyEcosystem, ManifestParser] | undefined {
+  const fileName = path.posix.basename(filePath);
+  if (MANIFEST_PARSERS[fileName]) return MANIFEST_PARSERS[fileName];
+  return /\.txt$/i.test(fileName) ? ['PyPI', parseRequirements] : undefined;
+}
+
+// Names the repository's own packages publish under, and the tables other manifests
+// inherit from. Unreadable manifests are reported when they are parsed themselves.
+function collectProjectContext(files: ManifestFile[]): ProjectContext {
+  const context: ProjectContext = { localPackages: new Set(), cargoWorkspaces: new Map(), mavenManagedVersions: new Map() };
+  for (const file of files) {
+    try {
+      switch (path.posix.basename(file.path)) {
+        case 'package.json': {
+          const name = JSON.parse(file.content).name;
+          if (typeof name === 'string') context.localPackages.add(localKey('npm', name));
+          break;
+        }
+        case 'pyproject.toml': {
+          const data = parseToml(file.content) as Record<string, any>;
+          const name = data.project?.name ?? data.tool?.poetry?.name;
+          if (typeof name === 'string') context.localPackages.add(localKey('PyPI', name));
+          break;
+        }
+        case 'go.mod': {
+          const module = /^module\s+(\S+)/m.exec(file.content)?.[1];
+          if (module) context.localPackages.add(localKey('Go', module));
+          break;
+        }
+        case 'Cargo.toml': {
+          const data = parseToml(file.content) as Record<string, any>;
+          if (typeof data.package?.name === 'string') context.localPackages.add(localKey('crates.io', data.package.name));
+          if (data.workspace) context.cargoWorkspaces.set(dirname(file.path), data.workspace.dependencies ?? {});
+          break;
+        }
+        case 'pom.xml': {
+          const pom = readPom(file.content);
+          if (pom.coordinates.groupId && pom.coordinates.artifactId) {
+            context.localPackages.add(localKey('Maven', `${pom.coordinates.groupId}:${pom.coordinates.artifactId}`));
+          }
+          for (const dependency of pom.managed) {
+            const name = `${interpolate(dependency.groupId, pom.properties)}:${interpolate(dependency.artifactId, pom.properties)}`;
+            const version = interpolate(dependency.version, pom.properties);
+            if (version && dependency.scope !== 'import') context.mavenManagedVersions.set(name, version);
+          }
+          break;
+        }
+      }
+    } catch {
+      // Reported below
+    }
+  }
+  return context;
+}
+
+/**
+ * Parses every dependency manifest and lockfile among `files`. Direct dependencies come
+ * from manifests, resolved through the lockfile in the nearest enclosing directory; the
+ * other packages that lockfile lists are added as transitive dependencies. Files that
+ * cannot be parsed are passed to `onError` and skipped.
+ */
+export function parseDependencyManifests(
+  files: ManifestFile[],
+  onError: (filePath: string, error: unknown) => void = () => {}
+): DependencyInfo {
+  // Shallow paths first, so the root project's dependencies lead
+  const manifestFiles = files
+    .filter(f => isDependencyManifest(f.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path));
+  const context = collectProjectContext(manifestFiles);
+  const manifests: DependencyManifest[] = [];
+
+  const lockfiles = new Map<DependencyEcosystem, Map<string, { path: string; lockfile: Lockfile }>>();
+  for (const file of manifestFiles) {
+    const [ecosystem, parse] = LOCKFILE_PARSERS[path.posix.basename(file.path)] ?? [];
+    if (!ecosystem || !parse) continue;
+    try {
+      const lockfile = parse(file.content);
+      const byDirectory = lockfiles.get(ecosystem) ?? new Map();
+      const dir = dirname(file.path);
+      const existing = byDirectory.get(dir);
+      const order = Object.keys(LOCKFILE_PARSERS);
+      if (!existing || order.indexOf(path.posix.basename(file.path)) < order.indexOf(path.posix.basename(existing.path))) {
+        byDirectory.set(dir, { path: file.path, lockfile });
+      }
+      lockfiles.set(ecosystem, byDirectory);
+      manifests.push({ path: file.path, ecosystem, kind: 'lockfile' });
+    } catch (error) {
+      onError(file.path, error);
+    }
+  }
+
+  // Locked packages by name@version, per lockfile
+  const lockedIndex = new Map<Lockfile, Map<string, LockedPackage>>();
+  const findLocked = (lockfile: Lockfile, name: string, version: string) => {
+    if (!lockedIndex.has(lockfile)) {
+      lockedIndex.set(lockfile, new Map(lockfile.packages.map(locked => [`${locked.name}@${locked.version}`, locked])));
+    }
+    return lockedIndex.get(lockfile)!.get(`${name}@${version}`);
+  };
+
+  const packages: DependencyPackage[] = [];
+  const directKeys = new Set<string>();
+  // name@version of packages already recorded, per lockfile
+  const covered = new Map<string, Set<string>>();
+  for (const file of manifestFiles) {
+    const [ecosystem, parse] = manifestParser(file.path) ?? [];
+    if (!ecosystem || !parse) continue;
+    let declarations: Declaration[];
+    try {
+      declarations = parse(file, context);
+    } catch (error) {
+      onError(file.path, error);
+      continue;
+    }
+    manifests.push({ path: file.path, ecosystem, kind: 'manifest' });
+
+    const lock = lockfiles.get(ecosystem) && findAncestor(lockfiles.get(ecosystem)!, file.path);
+    const importer = lock ? path.posix.relative(lock[0], dirname(file.path)) : '';
+    for (const declaration of declarations) {
+      const key = `${file.path}\0${declaration.name}`;
+      if (directKeys.has(key)) continue;
+      directKeys.add(key);
+      const resolvedVersion = declaration.pinned ?? lock?.[1].lockfile.resolve(importer, declaration.name, declaration.requirement);
+      const locked = lock && resolvedVersion ? findLocked(lock[1].lockfile, declaration.name, resolvedVersion) : undefined;
+      packages.push({
+        name: declaration.name,
+        ecosystem,
+        manifestPath: file.path,
+        version: declaration.requirement,
+        resolvedVersion,
+        direct: !declaration.transitive,
+        dev: declaration.dev,
+        ...(locked?.requires.length ? { requires: locked.requires } : {}),
+        ...(locked?.integrity ? { integrity: locked.integrity } : {}),
+        ...(locked?.license ? { license: locked.license } : {}),
+      });
+      if (lock && resolvedVersion) {
+        const seen = covered.get(lock[1].path) ?? new Set();
+        seen.add(`${declaration.name}@${resolvedVersion}`);
+        covered.set(lock[1].path, seen);
+      }
+    }
+  }
+
+  for (const [ecosystem, byDirectory] of lockfiles) {
+    for (const { path: lockfilePath, lockfile } of byDirectory.values()) {
+      const seen = covered.get(lockfilePath) ?? new Set();
+      for (const locked of lockfile.packages) {
+        const key = `${locked.name}@${locked.version}`;
+        if (seen.has(key) || context.localPackages.has(localKey(ecosystem, locked.name))) continue;
+        seen.add(key);
+        packages.push({
+          name: locked.name,
+          ecosystem,
+          manifestPath: lockfilePath,
+          resolvedVersion: locked.version,
+          direct: false,
+          dev: locked.dev,
+          ...(locked.requires.length ? { requires: locked.requires } : {}),
+          ...(locked.integrity ? { integrity: locked.integrity } : {}),
+          ...(locked.license ? { license: locked.license } : {}),
+        });
+      }
+    }
+  }
+
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  for (const pkg of packages) {
+    if (!pkg.direct) continue;
+    const records = pkg.dev ? devDependencies : dependencies;
+    records[pkg.name] ??= pkg.version ?? pkg.resolvedVersion ?? '*';
+  }
+  return { dependencies, devDependencies, manifests, packages };
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import * as path from 'path';
+import { FileMetrics, KeyFunction, SecurityIssue, TechnicalDebt } from '../types';
+import { RedisCacheService } from './redisCacheService';
+import { isCredentialFile } from './repositoryFiles';
+
+/**
+ * The subset of RedisCacheService the cache needs, so it can run against any store with
+ * the same semantics.
+ */
+export type FileResultStore = Pick<RedisCacheService, 'get' | 'setRecord' | 'getRecords' | 'setRecords'>;
+
+/**
+ * Everything computed for one version of one file.
+ */
+export interface FileAnalysisResults {
+  metrics?: FileMetrics;
+  keyFunctions?: KeyFunction[];
+  /** Pattern-based security scan */
+  securityIssues?: SecurityIssue[];
+  /** Security scan including the LLM review, only reused while an LLM is configured */
+  llmSecurityIssues?: SecurityIssue[];
+  technicalDebt?: TechnicalDebt[];
+}
+
+export type FileFindingKind = 'keyFunctions' | 'securityIssues' | 'llmSecurityIssues' | 'technicalDebt';
+
+const FINDING_KINDS: FileFindingKind[] = ['keyFunctions', 'securityIssues', 'llmSecurityIssues', 'technicalDebt'];
+
+/**
+ * What is stored of a finding in a credential file: where it is and a fingerprint to tell it
+ * apart, but no description or snippet that could quote the credential.
+ */
+export interface RedactedFinding {
+  rule?: string;
+  line?: number;
+  fingerprint: string;
+}
+
+// Credential files keep their metrics but only redacted findings, which cannot be reused,
+// so such files are analyzed again on every run
+type StoredFileResults = FileAnalysisResults & { redacted?: Partial<Record<FileFindingKind, RedactedFinding[]>> };
+
+/**
+ * The files of the last complete analysis of a branch, which the next analysis of that
+ * branch starts from.
+ */
+export interface AnalysisSnapshot {
+  sha: string;
+  analyzedAt: string;
+  /** `blobHash` is set for every file whose content was read */
+  files: Array<{ path: string; size: number; blobHash?: string }>;
+}
+
+// Bump when an analyzer changes its output, or the files read for it, so results and
+// snapshots written by the old one are ignored
+const RESULTS_VERSION = 10;
+const CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+const snapshotKey = (repositoryUrl: string, branch: string) => `file_results:v${RESULTS_VERSION}:snapshot:${sha256(`${repositoryUrl}#${branch}`)}`;
+const contentKey = (blobHash: string) => `file_content:${blobHash}`;
+// A commit ID names the same patches on every host, so scans are shared between repositories
+const cleanCommitKey = (configKey: string, sha: string) => `secret_scan:v${RESULTS_VERSION}:${configKey}:${sha}`;
+// Analyzers pick parsers and rules by extension, so the same blob under another extension
+// gets results of its own
+const resultKey = (blobHash: string, filePath: string) =>
+  `file_results:v${RESULTS_VERSION}:${blobHash}${path.extname(filePath).toLowerCase()}`;
+
+/**
+ * Git's object ID for a blob with this content, so cache keys match `git hash-object`
+ * whichever host the file was read from.
+ */
+export function gitBlobHash(content: string): string {
+  const data = Buffer.from(content, 'utf8');
+  return crypto.createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
+
+/**
+ * Stores per-file analysis results keyed by blob hash, plus the file list of the last
+ * analysis of each branch, so a re-analysis only has to fetch and analyze what changed.
+ * File contents are stored apart from results so a full download does not read them back.
+ * The commits secret scanning found nothing in are kept too, so their patches are not
+ * requested again.
+ */
+export class FileResultCache {
+  private store: FileResultStore;
+
+  constructor(store: FileResultStore) {
+    this.store = store;
+  }
+
+  getSnapshot(repositoryUrl: string, branch: string): Promise<AnalysisSnapshot | null> {
+    return this.store.get<AnalysisSnapshot>(snapshotKey(repositoryUrl, branch));
+  }
+
+  saveSnapshot(repositoryUrl: string, branch: string, snapshot: AnalysisSnapshot): Promise<void> {
+    return this.store.setRecord(snapshotKey(repositoryUrl, branch), snapshot, CACHE_TTL_SECONDS);
+  }
+
+  async getContents(blobHashes: string[]): Promise<Map<string, string>> {
+    const unique = [...new Set(blobHashes)];
+    const values = await this.store.getRecords<string>(unique.map(contentKey));
+    const contents = new Map<string, string>();
+    unique.forEach((blobHash, index) => {
+      const value = values[index];
+      if (value !== null) contents.set(blobHash, value);
+    });
+    return contents;
+  }
+
+  async saveContents(contents: Map<string, string>): Promise<void> {
+    await this.store.setRecords([...contents].map(([blobHash, content]) => [contentKey(blobHash), content]), CACHE_TTL_SECONDS);
+  }
+
+  /**
+   * Results by file path. Findings are stored with the path the blob had when it was
+   * analyzed, so they are pointed at the path it has now.
+   */
+  async getResults(files: Array<{ path: string; blobHash: string }>): Promise<Map<string, FileAnalysisResults>> {
+    const values = await this.store.getRecords<StoredFileResults>(files.map(f => resultKey(f.blobHash, f.path)));
+    const results = new Map<string, FileAnalysisResults>();
+    files.forEach((file, index) => {
+      const stored = values[index];
+      if (!stored) return;
+      if (stored.redacted) {
+        results.set(file.path, { metrics: stored.metrics });
+        return;
+      }
+      for (const kind of FINDING_KINDS) {
+        const findings = stored[kind] as Array<{ file: string }> | undefined;
+        if (findings) {
+          (stored as Record<FileFindingKind, unknown>)[kind] = findings.map(finding => ({ ...finding, file: file.path }));
+        }
+      }
+      results.set(file.path, stored);
+    });
+    return results;
+  }
+
+  /**
+   * The commits of `shas` whose patches secret scanning found nothing in under the
+   * configuration `configKey` identifies.
+   */
+  async getCleanCommits(shas: string[], configKey: string): Promise<Set<string>> {
+    const values = await this.store.getRecords<boolean>(shas.map(sha => cleanCommitKey(configKey, sha)));
+    return new Set(shas.filter((_sha, index) => values[index] === true));
+  }
+
+  async saveCleanCommits(shas: string[], configKey: string): Promise<void> {
+    await this.store.setRecords(shas.map(sha => [cleanCommitKey(configKey, sha), true]), CACHE_TTL_SECONDS);
+  }
+
+  async saveResults(entries: Array<{ path: string; blobHash: string; results: FileAnalysisResults }>): Promise<void> {
+    await this.store.setRecords(
+      entries.map(e => [resultKey(e.blobHash, e.path), isCredentialFile(e.path) ? redactResults(e.results) : e.results]),
+      CACHE_TTL_SECONDS
+    );
+  }
+}
+
+function redactResults(results: FileAnalysisResults): StoredFileResults {
+  const redacted: Partial<Record<FileFindingKind, RedactedFinding[]>> = {};
+  for (const kind of FINDING_KINDS) {
+    const findings = results[kind] as Array<{ rule?: string; line?: number; secret?: { fingerprint: string } }> | undefined;
+    if (!findings) continue;
+    redacted[kind] = findings.map(finding => ({
+      rule: finding.rule,
+      line: finding.line,
+      fingerprint: finding.secret?.fingerprint ?? sha256(JSON.stringify(finding)).slice(0, 16),
+    }));
+  }
+  return { metrics: results.metrics, redacted };
+}
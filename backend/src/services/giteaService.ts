@@ -0,0 +1,334 @@
+import axios, { AxiosResponse } from 'axios';
+import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
+import { countPatchLines, extractRepositoryArchive, fetchFiles, splitUnifiedDiff } from './repositoryFiles';
+import {
+  ChangedFile, RepositoryLocation, RepositoryProvider, contributorsFromCommits, handleProviderError
+} from './repositoryProvider';
+
+// Raw Gitea/Forgejo REST v1 responses, limited to the fields we read
+interface RawGiteaRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  watchers_count: number;
+  created_at: string;
+  updated_at: string;
+  default_branch: string;
+  size: number; // KB
+  open_issues_count: number;
+  has_wiki: boolean;
+  licenses?: string[];
+}
+
+interface RawGiteaCommit {
+  sha: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string };
+  };
+  stats?: { additions: number; deletions: number; total: number };
+  files?: Array<{ filename: string; status: string }>;
+}
+
+interface RawGiteaTree {
+  tree: Array<{ path: string; type: string; sha: string }>;
+  truncated: boolean;
+}
+
+interface RawGiteaPullRequest {
+  id: number;
+  title: string;
+  user: { login: string } | null;
+  state: 'open' | 'closed';
+  merged: boolean;
+  created_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+// Gitea caps list endpoints at 50 items per page by default
+const PAGE_SIZE = 50;
+// Tree listings have their own, larger page size limit
+const TREE_PAGE_SIZE = 1000;
+
+/**
+ * RepositoryProvider for Gitea and Forgejo instances (REST API v1), including Codeberg.
+ */
+export class GiteaService implements RepositoryProvider {
+  readonly kind = 'gitea';
+  readonly owner: string;
+  readonly repo: string;
+  readonly webUrl: string;
+  private repoURL: string;
+  private token?: string;
+
+  constructor(location: RepositoryLocation, token?: string) {
+    this.owner = location.owner;
+    this.repo = location.repo;
+    this.webUrl = `${location.baseUrl}/${location.owner}/${location.repo}`;
+    this.repoURL = `${location.baseUrl}/api/v1/repos/${encodeURIComponent(location.owner)}/${encodeURIComponent(location.repo)}`;
+    this.token = token;
+  }
+
+  private getHeaders() {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `token ${this.token}`;
+    }
+    return headers;
+  }
+
+  private handleGiteaError(error: unknown, context: string): never {
+    handleProviderError('Gitea', error, context, `${this.owner}/${this.repo}`, !!this.token);
+  }
+
+  /**
+   * Follows Gitea's page-number pagination (x-hasmore header) until `limit` items.
+   */
+  private async getPaginated<T>(
+    url: string,
+    params: Record<string, string | number | boolean>,
+    limit: number,
+    onPage?: (fetched: number) => void,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    let items: T[] = [];
+    let page = 1;
+    let hasMore = true;
+    while (hasMore && items.length < limit) {
+      const response: AxiosResponse<T[]> = await axios.get(url, {
+        headers: this.getHeaders(),
+        params: { ...params, limit: PAGE_SIZE, page },
+        timeout: 15000,
+        signal,
+      });
+      items = items.concat(response.data);
+      onPage?.(items.length);
+      hasMore = response.headers['x-hasmore'] === 'true' && response.data.length > 0;
+      page++;
+    }
+    return items.slice(0, limit);
+  }
+
+  async getRepository(signal?: AbortSignal): Promise<Repository> {
+    try {
+      const [repoResponse, languagesResponse] = await Promise.all([
+        axios.get<RawGiteaRepository>(this.repoURL, { headers: this.getHeaders(), signal }),
+        axios.get<Record<string, number>>(`${this.repoURL}/languages`, { headers: this.getHeaders(), signal })
+          .catch(() => ({ data: {} as Record<string, number> })),
+      ]);
+
+      const data = repoResponse.data;
+      // Languages are reported in bytes
+      const language = Object.entries(languagesResponse.data).sort((a, b) => b[1] - a[1])[0]?.[0];
+      const spdxId = data.licenses?.[0];
+      return {
+        name: data.name,
+        fullName: data.full_name,
+        description: data.description || '',
+        language: language || 'Unknown',
+        stars: data.stars_count,
+        forks: data.forks_count,
+        watchers: data.watchers_count,
+        createdAt: data.created_at,
+        updatedAt: data.updated_at,
+        defaultBranch: data.default_branch,
+        size: data.size,
+        openIssues: data.open_issues_count,
+        hasWiki: data.has_wiki,
+        hasPages: false,
+        license: spdxId ? { name: spdxId, spdxId } : undefined
+      };
+    } catch (error) {
+      this.handleGiteaError(error, 'fetching repository information');
+    }
+  }
+
+  async getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{ repository: Repository; files: FileInfo[] }> {
+    console.log(`[GiteaService] Fetching repository data for ${this.owner}/${this.repo} using Archive download`);
+    const repository = await this.getRepository(signal);
+    const files = await this.downloadRepositoryArchive(branch || repository.defaultBranch, signal);
+    return { repository, files };
+  }
+
+  async downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      const response = await axios.get(`${this.repoURL}/archive/${encodeURIComponent(branch)}.zip`, {
+        headers: this.getHeaders(),
+        responseType: 'arraybuffer',
+        timeout: 120000,
+        maxContentLength: 100 * 1024 * 1024,
+        signal,
+      });
+      console.log(`[GiteaService] Downloaded ${(response.data.byteLength / 1024 / 1024).toFixed(2)}MB archive`);
+      return await extractRepositoryArchive(response.data, signal);
+    } catch (error) {
+      this.handleGiteaError(error, `downloading repository archive for ${branch}`);
+    }
+  }
+
+  async getCommits(
+    branchOrSha?: string,
+    limit: number = 2000,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]> {
+    try {
+      // stat/verification/files are expensive server-side and not needed for the list
+      const params: Record<string, string | boolean> = { stat: false, verification: false, files: false };
+      if (branchOrSha) params.sha = branchOrSha;
+      const rawCommits = await this.getPaginated<RawGiteaCommit>(
+        `${this.repoURL}/commits`, params, limit,
+        fetched => sendProgress?.(`Fetched ${fetched} commits...`, Math.round(100 * Math.min(1, fetched / limit))),
+        signal
+      );
+      return rawCommits.map(c => ({
+        sha: c.sha,
+        message: c.commit.message,
+        author: { ...c.commit.author },
+        date: c.commit.author.date,
+      }));
+    } catch (error) {
+      this.handleGiteaError(error, 'fetching commits');
+    }
+  }
+
+  async getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit> {
+    try {
+      const [commitResponse, diffResponse] = await Promise.all([
+        axios.get<RawGiteaCommit>(`${this.repoURL}/git/commits/${commitSha}`, {
+          headers: this.getHeaders(),
+          params: { stat: true, files: true },
+          signal,
+        }),
+        axios.get<string>(`${this.repoURL}/git/commits/${commitSha}.diff`, {
+          headers: this.getHeaders(),
+          responseType: 'text',
+          signal,
+        }),
+      ]);
+      const data = commitResponse.data;
+      const patches = splitUnifiedDiff(diffResponse.data);
+      return {
+        sha: data.sha,
+        message: data.commit.message,
+        author: { ...data.commit.author },
+        date: data.commit.author.date,
+        stats: data.stats,
+        files: (data.files || []).map(file => {
+          const patch = patches.get(file.filename);
+          const { additions, deletions } = patch ? countPatchLines(patch) : { additions: 0, deletions: 0 };
+          return {
+            filename: file.filename,
+            additions,
+            deletions,
+            changes: additions + deletions,
+            status: file.status,
+            patch,
+          };
+        }),
+      };
+    } catch (error) {
+      this.handleGiteaError(error, `fetching commit details for ${commitSha}`);
+    }
+  }
+
+  // Gitea has no contributors endpoint, so authors are aggregated from history
+  async getContributors(branch?: string, signal?: AbortSignal): Promise<Contributor[]> {
+    return contributorsFromCommits(await this.getCommits(branch, undefined, undefined, signal));
+  }
+
+  async resolveCommit(ref: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await axios.get<RawGiteaCommit[]>(`${this.repoURL}/commits`, {
+        headers: this.getHeaders(),
+        params: { sha: ref, limit: 1, stat: false, verification: false, files: false },
+        signal,
+      });
+      if (!response.data[0]) throw new Error(`no commits found for ${ref}`);
+      return response.data[0].sha;
+    } catch (error) {
+      this.handleGiteaError(error, `resolving ${ref}`);
+    }
+  }
+
+  /**
+   * Blob SHA of every file in a commit's tree, following the tree endpoint's pages.
+   */
+  private async getTreeBlobs(sha: string, signal?: AbortSignal): Promise<Map<string, string>> {
+    const blobs = new Map<string, string>();
+    let page = 1;
+    let truncated = true;
+    while (truncated) {
+      const response = await axios.get<RawGiteaTree>(`${this.repoURL}/git/trees/${sha}`, {
+        headers: this.getHeaders(),
+        params: { recursive: true, per_page: TREE_PAGE_SIZE, page },
+        timeout: 60000,
+        signal,
+      });
+      for (const entry of response.data.tree) {
+        if (entry.type === 'blob') blobs.set(entry.path, entry.sha);
+      }
+      truncated = response.data.truncated && response.data.tree.length > 0;
+      page++;
+    }
+    return blobs;
+  }
+
+  // Gitea's compare endpoint lists commits rather than files, so the two trees are diffed
+  // directly; renames show up as a removal plus an addition.
+  async compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    try {
+      const [base, head] = await Promise.all([this.getTreeBlobs(baseSha, signal), this.getTreeBlobs(headSha, signal)]);
+      const changes: ChangedFile[] = [];
+      for (const [filePath, blobSha] of head) {
+        const previous = base.get(filePath);
+        if (previous === undefined) changes.push({ path: filePath, status: 'added' });
+        else if (previous !== blobSha) changes.push({ path: filePath, status: 'modified' });
+      }
+      for (const filePath of base.keys()) {
+        if (!head.has(filePath)) changes.push({ path: filePath, status: 'removed' });
+      }
+      return changes;
+    } catch (error) {
+      this.handleGiteaError(error, `comparing ${baseSha}...${headSha}`);
+    }
+  }
+
+  async getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      return await fetchFiles(paths, async filePath => {
+        const response = await axios.get<ArrayBuffer>(
+          `${this.repoURL}/raw/${filePath.split('/').map(encodeURIComponent).join('/')}`,
+          { headers: this.getHeaders(), params: { ref }, responseType: 'arraybuffer', signal }
+        );
+        return Buffer.from(response.data);
+      }, signal);
+    } catch (error) {
+      this.handleGiteaError(error, `fetching files at ${ref}`);
+    }
+  }
+
+  async getPullRequests(signal?: AbortSignal): Promise<PullRequestData[]> {
+    try {
+      const pulls = await this.getPaginated<RawGiteaPullRequest>(
+        `${this.repoURL}/pulls`, { state: 'all', sort: 'recentupdate' }, 100, undefined, signal
+      );
+      return pulls.map(pr => ({
+        id: pr.id,
+        title: pr.title,
+        author: pr.user?.login || 'unknown',
+        state: pr.merged ? 'merged' : pr.state,
+        createdAt: pr.created_at,
+        closedAt: pr.closed_at,
+        mergedAt: pr.merged_at,
+      }));
+    } catch (error) {
+      // Same as GitHub: pull requests are optional and should not fail the analysis
+      console.warn(`Failed to fetch pull requests for ${this.owner}/${this.repo}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+}
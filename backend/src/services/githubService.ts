@@ -1,7 +1,7 @@
 import axios, { AxiosResponse } from 'axios';
 import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
-import JSZip from 'jszip';
-import * as path from 'path';
+import { extractRepositoryArchive, fetchFiles, isTextFile, isSourceFile } from './repositoryFiles';
+import { ChangedFile, RepositoryLocation, RepositoryProvider } from './repositoryProvider';
 
 // Define interfaces for raw GitHub API responses to type axios calls
 interface RawGitHubRepository {
@@ -58,6 +58,14 @@ interface RawGitHubSingleCommit extends RawGitHubCommitListItem { // For /repos/
   files?: GitHubFileResponse[];
 }
 
+interface RawGitHubComparison {
+  status: 'ahead' | 'behind' | 'identical' | 'diverged';
+  files?: Array<{ filename: string; status: string; previous_filename?: string }>;
+}
+
+// The compare endpoint lists at most this many files; longer lists are cut off
+const MAX_COMPARE_FILES = 300;
+
 // NEW: Interface for GitHub Pull Request API response
 interface RawGitHubPullRequest {
     id: number;
@@ -74,13 +82,15 @@ interface RawGitHubPullRequest {
 
 
 export class GitHubService {
-  private baseURL = 'https://api.github.com';
+  private baseURL: string;
   private token?: string;
   private owner: string = '';
   private repo: string = '';
 
-  constructor(token?: string) {
+  // GitHub Enterprise Server serves the same REST API under https://<host>/api/v3
+  constructor(token?: string, baseURL: string = 'https://api.github.com') {
     this.token = token;
+    this.baseURL = baseURL;
   }
 
   private getHeaders() {
@@ -98,6 +108,9 @@ export class GitHubService {
   }
 
   private handleGitHubError(error: unknown, context: string): never {
+    if (axios.isCancel(error)) {
+      throw new Error(`Cancelled while ${context} for ${this.owner}/${this.repo}.`);
+    }
     if (axios.isAxiosError(error)) {
       const status = error.response?.status;
       const message = error.response?.data?.message || error.message;
@@ -181,7 +194,7 @@ export class GitHubService {
    * Get repository data using the archive download method
    * No fallback to GraphQL API anymore - archive download only
    */
-  async getBatchedRepositoryData(owner: string, repo: string, branch?: string): Promise<{
+  async getBatchedRepositoryData(owner: string, repo: string, branch?: string, signal?: AbortSignal): Promise<{
     repository: Repository;
     files: FileInfo[];
   }> {
@@ -192,13 +205,13 @@ export class GitHubService {
     
     try {
       // Get repository metadata
-      const repository = await this.getRepository(owner, repo);
+      const repository = await this.getRepository(owner, repo, signal);
       const defaultBranch = branch || repository.defaultBranch;
       console.log(`[GitHubService] Using branch: ${defaultBranch} for archive download`);
       
       // Download and extract the archive
-      const files = await this.downloadRepositoryArchive(owner, repo, defaultBranch);
-      console.log(`[GitHubService] Archive download successful: ${files.length} total files, ${files.filter(f => this.isTextFile(f.path) && f.content).length} analyzable files`);
+      const files = await this.downloadRepositoryArchive(owner, repo, defaultBranch, signal);
+      console.log(`[GitHubService] Archive download successful: ${files.length} total files, ${files.filter(f => isTextFile(f.path) && f.content).length} analyzable files`);
       
       // Log language stats to debug language issues
       this.logLanguageStats(files);
@@ -210,12 +223,12 @@ export class GitHubService {
       throw error; // This will never be reached due to handleGitHubError, but TypeScript needs it
     }
   }
-  async getRepository(owner: string, repo: string): Promise<Repository> {
+  async getRepository(owner: string, repo: string, signal?: AbortSignal): Promise<Repository> {
     this.owner = owner; this.repo = repo;
     try {
       const response: AxiosResponse<RawGitHubRepository> = await axios.get(
         `${this.baseURL}/repos/${owner}/${repo}`,
-        { headers: this.getHeaders() }
+        { headers: this.getHeaders(), signal }
       );
 
       const data = response.data;
@@ -245,7 +258,7 @@ export class GitHubService {
     }
   }
 
-  async getContributors(owner: string, repo: string): Promise<Contributor[]> {
+  async getContributors(owner: string, repo: string, signal?: AbortSignal): Promise<Contributor[]> {
     this.owner = owner; this.repo = repo;
     let allContributors: Contributor[] = [];
     let url: string | undefined = `${this.baseURL}/repos/${owner}/${repo}/contributors?per_page=100`;
@@ -264,6 +277,7 @@ export class GitHubService {
       while (url && pagesFetched < MAX_CONTRIBUTORS_PAGES) {
         const response: AxiosResponse<RawGitHubContributor[]> = await axios.get(url, { 
           headers: this.getHeaders(),
+          signal,
         });
         
         const contributorsOnPage: Contributor[] = response.data.map((c) => ({ 
@@ -297,7 +311,8 @@ export class GitHubService {
     repo: string,
     branchOrSha?: string,
     limit: number = 2000,
-    sendProgress?: (step: string, progress: number) => void
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
   ): Promise<Commit[]> {
     this.owner = owner; this.repo = repo;
     let allCommits: Commit[] = [];
@@ -317,9 +332,10 @@ export class GitHubService {
       while (url && commitsFetched < limit) {
         const currentPerPage = Math.min(100, limit - commitsFetched);
         
-        const requestConfig: { headers: Record<string, string>, params?: any, timeout: number } = {
+        const requestConfig: { headers: Record<string, string>, params?: any, timeout: number, signal?: AbortSignal } = {
           headers: this.getHeaders(),
           timeout: 15000, // 15-second timeout for each request
+          signal,
         };
 
         if (isFirstRequest) {
@@ -363,7 +379,8 @@ export class GitHubService {
           }
           retryCount = 0; // Reset retries on success
         } catch (error) {
-          if (retryCount < maxRetries) {
+          // A cancelled request is not retried
+          if (retryCount < maxRetries && !axios.isCancel(error)) {
             retryCount++;
             const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff
             console.warn(`[GitHubService] Error fetching commits. Retrying in ${delay}ms...`);
@@ -380,12 +397,12 @@ export class GitHubService {
     }
   }
 
-  async getCommitDetails(owner: string, repo: string, commitSha: string): Promise<Commit> {
+  async getCommitDetails(owner: string, repo: string, commitSha: string, signal?: AbortSignal): Promise<Commit> {
     this.owner = owner; this.repo = repo;
     try {
       const response: AxiosResponse<RawGitHubSingleCommit> = await axios.get( 
         `${this.baseURL}/repos/${owner}/${repo}/commits/${commitSha}`,
-        { headers: this.getHeaders() }
+        { headers: this.getHeaders(), signal }
       );
       const data = response.data;      return {
         sha: data.sha,
@@ -439,7 +456,7 @@ export class GitHubService {
       }
       
       // Log both total files and analyzable source files
-      const sourceFiles = files.filter(f => this.isSourceFile(f.path) && f.content);
+      const sourceFiles = files.filter(f => isSourceFile(f.path) && f.content);
       console.log(`[GitHubService] Successfully fetched ${files.length} files (${sourceFiles.length} analyzable source files)`);
       return files;
     } catch (error) {
@@ -491,7 +508,7 @@ export class GitHubService {
   }
 
   // ADDED: Method to fetch pull requests for the Gantt chart
-  async getPullRequests(owner: string, repo: string): Promise<PullRequestData[]> {
+  async getPullRequests(owner: string, repo: string, signal?: AbortSignal): Promise<PullRequestData[]> {
     this.owner = owner;
     this.repo = repo;
     try {
@@ -501,6 +518,7 @@ export class GitHubService {
           params: { state: 'all', per_page: 100, sort: 'created', direction: 'desc' },
           headers: this.getHeaders(),
           timeout: 60000, // 60 seconds timeout for pull requests
+          signal,
         }
       );
       return response.data.map(pr => {
@@ -527,11 +545,89 @@ export class GitHubService {
     }
   }
 
+  async resolveCommit(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<string> {
+    this.owner = owner; this.repo = repo;
+    try {
+      const response = await axios.get<string>(`${this.baseURL}/repos/${owner}/${repo}/commits/${ref}`, {
+        headers: { ...this.getHeaders(), 'Accept': 'application/vnd.github.sha' },
+        responseType: 'text',
+        signal,
+      });
+      return response.data.trim();
+    } catch (error) {
+      this.handleGitHubError(error, `resolving ${ref}`);
+    }
+  }
+
+  /**
+   * Files changed from `baseSha` to `headSha`. The compare endpoint diffs against the merge
+   * base, which only equals a direct diff when head descends from base.
+   */
+  async compareCommits(owner: string, repo: string, baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    this.owner = owner; this.repo = repo;
+    try {
+      const response = await axios.get<RawGitHubComparison>(
+        `${this.baseURL}/repos/${owner}/${repo}/compare/${baseSha}...${headSha}`,
+        { headers: this.getHeaders(), params: { per_page: MAX_COMPARE_FILES }, timeout: 60000, signal }
+      );
+      const { status, files = [] } = response.data;
+      if (status === 'behind' || status === 'diverged') {
+        throw new Error(`${headSha} does not descend from ${baseSha}`);
+      }
+      if (files.length >= MAX_COMPARE_FILES) {
+        throw new Error(`the comparison lists ${MAX_COMPARE_FILES} or more files and may be incomplete`);
+      }
+
+      const changes: ChangedFile[] = [];
+      for (const file of files) {
+        switch (file.status) {
+          case 'unchanged':
+            break;
+          case 'added':
+          case 'copied':
+            changes.push({ path: file.filename, status: 'added' });
+            break;
+          case 'removed':
+            changes.push({ path: file.filename, status: 'removed' });
+            break;
+          case 'renamed':
+            changes.push({ path: file.filename, status: 'renamed', previousPath: file.previous_filename });
+            break;
+          default:
+            changes.push({ path: file.filename, status: 'modified' });
+        }
+      }
+      return changes;
+    } catch (error) {
+      this.handleGitHubError(error, `comparing ${baseSha}...${headSha}`);
+    }
+  }
+
+  async getFilesAt(owner: string, repo: string, ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    this.owner = owner; this.repo = repo;
+    try {
+      return await fetchFiles(paths, async filePath => {
+        const response = await axios.get<ArrayBuffer>(
+          `${this.baseURL}/repos/${owner}/${repo}/contents/${filePath.split('/').map(encodeURIComponent).join('/')}`,
+          {
+            headers: { ...this.getHeaders(), 'Accept': 'application/vnd.github.raw' },
+            params: { ref },
+            responseType: 'arraybuffer',
+            signal,
+          }
+        );
+        return Buffer.from(response.data);
+      }, signal);
+    } catch (error) {
+      this.handleGitHubError(error, `fetching files at ${ref}`);
+    }
+  }
+
   /**
    * Download entire repository as ZIP archive and extract files with content
    * This replaces individual file fetching for better performance
    */
-  async downloadRepositoryArchive(owner: string, repo: string, branch: string): Promise<FileInfo[]> {
+  async downloadRepositoryArchive(owner: string, repo: string, branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
     this.owner = owner; 
     this.repo = repo;
     
@@ -545,385 +641,21 @@ export class GitHubService {
         responseType: 'arraybuffer',
         timeout: 120000, // 2 minutes timeout for large repos
         maxContentLength: 100 * 1024 * 1024, // 100MB max file size
+        signal,
       });
 
-      console.log(`[Archive Download] Downloaded ${(response.data.byteLength / 1024 / 1024).toFixed(2)}MB archive`);      // Extract ZIP file
-      const zip = new JSZip();
-      const zipContents = await zip.loadAsync(response.data);
-      
-      const files: FileInfo[] = [];
-      const filePromises: Promise<void>[] = [];
-
-      // Process each file in the ZIP
-      for (const [relativePath, zipObject] of Object.entries(zipContents.files)) {
-        if ((zipObject as any).dir) {
-          // Skip directories
-          continue;
-        }
-
-        // Remove the root directory from the path (GitHub adds a prefix like "repo-branch/")
-        const pathParts = relativePath.split('/');
-        const cleanPath = pathParts.slice(1).join('/'); // Remove first part which is the repo-branch prefix
-        
-        if (!cleanPath) {
-          // Skip if path becomes empty
-          continue;
-        }        // Create the file info object
-        const fileInfo: FileInfo = {
-          name: path.basename(cleanPath),
-          path: cleanPath,
-          size: 0, // We'll estimate this from content length
-          type: 'file',
-          content: undefined, // Will be populated below for text files
-          language: this.getLanguageFromExtension(cleanPath) // Add language detection
-        };
-        
-        // Only extract content for source files under a reasonable size limit
-        if (this.isTextFile(cleanPath) && this.isSourceFile(cleanPath)) {
-          const contentPromise = (zipObject as any).async('text').then((content: string) => {
-            // Set size based on content length and only include if reasonable size
-            if (content.length < 1024 * 1024) { // 1MB limit per file
-              fileInfo.content = content;
-              fileInfo.size = content.length;
-            } else {
-              console.warn(`[Archive Download] Skipping large file ${cleanPath} (${content.length} bytes)`);
-              fileInfo.content = '';
-              fileInfo.size = content.length;
-            }
-          }).catch((error: any) => {
-            console.warn(`[Archive Download] Failed to extract content for ${cleanPath}:`, error.message);
-            fileInfo.content = ''; // Set empty content on error
-          });
-          filePromises.push(contentPromise);
-        } else {
-          // For binary files, try to get size estimate
-          (zipObject as any).async('uint8array').then((data: Uint8Array) => {
-            fileInfo.size = data.length;
-          }).catch(() => {
-            fileInfo.size = 0;
-          });
-        }
-
-        files.push(fileInfo);
-      }
-
-      // Wait for all file content extraction to complete
-      await Promise.all(filePromises);
-
-      console.log(`[Archive Download] Extracted ${files.length} files, ${files.filter(f => f.content !== undefined).length} with content`);
-      
-      return files;    } catch (error) {
+      console.log(`[Archive Download] Downloaded ${(response.data.byteLength / 1024 / 1024).toFixed(2)}MB archive`);
+      return await extractRepositoryArchive(response.data, signal);
+    } catch (error) {
       console.error('[Archive Download] Failed to download repository archive:', error);
       this.handleGitHubError(error, `download repository archive for ${owner}/${repo}`);
       return [];
     }
   }
 
-  /**
-   * Get programming language from file extension
-   */
-  private getLanguageFromExtension(filePath: string): string | undefined {
-    const extensionLanguageMap: Record<string, string> = {
-      '.ts': 'typescript',
-      '.tsx': 'typescript',
-      '.js': 'javascript',
-      '.jsx': 'javascript',
-      '.mjs': 'javascript',
-      '.cjs': 'javascript',
-      '.py': 'python',
-      '.pyw': 'python',
-      '.pyi': 'python',
-      '.java': 'java',
-      '.kt': 'kotlin',
-      '.scala': 'scala',
-      '.groovy': 'groovy',
-      '.c': 'c',
-      '.cpp': 'cpp',
-      '.cxx': 'cpp',
-      '.cc': 'cpp',
-      '.h': 'c',
-      '.hpp': 'cpp',
-      '.hxx': 'cpp',
-      '.cs': 'csharp',
-      '.vb': 'vb',
-      '.fs': 'fsharp',
-      '.php': 'php',
-      '.rb': 'ruby',
-      '.go': 'go',
-      '.rs': 'rust',
-      '.swift': 'swift',
-      '.dart': 'dart',
-      '.lua': 'lua',
-      '.hs': 'haskell',
-      '.elm': 'elm',
-      '.clj': 'clojure',
-      '.cljs': 'clojure',
-      '.ml': 'ocaml',
-      '.ex': 'elixir',
-      '.exs': 'elixir',
-      '.sh': 'shell',
-      '.bash': 'shell',
-      '.zsh': 'shell',
-      '.fish': 'shell',
-      '.ps1': 'powershell',
-      '.bat': 'batch',
-      '.cmd': 'batch',
-      '.sql': 'sql',
-      '.plsql': 'sql',
-      '.psql': 'sql',
-      '.json': 'json',
-      '.yaml': 'yaml',
-      '.yml': 'yaml',
-      '.toml': 'toml',
-      '.xml': 'xml',
-      '.html': 'html',
-      '.htm': 'html',
-      '.css': 'css',
-      '.scss': 'scss',
-      '.sass': 'sass',
-      '.less': 'less',
-      '.md': 'markdown',
-      '.mdx': 'markdown',
-      '.tex': 'latex',
-      '.tf': 'terraform',
-      '.hcl': 'hcl',
-      '.dockerfile': 'dockerfile'
-    };
-
-    const ext = path.extname(filePath).toLowerCase();
-    const fileName = path.basename(filePath).toLowerCase();
-    
-    // Check by extension
-    if (extensionLanguageMap[ext]) {
-      return extensionLanguageMap[ext];
-    }
-    
-    // Check specific filenames without extensions
-    if (fileName === 'dockerfile' || fileName === 'makefile' || fileName === 'rakefile' || fileName === 'gemfile') {
-      return fileName;
-    }
-    
-    return undefined;
-  }
-
-  /**
-   * Determine if a file is likely a text file based on extension
-   */
-  private isTextFile(filePath: string): boolean {
-    const textExtensions = new Set([
-      '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
-      '.py', '.pyw', '.pyi',
-      '.java', '.kt', '.scala', '.groovy',
-      '.c', '.cpp', '.cxx', '.cc', '.h', '.hpp', '.hxx',
-      '.cs', '.vb', '.fs',
-      '.php', '.rb', '.go', '.rs', '.swift', '.dart', '.lua',
-      '.hs', '.elm', '.clj', '.cljs', '.ml', '.ex', '.exs',
-      '.sh', '.bash', '.zsh', '.fish', '.ps1', '.bat', '.cmd',
-      '.sql', '.plsql', '.psql',
-      '.json', '.yaml', '.yml', '.toml', '.xml', '.ini', '.cfg', '.conf',
-      '.html', '.htm', '.css', '.scss', '.sass', '.less',
-      '.md', '.mdx', '.tex', '.txt', '.log',
-      '.tf', '.hcl', '.dockerfile',
-      '.gitignore', '.gitattributes', '.editorconfig'
-    ]);
-
-    const ext = path.extname(filePath).toLowerCase();
-    const fileName = path.basename(filePath).toLowerCase();
-    
-    // Check by extension
-    if (textExtensions.has(ext)) {
-      return true;
-    }
-    
-    // Check specific filenames without extensions
-    const textFilenames = new Set([
-      'readme', 'license', 'changelog', 'dockerfile', 'makefile', 'rakefile', 'gemfile'
-    ]);
-    
-    return textFilenames.has(fileName) || textFilenames.has(fileName.split('.')[0]);
-  }
-
-  /**
-   * Determine if a file is likely a source file based on extension and path
-   */
-  private isSourceFile(filePath: string): boolean {
-    const ext = path.extname(filePath).toLowerCase();
-    const fileName = path.basename(filePath).toLowerCase();
-    const dirPath = path.dirname(filePath);
-    
-    // Check if file is in an excluded directory
-    const pathParts = dirPath.split(path.sep);
-    const excludedDirectories = new Set([
-      'node_modules',
-      '.git',
-      'dist',
-      'build',
-      'coverage',
-      'public',
-      'assets',
-      'vendor',
-      '.vscode',
-      '.idea',
-    ]);
-    
-    if (pathParts.some(part => excludedDirectories.has(part))) {
-      return false;
-    }
-    
-    // Check if extension is explicitly excluded
-    const excludedExtensions = new Set([
-      '.svg', '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp',
-      '.woff', '.woff2', '.eot', '.ttf', '.otf',
-      '.mp4', '.webm', '.ogg', '.mp3', '.wav',
-      '.zip', '.gz', '.tar', '.rar',
-      '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
-      '.lock',
-      '.log',
-      '.csv',
-      '.d.ts',
-      '.min.js',
-      '.min.css',
-    ]);
-    
-    if (excludedExtensions.has(ext)) {
-      return false;
-    }
-    
-    // Check if filename matches excluded patterns
-    const excludedFilePatterns = [
-      /^\./, // Hidden files
-      /vite-env\.d\.ts$/,
-      /\.config\.(js|ts|mjs|cjs)$/,
-      /eslint\.config\.(js|ts|mjs|cjs)$/,
-      /\.min\.(js|css)$/,
-      /\.bundle\.(js|css)$/,
-      /\.chunk\.(js|css)$/,
-      /package-lock\.json$/,
-      /yarn\.lock$/,
-      /composer\.lock$/,
-      /Pipfile\.lock$/,
-      /\.log$/,
-      /\.tmp$/,
-      /\.temp$/,
-      /\.cache$/,
-    ];
-    
-    if (excludedFilePatterns.some(pattern => pattern.test(fileName))) {
-      return false;
-    }
-
-    // First check our mapping
-    const extensionLanguageMap: Record<string, string> = {
-      // JavaScript/TypeScript
-      '.ts': 'typescript',
-      '.tsx': 'typescript',
-      '.js': 'javascript',
-      '.jsx': 'javascript',
-      '.mjs': 'javascript',
-      '.cjs': 'javascript',
-      
-      // HTML/CSS
-      '.html': 'html',
-      '.htm': 'html',
-      '.css': 'css',
-      '.scss': 'scss',
-      '.sass': 'sass',
-      '.less': 'less',
-      '.styl': 'stylus',
-
-      // Python
-      '.py': 'python',
-      '.pyw': 'python',
-      '.pyc': 'python',
-      '.pyd': 'python',
-      '.pyo': 'python',
-
-      // Java
-      '.java': 'java',
-      '.jar': 'java',
-      '.class': 'java',
-
-      // C#
-      '.cs': 'csharp',
-
-      // C/C++
-      '.c': 'c',
-      '.h': 'c',
-      '.cpp': 'cpp',
-      '.hpp': 'cpp',
-      '.cc': 'cpp',
-
-      // Ruby
-      '.rb': 'ruby',
-
-      // PHP
-      '.php': 'php',
-
-      // Go
-      '.go': 'go',
-
-      // Rust
-      '.rs': 'rust',
-
-      // Swift
-      '.swift': 'swift',
-
-      // Kotlin
-      '.kt': 'kotlin',
-      '.kts': 'kotlin',
-
-      // Shell
-      '.sh': 'shell',
-      '.bash': 'shell',
-      '.zsh': 'shell',
-
-      // Other
-      '.json': 'json',
-      '.xml': 'xml',
-      '.md': 'markdown',
-      '.yml': 'yaml',
-      '.yaml': 'yaml',
-      '.toml': 'toml',
-      '.dockerfile': 'dockerfile',
-      'Dockerfile': 'dockerfile',
-    };
-    
-    if (ext in extensionLanguageMap) {
-      return true;
-    }
-    
-    // For Tensorflow specifically, handle Bazel files
-    const bazelFiles = new Set([
-      'BUILD', 'WORKSPACE', '.bazelrc', '.bazelversion',
-      '.bzl', '.bazel'
-    ]);
-    
-    if (bazelFiles.has(fileName)) {
-      return true;
-    }
-    
-    // Additional common source extensions not in our main mapping
-    const commonSourceExts = new Set([
-      '.hxx', '.cxx', '.cc',  // Additional C++
-      '.pyx', '.pyd', '.pyi',  // Additional Python
-      '.scala', '.groovy',  // Additional JVM
-      '.rake', '.gemspec',  // Additional Ruby
-      '.phps', '.php5', '.phtml',  // Additional PHP
-      '.m', '.mm',  // Objective-C
-      '.fs', '.razor',  // Additional .NET
-      '.tf', '.tfvars', '.hcl',  // Terraform/HCL
-      '.proto', '.thrift',  // IDL
-      '.sol', '.cairo',  // Smart contracts
-      '.ml', '.hs', '.lisp', '.clj', // Functional langs
-      '.lua', '.R', '.pl', '.sql', '.dart' // Other languages
-    ]);
-    
-    return commonSourceExts.has(ext);
-  }
-
   private logLanguageStats(files: FileInfo[]): void {
     const languages: Record<string, number> = {};
-    const sourceFiles = files.filter(file => this.isSourceFile(file.path));
+    const sourceFiles = files.filter(file => isSourceFile(file.path));
     
     sourceFiles.forEach(file => {
       if (file.language) {
@@ -935,6 +667,74 @@ export class GitHubService {
   }
 }
 
+/**
+ * Binds GitHubService to one repository so it can serve as the analysis pipeline's
+ * RepositoryProvider for github.com and GitHub Enterprise Server.
+ */
+export class GitHubRepositoryProvider implements RepositoryProvider {
+  readonly kind = 'github';
+  readonly owner: string;
+  readonly repo: string;
+  readonly webUrl: string;
+  private service: GitHubService;
+
+  constructor(location: RepositoryLocation, token?: string) {
+    this.owner = location.owner;
+    this.repo = location.repo;
+    this.webUrl = `${location.baseUrl}/${location.owner}/${location.repo}`;
+    const apiURL = new URL(location.baseUrl).hostname === 'github.com'
+      ? 'https://api.github.com'
+      : `${location.baseUrl}/api/v3`;
+    this.service = new GitHubService(token, apiURL);
+  }
+
+  getRepository(signal?: AbortSignal): Promise<Repository> {
+    return this.service.getRepository(this.owner, this.repo, signal);
+  }
+
+  getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{ repository: Repository; files: FileInfo[] }> {
+    return this.service.getBatchedRepositoryData(this.owner, this.repo, branch, signal);
+  }
+
+  downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    return this.service.downloadRepositoryArchive(this.owner, this.repo, branch, signal);
+  }
+
+  getCommits(
+    branchOrSha?: string,
+    limit?: number,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]> {
+    return this.service.getCommits(this.owner, this.repo, branchOrSha, limit, sendProgress, signal);
+  }
+
+  getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit> {
+    return this.service.getCommitDetails(this.owner, this.repo, commitSha, signal);
+  }
+
+  // The contributors endpoint always covers the default branch
+  getContributors(_branch?: string, signal?: AbortSignal): Promise<Contributor[]> {
+    return this.service.getContributors(this.owner, this.repo, signal);
+  }
+
+  getPullRequests(signal?: AbortSignal): Promise<PullRequestData[]> {
+    return this.service.getPullRequests(this.owner, this.repo, signal);
+  }
+
+  resolveCommit(ref: string, signal?: AbortSignal): Promise<string> {
+    return this.service.resolveCommit(this.owner, this.repo, ref, signal);
+  }
+
+  compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    return this.service.compareCommits(this.owner, this.repo, baseSha, headSha, signal);
+  }
+
+  getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    return this.service.getFilesAt(this.owner, this.repo, ref, paths, signal);
+  }
+}
+
 // GitHub API Types (ensure these are not duplicated if defined elsewhere globally)
 // interface GitHubFileResponse { // Already defined above
 //   filename: string;
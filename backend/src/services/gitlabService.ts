@@ -0,0 +1,350 @@
+import axios, { AxiosResponse } from 'axios';
+import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
+import { countPatchLines, extractRepositoryArchive, fetchFiles } from './repositoryFiles';
+import { ChangedFile, RepositoryLocation, RepositoryProvider, handleProviderError } from './repositoryProvider';
+
+// Raw GitLab REST v4 responses, limited to the fields we read
+interface RawGitLabProject {
+  name: string;
+  path: string;
+  path_with_namespace: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  created_at: string;
+  last_activity_at: string;
+  default_branch: string | null;
+  open_issues_count?: number;
+  wiki_enabled?: boolean;
+  pages_access_level?: string;
+  statistics?: { repository_size: number };
+  license?: { key: string; name: string } | null;
+}
+
+interface RawGitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  stats?: { additions: number; deletions: number; total: number };
+}
+
+interface RawGitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface RawGitLabComparison {
+  diffs: RawGitLabDiff[];
+  compare_timeout?: boolean;
+}
+
+interface RawGitLabContributor {
+  name: string;
+  email: string;
+  commits: number;
+}
+
+interface RawGitLabMergeRequest {
+  id: number;
+  title: string;
+  author: { username: string } | null;
+  state: 'opened' | 'closed' | 'merged' | 'locked';
+  created_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+}
+
+// GitLab reports choosealicense.com keys; map the common ones to SPDX identifiers
+const LICENSE_KEY_TO_SPDX: Record<string, string> = {
+  'mit': 'MIT',
+  'apache-2.0': 'Apache-2.0',
+  'gpl-2.0': 'GPL-2.0',
+  'gpl-3.0': 'GPL-3.0',
+  'lgpl-2.1': 'LGPL-2.1',
+  'lgpl-3.0': 'LGPL-3.0',
+  'agpl-3.0': 'AGPL-3.0',
+  'mpl-2.0': 'MPL-2.0',
+  'epl-2.0': 'EPL-2.0',
+  'bsd-2-clause': 'BSD-2-Clause',
+  'bsd-3-clause': 'BSD-3-Clause',
+  'isc': 'ISC',
+  'unlicense': 'Unlicense',
+};
+
+/**
+ * RepositoryProvider for gitlab.com and self-managed GitLab instances (REST API v4).
+ * Projects are addressed by their URL-encoded namespace path, so nested subgroups work.
+ */
+export class GitLabService implements RepositoryProvider {
+  readonly kind = 'gitlab';
+  readonly owner: string;
+  readonly repo: string;
+  readonly webUrl: string;
+  private baseURL: string;
+  private projectURL: string;
+  private token?: string;
+
+  constructor(location: RepositoryLocation, token?: string) {
+    this.owner = location.owner;
+    this.repo = location.repo;
+    this.webUrl = `${location.baseUrl}/${location.owner}/${location.repo}`;
+    this.baseURL = `${location.baseUrl}/api/v4`;
+    this.projectURL = `${this.baseURL}/projects/${encodeURIComponent(`${location.owner}/${location.repo}`)}`;
+    this.token = token;
+  }
+
+  private getHeaders() {
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (this.token) {
+      headers['PRIVATE-TOKEN'] = this.token;
+    }
+    return headers;
+  }
+
+  private handleGitLabError(error: unknown, context: string): never {
+    handleProviderError('GitLab', error, context, `${this.owner}/${this.repo}`, !!this.token);
+  }
+
+  /**
+   * Follows GitLab's page-number pagination (x-next-page header) until `limit` items.
+   */
+  private async getPaginated<T>(
+    url: string,
+    params: Record<string, string | number | boolean>,
+    limit: number,
+    onPage?: (fetched: number) => void,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    // Page size has to stay the same across requests or page numbers stop lining up
+    const perPage = Math.min(100, limit);
+    let items: T[] = [];
+    let page: string | undefined = '1';
+    while (page && items.length < limit) {
+      const response: AxiosResponse<T[]> = await axios.get(url, {
+        headers: this.getHeaders(),
+        params: { ...params, per_page: perPage, page },
+        timeout: 15000,
+        signal,
+      });
+      items = items.concat(response.data);
+      onPage?.(items.length);
+      page = response.headers['x-next-page'] || undefined;
+    }
+    return items.slice(0, limit);
+  }
+
+  async getRepository(signal?: AbortSignal): Promise<Repository> {
+    try {
+      const [projectResponse, languagesResponse] = await Promise.all([
+        axios.get<RawGitLabProject>(this.projectURL, {
+          headers: this.getHeaders(),
+          params: { license: true, statistics: true },
+          signal,
+        }),
+        axios.get<Record<string, number>>(`${this.projectURL}/languages`, { headers: this.getHeaders(), signal })
+          .catch(() => ({ data: {} as Record<string, number> })),
+      ]);
+
+      const data = projectResponse.data;
+      // The languages endpoint reports percentages, highest first
+      const language = Object.entries(languagesResponse.data).sort((a, b) => b[1] - a[1])[0]?.[0];
+      return {
+        name: data.path,
+        fullName: data.path_with_namespace,
+        description: data.description || '',
+        language: language || 'Unknown',
+        stars: data.star_count,
+        forks: data.forks_count,
+        watchers: data.star_count,
+        createdAt: data.created_at,
+        updatedAt: data.last_activity_at,
+        defaultBranch: data.default_branch || 'main',
+        size: data.statistics ? Math.round(data.statistics.repository_size / 1024) : 0,
+        openIssues: data.open_issues_count || 0,
+        hasWiki: !!data.wiki_enabled,
+        hasPages: !!data.pages_access_level && data.pages_access_level !== 'disabled',
+        license: data.license ? {
+          name: data.license.name,
+          spdxId: LICENSE_KEY_TO_SPDX[data.license.key] || data.license.key.toUpperCase()
+        } : undefined
+      };
+    } catch (error) {
+      this.handleGitLabError(error, 'fetching repository information');
+    }
+  }
+
+  async getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{ repository: Repository; files: FileInfo[] }> {
+    console.log(`[GitLabService] Fetching repository data for ${this.owner}/${this.repo} using Archive download`);
+    const repository = await this.getRepository(signal);
+    const files = await this.downloadRepositoryArchive(branch || repository.defaultBranch, signal);
+    return { repository, files };
+  }
+
+  async downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      const response = await axios.get(`${this.projectURL}/repository/archive.zip`, {
+        headers: this.getHeaders(),
+        params: { sha: branch },
+        responseType: 'arraybuffer',
+        timeout: 120000,
+        maxContentLength: 100 * 1024 * 1024,
+        signal,
+      });
+      console.log(`[GitLabService] Downloaded ${(response.data.byteLength / 1024 / 1024).toFixed(2)}MB archive`);
+      return await extractRepositoryArchive(response.data, signal);
+    } catch (error) {
+      this.handleGitLabError(error, `downloading repository archive for ${branch}`);
+    }
+  }
+
+  async getCommits(
+    branchOrSha?: string,
+    limit: number = 2000,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]> {
+    try {
+      const params: Record<string, string | boolean> = { with_stats: true };
+      if (branchOrSha) params.ref_name = branchOrSha;
+      const rawCommits = await this.getPaginated<RawGitLabCommit>(
+        `${this.projectURL}/repository/commits`, params, limit,
+        fetched => sendProgress?.(`Fetched ${fetched} commits...`, Math.round(100 * Math.min(1, fetched / limit))),
+        signal
+      );
+      return rawCommits.map(c => ({
+        sha: c.id,
+        message: c.message,
+        author: { name: c.author_name, email: c.author_email, date: c.authored_date },
+        date: c.authored_date,
+        stats: c.stats,
+      }));
+    } catch (error) {
+      this.handleGitLabError(error, 'fetching commits');
+    }
+  }
+
+  async getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit> {
+    try {
+      const commitURL = `${this.projectURL}/repository/commits/${commitSha}`;
+      const [commitResponse, diffResponse] = await Promise.all([
+        axios.get<RawGitLabCommit>(commitURL, { headers: this.getHeaders(), signal }),
+        axios.get<RawGitLabDiff[]>(`${commitURL}/diff`, { headers: this.getHeaders(), params: { per_page: 100 }, signal }),
+      ]);
+      const data = commitResponse.data;
+      return {
+        sha: data.id,
+        message: data.message,
+        author: { name: data.author_name, email: data.author_email, date: data.authored_date },
+        date: data.authored_date,
+        stats: data.stats,
+        files: diffResponse.data.map(file => {
+          const { additions, deletions } = countPatchLines(file.diff);
+          return {
+            filename: file.new_path,
+            additions,
+            deletions,
+            changes: additions + deletions,
+            status: file.new_file ? 'added' : file.deleted_file ? 'removed' : file.renamed_file ? 'renamed' : 'modified',
+            patch: file.diff,
+          };
+        }),
+      };
+    } catch (error) {
+      this.handleGitLabError(error, `fetching commit details for ${commitSha}`);
+    }
+  }
+
+  async getContributors(_branch?: string, signal?: AbortSignal): Promise<Contributor[]> {
+    try {
+      const contributors = await this.getPaginated<RawGitLabContributor>(
+        `${this.projectURL}/repository/contributors`, { order_by: 'commits', sort: 'desc' }, 500, undefined, signal
+      );
+      return contributors.map(c => ({
+        login: c.name,
+        contributions: c.commits,
+        avatarUrl: '',
+        html_url: c.email ? `mailto:${c.email}` : undefined,
+        email: c.email,
+        type: 'User',
+      }));
+    } catch (error) {
+      this.handleGitLabError(error, 'fetching contributors');
+    }
+  }
+
+  async resolveCommit(ref: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const response = await axios.get<RawGitLabCommit>(
+        `${this.projectURL}/repository/commits/${encodeURIComponent(ref)}`,
+        { headers: this.getHeaders(), signal }
+      );
+      return response.data.id;
+    } catch (error) {
+      this.handleGitLabError(error, `resolving ${ref}`);
+    }
+  }
+
+  // `straight` diffs the two trees directly instead of against their merge base
+  async compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    try {
+      const response = await axios.get<RawGitLabComparison>(`${this.projectURL}/repository/compare`, {
+        headers: this.getHeaders(),
+        params: { from: baseSha, to: headSha, straight: true },
+        timeout: 60000,
+        signal,
+      });
+      if (response.data.compare_timeout) {
+        throw new Error(`the comparison of ${baseSha} and ${headSha} timed out and is incomplete`);
+      }
+      return response.data.diffs.map((diff): ChangedFile => {
+        if (diff.deleted_file) return { path: diff.old_path, status: 'removed' };
+        if (diff.new_file) return { path: diff.new_path, status: 'added' };
+        if (diff.renamed_file) return { path: diff.new_path, status: 'renamed', previousPath: diff.old_path };
+        return { path: diff.new_path, status: 'modified' };
+      });
+    } catch (error) {
+      this.handleGitLabError(error, `comparing ${baseSha}...${headSha}`);
+    }
+  }
+
+  async getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      return await fetchFiles(paths, async filePath => {
+        const response = await axios.get<ArrayBuffer>(
+          `${this.projectURL}/repository/files/${encodeURIComponent(filePath)}/raw`,
+          { headers: this.getHeaders(), params: { ref }, responseType: 'arraybuffer', signal }
+        );
+        return Buffer.from(response.data);
+      }, signal);
+    } catch (error) {
+      this.handleGitLabError(error, `fetching files at ${ref}`);
+    }
+  }
+
+  async getPullRequests(signal?: AbortSignal): Promise<PullRequestData[]> {
+    try {
+      const mergeRequests = await this.getPaginated<RawGitLabMergeRequest>(
+        `${this.projectURL}/merge_requests`, { state: 'all', order_by: 'created_at', sort: 'desc' }, 100, undefined, signal
+      );
+      return mergeRequests.map(mr => ({
+        id: mr.id,
+        title: mr.title,
+        author: mr.author?.username || 'unknown',
+        state: mr.state === 'merged' ? 'merged' : mr.state === 'opened' ? 'open' : 'closed',
+        createdAt: mr.created_at,
+        closedAt: mr.closed_at,
+        mergedAt: mr.merged_at,
+      }));
+    } catch (error) {
+      // Same as GitHub: merge requests are optional and should not fail the analysis
+      console.warn(`Failed to fetch merge requests for ${this.owner}/${this.repo}:`, error instanceof Error ? error.message : 'Unknown error');
+      return [];
+    }
+  }
+}
@@ -0,0 +1,494 @@
+/**
+ * Misconfiguration checks for infrastructure as code: Dockerfiles, Docker Compose files,
+ * Kubernetes manifests, Terraform and GitHub Actions workflows. Compose files and workflows
+ * are recognized by their names and paths, Kubernetes manifests by the apiVersion and kind of
+ * their documents, so other YAML is left alone. Containers running as root, images without a
+ * pinned tag, privileged containers, containers without resource limits, publicly readable S3
+ * buckets, pull_request_target workflows that check out the pull request's code and third-party
+ * actions not pinned to a commit are reported as security issues of their own `infrastructure`
+ * type, with the platform and resource they concern.
+ */
+
+import * as path from 'path';
+import { LineCounter, parseAllDocuments } from 'yaml';
+import { FileInfo, InfrastructurePlatform, SecurityIssue } from '../types';
+import { isDockerfile } from './repositoryFiles';
+
+// Larger files are generated, such as rendered Helm charts of whole clusters
+const MAX_FILE_BYTES = 500_000;
+
+interface Check {
+  severity: SecurityIssue['severity'];
+  cwe: string;
+}
+
+type CheckId =
+  | 'root-container' | 'privileged-container' | 'unpinned-image' | 'missing-resource-limits'
+  | 'public-s3-bucket' | 'pull-request-target-checkout' | 'unpinned-action';
+
+const CHECKS: Record<CheckId, Check> = {
+  'root-container': { severity: 'medium', cwe: 'CWE-250' },
+  'privileged-container': { severity: 'high', cwe: 'CWE-250' },
+  'unpinned-image': { severity: 'low', cwe: 'CWE-1357' },
+  'missing-resource-limits': { severity: 'low', cwe: 'CWE-770' },
+  'public-s3-bucket': { severity: 'high', cwe: 'CWE-732' },
+  'pull-request-target-checkout': { severity: 'high', cwe: 'CWE-829' },
+  'unpinned-action': { severity: 'medium', cwe: 'CWE-829' },
+};
+
+interface Finding {
+  check: CheckId;
+  line: number;
+  description: string;
+  recommendation: string;
+  resource?: string;
+}
+
+const isRootUser = (user: string) => /^(root|0)(:.*)?$/.test(user.trim());
+
+// Images without a tag, or tagged latest, change under the deployment whenever they are pushed.
+// References built from variables cannot be judged.
+function isUnpinnedImage(image: string): boolean {
+  if (image.includes('$') || image === 'scratch' || image.includes('@sha256:')) return false;
+  const name = image.slice(image.lastIndexOf('/') + 1);
+  const colon = name.indexOf(':');
+  return colon < 0 || name.slice(colon + 1) === 'latest';
+}
+
+const asObject = (value: unknown): Record<string, any> | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : undefined;
+
+// --- Dockerfiles ---
+
+interface Instruction {
+  keyword: string;
+  args: string;
+  line: number;
+}
+
+// Instructions with their continuation lines joined, and comments dropped
+function readDockerfile(content: string): Instruction[] {
+  const instructions: Instruction[] = [];
+  let current: { text: string; line: number } | undefined;
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i].trim();
+    if (text.startsWith('#') || (!current && text === '')) continue;
+    const continued = text.endsWith('\\');
+    const part = continued ? text.slice(0, -1).trim() : text;
+    current = current ? { text: `${current.text} ${part}`, line: current.line } : { text: part, line: i + 1 };
+    if (continued && i < lines.length - 1) continue;
+    const [, keyword, args] = /^(\S+)\s*(.*)$/.exec(current.text) ?? [];
+    if (keyword) instructions.push({ keyword: keyword.toUpperCase(), args, line: current.line });
+    current = undefined;
+  }
+  return instructions;
+}
+
+function checkDockerfile(content: string): Finding[] {
+  const findings: Finding[] = [];
+  // The user each named stage ends with, which stages built on it start with
+  const stageUsers = new Map<string, { name: string; line: number } | undefined>();
+  let stage: { image: string; line: number; alias?: string } | undefined;
+  let user: { name: string; line: number } | undefined;
+  for (const { keyword, args, line } of readDockerfile(content)) {
+    if (keyword === 'FROM') {
+      if (stage?.alias) stageUsers.set(stage.alias, user);
+      const [image = '', as, alias] = args.split(/\s+/).filter(word => !word.startsWith('--'));
+      const base = image.toLowerCase();
+      if (!stageUsers.has(base) && isUnpinnedImage(image)) {
+        findings.push({
+          check: 'unpinned-image',
+          line,
+          description: `The base image ${image} is not pinned to a version, so rebuilds pick up whatever was pushed last`,
+          recommendation: 'Name a version tag, or a digest to make builds reproducible.',
+        });
+      }
+      user = stageUsers.get(base);
+      stage = { image, line, alias: as?.toLowerCase() === 'as' && alias ? alias.toLowerCase() : undefined };
+    } else if (keyword === 'USER') {
+      user = { name: args, line };
+    }
+  }
+  // Only the last stage becomes the image; images built for non-root users say so in their tag
+  if (stage && !/nonroot|rootless/i.test(stage.image) && (!user || isRootUser(user.name))) {
+    findings.push({
+      check: 'root-container',
+      line: user?.line ?? stage.line,
+      description: user
+        ? `The container runs as ${user.name}, so a compromised process has root rights in it`
+        : `The image based on ${stage.image} sets no USER, so its container runs as root`,
+      recommendation: 'Create an unprivileged user and switch to it with USER before the entrypoint.',
+    });
+  }
+  return findings;
+}
+
+// --- YAML ---
+
+interface YamlDocument {
+  value: any;
+  // The line of the node at a path, or of its nearest ancestor
+  line: (keys: Array<string | number>) => number;
+}
+
+function readYaml(content: string): YamlDocument[] {
+  const lineCounter = new LineCounter();
+  const parsed = parseAllDocuments(content, { lineCounter });
+  // An empty file parses to an empty stream
+  const documents = Array.isArray(parsed) ? parsed : [];
+  return documents.map(document => {
+    if (document.errors.length > 0) throw document.errors[0];
+    return {
+      value: document.toJS(),
+      line: keys => {
+        for (let n = keys.length; n >= 0; n--) {
+          const node = n === 0 ? document.contents : document.getIn(keys.slice(0, n), true);
+          const offset = (node as { range?: [number, number, number] } | null)?.range?.[0];
+          if (typeof offset === 'number') return lineCounter.linePos(offset).line;
+        }
+        return 1;
+      },
+    };
+  });
+}
+
+function checkCompose(documents: YamlDocument[]): Finding[] {
+  const findings: Finding[] = [];
+  for (const document of documents) {
+    const services = asObject(asObject(document.value)?.services) ?? {};
+    for (const [name, value] of Object.entries(services)) {
+      const service = asObject(value);
+      if (!service) continue;
+      const resource = `service ${name}`;
+      // An image next to build names what is built, not what is pulled
+      if (typeof service.image === 'string' && service.build === undefined && isUnpinnedImage(service.image)) {
+        findings.push({
+          check: 'unpinned-image',
+          line: document.line(['services', name, 'image']),
+          description: `The service ${name} runs ${service.image}, which is not pinned to a version`,
+          recommendation: 'Name a version tag or a digest for the image.',
+          resource,
+        });
+      }
+      if (service.privileged === true) {
+        findings.push({
+          check: 'privileged-container',
+          line: document.line(['services', name, 'privileged']),
+          description: `The service ${name} runs privileged, with every capability and access to the host's devices`,
+          recommendation: 'Remove privileged and add only the capabilities the service needs with cap_add.',
+          resource,
+        });
+      }
+      if ((typeof service.user === 'string' || typeof service.user === 'number') && isRootUser(String(service.user))) {
+        findings.push({
+          check: 'root-container',
+          line: document.line(['services', name, 'user']),
+          description: `The service ${name} runs as ${service.user}`,
+          recommendation: 'Run the service as an unprivileged user.',
+          resource,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+// Where the pod spec is in the workloads that run pods
+const POD_SPEC_PATHS: Record<string, string[]> = {
+  Pod: ['spec'],
+  Deployment: ['spec', 'template', 'spec'],
+  StatefulSet: ['spec', 'template', 'spec'],
+  DaemonSet: ['spec', 'template', 'spec'],
+  ReplicaSet: ['spec', 'template', 'spec'],
+  ReplicationController: ['spec', 'template', 'spec'],
+  Job: ['spec', 'template', 'spec'],
+  CronJob: ['spec', 'jobTemplate', 'spec', 'template', 'spec'],
+};
+
+const isKubernetesManifest = (document: YamlDocument) =>
+  typeof document.value?.apiVersion === 'string' && typeof document.value?.kind === 'string';
+
+function checkKubernetes(documents: YamlDocument[]): Finding[] {
+  const findings: Finding[] = [];
+  for (const document of documents.filter(isKubernetesManifest)) {
+    const { kind } = document.value;
+    const podPath = POD_SPEC_PATHS[kind];
+    const pod = podPath && asObject(podPath.reduce((node, key) => asObject(node)?.[key], document.value));
+    if (!pod) continue;
+    const workload = `${kind}/${document.value.metadata?.name ?? '(unnamed)'}`;
+    const podSecurity = asObject(pod.securityContext) ?? {};
+    for (const key of ['initContainers', 'containers']) {
+      const containers: unknown[] = Array.isArray(pod[key]) ? pod[key] : [];
+      containers.forEach((value, index) => {
+        const container = asObject(value);
+        if (!container) return;
+        const at = [...podPath, key, index];
+        const name = String(container.name ?? index);
+        const resource = `${workload} container ${name}`;
+        const security = asObject(container.securityContext) ?? {};
+        if (security.privileged === true) {
+          findings.push({
+            check: 'privileged-container',
+            line: document.line([...at, 'securityContext', 'privileged']),
+            description: `The container ${name} of ${workload} runs privileged, with the same access to the node as its processes`,
+            recommendation: 'Remove privileged and add only the capabilities the container needs under securityContext.capabilities.',
+            resource,
+          });
+        }
+        const runAsUser = security.runAsUser ?? podSecurity.runAsUser;
+        const runAsNonRoot = security.runAsNonRoot ?? podSecurity.runAsNonRoot;
+        if (runAsUser === 0 || (runAsUser === undefined && runAsNonRoot !== true)) {
+          findings.push({
+            check: 'root-container',
+            line: document.line(runAsUser === 0 ? [...at, 'securityContext', 'runAsUser'] : at),
+            description: runAsUser === 0
+              ? `The container ${name} of ${workload} runs as root`
+              : `Nothing stops the container ${name} of ${workload} from running as root`,
+            recommendation: 'Set runAsNonRoot: true and a non-zero runAsUser in the securityContext of the pod or container.',
+            resource,
+          });
+        }
+        if (typeof container.image === 'string' && isUnpinnedImage(container.image)) {
+          findings.push({
+            check: 'unpinned-image',
+            line: document.line([...at, 'image']),
+            description: `The container ${name} of ${workload} runs ${container.image}, which is not pinned to a version`,
+            recommendation: 'Name a version tag or a digest, so every node runs the same image.',
+            resource,
+          });
+        }
+        const limits = asObject(asObject(container.resources)?.limits) ?? {};
+        const missing = ['cpu', 'memory'].filter(resourceName => limits[resourceName] === undefined);
+        if (missing.length > 0) {
+          findings.push({
+            check: 'missing-resource-limits',
+            line: document.line(at),
+            description: `The container ${name} of ${workload} has no ${missing.join(' or ')} limit, so it can starve the other pods on its node`,
+            recommendation: 'Set resources.limits for cpu and memory.',
+            resource,
+          });
+        }
+      });
+    }
+  }
+  return findings;
+}
+
+// Checkouts of the pull request's head, rather than the base the workflow was defined on
+const PULL_REQUEST_HEAD = /github\.event\.pull_request\.head\.|github\.head_ref|refs\/pull\//;
+// Owners whose actions GitHub publishes
+const FIRST_PARTY_OWNERS = new Set(['actions', 'github']);
+
+function isUnpinnedAction(uses: string): boolean {
+  if (uses.startsWith('./')) return false;
+  if (uses.startsWith('docker://')) return !uses.includes('@sha256:');
+  const [name, ref = ''] = uses.split('@');
+  return !FIRST_PARTY_OWNERS.has(name.split('/')[0].toLowerCase()) && !/^[0-9a-f]{40}$/i.test(ref);
+}
+
+function checkWorkflow(documents: YamlDocument[]): Finding[] {
+  const findings: Finding[] = [];
+  for (const document of documents) {
+    const workflow = asObject(document.value);
+    if (!workflow) continue;
+    const triggers = workflow.on;
+    const onPullRequestTarget = triggers === 'pull_request_target'
+      || (Array.isArray(triggers) && triggers.includes('pull_request_target'))
+      || (asObject(triggers) !== undefined && 'pull_request_target' in triggers);
+    const unpinned = (uses: string, keys: Array<string | number>, resource: string) => findings.push({
+      check: 'unpinned-action',
+      line: document.line(keys),
+      description: `${uses} is not pinned to a commit, so whoever controls its tags controls what runs with this workflow's secrets`,
+      recommendation: 'Pin the action to a full commit SHA, with the version in a comment.',
+      resource,
+    });
+    for (const [id, value] of Object.entries(asObject(workflow.jobs) ?? {})) {
+      const job = asObject(value);
+      if (!job) continue;
+      const resource = `job ${id}`;
+      if (typeof job.uses === 'string' && isUnpinnedAction(job.uses)) unpinned(job.uses, ['jobs', id, 'uses'], resource);
+      const steps: unknown[] = Array.isArray(job.steps) ? job.steps : [];
+      steps.forEach((value, index) => {
+        const step = asObject(value);
+        if (typeof step?.uses !== 'string') return;
+        if (isUnpinnedAction(step.uses)) unpinned(step.uses, ['jobs', id, 'steps', index, 'uses'], resource);
+        const checkout = asObject(step.with) ?? {};
+        const checksOutHead = ['ref', 'repository'].some(key => PULL_REQUEST_HEAD.test(String(checkout[key] ?? '')));
+        if (onPullRequestTarget && /^actions\/checkout@/i.test(step.uses) && checksOutHead) {
+          findings.push({
+            check: 'pull-request-target-checkout',
+            line: document.line(['jobs', id, 'steps', index, 'with']),
+            description: `The job ${id} checks out the pull request's code in a pull_request_target workflow, which runs with write access and secrets`,
+            recommendation: 'Run untrusted code in a pull_request workflow, and pass its results to a privileged workflow_run workflow as artifacts.',
+            resource,
+          });
+        }
+      });
+    }
+  }
+  return findings;
+}
+
+// --- Terraform ---
+
+interface TerraformResource {
+  type: string;
+  name: string;
+  line: number;
+  body: string;
+  // The block's own attributes, not those of nested blocks
+  attributes: Map<string, { value: string; line: number }>;
+}
+
+// The index of the brace closing the block opened before `start`, skipping strings and comments
+function closingBrace(content: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') {
+      for (i++; i < content.length && content[i] !== '"'; i++) if (content[i] === '\\') i++;
+    } else if (char === '#' || (char === '/' && content[i + 1] === '/')) {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      i = end < 0 ? content.length : end + 1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+function readTerraform(content: string): TerraformResource[] {
+  const resources: TerraformResource[] = [];
+  const header = /^[ \t]*resource\s+"([^"]+)"\s+"([^"]+)"\s*\{/gm;
+  for (const match of content.matchAll(header)) {
+    const start = match.index! + match[0].length;
+    const body = content.slice(start, closingBrace(content, start));
+    const line = content.slice(0, match.index).split('\n').length;
+    const attributes = new Map<string, { value: string; line: number }>();
+    let depth = 0;
+    body.split('\n').forEach((text, offset) => {
+      const attribute = depth === 0 ? /^\s*([\w-]+)\s*=\s*(.*?)\s*$/.exec(text) : null;
+      if (attribute) attributes.set(attribute[1], { value: attribute[2].replace(/^"(.*)"$/, '$1'), line: line + offset });
+      depth += (text.match(/[{[(]/g) ?? []).length - (text.match(/[}\])]/g) ?? []).length;
+    });
+    resources.push({ type: match[1], name: match[2], line, body, attributes });
+  }
+  return resources;
+}
+
+const PUBLIC_ACLS = new Set(['public-read', 'public-read-write', 'authenticated-read']);
+const PUBLIC_ACCESS_BLOCK_SETTINGS = ['block_public_acls', 'block_public_policy', 'ignore_public_acls', 'restrict_public_buckets'];
+// A policy statement for every principal, in JSON or in jsonencode()
+const PUBLIC_PRINCIPAL = /"?Principal"?\s*[:=]\s*(\{\s*"?AWS"?\s*[:=]\s*)?"\*"/;
+
+function checkTerraform(content: string): Finding[] {
+  const findings: Finding[] = [];
+  for (const resource of readTerraform(content)) {
+    const id = `${resource.type}.${resource.name}`;
+    const acl = resource.attributes.get('acl');
+    if ((resource.type === 'aws_s3_bucket' || resource.type === 'aws_s3_bucket_acl') && acl && PUBLIC_ACLS.has(acl.value)) {
+      findings.push({
+        check: 'public-s3-bucket',
+        line: acl.line,
+        description: `${id} grants ${acl.value === 'authenticated-read' ? 'every AWS account' : 'anyone on the internet'} ${acl.value === 'public-read-write' ? 'read and write' : 'read'} access with the ${acl.value} ACL`,
+        recommendation: 'Use the private ACL and serve public content through CloudFront with an origin access control.',
+        resource: id,
+      });
+    }
+    if (resource.type === 'aws_s3_bucket_public_access_block') {
+      const disabled = PUBLIC_ACCESS_BLOCK_SETTINGS.filter(setting => resource.attributes.get(setting)?.value === 'false');
+      if (disabled.length > 0) {
+        findings.push({
+          check: 'public-s3-bucket',
+          line: resource.attributes.get(disabled[0])!.line,
+          description: `${id} turns off ${disabled.join(', ')}, so the bucket can be made public`,
+          recommendation: 'Set all four public access block settings to true.',
+          resource: id,
+        });
+      }
+    }
+    if ((resource.type === 'aws_s3_bucket_policy' || resource.type === 'aws_s3_bucket') && PUBLIC_PRINCIPAL.test(resource.body) && /Allow/.test(resource.body)) {
+      findings.push({
+        check: 'public-s3-bucket',
+        line: resource.attributes.get('policy')?.line ?? resource.line,
+        description: `${id} has a bucket policy that allows every principal`,
+        recommendation: 'Grant access to specific accounts or roles, or to CloudFront through an origin access control.',
+        resource: id,
+      });
+    }
+  }
+  return findings;
+}
+
+// --- Scanning ---
+
+// Helm templates are not YAML until rendered
+const isTemplate = (content: string) => content.includes('{{');
+
+/**
+ * The platform a file configures, from its path; Kubernetes manifests are any other YAML
+ * whose documents have an apiVersion and a kind.
+ */
+export function infrastructurePlatform(filePath: string): InfrastructurePlatform | undefined {
+  const normalized = filePath.split(path.sep).join('/');
+  const fileName = path.posix.basename(normalized).toLowerCase();
+  if (isDockerfile(filePath)) return 'dockerfile';
+  if (/(^|\/)\.github\/workflows\/[^/]+\.ya?ml$/i.test(normalized)) return 'github-actions';
+  if (/^(docker-)?compose([.-][\w.-]+)?\.ya?ml$/.test(fileName)) return 'compose';
+  if (fileName.endsWith('.tf')) return 'terraform';
+  if (/\.ya?ml$/.test(fileName)) return 'kubernetes';
+  return undefined;
+}
+
+/**
+ * Checks the infrastructure-as-code files among `files`. A file that cannot be parsed is
+ * reported to `onError` and skipped; YAML that turns out not to be a Kubernetes manifest is
+ * skipped silently.
+ */
+export function scanInfrastructure(
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  onError?: (file: string, error: unknown) => void,
+): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  for (const { path: filePath, content } of files) {
+    const platform = infrastructurePlatform(filePath);
+    if (!platform || !content || content.length > MAX_FILE_BYTES) continue;
+    if (platform === 'kubernetes' && (isTemplate(content) || !/^\s*apiVersion:/m.test(content))) continue;
+    let findings: Finding[];
+    try {
+      switch (platform) {
+        case 'dockerfile': findings = checkDockerfile(content); break;
+        case 'compose': findings = checkCompose(readYaml(content)); break;
+        case 'kubernetes': findings = checkKubernetes(readYaml(content)); break;
+        case 'github-actions': findings = checkWorkflow(readYaml(content)); break;
+        case 'terraform': findings = checkTerraform(content); break;
+      }
+    } catch (e) {
+      // Files that only look like manifests are not worth a warning
+      if (platform !== 'kubernetes') onError?.(filePath, e);
+      continue;
+    }
+    const lines = content.split('\n');
+    for (const finding of findings) {
+      const { severity, cwe } = CHECKS[finding.check];
+      issues.push({
+        type: 'infrastructure',
+        severity,
+        file: filePath,
+        line: finding.line,
+        description: finding.description,
+        recommendation: finding.recommendation,
+        cwe,
+        codeSnippet: lines[finding.line - 1]?.trim(),
+        rule: finding.check,
+        infrastructure: { platform, ...(finding.resource ? { resource: finding.resource } : {}) },
+      });
+    }
+  }
+  return issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+}
@@ -0,0 +1,529 @@
+/**
+ * The JavaScript and TypeScript counterpart of `syntaxTree.ts`: reads functions, complexity and
+ * Halstead tokens from a Babel syntax tree, so that files in every supported language are
+ * measured the same way.
+ */
+
+import * as parser from '@babel/parser';
+import { FunctionInfo, FunctionParameter } from '../types';
+import { SourceAnalysis } from './syntaxTree';
+
+const PARSER_PLUGINS: parser.ParserPlugin[] = [
+  'jsx', 'typescript', 'doExpressions', 'objectRestSpread', 'classProperties', 'exportDefaultFrom',
+  'exportNamespaceFrom', 'asyncGenerators', 'dynamicImport', 'optionalChaining', 'nullishCoalescingOperator',
+];
+
+// Keys that hold positions and comments rather than child nodes
+const SKIPPED_KEYS = new Set(['loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments']);
+
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod', 'ClassPrivateMethod']);
+const LOOP_TYPES = new Set(['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement']);
+const LOGICAL_OPERATORS = new Set(['&&', '||', '??']);
+// Cognitive complexity: structures that add one plus how deeply they are nested
+const STRUCTURE_TYPES = new Set([...LOOP_TYPES, 'IfStatement', 'ConditionalExpression', 'SwitchStatement', 'CatchClause']);
+// Nodes whose body is one level deeper
+const NESTING_TYPES = new Set([...LOOP_TYPES, 'IfStatement', 'SwitchStatement', 'TryStatement']);
+
+// Token labels that name or hold a value; every other token is an operator
+const OPERAND_LABELS = new Set(['name', 'privateName', 'jsxName', 'num', 'bigint', 'decimal', 'string', 'template', 'regexp', 'jsxText', 'true', 'false', 'null', 'this', 'super']);
+// Closing brackets belong to the opening ones, which are already counted
+const CLOSER_LABELS = new Set([')', ']', '}', 'eof']);
+// Babel lists comments among the tokens
+const COMMENT_TOKENS = new Set(['CommentLine', 'CommentBlock']);
+
+interface Scope {
+  decisions: number;
+  cognitive: number;
+  maxDepth: number;
+  calls: string[];
+  // The call expressions themselves, for the call graph
+  callSites: any[];
+}
+
+const newScope = (): Scope => ({ decisions: 0, cognitive: 0, maxDepth: 0, calls: [], callSites: [] });
+
+interface Context {
+  source: string;
+  file: Scope;
+  scope: Scope;
+  // Names of the classes around the node
+  qualifier: string[];
+  depth: number;
+  nesting: number;
+  onFunction: (node: any, parent: any, name: string, qualifier: string[], scope: Scope) => void;
+}
+
+function isElseIf(node: any, parent: any): boolean {
+  return node.type === 'IfStatement' && parent?.type === 'IfStatement' && parent.alternate === node;
+}
+
+function isDecision(node: any): boolean {
+  switch (node.type) {
+    case 'IfStatement':
+    case 'ConditionalExpression':
+    case 'CatchClause':
+      return true;
+    case 'SwitchCase':
+      return node.test !== null;
+    case 'LogicalExpression':
+      return LOGICAL_OPERATORS.has(node.operator);
+    case 'AssignmentExpression':
+      return ['&&=', '||=', '??='].includes(node.operator);
+    default:
+      return LOOP_TYPES.has(node.type);
+  }
+}
+
+// The operators of a chain such as `a && b || c`, in the order they are written
+function logicalSequence(node: any): string[] {
+  const side = (child: any) => child.type === 'LogicalExpression' ? logicalSequence(child) : [];
+  return [...side(node.left), node.operator, ...side(node.right)];
+}
+
+function cognitiveIncrement(node: any, parent: any, nesting: number): number {
+  let increment = 0;
+  if (STRUCTURE_TYPES.has(node.type) && !isElseIf(node, parent)) increment += 1 + nesting;
+  // Each `else` and `else if` adds one, however deep it is
+  if (node.type === 'IfStatement' && node.alternate) increment++;
+  // A run of like operators adds one, so `a && b && c` adds one and `a && b || c` two
+  if (node.type === 'LogicalExpression' && parent?.type !== 'LogicalExpression') {
+    increment += logicalSequence(node).filter((operator, i, all) => operator !== all[i - 1]).length;
+  }
+  if ((node.type === 'BreakStatement' || node.type === 'ContinueStatement') && node.label) increment++;
+  return increment;
+}
+
+function keyName(node: any, source: string): string | undefined {
+  const key = node.key;
+  if (!key) return undefined;
+  if (node.computed) return key.type === 'StringLiteral' || key.type === 'NumericLiteral' ? String(key.value) : undefined;
+  if (key.type === 'Identifier') return key.name;
+  if (key.type === 'PrivateName') return `#${key.id.name}`;
+  if (key.type === 'StringLiteral' || key.type === 'NumericLiteral') return String(key.value);
+  return source.slice(key.start, key.end);
+}
+
+// `module.exports.run` or `Cart.prototype.total`, for functions assigned to a member and for callees
+export function memberName(node: any): string | undefined {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'ThisExpression') return 'this';
+  if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') && !node.computed && node.property.type === 'Identifier') {
+    const object = memberName(node.object);
+    return object ? `${object}.${node.property.name}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Names the children of a node that take their name from it: the value of a variable,
+ * assignment, property or default export, and the members of a named class or object.
+ */
+function childNames(node: any, name: string | undefined, source: string): Map<any, string> {
+  const names = new Map<any, string>();
+  const qualified = (member: string | undefined) => member && (name ? `${name}.${member}` : member);
+  switch (node.type) {
+    case 'VariableDeclarator':
+      if (node.init && node.id.type === 'Identifier') names.set(node.init, node.id.name);
+      break;
+    case 'AssignmentExpression': {
+      const target = memberName(node.left);
+      if (target) names.set(node.right, target);
+      break;
+    }
+    case 'ExportDefaultDeclaration':
+      names.set(node.declaration, node.declaration.id?.name ?? 'default');
+      break;
+    case 'ObjectExpression':
+      for (const property of node.properties) {
+        const member = qualified(keyName(property, source));
+        if (member) names.set(property, member);
+      }
+      break;
+    case 'ObjectProperty':
+      if (name) names.set(node.value, name);
+      break;
+    case 'ClassProperty':
+    case 'ClassPrivateProperty': {
+      // Named like methods, after their class
+      const member = keyName(node, source);
+      if (member && node.value) names.set(node.value, member);
+      break;
+    }
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+    case 'ParenthesizedExpression':
+      if (name) names.set(node.expression, name);
+      break;
+  }
+  return names;
+}
+
+function parameter(node: any, source: string): FunctionParameter {
+  const text = (n: any) => source.slice(n.start, n.end);
+  const type = (n: any) => n.typeAnnotation?.typeAnnotation ? text(n.typeAnnotation.typeAnnotation) : 'any';
+  switch (node.type) {
+    case 'TSParameterProperty':
+      return parameter(node.parameter, source);
+    case 'AssignmentPattern':
+      return { ...parameter(node.left, source), optional: true, initializer: text(node.right) };
+    case 'RestElement':
+      return { name: `...${text(node.argument)}`, type: type(node), optional: true };
+    case 'Identifier':
+      return { name: node.name, type: type(node), optional: !!node.optional };
+    default:
+      return { name: text({ ...node, end: node.typeAnnotation?.start ?? node.end }).trim(), type: type(node), optional: false };
+  }
+}
+
+function visit(node: any, parent: any, name: string | undefined, context: Context): void {
+  const { file, scope, qualifier } = context;
+  let { depth, nesting } = context;
+
+  if (isDecision(node)) {
+    file.decisions++;
+    scope.decisions++;
+  }
+  if (NESTING_TYPES.has(node.type) && !isElseIf(node, parent)) {
+    depth++;
+    file.maxDepth = Math.max(file.maxDepth, depth);
+    scope.maxDepth = Math.max(scope.maxDepth, depth);
+  }
+  const cognitive = cognitiveIncrement(node, parent, nesting);
+  file.cognitive += cognitive;
+  scope.cognitive += cognitive;
+  if (node.type === 'CallExpression' || node.type === 'OptionalCallExpression') {
+    const callee = memberName(node.callee);
+    if (callee && !scope.calls.includes(callee)) scope.calls.push(callee);
+    scope.callSites.push(node);
+  }
+
+  let childContext: Context;
+  if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+    const className = node.id?.name ?? name;
+    childContext = { ...context, qualifier: className ? [...qualifier, className] : qualifier, depth, nesting };
+  } else if (FUNCTION_TYPES.has(node.type)) {
+    const isMember = ['ClassMethod', 'ClassPrivateMethod'].includes(node.type);
+    const functionName = isMember ? keyName(node, context.source) : (name ?? node.id?.name);
+    if (functionName) {
+      const functionScope = newScope();
+      context.onFunction(node, parent, functionName, qualifier, functionScope);
+      childContext = { ...context, scope: functionScope, depth: 0, nesting: 0 };
+    } else {
+      // Callbacks count towards the function they are written in, one level deeper
+      childContext = { ...context, depth, nesting: nesting + 1 };
+    }
+  } else {
+    if (STRUCTURE_TYPES.has(node.type) && !isElseIf(node, parent)) nesting++;
+    childContext = { ...context, depth, nesting };
+  }
+
+  const names = childNames(node, name, context.source);
+  for (const key of Object.keys(node)) {
+    if (SKIPPED_KEYS.has(key)) continue;
+    const value = node[key];
+    for (const child of Array.isArray(value) ? value : [value]) {
+      if (child && typeof child.type === 'string') visit(child, node, names.get(child), childContext);
+    }
+  }
+}
+
+/**
+ * A parsed file with its analysis. `callSites[i]` holds the call expressions written in
+ * `analysis.functions[i]`, and `moduleCallSites` those outside any named function.
+ */
+export interface JavaScriptModule {
+  program: any;
+  // Babel keeps comments apart from the tree
+  comments: any[];
+  analysis: SourceAnalysis;
+  callSites: any[][];
+  moduleCallSites: any[];
+}
+
+/**
+ * Parses a JavaScript or TypeScript file and reads its functions: declarations, class and
+ * object methods (`Cart.total`, `api.get`), and functions assigned to variables, members or a
+ * default export. Anonymous callbacks count towards the function they are written in.
+ */
+export function analyzeJavaScript(content: string): SourceAnalysis {
+  return readJavaScript(content).analysis;
+}
+
+export function parseJavaScript(content: string) {
+  return parser.parse(content, {
+    sourceType: 'module',
+    plugins: PARSER_PLUGINS,
+    errorRecovery: true,
+    tokens: true,
+  });
+}
+
+export function readJavaScript(content: string): JavaScriptModule {
+  const ast = parseJavaScript(content);
+
+  const lines = content.split('\n');
+  // Rows that hold nothing but a comment
+  const commentRows = new Set<number>();
+  for (const comment of ast.comments ?? []) {
+    if (!comment.loc) continue;
+    for (let row = comment.loc.start.line - 1; row <= comment.loc.end.line - 1; row++) {
+      const line = lines[row] ?? '';
+      const start = row === comment.loc.start.line - 1 ? comment.loc.start.column : 0;
+      const end = row === comment.loc.end.line - 1 ? comment.loc.end.column : line.length;
+      if (!(line.slice(0, start) + line.slice(end)).trim()) commentRows.add(row);
+    }
+  }
+  const sourceLines = (startRow: number, endRow: number) => {
+    let count = 0;
+    for (let row = startRow; row <= endRow; row++) {
+      if (lines[row]?.trim() && !commentRows.has(row)) count++;
+    }
+    return count;
+  };
+
+  const functions: FunctionInfo[] = [];
+  const found: Array<{ node: any; parent: any; name: string; qualifier: string[]; scope: Scope }> = [];
+  const file = newScope();
+  visit(ast.program, null, undefined, {
+    source: content,
+    file,
+    scope: file,
+    qualifier: [],
+    depth: 0,
+    nesting: 0,
+    onFunction: (node, parent, name, qualifier, scope) => found.push({ node, parent, name, qualifier, scope }),
+  });
+
+  for (const { node, parent, name, qualifier, scope } of found) {
+    const startRow = node.loc.start.line - 1;
+    const endRow = node.loc.end.line - 1;
+    const returnType = node.returnType?.typeAnnotation;
+    // Arrow functions in class properties take the property's modifiers
+    const member = FUNCTION_TYPES.has(node.type) && node.key ? node : parent;
+    const visibility = member?.accessibility ?? (member?.key?.type === 'PrivateName' ? 'private' : undefined);
+    functions.push({
+      name: [...qualifier, name].join('.'),
+      startLine: startRow + 1,
+      endLine: endRow + 1,
+      sloc: sourceLines(startRow, endRow),
+      cyclomaticComplexity: 1 + scope.decisions,
+      cognitiveComplexity: scope.cognitive,
+      nestingDepth: scope.maxDepth,
+      parameters: (node.params ?? []).map((param: any) => parameter(param, content)),
+      calls: scope.calls,
+      ...(returnType ? { returnType: content.slice(returnType.start, returnType.end) } : {}),
+      isAsync: !!node.async,
+      ...(visibility ? { visibility } : {}),
+      content: content.slice(node.start, node.end),
+    });
+  }
+
+  const operators: string[] = [];
+  const operands: string[] = [];
+  for (const token of (ast.tokens ?? []) as any[]) {
+    const label: string = token.type?.label ?? token.type;
+    const text = content.slice(token.start, token.end);
+    if (COMMENT_TOKENS.has(label)) continue;
+    if (OPERAND_LABELS.has(label)) {
+      if (text.trim()) operands.push(text);
+    } else if (!CLOSER_LABELS.has(label) && text.trim()) {
+      operators.push(text);
+    }
+  }
+
+  return {
+    program: ast.program,
+    comments: ast.comments ?? [],
+    analysis: {
+      functions,
+      complexity: 1 + file.decisions,
+      cognitiveComplexity: file.cognitive,
+      maxNestingDepth: file.maxDepth,
+      operators,
+      operands,
+      sourceLines: sourceLines(0, lines.length - 1),
+      hasErrors: (ast.errors?.length ?? 0) > 0,
+    },
+    callSites: found.map(({ scope }) => scope.callSites),
+    moduleCallSites: file.callSites,
+  };
+}
+
+/**
+ * Calls `visit` for every node under `node`, parents first, with the nodes enclosing it from
+ * the outermost in.
+ */
+export function walkSyntaxTree(node: any, visit: (node: any, ancestors: any[]) => void, ancestors: any[] = []): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => walkSyntaxTree(child, visit, ancestors));
+    return;
+  }
+  if (!node || typeof node.type !== 'string') return;
+  visit(node, ancestors);
+  ancestors.push(node);
+  for (const key of Object.keys(node)) {
+    if (!SKIPPED_KEYS.has(key) && key !== 'type') walkSyntaxTree(node[key], visit, ancestors);
+  }
+  ancestors.pop();
+}
+
+/**
+ * A module a file loads: through an import or export-from declaration, `require()` or a
+ * dynamic `import()`. `names` are the exports it uses, '*' when it may use any of them, as
+ * a namespace import or an unpacked `require()` can. `typeOnly` marks `import type` and
+ * `export type` declarations, which disappear from the compiled code, and `reexport` marks
+ * export-from declarations, whose names are only used if the re-exported ones are.
+ */
+export interface ModuleImport {
+  specifier: string;
+  line: number;
+  names: string[] | '*';
+  typeOnly: boolean;
+  reexport?: boolean;
+}
+
+/**
+ * A name a file exports, with the line it is declared on. Names re-exported from another
+ * module carry the module and the name they have there; `export * from` is named '*'.
+ */
+export interface ModuleExport {
+  name: string;
+  line: number;
+  source?: string;
+  imported?: string;
+}
+
+const moduleName = (node: any): string => (node.type === 'StringLiteral' ? node.value : node.name);
+
+// `Order` in `import('./types').Order.Line`
+function qualifiedRoot(name: any): string {
+  return name.type === 'TSQualifiedName' ? qualifiedRoot(name.left) : name.name;
+}
+
+// The names a `require()` call uses, from what its result is unpacked into
+function requiredNames(parent: any, call: any): string[] | '*' {
+  if (parent?.type === 'VariableDeclarator' && parent.init === call && parent.id.type === 'ObjectPattern'
+    && parent.id.properties.every((property: any) => property.type === 'ObjectProperty' && !property.computed)) {
+    return parent.id.properties.map((property: any) => moduleName(property.key));
+  }
+  if (parent?.type === 'MemberExpression' && parent.object === call && !parent.computed) return [parent.property.name];
+  return '*';
+}
+
+export function readImports(program: any): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  const add = (source: any, node: any, names: ModuleImport['names'], typeOnly = false, reexport = false) => {
+    // TypeScript's import types hold the string in a literal type
+    const literal = source?.type === 'TSLiteralType' ? source.literal : source;
+    if (literal?.type !== 'StringLiteral') return;
+    imports.push({ specifier: literal.value, line: node.loc?.start.line ?? 0, names, typeOnly, ...(reexport ? { reexport } : {}) });
+  };
+  const walk = (node: any, parent: any): void => {
+    if (Array.isArray(node)) {
+      node.forEach(child => walk(child, parent));
+      return;
+    }
+    if (!node || typeof node.type !== 'string') return;
+    switch (node.type) {
+      case 'ImportDeclaration': {
+        const specifiers: any[] = node.specifiers;
+        const names = specifiers.some(specifier => specifier.type === 'ImportNamespaceSpecifier') ? '*'
+          : specifiers.map(specifier => (specifier.type === 'ImportDefaultSpecifier' ? 'default' : moduleName(specifier.imported)));
+        add(node.source, node, names, node.importKind === 'type'
+          || (specifiers.length > 0 && specifiers.every(specifier => specifier.importKind === 'type')));
+        return;
+      }
+      case 'ExportNamedDeclaration':
+        if (node.source) {
+          const names = (node.specifiers as any[]).map(specifier => specifier.type === 'ExportNamespaceSpecifier' ? '*'
+            : specifier.type === 'ExportDefaultSpecifier' ? 'default' : moduleName(specifier.local));
+          add(node.source, node, names.includes('*') ? '*' : names, node.exportKind === 'type', true);
+        }
+        break;
+      case 'ExportAllDeclaration':
+        add(node.source, node, '*', node.exportKind === 'type', true);
+        return;
+      case 'ImportExpression':
+        add(node.source, node, '*');
+        break;
+      case 'TSImportEqualsDeclaration':
+        // import fs = require('fs')
+        if (node.moduleReference.type === 'TSExternalModuleReference') add(node.moduleReference.expression, node, '*', node.importKind === 'type');
+        return;
+      case 'TSImportType':
+        // typeof import('./config') and import('./types').Order
+        add(node.argument, node, node.qualifier ? [qualifiedRoot(node.qualifier)] : '*', true);
+        break;
+      case 'CallExpression':
+        if (node.callee.type === 'Import') add(node.arguments[0], node, '*');
+        if (node.callee.type === 'Identifier' && node.callee.name === 'require') add(node.arguments[0], node, requiredNames(parent, node));
+        break;
+    }
+    for (const key of Object.keys(node)) {
+      if (!SKIPPED_KEYS.has(key) && key !== 'type') walk(node[key], node);
+    }
+  };
+  walk(program, null);
+  return imports;
+}
+
+/**
+ * The ES module exports of a file, including TypeScript types. CommonJS exports are left out,
+ * since what `module.exports` ends up holding cannot always be read statically.
+ */
+export function readExports(program: any): ModuleExport[] {
+  const exports: ModuleExport[] = [];
+  const line = (node: any) => node.loc?.start.line ?? 0;
+  for (const statement of program.body) {
+    switch (statement.type) {
+      case 'ExportNamedDeclaration': {
+        const declaration = statement.declaration;
+        if (declaration?.type === 'VariableDeclaration') {
+          for (const declarator of declaration.declarations) {
+            for (const name of bindingNames(declarator.id)) exports.push({ name, line: line(declarator) });
+          }
+        } else if (declaration?.id) {
+          exports.push({ name: moduleName(declaration.id), line: line(statement) });
+        }
+        for (const specifier of statement.specifiers ?? []) {
+          const name = moduleName(specifier.exported);
+          if (!statement.source) {
+            exports.push({ name, line: line(specifier) });
+            continue;
+          }
+          const imported = specifier.type === 'ExportNamespaceSpecifier' ? '*' : specifier.type === 'ExportDefaultSpecifier' ? 'default' : moduleName(specifier.local);
+          exports.push({ name, line: line(specifier), source: statement.source.value, imported });
+        }
+        break;
+      }
+      case 'ExportDefaultDeclaration':
+        exports.push({ name: 'default', line: line(statement) });
+        break;
+      case 'ExportAllDeclaration':
+        exports.push({ name: '*', line: line(statement), source: statement.source.value, imported: '*' });
+        break;
+    }
+  }
+  return exports;
+}
+
+// Names bound by a declaration's pattern, such as `const { a, b: [c] } = ...`
+export function bindingNames(pattern: any): string[] {
+  switch (pattern?.type) {
+    case 'Identifier':
+      return [pattern.name];
+    case 'ObjectPattern':
+      return pattern.properties.flatMap((property: any) => bindingNames(property.type === 'RestElement' ? property.argument : property.value));
+    case 'ArrayPattern':
+      return pattern.elements.flatMap(bindingNames);
+    case 'RestElement':
+      return bindingNames(pattern.argument);
+    case 'AssignmentPattern':
+      return bindingNames(pattern.left);
+    case 'TSParameterProperty':
+      return bindingNames(pattern.parameter);
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Key functions: the functions most worth reading first. Every parsed function is a candidate;
+ * calls between them are matched by name across the repository to count each function's
+ * fan-in and fan-out, and the ranking weighs those against complexity and length.
+ */
+
+import * as path from 'path';
+import { FileInfo, FunctionInfo, FunctionReference, KeyFunction } from '../types';
+
+// How much each measure counts towards a function's importance
+const IMPORTANCE_WEIGHTS = { complexity: 0.35, fanIn: 0.35, fanOut: 0.15, length: 0.15 };
+// Callers and callees listed on each function; the counts cover all of them
+const LISTED_REFERENCES = 10;
+
+const lastSegment = (name: string) => name.slice(name.lastIndexOf('.') + 1);
+const qualifierOf = (name: string) => name.slice(0, Math.max(0, name.lastIndexOf('.')));
+const keyOf = (fn: FunctionReference) => `${fn.file}#${fn.name}`;
+
+export function keyFunctionCandidates(file: string, functions: FunctionInfo[]): KeyFunction[] {
+  return functions.map(fn => ({
+    name: fn.name,
+    file,
+    complexity: fn.cyclomaticComplexity ?? 1,
+    explanation: '',
+    linesOfCode: fn.sloc,
+    parameters: fn.parameters,
+    returnType: fn.returnType,
+    calls: fn.calls,
+    isAsync: fn.isAsync,
+    visibility: fn.visibility,
+    startLine: fn.startLine,
+    endLine: fn.endLine,
+    cognitiveComplexity: fn.cognitiveComplexity,
+  }));
+}
+
+/**
+ * Finds the function a call reaches, by the callee's last name. `this.save` and bare calls
+ * prefer the caller's own file and class; a call through another receiver, such as
+ * `orders.save`, only reaches a function of that name in a file, class or object called `orders`.
+ * Calls that stay ambiguous are left unresolved rather than guessed.
+ */
+function resolveCall(call: string, caller: KeyFunction, byName: Map<string, KeyFunction[]>): KeyFunction | undefined {
+  const candidates = (byName.get(lastSegment(call)) ?? []).filter(fn => fn !== caller);
+  if (candidates.length === 0) return undefined;
+
+  const receiver = qualifierOf(call);
+  const isOwn = !receiver || ['this', 'self', 'cls', 'super'].includes(receiver);
+  if (isOwn) {
+    const sameFile = candidates.filter(fn => fn.file === caller.file);
+    const sameClass = sameFile.filter(fn => qualifierOf(fn.name) === qualifierOf(caller.name));
+    if (sameClass.length === 1) return sameClass[0];
+    if (sameFile.length === 1) return sameFile[0];
+    if (sameFile.length === 0 && !receiver && candidates.length === 1) return candidates[0];
+    return undefined;
+  }
+
+  // Instances are usually named after their class, so `orders.save` reaches `Orders.save`
+  const receiverName = lastSegment(receiver).toLowerCase();
+  const matching = candidates.filter(fn =>
+    fn.name === call ||
+    fn.name.endsWith(`.${call}`) ||
+    lastSegment(qualifierOf(fn.name)).toLowerCase() === receiverName ||
+    (!qualifierOf(fn.name) && path.basename(fn.file, path.extname(fn.file)).toLowerCase() === receiverName)
+  );
+  return matching.length === 1 ? matching[0] : undefined;
+}
+
+function explain(fn: KeyFunction): string {
+  const complexity = fn.cognitiveComplexity !== undefined
+    ? `cyclomatic complexity ${fn.complexity} and cognitive complexity ${fn.cognitiveComplexity}`
+    : `cyclomatic complexity ${fn.complexity}`;
+  const length = fn.linesOfCode !== undefined ? ` over ${fn.linesOfCode} lines` : '';
+  const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+  return `Has ${complexity}${length}. Called by ${plural(fn.fanIn ?? 0, 'function')} in the repository and calls ${plural(fn.fanOut ?? 0, 'other')}.`;
+}
+
+/**
+ * Counts calls between the candidates, scores each from 0 to 100 against the largest
+ * complexity, fan-in, fan-out and length in the repository, and keeps the highest scoring.
+ */
+export function rankKeyFunctions(candidates: KeyFunction[], files: Array<Pick<FileInfo, 'path' | 'content'>> = [], limit = 20): KeyFunction[] {
+  const byName = new Map<string, KeyFunction[]>();
+  for (const fn of candidates) {
+    const name = lastSegment(fn.name);
+    byName.set(name, [...(byName.get(name) ?? []), fn]);
+  }
+
+  const callers = new Map<string, KeyFunction[]>();
+  const callees = new Map<string, KeyFunction[]>();
+  for (const caller of candidates) {
+    const reached = new Set<KeyFunction>();
+    for (const call of caller.calls ?? []) {
+      const callee = resolveCall(call, caller, byName);
+      if (callee) reached.add(callee);
+    }
+    callees.set(keyOf(caller), [...reached]);
+    for (const callee of reached) {
+      callers.set(keyOf(callee), [...(callers.get(keyOf(callee)) ?? []), caller]);
+    }
+  }
+
+  const reference = (fn: KeyFunction): FunctionReference => ({ name: fn.name, file: fn.file });
+  const linked = candidates.map(fn => {
+    const fnCallers = callers.get(keyOf(fn)) ?? [];
+    const fnCallees = callees.get(keyOf(fn)) ?? [];
+    return {
+      ...fn,
+      callers: fnCallers.slice(0, LISTED_REFERENCES).map(reference),
+      callees: fnCallees.slice(0, LISTED_REFERENCES).map(reference),
+      fanIn: fnCallers.length,
+      fanOut: fnCallees.length,
+    };
+  });
+
+  const complexityOf = (fn: KeyFunction) => fn.cognitiveComplexity ?? fn.complexity;
+  const highest = (measure: (fn: KeyFunction) => number) => Math.max(1, ...linked.map(measure));
+  const maxima = {
+    complexity: highest(complexityOf),
+    fanIn: highest(fn => fn.fanIn ?? 0),
+    fanOut: highest(fn => fn.fanOut ?? 0),
+    length: highest(fn => fn.linesOfCode ?? 0),
+  };
+  const scored = linked.map(fn => ({
+    ...fn,
+    importance: Math.round(100 * (
+      IMPORTANCE_WEIGHTS.complexity * complexityOf(fn) / maxima.complexity +
+      IMPORTANCE_WEIGHTS.fanIn * (fn.fanIn ?? 0) / maxima.fanIn +
+      IMPORTANCE_WEIGHTS.fanOut * (fn.fanOut ?? 0) / maxima.fanOut +
+      IMPORTANCE_WEIGHTS.length * (fn.linesOfCode ?? 0) / maxima.length
+    ) * 10) / 10,
+  }));
+
+  const contents = new Map(files.map(file => [file.path, file.content]));
+  return scored
+    .sort((a, b) => b.importance - a.importance || b.complexity - a.complexity || (b.linesOfCode ?? 0) - (a.linesOfCode ?? 0))
+    .slice(0, limit)
+    .map(fn => {
+      const content = contents.get(fn.file);
+      return {
+        ...fn,
+        explanation: explain(fn),
+        ...(content && fn.startLine && fn.endLine
+          ? { content: content.split('\n').slice(fn.startLine - 1, fn.endLine).join('\n') }
+          : {}),
+      };
+    });
+}
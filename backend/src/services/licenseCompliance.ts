@@ -0,0 +1,376 @@
+/**
+ * Checks the licenses of a repository's dependencies against the license rules of
+ * DependencyConfig. Licenses come from the lockfile where it records them (package-lock.json)
+ * and otherwise from package metadata vendored into the repository: node_modules package.json
+ * files, installed Python distributions, `cargo vendor` crates and the license texts of
+ * vendored Go modules.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import correctSpdx from 'spdx-correct';
+import parseSpdxExpression from 'spdx-expression-parse';
+import { DependencyConfigSchema } from '../config/dependencies.config';
+import { ManifestFile } from './dependencyManifests';
+import { buildDependencyGraph, packageNodeId } from './packageGraph';
+import { isVendoredPackageMetadata } from './repositoryFiles';
+import {
+  DependencyEcosystem,
+  DependencyLicense,
+  DependencyPackage,
+  LicenseAction,
+  LicenseCategory,
+  LicenseComplianceReport,
+  LicensePolicy,
+} from '../types';
+
+const LicensePolicySchema = DependencyConfigSchema.shape.rules.pick({
+  allowedLicenses: true,
+  deniedLicenses: true,
+  copyleft: true,
+  unknownLicenses: true,
+  checkDevDependencyLicenses: true,
+});
+
+export const DEFAULT_LICENSE_POLICY: LicensePolicy = LicensePolicySchema.parse({});
+
+/**
+ * The license policy: DependencyConfig's defaults, overridden by the rules in the JSON file
+ * at LICENSE_POLICY_PATH when one is configured.
+ */
+export async function loadLicensePolicy(): Promise<LicensePolicy> {
+  const file = process.env.LICENSE_POLICY_PATH;
+  if (!file) return DEFAULT_LICENSE_POLICY;
+  return LicensePolicySchema.parse(JSON.parse(await fs.readFile(file, 'utf8')));
+}
+
+// --- Vendored package metadata ---
+
+interface VendoredLicense {
+  ecosystem: DependencyEcosystem;
+  name: string;
+  version?: string;
+  license: string;
+  source: string;
+}
+
+const normalizePythonName = (name: string) => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+// npm has used a license string, a { type } object and a list of either over the years
+function npmLicense(manifest: Record<string, any>): string | undefined {
+  const declared = manifest.license ?? manifest.licenses;
+  const names = (Array.isArray(declared) ? declared : [declared])
+    .map(entry => (typeof entry === 'string' ? entry : entry?.type))
+    .filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '');
+  if (names.length === 0) return undefined;
+  return names.length === 1 ? names[0] : `(${names.join(' OR ')})`;
+}
+
+/**
+ * License of an installed Python distribution. Core metadata 2.4 has an SPDX expression;
+ * older metadata has trove classifiers, or a free-text License field that some projects
+ * fill with the whole license text.
+ */
+function pythonLicense(headers: Array<[string, string]>): string | undefined {
+  const field = (name: string) => headers.find(([key]) => key === name)?.[1];
+  const expression = field('license-expression');
+  if (expression) return expression;
+  const classifiers = headers
+    .filter(([key, value]) => key === 'classifier' && value.startsWith('License ::'))
+    .map(([, value]) => value.split('::').pop()!.trim())
+    .filter(name => name !== 'OSI Approved');
+  if (classifiers.length > 0) return classifiers.length === 1 ? classifiers[0] : `(${classifiers.join(' OR ')})`;
+  const license = field('license');
+  return license && license !== 'UNKNOWN' && !license.includes('\n') ? license : undefined;
+}
+
+function readPythonMetadata(content: string): Array<[string, string]> {
+  // Headers end at the first blank line, where the long description starts
+  const headers: Array<[string, string]> = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '') break;
+    if (/^\s/.test(line) && headers.length > 0) {
+      headers[headers.length - 1][1] += `\n${line.trim()}`;
+      continue;
+    }
+    const match = /^([A-Za-z0-9-]+):\s*(.*)$/.exec(line);
+    if (match) headers.push([match[1].toLowerCase(), match[2].trim()]);
+  }
+  return headers;
+}
+
+// Distinctive phrases of common license texts. LGPL and AGPL texts mention the GPL, so they
+// are looked for first
+const LICENSE_TEXTS: Array<[string, RegExp[]]> = [
+  ['AGPL-3.0-only', [/GNU AFFERO GENERAL PUBLIC LICENSE/i]],
+  ['LGPL-3.0-only', [/GNU LESSER GENERAL PUBLIC LICENSE/i, /Version 3/i]],
+  ['LGPL-2.1-only', [/GNU LESSER GENERAL PUBLIC LICENSE/i, /Version 2\.1/i]],
+  ['GPL-3.0-only', [/GNU GENERAL PUBLIC LICENSE/i, /Version 3/i]],
+  ['GPL-2.0-only', [/GNU GENERAL PUBLIC LICENSE/i, /Version 2/i]],
+  ['MPL-2.0', [/Mozilla Public License,? version 2\.0/i]],
+  ['Apache-2.0', [/Apache License/i, /Version 2\.0/i]],
+  ['BSD-3-Clause', [/Redistribution and use in source and binary forms/i, /Neither the name|names of its contributors may not be used/i]],
+  ['BSD-2-Clause', [/Redistribution and use in source and binary forms/i]],
+  ['ISC', [/Permission to use, copy, modify, and\/or distribute this software for any purpose/i]],
+  ['MIT', [/Permission is hereby granted, free of charge/i]],
+  ['Unlicense', [/This is free and unencumbered software released into the public domain/i]],
+];
+
+/**
+ * SPDX identifier of a license text, for vendored code that ships the text but no metadata.
+ * The text alone does not say whether later GPL versions may be used, so `-only` is assumed.
+ */
+export function identifyLicenseText(text: string): string | undefined {
+  const flattened = text.replace(/\s+/g, ' ');
+  return LICENSE_TEXTS.find(([, patterns]) => patterns.every(pattern => pattern.test(flattened)))?.[0];
+}
+
+function readVendoredLicense(file: ManifestFile): VendoredLicense | undefined {
+  const fileName = path.posix.basename(file.path);
+  if (fileName === 'package.json') {
+    const manifest = JSON.parse(file.content);
+    const license = npmLicense(manifest);
+    if (typeof manifest.name !== 'string' || !license) return undefined;
+    return { ecosystem: 'npm', name: manifest.name, version: manifest.version, license, source: file.path };
+  }
+  if (fileName === 'METADATA' || fileName === 'PKG-INFO') {
+    const headers = readPythonMetadata(file.content);
+    const name = headers.find(([key]) => key === 'name')?.[1];
+    const license = pythonLicense(headers);
+    if (!name || !license) return undefined;
+    return { ecosystem: 'PyPI', name, version: headers.find(([key]) => key === 'version')?.[1], license, source: file.path };
+  }
+  if (fileName === 'Cargo.toml') {
+    const crate = (parseToml(file.content) as Record<string, any>).package;
+    const license = crate?.license ?? (crate?.['license-file'] ? `SEE LICENSE IN ${crate['license-file']}` : undefined);
+    if (typeof crate?.name !== 'string' || typeof license !== 'string') return undefined;
+    return { ecosystem: 'crates.io', name: crate.name, version: crate.version, license, source: file.path };
+  }
+  // A Go module's license text sits at vendor/<module path>/LICENSE
+  const license = identifyLicenseText(file.content);
+  const module = /(?:^|\/)vendor\/(.+)\/[^/]+$/.exec(file.path)?.[1];
+  return license && module ? { ecosystem: 'Go', name: module, license, source: file.path } : undefined;
+}
+
+/**
+ * Fills in the licenses lockfiles do not record from vendored package metadata, matched by
+ * name and version, or by name alone when no vendored copy has the locked version.
+ */
+export function resolvePackageLicenses(packages: DependencyPackage[], files: ManifestFile[]): DependencyPackage[] {
+  const key = (ecosystem: DependencyEcosystem, name: string) =>
+    `${ecosystem}:${ecosystem === 'PyPI' ? normalizePythonName(name) : name}`;
+  const byVersion = new Map<string, VendoredLicense>();
+  const byName = new Map<string, VendoredLicense>();
+  for (const file of files) {
+    if (!isVendoredPackageMetadata(file.path)) continue;
+    let vendored: VendoredLicense | undefined;
+    try {
+      vendored = readVendoredLicense(file);
+    } catch {
+      // Vendored files belong to other projects; one that cannot be read only leaves its license unknown
+      continue;
+    }
+    if (!vendored) continue;
+    const nameKey = key(vendored.ecosystem, vendored.name);
+    if (vendored.version && !byVersion.has(`${nameKey}@${vendored.version}`)) byVersion.set(`${nameKey}@${vendored.version}`, vendored);
+    if (!byName.has(nameKey)) byName.set(nameKey, vendored);
+  }
+  if (byName.size === 0) return packages;
+
+  return packages.map(pkg => {
+    if (pkg.license) return pkg;
+    const nameKey = key(pkg.ecosystem, pkg.name);
+    const vendored = byVersion.get(`${nameKey}@${pkg.resolvedVersion}`) ?? byName.get(nameKey);
+    return vendored ? { ...pkg, license: vendored.license, licenseSource: vendored.source } : pkg;
+  });
+}
+
+// --- Policy evaluation ---
+
+type SpdxNode = ReturnType<typeof parseSpdxExpression>;
+type SpdxLicense = Extract<SpdxNode, { license: string }>;
+
+interface Verdict {
+  status: DependencyLicense['status'];
+  category: LicenseCategory;
+  reason: string;
+}
+
+const STATUS_RANK: Record<Verdict['status'], number> = { allowed: 0, review: 1, denied: 2 };
+const ACTION_STATUS: Record<LicenseAction, Verdict['status']> = { allow: 'allowed', review: 'review', deny: 'denied' };
+
+const COPYLEFT_FAMILIES: Array<[LicenseCategory, RegExp]> = [
+  ['network-copyleft', /^(AGPL-|SSPL-)/i],
+  ['strong-copyleft', /^(GPL-|OSL-|EUPL-|CC-BY-SA-|RPL-|Sleepycat$)/i],
+  ['weak-copyleft', /^(LGPL-|MPL-|EPL-|CDDL-|CPL-|MS-RL$|CECILL-C$)/i],
+];
+
+// Exceptions letting code be linked or its output used without the rest falling under the license
+const LINKING_EXCEPTIONS = /classpath|gcc|linking|llvm|autoconf|bison|font/i;
+
+function isSpdxExpression(license: string): boolean {
+  try {
+    parseSpdxExpression(license);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * An SPDX expression for what a package declares, correcting common spellings such as
+ * "Apache 2.0" or "MIT License". Undefined when it cannot be read as one.
+ */
+function toSpdxExpression(license: string): string | undefined {
+  const trimmed = license.trim();
+  if (isSpdxExpression(trimmed)) return trimmed;
+  const corrected = correctSpdx(trimmed);
+  if (corrected) return corrected;
+  // Loosely written identifiers in a flat expression, e.g. "(MIT OR Apache 2.0)"
+  const parts = trimmed.replace(/^\((.*)\)$/, '$1').split(/\s+(AND|OR)\s+/i);
+  const terms = parts.map((part, index) => (index % 2 === 1 ? part.toUpperCase() : correctSpdx(part)));
+  if (parts.length < 3 || terms.some(term => !term)) return undefined;
+  const expression = `(${terms.join(' ')})`;
+  return isSpdxExpression(expression) ? expression : undefined;
+}
+
+// The current identifier for deprecated GNU ones, e.g. GPL-2.0+ is GPL-2.0-or-later
+function canonicalLicenseId(license: string, plus?: boolean): string {
+  if (/^(A|L)?GPL-\d\.\d$/i.test(license)) return `${license}-${plus ? 'or-later' : 'only'}`;
+  return plus ? `${license}+` : license;
+}
+
+function policyLicenseSet(licenses: string[]): Set<string> {
+  return new Set(licenses.map(license => {
+    try {
+      const node = parseSpdxExpression(license.trim());
+      if ('license' in node) return canonicalLicenseId(node.license, node.plus).toLowerCase();
+    } catch {
+      // Kept as written, so a policy can still name licenses SPDX does not list
+    }
+    return license.trim().toLowerCase();
+  }));
+}
+
+function licenseCategory(node: SpdxLicense): LicenseCategory {
+  if (/^(LicenseRef-|DocumentRef-)/.test(node.license)) return 'unknown';
+  const category = COPYLEFT_FAMILIES.find(([, family]) => family.test(node.license))?.[0] ?? 'permissive';
+  if (category === 'strong-copyleft' && node.exception && LINKING_EXCEPTIONS.test(node.exception)) return 'weak-copyleft';
+  return category;
+}
+
+interface CompiledPolicy {
+  policy: LicensePolicy;
+  allowed: Set<string>;
+  denied: Set<string>;
+}
+
+function judgeLicense(node: SpdxLicense, { policy, allowed, denied }: CompiledPolicy): Verdict {
+  const id = canonicalLicenseId(node.license, node.plus);
+  const name = node.exception ? `${id} WITH ${node.exception}` : id;
+  const category = licenseCategory(node);
+  if (denied.has(id.toLowerCase())) return { status: 'denied', category, reason: `${name} is on the denied list` };
+  if (allowed.has(id.toLowerCase())) return { status: 'allowed', category, reason: `${name} is on the allowed list` };
+  if (category === 'unknown') {
+    return { status: ACTION_STATUS[policy.unknownLicenses], category, reason: `${name} refers to a license text outside the SPDX list` };
+  }
+  if (category !== 'permissive') {
+    const kind = category.replace('-copyleft', '') as keyof LicensePolicy['copyleft'];
+    return { status: ACTION_STATUS[policy.copyleft[kind]], category, reason: `${name} is a ${kind} copyleft license` };
+  }
+  if (allowed.size > 0) return { status: 'review', category, reason: `${name} is not on the allowed list` };
+  return { status: 'allowed', category, reason: `${name} has no copyleft terms` };
+}
+
+// A choice of licenses is as good as its best option, a combination as bad as its worst part
+function judgeExpression(node: SpdxNode, policy: CompiledPolicy): Verdict {
+  if ('license' in node) return judgeLicense(node, policy);
+  const left = judgeExpression(node.left, policy);
+  const right = judgeExpression(node.right, policy);
+  const preferLeft = node.conjunction === 'or'
+    ? STATUS_RANK[left.status] <= STATUS_RANK[right.status]
+    : STATUS_RANK[left.status] >= STATUS_RANK[right.status];
+  return preferLeft ? left : right;
+}
+
+function judgePackageLicense(license: string | undefined, policy: CompiledPolicy): Verdict & { expression?: string } {
+  const unknown = ACTION_STATUS[policy.policy.unknownLicenses];
+  if (!license) {
+    return { status: unknown, category: 'unknown', reason: 'No license found in lockfiles or vendored package metadata' };
+  }
+  // npm's marker for packages not licensed for use by others
+  if (/^UNLICENSED$/i.test(license.trim())) {
+    return { status: unknown, category: 'proprietary', reason: 'The package is declared UNLICENSED (proprietary)' };
+  }
+  const expression = toSpdxExpression(license);
+  if (!expression) {
+    return { status: unknown, category: 'unknown', reason: `"${license}" is not an SPDX license expression` };
+  }
+  return { ...judgeExpression(parseSpdxExpression(expression), policy), expression };
+}
+
+/**
+ * Judges every installed package by its license. Each package and version is listed once;
+ * development-only packages are listed but only count when the policy checks them.
+ */
+export function checkLicenseCompliance(packages: DependencyPackage[], policy: LicensePolicy): LicenseComplianceReport {
+  const compiled: CompiledPolicy = {
+    policy,
+    allowed: policyLicenseSet(policy.allowedLicenses),
+    denied: policyLicenseSet(policy.deniedLicenses),
+  };
+  const graph = buildDependencyGraph(packages);
+  const devOnly = new Map(graph.nodes.map(node => [node.id, node.dev]));
+  // A package declared by a manifest and listed by its lockfile may carry the license on either
+  const licenses = new Map<string, DependencyPackage>();
+  for (const pkg of packages) {
+    const id = packageNodeId(pkg);
+    if (pkg.license && !licenses.get(id)?.license) licenses.set(id, pkg);
+  }
+
+  const results: DependencyLicense[] = [];
+  const seen = new Set<string>();
+  for (const pkg of packages) {
+    const id = packageNodeId(pkg);
+    if (seen.has(id)) continue;
+    seen.add(id);
+    const licensed = licenses.get(id);
+    const verdict = judgePackageLicense(licensed?.license, compiled);
+    const dev = devOnly.get(id) ?? pkg.dev;
+    results.push({
+      packageName: pkg.name,
+      ecosystem: pkg.ecosystem,
+      version: pkg.resolvedVersion ?? pkg.version,
+      license: verdict.expression ?? licensed?.license,
+      licenseSource: licensed?.licenseSource,
+      category: verdict.category,
+      status: verdict.status,
+      reason: verdict.reason,
+      manifestPath: pkg.manifestPath,
+      direct: pkg.direct,
+      dev,
+      checked: !dev || policy.checkDevDependencyLicenses,
+    });
+  }
+
+  const checked = results.filter(result => result.checked);
+  const distribution = new Map<string, { license: string; category: LicenseCategory; count: number }>();
+  for (const result of results) {
+    const license = result.license ?? 'Unknown';
+    const entry = distribution.get(license) ?? { license, category: result.category, count: 0 };
+    entry.count++;
+    distribution.set(license, entry);
+  }
+  return {
+    policy,
+    packages: results,
+    summary: {
+      allowed: checked.filter(result => result.status === 'allowed').length,
+      review: checked.filter(result => result.status === 'review').length,
+      denied: checked.filter(result => result.status === 'denied').length,
+      unknown: checked.filter(result => result.category === 'unknown' || result.category === 'proprietary').length,
+    },
+    distribution: [...distribution.values()].sort((a, b) => b.count - a.count || a.license.localeCompare(b.license)),
+  };
+}
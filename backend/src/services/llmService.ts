@@ -208,7 +208,10 @@ Enhanced Mermaid Code:
       }
     }
   }
-  async generateText(prompt: string, maxTokens: number = 1000): Promise<string> {
+  /**
+   * Aborting `signal` cancels the provider request and stops any pending retries.
+   */
+  async generateText(prompt: string, maxTokens: number = 1000, signal?: AbortSignal): Promise<string> {
     const modelName = this.config.model;
     if (!modelName) {
         throw new LLMError(`No model specified for provider ${this.config.provider}`);
@@ -227,7 +230,7 @@ Enhanced Mermaid Code:
             messages: [{ role: 'user', content: prompt }],
             max_tokens: maxTokens,
             temperature: 0.5,
-          });
+          }, { signal });
           return openaiResponse.choices[0]?.message?.content || '';
         }        case 'gemini': {
           if (!this.googleAI) throw new LLMError('Google AI (Gemini) not initialized.');
@@ -239,7 +242,8 @@ Enhanced Mermaid Code:
               // Use the correct structure for GoogleGenAI SDK
               const result = await this.googleAI.models.generateContent({
                 model: modelName,
-                contents: [{ role: "user", parts: [{ text: prompt }] }]
+                contents: [{ role: "user", parts: [{ text: prompt }] }],
+                config: { abortSignal: signal }
               });
               
               // Extract text from the response using the correct property
@@ -250,6 +254,7 @@ Enhanced Mermaid Code:
               } else {
                 throw new LLMError("Empty or invalid response from Gemini.");
               }            } catch (error) {
+              if (signal?.aborted) throw error;
               retryCount++;
                 // Check for non-retryable errors including quota exhaustion
               if (error instanceof Error && (
@@ -291,7 +296,7 @@ Enhanced Mermaid Code:
             max_tokens: maxTokens,
             temperature: 0.5,
             messages: [{ role: 'user', content: prompt }],
-          });
+          }, { signal });
           return claudeResponse.content[0]?.type === 'text' 
               ? claudeResponse.content[0].text 
               : '';
@@ -300,6 +305,9 @@ Enhanced Mermaid Code:
           throw new LLMError('Unsupported LLM provider configured.');
       }
     } catch (error) {
+      if (signal?.aborted) {
+        throw new LLMError(`LLM request cancelled for ${this.config.provider}.`, error);
+      }
       console.error('LLM generation error:', error);
       if (error instanceof LLMError) throw error;
       if (error instanceof Error ) {
@@ -535,7 +543,7 @@ Focus on actionable insights. Return only the analysis text.`;
     return this.generateText(prompt, 400);
   }
 
-   async analyzeAlgorithmicComplexity(content: string, fileName: string): Promise<{
+   async analyzeAlgorithmicComplexity(content: string, fileName: string, signal?: AbortSignal): Promise<{
     complexity: string; 
     runtime: string;    
     recommendation?: string;
@@ -550,7 +558,7 @@ ${content.substring(0, 2000)}
 \`\`\`
 Return ONLY the JSON object. Focus on the most significant complexity.`;
     try {
-      const response = await this.generateText(prompt, 300);
+      const response = await this.generateText(prompt, 300, signal);
       const cleanedResponse = this.cleanJsonResponse(response);
       if (!cleanedResponse) {
         console.warn(`[LLMService] Cleaned response for complexity was null or empty. Original: ${response}`);
@@ -0,0 +1,511 @@
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import * as path from 'path';
+import * as fs from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
+import {
+  contentLimit, getLanguageFromExtension, getPrimaryLanguage, splitUnifiedDiff
+} from './repositoryFiles';
+import { ChangedFile, RepositoryProvider } from './repositoryProvider';
+
+const execFileAsync = promisify(execFile);
+
+// git log output for a few thousand commits with numstat can get large
+const GIT_MAX_BUFFER = 256 * 1024 * 1024;
+
+const RECORD_SEPARATOR = '\x1e';
+const FIELD_SEPARATOR = '\x1f';
+
+interface TreeEntry {
+  sha: string;
+  size: number;
+  path: string;
+}
+
+/**
+ * Reads repository data straight from a git object store on the local filesystem.
+ * Works for regular checkouts and bare repositories alike, so repositories hosted on
+ * internal git servers can be audited without any network access.
+ */
+export class LocalGitService implements RepositoryProvider {
+  readonly kind = 'local';
+  readonly owner = 'local';
+  readonly repo: string;
+  readonly webUrl: string;
+  private repoPath: string;
+
+  constructor(repoPath: string) {
+    this.repoPath = path.resolve(repoPath);
+    this.repo = path.basename(this.repoPath).replace(/\.git$/, '');
+    this.webUrl = pathToFileURL(this.repoPath).href;
+  }
+
+  /**
+   * Returns the filesystem path for `file://` URLs and absolute paths, or null for
+   * anything that should go through a remote provider instead.
+   */
+  static parseLocalRepoUrl(repoUrl: string): string | null {
+    const trimmed = repoUrl.trim();
+    if (trimmed.startsWith('file://')) {
+      try {
+        return fileURLToPath(trimmed);
+      } catch {
+        return null;
+      }
+    }
+    if (path.isAbsolute(trimmed) && !/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+      return trimmed;
+    }
+    return null;
+  }
+
+  /**
+   * Local analysis reads arbitrary paths on the server, so it is only enabled for the
+   * directories listed in LOCAL_REPO_ROOTS (comma-separated).
+   */
+  static getAllowedRoots(): string[] {
+    return (process.env.LOCAL_REPO_ROOTS || '')
+      .split(',')
+      .map(root => root.trim())
+      .filter(Boolean)
+      .map(root => path.resolve(root));
+  }
+
+  static isPathAllowed(repoPath: string): boolean {
+    const resolved = path.resolve(repoPath);
+    return LocalGitService.getAllowedRoots().some(root =>
+      resolved === root || resolved.startsWith(root + path.sep)
+    );
+  }
+
+  /**
+   * Creates a service for a local repository URL, or returns null if the URL is remote.
+   * Throws when the path is local but not permitted or not a git repository.
+   */
+  static async fromUrl(repoUrl: string): Promise<LocalGitService | null> {
+    const repoPath = LocalGitService.parseLocalRepoUrl(repoUrl);
+    if (!repoPath) return null;
+
+    if (LocalGitService.getAllowedRoots().length === 0) {
+      throw new Error('Local repository analysis is disabled. Set LOCAL_REPO_ROOTS on the server to enable it.');
+    }
+    if (!LocalGitService.isPathAllowed(repoPath)) {
+      throw new Error(`Local repository path ${repoPath} is outside the directories allowed by LOCAL_REPO_ROOTS.`);
+    }
+
+    // Resolve symlinks before the final check so a link cannot escape the allowed roots
+    const realPath = await fs.promises.realpath(repoPath).catch(() => {
+      throw new Error(`Local repository path ${repoPath} does not exist.`);
+    });
+    if (!LocalGitService.isPathAllowed(realPath)) {
+      throw new Error(`Local repository path ${repoPath} is outside the directories allowed by LOCAL_REPO_ROOTS.`);
+    }
+
+    const service = new LocalGitService(realPath);
+    try {
+      await service.git(['rev-parse', '--git-dir']);
+    } catch {
+      throw new Error(`${repoPath} is not a git repository.`);
+    }
+    return service;
+  }
+
+  getRepoPath(): string {
+    return this.repoPath;
+  }
+
+  private async git(args: string[], signal?: AbortSignal): Promise<string> {
+    const { stdout } = await execFileAsync('git', ['-C', this.repoPath, ...args], {
+      maxBuffer: GIT_MAX_BUFFER,
+      encoding: 'utf8',
+      signal,
+    });
+    return stdout;
+  }
+
+  private handleGitError(error: unknown, context: string): never {
+    const stderr = (error as { stderr?: string })?.stderr?.trim();
+    const message = stderr || (error instanceof Error ? error.message : String(error));
+    throw new Error(`Local git error while ${context} for ${this.repoPath}: ${message}`);
+  }
+
+  /**
+   * Resolves a branch, tag or SHA to a commit. Falls back to HEAD when the requested
+   * ref does not exist, since callers default to 'main' without knowing the repo.
+   */
+  async resolveRef(branchOrSha?: string, signal?: AbortSignal): Promise<string> {
+    if (branchOrSha) {
+      try {
+        await this.git(['rev-parse', '--verify', '--quiet', `${branchOrSha}^{commit}`], signal);
+        return branchOrSha;
+      } catch {
+        signal?.throwIfAborted();
+        console.warn(`[LocalGitService] Ref ${branchOrSha} not found in ${this.repoPath}, using HEAD`);
+      }
+    }
+    return 'HEAD';
+  }
+
+  async getDefaultBranch(): Promise<string> {
+    try {
+      return (await this.git(['symbolic-ref', '--short', 'HEAD'])).trim();
+    } catch {
+      // Detached HEAD
+      return 'HEAD';
+    }
+  }
+
+  getRepository(signal?: AbortSignal): Promise<Repository> {
+    return this.readRepository(undefined, signal);
+  }
+
+  private async readRepository(branch: string | undefined, signal?: AbortSignal): Promise<Repository> {
+    try {
+      const ref = await this.resolveRef(branch, signal);
+      const defaultBranch = await this.getDefaultBranch();
+      const name = this.repo;
+
+      const [lastCommitDate, rootCommits, entries] = await Promise.all([
+        this.git(['log', '-1', '--format=%aI', ref], signal),
+        this.git(['rev-list', '--max-parents=0', ref], signal),
+        this.listTree(ref, signal),
+      ]);
+      const firstRoot = rootCommits.trim().split('\n').filter(Boolean).pop();
+      const createdAt = firstRoot
+        ? (await this.git(['log', '-1', '--format=%aI', firstRoot], signal)).trim()
+        : lastCommitDate.trim();
+
+      const primaryLanguage = getPrimaryLanguage(entries);
+      const totalBytes = entries.reduce((sum, e) => sum + e.size, 0);
+
+      return {
+        name,
+        fullName: `local/${name}`,
+        description: '',
+        language: primaryLanguage || 'Unknown',
+        stars: 0,
+        forks: 0,
+        watchers: 0,
+        createdAt,
+        updatedAt: lastCommitDate.trim(),
+        defaultBranch,
+        size: Math.round(totalBytes / 1024), // KB, matching the GitHub API
+        openIssues: 0,
+        hasWiki: false,
+        hasPages: false,
+        license: await this.detectLicense(ref, entries),
+      };
+    } catch (error) {
+      this.handleGitError(error, 'reading repository information');
+    }
+  }
+
+  async getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{
+    repository: Repository;
+    files: FileInfo[];
+  }> {
+    console.log(`[LocalGitService] Reading repository data from ${this.repoPath}`);
+    const repository = await this.readRepository(branch, signal);
+    const files = await this.getFiles(branch, signal);
+    console.log(`[LocalGitService] Read ${files.length} files, ${files.filter(f => f.content).length} with content`);
+    return { repository, files };
+  }
+
+  /**
+   * Builds the same FileInfo list the archive download produces, reading blobs from
+   * the object store so uncommitted working-tree changes are ignored.
+   */
+  async getFiles(branch?: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      const ref = await this.resolveRef(branch, signal);
+      return await this.readFiles(await this.listTree(ref, signal), signal);
+    } catch (error) {
+      this.handleGitError(error, 'reading repository files');
+    }
+  }
+
+  async getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]> {
+    try {
+      const wantedPaths = new Set(paths);
+      const entries = (await this.listTree(ref, signal)).filter(e => wantedPaths.has(e.path));
+      return await this.readFiles(entries, signal);
+    } catch (error) {
+      this.handleGitError(error, `reading files at ${ref}`);
+    }
+  }
+
+  private async readFiles(entries: TreeEntry[], signal?: AbortSignal): Promise<FileInfo[]> {
+    const wanted = entries.filter(e => {
+      const limit = contentLimit(e.path);
+      return limit !== undefined && e.size < limit;
+    });
+    const contents = await this.readBlobs(wanted.map(e => e.sha), signal);
+
+    return entries.map(entry => {
+      const fileInfo: FileInfo = {
+        name: path.basename(entry.path),
+        path: entry.path,
+        size: entry.size,
+        type: 'file',
+        content: undefined,
+        language: getLanguageFromExtension(entry.path),
+      };
+      const limit = contentLimit(entry.path);
+      if (limit !== undefined) {
+        if (entry.size >= limit) {
+          console.warn(`[LocalGitService] Skipping large file ${entry.path} (${entry.size} bytes)`);
+          fileInfo.content = '';
+        } else {
+          fileInfo.content = contents.get(entry.sha) ?? '';
+        }
+      }
+      return fileInfo;
+    });
+  }
+
+  // There is nothing to download; the object store already holds the tree
+  downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]> {
+    return this.getFiles(branch, signal);
+  }
+
+  async resolveCommit(ref: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const resolved = await this.resolveRef(ref, signal);
+      return (await this.git(['rev-parse', '--verify', `${resolved}^{commit}`], signal)).trim();
+    } catch (error) {
+      this.handleGitError(error, `resolving ${ref}`);
+    }
+  }
+
+  // A direct tree diff, so it is exact whether or not head descends from base
+  async compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]> {
+    try {
+      const output = await this.git(['diff', '--name-status', '--no-renames', '-z', baseSha, headSha], signal);
+      // -z output alternates status and path: "M\0path\0A\0path\0..."
+      const fields = output.split('\0');
+      const changes: ChangedFile[] = [];
+      for (let i = 0; i + 1 < fields.length; i += 2) {
+        const status = this.mapStatus(fields[i]);
+        changes.push({
+          path: fields[i + 1],
+          status: status === 'added' || status === 'removed' ? status : 'modified',
+        });
+      }
+      return changes;
+    } catch (error) {
+      this.handleGitError(error, `comparing ${baseSha}...${headSha}`);
+    }
+  }
+
+  private async listTree(ref: string, signal?: AbortSignal): Promise<TreeEntry[]> {
+    const output = await this.git(['ls-tree', '-r', '-l', '-z', ref], signal);
+    const entries: TreeEntry[] = [];
+    for (const record of output.split('\0')) {
+      if (!record) continue;
+      // <mode> SP <type> SP <object> SP+ <size> TAB <path>
+      const tabIndex = record.indexOf('\t');
+      const [, type, sha, size] = record.slice(0, tabIndex).split(/\s+/);
+      // Submodules show up as commits; they have no content in this repository
+      if (type !== 'blob') continue;
+      entries.push({ sha, size: parseInt(size, 10) || 0, path: record.slice(tabIndex + 1) });
+    }
+    return entries;
+  }
+
+  /**
+   * Streams blobs through a single `git cat-file --batch` process instead of spawning
+   * one git process per file.
+   */
+  private readBlobs(shas: string[], signal?: AbortSignal): Promise<Map<string, string>> {
+    const unique = [...new Set(shas)];
+    const result = new Map<string, string>();
+    if (unique.length === 0) return Promise.resolve(result);
+
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', ['-C', this.repoPath, 'cat-file', '--batch'], { signal });
+      let buffer = Buffer.alloc(0);
+      let stderr = '';
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        // Each object: "<sha> <type> <size>\n<content>\n"
+        while (true) {
+          const headerEnd = buffer.indexOf(0x0a);
+          if (headerEnd === -1) return;
+          const header = buffer.subarray(0, headerEnd).toString('utf8');
+          const [sha, type, sizeStr] = header.split(' ');
+          if (type === 'missing') {
+            buffer = buffer.subarray(headerEnd + 1);
+            continue;
+          }
+          const size = parseInt(sizeStr, 10);
+          if (buffer.length < headerEnd + 1 + size + 1) return;
+          result.set(sha, buffer.subarray(headerEnd + 1, headerEnd + 1 + size).toString('utf8'));
+          buffer = buffer.subarray(headerEnd + 1 + size + 1);
+        }
+      });
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) {
+          resolve(result);
+        } else {
+          reject(new Error(`git cat-file exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.end(unique.join('\n') + '\n');
+    });
+  }
+
+  async getCommits(
+    branchOrSha?: string,
+    limit: number = 2000,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]> {
+    try {
+      const ref = await this.resolveRef(branchOrSha, signal);
+      const format = RECORD_SEPARATOR + ['%H', '%an', '%ae', '%aI', '%B'].join(FIELD_SEPARATOR) + FIELD_SEPARATOR;
+      const output = await this.git([
+        'log', ref, `--max-count=${limit}`, `--format=${format}`,
+        '--no-renames', '--raw', '--numstat', '--no-abbrev',
+      ], signal);
+
+      const commits = output
+        .split(RECORD_SEPARATOR)
+        .filter(record => record.trim())
+        .map(record => this.parseCommitRecord(record));
+
+      if (sendProgress) {
+        sendProgress(`Read ${commits.length} commits...`, 100);
+      }
+      return commits;
+    } catch (error) {
+      this.handleGitError(error, 'reading commits');
+    }
+  }
+
+  private parseCommitRecord(record: string): Commit {
+    const [sha, name, email, date, message, diffSection = ''] = record.split(FIELD_SEPARATOR);
+    const statuses = new Map<string, string>();
+    const files: NonNullable<Commit['files']> = [];
+
+    for (const line of diffSection.split('\n')) {
+      if (!line) continue;
+      if (line.startsWith(':')) {
+        // :<old mode> <new mode> <old sha> <new sha> <status>\t<path>
+        const [meta, filePath] = line.split('\t');
+        const status = meta.split(' ')[4];
+        statuses.set(filePath, this.mapStatus(status));
+        continue;
+      }
+      const [added, deleted, filePath] = line.split('\t');
+      if (filePath === undefined) continue;
+      // Binary files report "-" for both counts
+      const additions = added === '-' ? 0 : parseInt(added, 10) || 0;
+      const deletions = deleted === '-' ? 0 : parseInt(deleted, 10) || 0;
+      files.push({
+        filename: filePath,
+        additions,
+        deletions,
+        changes: additions + deletions,
+        status: statuses.get(filePath) || 'modified',
+      });
+    }
+
+    const additions = files.reduce((sum, f) => sum + f.additions, 0);
+    const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+    return {
+      sha,
+      message: message.trim(),
+      author: { name, email, date },
+      date,
+      stats: { additions, deletions, total: additions + deletions },
+      files,
+    };
+  }
+
+  // Map git's single-letter status codes onto the names the GitHub API uses
+  private mapStatus(status: string): string {
+    switch (status?.[0]) {
+      case 'A': return 'added';
+      case 'D': return 'removed';
+      case 'R': return 'renamed';
+      case 'C': return 'copied';
+      case 'T': return 'changed';
+      default: return 'modified';
+    }
+  }
+
+  async getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit> {
+    try {
+      const format = RECORD_SEPARATOR + ['%H', '%an', '%ae', '%aI', '%B'].join(FIELD_SEPARATOR) + FIELD_SEPARATOR;
+      const output = await this.git([
+        'show', commitSha, `--format=${format}`, '--no-renames', '--raw', '--numstat', '--no-abbrev',
+      ], signal);
+      const commit = this.parseCommitRecord(output.split(RECORD_SEPARATOR).filter(r => r.trim())[0]);
+
+      // Attach unified diffs per file, like the GitHub commit endpoint's `patch` field
+      const patchOutput = await this.git(['show', commitSha, '--format=', '--no-renames', '--patch'], signal);
+      const patches = splitUnifiedDiff(patchOutput);
+      commit.files = commit.files?.map(file => ({ ...file, patch: patches.get(file.filename) }));
+      return commit;
+    } catch (error) {
+      this.handleGitError(error, `reading commit details for ${commitSha}`);
+    }
+  }
+
+  /**
+   * Aggregates authors from history the way the GitHub contributors endpoint does,
+   * keyed by email so renamed authors are not split.
+   */
+  async getContributors(branch?: string, signal?: AbortSignal): Promise<Contributor[]> {
+    try {
+      const ref = await this.resolveRef(branch, signal);
+      const output = await this.git(['shortlog', '-sne', ref], signal);
+      return output
+        .split('\n')
+        .map(line => line.match(/^\s*(\d+)\t(.+?)\s+<([^>]*)>\s*$/))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(([, count, name, email]) => ({
+          login: name,
+          contributions: parseInt(count, 10),
+          avatarUrl: '',
+          html_url: email ? `mailto:${email}` : undefined,
+          email,
+          type: 'User',
+        }));
+    } catch (error) {
+      this.handleGitError(error, 'reading contributors');
+    }
+  }
+
+  // Pull requests live on the hosting server, not in the object store
+  async getPullRequests(): Promise<PullRequestData[]> {
+    return [];
+  }
+
+  private async detectLicense(ref: string, entries: TreeEntry[]): Promise<Repository['license']> {
+    const licenseEntry = entries.find(e => /^(license|licence|copying)(\.(md|txt))?$/i.test(e.path));
+    if (!licenseEntry) return undefined;
+
+    const text = (await this.git(['cat-file', 'blob', `${ref}:${licenseEntry.path}`])).slice(0, 4000);
+    const known: Array<{ pattern: RegExp; name: string; spdxId: string }> = [
+      { pattern: /Apache License,?\s+Version 2\.0/i, name: 'Apache License 2.0', spdxId: 'Apache-2.0' },
+      { pattern: /GNU AFFERO GENERAL PUBLIC LICENSE\s+Version 3/i, name: 'GNU Affero General Public License v3.0', spdxId: 'AGPL-3.0' },
+      { pattern: /GNU LESSER GENERAL PUBLIC LICENSE/i, name: 'GNU Lesser General Public License', spdxId: 'LGPL-3.0' },
+      { pattern: /GNU GENERAL PUBLIC LICENSE\s+Version 3/i, name: 'GNU General Public License v3.0', spdxId: 'GPL-3.0' },
+      { pattern: /GNU GENERAL PUBLIC LICENSE\s+Version 2/i, name: 'GNU General Public License v2.0', spdxId: 'GPL-2.0' },
+      { pattern: /Mozilla Public License,?\s+(Version|v\.)\s*2\.0/i, name: 'Mozilla Public License 2.0', spdxId: 'MPL-2.0' },
+      { pattern: /Permission is hereby granted, free of charge/i, name: 'MIT License', spdxId: 'MIT' },
+      { pattern: /Permission to use, copy, modify, and\/or distribute/i, name: 'ISC License', spdxId: 'ISC' },
+      { pattern: /Neither the name of/i, name: 'BSD 3-Clause "New" or "Revised" License', spdxId: 'BSD-3-Clause' },
+      { pattern: /Redistribution and use in source and binary forms/i, name: 'BSD 2-Clause "Simplified" License', spdxId: 'BSD-2-Clause' },
+      { pattern: /This is free and unencumbered software released into the public domain/i, name: 'The Unlicense', spdxId: 'Unlicense' },
+    ];
+    const match = known.find(k => k.pattern.test(text));
+    return match ? { name: match.name, spdxId: match.spdxId } : { name: 'Other', spdxId: 'NOASSERTION' };
+  }
+}
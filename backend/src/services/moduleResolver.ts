@@ -0,0 +1,302 @@
+/**
+ * Resolves JavaScript and TypeScript import specifiers to files in the repository, the way
+ * TypeScript and Node would in a checked-out tree: relative paths, `baseUrl` and `paths` from
+ * the nearest tsconfig.json or jsconfig.json, and workspace packages through the `exports`,
+ * `source`, `module` or `main` of their package.json. Specifiers naming a package from outside
+ * the repository resolve to nothing.
+ */
+
+import * as path from 'path';
+import { FileInfo } from '../types';
+
+export const JAVASCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+// Node also loads JSON without its extension
+const RESOLVED_EXTENSIONS = [...JAVASCRIPT_EXTENSIONS, '.json'];
+// Compiled names that are imported in place of the TypeScript source
+const COMPILED_EXTENSIONS: Record<string, string[]> = { '.js': ['.ts', '.tsx'], '.jsx': ['.tsx'], '.mjs': ['.mts'], '.cjs': ['.cts'] };
+// Conditions of package.json `exports` taken in the order the package lists them; `types` only
+// when nothing else matches, since declarations are rarely committed
+const EXPORT_CONDITIONS = new Set(['source', 'development', 'import', 'module', 'require', 'node', 'browser', 'default']);
+// Build output that packages point at but that is rarely committed; its source is tried instead
+const BUILD_DIRECTORY = /^(dist|lib|build|out)\//;
+const CONFIG_FILE = /^(tsconfig|jsconfig)(\..+)?\.json$/;
+
+interface PathMapping {
+  pattern: string;
+  substitutions: string[];
+}
+
+// Where a config's non-relative imports are looked up, as repository paths
+interface ModuleLookup {
+  baseUrl?: string;
+  pathsRoot: string;
+  paths: PathMapping[];
+}
+
+interface WorkspacePackage {
+  name: string;
+  directory: string;
+  manifest: Record<string, any>;
+}
+
+const join = (...parts: string[]) => path.posix.normalize(path.posix.join(...parts));
+const isInside = (repositoryPath: string) => repositoryPath !== '..' && !repositoryPath.startsWith('../') && !path.posix.isAbsolute(repositoryPath);
+
+export const isRelativeSpecifier = (specifier: string) =>
+  specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../');
+
+// The package an import comes from, without deep paths: `lodash/fp` is `lodash`
+export function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Parses JSON with comments and trailing commas, as tsconfig.json and jsconfig.json are
+ * written. Returns undefined for anything that still is not JSON.
+ */
+export function parseJsonc(text: string): any {
+  let stripped = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      const start = i;
+      for (i++; i < text.length && text[i] !== '"'; i++) {
+        if (text[i] === '\\') i++;
+      }
+      stripped += text.slice(start, i + 1);
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      stripped += '\n';
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+    } else {
+      stripped += char;
+    }
+  }
+  try {
+    return JSON.parse(stripped.replace(/,(\s*[}\]])/g, '$1'));
+  } catch {
+    return undefined;
+  }
+}
+
+// The target of the first condition the resolver accepts, in the order the package lists them
+function conditionalTarget(value: unknown, includeTypes = false): string | undefined {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = conditionalTarget(item, includeTypes);
+      if (target) return target;
+    }
+    return undefined;
+  }
+  if (!value || typeof value !== 'object') return undefined;
+  for (const [condition, nested] of Object.entries(value)) {
+    if (!EXPORT_CONDITIONS.has(condition) && !(includeTypes && condition === 'types')) continue;
+    const target = conditionalTarget(nested, includeTypes);
+    if (target) return target;
+  }
+  return includeTypes ? undefined : conditionalTarget(value, true);
+}
+
+// The target package.json `exports` gives a subpath such as `.` or `./utils`
+function exportsTarget(exports: unknown, subpath: string): string | undefined {
+  const isSubpathMap = !!exports && typeof exports === 'object' && !Array.isArray(exports) && Object.keys(exports).some(key => key.startsWith('.'));
+  if (!isSubpathMap) return subpath === '.' ? conditionalTarget(exports) : undefined;
+
+  const map = exports as Record<string, unknown>;
+  if (subpath in map) return conditionalTarget(map[subpath]);
+  // The most specific pattern wins, as in Node
+  const patterns = Object.keys(map).filter(key => key.includes('*')).sort((a, b) => b.indexOf('*') - a.indexOf('*'));
+  for (const key of patterns) {
+    const [prefix, suffix] = key.split('*');
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix) && subpath.length >= prefix.length + suffix.length) {
+      const captured = subpath.slice(prefix.length, subpath.length - suffix.length);
+      return conditionalTarget(map[key])?.replace(/\*/g, captured);
+    }
+  }
+  // Folder mappings such as "./lib/": "./src/lib/"
+  const folder = Object.keys(map).filter(key => key.endsWith('/') && subpath.startsWith(key)).sort((a, b) => b.length - a.length)[0];
+  const target = folder ? conditionalTarget(map[folder]) : undefined;
+  return folder && target ? target + subpath.slice(folder.length) : undefined;
+}
+
+/**
+ * Resolves imports against one snapshot of the repository. Every package.json with a name
+ * counts as a workspace package, whichever workspace tool lists it.
+ */
+export class ModuleResolver {
+  private readonly files: Set<string>;
+  private readonly contents: Map<string, string>;
+  // Config files by directory, read on first use
+  private readonly configFiles = new Map<string, string[]>();
+  private readonly lookups = new Map<string, ModuleLookup[]>();
+  private readonly packages: WorkspacePackage[] = [];
+  private readonly packagesByDirectory = new Map<string, WorkspacePackage>();
+  private readonly resolved = new Map<string, string | undefined>();
+
+  constructor(files: Array<Pick<FileInfo, 'path' | 'content'>>) {
+    this.files = new Set(files.map(file => file.path));
+    this.contents = new Map(files.flatMap(file => (file.content !== undefined ? [[file.path, file.content] as [string, string]] : [])));
+
+    for (const file of files) {
+      const name = path.posix.basename(file.path);
+      const directory = path.posix.dirname(file.path);
+      if (file.path.split('/').includes('node_modules')) continue;
+      if (CONFIG_FILE.test(name)) {
+        this.configFiles.set(directory, [...(this.configFiles.get(directory) ?? []), file.path].sort());
+      } else if (name === 'package.json' && file.content) {
+        const manifest = parseJsonc(file.content);
+        if (manifest && typeof manifest.name === 'string') {
+          const pkg = { name: manifest.name, directory, manifest };
+          this.packages.push(pkg);
+          this.packagesByDirectory.set(directory, pkg);
+        }
+      }
+    }
+  }
+
+  /**
+   * The repository file that `specifier`, imported from the file `from`, refers to, or
+   * undefined for packages outside the repository and imports that cannot be found.
+   */
+  resolve(specifier: string, from: string): string | undefined {
+    const directory = path.posix.dirname(from);
+    const key = `${directory}\0${specifier}`;
+    if (!this.resolved.has(key)) {
+      this.resolved.set(key, isRelativeSpecifier(specifier)
+        ? this.resolveFile(join(directory, specifier))
+        : this.resolveWithConfig(specifier, directory) ?? this.resolvePackage(specifier));
+    }
+    return this.resolved.get(key);
+  }
+
+  // A file by its path, with or without an extension, or a directory by its index or package.json
+  private resolveFile(base: string): string | undefined {
+    if (!isInside(base)) return undefined;
+    const extension = path.posix.extname(base);
+    const candidates = [
+      base,
+      ...RESOLVED_EXTENSIONS.map(ext => base + ext),
+      ...(COMPILED_EXTENSIONS[extension] ?? []).map(ext => base.slice(0, -extension.length) + ext),
+    ];
+    const file = candidates.find(candidate => this.files.has(candidate));
+    if (file) return file;
+    const pkg = this.packagesByDirectory.get(base);
+    if (pkg) return this.resolvePackageEntry(pkg, '.');
+    return RESOLVED_EXTENSIONS.map(ext => join(base, `index${ext}`)).find(candidate => this.files.has(candidate));
+  }
+
+  // `paths` patterns of the nearest config, then its `baseUrl`
+  private resolveWithConfig(specifier: string, directory: string): string | undefined {
+    for (const lookup of this.lookupsFor(directory)) {
+      const matches = lookup.paths
+        .filter(({ pattern }) => {
+          const [prefix, suffix = ''] = pattern.split('*');
+          return pattern.includes('*')
+            ? specifier.startsWith(prefix) && specifier.endsWith(suffix) && specifier.length >= prefix.length + suffix.length
+            : specifier === pattern;
+        })
+        // TypeScript takes the pattern with the longest prefix
+        .sort((a, b) => b.pattern.split('*')[0].length - a.pattern.split('*')[0].length);
+      for (const { pattern, substitutions } of matches) {
+        const [prefix, suffix = ''] = pattern.split('*');
+        const captured = specifier.slice(prefix.length, specifier.length - suffix.length);
+        for (const substitution of substitutions) {
+          const file = this.resolveFile(join(lookup.pathsRoot, substitution.replace('*', captured)));
+          if (file) return file;
+        }
+      }
+      const file = lookup.baseUrl !== undefined ? this.resolveFile(join(lookup.baseUrl, specifier)) : undefined;
+      if (file) return file;
+    }
+    return undefined;
+  }
+
+  // The module settings of the configs in the nearest directory that has any
+  private lookupsFor(directory: string): ModuleLookup[] {
+    const cached = this.lookups.get(directory);
+    if (cached) return cached;
+    let lookups: ModuleLookup[] = [];
+    const configs = this.configFiles.get(directory);
+    if (configs) {
+      lookups = configs.flatMap(config => {
+        const options = this.readCompilerOptions(config, new Set());
+        if (options.baseUrl === undefined && !options.paths) return [];
+        return [{
+          baseUrl: options.baseUrl,
+          // Without a baseUrl, paths are relative to the config that sets them
+          pathsRoot: options.baseUrl ?? options.pathsDirectory ?? directory,
+          paths: Object.entries(options.paths ?? {}).map(([pattern, substitutions]) => ({
+            pattern,
+            substitutions: Array.isArray(substitutions) ? substitutions.filter((s): s is string => typeof s === 'string') : [],
+          })),
+        }];
+      });
+    } else if (directory !== '.') {
+      lookups = this.lookupsFor(path.posix.dirname(directory));
+    }
+    this.lookups.set(directory, lookups);
+    return lookups;
+  }
+
+  // `baseUrl` and `paths` of a config and the configs it extends, with `baseUrl` as a repository path
+  private readCompilerOptions(config: string, seen: Set<string>): { baseUrl?: string; paths?: Record<string, unknown>; pathsDirectory?: string } {
+    if (seen.has(config)) return {};
+    seen.add(config);
+    const json = parseJsonc(this.contents.get(config) ?? '');
+    if (!json || typeof json !== 'object') return {};
+
+    const directory = path.posix.dirname(config);
+    let options: { baseUrl?: string; paths?: Record<string, unknown>; pathsDirectory?: string } = {};
+    for (const parent of [json.extends].flat()) {
+      // Configs extended from packages are outside the repository
+      if (typeof parent !== 'string' || !isRelativeSpecifier(parent)) continue;
+      const parentPath = join(directory, parent.endsWith('.json') ? parent : `${parent}.json`);
+      options = { ...options, ...this.readCompilerOptions(parentPath, seen) };
+    }
+    const compilerOptions = json.compilerOptions ?? {};
+    if (typeof compilerOptions.baseUrl === 'string') options.baseUrl = join(directory, compilerOptions.baseUrl);
+    if (compilerOptions.paths && typeof compilerOptions.paths === 'object') {
+      options.paths = compilerOptions.paths;
+      options.pathsDirectory = directory;
+    }
+    return options;
+  }
+
+  private resolvePackage(specifier: string): string | undefined {
+    const pkg = this.packages.find(({ name }) => specifier === name || specifier.startsWith(`${name}/`));
+    return pkg && this.resolvePackageEntry(pkg, `.${specifier.slice(pkg.name.length)}`);
+  }
+
+  private resolvePackageEntry(pkg: WorkspacePackage, subpath: string): string | undefined {
+    const { manifest, directory } = pkg;
+    if (manifest.exports !== undefined) {
+      const target = exportsTarget(manifest.exports, subpath);
+      return target ? this.resolvePackageTarget(directory, target) : undefined;
+    }
+    if (subpath !== '.') return this.resolveFile(join(directory, subpath));
+    for (const field of ['source', 'module', 'main']) {
+      const target = typeof manifest[field] === 'string' ? this.resolvePackageTarget(directory, manifest[field]) : undefined;
+      if (target) return target;
+    }
+    return this.resolveFile(join(directory, 'index'));
+  }
+
+  /**
+   * The file a package.json field such as `main` or `bin` names, relative to the package's
+   * directory. A built file that is not committed leads to its source under src/.
+   */
+  resolvePackageTarget(directory: string, target: string): string | undefined {
+    const base = join(directory, target);
+    // A target naming the package directory itself would lead straight back here
+    const file = base === directory ? undefined : this.resolveFile(base);
+    if (file) return file;
+    const relative = path.posix.normalize(target);
+    if (!BUILD_DIRECTORY.test(relative)) return undefined;
+    const source = relative.replace(BUILD_DIRECTORY, 'src/').replace(/(\.d)?\.[cm]?[jt]sx?$/, '');
+    return this.resolveFile(join(directory, source));
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * The package dependency graph of a repository: the manifests declaring direct dependencies
+ * are its roots, and lockfiles supply the edges between packages. Each package is placed at
+ * its shortest distance from a manifest, which also answers why it is installed at all.
+ */
+
+import { compareVersions } from './semver';
+import { DependencyPackage, PackageDependencyGraph, PackageGraphNode } from '../types';
+
+export function packageNodeId(pkg: DependencyPackage): string {
+  return `${pkg.ecosystem}:${pkg.name}@${pkg.resolvedVersion ?? pkg.version ?? '*'}`;
+}
+
+export function buildDependencyGraph(packages: DependencyPackage[]): PackageDependencyGraph {
+  const nodes = new Map<string, PackageGraphNode>();
+  const requires = new Map<string, Set<string>>();
+  for (const pkg of packages) {
+    const id = packageNodeId(pkg);
+    const node = nodes.get(id);
+    if (node) {
+      // The same package may be declared for development in one project and not another
+      node.dev &&= pkg.dev;
+    } else {
+      nodes.set(id, { id, name: pkg.name, ecosystem: pkg.ecosystem, version: pkg.resolvedVersion ?? pkg.version ?? '*', dev: pkg.dev });
+    }
+    const targets = requires.get(id) ?? new Set();
+    for (const required of pkg.requires ?? []) targets.add(`${pkg.ecosystem}:${required}`);
+    requires.set(id, targets);
+  }
+
+  const projects: string[] = [];
+  const links: PackageDependencyGraph['links'] = [];
+  const linked = new Set<string>();
+  const addLink = (source: string, target: string) => {
+    const key = `${source}\0${target}`;
+    if (linked.has(key)) return;
+    linked.add(key);
+    links.push({ source, target });
+  };
+  for (const pkg of packages) {
+    if (!pkg.direct) continue;
+    if (!projects.includes(pkg.manifestPath)) projects.push(pkg.manifestPath);
+    addLink(pkg.manifestPath, packageNodeId(pkg));
+  }
+  for (const [source, targets] of requires) {
+    for (const target of targets) {
+      if (nodes.has(target)) addLink(source, target);
+    }
+  }
+
+  const adjacency = new Map<string, string[]>();
+  for (const { source, target } of links) {
+    if (!adjacency.has(source)) adjacency.set(source, []);
+    adjacency.get(source)!.push(target);
+  }
+
+  // Breadth-first from every manifest at once, so each package keeps its shortest route
+  const queue: string[] = [];
+  for (const project of projects) {
+    for (const target of adjacency.get(project) ?? []) {
+      const node = nodes.get(target)!;
+      if (node.depth !== undefined) continue;
+      node.depth = 1;
+      node.via = project;
+      queue.push(target);
+    }
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const node = nodes.get(queue[i])!;
+    for (const target of adjacency.get(node.id) ?? []) {
+      const next = nodes.get(target)!;
+      if (next.depth !== undefined) continue;
+      next.depth = node.depth! + 1;
+      next.via = node.id;
+      queue.push(target);
+    }
+  }
+
+  // A package is only needed for development when no production dependency leads to it
+  const production = new Set<string>();
+  const pending = packages.filter(p => p.direct && !p.dev).map(packageNodeId);
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (production.has(id)) continue;
+    production.add(id);
+    pending.push(...(adjacency.get(id) ?? []));
+  }
+  for (const node of nodes.values()) {
+    if (node.depth !== undefined) node.dev = !production.has(node.id);
+  }
+
+  const versions = new Map<string, PackageGraphNode[]>();
+  for (const node of nodes.values()) {
+    const key = `${node.ecosystem}:${node.name}`;
+    if (!versions.has(key)) versions.set(key, []);
+    versions.get(key)!.push(node);
+  }
+  const duplicates = [...versions.values()]
+    .filter(copies => copies.length > 1)
+    .map(copies => ({
+      ecosystem: copies[0].ecosystem,
+      name: copies[0].name,
+      versions: copies.map(c => c.version).sort(compareVersions),
+    }));
+
+  return { projects, nodes: [...nodes.values()], links, duplicates };
+}
+
+/**
+ * The shortest chain from a manifest to a package, starting with the manifest path, or
+ * undefined when the lockfiles do not show how the package is reached.
+ */
+export function pathTo(graph: PackageDependencyGraph, id: string): string[] | undefined {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const path: string[] = [];
+  let node = nodes.get(id);
+  while (node?.via) {
+    path.unshift(node.id);
+    if (!nodes.has(node.via)) return [node.via, ...path];
+    node = nodes.get(node.via);
+  }
+  return undefined;
+}
@@ -72,6 +72,94 @@ export class RedisCacheService {
     }
   }
 
+  /**
+   * Store a value that is not part of the report cache, so it is never evicted by trimCache.
+   * Used for job records that must survive until they expire.
+   */
+  async setRecord<T>(key: string, data: T, ttlSeconds: number): Promise<void> {
+    await this.client.set(this.fullKey(key), JSON.stringify(data), 'EX', ttlSeconds);
+  }
+
+  /**
+   * Read many records in one round trip; missing keys come back as null.
+   */
+  async getRecords<T>(keys: string[]): Promise<Array<T | null>> {
+    if (keys.length === 0) return [];
+    const values = await this.client.mget(keys.map(key => this.fullKey(key)));
+    return values.map(value => (value ? JSON.parse(value) as T : null));
+  }
+
+  /**
+   * Write many records in one pipeline, all with the same expiry. Like setRecord, these are
+   * never evicted by trimCache.
+   */
+  async setRecords<T>(entries: Array<[string, T]>, ttlSeconds: number): Promise<void> {
+    if (entries.length === 0) return;
+    const pipeline = this.client.pipeline();
+    for (const [key, data] of entries) {
+      pipeline.set(this.fullKey(key), JSON.stringify(data), 'EX', ttlSeconds);
+    }
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) throw failed[0];
+  }
+
+  // List and set primitives for the job queue. Unlike cache reads these do not swallow
+  // errors: losing a queued job silently is worse than failing the request.
+
+  async pushToList(key: string, value: string, options: { front?: boolean; ttlSeconds?: number } = {}): Promise<number> {
+    const fullKey = this.fullKey(key);
+    const pipeline = this.client.pipeline();
+    if (options.front) {
+      pipeline.lpush(fullKey, value);
+    } else {
+      pipeline.rpush(fullKey, value);
+    }
+    if (options.ttlSeconds) {
+      pipeline.expire(fullKey, options.ttlSeconds);
+    }
+    const results = await pipeline.exec();
+    const [error, length] = results?.[0] ?? [null, 0];
+    if (error) throw error;
+    return length as number;
+  }
+
+  async popFromList(key: string): Promise<string | null> {
+    return this.client.lpop(this.fullKey(key));
+  }
+
+  async getListRange(key: string, start: number, stop: number = -1): Promise<string[]> {
+    return this.client.lrange(this.fullKey(key), start, stop);
+  }
+
+  async removeFromList(key: string, value: string): Promise<number> {
+    return this.client.lrem(this.fullKey(key), 0, value);
+  }
+
+  async addToSet(key: string, member: string, options: { ttlSeconds?: number } = {}): Promise<void> {
+    const fullKey = this.fullKey(key);
+    const pipeline = this.client.pipeline();
+    pipeline.sadd(fullKey, member);
+    if (options.ttlSeconds) {
+      pipeline.expire(fullKey, options.ttlSeconds);
+    }
+    const results = await pipeline.exec();
+    const failed = results?.find(([error]) => error);
+    if (failed) throw failed[0];
+  }
+
+  async removeFromSet(key: string, member: string): Promise<void> {
+    await this.client.srem(this.fullKey(key), member);
+  }
+
+  async getSetMembers(key: string): Promise<string[]> {
+    return this.client.smembers(this.fullKey(key));
+  }
+
+  private fullKey(key: string): string {
+    return this.prefix ? `${this.prefix}:${key}` : key;
+  }
+
   async delete(key: string): Promise<boolean> {
     try {
       const fullKey = this.prefix ? `${this.prefix}:${key}` : key;
@@ -0,0 +1,588 @@
+import * as path from 'path';
+import JSZip from 'jszip';
+import { FileInfo } from '../types';
+
+// File helpers shared by every repository source (hosted archives, local git
+// checkouts) so they agree on which files carry analyzable content.
+
+// Per-file ceiling for extracted content
+export const MAX_CONTENT_BYTES = 1024 * 1024;
+
+// Lockfiles of large monorepos run to several megabytes and are still needed whole
+export const MAX_MANIFEST_BYTES = 20 * 1024 * 1024;
+
+// Directories holding generated, vendored or tooling files rather than the project's own
+const EXCLUDED_DIRECTORIES = new Set([
+  'node_modules',
+  '.git',
+  'dist',
+  'build',
+  'coverage',
+  'public',
+  'assets',
+  'vendor',
+  '.vscode',
+  '.idea',
+]);
+
+// Manifests and lockfiles declaring dependencies, by file name
+const MANIFEST_FILENAMES = new Set([
+  'package.json', 'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml',
+  'pyproject.toml', 'poetry.lock',
+  'go.mod', 'go.sum',
+  'cargo.toml', 'cargo.lock',
+  'pom.xml', 'build.gradle', 'build.gradle.kts',
+]);
+
+// Files decompressed between cancellation checks when extracting an archive
+const EXTRACTION_BATCH_SIZE = 200;
+
+// Parallel requests when fetching individual files instead of an archive
+const FILE_FETCH_CONCURRENCY = 8;
+
+/**
+ * Get programming language from file extension
+ */
+export function getLanguageFromExtension(filePath: string): string | undefined {
+  const extensionLanguageMap: Record<string, string> = {
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    '.py': 'python',
+    '.pyw': 'python',
+    '.pyi': 'python',
+    '.java': 'java',
+    '.kt': 'kotlin',
+    '.scala': 'scala',
+    '.groovy': 'groovy',
+    '.c': 'c',
+    '.cpp': 'cpp',
+    '.cxx': 'cpp',
+    '.cc': 'cpp',
+    '.h': 'c',
+    '.hpp': 'cpp',
+    '.hxx': 'cpp',
+    '.cs': 'csharp',
+    '.vb': 'vb',
+    '.fs': 'fsharp',
+    '.php': 'php',
+    '.rb': 'ruby',
+    '.go': 'go',
+    '.rs': 'rust',
+    '.swift': 'swift',
+    '.dart': 'dart',
+    '.lua': 'lua',
+    '.hs': 'haskell',
+    '.elm': 'elm',
+    '.clj': 'clojure',
+    '.cljs': 'clojure',
+    '.ml': 'ocaml',
+    '.ex': 'elixir',
+    '.exs': 'elixir',
+    '.sh': 'shell',
+    '.bash': 'shell',
+    '.zsh': 'shell',
+    '.fish': 'shell',
+    '.ps1': 'powershell',
+    '.bat': 'batch',
+    '.cmd': 'batch',
+    '.sql': 'sql',
+    '.plsql': 'sql',
+    '.psql': 'sql',
+    '.json': 'json',
+    '.yaml': 'yaml',
+    '.yml': 'yaml',
+    '.toml': 'toml',
+    '.xml': 'xml',
+    '.html': 'html',
+    '.htm': 'html',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.sass': 'sass',
+    '.less': 'less',
+    '.md': 'markdown',
+    '.mdx': 'markdown',
+    '.tex': 'latex',
+    '.tf': 'terraform',
+    '.hcl': 'hcl',
+    '.dockerfile': 'dockerfile'
+  };
+
+  const ext = path.extname(filePath).toLowerCase();
+  const fileName = path.basename(filePath).toLowerCase();
+  
+  // Check by extension
+  if (extensionLanguageMap[ext]) {
+    return extensionLanguageMap[ext];
+  }
+  
+  // Check specific filenames without extensions
+  if (fileName === 'dockerfile' || fileName === 'makefile' || fileName === 'rakefile' || fileName === 'gemfile') {
+    return fileName;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Determine if a file is likely a text file based on extension
+ */
+export function isTextFile(filePath: string): boolean {
+  const textExtensions = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs',
+    '.py', '.pyw', '.pyi',
+    '.java', '.kt', '.scala', '.groovy',
+    '.c', '.cpp', '.cxx', '.cc', '.h', '.hpp', '.hxx',
+    '.cs', '.vb', '.fs',
+    '.php', '.rb', '.go', '.rs', '.swift', '.dart', '.lua',
+    '.hs', '.elm', '.clj', '.cljs', '.ml', '.ex', '.exs',
+    '.sh', '.bash', '.zsh', '.fish', '.ps1', '.bat', '.cmd',
+    '.sql', '.plsql', '.psql',
+    '.json', '.yaml', '.yml', '.toml', '.xml', '.ini', '.cfg', '.conf',
+    '.html', '.htm', '.css', '.scss', '.sass', '.less',
+    '.md', '.mdx', '.tex', '.txt', '.log',
+    '.tf', '.hcl', '.dockerfile',
+    '.gitignore', '.gitattributes', '.editorconfig'
+  ]);
+
+  const ext = path.extname(filePath).toLowerCase();
+  const fileName = path.basename(filePath).toLowerCase();
+  
+  // Check by extension
+  if (textExtensions.has(ext)) {
+    return true;
+  }
+  
+  // Check specific filenames without extensions
+  const textFilenames = new Set([
+    'readme', 'license', 'changelog', 'dockerfile', 'makefile', 'rakefile', 'gemfile'
+  ]);
+  
+  return textFilenames.has(fileName) || textFilenames.has(fileName.split('.')[0]);
+}
+
+/**
+ * Determine if a file is likely a source file based on extension and path
+ */
+export function isSourceFile(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  const fileName = path.basename(filePath).toLowerCase();
+  const dirPath = path.dirname(filePath);
+  
+  // Check if file is in an excluded directory
+  const pathParts = dirPath.split(path.sep);
+  if (pathParts.some(part => EXCLUDED_DIRECTORIES.has(part))) {
+    return false;
+  }
+  
+  // Check if extension is explicitly excluded
+  const excludedExtensions = new Set([
+    '.svg', '.png', '.jpg', '.jpeg', '.gif', '.ico', '.webp',
+    '.woff', '.woff2', '.eot', '.ttf', '.otf',
+    '.mp4', '.webm', '.ogg', '.mp3', '.wav',
+    '.zip', '.gz', '.tar', '.rar',
+    '.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx',
+    '.lock',
+    '.log',
+    '.csv',
+    '.d.ts',
+    '.min.js',
+    '.min.css',
+  ]);
+  
+  if (excludedExtensions.has(ext)) {
+    return false;
+  }
+  
+  // Check if filename matches excluded patterns
+  const excludedFilePatterns = [
+    /^\./, // Hidden files
+    /vite-env\.d\.ts$/,
+    /\.config\.(js|ts|mjs|cjs)$/,
+    /eslint\.config\.(js|ts|mjs|cjs)$/,
+    /\.min\.(js|css)$/,
+    /\.bundle\.(js|css)$/,
+    /\.chunk\.(js|css)$/,
+    /package-lock\.json$/,
+    /yarn\.lock$/,
+    /composer\.lock$/,
+    /Pipfile\.lock$/,
+    /\.log$/,
+    /\.tmp$/,
+    /\.temp$/,
+    /\.cache$/,
+  ];
+  
+  if (excludedFilePatterns.some(pattern => pattern.test(fileName))) {
+    return false;
+  }
+
+  // First check our mapping
+  const extensionLanguageMap: Record<string, string> = {
+    // JavaScript/TypeScript
+    '.ts': 'typescript',
+    '.tsx': 'typescript',
+    '.js': 'javascript',
+    '.jsx': 'javascript',
+    '.mjs': 'javascript',
+    '.cjs': 'javascript',
+    
+    // HTML/CSS
+    '.html': 'html',
+    '.htm': 'html',
+    '.css': 'css',
+    '.scss': 'scss',
+    '.sass': 'sass',
+    '.less': 'less',
+    '.styl': 'stylus',
+
+    // Python
+    '.py': 'python',
+    '.pyw': 'python',
+    '.pyc': 'python',
+    '.pyd': 'python',
+    '.pyo': 'python',
+
+    // Java
+    '.java': 'java',
+    '.jar': 'java',
+    '.class': 'java',
+
+    // C#
+    '.cs': 'csharp',
+
+    // C/C++
+    '.c': 'c',
+    '.h': 'c',
+    '.cpp': 'cpp',
+    '.hpp': 'cpp',
+    '.cc': 'cpp',
+
+    // Ruby
+    '.rb': 'ruby',
+
+    // PHP
+    '.php': 'php',
+
+    // Go
+    '.go': 'go',
+
+    // Rust
+    '.rs': 'rust',
+
+    // Swift
+    '.swift': 'swift',
+
+    // Kotlin
+    '.kt': 'kotlin',
+    '.kts': 'kotlin',
+
+    // Shell
+    '.sh': 'shell',
+    '.bash': 'shell',
+    '.zsh': 'shell',
+
+    // Other
+    '.json': 'json',
+    '.xml': 'xml',
+    '.md': 'markdown',
+    '.yml': 'yaml',
+    '.yaml': 'yaml',
+    '.toml': 'toml',
+    '.dockerfile': 'dockerfile',
+    'Dockerfile': 'dockerfile',
+  };
+  
+  if (ext in extensionLanguageMap) {
+    return true;
+  }
+  
+  // For Tensorflow specifically, handle Bazel files
+  const bazelFiles = new Set([
+    'BUILD', 'WORKSPACE', '.bazelrc', '.bazelversion',
+    '.bzl', '.bazel'
+  ]);
+  
+  if (bazelFiles.has(fileName)) {
+    return true;
+  }
+  
+  // Additional common source extensions not in our main mapping
+  const commonSourceExts = new Set([
+    '.hxx', '.cxx', '.cc',  // Additional C++
+    '.pyx', '.pyd', '.pyi',  // Additional Python
+    '.scala', '.groovy',  // Additional JVM
+    '.rake', '.gemspec',  // Additional Ruby
+    '.phps', '.php5', '.phtml',  // Additional PHP
+    '.m', '.mm',  // Objective-C
+    '.fs', '.razor',  // Additional .NET
+    '.tf', '.tfvars', '.hcl',  // Terraform/HCL
+    '.proto', '.thrift',  // IDL
+    '.sol', '.cairo',  // Smart contracts
+    '.ml', '.hs', '.lisp', '.clj', // Functional langs
+    '.lua', '.R', '.pl', '.sql', '.dart' // Other languages
+  ]);
+  
+  return commonSourceExts.has(ext);
+}
+
+/**
+ * Determine if a file declares dependencies: a package manifest, lockfile or build file
+ * of one of the ecosystems dependency analysis understands
+ */
+export function isDependencyManifest(filePath: string): boolean {
+  const fileName = path.basename(filePath).toLowerCase();
+  const pathParts = path.dirname(filePath).split(path.sep);
+  if (pathParts.some(part => EXCLUDED_DIRECTORIES.has(part))) {
+    return false;
+  }
+  return MANIFEST_FILENAMES.has(fileName)
+    || /requirements.*\.txt$/.test(fileName)
+    || (pathParts[pathParts.length - 1] === 'requirements' && fileName.endsWith('.txt'));
+}
+
+/**
+ * Determine if a file is metadata of a third-party package vendored into the repository,
+ * which is where the licenses of dependencies are found when lockfiles do not record them:
+ * node_modules package.json files, installed Python distributions, `cargo vendor` crates
+ * and the license texts of vendored Go modules
+ */
+export function isVendoredPackageMetadata(filePath: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  return /(^|\/)node_modules\/(@[^/]+\/)?[^/]+\/package\.json$/.test(normalized)
+    || /\.dist-info\/METADATA$|\.egg-info\/PKG-INFO$/.test(normalized)
+    || /(^|\/)vendor\/[^/]+\/Cargo\.toml$/.test(normalized)
+    || /(^|\/)vendor\/.+\/(LICEN[CS]E|COPYING)(\.(md|txt))?$/i.test(normalized);
+}
+
+/**
+ * Determine if a file is a coverage report a test run left behind: lcov tracefiles, Istanbul's
+ * coverage-final.json, or Cobertura and JaCoCo XML. These usually sit in coverage/, build/ or
+ * target/, which are otherwise skipped.
+ */
+export function isCoverageReport(filePath: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  if (/(^|\/)(node_modules|\.git)\//.test(normalized)) return false;
+  const fileName = path.posix.basename(normalized).toLowerCase();
+  return fileName === 'lcov.info'
+    || fileName.endsWith('.lcov')
+    || fileName === 'coverage-final.json'
+    || /^(cobertura.*|coverage)\.xml$/.test(fileName)
+    || /^jacoco.*\.xml$/.test(fileName);
+}
+
+/**
+ * Determine if a file conventionally holds credentials: dotenv files, private keys and the
+ * credential stores of package managers and tools. They are read for secret scanning only.
+ */
+export function isCredentialFile(filePath: string): boolean {
+  const fileName = path.basename(filePath).toLowerCase();
+  return /^\.env(\..+)?$/.test(fileName)
+    || /\.(pem|key)$/.test(fileName)
+    || /^id_(rsa|dsa|ecdsa|ed25519)$/.test(fileName)
+    || ['.npmrc', '.pypirc', '.netrc', '.git-credentials', '.dockercfg', 'credentials', 'credentials.json'].includes(fileName);
+}
+
+/**
+ * Determine if a file is a Dockerfile: `Dockerfile`, variants such as `Dockerfile.prod` or
+ * `api.dockerfile`, and Podman's `Containerfile`. Most have no extension, so they are not source
+ * files; they are read for infrastructure checks only.
+ */
+export function isDockerfile(filePath: string): boolean {
+  const fileName = path.basename(filePath).toLowerCase();
+  if (path.dirname(filePath).split(path.sep).some(part => EXCLUDED_DIRECTORIES.has(part))) {
+    return false;
+  }
+  return /^(dockerfile|containerfile)(\.[\w.-]+)?$/.test(fileName) || fileName.endsWith('.dockerfile');
+}
+
+/**
+ * Determine if a file is a SARIF log another tool wrote, e.g. CodeQL or ESLint results a CI
+ * job committed: `*.sarif` or `*.sarif.json`. Their findings are merged into the report.
+ */
+export function isSarifLog(filePath: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  if (/(^|\/)(node_modules|\.git)\//.test(normalized)) return false;
+  return /\.sarif(\.json)?$/i.test(normalized);
+}
+
+// The code smell rule changes a repository checks in at its root
+export const CODE_SMELL_CONFIG_FILE = '.code-smells.json';
+
+/**
+ * Determine if a file is the repository's own code smell configuration.
+ */
+export function isCodeSmellConfig(filePath: string): boolean {
+  return filePath.split(path.sep).join('/') === CODE_SMELL_CONFIG_FILE;
+}
+
+/**
+ * Whether a file's content is read at all, and up to how many bytes. Source files are
+ * analyzed; manifests that are not source files (lockfiles, go.mod) and vendored package
+ * metadata are only read for dependency analysis, coverage reports for test coverage,
+ * credential files for secret scanning, Dockerfiles for infrastructure checks, SARIF logs
+ * for the findings of other tools and the code smell configuration for the smell rules.
+ */
+export function contentLimit(filePath: string): number | undefined {
+  if (isDependencyManifest(filePath) || isCoverageReport(filePath) || isSarifLog(filePath)) return MAX_MANIFEST_BYTES;
+  if (isCredentialFile(filePath) || isDockerfile(filePath) || isCodeSmellConfig(filePath)) return MAX_CONTENT_BYTES;
+  if (isVendoredPackageMetadata(filePath)) return MAX_CONTENT_BYTES;
+  return isTextFile(filePath) && isSourceFile(filePath) ? MAX_CONTENT_BYTES : undefined;
+}
+
+/**
+ * Extract a repository ZIP archive into FileInfo entries. Hosts wrap the tree in a
+ * single top-level directory (e.g. "repo-branch/"), which is stripped from every path.
+ */
+export async function extractRepositoryArchive(data: ArrayBuffer | Buffer, signal?: AbortSignal): Promise<FileInfo[]> {
+  const zip = new JSZip();
+  const zipContents = await zip.loadAsync(data);
+  signal?.throwIfAborted();
+
+  const files: FileInfo[] = [];
+  const extractions: Array<() => Promise<void>> = [];
+
+  for (const [relativePath, zipObject] of Object.entries(zipContents.files)) {
+    if (zipObject.dir) {
+      continue;
+    }
+
+    const cleanPath = relativePath.split('/').slice(1).join('/');
+    if (!cleanPath) {
+      continue;
+    }
+
+    const fileInfo: FileInfo = {
+      name: path.basename(cleanPath),
+      path: cleanPath,
+      size: 0, // Filled in from the extracted content below
+      type: 'file',
+      content: undefined,
+      language: getLanguageFromExtension(cleanPath)
+    };
+
+    // Only extract content for source files and manifests under a reasonable size limit
+    const limit = contentLimit(cleanPath);
+    if (limit !== undefined) {
+      extractions.push(() => zipObject.async('text').then((content: string) => {
+        fileInfo.size = content.length;
+        if (content.length < limit) {
+          fileInfo.content = content;
+        } else {
+          console.warn(`[Archive Download] Skipping large file ${cleanPath} (${content.length} bytes)`);
+          fileInfo.content = '';
+        }
+      }).catch((error: any) => {
+        console.warn(`[Archive Download] Failed to extract content for ${cleanPath}:`, error.message);
+        fileInfo.content = '';
+      }));
+    } else {
+      // For binary files, fill in the size without holding up extraction
+      zipObject.async('uint8array').then((bytes: Uint8Array) => {
+        fileInfo.size = bytes.length;
+      }).catch(() => {
+        fileInfo.size = 0;
+      });
+    }
+
+    files.push(fileInfo);
+  }
+
+  // Extract in batches so a cancelled analysis stops decompressing between them
+  for (let i = 0; i < extractions.length; i += EXTRACTION_BATCH_SIZE) {
+    signal?.throwIfAborted();
+    await Promise.all(extractions.slice(i, i + EXTRACTION_BATCH_SIZE).map(extract => extract()));
+  }
+  console.log(`[Archive Download] Extracted ${files.length} files, ${files.filter(f => f.content !== undefined).length} with content`);
+  return files;
+}
+
+/**
+ * Build a FileInfo from raw file bytes, keeping content under the same rules as
+ * extractRepositoryArchive so individually fetched files look like archive entries.
+ */
+export function createFileInfo(filePath: string, data: Buffer): FileInfo {
+  const fileInfo: FileInfo = {
+    name: path.basename(filePath),
+    path: filePath,
+    size: data.length,
+    type: 'file',
+    content: undefined,
+    language: getLanguageFromExtension(filePath)
+  };
+  const limit = contentLimit(filePath);
+  if (limit !== undefined) {
+    if (data.length < limit) {
+      fileInfo.content = data.toString('utf8');
+    } else {
+      console.warn(`[File Download] Skipping large file ${filePath} (${data.length} bytes)`);
+      fileInfo.content = '';
+    }
+  }
+  return fileInfo;
+}
+
+/**
+ * Fetch individual files through a host's raw-file endpoint, a few at a time. Used when
+ * only the files changed since an earlier analysis are needed.
+ */
+export async function fetchFiles(
+  paths: string[],
+  readFile: (filePath: string) => Promise<Buffer>,
+  signal?: AbortSignal
+): Promise<FileInfo[]> {
+  const files: FileInfo[] = [];
+  for (let i = 0; i < paths.length; i += FILE_FETCH_CONCURRENCY) {
+    signal?.throwIfAborted();
+    const batch = paths.slice(i, i + FILE_FETCH_CONCURRENCY);
+    const contents = await Promise.all(batch.map(filePath => readFile(filePath)));
+    batch.forEach((filePath, index) => files.push(createFileInfo(filePath, contents[index])));
+  }
+  return files;
+}
+
+/**
+ * Split a multi-file unified diff (`git diff` / `.diff` endpoint output) into
+ * per-file hunks keyed by the post-change path, in the shape GitHub returns as `patch`.
+ */
+export function splitUnifiedDiff(diff: string): Map<string, string> {
+  const patches = new Map<string, string>();
+  const sections = diff.split(/^diff --git /m).filter(Boolean);
+  for (const section of sections) {
+    const header = section.match(/^a\/(.+?) b\/(.+)$/m);
+    const hunkStart = section.indexOf('\n@@');
+    if (!header || hunkStart === -1) continue;
+    patches.set(header[2], section.slice(hunkStart + 1).trimEnd());
+  }
+  return patches;
+}
+
+/**
+ * Count added and removed lines in a unified diff hunk.
+ */
+export function countPatchLines(patch: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) additions++;
+    else if (line.startsWith('-') && !line.startsWith('---')) deletions++;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Pick the language with the most source bytes, for hosts whose metadata has none.
+ */
+export function getPrimaryLanguage(files: Array<{ path: string; size: number }>): string | undefined {
+  const languageBytes: Record<string, number> = {};
+  for (const file of files) {
+    const language = getLanguageFromExtension(file.path);
+    if (language && isSourceFile(file.path)) {
+      languageBytes[language] = (languageBytes[language] || 0) + file.size;
+    }
+  }
+  return Object.entries(languageBytes).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
@@ -0,0 +1,319 @@
+import axios from 'axios';
+import { Repository, Contributor, Commit, FileInfo, PullRequestData } from '../types';
+import { GitHubRepositoryProvider } from './githubService';
+import { GitLabService } from './gitlabService';
+import { GiteaService } from './giteaService';
+import { BitbucketServerService } from './bitbucketServerService';
+import { LocalGitService } from './localGitService';
+
+export type RepositoryHostKind = 'github' | 'gitlab' | 'gitea' | 'bitbucket-server';
+
+/**
+ * Where a repository lives, as parsed from the URL the user submitted.
+ */
+export interface RepositoryLocation {
+  kind: RepositoryHostKind;
+  /** Web root of the host, including any context path (e.g. https://git.example.com/bitbucket) */
+  baseUrl: string;
+  /** User, organization, GitLab group path (subgroups included) or Bitbucket project key */
+  owner: string;
+  repo: string;
+  /** Branch named in the URL (/tree/<branch>, /-/tree/<branch>, /src/branch/<branch>) */
+  branch?: string;
+}
+
+/**
+ * A file that differs between two commits. Renames carry the path they were moved from.
+ */
+export interface ChangedFile {
+  path: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  previousPath?: string;
+}
+
+/**
+ * Everything the analysis pipeline reads from a repository host. Each provider is bound
+ * to a single repository, so callers never deal with host-specific owner/repo encodings.
+ * Aborting the optional signal rejects any request still in flight.
+ */
+export interface RepositoryProvider {
+  readonly kind: RepositoryHostKind | 'local';
+  readonly owner: string;
+  readonly repo: string;
+  /** Browsable URL of the repository, stored as the report's repositoryUrl */
+  readonly webUrl: string;
+
+  getRepository(signal?: AbortSignal): Promise<Repository>;
+  getBatchedRepositoryData(branch?: string, signal?: AbortSignal): Promise<{ repository: Repository; files: FileInfo[] }>;
+  downloadRepositoryArchive(branch: string, signal?: AbortSignal): Promise<FileInfo[]>;
+  getCommits(
+    branchOrSha?: string,
+    limit?: number,
+    sendProgress?: (step: string, progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<Commit[]>;
+  getCommitDetails(commitSha: string, signal?: AbortSignal): Promise<Commit>;
+  getContributors(branch?: string, signal?: AbortSignal): Promise<Contributor[]>;
+  /** Pull requests, or merge requests on GitLab */
+  getPullRequests(signal?: AbortSignal): Promise<PullRequestData[]>;
+  /** Full SHA of the commit a branch, tag or SHA points at */
+  resolveCommit(ref: string, signal?: AbortSignal): Promise<string>;
+  /**
+   * Files that differ between two commits. Throws when `headSha` does not descend from
+   * `baseSha` or the host cannot list the complete change set.
+   */
+  compareCommits(baseSha: string, headSha: string, signal?: AbortSignal): Promise<ChangedFile[]>;
+  /** Reads individual files at a commit, with the same content rules as the archive */
+  getFilesAt(ref: string, paths: string[], signal?: AbortSignal): Promise<FileInfo[]>;
+}
+
+// Public hosts are the only ones accepted without configuration. Any other host must be
+// listed in REPOSITORY_HOSTS: a URL decides where requests, and the user's access token, go.
+const KNOWN_HOSTS: Record<string, RepositoryHostKind | 'bitbucket-cloud'> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket-cloud',
+  'codeberg.org': 'gitea',
+};
+
+/**
+ * Self-hosted instances are listed in REPOSITORY_HOSTS as comma-separated `host=kind`
+ * pairs, e.g. `git.example.com=gitlab,http://stash.example.com:7990=bitbucket-server`.
+ * A bare hostname is reached over HTTPS on the default port.
+ */
+function getConfiguredHosts(): Record<string, { kind: RepositoryHostKind; origin: string }> {
+  const hosts: Record<string, { kind: RepositoryHostKind; origin: string }> = {};
+  for (const entry of (process.env.REPOSITORY_HOSTS || '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    const host = entry.slice(0, separator).trim().toLowerCase();
+    const kind = entry.slice(separator + 1).trim().toLowerCase();
+    if (!host || !(kind === 'github' || kind === 'gitlab' || kind === 'gitea' || kind === 'bitbucket-server')) continue;
+    try {
+      const url = new URL(host.includes('://') ? host : `https://${host}`);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        hosts[url.hostname] = { kind, origin: url.origin };
+      }
+    } catch {
+      // Not a host; ignored like an unknown kind
+    }
+  }
+  return hosts;
+}
+
+/**
+ * Where requests for a host go: the origin configured for it, never one taken from the URL,
+ * so neither a port nor a scheme in a submitted URL can redirect requests or the token.
+ */
+function resolveHost(hostname: string): { kind: RepositoryHostKind; origin: string } {
+  const configured = getConfiguredHosts()[hostname];
+  if (configured) return configured;
+  const known = KNOWN_HOSTS[hostname];
+  if (known === 'bitbucket-cloud') {
+    throw new Error('Bitbucket Cloud repositories are not supported. Only self-hosted Bitbucket Server/Data Center is.');
+  }
+  if (known) return { kind: known, origin: `https://${hostname}` };
+  throw new Error(`Unsupported repository host ${hostname}. Self-hosted GitHub Enterprise, GitLab, Gitea and Bitbucket Server instances can be registered in REPOSITORY_HOSTS on the server.`);
+}
+
+/**
+ * Matches /projects/<KEY>/repos/<slug> and /users/<name>/repos/<slug>, returning the
+ * index the match starts at so any context path in front of it can be kept.
+ */
+function findBitbucketRepoPath(segments: string[]): { index: number; owner: string; repo: string } | null {
+  for (let i = 0; i + 3 < segments.length; i++) {
+    if ((segments[i] === 'projects' || segments[i] === 'users') && segments[i + 2] === 'repos') {
+      const owner = segments[i] === 'users' ? `~${segments[i + 1]}` : segments[i + 1];
+      return { index: i, owner, repo: segments[i + 3] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decodes one path segment. Segments end up in API paths, so a decoded separator or dot
+ * segment would let the URL address a different resource than the repository.
+ */
+function decodeSegment(segment: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    throw new Error('Invalid repository URL format');
+  }
+  if (/[/\\]/.test(decoded) || decoded === '.' || decoded === '..') {
+    throw new Error('Invalid repository URL format');
+  }
+  return decoded;
+}
+
+/**
+ * Parses HTTPS, SSH (`git@host:owner/repo.git`, `ssh://git@host/owner/repo.git`) and
+ * host-specific browse URLs into a RepositoryLocation.
+ */
+export function parseRepositoryUrl(repoUrl: string): RepositoryLocation {
+  const trimmed = repoUrl.trim();
+  let hostname: string;
+  let pathname: string;
+
+  const scpLike = trimmed.match(/^[\w.-]+@([^:/]+):(.+)$/);
+  if (scpLike) {
+    hostname = scpLike[1].toLowerCase();
+    pathname = scpLike[2];
+  } else {
+    let url: URL;
+    try {
+      url = new URL(trimmed);
+    } catch {
+      throw new Error('Invalid repository URL format');
+    }
+    if (!['http:', 'https:', 'ssh:', 'git:'].includes(url.protocol)) {
+      throw new Error('Invalid repository URL format');
+    }
+    hostname = url.hostname.toLowerCase();
+    pathname = url.pathname;
+  }
+
+  if (hostname.startsWith('www.')) {
+    hostname = hostname.slice(4);
+  }
+
+  const { kind, origin } = resolveHost(hostname);
+  const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+
+  if (kind === 'bitbucket-server') {
+    const browse = findBitbucketRepoPath(segments);
+    if (browse) {
+      const contextPath = segments.slice(0, browse.index).join('/');
+      return {
+        kind,
+        baseUrl: contextPath ? `${origin}/${contextPath}` : origin,
+        owner: browse.owner,
+        repo: browse.repo.replace(/\.git$/, ''),
+      };
+    }
+    // Clone URLs: /scm/<key>/<slug>.git (HTTP) or /<key>/<slug>.git (SSH)
+    const scmIndex = segments.indexOf('scm');
+    const start = scmIndex === -1 ? segments.length - 2 : scmIndex + 1;
+    if (start < 0 || segments.length < start + 2) {
+      throw new Error('Invalid repository URL format');
+    }
+    const contextPath = segments.slice(0, scmIndex === -1 ? 0 : scmIndex).join('/');
+    return {
+      kind,
+      baseUrl: contextPath ? `${origin}/${contextPath}` : origin,
+      owner: segments[start].toUpperCase().startsWith('~') ? segments[start] : segments[start].toUpperCase(),
+      repo: segments[start + 1].replace(/\.git$/, ''),
+    };
+  }
+
+  // Everything after the repository path: /tree/<branch>, GitLab's /-/..., Gitea's /src/branch/<branch>
+  let repoSegments = segments;
+  let branch: string | undefined;
+  const dashIndex = segments.indexOf('-');
+  if (kind === 'gitlab' && dashIndex !== -1) {
+    repoSegments = segments.slice(0, dashIndex);
+    if (segments[dashIndex + 1] === 'tree') branch = segments.slice(dashIndex + 2).join('/') || undefined;
+  } else if (kind !== 'gitlab' && segments.length > 2) {
+    repoSegments = segments.slice(0, 2);
+    if (segments[2] === 'tree') branch = segments.slice(3).join('/') || undefined;
+    if (segments[2] === 'src' && segments[3] === 'branch') branch = segments.slice(4).join('/') || undefined;
+  }
+
+  if (repoSegments.length < 2) {
+    throw new Error('Invalid repository URL format');
+  }
+
+  return {
+    kind,
+    baseUrl: origin,
+    owner: repoSegments.slice(0, -1).join('/'),
+    repo: repoSegments[repoSegments.length - 1].replace(/\.git$/, ''),
+    branch,
+  };
+}
+
+/**
+ * Picks the provider for a repository URL: local paths and file:// URLs are read from
+ * disk, everything else goes to the API of the host named in the URL.
+ */
+export async function createRepositoryProvider(repoUrl: string, token?: string): Promise<RepositoryProvider> {
+  const localRepo = await LocalGitService.fromUrl(repoUrl);
+  if (localRepo) return localRepo;
+
+  const location = parseRepositoryUrl(repoUrl);
+  switch (location.kind) {
+    case 'github':
+      return new GitHubRepositoryProvider(location, token);
+    case 'gitlab':
+      return new GitLabService(location, token);
+    case 'gitea':
+      return new GiteaService(location, token);
+    case 'bitbucket-server':
+      return new BitbucketServerService(location, token);
+  }
+}
+
+/**
+ * Builds the contributor list from commit authors, for hosts without a contributors
+ * endpoint. Authors are keyed by email so display-name changes are not split.
+ */
+export function contributorsFromCommits(commits: Commit[]): Contributor[] {
+  const byEmail = new Map<string, Contributor>();
+  for (const commit of commits) {
+    const key = (commit.author.email || commit.author.name).toLowerCase();
+    const existing = byEmail.get(key);
+    if (existing) {
+      existing.contributions++;
+    } else {
+      byEmail.set(key, {
+        login: commit.author.name,
+        contributions: 1,
+        avatarUrl: '',
+        html_url: commit.author.email ? `mailto:${commit.author.email}` : undefined,
+        email: commit.author.email,
+        type: 'User',
+      });
+    }
+  }
+  return [...byEmail.values()].sort((a, b) => b.contributions - a.contributions);
+}
+
+/**
+ * Turns a failed host API call into a user-facing error, naming the host and what was
+ * being fetched. GitHub keeps its own handler for its rate-limit specific advice.
+ */
+export function handleProviderError(
+  hostName: string,
+  error: unknown,
+  context: string,
+  fullName: string,
+  hasToken: boolean
+): never {
+  if (axios.isCancel(error)) {
+    throw new Error(`Cancelled while ${context} for ${fullName}.`);
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data as { message?: string; errors?: Array<{ message?: string }> } | undefined;
+    const message = data?.message || data?.errors?.[0]?.message || error.message;
+
+    switch (status) {
+      case 401:
+        throw new Error(`Authentication failed with ${hostName}. Please check the access token in Settings.`);
+      case 403:
+        throw new Error(
+          `Access forbidden while ${context} for ${fullName}. ${hasToken
+            ? `Your ${hostName} token may lack the permissions needed to read this repository.`
+            : `Please configure a ${hostName} access token in Settings to access this repository.`}`
+        );
+      case 404:
+        throw new Error(`Repository ${fullName} not found on ${hostName}. Please check the URL and ensure the repository exists and is accessible.`);
+      case 429:
+        throw new Error(`${hostName} rate limit exceeded while ${context} for ${fullName}. Please try again later.`);
+      default:
+        throw new Error(`${hostName} API error (${status || 'Unknown'}) while ${context} for ${fullName}: ${message}.`);
+    }
+  }
+
+  throw new Error(`Failed to ${context} for ${fullName}: ${error instanceof Error ? error.message : String(error)}`);
+}
@@ -0,0 +1,502 @@
+/**
+ * SARIF 2.1.0 logs of a report's findings, and the findings of SARIF logs other tools wrote.
+ * Security findings, technical debt and performance findings are exported as results of
+ * rules with the CWE taxa they relate to. Imported findings keep the tool and log they came
+ * from, and are exported again as runs of that tool.
+ */
+
+import { AnalysisResult, FindingSource, SarifImport, SecurityIssue, TechnicalDebt } from '../types';
+
+export const SARIF_MEDIA_TYPE = 'application/sarif+json';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const TOOL = { name: 'repo-auditor', organization: 'Repo Auditor' };
+
+// The parts of a report a SARIF log is built from
+export type SarifSource = Pick<AnalysisResult, 'id' | 'repositoryUrl' | 'createdAt'>
+  & Partial<Pick<AnalysisResult, 'securityIssues' | 'technicalDebt' | 'performanceMetrics' | 'commitSha' | 'basicInfo'>>;
+
+// The parts of a report imported SARIF findings are merged into
+export type SarifImportTarget = Pick<AnalysisResult, 'securityIssues' | 'technicalDebt'> & Partial<Pick<AnalysisResult, 'sarifImports'>>;
+
+export interface SarifFindings {
+  tools: string[];
+  securityIssues: SecurityIssue[];
+  technicalDebt: TechnicalDebt[];
+}
+
+type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+interface SarifMessage {
+  text?: string;
+  markdown?: string;
+  id?: string;
+  arguments?: string[];
+}
+
+interface SarifReference {
+  id?: string;
+  index?: number;
+  toolComponent?: { name?: string; index?: number };
+}
+
+interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation?: { uri?: string; uriBaseId?: string; index?: number };
+    region?: { startLine?: number; snippet?: { text?: string } };
+    contextRegion?: { startLine?: number; snippet?: { text?: string } };
+  };
+  message?: SarifMessage;
+}
+
+interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription?: { text: string };
+  fullDescription?: { text: string };
+  messageStrings?: Record<string, { text?: string }>;
+  help?: { text: string; markdown?: string };
+  defaultConfiguration?: { level?: SarifLevel };
+  relationships?: Array<{ target: SarifReference; kinds?: string[] }>;
+  properties?: { tags?: string[]; 'security-severity'?: string; [key: string]: unknown };
+}
+
+interface SarifToolComponent {
+  name: string;
+  organization?: string;
+  version?: string;
+  semanticVersion?: string;
+  rules?: SarifRule[];
+  supportedTaxonomies?: Array<{ name: string; index: number }>;
+}
+
+interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: SarifReference;
+  kind?: string;
+  level?: SarifLevel;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  codeFlows?: Array<{ threadFlows: Array<{ locations: Array<{ location: SarifLocation }> }> }>;
+  taxa?: SarifReference[];
+  suppressions?: Array<{ status?: string }>;
+  baselineState?: string;
+  properties?: { tags?: string[]; 'security-severity'?: string | number; [key: string]: unknown };
+}
+
+interface SarifRun {
+  tool: { driver: SarifToolComponent; extensions?: SarifToolComponent[] };
+  taxonomies?: Array<{ name: string; organization?: string; informationUri?: string; taxa: Array<{ id: string; helpUri?: string }> }>;
+  results?: SarifResult[];
+  artifacts?: Array<{ location?: { uri?: string } }>;
+  originalUriBaseIds?: Record<string, { uri?: string }>;
+  versionControlProvenance?: Array<{ repositoryUri: string; revisionId?: string; mappedTo?: { uriBaseId: string } }>;
+  invocations?: Array<{ executionSuccessful: boolean; endTimeUtc?: string }>;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifLog {
+  $schema?: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+type Severity = SecurityIssue['severity'];
+
+const LEVELS: Record<Severity, SarifLevel> = { critical: 'error', high: 'error', medium: 'warning', low: 'note' };
+
+// Scores GitHub code scanning reads to rank security alerts, one per CVSS band
+const SECURITY_SEVERITIES: Record<Severity, string> = { critical: '9.5', high: '8.0', medium: '5.5', low: '2.0' };
+
+const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+const SECURITY_TITLES: Record<SecurityIssue['type'], string> = {
+  secret: 'Secret committed to the repository',
+  vulnerability: 'Vulnerability',
+  configuration: 'Insecure configuration',
+  license: 'License policy violation',
+  infrastructure: 'Infrastructure misconfiguration',
+};
+
+const DEBT_TITLES: Record<TechnicalDebt['type'], string> = {
+  complexity: 'Complex code',
+  duplication: 'Duplicated code',
+  smell: 'Code smell',
+  outdated: 'Outdated code',
+  documentation: 'Missing documentation',
+  'dead-code': 'Dead code',
+};
+
+const CWE_TAXONOMY = {
+  name: 'CWE',
+  organization: 'MITRE',
+  informationUri: 'https://cwe.mitre.org/',
+};
+
+const SOURCE_ROOT = '%SRCROOT%';
+
+interface Finding {
+  ruleId: string;
+  title: string;
+  severity: Severity;
+  level: SarifLevel;
+  tags: string[];
+  cwe?: string;
+  file: string;
+  line?: number;
+  snippet?: string;
+  message: string;
+  recommendation?: string;
+  codeFlow?: SecurityIssue['taint'];
+  properties: Record<string, unknown>;
+}
+
+function securityFinding(issue: SecurityIssue): Finding {
+  const cwe = cweNumber(issue.cwe);
+  return {
+    ruleId: issue.rule ?? issue.secret?.rule ?? (issue.taint ? `taint/${issue.taint.sink}` : [issue.type, cwe && `CWE-${cwe}`].filter(Boolean).join('/')),
+    title: SECURITY_TITLES[issue.type] ?? SECURITY_TITLES.vulnerability,
+    severity: issue.severity,
+    level: LEVELS[issue.severity],
+    tags: ['security', ...(cwe ? [`external/cwe/cwe-${cwe.padStart(3, '0')}`] : [])],
+    cwe,
+    file: issue.file,
+    line: issue.line,
+    snippet: issue.codeSnippet,
+    message: issue.description,
+    recommendation: issue.recommendation || undefined,
+    codeFlow: issue.taint,
+    properties: { category: 'security', type: issue.type, ...(issue.infrastructure ?? {}) },
+  };
+}
+
+function debtFinding(debt: TechnicalDebt): Finding {
+  return {
+    ruleId: debt.rule ?? debt.type,
+    title: DEBT_TITLES[debt.type] ?? DEBT_TITLES.smell,
+    severity: debt.severity,
+    level: LEVELS[debt.severity],
+    tags: ['maintainability', debt.type],
+    file: debt.file,
+    line: debt.line,
+    message: debt.description,
+    recommendation: debt.recommendation,
+    properties: { category: 'technical-debt', type: debt.type, effort: debt.effort, impact: debt.impact },
+  };
+}
+
+function performanceFinding(metric: NonNullable<SarifSource['performanceMetrics']>[number]): Finding {
+  const known = (value: string) => value && value !== 'N/A';
+  return {
+    ruleId: 'performance',
+    title: 'Performance issue',
+    severity: 'low',
+    level: 'note',
+    tags: ['performance'],
+    file: metric.file,
+    message: known(metric.function) ? `${metric.function}: ${metric.recommendation}` : metric.recommendation,
+    recommendation: metric.recommendation,
+    properties: {
+      category: 'performance',
+      ...(known(metric.complexity) ? { complexity: metric.complexity } : {}),
+      ...(known(metric.estimatedRuntime) ? { estimatedRuntime: metric.estimatedRuntime } : {}),
+    },
+  };
+}
+
+// The number of a CWE identifier such as 'CWE-89' or 'CWE-89: SQL Injection'
+function cweNumber(cwe: string | undefined): string | undefined {
+  const match = /^(?:cwe-?)?0*(\d+)/i.exec(cwe?.trim() ?? '');
+  return match?.[1];
+}
+
+function location(file: string, line: number | undefined, snippet: string | undefined, message?: string): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.split('/').map(encodeURIComponent).join('/'), uriBaseId: SOURCE_ROOT },
+      // A region needs a position; a snippet without a line is left out
+      ...(line ? { region: { startLine: line, ...(snippet ? { snippet: { text: snippet } } : {}) } } : {}),
+    },
+    ...(message ? { message: { text: message } } : {}),
+  };
+}
+
+/**
+ * One run of the given tool: a rule per distinct rule id, with the highest severity of its
+ * results as its default level, and the CWE taxa the rules and results relate to.
+ */
+function createRun(driver: SarifToolComponent, findings: Finding[], report: SarifSource, properties?: Record<string, unknown>): SarifRun {
+  const rules = new Map<string, { rule: SarifRule; index: number; severity: Severity }>();
+  const taxa = new Map<string, number>();
+  const taxon = (cwe: string) => {
+    if (!taxa.has(cwe)) taxa.set(cwe, taxa.size);
+    return { id: cwe, index: taxa.get(cwe)!, toolComponent: { name: CWE_TAXONOMY.name, index: 0 } };
+  };
+
+  const results = findings.map((finding): SarifResult => {
+    let entry = rules.get(finding.ruleId);
+    if (!entry) {
+      entry = {
+        rule: {
+          id: finding.ruleId,
+          shortDescription: { text: finding.title },
+          ...(finding.recommendation ? { help: { text: finding.recommendation } } : {}),
+          defaultConfiguration: { level: finding.level },
+          properties: { tags: finding.tags },
+        },
+        index: rules.size,
+        severity: finding.severity,
+      };
+      rules.set(finding.ruleId, entry);
+    }
+    const { rule } = entry;
+    if (SEVERITY_ORDER.indexOf(finding.severity) > SEVERITY_ORDER.indexOf(entry.severity)) {
+      entry.severity = finding.severity;
+      rule.defaultConfiguration = { level: finding.level };
+    }
+    if (finding.tags.includes('security')) {
+      rule.properties!['security-severity'] = SECURITY_SEVERITIES[entry.severity];
+    }
+    if (finding.cwe && !rule.relationships?.some(relationship => relationship.target.id === finding.cwe)) {
+      rule.relationships = [...(rule.relationships ?? []), { target: taxon(finding.cwe), kinds: ['superset'] }];
+    }
+    return {
+      ruleId: finding.ruleId,
+      ruleIndex: entry.index,
+      level: finding.level,
+      message: { text: finding.message },
+      locations: [location(finding.file, finding.line, finding.snippet)],
+      ...(finding.codeFlow ? {
+        codeFlows: [{
+          threadFlows: [{
+            locations: finding.codeFlow.steps.map(step => ({ location: location(step.file, step.line, step.code, step.description) })),
+          }],
+        }],
+      } : {}),
+      ...(finding.cwe ? { taxa: [taxon(finding.cwe)] } : {}),
+      properties: {
+        ...finding.properties,
+        ...(finding.recommendation ? { recommendation: finding.recommendation } : {}),
+        // Also per result, as the rule's score is that of its most severe result
+        ...(finding.tags.includes('security') ? { 'security-severity': SECURITY_SEVERITIES[finding.severity] } : {}),
+      },
+    };
+  });
+
+  return {
+    tool: {
+      driver: {
+        ...driver,
+        rules: [...rules.values()].map(({ rule }) => rule),
+        ...(taxa.size > 0 ? { supportedTaxonomies: [{ name: CWE_TAXONOMY.name, index: 0 }] } : {}),
+      },
+    },
+    ...(taxa.size > 0 ? {
+      taxonomies: [{
+        ...CWE_TAXONOMY,
+        taxa: [...taxa.keys()].map(id => ({ id, helpUri: `https://cwe.mitre.org/data/definitions/${id}.html` })),
+      }],
+    } : {}),
+    versionControlProvenance: [{
+      repositoryUri: report.repositoryUrl,
+      ...(report.commitSha ? { revisionId: report.commitSha } : {}),
+      mappedTo: { uriBaseId: SOURCE_ROOT },
+    }],
+    invocations: [{ executionSuccessful: true, endTimeUtc: report.createdAt }],
+    results,
+    ...(properties ? { properties } : {}),
+  };
+}
+
+/**
+ * A SARIF 2.1.0 log of a report's findings. The report's own findings make up the first run;
+ * findings imported from other tools follow in a run per tool and log they came from.
+ */
+export function createSarifLog(report: SarifSource): SarifLog {
+  const own: Finding[] = [];
+  const imported = new Map<string, { source: FindingSource; findings: Finding[] }>();
+  const add = (source: FindingSource | undefined, finding: Finding) => {
+    if (!source) {
+      own.push(finding);
+      return;
+    }
+    const key = JSON.stringify([source.origin, source.tool, source.version]);
+    if (!imported.has(key)) imported.set(key, { source, findings: [] });
+    imported.get(key)!.findings.push(finding);
+  };
+  for (const issue of report.securityIssues ?? []) add(issue.source, securityFinding(issue));
+  for (const debt of report.technicalDebt ?? []) add(debt.source, debtFinding(debt));
+  for (const metric of report.performanceMetrics ?? []) add(undefined, performanceFinding(metric));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      createRun(TOOL, own, report),
+      ...[...imported.values()].map(({ source, findings }) => createRun(
+        { name: source.tool, ...(source.version ? { version: source.version } : {}) },
+        findings,
+        report,
+        { origin: source.origin },
+      )),
+    ],
+  };
+}
+
+// CWE numbers a rule or result relates to through taxa, relationships or tags like external/cwe/cwe-089
+function cweNumbers(references: SarifReference[], tags: unknown): string[] {
+  const fromTaxa = references
+    .filter(reference => !reference.toolComponent?.name || /^cwe$/i.test(reference.toolComponent.name))
+    .map(reference => cweNumber(reference.id));
+  const fromTags = (Array.isArray(tags) ? tags : [])
+    .map(tag => /^(?:external\/cwe\/)?cwe-0*(\d+)$/i.exec(String(tag))?.[1]);
+  return [...fromTaxa, ...fromTags].filter((cwe): cwe is string => !!cwe);
+}
+
+// Severity from a CVSS-style security-severity score, or from the level
+function severityOf(securitySeverity: unknown, level: SarifLevel): Severity {
+  const score = Number(securitySeverity);
+  if (securitySeverity !== undefined && !Number.isNaN(score)) {
+    if (score >= 9) return 'critical';
+    if (score >= 7) return 'high';
+    if (score >= 4) return 'medium';
+    return 'low';
+  }
+  if (level === 'error') return 'high';
+  return level === 'warning' ? 'medium' : 'low';
+}
+
+function messageText(message: SarifMessage | undefined, rule: SarifRule | undefined): string | undefined {
+  const template = message?.text ?? message?.markdown ?? (message?.id ? rule?.messageStrings?.[message.id]?.text : undefined);
+  const args = message?.arguments ?? [];
+  return template?.replace(/\{(\d+)\}/g, (placeholder, index) => args[Number(index)] ?? placeholder);
+}
+
+/**
+ * Path of an artifact relative to the repository root. URIs relative to a base such as
+ * %SRCROOT% are already relative; absolute ones lose the base directory the run declares.
+ */
+function artifactPath(run: SarifRun, artifact: { uri?: string; uriBaseId?: string; index?: number } | undefined): string | undefined {
+  let uri = artifact?.uri ?? (artifact?.index !== undefined ? run.artifacts?.[artifact.index]?.location?.uri : undefined);
+  if (!uri) return undefined;
+  const bases = Object.values(run.originalUriBaseIds ?? {})
+    .map(base => base.uri)
+    .filter((base): base is string => !!base && /^file:/i.test(base))
+    .map(base => base.endsWith('/') ? base : `${base}/`);
+  const base = bases.find(candidate => uri!.startsWith(candidate));
+  if (base) uri = uri.slice(base.length);
+  try {
+    uri = decodeURIComponent(uri);
+  } catch {
+    // Keep a URI with stray percent signs as it is
+  }
+  return uri.replace(/^file:\/\//i, '').replace(/^(\.\/)+/, '');
+}
+
+function ruleOf(run: SarifRun, result: SarifResult): SarifRule | undefined {
+  const { driver, extensions = [] } = run.tool;
+  const component = result.rule?.toolComponent?.index !== undefined ? extensions[result.rule.toolComponent.index] : driver;
+  const index = result.rule?.index ?? result.ruleIndex;
+  if (component && index !== undefined && component.rules?.[index]) return component.rules[index];
+  const id = result.ruleId ?? result.rule?.id;
+  return [driver, ...extensions].flatMap(candidate => candidate.rules ?? []).find(rule => rule.id === id);
+}
+
+// Results that are not problems, were suppressed or have been fixed since the baseline
+function isReported(result: SarifResult): boolean {
+  if (result.kind && !['fail', 'open', 'review'].includes(result.kind)) return false;
+  if (result.suppressions?.some(suppression => !suppression.status || suppression.status === 'accepted')) return false;
+  return result.baselineState !== 'absent';
+}
+
+/**
+ * The findings of a SARIF 2.1.0 log, attributed to the tool of each run and to `origin`, the
+ * log's path or name. Results with a CWE, a security-severity or a security tag are security
+ * findings; all others are technical debt.
+ */
+export function readSarifLog(input: string | unknown, origin: string): SarifFindings {
+  const log = (typeof input === 'string' ? JSON.parse(input) : input) as Partial<SarifLog> | undefined;
+  if (log?.version !== '2.1.0' || !Array.isArray(log.runs)) {
+    throw new Error(`${origin} is not a SARIF 2.1.0 log`);
+  }
+  const findings: SarifFindings = { tools: [], securityIssues: [], technicalDebt: [] };
+
+  for (const run of log.runs) {
+    const driver = run?.tool?.driver;
+    if (!driver?.name) continue;
+    const version = driver.semanticVersion ?? driver.version;
+    const source: FindingSource = { tool: driver.name, ...(version ? { version } : {}), origin };
+    if (!findings.tools.includes(driver.name)) findings.tools.push(driver.name);
+
+    for (const result of run.results ?? []) {
+      if (!isReported(result)) continue;
+      const rule = ruleOf(run, result);
+      const description = messageText(result.message, rule) ?? rule?.shortDescription?.text;
+      const physical = result.locations?.[0]?.physicalLocation;
+      const file = artifactPath(run, physical?.artifactLocation);
+      if (!description || !file) continue;
+
+      const tags = [...(rule?.properties?.tags ?? []), ...(Array.isArray(result.properties?.tags) ? result.properties!.tags : [])];
+      const cwe = cweNumbers([...(result.taxa ?? []), ...(rule?.relationships ?? []).map(relationship => relationship.target)], tags)[0];
+      const securitySeverity = result.properties?.['security-severity'] ?? rule?.properties?.['security-severity'];
+      const level = result.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+      const severity = severityOf(securitySeverity, level);
+      const line = physical?.region?.startLine ?? physical?.contextRegion?.startLine;
+      const snippet = physical?.region?.snippet?.text ?? physical?.contextRegion?.snippet?.text;
+      const ruleId = result.ruleId ?? result.rule?.id ?? rule?.id;
+      const recommendation = rule?.help?.text ?? rule?.fullDescription?.text;
+
+      if (cwe || securitySeverity !== undefined || tags.some(tag => String(tag).toLowerCase() === 'security')) {
+        findings.securityIssues.push({
+          type: 'vulnerability',
+          severity,
+          file,
+          line,
+          description,
+          recommendation: recommendation ?? '',
+          ...(cwe ? { cwe: `CWE-${cwe}` } : {}),
+          ...(snippet ? { codeSnippet: snippet.trim() } : {}),
+          ...(ruleId ? { rule: ruleId } : {}),
+          source,
+        });
+      } else {
+        const debtSeverity = severity === 'critical' ? 'high' : severity;
+        findings.technicalDebt.push({
+          type: 'smell',
+          ...(ruleId ? { rule: ruleId } : {}),
+          severity: debtSeverity,
+          file,
+          line,
+          description,
+          effort: debtSeverity,
+          impact: debtSeverity,
+          ...(recommendation ? { recommendation } : {}),
+          source,
+        });
+      }
+    }
+  }
+  return findings;
+}
+
+/**
+ * A report's findings with those of one imported SARIF log added. Findings imported earlier
+ * from the same origin are replaced, so importing a log again does not duplicate them.
+ */
+export function mergeSarifFindings(report: SarifImportTarget, origin: string, findings: SarifFindings, importedAt = new Date().toISOString()): Required<SarifImportTarget> {
+  const kept = <T extends { source?: FindingSource }>(items: T[] | undefined) => (items ?? []).filter(item => item.source?.origin !== origin);
+  const sarifImport: SarifImport = {
+    origin,
+    tools: findings.tools,
+    securityIssues: findings.securityIssues.length,
+    technicalDebt: findings.technicalDebt.length,
+    importedAt,
+  };
+  return {
+    securityIssues: [...kept(report.securityIssues), ...findings.securityIssues],
+    technicalDebt: [...kept(report.technicalDebt), ...findings.technicalDebt],
+    sarifImports: [...(report.sarifImports ?? []).filter(existing => existing.origin !== origin), sarifImport],
+  };
+}
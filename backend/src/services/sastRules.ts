@@ -0,0 +1,548 @@
+/**
+ * A rule engine for Semgrep-style YAML rules, run in process over the Babel syntax trees of the
+ * JavaScript and TypeScript files already read. Patterns are written as code, with `$X`
+ * metavariables and `...` ellipses, and matched by structure, so formatting, comments, quotes
+ * and type assertions do not matter. The supported subset is `pattern`, `patterns`,
+ * `pattern-either`, `pattern-not`, `pattern-inside`, `pattern-not-inside` and
+ * `metavariable-regex`, with `paths` filters and `nosemgrep` comments; rules using anything
+ * else, or written only for other languages, are skipped with the reason. The bundled pack
+ * works offline, and rules in the directory at SAST_RULES_DIR are added to it, replacing
+ * bundled rules with the same id.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { BUNDLED_SAST_RULE_PACK } from '../config/sastRules';
+import { FileInfo, SecurityIssue } from '../types';
+import { globPattern } from './deadCode';
+import { parseJavaScript, walkSyntaxTree } from './javascriptSyntax';
+import { JAVASCRIPT_EXTENSIONS } from './moduleResolver';
+
+// Larger files are bundled or generated code
+const MAX_FILE_BYTES = 500_000;
+const MAX_BINDING_LENGTH = 60;
+
+const LANGUAGES = new Set(['javascript', 'typescript', 'js', 'ts', 'jsx', 'tsx']);
+// `...` is not valid everywhere in JavaScript, so patterns are parsed with it renamed
+const ELLIPSIS = '__SAST_ELLIPSIS__';
+const METAVARIABLE = /^\$[A-Z_][A-Z0-9_]*$/;
+
+// Keys that hold positions, comments and details that do not change what code means
+const IGNORED_KEYS = new Set([
+  'type', 'loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments',
+  'comments', 'errors', 'tokens', 'directives', 'optional', 'selfClosing', 'shorthand',
+]);
+// Wrappers the target may have that a pattern matches through
+const TRANSPARENT_TYPES = new Set(['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'TSTypeAssertion', 'ParenthesizedExpression']);
+// Types that are the same code in another position: optional chains, and functions and classes, which
+// patterns read as expressions and code mostly declares
+const NORMALIZED_TYPES: Record<string, string> = {
+  OptionalCallExpression: 'CallExpression',
+  OptionalMemberExpression: 'MemberExpression',
+  FunctionDeclaration: 'FunctionExpression',
+  ClassDeclaration: 'ClassExpression',
+};
+
+// Semgrep's severities, old and new
+const SEVERITIES: Record<string, SecurityIssue['severity']> = {
+  CRITICAL: 'critical', ERROR: 'high', HIGH: 'high', WARNING: 'medium', MEDIUM: 'medium', INFO: 'low', LOW: 'low',
+};
+
+const RuleSchema = z.object({
+  id: z.string().min(1),
+  message: z.string(),
+  severity: z.string().transform(value => value.toUpperCase()).refine(value => value in SEVERITIES, 'Unknown severity'),
+  languages: z.array(z.string()).min(1),
+  metadata: z.record(z.unknown()).default({}),
+  paths: z.object({
+    include: z.array(z.string()).default([]),
+    exclude: z.array(z.string()).default([]),
+  }).default({}),
+}).passthrough();
+
+const RulePackSchema = z.object({ rules: z.array(z.unknown()) });
+
+// Rule fields that are not part of its condition; `fix` and `options` are read by Semgrep alone
+const RULE_FIELDS = new Set(['id', 'message', 'severity', 'languages', 'metadata', 'paths', 'mode', 'fix', 'options', 'min-version']);
+
+// --- Patterns ---
+
+type Bindings = Record<string, any>;
+
+type CompiledPattern =
+  | { kind: 'expression'; node: any }
+  | { kind: 'statements'; nodes: any[] };
+
+// A rule's condition, with Semgrep's operators
+type Formula =
+  | { pattern: CompiledPattern }
+  | { either: Formula[] }
+  | { all: Formula[] }
+  | { not: Formula }
+  | { inside: Formula }
+  | { notInside: Formula }
+  | { metavariable: string; regex: RegExp };
+
+/**
+ * A loaded rule. `origin` is 'bundled' or the file it was read from; `include` and `exclude`
+ * filter the files it runs on.
+ */
+export interface SastRule {
+  id: string;
+  message: string;
+  severity: SecurityIssue['severity'];
+  cwe?: string;
+  recommendation?: string;
+  include: RegExp[];
+  exclude: RegExp[];
+  origin: string;
+  formula: Formula;
+}
+
+// Renames every `...` outside strings, leaving spreads such as `...args` alone
+function renameEllipses(pattern: string): string {
+  let renamed = '';
+  let quote: string | undefined;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (quote) {
+      renamed += char;
+      if (char === '\\') renamed += pattern[++i] ?? '';
+      else if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      renamed += char;
+    } else if (pattern.startsWith('...', i) && !/[\w$]/.test(pattern[i + 3] ?? '')) {
+      renamed += ELLIPSIS;
+      i += 2;
+    } else {
+      renamed += char;
+    }
+  }
+  return renamed;
+}
+
+// Patterns are read as an expression where they can be, so `{ a: 1 }` is an object and not a block
+function compilePattern(pattern: string): CompiledPattern {
+  const source = renameEllipses(pattern.trim());
+  const asExpression = parsePattern(`(${source}\n)`);
+  if (asExpression?.length === 1 && asExpression[0].type === 'ExpressionStatement') {
+    return { kind: 'expression', node: asExpression[0].expression };
+  }
+  const nodes = parsePattern(source);
+  if (!nodes || nodes.length === 0) throw new Error(`Cannot parse the pattern: ${pattern.trim()}`);
+  return nodes.length === 1 && nodes[0].type === 'ExpressionStatement' ? { kind: 'expression', node: nodes[0].expression } : { kind: 'statements', nodes };
+}
+
+// The statements of a pattern, or undefined when it is not valid code
+function parsePattern(source: string): any[] | undefined {
+  try {
+    const ast = parseJavaScript(source);
+    return (ast.errors?.length ?? 0) === 0 ? ast.program.body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const isEllipsis = (node: any): boolean =>
+  (node?.type === 'Identifier' && node.name === ELLIPSIS)
+  || (node?.type === 'ExpressionStatement' && isEllipsis(node.expression))
+  || (node?.type === 'ObjectProperty' && node.shorthand && isEllipsis(node.value))
+  || (node?.type === 'JSXAttribute' && node.name?.name === ELLIPSIS);
+
+const metavariableName = (node: any): string | undefined =>
+  (node?.type === 'Identifier' || node?.type === 'JSXIdentifier') && METAVARIABLE.test(node.name) ? node.name : undefined;
+
+const normalizedType = (type: string) => NORMALIZED_TYPES[type] ?? type;
+
+function unwrap(node: any): any {
+  while (node && TRANSPARENT_TYPES.has(node.type)) node = node.expression;
+  return node;
+}
+
+// Whether two subtrees are the same code, wherever they are written
+function sameCode(a: any, b: any): boolean {
+  a = unwrap(a);
+  b = unwrap(b);
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => sameCode(item, b[i]));
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (typeof a.type === 'string' && normalizedType(a.type) !== normalizedType(b.type)) return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if (IGNORED_KEYS.has(key)) continue;
+    if (!sameCode(a[key] ?? null, b[key] ?? null)) return false;
+  }
+  return true;
+}
+
+function bind(name: string, node: any, bindings: Bindings): Bindings | undefined {
+  if (name === '$_') return bindings;
+  if (name in bindings) return sameCode(bindings[name], node) ? bindings : undefined;
+  return { ...bindings, [name]: unwrap(node) };
+}
+
+function matchNode(pattern: any, target: any, bindings: Bindings): Bindings | undefined {
+  if (!target || typeof target !== 'object') return undefined;
+  if (isEllipsis(pattern)) return bindings;
+  const name = metavariableName(pattern);
+  if (name) return bind(name, target, bindings);
+  if (!TRANSPARENT_TYPES.has(pattern.type)) target = unwrap(target);
+  // "..." stands for any string, and "SELECT ..." for any that starts so
+  if (pattern.type === 'StringLiteral' && pattern.value.includes('...')) {
+    const text = target.type === 'StringLiteral' ? target.value
+      : target.type === 'TemplateLiteral' && target.expressions.length === 0 ? target.quasis[0].value.cooked : undefined;
+    return sameText(pattern.value, text) ? bindings : undefined;
+  }
+  if (normalizedType(pattern.type) !== normalizedType(target.type)) return undefined;
+
+  let matched: Bindings | undefined = bindings;
+  for (const key of Object.keys(pattern)) {
+    if (IGNORED_KEYS.has(key)) continue;
+    const expected = pattern[key];
+    const actual = target[key];
+    // What a pattern leaves out is not checked, such as the children of `<$EL ... />`
+    if (expected === null || expected === undefined) continue;
+    if (key === 'kind' && pattern.type === 'VariableDeclaration') continue;
+    if (Array.isArray(expected)) {
+      if (expected.length === 0 && key === 'children') continue;
+      matched = key === 'attributes' ? matchSubset(expected, actual ?? [], matched) : matchSequence(expected, actual ?? [], matched);
+    } else if (typeof expected === 'object' && typeof expected.type === 'string') {
+      matched = matchNode(expected, actual, matched);
+    } else if (typeof expected === 'object') {
+      // The text of template literal parts, where `...` stands for any text
+      if (!sameText(expected.cooked, actual?.cooked)) return undefined;
+    } else if (expected !== actual) {
+      return undefined;
+    }
+    if (!matched) return undefined;
+  }
+  return matched;
+}
+
+function sameText(pattern: string, text: string | undefined): boolean {
+  if (text === undefined) return false;
+  if (!pattern.includes('...')) return pattern === text;
+  const parts = pattern.split('...').map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${parts.join('[\\s\\S]*')}$`).test(text);
+}
+
+// Lists in order, where an ellipsis stands for any number of items
+function matchSequence(patterns: any[], targets: any[], bindings: Bindings, i = 0, j = 0): Bindings | undefined {
+  if (i === patterns.length) return j === targets.length ? bindings : undefined;
+  if (isEllipsis(patterns[i])) {
+    for (let k = j; k <= targets.length; k++) {
+      const matched = matchSequence(patterns, targets, bindings, i + 1, k);
+      if (matched) return matched;
+    }
+    return undefined;
+  }
+  if (j >= targets.length) return undefined;
+  const matched = matchNode(patterns[i], targets[j], bindings);
+  return matched && matchSequence(patterns, targets, matched, i + 1, j + 1);
+}
+
+// JSX attributes, which match in any order and alongside others
+function matchSubset(patterns: any[], targets: any[], bindings: Bindings, used = new Set<number>()): Bindings | undefined {
+  const [first, ...rest] = patterns.filter(pattern => !isEllipsis(pattern));
+  if (!first) return bindings;
+  for (let j = 0; j < targets.length; j++) {
+    if (used.has(j)) continue;
+    const matched = matchNode(first, targets[j], bindings);
+    const all = matched && matchSubset(rest, targets, matched, new Set([...used, j]));
+    if (all) return all;
+  }
+  return undefined;
+}
+
+// --- Rules ---
+
+function compileFormula(entry: Record<string, unknown>, rule: string): Formula {
+  const keys = Object.keys(entry).filter(key => key !== 'focus-metavariable');
+  if (keys.length !== 1) throw new Error(`Rule ${rule} needs exactly one of pattern, patterns or pattern-either where it has ${keys.join(', ') || 'none'}`);
+  const [key] = keys;
+  const value = entry[key];
+  const list = (what: string) => {
+    if (!Array.isArray(value)) throw new Error(`Rule ${rule}: ${what} takes a list`);
+    return value.map(item => compileFormula(item as Record<string, unknown>, rule));
+  };
+  const pattern = () => {
+    if (typeof value !== 'string') throw new Error(`Rule ${rule}: ${key} takes a pattern`);
+    return { pattern: compilePattern(value) };
+  };
+  switch (key) {
+    case 'pattern':
+      return pattern();
+    case 'pattern-either':
+      return { either: list(key) };
+    case 'patterns': {
+      const all = list(key);
+      if (!all.some(isPositive)) throw new Error(`Rule ${rule}: patterns needs a pattern that matches code, not only filters`);
+      return { all };
+    }
+    case 'pattern-not':
+      return { not: pattern() };
+    case 'pattern-inside':
+      return { inside: pattern() };
+    case 'pattern-not-inside':
+      return { notInside: pattern() };
+    case 'metavariable-regex': {
+      const { metavariable, regex } = (value ?? {}) as { metavariable?: unknown; regex?: unknown };
+      if (typeof metavariable !== 'string' || typeof regex !== 'string') throw new Error(`Rule ${rule}: metavariable-regex needs metavariable and regex`);
+      return { metavariable, regex: new RegExp(regex) };
+    }
+    default:
+      throw new Error(`Rule ${rule} uses ${key}, which is not supported`);
+  }
+}
+
+const isPositive = (formula: Formula) => 'pattern' in formula || 'either' in formula || 'all' in formula;
+
+const firstCwe = (cwe: unknown): string | undefined =>
+  (Array.isArray(cwe) ? cwe : [cwe]).map(item => (typeof item === 'string' ? /CWE-\d+/.exec(item)?.[0] : undefined)).find(Boolean);
+
+/**
+ * Reads the rules in a Semgrep YAML rule file. A rule that cannot be read, or that is written
+ * only for languages other than JavaScript and TypeScript, is skipped and reported to `onError`;
+ * the others are returned.
+ */
+export function parseSastRules(text: string, origin: string, onError?: (source: string, error: unknown) => void): SastRule[] {
+  const pack = RulePackSchema.parse(parseYaml(text));
+  const rules: SastRule[] = [];
+  const unsupported: string[] = [];
+  for (const entry of pack.rules) {
+    const id = typeof (entry as { id?: unknown })?.id === 'string' ? (entry as { id: string }).id : '(no id)';
+    try {
+      const rule = RuleSchema.parse(entry);
+      if (!rule.languages.some(language => LANGUAGES.has(language.toLowerCase()))) {
+        unsupported.push(id);
+        continue;
+      }
+      if (rule.mode !== undefined && rule.mode !== 'search') throw new Error(`Rule ${id} uses ${rule.mode} mode, which is not supported`);
+      const condition = Object.fromEntries(Object.entries(rule).filter(([key]) => !RULE_FIELDS.has(key)));
+      rules.push({
+        id,
+        message: rule.message.trim(),
+        severity: SEVERITIES[rule.severity],
+        cwe: firstCwe(rule.metadata.cwe),
+        recommendation: typeof rule.metadata.recommendation === 'string' ? rule.metadata.recommendation : undefined,
+        include: rule.paths.include.map(globPattern),
+        exclude: rule.paths.exclude.map(globPattern),
+        origin,
+        formula: compileFormula(condition, id),
+      });
+    } catch (e) {
+      onError?.(`${origin}: ${id}`, e);
+    }
+  }
+  if (unsupported.length > 0) onError?.(origin, new Error(`Rules for languages other than JavaScript and TypeScript were skipped: ${unsupported.join(', ')}`));
+  return rules;
+}
+
+export const BUNDLED_SAST_RULES: SastRule[] = parseSastRules(BUNDLED_SAST_RULE_PACK, 'bundled');
+
+/**
+ * The bundled rules, followed by the rules in the .yml and .yaml files of the directory at
+ * SAST_RULES_DIR when one is configured. A file that cannot be read is reported to `onError`
+ * and skipped; a directory that cannot be listed throws.
+ */
+export async function loadSastRules(onError?: (source: string, error: unknown) => void): Promise<SastRule[]> {
+  const directory = process.env.SAST_RULES_DIR;
+  if (!directory) return BUNDLED_SAST_RULES;
+  const rules = new Map(BUNDLED_SAST_RULES.map(rule => [rule.id, rule]));
+  const entries = await fs.readdir(directory, { recursive: true });
+  for (const entry of entries.filter(name => /\.ya?ml$/i.test(name)).sort()) {
+    const file = path.join(directory, entry);
+    try {
+      for (const rule of parseSastRules(await fs.readFile(file, 'utf8'), entry, onError)) rules.set(rule.id, rule);
+    } catch (e) {
+      onError?.(entry, e);
+    }
+  }
+  return [...rules.values()];
+}
+
+// --- Matching ---
+
+interface Match {
+  start: number;
+  end: number;
+  node: any;
+  bindings: Bindings;
+}
+
+interface ParsedFile {
+  path: string;
+  content: string;
+  lines: string[];
+  // Nodes by type, and the lists of statements, where sequences of statements are searched
+  nodes: Map<string, any[]>;
+  statementLists: any[][];
+  // Lines `nosemgrep` comments are on, with the rules they name; an empty list silences every rule
+  silenced: Map<number, string[]>;
+}
+
+function readFile(filePath: string, content: string): ParsedFile {
+  const ast = parseJavaScript(content);
+  const nodes = new Map<string, any[]>();
+  const statementLists: any[][] = [];
+  walkSyntaxTree(ast.program, node => {
+    const type = normalizedType(node.type);
+    const ofType = nodes.get(type);
+    if (ofType) ofType.push(node);
+    else nodes.set(type, [node]);
+    if (node.type === 'Program' || node.type === 'BlockStatement' || node.type === 'StaticBlock') statementLists.push(node.body);
+    if (node.type === 'SwitchCase') statementLists.push(node.consequent);
+  });
+  const silenced = new Map<number, string[]>();
+  for (const comment of ast.comments ?? []) {
+    const directive = /\bnosemgrep\b(?::\s*([\w.,\s-]+))?/.exec(comment.value);
+    if (!directive || !comment.loc) continue;
+    const ids = (directive[1] ?? '').split(',').map(id => id.trim()).filter(Boolean);
+    silenced.set(comment.loc.start.line, ids);
+  }
+  return { path: filePath, content, lines: content.split('\n'), nodes, statementLists, silenced };
+}
+
+function patternMatches(pattern: CompiledPattern, file: ParsedFile): Match[] {
+  const matches: Match[] = [];
+  if (pattern.kind === 'expression') {
+    const root = pattern.node;
+    const candidates = metavariableName(root) || isEllipsis(root)
+      ? [...file.nodes.values()].flat()
+      : file.nodes.get(normalizedType(root.type)) ?? [];
+    for (const node of candidates) {
+      const bindings = matchNode(root, node, {});
+      if (bindings) matches.push({ start: node.start, end: node.end, node, bindings });
+    }
+    return matches;
+  }
+  // A sequence of statements matches consecutive statements, from any statement on
+  const sequence = [...pattern.nodes, { type: 'Identifier', name: ELLIPSIS }];
+  for (const statements of file.statementLists) {
+    for (let i = 0; i < statements.length; i++) {
+      const bindings = matchSequence(sequence, statements.slice(i), {});
+      if (!bindings) continue;
+      const last = lastMatched(pattern.nodes, statements.slice(i));
+      matches.push({ start: statements[i].start, end: statements[i + last].end, node: statements[i], bindings });
+    }
+  }
+  return matches;
+}
+
+// The index of the statement the last pattern statement matched, with the fewest statements in between
+function lastMatched(patterns: any[], statements: any[]): number {
+  for (let end = 1; end <= statements.length; end++) {
+    if (matchSequence(patterns, statements.slice(0, end), {})) return end - 1;
+  }
+  return statements.length - 1;
+}
+
+// Bindings of two matches together, when the metavariables they share bind the same code
+function combine(a: Bindings, b: Bindings): Bindings | undefined {
+  for (const name of Object.keys(b)) {
+    if (name in a && !sameCode(a[name], b[name])) return undefined;
+  }
+  return { ...a, ...b };
+}
+
+const contains = (outer: Match, inner: Match) => outer.start <= inner.start && inner.end <= outer.end;
+
+function evaluate(formula: Formula, file: ParsedFile): Match[] {
+  if ('pattern' in formula) return patternMatches(formula.pattern, file);
+  if ('either' in formula) return formula.either.flatMap(option => evaluate(option, file));
+  if (!('all' in formula)) return [];
+
+  const first = formula.all.find(isPositive)!;
+  let matches = evaluate(first, file);
+  for (const term of formula.all) {
+    if (term === first || matches.length === 0) continue;
+    if (isPositive(term) || 'inside' in term) {
+      // Kept where the other pattern matches the same code or code around it
+      const around = evaluate('inside' in term ? term.inside : term, file);
+      matches = matches.flatMap(match => {
+        for (const outer of around) {
+          const bindings = contains(outer, match) ? combine(match.bindings, outer.bindings) : undefined;
+          if (bindings) return [{ ...match, bindings }];
+        }
+        return [];
+      });
+    } else if ('not' in term || 'notInside' in term) {
+      const excluded = evaluate('not' in term ? term.not : term.notInside, file);
+      matches = matches.filter(match => !excluded.some(other =>
+        ('not' in term ? other.start === match.start && other.end === match.end : contains(other, match)) && combine(match.bindings, other.bindings)));
+    } else if ('metavariable' in term) {
+      matches = matches.filter(match => match.bindings[term.metavariable] && term.regex.test(bindingText(match.bindings[term.metavariable], file)));
+    }
+  }
+  return matches;
+}
+
+const bindingText = (node: any, file: ParsedFile) => file.content.slice(node.start, node.end);
+
+const isRuleFile = (filePath: string) =>
+  JAVASCRIPT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+  && !/\.d\.[cm]?ts$|\.min\.js$/.test(filePath)
+  && !filePath.split('/').includes('node_modules');
+
+/**
+ * Runs the rules over the JavaScript and TypeScript files, one finding per rule and place.
+ * Metavariables in a rule's message are replaced by the code they matched.
+ */
+export function runSastRules(
+  files: Array<Pick<FileInfo, 'path' | 'content'>>,
+  rules: SastRule[],
+  onError?: (file: string, error: unknown) => void,
+): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  for (const { path: filePath, content } of files) {
+    if (!content || content.length > MAX_FILE_BYTES || !isRuleFile(filePath)) continue;
+    const applicable = rules.filter(rule =>
+      (rule.include.length === 0 || rule.include.some(glob => glob.test(filePath))) && !rule.exclude.some(glob => glob.test(filePath)));
+    if (applicable.length === 0) continue;
+    let file: ParsedFile;
+    try {
+      file = readFile(filePath, content);
+    } catch (e) {
+      onError?.(filePath, e);
+      continue;
+    }
+    for (const rule of applicable) {
+      const seen = new Set<number>();
+      for (const match of evaluate(rule.formula, file)) {
+        const line = match.node.loc.start.line;
+        if (seen.has(match.start) || isSilenced(file, line, rule.id)) continue;
+        seen.add(match.start);
+        issues.push({
+          type: 'vulnerability',
+          severity: rule.severity,
+          file: filePath,
+          line,
+          description: rule.message.replace(/\$[A-Z_][A-Z0-9_]*/g, name => {
+            const bound = match.bindings[name];
+            if (!bound) return name;
+            const text = bindingText(bound, file).replace(/\s+/g, ' ');
+            return text.length > MAX_BINDING_LENGTH ? `${text.slice(0, MAX_BINDING_LENGTH)}…` : text;
+          }),
+          recommendation: rule.recommendation ?? `Review the code matched by the ${rule.id} rule.`,
+          ...(rule.cwe ? { cwe: rule.cwe } : {}),
+          codeSnippet: file.lines[line - 1]?.trim(),
+          rule: rule.id,
+        });
+      }
+    }
+  }
+  return issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+}
+
+// A `nosemgrep` comment on the line or on the line before silences the finding
+function isSilenced(file: ParsedFile, line: number, rule: string): boolean {
+  return [line, line - 1].some(at => {
+    const ids = file.silenced.get(at);
+    return !!ids && (ids.length === 0 || ids.includes(rule));
+  });
+}
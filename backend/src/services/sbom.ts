@@ -0,0 +1,250 @@
+/**
+ * Software bills of materials for an analyzed repository, in CycloneDX 1.5 and SPDX 2.3
+ * JSON. Components are the packages read from manifests and lockfiles; versions, hashes and
+ * licenses are included where the lockfile records them.
+ */
+
+import crypto from 'crypto';
+import parseSpdxExpression from 'spdx-expression-parse';
+import { buildDependencyGraph, packageNodeId } from './packageGraph';
+import { AnalysisResult, DependencyEcosystem, DependencyPackage, PackageGraphNode } from '../types';
+
+export type SbomFormat = 'cyclonedx' | 'spdx';
+
+export const SBOM_FORMATS: Record<SbomFormat, { mediaType: string; extension: string }> = {
+  cyclonedx: { mediaType: 'application/vnd.cyclonedx+json', extension: 'cdx.json' },
+  spdx: { mediaType: 'application/spdx+json', extension: 'spdx.json' },
+};
+
+// The parts of a report an SBOM is built from
+export type SbomSource = Pick<AnalysisResult, 'id' | 'repositoryUrl' | 'createdAt' | 'dependencies'>
+  & Partial<Pick<AnalysisResult, 'basicInfo' | 'repository' | 'commitSha'>>;
+
+const TOOL = { vendor: 'Repo Auditor', name: 'repo-auditor' };
+
+const PURL_TYPES: Record<DependencyEcosystem, string> = {
+  npm: 'npm',
+  PyPI: 'pypi',
+  Go: 'golang',
+  'crates.io': 'cargo',
+  Maven: 'maven',
+};
+
+/**
+ * Package URL (https://github.com/package-url/purl-spec) of a package. The version is left
+ * out when the lockfile did not resolve one.
+ */
+export function packageUrl(ecosystem: DependencyEcosystem, name: string, version?: string): string {
+  let segments: string[];
+  if (ecosystem === 'Maven') {
+    segments = name.split(':');
+  } else if (ecosystem === 'PyPI') {
+    segments = [name.toLowerCase().replace(/[-_.]+/g, '-')];
+  } else {
+    segments = name.split('/');
+  }
+  const path = segments.map(encodeURIComponent).join('/');
+  return `pkg:${PURL_TYPES[ecosystem]}/${path}${version ? `@${encodeURIComponent(version)}` : ''}`;
+}
+
+interface Component {
+  ref: string;
+  node: PackageGraphNode;
+  pkg: DependencyPackage;
+  version?: string;
+  purl: string;
+  hash?: { algorithm: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512'; hex: string };
+  license?: string;
+  dependsOn: string[];
+}
+
+// Hash algorithm and hex digest of a Subresource Integrity string
+function decodeIntegrity(integrity: string | undefined): Component['hash'] {
+  const match = /^sha(1|256|384|512)-(.+)$/.exec(integrity ?? '');
+  if (!match) return undefined;
+  return {
+    algorithm: `SHA-${match[1]}` as NonNullable<Component['hash']>['algorithm'],
+    hex: Buffer.from(match[2], 'base64').toString('hex'),
+  };
+}
+
+function isSpdxExpression(license: string): boolean {
+  try {
+    parseSpdxExpression(license);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One component per distinct package and version, with what it depends on. Packages whose
+ * version the lockfile did not resolve have no version, rather than a range.
+ */
+function collectComponents(source: SbomSource): { components: Component[]; direct: Component[] } {
+  const packages = source.dependencies.packages ?? [];
+  const graph = buildDependencyGraph(packages);
+  const byId = new Map(packages.map(pkg => [packageNodeId(pkg), pkg]));
+  const dependsOn = new Map<string, string[]>();
+  for (const { source: from, target } of graph.links) {
+    if (!dependsOn.has(from)) dependsOn.set(from, []);
+    dependsOn.get(from)!.push(target);
+  }
+
+  const components = graph.nodes.map(node => {
+    const pkg = byId.get(node.id)!;
+    const version = pkg.resolvedVersion;
+    return {
+      ref: node.id,
+      node,
+      pkg,
+      version,
+      purl: packageUrl(node.ecosystem, node.name, version),
+      hash: decodeIntegrity(pkg.integrity),
+      license: pkg.license,
+      dependsOn: dependsOn.get(node.id) ?? [],
+    };
+  });
+  const directIds = new Set(graph.projects.flatMap(project => dependsOn.get(project) ?? []));
+  return { components, direct: components.filter(c => directIds.has(c.ref)) };
+}
+
+const documentName = (source: SbomSource) => source.basicInfo?.fullName || source.repositoryUrl;
+
+// Stable per report, so exporting the same report twice gives the same document
+function reportUuid(source: SbomSource, format: SbomFormat): string {
+  const hex = crypto.createHash('sha256').update(`${format}:${source.id}`).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function cycloneDxLicenses(license: string | undefined) {
+  if (!license) return undefined;
+  if (!isSpdxExpression(license)) return [{ license: { name: license } }];
+  const parsed = parseSpdxExpression(license);
+  // A single listed license is given by id; anything else as an expression
+  if ('license' in parsed && !parsed.plus && !parsed.exception && !parsed.license.startsWith('LicenseRef-')) {
+    return [{ license: { id: parsed.license } }];
+  }
+  return [{ expression: license }];
+}
+
+export function createCycloneDxBom(source: SbomSource) {
+  const { components, direct } = collectComponents(source);
+  const rootRef = 'repository';
+  const repositoryLicense = source.repository?.license?.spdxId;
+
+  return {
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${reportUuid(source, 'cyclonedx')}`,
+    version: 1,
+    metadata: {
+      timestamp: source.createdAt,
+      tools: { components: [{ type: 'application', author: TOOL.vendor, name: TOOL.name }] },
+      component: {
+        type: 'application',
+        'bom-ref': rootRef,
+        name: documentName(source),
+        ...(source.commitSha ? { version: source.commitSha } : {}),
+        ...(repositoryLicense && repositoryLicense !== 'NOASSERTION' ? { licenses: cycloneDxLicenses(repositoryLicense) } : {}),
+        externalReferences: [{ type: 'vcs', url: source.repositoryUrl }],
+      },
+    },
+    components: components.map(component => ({
+      type: 'library',
+      'bom-ref': component.ref,
+      // Maven coordinates are split into group and artifact
+      ...(component.node.ecosystem === 'Maven' && component.node.name.includes(':')
+        ? { group: component.node.name.split(':')[0], name: component.node.name.split(':').slice(1).join(':') }
+        : { name: component.node.name }),
+      ...(component.version ? { version: component.version } : {}),
+      // Development-only packages do not ship with the application
+      scope: component.node.dev ? 'excluded' : 'required',
+      ...(component.hash ? { hashes: [{ alg: component.hash.algorithm, content: component.hash.hex }] } : {}),
+      ...(component.license ? { licenses: cycloneDxLicenses(component.license) } : {}),
+      purl: component.purl,
+      properties: [
+        { name: 'repo-auditor:ecosystem', value: component.node.ecosystem },
+        { name: 'repo-auditor:manifest', value: component.pkg.manifestPath },
+      ],
+    })),
+    dependencies: [
+      { ref: rootRef, dependsOn: direct.map(c => c.ref) },
+      ...components.map(component => ({ ref: component.ref, dependsOn: component.dependsOn })),
+    ],
+  };
+}
+
+// SPDX element ids allow letters, digits, dots and hyphens
+const spdxId = (index: number, name: string) => `SPDXRef-Package-${index + 1}-${name.replace(/[^A-Za-z0-9.-]+/g, '-')}`;
+
+// SPDX expressions referring to license texts the document does not carry are not declared
+const spdxLicense = (license: string | undefined) =>
+  license && isSpdxExpression(license) && !/LicenseRef-|DocumentRef-/.test(license) ? license : 'NOASSERTION';
+
+export function createSpdxDocument(source: SbomSource) {
+  const { components, direct } = collectComponents(source);
+  const name = documentName(source);
+  const rootId = 'SPDXRef-Repository';
+  const ids = new Map(components.map((component, index) => [component.ref, spdxId(index, component.node.name)]));
+  const gitUrl = /^https?:\/\//.test(source.repositoryUrl)
+    ? `git+${source.repositoryUrl.replace(/\.git$/, '')}.git${source.commitSha ? `@${source.commitSha}` : ''}`
+    : 'NOASSERTION';
+
+  const relationships = [
+    { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: rootId },
+    // Development dependencies are recorded the other way round, as SPDX defines them
+    ...direct.map(component => component.node.dev
+      ? { spdxElementId: ids.get(component.ref)!, relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: rootId }
+      : { spdxElementId: rootId, relationshipType: 'DEPENDS_ON', relatedSpdxElement: ids.get(component.ref)! }),
+    ...components.flatMap(component => component.dependsOn.map(target => ({
+      spdxElementId: ids.get(component.ref)!,
+      relationshipType: 'DEPENDS_ON',
+      relatedSpdxElement: ids.get(target)!,
+    }))),
+  ];
+
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(name.replace(/\//g, '-'))}-${reportUuid(source, 'spdx')}`,
+    creationInfo: {
+      // SPDX timestamps have no fractional seconds
+      created: new Date(source.createdAt).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      creators: [`Organization: ${TOOL.vendor}`, `Tool: ${TOOL.name}`],
+    },
+    packages: [
+      {
+        SPDXID: rootId,
+        name,
+        ...(source.commitSha ? { versionInfo: source.commitSha } : {}),
+        downloadLocation: gitUrl,
+        filesAnalyzed: false,
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: spdxLicense(source.repository?.license?.spdxId),
+        copyrightText: 'NOASSERTION',
+        primaryPackagePurpose: 'APPLICATION',
+      },
+      ...components.map(component => ({
+        SPDXID: ids.get(component.ref)!,
+        name: component.node.name,
+        ...(component.version ? { versionInfo: component.version } : {}),
+        downloadLocation: 'NOASSERTION',
+        filesAnalyzed: false,
+        ...(component.hash ? { checksums: [{ algorithm: component.hash.algorithm.replace('-', ''), checksumValue: component.hash.hex }] } : {}),
+        licenseConcluded: 'NOASSERTION',
+        licenseDeclared: spdxLicense(component.license),
+        copyrightText: 'NOASSERTION',
+        externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: component.purl }],
+        primaryPackagePurpose: 'LIBRARY',
+      })),
+    ],
+    relationships,
+  };
+}
+
+export function createSbom(source: SbomSource, format: SbomFormat) {
+  return format === 'spdx' ? createSpdxDocument(source) : createCycloneDxBom(source);
+}
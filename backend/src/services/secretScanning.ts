@@ -0,0 +1,443 @@
+/**
+ * Secret scanning over the current tree and the patches of every scanned commit. Provider
+ * rules recognize credentials by their issuer's format; strings assigned to credential-like
+ * names are also reported when their Shannon entropy says they are random. A secret is one
+ * finding however often it was committed, identified by a fingerprint of its value, with the
+ * commit that introduced it and whether it is still in the tree. Removing a secret from the
+ * tree does not remove it from history, so removed secrets are reported too.
+ */
+
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import { z } from 'zod';
+import { Commit, SecretExposure, SecretScanConfig, SecurityIssue } from '../types';
+import { globPattern } from './deadCode';
+
+const SecretScanConfigSchema = z.object({
+  // How many commits not yet known to be clean have their patches read per analysis on hosted
+  // providers, which take a request per commit; later analyses continue with the rest. Local
+  // repositories read every commit. 0 scans only the current tree
+  maxCommits: z.number().int().min(0).default(100),
+  // Whether history is scanned on hosted providers without an access token, whose rate limit
+  // (60 requests an hour on GitHub) a single scan can use up
+  historyWithoutToken: z.boolean().default(false),
+  entropy: z.object({
+    enabled: z.boolean().default(true),
+    // The shortest value checked, in characters
+    minLength: z.number().int().min(8).default(20),
+    // Bits per character above which a value is random rather than a word or identifier
+    base64Threshold: z.number().default(4.5),
+    hexThreshold: z.number().default(3),
+  }).default({}),
+  // Rule ids never reported, e.g. "jwt" or "high-entropy-secret"
+  disabledRules: z.array(z.string()).default([]),
+  // Files never searched, as glob patterns; lockfiles hold hashes that look random
+  ignoreFiles: z.array(z.string()).default([
+    '**/package-lock.json', '**/yarn.lock', '**/pnpm-lock.yaml', '**/go.sum', '**/Cargo.lock', '**/poetry.lock', '**/*.min.js',
+  ]),
+  // Regular expressions for values that are not secrets, such as test fixtures
+  allowlist: z.array(z.string()).default([]),
+  // Whether secrets are checked with the provider that issued them; this sends them to the provider
+  verify: z.boolean().default(false),
+});
+
+export const DEFAULT_SECRET_SCAN_CONFIG: SecretScanConfig = SecretScanConfigSchema.parse({});
+
+/**
+ * The secret scanning configuration: the defaults, overridden by the JSON file at
+ * SECRET_SCAN_CONFIG_PATH when one is configured.
+ */
+export async function loadSecretScanConfig(): Promise<SecretScanConfig> {
+  const file = process.env.SECRET_SCAN_CONFIG_PATH;
+  if (!file) return DEFAULT_SECRET_SCAN_CONFIG;
+  return SecretScanConfigSchema.parse(JSON.parse(await fs.readFile(file, 'utf8')));
+}
+
+// --- Rules ---
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  // The first capture group is the secret
+  pattern: RegExp;
+  severity: SecurityIssue['severity'];
+  cwe: string;
+}
+
+const PRIVATE_KEY_RULE = 'private-key';
+const ENTROPY_RULE = 'high-entropy-secret';
+
+// Ordered from most to least specific; a value matched by one rule is not matched again by a later one
+export const SECRET_RULES: SecretRule[] = [
+  { id: PRIVATE_KEY_RULE, description: 'Private key', pattern: /(-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----)/g, severity: 'critical', cwe: 'CWE-321' },
+  { id: 'github-pat', description: 'GitHub personal access token', pattern: /\b(ghp_[A-Za-z0-9]{36})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'github-fine-grained-pat', description: 'GitHub fine-grained personal access token', pattern: /\b(github_pat_[A-Za-z0-9_]{82})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'github-oauth-token', description: 'GitHub OAuth or app token', pattern: /\b((?:gho|ghu|ghs|ghr)_[A-Za-z0-9]{36})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'gitlab-pat', description: 'GitLab personal access token', pattern: /\b(glpat-[A-Za-z0-9_-]{20})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'slack-token', description: 'Slack token', pattern: /\b(xox[baprs]-[A-Za-z0-9-]{10,})\b/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'slack-webhook', description: 'Slack incoming webhook', pattern: /(https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]{24})/g, severity: 'medium', cwe: 'CWE-798' },
+  { id: 'stripe-secret-key', description: 'Stripe live secret key', pattern: /\b((?:sk|rk)_live_[A-Za-z0-9]{24,})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'stripe-test-key', description: 'Stripe test secret key', pattern: /\b((?:sk|rk)_test_[A-Za-z0-9]{24,})\b/g, severity: 'low', cwe: 'CWE-798' },
+  { id: 'gcp-api-key', description: 'Google Cloud API key', pattern: /\b(AIza[0-9A-Za-z_-]{35})(?![0-9A-Za-z_-])/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'gcp-service-account', description: 'Google Cloud service account key', pattern: /"private_key_id"\s*:\s*"([a-f0-9]{40})"/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'aws-access-key-id', description: 'AWS access key ID', pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'aws-secret-access-key', description: 'AWS secret access key', pattern: /aws_?secret_?access_?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'npm-token', description: 'npm access token', pattern: /\b(npm_[A-Za-z0-9]{36})\b/g, severity: 'critical', cwe: 'CWE-798' },
+  { id: 'openai-api-key', description: 'OpenAI API key', pattern: /\b(sk-(?:proj-)?[A-Za-z0-9_-]{20,}T3BlbkFJ[A-Za-z0-9_-]{20,})\b/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'sendgrid-api-key', description: 'SendGrid API key', pattern: /\b(SG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43})(?![A-Za-z0-9_-])/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'twilio-api-key', description: 'Twilio API key', pattern: /\b(SK[0-9a-fA-F]{32})\b/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'mailgun-api-key', description: 'Mailgun API key', pattern: /\b(key-[0-9a-zA-Z]{32})\b/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'jwt', description: 'JSON Web Token', pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g, severity: 'medium', cwe: 'CWE-798' },
+  { id: 'connection-string', description: 'Connection string with a password', pattern: /\b((?:mongodb(?:\+srv)?|mysql|postgres(?:ql)?|redis|rediss|amqps?|mssql):\/\/[^:\s'"@/]+:[^@\s'"/]+@[^\s'"]+)/g, severity: 'high', cwe: 'CWE-798' },
+  { id: 'password', description: 'Hard-coded password', pattern: /(?:password|passwd|pwd)['"]?\s*[:=]\s*['"]([^'"\s]{6,})['"]/gi, severity: 'high', cwe: 'CWE-259' },
+];
+
+// A value assigned to a credential-like name, checked for entropy
+const ASSIGNED_VALUE = /(?:key|secret|token|passw(?:or)?d|credential|auth)[\w.-]*['"]?\s*(?:=|:|=>|:=)\s*['"]?([A-Za-z0-9+/=_\-.~]+)/gi;
+
+// Documentation and templates use these in place of real credentials
+const PLACEHOLDER = /^(?:x+|\*+|<.*>|\$\{.*\}|\{\{.*\}\})$|example|your[_-]|changeme|dummy|placeholder|redacted|fake|sample|xxxx/i;
+
+// Lines this long are minified or generated and are not searched
+const MAX_LINE_LENGTH = 4096;
+const MAX_PRIVATE_KEY_LINES = 100;
+
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+interface TextLine {
+  number: number;
+  text: string;
+}
+
+interface SecretMatch {
+  rule: SecretRule;
+  secret: string;
+  line: TextLine;
+}
+
+const ENTROPY_SECRET: Omit<SecretRule, 'pattern'> = {
+  id: ENTROPY_RULE,
+  description: 'High-entropy string assigned to a credential',
+  severity: 'medium',
+  cwe: 'CWE-798',
+};
+
+/**
+ * Secrets in consecutive lines. A private key's value is its whole block, so keys sharing a
+ * header are still told apart.
+ */
+function scanLines(lines: TextLine[], config: SecretScanConfig, rules: SecretRule[], allowlist: RegExp[]): SecretMatch[] {
+  const found: SecretMatch[] = [];
+  const accept = (secret: string) => !PLACEHOLDER.test(secret) && !allowlist.some(pattern => pattern.test(secret));
+
+  lines.forEach((line, index) => {
+    if (line.text.length > MAX_LINE_LENGTH) return;
+    const taken: Array<[number, number]> = [];
+    const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && s < end);
+
+    for (const rule of rules) {
+      for (const match of line.text.matchAll(rule.pattern)) {
+        const start = match.index! + match[0].indexOf(match[1]);
+        const end = start + match[1].length;
+        if (overlaps(start, end) || !accept(match[1])) continue;
+        taken.push([start, end]);
+        let secret = match[1];
+        if (rule.id === PRIVATE_KEY_RULE) {
+          const block = lines.slice(index, index + MAX_PRIVATE_KEY_LINES);
+          const last = block.findIndex(candidate => /-----END [A-Z ]*PRIVATE KEY/.test(candidate.text));
+          secret = block.slice(0, last < 0 ? block.length : last + 1).map(candidate => candidate.text.trim()).join('\n');
+        }
+        found.push({ rule, secret, line });
+      }
+    }
+
+    if (!config.entropy.enabled) return;
+    for (const match of line.text.matchAll(ASSIGNED_VALUE)) {
+      const value = match[1];
+      const start = match.index! + match[0].length - value.length;
+      if (value.length < config.entropy.minLength || overlaps(start, start + value.length) || !accept(value)) continue;
+      const threshold = /^[0-9a-f]+$/i.test(value) ? config.entropy.hexThreshold : config.entropy.base64Threshold;
+      if (shannonEntropy(value) < threshold) continue;
+      taken.push([start, start + value.length]);
+      found.push({ rule: { ...ENTROPY_SECRET, pattern: ASSIGNED_VALUE }, secret: value, line });
+    }
+  });
+  return found;
+}
+
+// --- Patches ---
+
+interface PatchChanges {
+  // Runs of consecutive added lines, numbered as in the new file
+  added: TextLine[][];
+  removed: string;
+}
+
+function parsePatch(patch: string): PatchChanges {
+  const added: TextLine[][] = [];
+  const removed: string[] = [];
+  let run: TextLine[] = [];
+  let lineNumber = 0;
+  const endRun = () => {
+    if (run.length > 0) added.push(run);
+    run = [];
+  };
+  for (const line of patch.split('\n')) {
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunk) {
+      endRun();
+      lineNumber = Number(hunk[1]);
+    } else if (line.startsWith('+') && !line.startsWith('+++')) {
+      run.push({ number: lineNumber++, text: line.slice(1) });
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      endRun();
+      removed.push(line.slice(1).trim());
+    } else if (!line.startsWith('\\')) {
+      endRun();
+      lineNumber++;
+    }
+  }
+  endRun();
+  return { added, removed: removed.join('\n') };
+}
+
+// --- Verification ---
+
+/**
+ * Checks a secret with the service that issued it. Resolves true for a live credential and
+ * false for a revoked or invalid one, and rejects when the service gives no clear answer.
+ */
+export interface SecretVerifier {
+  id: string;
+  rules: string[];
+  verify(secret: string, signal?: AbortSignal): Promise<boolean>;
+}
+
+const VERIFY_TIMEOUT_MS = 10_000;
+
+export const SECRET_VERIFIERS: SecretVerifier[] = [
+  {
+    id: 'github',
+    rules: ['github-pat', 'github-fine-grained-pat', 'github-oauth-token'],
+    async verify(secret, signal) {
+      const response = await axios.get('https://api.github.com/user', {
+        headers: { Authorization: `token ${secret}`, Accept: 'application/vnd.github+json' },
+        timeout: VERIFY_TIMEOUT_MS,
+        validateStatus: () => true,
+        signal,
+      });
+      if (response.status === 200) return true;
+      if (response.status === 401) return false;
+      throw new Error(`GitHub answered ${response.status}`);
+    },
+  },
+  {
+    id: 'slack',
+    rules: ['slack-token'],
+    async verify(secret, signal) {
+      const response = await axios.post('https://slack.com/api/auth.test', undefined, {
+        headers: { Authorization: `Bearer ${secret}` },
+        timeout: VERIFY_TIMEOUT_MS,
+        signal,
+      });
+      if (response.data?.ok === true) return true;
+      if (['invalid_auth', 'token_revoked', 'account_inactive', 'not_authed'].includes(response.data?.error)) return false;
+      throw new Error(`Slack answered ${response.data?.error ?? response.status}`);
+    },
+  },
+  {
+    id: 'stripe',
+    rules: ['stripe-secret-key', 'stripe-test-key'],
+    async verify(secret, signal) {
+      const response = await axios.get('https://api.stripe.com/v1/balance', {
+        auth: { username: secret, password: '' },
+        timeout: VERIFY_TIMEOUT_MS,
+        validateStatus: () => true,
+        signal,
+      });
+      if (response.status === 200) return true;
+      if (response.status === 401) return false;
+      throw new Error(`Stripe answered ${response.status}`);
+    },
+  },
+];
+
+// --- Scanning ---
+
+interface Exposure {
+  rule: SecretMatch['rule'];
+  secret: string;
+  introducedBy?: SecretExposure['introducedBy'];
+  // Files holding the secret after the last scanned commit, with the line it was added on
+  presentIn: Map<string, number>;
+  atHead?: { file: string; line: TextLine };
+  commits: Set<string>;
+  verification?: SecretExposure['verification'];
+}
+
+export function secretFingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex').slice(0, 16);
+}
+
+function redact(secret: string): string {
+  const [first] = secret.split('\n');
+  if (first !== secret) return first;
+  return secret.length <= 8 ? '*'.repeat(secret.length) : `${secret.slice(0, 4)}${'*'.repeat(Math.min(secret.length - 4, 12))}`;
+}
+
+// Reported where the secret is now, or where it was added when it is gone
+function toIssue(exposure: Exposure, location: { file: string; line: number } | undefined): SecurityIssue {
+  const { rule, secret, introducedBy, atHead, verification } = exposure;
+  const presentAtHead = !!location;
+  const { file, line } = location ?? introducedBy!;
+  const origin = introducedBy
+    ? `, introduced in ${introducedBy.sha.slice(0, 7)} by ${introducedBy.author} on ${introducedBy.date.slice(0, 10)}`
+    : '';
+  const state = presentAtHead ? 'is in the current tree' : 'was removed from the tree but remains in the git history';
+  return {
+    type: 'secret',
+    severity: verification === 'active' ? 'critical' : rule.severity,
+    file,
+    line,
+    description: `${verification === 'active' ? 'Live ' : ''}${rule.description} ${state}${origin}.`,
+    recommendation: presentAtHead
+      ? 'Revoke and rotate the credential, then remove it and load it from the environment or a secrets manager.'
+      : 'Revoke and rotate the credential: deleting it did not remove it from history, and rewriting history does not reach existing clones.',
+    cwe: rule.cwe,
+    ...(atHead ? { codeSnippet: atHead.line.text.split(secret.split('\n')[0]).join(redact(secret)).trim() } : {}),
+    secret: {
+      rule: rule.id,
+      fingerprint: secretFingerprint(secret),
+      redacted: redact(secret),
+      ...(introducedBy ? { introducedBy } : {}),
+      presentAtHead,
+      commits: exposure.commits.size,
+      ...(verification ? { verification } : {}),
+    },
+  };
+}
+
+function prepareScan(config: SecretScanConfig) {
+  const ignored = config.ignoreFiles.map(globPattern);
+  const rules = SECRET_RULES.filter(rule => !config.disabledRules.includes(rule.id));
+  const entropyConfig = config.disabledRules.includes(ENTROPY_RULE) ? { ...config, entropy: { ...config.entropy, enabled: false } } : config;
+  const allowlist = config.allowlist.map(pattern => new RegExp(pattern));
+  return {
+    isIgnored: (filePath: string) => ignored.some(pattern => pattern.test(filePath)),
+    matchLines: (lines: TextLine[]) => scanLines(lines, entropyConfig, rules, allowlist),
+  };
+}
+
+/**
+ * Identifies the settings that decide what a commit's patches match, so results stored for
+ * one configuration are not reused under another.
+ */
+export function secretScanConfigKey(config: SecretScanConfig): string {
+  const { entropy, disabledRules, ignoreFiles, allowlist } = config;
+  return crypto.createHash('sha256').update(JSON.stringify({ entropy, disabledRules, ignoreFiles, allowlist })).digest('hex').slice(0, 16);
+}
+
+/**
+ * The commits of `history` that neither add nor remove anything secret scanning matches, and
+ * so cannot change its findings. They can be left out of later scans of the same history;
+ * commits that do match have to be read again, as their secrets are never stored.
+ */
+export function commitsWithoutSecrets(history: Commit[], config: SecretScanConfig): string[] {
+  const { isIgnored, matchLines } = prepareScan(config);
+  return history
+    .filter(commit => (commit.files ?? []).every(file => {
+      if (isIgnored(file.filename)) return true;
+      // A file deleted without a patch may have held a secret
+      if (!file.patch) return file.status !== 'removed';
+      const { added, removed } = parsePatch(file.patch);
+      const removedLines = removed ? removed.split('\n').map((text, index) => ({ number: index + 1, text })) : [];
+      return [...added, removedLines].every(run => matchLines(run).length === 0);
+    }))
+    .map(commit => commit.sha);
+}
+
+/**
+ * Scans the current tree and the patches of `history`, newest commit first as providers list
+ * them. Files without content are judged from the patches alone. Verifiers only run when the
+ * configuration enables verification.
+ */
+export async function scanSecrets(
+  files: Array<{ path: string; content?: string }>,
+  history: Commit[],
+  config: SecretScanConfig,
+  options: {
+    verifiers?: SecretVerifier[];
+    signal?: AbortSignal;
+    onError?: (context: string, error: unknown) => void;
+  } = {}
+): Promise<SecurityIssue[]> {
+  const { isIgnored, matchLines } = prepareScan(config);
+  const exposures = new Map<string, Exposure>();
+  const exposureOf = (match: SecretMatch) => {
+    const fingerprint = secretFingerprint(match.secret);
+    const exposure: Exposure = exposures.get(fingerprint) ?? { rule: match.rule, secret: match.secret, presentIn: new Map(), commits: new Set() };
+    exposures.set(fingerprint, exposure);
+    return exposure;
+  };
+
+  for (const commit of [...history].reverse()) {
+    for (const file of commit.files ?? []) {
+      if (isIgnored(file.filename)) continue;
+      const changes = file.patch ? parsePatch(file.patch) : undefined;
+      for (const exposure of exposures.values()) {
+        if (exposure.presentIn.has(file.filename) && (file.status === 'removed' || changes?.removed.includes(exposure.secret))) {
+          exposure.presentIn.delete(file.filename);
+        }
+      }
+      for (const run of changes?.added ?? []) {
+        for (const match of matchLines(run)) {
+          const exposure = exposureOf(match);
+          exposure.introducedBy ??= { sha: commit.sha, author: commit.author.name, date: commit.date, file: file.filename, line: match.line.number };
+          exposure.presentIn.set(file.filename, match.line.number);
+          exposure.commits.add(commit.sha);
+        }
+      }
+    }
+  }
+
+  const headPaths = new Set(files.map(file => file.path));
+  const scannedAtHead = new Set<string>();
+  for (const file of files) {
+    if (file.content === undefined || isIgnored(file.path)) continue;
+    scannedAtHead.add(file.path);
+    const lines = file.content.split('\n').map((text, index) => ({ number: index + 1, text }));
+    for (const match of matchLines(lines)) {
+      const exposure = exposureOf(match);
+      exposure.atHead ??= { file: file.path, line: match.line };
+    }
+  }
+
+  if (config.verify) {
+    for (const exposure of exposures.values()) {
+      const verifier = (options.verifiers ?? SECRET_VERIFIERS).find(candidate => candidate.rules.includes(exposure.rule.id));
+      if (!verifier || options.signal?.aborted) continue;
+      try {
+        exposure.verification = await verifier.verify(exposure.secret, options.signal) ? 'active' : 'inactive';
+      } catch (e) {
+        options.onError?.(`${verifier.id} verification of a ${exposure.rule.description}`, e);
+      }
+    }
+  }
+
+  return [...exposures.values()].map(exposure => {
+    if (exposure.atHead) return toIssue(exposure, { file: exposure.atHead.file, line: exposure.atHead.line.number });
+    // A file that was read at HEAD settles it; otherwise the patches say whether it was removed
+    const [file, line] = [...exposure.presentIn].find(([candidate]) => headPaths.has(candidate) && !scannedAtHead.has(candidate)) ?? [];
+    return toIssue(exposure, file ? { file, line: line! } : undefined);
+  });
+}
@@ -0,0 +1,212 @@
+/**
+ * The parts of semantic versioning the dependency checks need: precedence between two
+ * versions, and the lowest version an npm-style range can resolve to.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+}
+
+const VERSION_PATTERN = /^[v=\s]*(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parses a version, accepting a leading `v` and missing minor or patch numbers, which are
+ * common in advisories and manifests. Returns null for anything else.
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+  };
+}
+
+export function formatVersion(version: SemVer): string {
+  const base = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${base}-${version.prerelease.join('.')}` : base;
+}
+
+function comparePrerelease(a: SemVer['prerelease'], b: SemVer['prerelease']): number {
+  // A version without prerelease identifiers ranks above any prerelease of it
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === 'number' && typeof b[i] === 'number') return (a[i] as number) - (b[i] as number);
+    // Numeric identifiers rank below alphanumeric ones
+    if (typeof a[i] === 'number') return -1;
+    if (typeof b[i] === 'number') return 1;
+    return String(a[i]) < String(b[i]) ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Semver precedence: negative when `a` is lower, positive when higher, 0 when equal.
+ * Build metadata is ignored.
+ */
+export function compareSemVer(a: SemVer, b: SemVer): number {
+  return (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch) || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Compares two version strings. Versions that do not parse as semver fall back to comparing
+ * their dot- or dash-separated parts, numerically where both parts are numbers.
+ */
+export function compareVersions(a: string, b: string): number {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (parsedA && parsedB) return compareSemVer(parsedA, parsedB);
+
+  const partsA = a.split(/[.-]/);
+  const partsB = b.split(/[.-]/);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const partA = partsA[i] ?? '0';
+    const partB = partsB[i] ?? '0';
+    if (partA === partB) continue;
+    const numberA = Number(partA);
+    const numberB = Number(partB);
+    if (!isNaN(numberA) && !isNaN(numberB)) return numberA - numberB;
+    return partA < partB ? -1 : 1;
+  }
+  return 0;
+}
+
+// An X-range version ("1", "1.2.x", "*") with the wildcard positions left undefined
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: SemVer['prerelease'];
+}
+
+function parsePartial(version: string): PartialVersion | null {
+  const match = /^[v=\s]*(\d+|[xX*])?(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(version.trim());
+  if (!match) return null;
+  const part = (value?: string) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value));
+  const major = part(match[1]);
+  const minor = major === undefined ? undefined : part(match[2]);
+  const patch = minor === undefined ? undefined : part(match[3]);
+  return {
+    major,
+    minor,
+    patch,
+    prerelease: match[4] && patch !== undefined ? parseVersion(`0.0.0-${match[4]}`)!.prerelease : [],
+  };
+}
+
+const floor = (version: PartialVersion): SemVer => ({
+  major: version.major ?? 0,
+  minor: version.minor ?? 0,
+  patch: version.patch ?? 0,
+  prerelease: version.prerelease,
+});
+
+// The lowest version above every version matching `version`
+function nextAfter(version: PartialVersion): SemVer {
+  if (version.major === undefined) return { major: Infinity, minor: 0, patch: 0, prerelease: [] };
+  if (version.minor === undefined) return { major: version.major + 1, minor: 0, patch: 0, prerelease: [] };
+  if (version.patch === undefined) return { major: version.major, minor: version.minor + 1, patch: 0, prerelease: [] };
+  if (version.prerelease.length > 0) return { ...floor(version), prerelease: [...version.prerelease, 0] };
+  return { major: version.major, minor: version.minor, patch: version.patch + 1, prerelease: [] };
+}
+
+/**
+ * The lowest version a comparator set ("^1.2.3", ">=1.0.0 <2", "1.x", "1.2.3 - 1.4") can
+ * resolve to, or null when nothing satisfies it. Upper bounds only matter for emptiness.
+ */
+function minVersionOfSet(set: string): SemVer | null {
+  const hyphen = /^\s*(\S+)\s+-\s+(\S+)\s*$/.exec(set);
+  const comparators = hyphen
+    ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+    : set.trim().replace(/(<=|>=|[<>=^~])\s+/g, '$1').split(/\s+/).filter(Boolean);
+
+  let lower: SemVer = { major: 0, minor: 0, patch: 0, prerelease: [] };
+  let upper: { version: SemVer; inclusive: boolean } | null = null;
+  const raiseLower = (version: SemVer) => {
+    if (compareSemVer(version, lower) > 0) lower = version;
+  };
+  const lowerUpper = (version: SemVer, inclusive: boolean) => {
+    const comparison = upper ? compareSemVer(version, upper.version) : -1;
+    if (!upper || comparison < 0 || (comparison === 0 && !inclusive)) upper = { version, inclusive };
+  };
+
+  for (const comparator of comparators) {
+    const match = /^(<=|>=|<|>|=|\^|~)?(.*)$/.exec(comparator)!;
+    const operator = match[1] ?? '';
+    const version = parsePartial(match[2]);
+    if (!version) return null;
+    const base = floor(version);
+
+    switch (operator) {
+      case '>=':
+        raiseLower(base);
+        break;
+      case '>':
+        raiseLower(nextAfter(version));
+        break;
+      case '<':
+        lowerUpper(base, false);
+        break;
+      case '<=':
+        if (version.patch === undefined) lowerUpper(nextAfter(version), false);
+        else lowerUpper(base, true);
+        break;
+      case '^': {
+        raiseLower(base);
+        // ^ allows changes that do not modify the left-most non-zero part
+        const ceiling = base.major > 0 || version.minor === undefined
+          ? { major: base.major + 1, minor: 0, patch: 0, prerelease: [] }
+          : base.minor > 0 || version.patch === undefined
+            ? { major: 0, minor: base.minor + 1, patch: 0, prerelease: [] }
+            : { major: 0, minor: 0, patch: base.patch + 1, prerelease: [] };
+        lowerUpper(ceiling, false);
+        break;
+      }
+      case '~':
+        raiseLower(base);
+        lowerUpper(version.minor === undefined
+          ? { major: base.major + 1, minor: 0, patch: 0, prerelease: [] }
+          : { major: base.major, minor: base.minor + 1, patch: 0, prerelease: [] }, false);
+        break;
+      default:
+        // Exact versions and X-ranges
+        raiseLower(base);
+        if (version.major !== undefined) {
+          if (version.patch !== undefined && version.prerelease.length === 0) lowerUpper(base, true);
+          else lowerUpper(nextAfter(version), false);
+        }
+    }
+  }
+
+  const bound = upper as { version: SemVer; inclusive: boolean } | null;
+  if (bound) {
+    const comparison = compareSemVer(lower, bound.version);
+    if (comparison > 0 || (comparison === 0 && !bound.inclusive)) return null;
+  }
+  return lower;
+}
+
+/**
+ * The lowest version an npm version range can resolve to, e.g. "4.17.1" for "^4.17.1".
+ * Without a lockfile this is the most conservative version to check against advisories.
+ * Returns null for specifiers that are not version ranges (tags, URLs, `file:` paths).
+ */
+export function minSatisfyingVersion(range: string): string | null {
+  const trimmed = range.trim();
+  const isTag = /^[a-z]/i.test(trimmed) && !/^v\d/i.test(trimmed) && !/^x($|[.\s|])/i.test(trimmed);
+  if (isTag || /^[a-z+]+:/i.test(trimmed) || trimmed.includes('/')) return null;
+  let lowest: SemVer | null = null;
+  for (const set of (trimmed || '*').split('||')) {
+    const version = minVersionOfSet(set.trim() || '*');
+    if (version && (!lowest || compareSemVer(version, lowest) < 0)) lowest = version;
+  }
+  return lowest ? formatVersion(lowest) : null;
+}
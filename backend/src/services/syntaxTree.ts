@@ -0,0 +1,551 @@
+/**
+ * Syntax trees for Python, Go, Java, Rust, C# and Ruby, parsed offline with the tree-sitter
+ * grammars bundled as WebAssembly. Functions are read from the tree rather than matched by
+ * pattern, so their boundaries hold for languages without braces and their complexity counts
+ * only real decision points, not keywords in strings and comments.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Language, Node, Parser, Tree } from 'web-tree-sitter';
+import { FunctionInfo, FunctionParameter } from '../types';
+
+export type SyntaxTreeLanguage = 'python' | 'go' | 'java' | 'rust' | 'csharp' | 'ruby';
+
+interface LanguageSyntax {
+  grammar: string;
+  // Named functions, reported on their own and left out of the functions around them
+  functions: string[];
+  // Types, classes and modules whose name qualifies the functions declared in them
+  containers: string[];
+  // Nodes that each add a path through the code
+  decisions: string[];
+  // Nodes whose body is one level deeper
+  nesting: string[];
+  // Operators that short-circuit, and so add a path
+  logicalOperators: string[];
+  // Cognitive complexity: structures that add one plus how deeply they are nested
+  structures: string[];
+  // `if` nodes, each of whose `else` and `else if` alternatives adds one without nesting
+  conditionals: string[];
+  // Lambdas and blocks, which add nothing themselves but nest what they hold
+  lambdas: string[];
+  // Function and method calls, named by `callee` or else by their `function` field
+  calls: string[];
+  callee?: (node: Node) => string | undefined;
+  // Whether declarations without a body, such as interface methods, are left out
+  requiresBody: boolean;
+  // Decision nodes that add no path, such as `default:` labels
+  isFallthrough?: (node: Node) => boolean;
+  name: (node: Node) => string | undefined;
+  containerName?: (node: Node) => string | undefined;
+  parameters: (node: Node, inContainer: boolean) => FunctionParameter[];
+  returnType?: (node: Node) => string | undefined;
+  isAsync?: (node: Node) => boolean;
+  visibility?: (node: Node, name: string) => FunctionInfo['visibility'];
+}
+
+const field = (node: Node, name: string) => node.childForFieldName(name) ?? undefined;
+const namedChildren = (node: Node | undefined) => (node?.namedChildren ?? []).filter((child): child is Node => child !== null);
+const hasToken = (node: Node, token: string) => node.children.some(child => child?.type === token);
+
+function modifierVisibility(modifiers: string[]): FunctionInfo['visibility'] {
+  return (['public', 'private', 'protected'] as const).find(visibility => modifiers.includes(visibility));
+}
+
+const LANGUAGE_SYNTAX: Record<SyntaxTreeLanguage, LanguageSyntax> = {
+  python: {
+    grammar: 'python',
+    functions: ['function_definition'],
+    containers: ['class_definition'],
+    decisions: ['if_statement', 'elif_clause', 'for_statement', 'while_statement', 'except_clause', 'conditional_expression', 'for_in_clause', 'if_clause', 'case_clause'],
+    nesting: ['if_statement', 'for_statement', 'while_statement', 'try_statement', 'with_statement', 'match_statement'],
+    logicalOperators: ['and', 'or'],
+    structures: ['if_statement', 'for_statement', 'while_statement', 'except_clause', 'conditional_expression', 'match_statement'],
+    conditionals: ['if_statement'],
+    lambdas: ['lambda'],
+    calls: ['call'],
+    requiresBody: false,
+    // `case _:` matches whatever is left
+    isFallthrough: node => node.type === 'case_clause' && namedChildren(node)[0]?.text === '_',
+    name: node => field(node, 'name')?.text,
+    containerName: node => field(node, 'name')?.text,
+    parameters: (node, inContainer) => {
+      const parameters = namedChildren(field(node, 'parameters')).flatMap((parameter): FunctionParameter[] => {
+        switch (parameter.type) {
+          case 'identifier':
+            return [{ name: parameter.text, type: 'Any', optional: false }];
+          case 'typed_parameter': {
+            const inner = namedChildren(parameter)[0];
+            return [{ name: inner.text, type: field(parameter, 'type')?.text ?? 'Any', optional: inner.type !== 'identifier' }];
+          }
+          case 'default_parameter':
+          case 'typed_default_parameter':
+            return [{
+              name: field(parameter, 'name')?.text ?? parameter.text,
+              type: field(parameter, 'type')?.text ?? 'Any',
+              optional: true,
+              initializer: field(parameter, 'value')?.text,
+            }];
+          case 'list_splat_pattern':
+          case 'dictionary_splat_pattern':
+            return [{ name: parameter.text, type: 'Any', optional: true }];
+          default:
+            // The bare `*` and `/` separators
+            return [];
+        }
+      });
+      // The instance or class a method is called on is not an argument
+      return inContainer && ['self', 'cls'].includes(parameters[0]?.name) ? parameters.slice(1) : parameters;
+    },
+    returnType: node => field(node, 'return_type')?.text,
+    isAsync: node => hasToken(node, 'async'),
+    // By convention, `__name` is private and `_name` internal; `__init__` and the like are not
+    visibility: (_node, name) => {
+      if (name.startsWith('_') && !name.endsWith('__')) return name.startsWith('__') ? 'private' : 'protected';
+      return 'public';
+    },
+  },
+  go: {
+    grammar: 'go',
+    functions: ['function_declaration', 'method_declaration'],
+    containers: [],
+    decisions: ['if_statement', 'for_statement', 'expression_case', 'type_case', 'communication_case'],
+    nesting: ['if_statement', 'for_statement', 'expression_switch_statement', 'type_switch_statement', 'select_statement'],
+    logicalOperators: ['&&', '||'],
+    structures: ['if_statement', 'for_statement', 'expression_switch_statement', 'type_switch_statement', 'select_statement'],
+    conditionals: ['if_statement'],
+    lambdas: ['func_literal'],
+    calls: ['call_expression'],
+    requiresBody: false,
+    name: node => {
+      const name = field(node, 'name')?.text;
+      // Methods are named after their receiver's type
+      const receiver = namedChildren(field(node, 'receiver'))[0];
+      const receiverType = receiver && field(receiver, 'type')?.text.replace(/^\*/, '').replace(/\[.*\]$/, '');
+      return receiverType && name ? `${receiverType}.${name}` : name;
+    },
+    parameters: node => namedChildren(field(node, 'parameters')).flatMap(parameter => {
+      const type = field(parameter, 'type')?.text ?? 'any';
+      const variadic = parameter.type === 'variadic_parameter_declaration';
+      const names = parameter.children.filter((_child, i) => parameter.fieldNameForChild(i) === 'name');
+      // Unnamed parameters are still parameters
+      return (names.length > 0 ? names.map(name => name?.text ?? '_') : ['_']).map(name => ({
+        name,
+        type: variadic ? `...${type}` : type,
+        optional: variadic,
+      }));
+    }),
+    returnType: node => field(node, 'result')?.text,
+    visibility: (node, name) => (/^[A-Z]/.test(field(node, 'name')?.text ?? name) ? 'public' : 'private'),
+  },
+  java: {
+    grammar: 'java',
+    functions: ['method_declaration', 'constructor_declaration'],
+    containers: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+    decisions: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'catch_clause', 'ternary_expression', 'switch_label'],
+    nesting: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'switch_expression', 'try_statement', 'try_with_resources_statement'],
+    logicalOperators: ['&&', '||'],
+    structures: ['if_statement', 'for_statement', 'enhanced_for_statement', 'while_statement', 'do_statement', 'catch_clause', 'ternary_expression', 'switch_expression'],
+    conditionals: ['if_statement'],
+    lambdas: ['lambda_expression'],
+    calls: ['method_invocation'],
+    callee: node => {
+      const object = field(node, 'object')?.text;
+      const name = field(node, 'name')?.text;
+      return object && name ? `${object}.${name}` : name;
+    },
+    requiresBody: true,
+    // `default` labels have nothing to compare
+    isFallthrough: node => node.type === 'switch_label' && node.namedChildCount === 0,
+    name: node => field(node, 'name')?.text,
+    containerName: node => field(node, 'name')?.text,
+    parameters: node => namedChildren(field(node, 'parameters')).flatMap((parameter): FunctionParameter[] => {
+      if (parameter.type === 'formal_parameter') {
+        return [{ name: field(parameter, 'name')?.text ?? parameter.text, type: field(parameter, 'type')?.text ?? 'Object', optional: false }];
+      }
+      if (parameter.type === 'spread_parameter') {
+        const children = namedChildren(parameter).filter(child => child.type !== 'modifiers');
+        const declarator = children.find(child => child.type === 'variable_declarator');
+        return [{ name: (declarator && field(declarator, 'name')?.text) ?? parameter.text, type: `${children[0]?.text}...`, optional: true }];
+      }
+      // `this` receiver parameters
+      return [];
+    }),
+    returnType: node => field(node, 'type')?.text,
+    visibility: node => modifierVisibility(
+      namedChildren(node).find(child => child.type === 'modifiers')?.children.map(child => child?.text ?? '') ?? []
+    ),
+  },
+  rust: {
+    grammar: 'rust',
+    functions: ['function_item'],
+    containers: ['impl_item', 'trait_item'],
+    decisions: ['if_expression', 'while_expression', 'for_expression', 'match_arm'],
+    nesting: ['if_expression', 'while_expression', 'for_expression', 'loop_expression', 'match_expression'],
+    logicalOperators: ['&&', '||'],
+    structures: ['if_expression', 'while_expression', 'for_expression', 'loop_expression', 'match_expression'],
+    conditionals: ['if_expression'],
+    lambdas: ['closure_expression'],
+    calls: ['call_expression'],
+    requiresBody: true,
+    isFallthrough: node => node.type === 'match_arm' && field(node, 'pattern')?.text === '_',
+    name: node => field(node, 'name')?.text,
+    // `impl Store<T>` is named after the type, `impl Trait for Store` too
+    containerName: node => {
+      const type = node.type === 'impl_item' ? field(node, 'type') : field(node, 'name');
+      return type && (field(type, 'type') ?? type).text;
+    },
+    parameters: node => namedChildren(field(node, 'parameters')).flatMap((parameter): FunctionParameter[] => {
+      if (parameter.type === 'parameter') {
+        return [{ name: field(parameter, 'pattern')?.text ?? parameter.text, type: field(parameter, 'type')?.text ?? '_', optional: false }];
+      }
+      if (parameter.type === 'variadic_parameter') {
+        return [{ name: '...', type: '...', optional: true }];
+      }
+      // `self`, `&self` and `&mut self`
+      return [];
+    }),
+    returnType: node => field(node, 'return_type')?.text,
+    isAsync: node => namedChildren(node).some(child => child.type === 'function_modifiers' && hasToken(child, 'async')),
+    visibility: node => (namedChildren(node).some(child => child.type === 'visibility_modifier') ? 'public' : 'private'),
+  },
+  csharp: {
+    grammar: 'c-sharp',
+    functions: ['method_declaration', 'constructor_declaration', 'local_function_statement'],
+    containers: ['class_declaration', 'struct_declaration', 'interface_declaration', 'record_declaration'],
+    decisions: ['if_statement', 'for_statement', 'foreach_statement', 'while_statement', 'do_statement', 'catch_clause', 'conditional_expression', 'switch_section', 'switch_expression_arm'],
+    nesting: ['if_statement', 'for_statement', 'foreach_statement', 'while_statement', 'do_statement', 'switch_statement', 'switch_expression', 'try_statement'],
+    logicalOperators: ['&&', '||'],
+    structures: ['if_statement', 'for_statement', 'foreach_statement', 'while_statement', 'do_statement', 'catch_clause', 'conditional_expression', 'switch_statement', 'switch_expression'],
+    conditionals: ['if_statement'],
+    lambdas: ['lambda_expression', 'anonymous_method_expression'],
+    calls: ['invocation_expression'],
+    requiresBody: true,
+    isFallthrough: node => (node.type === 'switch_section' && node.firstChild?.type === 'default')
+      || (node.type === 'switch_expression_arm' && namedChildren(node)[0]?.type === 'discard'),
+    name: node => field(node, 'name')?.text,
+    containerName: node => field(node, 'name')?.text,
+    parameters: node => {
+      const list = field(node, 'parameters');
+      const parameters = namedChildren(list).filter(child => child.type === 'parameter').map(parameter => {
+        const name = field(parameter, 'name');
+        // A default value follows the name
+        const initializer = namedChildren(parameter).find(child => name && child.startIndex > name.endIndex);
+        return {
+          name: name?.text ?? parameter.text,
+          type: field(parameter, 'type')?.text ?? 'var',
+          optional: initializer !== undefined,
+          ...(initializer ? { initializer: initializer.text } : {}),
+        };
+      });
+      // A `params` array is written into the list itself
+      const params = list && field(list, 'name');
+      if (list && params) parameters.push({ name: params.text, type: field(list, 'type')?.text ?? 'object[]', optional: true });
+      return parameters;
+    },
+    returnType: node => field(node, 'returns')?.text ?? field(node, 'type')?.text,
+    isAsync: node => namedChildren(node).some(child => child.type === 'modifier' && child.text === 'async'),
+    visibility: node => modifierVisibility(namedChildren(node).filter(child => child.type === 'modifier').map(child => child.text)),
+  },
+  ruby: {
+    grammar: 'ruby',
+    functions: ['method', 'singleton_method'],
+    containers: ['class', 'module'],
+    decisions: ['if', 'unless', 'elsif', 'while', 'until', 'for', 'when', 'rescue', 'conditional', 'if_modifier', 'unless_modifier', 'while_modifier', 'until_modifier', 'rescue_modifier'],
+    nesting: ['if', 'unless', 'while', 'until', 'for', 'case', 'begin'],
+    logicalOperators: ['&&', '||', 'and', 'or'],
+    structures: ['if', 'unless', 'while', 'until', 'for', 'case', 'rescue', 'conditional', 'if_modifier', 'unless_modifier', 'while_modifier', 'until_modifier', 'rescue_modifier'],
+    conditionals: ['if', 'unless', 'elsif'],
+    lambdas: ['block', 'do_block', 'lambda'],
+    calls: ['call'],
+    callee: node => {
+      const receiver = field(node, 'receiver')?.text;
+      const method = field(node, 'method')?.text;
+      return receiver && method ? `${receiver}.${method}` : method;
+    },
+    requiresBody: false,
+    // `def self.build` is named like the class it is called on; `def obj.build` after its object
+    name: node => {
+      const name = field(node, 'name')?.text;
+      const object = field(node, 'object');
+      return object && object.type !== 'self' && name ? `${object.text}.${name}` : name;
+    },
+    containerName: node => field(node, 'name')?.text,
+    parameters: node => namedChildren(field(node, 'parameters')).map(parameter => {
+      const value = field(parameter, 'value');
+      const name = parameter.type === 'identifier' ? parameter.text : field(parameter, 'name')?.text ?? parameter.text;
+      const prefix = { splat_parameter: '*', hash_splat_parameter: '**', block_parameter: '&' }[parameter.type] ?? '';
+      return {
+        name: `${prefix}${name}${parameter.type === 'keyword_parameter' ? ':' : ''}`,
+        type: 'Object',
+        optional: value !== undefined || prefix !== '',
+        ...(value ? { initializer: value.text } : {}),
+      };
+    }),
+  },
+};
+
+export function hasSyntaxTreeGrammar(language: string | undefined): language is SyntaxTreeLanguage {
+  return language !== undefined && language in LANGUAGE_SYNTAX;
+}
+
+let initialized: Promise<void> | undefined;
+const parsers = new Map<SyntaxTreeLanguage, Promise<Parser>>();
+
+// Grammars built for this tree-sitter release, as VS Code bundles them
+const grammarPath = (grammar: string) =>
+  path.join(path.dirname(require.resolve('@vscode/tree-sitter-wasm')), `tree-sitter-${grammar}.wasm`);
+
+function getParser(language: SyntaxTreeLanguage): Promise<Parser> {
+  let parser = parsers.get(language);
+  if (!parser) {
+    initialized ??= Parser.init();
+    parser = initialized.then(async () => {
+      const grammar = await Language.load(await fs.promises.readFile(grammarPath(LANGUAGE_SYNTAX[language].grammar)));
+      return new Parser().setLanguage(grammar);
+    });
+    // A grammar that failed to load is tried again next time
+    parser.catch(() => parsers.delete(language));
+    parsers.set(language, parser);
+  }
+  return parser;
+}
+
+export interface SourceAnalysis {
+  functions: FunctionInfo[];
+  // Cyclomatic complexity of the whole file: one plus every decision point in it
+  complexity: number;
+  // SonarSource cognitive complexity of the whole file
+  cognitiveComplexity: number;
+  maxNestingDepth: number;
+  // Halstead tokens: operators are keywords and punctuation, operands are names and literals
+  operators: string[];
+  operands: string[];
+  // Lines with code on them, leaving out blank lines and comments
+  sourceLines: number;
+  // Whether tree-sitter had to recover from syntax errors
+  hasErrors: boolean;
+}
+
+function isDecision(node: Node, syntax: LanguageSyntax): boolean {
+  if (syntax.decisions.includes(node.type)) return !syntax.isFallthrough?.(node);
+  return isLogical(node, syntax);
+}
+
+function isLogical(node: Node | null | undefined, syntax: LanguageSyntax): node is Node {
+  const operator = node && field(node, 'operator');
+  return !!operator && syntax.logicalOperators.includes(operator.type);
+}
+
+// An `else if` continues the `if` it belongs to rather than nesting inside it
+function isElseIf(node: Node): boolean {
+  const parent = node.parent;
+  if (!parent) return false;
+  if (parent.type === 'else_clause') return true;
+  return parent.type === node.type && parent.childForFieldName('alternative')?.id === node.id;
+}
+
+// The operators of a chain such as `a && b || c`, in the order they are written
+function logicalSequence(node: Node, syntax: LanguageSyntax): string[] {
+  const side = (name: string) => {
+    const child = field(node, name);
+    return isLogical(child, syntax) ? logicalSequence(child, syntax) : [];
+  };
+  return [...side('left'), field(node, 'operator')!.type, ...side('right')];
+}
+
+// Cognitive complexity counts each run of like operators once, so `a && b && c` adds one
+function logicalIncrement(node: Node, syntax: LanguageSyntax): number {
+  if (!isLogical(node, syntax) || isLogical(node.parent, syntax)) return 0;
+  return logicalSequence(node, syntax).filter((operator, i, all) => operator !== all[i - 1]).length;
+}
+
+interface Scope {
+  decisions: number;
+  cognitive: number;
+  maxDepth: number;
+  calls: string[];
+}
+
+const newScope = (): Scope => ({ decisions: 0, cognitive: 0, maxDepth: 0, calls: [] });
+
+// `Store::new`, `self.cache.get` and `List<T>.of` are read as dotted names without type arguments
+function calleeName(node: Node, syntax: LanguageSyntax): string | undefined {
+  const name = syntax.callee ? syntax.callee(node) : field(node, 'function')?.text;
+  return name?.replace(/<[^<>]*>/g, '').replace(/::|->/g, '.').replace(/\s+/g, '') || undefined;
+}
+
+/**
+ * Walks the tree once, counting decision points and nesting for the file and for each named
+ * function. A function's own figures leave out the functions declared inside it, but include
+ * lambdas and blocks, which have no name to be reported under. `depth` is the nesting of
+ * branches and loops; `nesting` is the cognitive nesting, which lambdas deepen as well.
+ */
+function walk(
+  node: Node,
+  syntax: LanguageSyntax,
+  file: Scope,
+  onFunction: (node: Node, qualifier: string[], scope: Scope) => void,
+  qualifier: string[] = [],
+  scope: Scope = file,
+  depth = 0,
+  nesting = 0
+): void {
+  let cognitive = logicalIncrement(node, syntax);
+  if (isDecision(node, syntax)) {
+    file.decisions++;
+    scope.decisions++;
+  }
+  if (syntax.nesting.includes(node.type) && !isElseIf(node)) {
+    depth++;
+    file.maxDepth = Math.max(file.maxDepth, depth);
+    scope.maxDepth = Math.max(scope.maxDepth, depth);
+  }
+
+  let childNesting = nesting;
+  if (syntax.structures.includes(node.type) && !isElseIf(node)) {
+    cognitive += 1 + nesting;
+    childNesting++;
+  } else if (syntax.lambdas.includes(node.type)) {
+    childNesting++;
+  }
+  if (syntax.conditionals.includes(node.type)) {
+    cognitive += node.childrenForFieldName('alternative').filter(Boolean).length;
+  }
+  file.cognitive += cognitive;
+  scope.cognitive += cognitive;
+  if (syntax.calls.includes(node.type)) {
+    const callee = calleeName(node, syntax);
+    if (callee && !scope.calls.includes(callee)) scope.calls.push(callee);
+  }
+
+  let childQualifier = qualifier;
+  let childScope = scope;
+  let childDepth = depth;
+  if (syntax.functions.includes(node.type)) {
+    childScope = newScope();
+    childDepth = 0;
+    childNesting = 0;
+    onFunction(node, qualifier, childScope);
+  } else if (syntax.containers.includes(node.type)) {
+    const name = syntax.containerName?.(node);
+    if (name) childQualifier = [...qualifier, name];
+  }
+  for (const child of namedChildren(node)) {
+    walk(child, syntax, file, onFunction, childQualifier, childScope, childDepth, childNesting);
+  }
+}
+
+const COMMENT_TYPES = ['comment', 'line_comment', 'block_comment'];
+// Literals whose pieces tree-sitter parses separately, but which are one operand
+const LITERAL_TYPE = /(^|_)(string|char|rune|character)(_|$)/;
+// Closing brackets belong to the opening ones, which are already counted
+const CLOSERS = new Set([')', ']', '}']);
+
+// Reads the tree's leaves as Halstead operators and operands
+function halsteadTokens(tree: Tree): { operators: string[]; operands: string[] } {
+  const operators: string[] = [];
+  const operands: string[] = [];
+  const cursor = tree.walk();
+  try {
+    let done = false;
+    while (!done) {
+      const type = cursor.nodeType;
+      const isComment = COMMENT_TYPES.includes(type);
+      const isLiteral = cursor.nodeIsNamed && LITERAL_TYPE.test(type);
+      if (isLiteral) operands.push(cursor.nodeText);
+      if (!isComment && !isLiteral && cursor.gotoFirstChild()) continue;
+      if (!isComment && !isLiteral) {
+        const text = cursor.nodeText;
+        if (cursor.nodeIsNamed) operands.push(text);
+        else if (text.trim() && !CLOSERS.has(text)) operators.push(text);
+      }
+      while (!cursor.gotoNextSibling()) {
+        if (!cursor.gotoParent()) {
+          done = true;
+          break;
+        }
+      }
+    }
+  } finally {
+    cursor.delete();
+  }
+  return { operators, operands };
+}
+
+// Lines with code on them, leaving out blank lines and lines that are only comments
+function sourceLines(node: Node, commentRows: Set<number>, lines: string[]): number {
+  let count = 0;
+  for (let row = node.startPosition.row; row <= node.endPosition.row; row++) {
+    if (lines[row]?.trim() && !commentRows.has(row)) count++;
+  }
+  return count;
+}
+
+/**
+ * Parses a source file and reads its functions. Methods are named after the type they are
+ * declared in (`Cart.total`), and each function's complexity is one plus its decision points.
+ */
+export async function analyzeSource(content: string, language: SyntaxTreeLanguage): Promise<SourceAnalysis> {
+  const syntax = LANGUAGE_SYNTAX[language];
+  const parser = await getParser(language);
+  const tree = parser.parse(content);
+  if (!tree) throw new Error(`tree-sitter could not parse ${language} source`);
+
+  try {
+    const lines = content.split('\n');
+    // Rows that hold nothing but a comment
+    const commentRows = new Set<number>();
+    for (const comment of tree.rootNode.descendantsOfType(COMMENT_TYPES)) {
+      if (!comment) continue;
+      for (let row = comment.startPosition.row; row <= comment.endPosition.row; row++) {
+        const line = lines[row] ?? '';
+        const start = row === comment.startPosition.row ? comment.startPosition.column : 0;
+        const end = row === comment.endPosition.row ? comment.endPosition.column : line.length;
+        if (!(line.slice(0, start) + line.slice(end)).trim()) commentRows.add(row);
+      }
+    }
+
+    const found: Array<{ node: Node; qualifier: string[]; scope: Scope }> = [];
+    const file = newScope();
+    walk(tree.rootNode, syntax, file, (node, qualifier, scope) => found.push({ node, qualifier, scope }));
+
+    const functions = found
+      .filter(({ node }) => !syntax.requiresBody || node.childForFieldName('body'))
+      .flatMap(({ node, qualifier, scope }): FunctionInfo[] => {
+        const name = syntax.name(node);
+        if (!name) return [];
+        const returnType = syntax.returnType?.(node);
+        const visibility = syntax.visibility?.(node, name);
+        return [{
+          name: [...qualifier, name].join('.'),
+          startLine: node.startPosition.row + 1,
+          endLine: node.endPosition.row + 1,
+          sloc: sourceLines(node, commentRows, lines),
+          cyclomaticComplexity: 1 + scope.decisions,
+          cognitiveComplexity: scope.cognitive,
+          nestingDepth: scope.maxDepth,
+          parameters: syntax.parameters(node, qualifier.length > 0),
+          calls: scope.calls,
+          ...(returnType ? { returnType } : {}),
+          isAsync: syntax.isAsync?.(node) ?? false,
+          ...(visibility ? { visibility } : {}),
+          content: node.text,
+        }];
+      });
+
+    return {
+      functions,
+      complexity: 1 + file.decisions,
+      cognitiveComplexity: file.cognitive,
+      maxNestingDepth: file.maxDepth,
+      ...halsteadTokens(tree),
+      sourceLines: sourceLines(tree.rootNode, commentRows, lines),
+      hasErrors: tree.rootNode.hasError,
+    };
+  } finally {
+    // Trees live in WebAssembly memory, which is not garbage collected
+    tree.delete();
+  }
+}
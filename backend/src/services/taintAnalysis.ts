@@ -0,0 +1,696 @@
+/**
+ * Taint analysis for JavaScript and TypeScript. Values read from untrusted input (Express
+ * request fields, `process.argv`, `window.location`) are followed through assignments, string
+ * building, calls and returns to the calls where they become dangerous: shell commands, SQL
+ * built from strings, file paths, HTML responses and evaluated code. Each function is
+ * summarized by which of its parameters reach its return value and which reach a sink, so
+ * flows are followed through function calls within a file and across the imports between
+ * files. Every finding carries the steps from the source to the sink.
+ */
+
+import * as path from 'path';
+import { FileInfo, SecurityIssue, TaintStep } from '../types';
+import { bindingNames, parseJavaScript } from './javascriptSyntax';
+import { isRelativeSpecifier, JAVASCRIPT_EXTENSIONS, ModuleResolver } from './moduleResolver';
+
+// Larger files are bundled or generated code
+const MAX_FILE_BYTES = 500_000;
+// Each round follows flows one call further; recursion stops the summaries from growing
+const MAX_ROUNDS = 6;
+// Distinct origins kept per value, so that values built from many inputs stay cheap
+const MAX_FACTS = 8;
+const MAX_CODE_LENGTH = 160;
+
+const SKIPPED_KEYS = new Set([
+  'loc', 'start', 'end', 'extra', 'range', 'leadingComments', 'trailingComments', 'innerComments',
+  'typeAnnotation', 'typeParameters', 'returnType', 'decorators',
+]);
+const FUNCTION_TYPES = new Set(['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression', 'ObjectMethod', 'ClassMethod', 'ClassPrivateMethod']);
+const WRAPPER_TYPES = new Set(['TSAsExpression', 'TSSatisfiesExpression', 'TSNonNullExpression', 'TSTypeAssertion', 'ParenthesizedExpression', 'AwaitExpression', 'SpreadElement']);
+
+// --- Sources and sinks ---
+
+const REQUEST_NAMES = new Set(['req', 'request']);
+const REQUEST_FIELDS = new Set(['query', 'body', 'params']);
+const RESPONSE_NAMES = new Set(['res', 'response']);
+
+type SinkKind = 'command' | 'code' | 'sql' | 'path' | 'html';
+
+const SINKS: Record<SinkKind, { title: string; cwe: string; severity: SecurityIssue['severity']; recommendation: string }> = {
+  command: {
+    title: 'Command injection',
+    cwe: 'CWE-78',
+    severity: 'critical',
+    recommendation: 'Run the program with execFile or spawn without a shell, passing input as separate arguments checked against an allowlist.',
+  },
+  code: {
+    title: 'Code injection',
+    cwe: 'CWE-95',
+    severity: 'critical',
+    recommendation: 'Never evaluate input as code; read it as data, for example with JSON.parse, and look up behaviour in a fixed table.',
+  },
+  sql: {
+    title: 'SQL injection',
+    cwe: 'CWE-89',
+    severity: 'critical',
+    recommendation: 'Pass input as bound parameters of a parameterized query instead of building the SQL string from it.',
+  },
+  path: {
+    title: 'Path traversal',
+    cwe: 'CWE-22',
+    severity: 'high',
+    recommendation: 'Resolve the path against a fixed base directory and reject paths that leave it, or map input to known file names.',
+  },
+  html: {
+    title: 'Cross-site scripting',
+    cwe: 'CWE-79',
+    severity: 'high',
+    recommendation: 'Escape input for HTML or render it through a template engine that escapes by default; in the browser, set textContent instead of innerHTML.',
+  },
+};
+
+// Calls by their canonical name, with the arguments that must not be tainted; 'all' checks every argument
+const SINK_CALLS: Record<string, { kind: SinkKind; args: number[] | 'all' }> = {
+  'child_process.exec': { kind: 'command', args: [0] },
+  'child_process.execSync': { kind: 'command', args: [0] },
+  'eval': { kind: 'code', args: [0] },
+  'Function': { kind: 'code', args: 'all' },
+  'vm.runInNewContext': { kind: 'code', args: [0] },
+  'vm.runInThisContext': { kind: 'code', args: [0] },
+  'vm.runInContext': { kind: 'code', args: [0] },
+  'document.write': { kind: 'html', args: 'all' },
+  'document.writeln': { kind: 'html', args: 'all' },
+};
+for (const method of [
+  'readFile', 'readFileSync', 'writeFile', 'writeFileSync', 'appendFile', 'appendFileSync', 'createReadStream', 'createWriteStream',
+  'unlink', 'unlinkSync', 'rm', 'rmSync', 'rmdir', 'rmdirSync', 'readdir', 'readdirSync', 'mkdir', 'mkdirSync', 'open', 'openSync',
+]) {
+  SINK_CALLS[`fs.${method}`] = { kind: 'path', args: [0] };
+}
+for (const method of ['rename', 'renameSync', 'copyFile', 'copyFileSync']) SINK_CALLS[`fs.${method}`] = { kind: 'path', args: [0, 1] };
+
+// Methods called on a response object; write and end are left out, as they also stream events and files
+const RESPONSE_SINKS: Record<string, SinkKind> = { send: 'html', sendFile: 'path', download: 'path' };
+// Query methods of database clients and query builders; only SQL built from strings is reported
+const SQL_METHODS = new Set(['query', 'execute', 'raw', 'whereRaw', 'unsafe', '$queryRawUnsafe', '$executeRawUnsafe']);
+const HTML_PROPERTIES = new Set(['innerHTML', 'outerHTML']);
+
+// Calls whose result is built from their arguments
+const PROPAGATING_CALLS = new Set([
+  'path.join', 'path.resolve', 'path.normalize', 'util.format', 'String', 'decodeURI', 'decodeURIComponent',
+  'JSON.parse', 'JSON.stringify', 'Buffer.from', 'Array.from', 'Object.assign', 'Object.values', 'Object.entries',
+  'URL', 'URLSearchParams',
+]);
+// Calls whose result is safe to use wherever their argument came from
+const SANITIZING_CALLS = new Set(['parseInt', 'parseFloat', 'Number', 'Boolean', 'encodeURI', 'encodeURIComponent', 'path.basename']);
+const SANITIZING_NAME = /escape|sanitiz|encode|quote/i;
+// Array and promise methods whose callbacks receive the values of their receiver
+const CALLBACK_METHODS = new Set(['map', 'forEach', 'filter', 'find', 'some', 'every', 'flatMap', 'then']);
+
+// Node built-ins under one name, so that `node:fs` and `fs/promises` find the same sinks
+function moduleAlias(specifier: string): string {
+  const name = specifier.replace(/^node:/, '');
+  if (name === 'fs/promises' || name === 'fs-extra' || name === 'graceful-fs') return 'fs';
+  if (name === 'path/posix' || name === 'path/win32') return 'path';
+  return name;
+}
+
+// The label of the untrusted value a member expression reads, such as req.query
+function sourceOf(node: any): string | undefined {
+  const object = node.object;
+  const property = node.computed ? undefined : keyName(node.property);
+  if (!property || object.type !== 'Identifier') return undefined;
+  if (REQUEST_NAMES.has(object.name) && REQUEST_FIELDS.has(property)) return `${object.name}.${property}`;
+  if (object.name === 'process' && property === 'argv') return 'process.argv';
+  if ((object.name === 'window' || object.name === 'document') && property === 'location') return `${object.name}.location`;
+  return undefined;
+}
+
+// --- Facts ---
+
+/**
+ * One origin of a tainted value: a source read at `key`, or the function's parameter `param`
+ * when a function is summarized. `built` records that the value was concatenated into a string.
+ */
+interface Fact {
+  key: string;
+  source?: string;
+  param?: number;
+  built?: boolean;
+  steps: TaintStep[];
+}
+
+type Taint = Fact[];
+
+// Facts already held keep their trace, which makes repeated passes converge
+function merge(first: Taint, second: Taint): Taint {
+  if (second.length === 0) return first;
+  const keys = new Set(first.map(fact => fact.key));
+  const merged = [...first];
+  for (const fact of second) {
+    if (merged.length >= MAX_FACTS) break;
+    if (!keys.has(fact.key)) {
+      keys.add(fact.key);
+      merged.push(fact);
+    }
+  }
+  return merged;
+}
+
+const union = (taints: Taint[]): Taint => taints.reduce(merge, []);
+const extend = (taint: Taint, step: TaintStep): Taint => taint.map(fact => ({ ...fact, steps: [...fact.steps, step] }));
+const built = (taint: Taint): Taint => taint.map(fact => (fact.built ? fact : { ...fact, built: true }));
+
+// What a function does with its parameters: the facts reaching its return value, and those reaching sinks
+interface Summary {
+  returns: Taint;
+  // `at` is the sink's file and offset; a sink is entered once per parameter
+  sinks: Array<{ at: string; param: number; kind: SinkKind; sink: string; built?: boolean; steps: TaintStep[] }>;
+}
+
+interface Finding {
+  kind: SinkKind;
+  source: string;
+  sink: string;
+  steps: TaintStep[];
+}
+
+// A value bound to an imported module: `imported` is the exported name, '*' the whole module
+interface ImportBinding {
+  specifier: string;
+  imported: string;
+}
+
+interface FileModule {
+  path: string;
+  lines: string[];
+  program: any;
+  // Named functions and the nodes that define them; the first definition of a name wins
+  functions: Map<string, any>;
+  functionNodes: Set<any>;
+  imports: Map<string, ImportBinding>;
+  // Exported names and the local function behind them, or the module and name they are re-exported from
+  exports: Map<string, string | ImportBinding>;
+  exportAll: string[];
+}
+
+class Scope {
+  private readonly values = new Map<string, Taint>();
+
+  constructor(private readonly parent?: Scope) {}
+
+  get(name: string): Taint {
+    return this.values.get(name) ?? this.parent?.get(name) ?? [];
+  }
+
+  declare(name: string, taint: Taint): void {
+    this.values.set(name, merge(this.values.get(name) ?? [], taint));
+  }
+
+  // Assigns to the scope that declares the name; a value stays tainted once any path taints it
+  assign(name: string, taint: Taint): void {
+    let owner: Scope | undefined = this;
+    while (owner && !owner.values.has(name)) owner = owner.parent;
+    (owner ?? this).declare(name, taint);
+  }
+}
+
+// The function being analysed: where its returns and the flows from its parameters are recorded
+interface Context {
+  module: FileModule;
+  name: string;
+  summary?: Summary;
+  returns?: Taint[];
+}
+
+// --- Module reading ---
+
+const isFunction = (node: any) => !!node && FUNCTION_TYPES.has(node.type);
+const stringValue = (node: any): string | undefined => (node?.type === 'StringLiteral' ? node.value : undefined);
+const keyName = (node: any): string | undefined => (node?.type === 'Identifier' ? node.name : stringValue(node));
+
+function requiredModule(node: any): string | undefined {
+  if (node?.type !== 'CallExpression' || node.callee.type !== 'Identifier' || node.callee.name !== 'require') return undefined;
+  return stringValue(node.arguments[0]);
+}
+
+const isModuleExports = (node: any): boolean => node?.type === 'MemberExpression' && node.object.type === 'Identifier'
+  && node.object.name === 'module' && keyName(node.property) === 'exports';
+
+function readModule(filePath: string, content: string): FileModule {
+  const program = parseJavaScript(content).program;
+  const module: FileModule = {
+    path: filePath,
+    lines: content.split('\n'),
+    program,
+    functions: new Map(),
+    functionNodes: new Set(),
+    imports: new Map(),
+    exports: new Map(),
+    exportAll: [],
+  };
+  const define = (name: string, node: any) => {
+    if (module.functions.has(name)) return;
+    module.functions.set(name, node);
+    module.functionNodes.add(node);
+  };
+  // An exported value: a function, a local name, or an object of them
+  const exportValue = (name: string, value: any) => {
+    if (isFunction(value)) {
+      define(name, value);
+      module.exports.set(name, name);
+    } else if (value?.type === 'Identifier') {
+      module.exports.set(name, value.name);
+    } else if (value?.type === 'ObjectExpression' && name === 'default') {
+      for (const property of value.properties) {
+        const key = keyName(property.key);
+        if (!key || property.computed) continue;
+        exportValue(key, property.type === 'ObjectMethod' ? property : property.value);
+      }
+    }
+  };
+
+  walk(program, node => {
+    switch (node.type) {
+      case 'ImportDeclaration':
+        for (const specifier of node.specifiers) {
+          const imported = specifier.type === 'ImportSpecifier' ? keyName(specifier.imported) ?? 'default'
+            : specifier.type === 'ImportDefaultSpecifier' ? 'default' : '*';
+          module.imports.set(specifier.local.name, { specifier: node.source.value, imported });
+        }
+        break;
+      case 'VariableDeclarator': {
+        const required = requiredModule(node.init);
+        if (required !== undefined && node.id.type === 'Identifier') {
+          module.imports.set(node.id.name, { specifier: required, imported: '*' });
+        } else if (required !== undefined && node.id.type === 'ObjectPattern') {
+          for (const property of node.id.properties) {
+            if (property.type === 'ObjectProperty' && property.value.type === 'Identifier' && keyName(property.key)) {
+              module.imports.set(property.value.name, { specifier: required, imported: keyName(property.key)! });
+            }
+          }
+        } else if (node.id.type === 'Identifier' && isFunction(node.init)) {
+          define(node.id.name, node.init);
+        }
+        break;
+      }
+      case 'FunctionDeclaration':
+        if (node.id) define(node.id.name, node);
+        break;
+      case 'ExportNamedDeclaration': {
+        const declaration = node.declaration;
+        if (declaration?.type === 'FunctionDeclaration' && declaration.id) module.exports.set(declaration.id.name, declaration.id.name);
+        if (declaration?.type === 'VariableDeclaration') {
+          for (const declarator of declaration.declarations) {
+            for (const name of bindingNames(declarator.id)) module.exports.set(name, name);
+          }
+        }
+        for (const specifier of node.specifiers ?? []) {
+          const exported = keyName(specifier.exported);
+          if (!exported) continue;
+          if (node.source) {
+            const imported = specifier.type === 'ExportNamespaceSpecifier' ? '*' : keyName(specifier.local) ?? 'default';
+            module.exports.set(exported, { specifier: node.source.value, imported });
+          } else if (specifier.local) {
+            module.exports.set(exported, specifier.local.name);
+          }
+        }
+        break;
+      }
+      case 'ExportDefaultDeclaration': {
+        const declaration = node.declaration;
+        if (isFunction(declaration) && declaration.id) {
+          define(declaration.id.name, declaration);
+          module.exports.set('default', declaration.id.name);
+        } else {
+          exportValue('default', declaration);
+        }
+        break;
+      }
+      case 'ExportAllDeclaration':
+        module.exportAll.push(node.source.value);
+        break;
+      case 'AssignmentExpression':
+        // `module.exports = ...`, `exports.run = ...` and `module.exports.run = ...`
+        if (isModuleExports(node.left)) {
+          exportValue('default', node.right);
+        } else if (node.left.type === 'MemberExpression' && !node.left.computed
+          && (isModuleExports(node.left.object) || (node.left.object.type === 'Identifier' && node.left.object.name === 'exports'))) {
+          const name = keyName(node.left.property);
+          if (name) exportValue(name, node.right);
+        }
+        break;
+    }
+  });
+  return module;
+}
+
+function walk(node: any, visit: (node: any) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach(child => walk(child, visit));
+    return;
+  }
+  if (!node || typeof node.type !== 'string') return;
+  visit(node);
+  for (const key of Object.keys(node)) {
+    if (!SKIPPED_KEYS.has(key) && key !== 'type') walk(node[key], visit);
+  }
+}
+
+// --- Analysis ---
+
+class TaintAnalysis {
+  private readonly summaries = new Map<any, Summary>();
+  readonly findings = new Map<string, Finding>();
+  private changed = false;
+
+  constructor(private readonly modules: Map<string, FileModule>, private readonly resolver: ModuleResolver) {}
+
+  run(): void {
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      this.changed = false;
+      for (const module of this.modules.values()) {
+        const moduleScope = new Scope();
+        this.analyzeBody(module.program, moduleScope, { module, name: '<module>' });
+        for (const [name, node] of module.functions) this.summarize(module, name, node, moduleScope);
+      }
+      if (!this.changed) break;
+    }
+  }
+
+  private summarize(module: FileModule, name: string, node: any, parent: Scope): void {
+    const previous = this.summaries.get(node);
+    const summary: Summary = { returns: [...previous?.returns ?? []], sinks: [...previous?.sinks ?? []] };
+    const scope = new Scope(parent);
+    node.params.forEach((param: any, index: number) => {
+      for (const binding of bindingNames(param)) scope.declare(binding, [{ key: `param:${index}`, param: index, steps: [] }]);
+    });
+    const returns: Taint[] = [];
+    this.analyzeBody(node, scope, { module, name, summary, returns });
+    summary.returns = merge(summary.returns, union(returns));
+    if (summary.returns.length !== (previous?.returns.length ?? 0) || summary.sinks.length !== (previous?.sinks.length ?? 0)) this.changed = true;
+    this.summaries.set(node, summary);
+  }
+
+  /**
+   * Functions are read twice, so that values assigned late in a loop reach the uses before
+   * them. Callbacks are read once each time the function around them is.
+   */
+  private analyzeBody(node: any, scope: Scope, context: Context, passes = 2): void {
+    const body = node.body;
+    for (let pass = 0; pass < passes; pass++) {
+      if (body?.type === 'BlockStatement' || Array.isArray(body)) {
+        this.evaluate(body, scope, context);
+      } else if (body) {
+        const value = this.evaluate(body, scope, context);
+        context.returns?.push(extend(value, this.step(context.module, body, `Returned from \`${context.name}\``)));
+      }
+    }
+  }
+
+  private step(module: FileModule, node: any, description: string): TaintStep {
+    const line = node.loc?.start.line ?? 0;
+    const code = (module.lines[line - 1] ?? '').trim();
+    return { file: module.path, line, code: code.length > MAX_CODE_LENGTH ? `${code.slice(0, MAX_CODE_LENGTH)}…` : code, description };
+  }
+
+  private evaluate(node: any, scope: Scope, context: Context): Taint {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.evaluate(child, scope, context));
+      return [];
+    }
+    if (!node || typeof node.type !== 'string') return [];
+    if (WRAPPER_TYPES.has(node.type)) return this.evaluate(node.expression ?? node.argument, scope, context);
+    if (FUNCTION_TYPES.has(node.type)) {
+      // Named functions are summarized on their own; callbacks are read where they are written
+      if (!context.module.functionNodes.has(node)) this.analyzeCallback(node, scope, context, []);
+      return [];
+    }
+
+    switch (node.type) {
+      case 'Identifier':
+        return scope.get(node.name);
+      case 'MemberExpression':
+      case 'OptionalMemberExpression': {
+        const source = sourceOf(node);
+        if (source) return [{ key: `${context.module.path}:${node.start}`, source, steps: [this.step(context.module, node, `Read from ${source}`)] }];
+        if (node.computed) this.evaluate(node.property, scope, context);
+        return this.evaluate(node.object, scope, context);
+      }
+      case 'TemplateLiteral':
+        return built(union(node.expressions.map((expression: any) => this.evaluate(expression, scope, context))));
+      case 'BinaryExpression': {
+        const left = this.evaluate(node.left, scope, context);
+        const right = this.evaluate(node.right, scope, context);
+        return node.operator === '+' ? built(merge(left, right)) : [];
+      }
+      case 'LogicalExpression':
+        return merge(this.evaluate(node.left, scope, context), this.evaluate(node.right, scope, context));
+      case 'ConditionalExpression':
+        this.evaluate(node.test, scope, context);
+        return merge(this.evaluate(node.consequent, scope, context), this.evaluate(node.alternate, scope, context));
+      case 'SequenceExpression':
+        return node.expressions.map((expression: any) => this.evaluate(expression, scope, context)).pop() ?? [];
+      case 'ArrayExpression':
+        return union(node.elements.map((element: any) => this.evaluate(element, scope, context)));
+      case 'ObjectExpression':
+        return union(node.properties.map((property: any) => property.type === 'ObjectMethod'
+          ? this.evaluate(property, scope, context)
+          : this.evaluate(property.type === 'SpreadElement' ? property.argument : property.value, scope, context)));
+      case 'AssignmentExpression': {
+        let value = this.evaluate(node.right, scope, context);
+        if (node.operator === '+=') value = built(merge(this.evaluate(node.left, scope, context), value));
+        this.assign(node.left, value, node, scope, context);
+        return value;
+      }
+      case 'CallExpression':
+      case 'OptionalCallExpression':
+      case 'NewExpression':
+        return this.call(node, scope, context);
+      case 'TaggedTemplateExpression':
+        // Tags such as sql`...` escape what they interpolate
+        this.evaluate(node.quasi, scope, context);
+        return [];
+      case 'VariableDeclarator':
+        this.assign(node.id, this.evaluate(node.init, scope, context), node, scope, context, true);
+        return [];
+      case 'ForOfStatement':
+      case 'ForInStatement':
+        this.assign(node.left.type === 'VariableDeclaration' ? node.left.declarations[0].id : node.left,
+          this.evaluate(node.right, scope, context), node, scope, context, node.left.type === 'VariableDeclaration');
+        this.evaluate(node.body, scope, context);
+        return [];
+      case 'ReturnStatement': {
+        const value = this.evaluate(node.argument, scope, context);
+        if (value.length > 0) context.returns?.push(extend(value, this.step(context.module, node, `Returned from \`${context.name}\``)));
+        return [];
+      }
+      default:
+        for (const key of Object.keys(node)) {
+          if (!SKIPPED_KEYS.has(key) && key !== 'type') this.evaluate(node[key], scope, context);
+        }
+        return [];
+    }
+  }
+
+  private assign(target: any, value: Taint, node: any, scope: Scope, context: Context, declare = false): void {
+    if (target.type === 'MemberExpression') {
+      const property = target.computed ? undefined : keyName(target.property);
+      if (property && HTML_PROPERTIES.has(property)) this.sink(value, 'html', property, node, context);
+      // A tainted field taints the object it is set on
+      let object = target.object;
+      while (object.type === 'MemberExpression') object = object.object;
+      if (object.type === 'Identifier' && value.length > 0) {
+        scope.assign(object.name, extend(value, this.step(context.module, node, `Assigned to \`${object.name}\``)));
+      }
+      return;
+    }
+    for (const name of bindingNames(target)) {
+      const taint = value.length > 0 ? extend(value, this.step(context.module, node, `Assigned to \`${name}\``)) : [];
+      if (declare) scope.declare(name, taint);
+      else scope.assign(name, taint);
+    }
+  }
+
+  private analyzeCallback(node: any, parent: Scope, context: Context, params: Taint[]): void {
+    const scope = new Scope(parent);
+    node.params.forEach((param: any, index: number) => {
+      for (const name of bindingNames(param)) scope.declare(name, params[index] ?? []);
+    });
+    // Flows from the enclosing function's parameters still count towards its summary
+    this.analyzeBody(node, scope, { module: context.module, name: context.name, summary: context.summary }, 1);
+  }
+
+  // `child_process.exec` for `exec` imported from 'node:child_process', or the written name of other callees
+  private canonicalName(node: any, module: FileModule): string | undefined {
+    if (node.type === 'Identifier') {
+      const binding = module.imports.get(node.name);
+      if (!binding || isRelativeSpecifier(binding.specifier)) return node.name;
+      const alias = moduleAlias(binding.specifier);
+      return binding.imported === '*' || binding.imported === 'default' ? alias : `${alias}.${binding.imported}`;
+    }
+    if ((node.type === 'MemberExpression' || node.type === 'OptionalMemberExpression') && !node.computed) {
+      const required = requiredModule(node.object);
+      const object = required !== undefined ? moduleAlias(required) : this.canonicalName(node.object, module);
+      const property = keyName(node.property);
+      // `fs.promises.readFile` is `fs.readFile`
+      if (object === 'fs' && property === 'promises') return 'fs';
+      return object && property ? `${object}.${property}` : undefined;
+    }
+    return undefined;
+  }
+
+  private call(node: any, scope: Scope, context: Context): Taint {
+    const callee = node.callee;
+    const isMember = callee.type === 'MemberExpression' || callee.type === 'OptionalMemberExpression';
+    const method = isMember && !callee.computed ? keyName(callee.property) : undefined;
+    const receiver = isMember ? this.evaluate(callee.object, scope, context) : this.evaluate(callee, scope, context);
+    const callbackParams = method && CALLBACK_METHODS.has(method) ? [receiver] : [];
+    const args: Taint[] = node.arguments.map((arg: any) => {
+      if (isFunction(arg) && !context.module.functionNodes.has(arg)) {
+        this.analyzeCallback(arg, scope, context, callbackParams);
+        return [];
+      }
+      return this.evaluate(arg, scope, context);
+    });
+
+    const name = this.canonicalName(callee, context.module);
+    const label = name ?? method ?? 'call';
+    const sinkCall = name ? SINK_CALLS[name] : undefined;
+    if (sinkCall) {
+      const checked = sinkCall.args === 'all' ? args : sinkCall.args.map(index => args[index] ?? []);
+      for (const arg of checked) this.sink(arg, sinkCall.kind, name!, node, context);
+    } else if (method && isMember && callee.object.type === 'Identifier' && RESPONSE_NAMES.has(callee.object.name) && RESPONSE_SINKS[method]) {
+      this.sink(args[0] ?? [], RESPONSE_SINKS[method], label, node, context);
+    } else if (method && SQL_METHODS.has(method)) {
+      this.sink(args[0] ?? [], 'sql', label, node, context);
+    }
+
+    const target = this.resolveFunction(callee, context.module);
+    if (target) return this.applySummary(target.name, this.summaries.get(target.node), args, node, context);
+
+    const callName = name ?? '';
+    if (SANITIZING_CALLS.has(callName) || SANITIZING_NAME.test(method ?? callName)) return [];
+    if (PROPAGATING_CALLS.has(callName) || method === 'concat') return merge(receiver, union(args));
+    return isMember ? receiver : [];
+  }
+
+  /**
+   * Records a flow into a sink: a finding for sources, a summary entry for parameters. SQL is
+   * only reported when input was built into the query string, since queries also take
+   * parameters and builder objects.
+   */
+  private sink(taint: Taint, kind: SinkKind, sink: string, node: any, context: Context): void {
+    if (taint.length === 0) return;
+    const step = this.step(context.module, node, `Reaches ${sink}`);
+    const at = `${context.module.path}:${node.start}`;
+    for (const fact of taint) this.flow({ at, param: -1, kind, sink, steps: [step] }, fact, [], context);
+  }
+
+  // Joins the trace of `fact` to a flow from a parameter into a sink, across the steps between
+  private flow(entry: Summary['sinks'][number], fact: Fact, between: TaintStep[], context: Context): void {
+    const isBuilt = !!(entry.built || fact.built);
+    if (entry.kind === 'sql' && !isBuilt && fact.source) return;
+    const steps = [...fact.steps, ...between, ...entry.steps];
+    if (fact.source) {
+      const key = `${entry.at}:${fact.key}`;
+      if (!this.findings.has(key)) this.findings.set(key, { kind: entry.kind, source: fact.source, sink: entry.sink, steps });
+    } else if (fact.param !== undefined && context.summary) {
+      const param = fact.param;
+      const sinks = context.summary.sinks;
+      if (!sinks.some(existing => existing.at === entry.at && existing.param === param)) {
+        sinks.push({ at: entry.at, param, kind: entry.kind, sink: entry.sink, built: isBuilt, steps });
+      }
+    }
+  }
+
+  // Follows the arguments of a call through the summary of the function it reaches
+  private applySummary(name: string, summary: Summary | undefined, args: Taint[], node: any, context: Context): Taint {
+    if (!summary) return [];
+    const callStep = (param: number) => this.step(context.module, node, `Passed to \`${name}\` as argument ${param + 1}`);
+    for (const entry of summary.sinks) {
+      for (const fact of args[entry.param] ?? []) this.flow(entry, fact, [callStep(entry.param)], context);
+    }
+    return union(summary.returns.map(returned => {
+      if (returned.param === undefined) return [{ ...returned, steps: [...returned.steps, this.step(context.module, node, `Returned by the call to \`${name}\``)] }];
+      return (args[returned.param] ?? []).map(fact => ({
+        ...fact,
+        built: fact.built || returned.built,
+        steps: [...fact.steps, callStep(returned.param!), ...returned.steps],
+      }));
+    }));
+  }
+
+  // The named function a callee refers to, in this file or through an import
+  private resolveFunction(callee: any, module: FileModule): { name: string; node: any } | undefined {
+    if (callee.type === 'Identifier') {
+      const local = module.functions.get(callee.name);
+      if (local) return { name: callee.name, node: local };
+      const binding = module.imports.get(callee.name);
+      return binding ? this.importedFunction(binding, module, binding.imported === '*' ? 'default' : binding.imported) : undefined;
+    }
+    if (callee.type === 'MemberExpression' && !callee.computed && callee.object.type === 'Identifier') {
+      const binding = module.imports.get(callee.object.name);
+      const property = keyName(callee.property);
+      if (binding && property && (binding.imported === '*' || binding.imported === 'default')) return this.importedFunction(binding, module, property);
+    }
+    return undefined;
+  }
+
+  private importedFunction(binding: ImportBinding, from: FileModule, name: string, depth = 0): { name: string; node: any } | undefined {
+    const file = this.resolver.resolve(binding.specifier, from.path);
+    const module = file ? this.modules.get(file) : undefined;
+    if (!module || depth > 5) return undefined;
+    const exported = module.exports.get(name);
+    if (typeof exported === 'string') {
+      const node = module.functions.get(exported);
+      return node ? { name: exported, node } : undefined;
+    }
+    if (exported) return this.importedFunction(exported, module, exported.imported === '*' ? 'default' : exported.imported, depth + 1);
+    for (const specifier of module.exportAll) {
+      const found = this.importedFunction({ specifier, imported: name }, module, name, depth + 1);
+      if (found) return found;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Finds flows of untrusted input into dangerous calls in the JavaScript and TypeScript files.
+ * Functions whose name says they escape, sanitize, encode or quote their input, and numeric
+ * conversions, end a flow. Results are ordered by the file and line of the sink.
+ */
+export function findTaintFlows(files: Array<Pick<FileInfo, 'path' | 'content'>>, onError?: (file: string, error: unknown) => void): SecurityIssue[] {
+  const modules = new Map<string, FileModule>();
+  for (const file of files) {
+    if (!file.content || file.content.length > MAX_FILE_BYTES) continue;
+    if (!JAVASCRIPT_EXTENSIONS.includes(path.extname(file.path).toLowerCase()) || /\.d\.[cm]?ts$|\.min\.js$/.test(file.path)) continue;
+    if (file.path.split('/').includes('node_modules')) continue;
+    try {
+      modules.set(file.path, readModule(file.path, file.content));
+    } catch (e) {
+      onError?.(file.path, e);
+    }
+  }
+
+  const analysis = new TaintAnalysis(modules, new ModuleResolver(files));
+  analysis.run();
+
+  const issues = [...analysis.findings.values()].map(({ kind, source, sink, steps }): SecurityIssue => {
+    const rule = SINKS[kind];
+    const at = steps[steps.length - 1];
+    const origin = steps[0];
+    return {
+      type: 'vulnerability',
+      severity: rule.severity,
+      file: at.file,
+      line: at.line,
+      description: `${rule.title}: ${source} read at ${origin.file}:${origin.line} reaches ${sink}`,
+      recommendation: rule.recommendation,
+      cwe: rule.cwe,
+      codeSnippet: at.code,
+      taint: { source, sink, steps },
+    };
+  });
+  return issues.sort((a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0));
+}
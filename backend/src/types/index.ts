@@ -84,6 +84,10 @@ export interface FunctionInfo {
   endLine: number;
   sloc?: number;
   cyclomaticComplexity?: number;
+  // SonarSource cognitive complexity: branches weigh more the more deeply they are nested
+  cognitiveComplexity?: number;
+  // Deepest nesting of branches and loops in the function's own body
+  nestingDepth?: number;
   parameters?: FunctionParameter[];
   returnType?: string;
   isAsync?: boolean;
@@ -169,23 +173,190 @@ export interface DependencyLink {
   strength: number;
 }
 
+// Package registries, named as in OSV advisories
+export type DependencyEcosystem = 'npm' | 'PyPI' | 'Go' | 'crates.io' | 'Maven';
+
+/**
+ * A package the repository depends on, directly from a manifest or transitively through
+ * a lockfile.
+ */
+export interface DependencyPackage {
+  name: string; // Maven packages are named groupId:artifactId
+  ecosystem: DependencyEcosystem;
+  manifestPath: string; // Manifest declaring a direct dependency, or the file listing a transitive one
+  version?: string; // Requirement as declared, e.g. "^4.17.0"
+  resolvedVersion?: string; // Version installed according to the lockfile, or pinned by the manifest
+  direct: boolean;
+  dev: boolean; // Only needed to develop, test or build the project
+  requires?: string[]; // name@version of the locked packages this one depends on
+  integrity?: string; // Subresource Integrity hash from the lockfile, e.g. "sha512-..."
+  license?: string; // SPDX expression recorded by the lockfile or vendored package metadata
+  licenseSource?: string; // Vendored metadata file the license was read from, when the lockfile has none
+}
+
+export interface DependencyManifest {
+  path: string;
+  ecosystem: DependencyEcosystem;
+  kind: 'manifest' | 'lockfile';
+}
+
 export interface DependencyInfo {
+  // Direct dependencies by name, across all manifests
   dependencies: Record<string, string>;
   devDependencies: Record<string, string>;
+  manifests?: DependencyManifest[];
+  packages?: DependencyPackage[];
   nodes?: DependencyNode[];
   links?: DependencyLink[];
 }
 
+/**
+ * A published advisory (OSV format) that affects the version of a dependency in use.
+ */
+export interface DependencyVulnerability {
+  id: string; // e.g. GHSA-xxxx-xxxx-xxxx
+  aliases: string[]; // e.g. CVE IDs
+  packageName: string;
+  ecosystem: string;
+  version: string; // Version that was checked
+  summary: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  cvssScore?: number;
+  cvssVector?: string;
+  affectedRanges: string[]; // e.g. ">=4.0.0 <4.17.21"
+  fixedVersions: string[];
+  cwe?: string;
+  url?: string;
+  manifestPath?: string; // Where the affected package is declared or locked
+  direct?: boolean;
+  dependencyPath?: string[]; // Shortest chain from the manifest to the package, e.g. [package.json, a@1.0.0, b@2.0.0]
+}
+
+/**
+ * A locked package in the dependency graph, identified as ecosystem:name@version.
+ */
+export interface PackageGraphNode {
+  id: string;
+  name: string;
+  ecosystem: DependencyEcosystem;
+  version: string;
+  depth?: number; // 1 for direct dependencies; absent when the lockfile does not record how it is reached
+  via?: string; // Package (or manifest, for direct dependencies) that pulls it in on the shortest path
+  dev: boolean; // Only reachable through development dependencies
+}
+
+export interface PackageDependencyGraph {
+  projects: string[]; // Manifests declaring direct dependencies; the roots of the graph
+  nodes: PackageGraphNode[];
+  links: Array<{ source: string; target: string }>; // From a manifest or package to a package it requires
+  duplicates: Array<{ ecosystem: DependencyEcosystem; name: string; versions: string[] }>;
+}
+
+export type LicenseAction = 'allow' | 'review' | 'deny';
+
+// The license rules of DependencyConfig
+export interface LicensePolicy {
+  allowedLicenses: string[];
+  deniedLicenses: string[];
+  copyleft: { weak: LicenseAction; strong: LicenseAction; network: LicenseAction };
+  unknownLicenses: LicenseAction;
+  checkDevDependencyLicenses: boolean;
+}
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'network-copyleft' | 'proprietary' | 'unknown';
+
+/**
+ * The license of an installed package and what the license policy makes of it.
+ */
+export interface DependencyLicense {
+  packageName: string;
+  ecosystem: DependencyEcosystem;
+  version?: string;
+  license?: string; // SPDX expression, or what the package declares when it is not one
+  licenseSource?: string;
+  category: LicenseCategory; // Of the license that decided the status, for expressions of several
+  status: 'allowed' | 'review' | 'denied';
+  reason: string;
+  manifestPath: string;
+  direct: boolean;
+  dev: boolean;
+  checked: boolean; // False for development dependencies the policy leaves out
+}
+
+export interface LicenseComplianceReport {
+  policy: LicensePolicy;
+  packages: DependencyLicense[];
+  summary: { allowed: number; review: number; denied: number; unknown: number }; // Checked packages only
+  distribution: Array<{ license: string; category: LicenseCategory; count: number }>;
+}
+
+export interface DependencyMetrics {
+  totalDependencies: number;
+  devDependencies: number;
+  transitiveDependencies?: number;
+  outdatedPackages: number;
+  vulnerablePackages: number;
+  criticalVulnerabilities: number;
+  highVulnerabilities: number;
+  mediumVulnerabilities: number;
+  lowVulnerabilities: number;
+  lastScan: string;
+  dependencyScore: number;
+  dependencyGraph: PackageDependencyGraph;
+  vulnerabilityDistribution: Array<{ severity: string; count: number; color: string }>;
+  vulnerabilities?: DependencyVulnerability[];
+}
+
 export interface ArchitectureData {
     nodes: Array<{ id: string; name: string; type: string; path: string; layer: string; }>;
     links: Array<{ source: string; target: string }>;
     mermaidDiagram?: string;
 }
 
+// Halstead's measures, from the operators and operands in a file
+export interface HalsteadMetrics {
+    distinctOperators: number;
+    distinctOperands: number;
+    totalOperators: number;
+    totalOperands: number;
+    vocabulary: number;
+    length: number;
+    volume: number;
+    difficulty: number;
+    effort: number;
+    // Estimated seconds to write the file
+    time: number;
+    // Estimated delivered bugs
+    bugs: number;
+}
+
+export type FunctionLengthBucket = '1-10' | '11-25' | '26-50' | '51-100' | '101+';
+
+// How long the functions in a file are, in lines of code
+export interface FunctionLengthDistribution {
+    count: number;
+    mean: number;
+    median: number;
+    max: number;
+    buckets: Record<FunctionLengthBucket, number>;
+    longest?: { name: string; startLine: number; lines: number };
+}
+
 export interface FileMetrics {
+    // Cyclomatic complexity
     complexity: number;
+    // The classic maintainability index, rescaled to 0-100
     maintainability: number;
     linesOfCode: number;
+    // Lines with code on them, leaving out blank lines and comments
+    sourceLinesOfCode?: number;
+    cognitiveComplexity?: number;
+    maxNestingDepth?: number;
+    halstead?: HalsteadMetrics;
+    functions?: FunctionLengthDistribution;
+    // Percentages from a coverage report, when the repository holds one
+    lineCoverage?: number;
+    branchCoverage?: number;
 }
 
 export interface QualityMetrics {
@@ -193,7 +364,7 @@ export interface QualityMetrics {
 }
 
 export interface SecurityIssue {
-  type: 'secret' | 'vulnerability' | 'configuration';
+  type: 'secret' | 'vulnerability' | 'configuration' | 'license' | 'infrastructure';
   severity: 'low' | 'medium' | 'high' | 'critical';
   file: string;
   line?: number;
@@ -201,11 +372,78 @@ export interface SecurityIssue {
   recommendation: string;
   cwe?: string;
   codeSnippet?: string;
+  rule?: string; // The rule that found it, for findings of the SAST rule engine, infrastructure checks and imported SARIF logs
+  secret?: SecretExposure; // Set on findings of secret scanning
+  taint?: TaintFlow; // Set on findings of taint analysis
+  infrastructure?: InfrastructureFinding; // Set on findings of infrastructure-as-code checks
+  source?: FindingSource; // Set on findings imported from another tool's SARIF log
+}
+
+// The tool and SARIF log an imported finding came from
+export interface FindingSource {
+  tool: string; // e.g. 'CodeQL'
+  version?: string;
+  origin: string; // The log's path in the repository, or the name it was uploaded with
+}
+
+// A SARIF log whose findings were merged into a report
+export interface SarifImport {
+  origin: string;
+  tools: string[];
+  securityIssues: number;
+  technicalDebt: number;
+  importedAt: string;
+}
+
+export type InfrastructurePlatform = 'dockerfile' | 'compose' | 'kubernetes' | 'terraform' | 'github-actions';
+
+// What an infrastructure-as-code finding concerns, e.g. the container 'web' of 'Deployment/api'
+export interface InfrastructureFinding {
+  platform: InfrastructurePlatform;
+  resource?: string;
+}
+
+// How untrusted input reaches a dangerous call, each step from where it is read to the sink
+export interface TaintFlow {
+  source: string; // e.g. 'req.query'
+  sink: string; // e.g. 'child_process.exec'
+  steps: TaintStep[];
+}
+
+export interface TaintStep {
+  file: string;
+  line: number;
+  code: string;
+  description: string;
+}
+
+// A secret found by secret scanning: where it entered the history and whether it is still exposed.
+// The secret itself is never stored, only a redacted prefix and a fingerprint.
+export interface SecretExposure {
+  rule: string;
+  fingerprint: string;
+  redacted: string;
+  introducedBy?: { sha: string; author: string; date: string; file: string; line: number };
+  presentAtHead: boolean;
+  commits: number; // Scanned commits that added the secret
+  verification?: 'active' | 'inactive';
+}
+
+// How secret scanning searches the tree and history; globs are from the repository root
+export interface SecretScanConfig {
+  maxCommits: number;
+  historyWithoutToken: boolean;
+  entropy: { enabled: boolean; minLength: number; base64Threshold: number; hexThreshold: number };
+  disabledRules: string[];
+  ignoreFiles: string[];
+  allowlist: string[];
+  verify: boolean;
 }
 
 // ADD these missing interfaces that components expect:
 export interface TechnicalDebt {
-  type: 'complexity' | 'duplication' | 'smell' | 'outdated' | 'documentation';
+  type: 'complexity' | 'duplication' | 'smell' | 'outdated' | 'documentation' | 'dead-code';
+  rule?: string; // The check that found it, e.g. unused-export
   severity: 'low' | 'medium' | 'high';
   file: string;
   line?: number;
@@ -213,6 +451,91 @@ export interface TechnicalDebt {
   effort: string;
   impact: string;
   recommendation?: string;
+  source?: FindingSource; // Set on findings imported from another tool's SARIF log
+}
+
+// Where dead-code detection starts and what it leaves alone; patterns are globs from the repository root
+export interface DeadCodeConfig {
+  entryPoints: string[];
+  includeTests: boolean;
+  ignoreFiles: string[];
+  ignoreDependencies: string[];
+}
+
+// A code smell rule as a repository configures it; threshold is the limit of rules that measure something
+export interface CodeSmellRule {
+  id: string;
+  enabled: boolean;
+  severity: 'low' | 'medium' | 'high';
+  effort: 'low' | 'medium' | 'high';
+  threshold?: number;
+}
+
+export interface CodeSmellConfig {
+  rules: CodeSmellRule[];
+  ignoreFiles: string[];
+}
+
+// How clone detection matches code; windows are counted in tokens, not lines
+export interface CloneDetectionConfig {
+  minTokens: number;
+  gapped: boolean;
+  maxGapTokens: number;
+  ignoreFiles: string[];
+}
+
+// One copy of a cloned fragment
+export interface CloneFragment {
+  file: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+// Fragments that are copies of each other: type 1 identical apart from layout and comments,
+// type 2 also with renamed identifiers or changed literals, type 3 also with statements added or removed
+export interface CloneClass {
+  id: string;
+  type: 1 | 2 | 3;
+  tokens: number;
+  lines: number;
+  fragments: CloneFragment[];
+}
+
+export interface FileDuplication {
+  file: string;
+  duplicatedLines: number;
+  totalLines: number;
+}
+
+export interface DuplicationReport {
+  config: CloneDetectionConfig;
+  classes: CloneClass[];
+  files: FileDuplication[]; // Files with any duplicated lines, most duplicated first
+  duplicatedLines: number;
+  totalLines: number;
+}
+
+export type CoverageFormat = 'lcov' | 'istanbul' | 'cobertura' | 'jacoco';
+
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+// Executable lines and branch outcomes of one file that the test run reached
+export interface FileCoverage {
+  lines: CoverageCount;
+  branches?: CoverageCount;
+}
+
+// Coverage read from the reports a test run left in the repository
+export interface CoverageReport {
+  reports: { path: string; format: CoverageFormat }[];
+  files: Record<string, FileCoverage>; // Keyed by repository path
+  lines: CoverageCount;
+  branches?: CoverageCount;
+  unmatchedFiles: number; // Files a report covers that are not in the repository
 }
 
 export interface PerformanceMetric {
@@ -244,6 +567,8 @@ export interface Hotspot {
   size?: number;
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   primaryContributors?: string[];
+  lineCoverage?: number;
+  branchCoverage?: number;
 }
 
 export interface KeyFunction {
@@ -262,9 +587,61 @@ export interface KeyFunction {
   content?: string; // For showing source code
   startLine?: number;
   endLine?: number;
+  cognitiveComplexity?: number;
+  // Functions in the repository that call this one, and those it calls, up to ten of each
+  callers?: FunctionReference[];
+  callees?: FunctionReference[];
+  // How many distinct functions in the repository call this one, and how many it calls
+  fanIn?: number;
+  fanOut?: number;
+  // 0-100, weighing complexity, fan-in, fan-out and length against the rest of the repository
+  importance?: number;
   // performance?: { estimatedRuntime: string; complexity: string; }; // Can be added later
 }
 
+export interface FunctionReference {
+  name: string;
+  file: string;
+}
+
+/**
+ * A function in the call graph. `id` is `file#name`, with `name` as on `KeyFunction`;
+ * calls made outside any function belong to the node named `<module>`.
+ */
+export interface CallGraphNode {
+  id: string;
+  name: string;
+  file: string;
+  startLine?: number;
+  endLine?: number;
+  exported?: boolean;
+}
+
+/**
+ * A call written in `from`. Internal calls reach the function `to`; external ones go to an
+ * imported package; dynamic ones have a target that could not be worked out statically,
+ * such as a callback, a computed member or a method of a local value.
+ */
+export interface CallGraphEdge {
+  from: string;
+  to?: string;
+  callee: string;
+  line: number;
+  resolution: 'internal' | 'external' | 'dynamic';
+  module?: string; // The package an external call goes to
+}
+
+export interface CallGraph {
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+}
+
+// The functions within `depth` calls of `focus`: callers at negative distances, callees at positive ones
+export interface CallGraphNeighbourhood extends CallGraph {
+  focus: string;
+  distances: Record<string, number>;
+}
+
 // Enhanced FileNode for diagrams
 export interface FileNode {
   name: string;
@@ -347,6 +724,33 @@ export interface AnalysisWarning {
   error?: string;
 }
 
+// --- Analysis jobs ---
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Public view of a queued analysis. Credentials submitted with the job are stored separately
+// and never appear here.
+export interface AnalysisJob {
+  id: string;
+  repoUrl: string;
+  status: AnalysisJobStatus;
+  progress: number;
+  step: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  reportId?: string;
+  error?: string;
+}
+
+// Events stream to clients as SSE `event: <type>` with `id: <id>`; ids are 1-based positions in
+// the job's event log, so `Last-Event-ID` can resume exactly where a client left off.
+export interface AnalysisJobEvent {
+  id: number;
+  type: 'status' | 'progress' | 'result' | 'error-message' | 'done';
+  data: Record<string, unknown>;
+}
+
 // --- Main Analysis Result Structure ---
 
 // Update AnalysisResult to include ALL expected fields
@@ -365,20 +769,12 @@ export interface AnalysisResult {
     // Architecture & Dependencies  
   dependencies: DependencyInfo;
   dependencyGraph: ArchitectureData;
-  dependencyMetrics?: {
-    totalDependencies: number;
-    devDependencies: number;
-    outdatedPackages: number;
-    vulnerablePackages: number;
-    criticalVulnerabilities: number;
-    highVulnerabilities: number;
-    mediumVulnerabilities: number;
-    lowVulnerabilities: number;
-    lastScan: string;
-    dependencyScore: number;
-    dependencyGraph: { nodes: any[]; links: any[] };
-    vulnerabilityDistribution: Array<{ severity: string; count: number; color: string }>;
-  };
+  dependencyMetrics?: DependencyMetrics;
+  licenseCompliance?: LicenseComplianceReport;
+  architectureRules?: ArchitectureRulesReport; // Import cycles and layer rule violations
+  duplication?: DuplicationReport; // Clone classes and duplicated lines per file
+  coverage?: CoverageReport; // Line and branch coverage from the repository's coverage reports
+  sarifImports?: SarifImport[]; // SARIF logs of other tools whose findings were merged in
   qualityMetrics: QualityMetrics;
   
   // Analysis results
@@ -387,11 +783,15 @@ export interface AnalysisResult {
   performanceMetrics: PerformanceMetric[];
   hotspots: Hotspot[];
   keyFunctions: KeyFunction[];
+  callGraph?: CallGraph; // Calls between JavaScript and TypeScript functions
   apiEndpoints: APIEndpoint[];  // AI-generated content
   aiSummary?: string;
   architectureAnalysis?: string;
   systemArchitecture?: SystemArchitecture; // System architecture analysis with Mermaid diagram
-  analysisMethod?: 'archive' | 'individual'; // Method used for file analysis  // Summary metrics
+  analysisMethod?: 'archive' | 'individual'; // Method used for file analysis
+  commitSha?: string; // Commit the files were read at
+  incrementalAnalysis?: IncrementalAnalysisInfo; // Set when only files changed since an earlier report were re-analyzed
+  // Summary metrics
   metrics: {
     totalCommits: number;
     totalContributors: number;
@@ -400,6 +800,9 @@ export interface AnalysisResult {
     linesOfCode: number;
     codeQuality: number;
     testCoverage: number;
+    // 'report' when testCoverage is measured line coverage, 'estimate' when it is guessed from test files
+    testCoverageSource: 'report' | 'estimate';
+    branchCoverage?: number;
     busFactor: number;
     securityScore: number;
     technicalDebtScore: number;
@@ -434,6 +837,18 @@ export interface AnalysisResult {
   featureFileMatrix?: FeatureFileMatrixItem[];
 }
 
+/**
+ * Describes a report built on top of an earlier analysis of the same branch: only files
+ * changed in baseSha..headSha were fetched and analyzed, everything else was reused.
+ */
+export interface IncrementalAnalysisInfo {
+  baseSha: string;
+  headSha: string;
+  changedFiles: number;
+  removedFiles: number;
+  reusedFiles: number;
+}
+
 // ADD these interfaces for archive download configuration
 export interface ArchiveDownloadConfig {
   enabled: boolean;
@@ -470,6 +885,51 @@ export interface SystemArchitecture {
   summary: string;
 }
 
+/**
+ * One import between two files, or between two components with the file import behind it.
+ */
+export interface ArchitectureImport {
+  from: string;
+  to: string;
+  file?: string;
+  line?: number;
+  specifier?: string;
+}
+
+export interface ImportCycle {
+  graph: 'file' | 'component';
+  members: string[];
+  // The shortest chain of imports from the first member back to itself
+  chain: ArchitectureImport[];
+}
+
+// Files or components in layer `from` must not import ones in layer `to`
+export interface LayerRule {
+  from: string;
+  to: string;
+  message?: string;
+}
+
+export interface ArchitectureRules {
+  layerRules: LayerRule[];
+  failOnCycles: boolean;
+}
+
+export interface LayerViolation {
+  rule: LayerRule;
+  graph: 'file' | 'component';
+  fromLayer: string;
+  toLayer: string;
+  import: ArchitectureImport;
+}
+
+export interface ArchitectureRulesReport {
+  rules: ArchitectureRules;
+  cycles: ImportCycle[];
+  violations: LayerViolation[];
+  passed: boolean;
+}
+
 export interface FeatureFileMatrixItem {
   feature: string;
   file: string;
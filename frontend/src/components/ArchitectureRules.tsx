@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { CheckCircle, Download, RefreshCw, ShieldAlert } from 'lucide-react';
+import { AnalysisResult, ArchitectureImport } from '../types';
+
+interface ArchitectureRulesProps {
+  analysisResult: AnalysisResult;
+}
+
+type ExportFormat = 'json' | 'junit';
+
+const ImportStep: React.FC<{ step: ArchitectureImport; showFile: boolean }> = ({ step, showFile }) => (
+  <li className="flex flex-wrap items-baseline gap-x-2">
+    <span className="font-mono text-gray-800">{step.from}</span>
+    <span className="text-gray-400">→</span>
+    <span className="font-mono text-gray-800">{step.to}</span>
+    {step.line !== undefined && (
+      <span className="text-xs text-gray-500">
+        {showFile ? <span className="font-mono">{step.file}:{step.line}</span> : `line ${step.line}`}
+        {step.specifier && <> · <span className="font-mono">{step.specifier}</span></>}
+      </span>
+    )}
+  </li>
+);
+
+/**
+ * Import cycles and layer rule violations, with the results exportable for CI as JSON or
+ * as a JUnit report.
+ */
+const ArchitectureRules: React.FC<ArchitectureRulesProps> = ({ analysisResult }) => {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const report = analysisResult.architectureRules;
+  if (!report) return null;
+
+  const { rules, cycles, violations, passed } = report;
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      let response = await fetch(`/api/report/${encodeURIComponent(analysisResult.id)}/architecture-rules?format=${format}`);
+      if (response.status === 404) {
+        // The server no longer has the report; send the results along
+        const { id, basicInfo, architectureRules } = analysisResult;
+        response = await fetch('/api/architecture-rules', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format, report: { id, basicInfo, architectureRules } }),
+        });
+      }
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || `Server responded with ${response.status}`);
+      }
+      const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1]
+        || `architecture.${format === 'junit' ? 'xml' : 'json'}`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('[ArchitectureRules] Export failed:', err);
+      alert(`Failed to export the architecture rules: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold text-gray-900 flex items-center">
+          <RefreshCw className="w-6 h-6 text-orange-500 mr-3" />
+          Import Cycles & Layer Rules
+        </h3>
+        <div className="flex items-center gap-2">
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+            {passed ? 'Passed' : 'Failed'}
+          </span>
+          {(['json', 'junit'] as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="flex items-center px-3 py-1.5 text-sm rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              {format === 'json' ? 'JSON' : 'JUnit'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-600 mb-6">
+        <span className="font-medium">Layer rules:</span>{' '}
+        {rules.layerRules.length > 0
+          ? rules.layerRules.map(rule => `${rule.from} must not import ${rule.to}`).join('; ')
+          : 'none'}
+        {' · '}Import cycles {rules.failOnCycles ? 'fail the check' : 'are reported only'}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-3">Import Cycles ({cycles.length})</h4>
+          {cycles.length === 0 ? (
+            <p className="flex items-center text-sm text-gray-500"><CheckCircle className="w-4 h-4 text-green-500 mr-2" />No files or components import each other in a cycle.</p>
+          ) : (
+            <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
+              {cycles.map(cycle => (
+                <li key={`${cycle.graph}-${cycle.members.join('|')}`} className="border border-gray-200 rounded-lg p-3">
+                  <div className="text-sm font-medium text-gray-800 mb-2">
+                    {cycle.members.length === 1 ? `A ${cycle.graph} importing itself` : `${cycle.members.length} ${cycle.graph}s in a cycle`}
+                  </div>
+                  <ol className="space-y-1 text-sm">
+                    {cycle.chain.map(step => <ImportStep key={`${step.from}->${step.to}`} step={step} showFile={cycle.graph === 'component'} />)}
+                  </ol>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-lg font-semibold text-gray-800 mb-3">Layer Violations ({violations.length})</h4>
+          {violations.length === 0 ? (
+            <p className="flex items-center text-sm text-gray-500"><CheckCircle className="w-4 h-4 text-green-500 mr-2" />Every import follows the layer rules.</p>
+          ) : (
+            <ul className="space-y-3 max-h-96 overflow-y-auto pr-2">
+              {violations.map(violation => (
+                <li key={`${violation.graph}-${violation.import.from}->${violation.import.to}`} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-start text-sm font-medium text-red-700 mb-2">
+                    <ShieldAlert className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    {violation.rule.message ?? `${violation.fromLayer} must not import ${violation.toLayer}`}
+                  </div>
+                  <ul className="text-sm">
+                    <ImportStep step={violation.import} showFile={violation.graph === 'component'} />
+                  </ul>
+                  <div className="text-xs text-gray-500 mt-1 capitalize">{violation.graph} · {violation.fromLayer} → {violation.toLayer}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchitectureRules;
@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Copy } from 'lucide-react';
+import { CloneClass, CloneFragment, DuplicationReport } from '../types';
+
+interface CloneViewerProps {
+  duplication?: DuplicationReport;
+}
+
+const TYPE_LABELS: Record<CloneClass['type'], string> = {
+  1: 'Identical',
+  2: 'Renamed',
+  3: 'Edited',
+};
+
+const FILES_SHOWN = 20;
+
+interface Row {
+  left?: { number: number; text: string };
+  right?: { number: number; text: string };
+  changed: boolean;
+}
+
+const normalize = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+/**
+ * Lines of two fragments aligned on their longest common subsequence, so the lines a copy
+ * added, removed or changed sit next to each other.
+ */
+function alignFragments(left: CloneFragment, right: CloneFragment): Row[] {
+  const a = left.content.split('\n');
+  const b = right.content.split('\n');
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = normalize(a[i]) === normalize(b[j]) ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const rows: Row[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const i = removed[k];
+      const j = added[k];
+      rows.push({
+        left: i !== undefined ? { number: left.startLine + i, text: a[i] } : undefined,
+        right: j !== undefined ? { number: right.startLine + j, text: b[j] } : undefined,
+        changed: true,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && normalize(a[i]) === normalize(b[j])) {
+      flush();
+      rows.push({ left: { number: left.startLine + i, text: a[i] }, right: { number: right.startLine + j, text: b[j] }, changed: false });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && common[i + 1][j] >= common[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+  return rows;
+}
+
+const Cell: React.FC<{ line?: { number: number; text: string }; changed: boolean }> = ({ line, changed }) => (
+  <div className={`flex min-w-0 ${changed ? 'bg-amber-50' : ''}`}>
+    <span className="w-12 flex-shrink-0 text-right pr-2 text-gray-400 select-none">{line?.number ?? ''}</span>
+    <span className="whitespace-pre overflow-hidden text-ellipsis text-gray-800">{line?.text ?? ''}</span>
+  </div>
+);
+
+const FragmentPicker: React.FC<{ fragments: CloneFragment[]; value: number; onChange: (index: number) => void }> = ({ fragments, value, onChange }) => (
+  <select
+    value={value}
+    onChange={event => onChange(Number(event.target.value))}
+    className="w-full text-xs font-mono border border-gray-200 rounded-lg px-2 py-1 bg-white"
+  >
+    {fragments.map((fragment, index) => (
+      <option key={`${fragment.file}:${fragment.startLine}`} value={index}>{fragment.file}:{fragment.startLine}-{fragment.endLine}</option>
+    ))}
+  </select>
+);
+
+/**
+ * Clone classes found by token-based clone detection, with any two copies of a class side
+ * by side and the lines that differ highlighted, and the duplicated lines of each file.
+ */
+const CloneViewer: React.FC<CloneViewerProps> = ({ duplication }) => {
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const [sides, setSides] = useState<[number, number]>([0, 1]);
+
+  const selected = duplication?.classes.find(clone => clone.id === selectedId) ?? duplication?.classes[0];
+  const rows = useMemo(
+    () => (selected && selected.fragments[sides[0]] && selected.fragments[sides[1]]
+      ? alignFragments(selected.fragments[sides[0]], selected.fragments[sides[1]])
+      : []),
+    [selected, sides],
+  );
+
+  if (!duplication) return null;
+
+  const { classes, files, duplicatedLines, totalLines, config } = duplication;
+  const percentage = totalLines > 0 ? (duplicatedLines / totalLines) * 100 : 0;
+
+  const select = (clone: CloneClass) => {
+    setSelectedId(clone.id);
+    setSides([0, 1]);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+        <Copy className="w-6 h-6 text-purple-500 mr-3" />
+        Code Duplication
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        {duplicatedLines.toLocaleString()} of {totalLines.toLocaleString()} source lines ({percentage.toFixed(1)}%) are duplicated
+        in {classes.length} clone {classes.length === 1 ? 'class' : 'classes'} of at least {config.minTokens} tokens.
+        Layout and comments are ignored and identifiers and literals may differ
+        {config.gapped ? `; copies edited in places up to ${config.maxGapTokens} tokens apart are joined.` : '.'}
+      </p>
+
+      {classes.length === 0 ? (
+        <p className="text-sm text-gray-500">No duplicated code was found.</p>
+      ) : (
+        <div className="grid lg:grid-cols-4 gap-6">
+          <ul className="lg:col-span-1 space-y-2 max-h-[32rem] overflow-y-auto pr-2">
+            {classes.map(clone => (
+              <li key={clone.id}>
+                <button
+                  onClick={() => select(clone)}
+                  className={`w-full text-left rounded-lg border p-3 text-sm ${clone.id === selected?.id ? 'border-purple-400 bg-purple-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                >
+                  <div className="font-medium text-gray-800">
+                    {clone.lines} lines × {clone.fragments.length}
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{TYPE_LABELS[clone.type]}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 font-mono truncate">{clone.fragments[0].file}</div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <div className="lg:col-span-3 min-w-0">
+              <div className="grid grid-cols-2 gap-2 mb-2">
+                {([0, 1] as const).map(side => (
+                  <FragmentPicker
+                    key={side}
+                    fragments={selected.fragments}
+                    value={sides[side]}
+                    onChange={index => setSides(current => (side === 0 ? [index, current[1]] : [current[0], index]))}
+                  />
+                ))}
+              </div>
+              <div className="border border-gray-200 rounded-lg max-h-[28rem] overflow-auto text-xs font-mono">
+                {rows.map((row, index) => (
+                  <div key={index} className="grid grid-cols-2 divide-x divide-gray-200">
+                    <Cell line={row.left} changed={row.changed} />
+                    <Cell line={row.right} changed={row.changed} />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {selected.tokens} tokens · highlighted lines differ between the two copies
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <div className="mt-8">
+          <h4 className="text-lg font-semibold text-gray-800 mb-3">Duplicated Lines by File</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">File</th>
+                <th className="py-2 font-medium text-right">Duplicated</th>
+                <th className="py-2 font-medium text-right">Lines</th>
+                <th className="py-2 font-medium text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {files.slice(0, FILES_SHOWN).map(file => (
+                <tr key={file.file}>
+                  <td className="py-1.5 font-mono text-xs text-gray-800 break-all">{file.file}</td>
+                  <td className="py-1.5 text-right">{file.duplicatedLines}</td>
+                  <td className="py-1.5 text-right text-gray-500">{file.totalLines}</td>
+                  <td className="py-1.5 text-right">{((file.duplicatedLines / Math.max(file.totalLines, 1)) * 100).toFixed(0)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {files.length > FILES_SHOWN && <p className="text-xs text-gray-500 mt-2">Showing {FILES_SHOWN} of {files.length} files.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CloneViewer;
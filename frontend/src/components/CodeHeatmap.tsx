@@ -1,6 +1,7 @@
 import React from 'react';
 import { Flame, FileText, Info } from 'lucide-react'; // Added Info, removed AlertCircle, TrendingUp
 import { validateChartData } from '../lib/utils';
+import { QualityMetrics } from '../types';
 
 interface HotspotData { // Define a more specific type for this component
     file: string; // short name
@@ -10,13 +11,18 @@ interface HotspotData { // Define a more specific type for this component
     explanation?: string;
     size?: number; // lines of code or file size
     riskLevel: 'low' | 'medium' | 'high' | 'critical';
+    // From the repository's coverage report, when one names the file
+    lineCoverage?: number;
+    branchCoverage?: number;
 }
 
 interface CodeHeatmapProps {
   hotspots?: HotspotData[];
+  // Per-file measures, shown with each hotspot when the file was parsed
+  qualityMetrics?: QualityMetrics;
 }
 
-const CodeHeatmap = ({ hotspots }: CodeHeatmapProps) => {
+const CodeHeatmap = ({ hotspots, qualityMetrics }: CodeHeatmapProps) => {
   // Validate incoming data
   if (!validateChartData(hotspots)) {
     return (
@@ -37,6 +43,7 @@ const CodeHeatmap = ({ hotspots }: CodeHeatmapProps) => {
     );
   }
   const heatmapData = hotspots as HotspotData[];
+  const coverageMeasured = heatmapData.some(file => file.lineCoverage !== undefined);
 
   const getHeatColorClass = (riskLevel: HotspotData['riskLevel']): string => {
     switch (riskLevel) {
@@ -77,6 +84,7 @@ const CodeHeatmap = ({ hotspots }: CodeHeatmapProps) => {
       <p className="text-gray-600 mb-8 text-sm">
         Files identified as hotspots due to high complexity, frequent changes, or potential risk. 
         These areas might warrant closer inspection or refactoring.
+        {coverageMeasured && ' Risk also weighs the line coverage measured by the repository\'s coverage report: below 50% is critical, 80% or more is medium.'}
       </p>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
@@ -104,9 +112,39 @@ const CodeHeatmap = ({ hotspots }: CodeHeatmapProps) => {
             
             <div className="text-xs text-gray-700 space-y-1.5 mb-3">
               <div className="flex justify-between">
-                <span>Complexity:</span>
-                <span className={`font-medium ${getRiskTextColor(file.riskLevel)}`}>{file.complexity}%</span>
+                <span>Cyclomatic Complexity:</span>
+                <span className={`font-medium ${getRiskTextColor(file.riskLevel)}`}>{file.complexity}</span>
               </div>
+              {qualityMetrics?.[file.path]?.cognitiveComplexity !== undefined && (
+                <div className="flex justify-between">
+                  <span>Cognitive Complexity:</span>
+                  <span className="font-medium">{qualityMetrics[file.path].cognitiveComplexity}</span>
+                </div>
+              )}
+              {qualityMetrics?.[file.path]?.maxNestingDepth !== undefined && (
+                <div className="flex justify-between">
+                  <span>Max Nesting Depth:</span>
+                  <span className="font-medium">{qualityMetrics[file.path].maxNestingDepth}</span>
+                </div>
+              )}
+              {qualityMetrics?.[file.path] && (
+                <div className="flex justify-between">
+                  <span>Maintainability Index:</span>
+                  <span className="font-medium">{qualityMetrics[file.path].maintainability}</span>
+                </div>
+              )}
+              {file.lineCoverage !== undefined && (
+                <div className="flex justify-between">
+                  <span>Line Coverage:</span>
+                  <span className={`font-medium ${file.lineCoverage < 50 ? 'text-red-600' : ''}`}>{file.lineCoverage}%</span>
+                </div>
+              )}
+              {file.branchCoverage !== undefined && (
+                <div className="flex justify-between">
+                  <span>Branch Coverage:</span>
+                  <span className="font-medium">{file.branchCoverage}%</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span>Recent Changes:</span>
                 <span className="font-medium">{file.changes}</span>
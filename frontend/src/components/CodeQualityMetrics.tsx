@@ -1,13 +1,51 @@
-import React from 'react';
-import { AnalysisResult } from '../types';
+import React, { useMemo } from 'react';
+import { ResponsiveContainer, BarChart, CartesianGrid, XAxis, YAxis, Tooltip, Bar } from 'recharts';
+import { AnalysisResult, FunctionLengthBucket, QualityMetrics } from '../types';
 import { CheckCircle, AlertTriangle, Info } from 'lucide-react'; // For visual cues
 import VisualizationErrorBoundary from './VisualizationErrorBoundary';
 
 interface CodeQualityMetricsProps {
   metrics?: AnalysisResult['metrics'];
+  qualityMetrics?: QualityMetrics;
 }
 
-export const CodeQualityMetricsDisplay: React.FC<CodeQualityMetricsProps> = ({ metrics }) => {
+const LENGTH_BUCKETS: FunctionLengthBucket[] = ['1-10', '11-25', '26-50', '51-100', '101+'];
+
+// Totals and averages over the files that were parsed
+const summarizeQuality = (qualityMetrics: QualityMetrics = {}) => {
+  const measured = Object.entries(qualityMetrics).filter(([, file]) => file.halstead);
+  if (measured.length === 0) return null;
+
+  const buckets = Object.fromEntries(LENGTH_BUCKETS.map(bucket => [bucket, 0])) as Record<FunctionLengthBucket, number>;
+  let functionCount = 0;
+  let functionLines = 0;
+  for (const [, file] of measured) {
+    for (const bucket of LENGTH_BUCKETS) buckets[bucket] += file.functions?.buckets[bucket] ?? 0;
+    functionCount += file.functions?.count ?? 0;
+    functionLines += (file.functions?.mean ?? 0) * (file.functions?.count ?? 0);
+  }
+
+  return {
+    fileCount: measured.length,
+    maintainability: Math.round(measured.reduce((sum, [, file]) => sum + file.maintainability, 0) / measured.length),
+    cognitiveComplexity: measured.reduce((sum, [, file]) => sum + (file.cognitiveComplexity ?? 0), 0) / measured.length,
+    maxNestingDepth: Math.max(...measured.map(([, file]) => file.maxNestingDepth ?? 0)),
+    volume: measured.reduce((sum, [, file]) => sum + (file.halstead?.volume ?? 0), 0),
+    effort: measured.reduce((sum, [, file]) => sum + (file.halstead?.effort ?? 0), 0),
+    bugs: measured.reduce((sum, [, file]) => sum + (file.halstead?.bugs ?? 0), 0),
+    functionCount,
+    meanFunctionLength: functionCount ? functionLines / functionCount : 0,
+    lengthHistogram: LENGTH_BUCKETS.map(bucket => ({ bucket, functions: buckets[bucket] })),
+    mostComplex: measured
+      .map(([path, file]) => ({ path, cognitiveComplexity: file.cognitiveComplexity ?? 0, maxNestingDepth: file.maxNestingDepth ?? 0, maintainability: file.maintainability }))
+      .sort((a, b) => b.cognitiveComplexity - a.cognitiveComplexity)
+      .slice(0, 5),
+  };
+};
+
+export const CodeQualityMetricsDisplay: React.FC<CodeQualityMetricsProps> = ({ metrics, qualityMetrics }) => {
+  const quality = useMemo(() => summarizeQuality(qualityMetrics), [qualityMetrics]);
+
   if (!metrics) {
     return (
       <VisualizationErrorBoundary>
@@ -49,10 +87,72 @@ export const CodeQualityMetricsDisplay: React.FC<CodeQualityMetricsProps> = ({ m
               value={metrics.totalCommits.toLocaleString()} 
               status={commitsStatus} 
               threshold="-" />
+          {quality && (
+            <>
+              <MetricItem
+                  label="Maintainability Index"
+                  value={quality.maintainability.toString()}
+                  status={getStatus(quality.maintainability, 65, 40)}
+                  threshold={`Average over ${quality.fileCount.toLocaleString()} parsed files, 0-100`} />
+              <MetricItem
+                  label="Cognitive Complexity"
+                  value={quality.cognitiveComplexity.toFixed(1)}
+                  status={getStatus(quality.cognitiveComplexity, 15, 30, true)}
+                  threshold="Average per file" />
+              <MetricItem
+                  label="Max Nesting Depth"
+                  value={quality.maxNestingDepth.toString()}
+                  status={getStatus(quality.maxNestingDepth, 3, 5, true)}
+                  threshold="Deepest branches and loops in any file" />
+              <MetricItem
+                  label="Halstead Volume"
+                  value={Math.round(quality.volume).toLocaleString()}
+                  status={getStatus(quality.bugs, 5, 20, true)}
+                  threshold={`Effort ${Math.round(quality.effort).toLocaleString()}, ~${quality.bugs.toFixed(1)} estimated bugs`} />
+            </>
+          )}
         </div>
 
+        {quality && quality.functionCount > 0 && (
+          <div className="mt-6">
+            <h3 className="font-semibold text-sm text-gray-700 mb-1">Function Lengths</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              {quality.functionCount.toLocaleString()} functions, {quality.meanFunctionLength.toFixed(1)} lines of code on average
+            </p>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={quality.lengthHistogram} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="bucket" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip formatter={(value: number) => [value, 'Functions']} labelFormatter={label => `${label} lines`} />
+                  <Bar dataKey="functions" fill="#6366F1" name="Functions" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {quality && quality.mostComplex.some(file => file.cognitiveComplexity > 0) && (
+          <div className="mt-6">
+            <h3 className="font-semibold text-sm text-gray-700 mb-2">Hardest to Understand</h3>
+            <ul className="space-y-1 text-xs">
+              {quality.mostComplex.map(file => (
+                <li key={file.path} className="flex justify-between gap-4 p-2 bg-gray-50 rounded border border-gray-200">
+                  <span className="truncate text-gray-700" title={file.path}>{file.path}</span>
+                  <span className="whitespace-nowrap text-gray-500">
+                    cognitive {file.cognitiveComplexity}, nesting {file.maxNestingDepth}, MI {file.maintainability}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="mt-6 text-xs text-gray-500">
-          <strong>Note:</strong> Displaying available core metrics.
+          <strong>Note:</strong> {quality
+            ? 'Quality measures are read from the syntax trees of JavaScript, TypeScript, Python, Go, Java, Rust, C# and Ruby files.'
+            : 'Displaying available core metrics.'}
         </div>
       </div>
     </VisualizationErrorBoundary>
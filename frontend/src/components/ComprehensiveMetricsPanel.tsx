@@ -13,6 +13,8 @@ export const ComprehensiveMetricsPanel: React.FC<ComprehensiveMetricsPanelProps>
   analysisResult 
 }) => {
   const { metrics, files = [], basicInfo } = analysisResult;
+  // Reports from before coverage reports were read only ever held the estimate
+  const coverageMeasured = metrics.testCoverageSource === 'report';
   
   // Calculate enhanced display values
   const sourceFiles = files.filter(f => f.content && f.language && f.language !== 'text').length;
@@ -85,11 +87,13 @@ export const ComprehensiveMetricsPanel: React.FC<ComprehensiveMetricsPanelProps>
     },
     {
       icon: <CheckSquare className="w-6 h-6 text-teal-500" />,
-      label: 'Test Coverage',
-      value: `${(metrics.testCoverage || 0).toFixed(1)}%`,
-      subtitle: 'Code coverage percentage',
+      label: coverageMeasured ? 'Test Coverage' : 'Test Coverage (estimate)',
+      value: `${coverageMeasured ? '' : '~'}${(metrics.testCoverage || 0).toFixed(1)}%`,
+      subtitle: coverageMeasured
+        ? `Line coverage from the coverage report${metrics.branchCoverage !== undefined ? `, ${metrics.branchCoverage.toFixed(1)}% of branches` : ''}`
+        : 'Guessed from test files; no coverage report found',
       color: 'teal',
-      accurate: metrics.testCoverage !== undefined && metrics.testCoverage > 0,
+      accurate: coverageMeasured,
     },
     {
       icon: <Star className="w-6 h-6 text-yellow-500" />,
@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { TechnicalDebtItem } from '../types';
+
+interface DeadCodeReportProps {
+  technicalDebt?: TechnicalDebtItem[];
+}
+
+type DeadCodeRule = 'unused-file' | 'unused-export' | 'unused-dependency';
+
+const RULES: Array<{ id: DeadCodeRule; title: string; empty: string }> = [
+  { id: 'unused-file', title: 'Unreferenced files', empty: 'Every file is reached from an entry point.' },
+  { id: 'unused-export', title: 'Unused exports', empty: 'Every export is imported somewhere.' },
+  { id: 'unused-dependency', title: 'Unused dependencies', empty: 'Every declared dependency is used.' },
+];
+
+const SHOWN = 100;
+
+/**
+ * Dead-code findings: files no entry point reaches, exports nothing imports and declared
+ * dependencies nothing uses.
+ */
+const DeadCodeReport: React.FC<DeadCodeReportProps> = ({ technicalDebt }) => {
+  const [selected, setSelected] = useState<DeadCodeRule>('unused-file');
+  const findings = useMemo(() => {
+    const grouped: Record<DeadCodeRule, TechnicalDebtItem[]> = { 'unused-file': [], 'unused-export': [], 'unused-dependency': [] };
+    for (const item of technicalDebt ?? []) {
+      if (item.type === 'dead-code' && item.rule && item.rule in grouped) grouped[item.rule as DeadCodeRule].push(item);
+    }
+    return grouped;
+  }, [technicalDebt]);
+
+  if (!technicalDebt?.some(item => item.type === 'dead-code')) return null;
+
+  const rule = RULES.find(candidate => candidate.id === selected)!;
+  const items = findings[selected];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+        <Trash2 className="w-6 h-6 text-gray-500 mr-3" />
+        Dead Code
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Reachability from package entry points, HTML pages, framework routes, tool configuration and tests.
+        Code loaded some other way can be added as an entry point in the dead-code configuration.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {RULES.map(({ id, title }) => (
+          <button
+            key={id}
+            onClick={() => setSelected(id)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium ${selected === id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {title} ({findings[id].length})
+          </button>
+        ))}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{rule.empty}</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto text-sm">
+            {items.slice(0, SHOWN).map(item => (
+              <li key={`${item.file}:${item.line ?? 0}:${item.description}`} className="py-2">
+                <div className="text-gray-800">{item.description}</div>
+                <div className="text-xs text-gray-500 font-mono">{item.file}{item.line ? `:${item.line}` : ''}</div>
+              </li>
+            ))}
+          </ul>
+          {items.length > SHOWN && <p className="text-xs text-gray-500 mt-2">Showing {SHOWN} of {items.length}.</p>}
+          {items[0].recommendation && <p className="text-xs text-gray-600 mt-3">{items[0].recommendation}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DeadCodeReport;
@@ -53,8 +53,12 @@ const useExecutiveSummary = (reportData: ExecutiveSummaryProps['reportData']) =>
     }
 
     const testCoverage = metrics.testCoverage;
+    // Without a coverage report the figure is guessed from the test files, and said to be
+    const coverageText = (value: number) => metrics.testCoverageSource === 'report'
+      ? `${value.toFixed(1)}% line coverage measured by the repository's coverage report`
+      : `an estimated ${value.toFixed(1)}% coverage (no coverage report was found, so this is inferred from the test files)`;
     if (testCoverage !== undefined && testCoverage < 50) {
-      primaryInsights.push(`Poor Test Coverage: Code test coverage is at ${testCoverage.toFixed(1)}%, indicating a higher risk of undetected bugs.`);
+      primaryInsights.push(`Poor Test Coverage: The code has ${coverageText(testCoverage)}, indicating a higher risk of undetected bugs.`);
     }
 
     const codeQuality = metrics.codeQuality;
@@ -78,7 +82,7 @@ const useExecutiveSummary = (reportData: ExecutiveSummaryProps['reportData']) =>
       fillerInsights.push(`Healthy Contribution Model: The project has a bus factor of ${busFactor}, indicating knowledge is well-distributed.`);
     }
     if (testCoverage !== undefined && testCoverage >= 80) {
-      fillerInsights.push(`Excellent Test Coverage: With ${testCoverage.toFixed(1)}% coverage, the project has a strong safety net against bugs.`);
+      fillerInsights.push(`Excellent Test Coverage: With ${coverageText(testCoverage)}, the project has a strong safety net against bugs.`);
     }
     if (highRiskHotspots === 0) {
       fillerInsights.push(`Good Maintainability: No high-risk code hotspots were identified.`);
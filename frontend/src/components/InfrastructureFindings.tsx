@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Server } from 'lucide-react';
+import { InfrastructurePlatform, SecurityIssue } from '../types';
+
+interface InfrastructureFindingsProps {
+  securityIssues?: SecurityIssue[];
+}
+
+type Filter = 'all' | InfrastructurePlatform;
+
+const FILTERS: Array<{ id: Filter; title: string }> = [
+  { id: 'all', title: 'All' },
+  { id: 'dockerfile', title: 'Dockerfile' },
+  { id: 'compose', title: 'Compose' },
+  { id: 'kubernetes', title: 'Kubernetes' },
+  { id: 'terraform', title: 'Terraform' },
+  { id: 'github-actions', title: 'GitHub Actions' },
+];
+
+const SEVERITY_CLASSES: Record<SecurityIssue['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Misconfigurations in Dockerfiles, Compose files, Kubernetes manifests, Terraform and GitHub
+ * Actions workflows, filtered by platform. Platforms with no findings have no filter.
+ */
+const InfrastructureFindings: React.FC<InfrastructureFindingsProps> = ({ securityIssues }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const findings = (securityIssues ?? []).filter(issue => issue.infrastructure);
+  if (findings.length === 0) return null;
+
+  const count = (id: Filter) => findings.filter(issue => id === 'all' || issue.infrastructure!.platform === id).length;
+  const shown = findings.filter(issue => filter === 'all' || issue.infrastructure!.platform === filter);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+        <Server className="w-6 h-6 text-orange-500 mr-3" />
+        Infrastructure Misconfigurations
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Containers running as root or privileged, images and actions not pinned to a version, containers without
+        resource limits, public S3 buckets and workflows that run pull request code with the repository's secrets.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {FILTERS.filter(({ id }) => count(id) > 0).map(({ id, title }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium ${filter === id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {title} ({count(id)})
+          </button>
+        ))}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {shown.map((issue, index) => (
+          <li key={`${issue.file}:${issue.line}:${issue.rule}:${index}`} className="py-3">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${SEVERITY_CLASSES[issue.severity]}`}>{issue.severity}</span>
+            <span className="text-sm text-gray-800">{issue.description}</span>
+            <div className="text-xs text-gray-500">
+              {issue.cwe} · <span className="font-mono">{issue.file}{issue.line ? `:${issue.line}` : ''}</span>
+              {issue.infrastructure!.resource && <> · {issue.infrastructure!.resource}</>}
+            </div>
+            {issue.codeSnippet && <pre className="mt-1 bg-gray-50 rounded px-2 py-1 text-xs text-gray-800 overflow-x-auto">{issue.codeSnippet}</pre>}
+            {issue.recommendation && <p className="mt-1 text-xs text-gray-600">{issue.recommendation}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default InfrastructureFindings;
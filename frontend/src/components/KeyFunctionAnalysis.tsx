@@ -1,6 +1,6 @@
-import { Code2, Info, Cpu, Zap, ChevronDown, ChevronUp, FileText, ArrowRightLeft } from 'lucide-react';
+import { Code2, Info, Cpu, Zap, ChevronDown, ChevronUp, FileText, ArrowRightLeft, PhoneIncoming } from 'lucide-react';
 import { KeyFunction } from '../types';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Light as SyntaxHighlighter } from 'react-syntax-highlighter';
 import ts from 'react-syntax-highlighter/dist/cjs/languages/prism/typescript';
 import { oneDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
@@ -79,10 +79,28 @@ const KeyFunctionCard: React.FC<{ func: KeyFunction }> = ({ func }) => {
                 {func.complexity ?? 0}
               </span>
             </div>
-            {func.sloc !== undefined && (
+            {func.importance !== undefined && (
+              <div className="flex justify-between items-center p-1.5 md:p-2 bg-white rounded-md border">
+                <span className="text-gray-600">Importance:</span>
+                <span className="font-bold text-indigo-600">{func.importance}</span>
+              </div>
+            )}
+            {func.cognitiveComplexity !== undefined && (
+              <div className="flex justify-between items-center p-1.5 md:p-2 bg-white rounded-md border">
+                <span className="text-gray-600">Cognitive Complexity:</span>
+                <span className="font-medium text-gray-800">{func.cognitiveComplexity}</span>
+              </div>
+            )}
+            {func.fanIn !== undefined && func.fanOut !== undefined && (
+              <div className="flex justify-between items-center p-1.5 md:p-2 bg-white rounded-md border">
+                <span className="text-gray-600">Fan-in / Fan-out:</span>
+                <span className="font-medium text-gray-800">{func.fanIn} / {func.fanOut}</span>
+              </div>
+            )}
+            {(func.linesOfCode ?? func.sloc) !== undefined && (
               <div className="flex justify-between items-center p-1.5 md:p-2 bg-white rounded-md border">
                 <span className="text-gray-600">SLOC:</span>
-                <span className="font-medium text-gray-800">{func.sloc}</span>
+                <span className="font-medium text-gray-800">{func.linesOfCode ?? func.sloc}</span>
               </div>
             )}
           </div>
@@ -101,7 +119,7 @@ const KeyFunctionCard: React.FC<{ func: KeyFunction }> = ({ func }) => {
 
         {isExpanded && (
           <div className="mt-3 md:mt-4 pt-3 md:pt-4 border-t border-gray-200 text-xs md:text-sm">
-            <div className="grid md:grid-cols-2 gap-x-6 gap-y-4">
+            <div className="grid md:grid-cols-3 gap-x-6 gap-y-4">
               <div>
                 <h6 className="font-semibold text-gray-700 mb-1.5 flex items-center">
                   <ArrowRightLeft className="w-3.5 h-3.5 mr-1.5 text-blue-500" /> Called Functions/Methods
@@ -117,6 +135,24 @@ const KeyFunctionCard: React.FC<{ func: KeyFunction }> = ({ func }) => {
                 )}
               </div>
               
+              <div>
+                <h6 className="font-semibold text-gray-700 mb-1.5 flex items-center">
+                  <PhoneIncoming className="w-3.5 h-3.5 mr-1.5 text-green-500" /> Called By
+                </h6>
+                {func.callers && func.callers.length > 0 ? (
+                  <ul className="list-disc list-inside pl-1 space-y-0.5 max-h-32 overflow-y-auto bg-white p-2 rounded-md border">
+                    {func.callers.map(caller => (
+                      <li key={`${caller.file}#${caller.name}`} className="font-mono text-gray-600 truncate" title={caller.file}>{caller.name}</li>
+                    ))}
+                    {(func.fanIn ?? 0) > func.callers.length && (
+                      <li className="text-gray-500 italic list-none">and {(func.fanIn ?? 0) - func.callers.length} more</li>
+                    )}
+                  </ul>
+                ) : (
+                  <p className="text-gray-500 italic">No callers found in the repository.</p>
+                )}
+              </div>
+
               <div>
                 <h6 className="font-semibold text-gray-700 mb-1.5 flex items-center">
                   <Zap className="w-3.5 h-3.5 mr-1.5 text-yellow-500" /> Properties
@@ -157,7 +193,14 @@ const KeyFunctionCard: React.FC<{ func: KeyFunction }> = ({ func }) => {
 };
 
 const KeyFunctionAnalysis = ({ keyFunctions }: KeyFunctionAnalysisProps) => {
-  if (!keyFunctions || keyFunctions.length === 0) {
+  // Importance weighs complexity, fan-in, fan-out and length; older reports only have complexity
+  const ranked = useMemo(
+    () => [...(keyFunctions ?? [])].sort((a, b) =>
+      (b.importance ?? 0) - (a.importance ?? 0) || (b.complexity ?? 0) - (a.complexity ?? 0)),
+    [keyFunctions]
+  );
+
+  if (ranked.length === 0) {
     return (
       <div className="bg-white rounded-2xl shadow-lg p-8 mb-8 border border-gray-100">
         <h3 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
@@ -168,8 +211,8 @@ const KeyFunctionAnalysis = ({ keyFunctions }: KeyFunctionAnalysisProps) => {
           <Info className="w-16 h-16 text-gray-300 mx-auto mb-4" />
           <h4 className="text-lg font-medium mb-2">No Key Functions Identified</h4>
           <p className="text-sm">
-            AI-powered key function analysis was not performed or did not identify specific functions.
-            This may require LLM configuration.
+            Key function analysis was not run, or no functions were found in JavaScript, TypeScript,
+            Python, Go, Java, Rust, C# or Ruby files.
           </p>
         </div>
       </div>
@@ -178,13 +221,17 @@ const KeyFunctionAnalysis = ({ keyFunctions }: KeyFunctionAnalysisProps) => {
 
   return (
     <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 mb-8 border border-gray-100">
-      <h3 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
         <Cpu className="w-7 h-7 text-purple-500 mr-3" /> {/* Updated Icon */}
         Key Function Analysis
       </h3>
+      <p className="text-gray-600 mb-6 text-sm">
+        Ranked by importance, which weighs each function's complexity, how many functions call it,
+        how many it calls and its length against the rest of the repository.
+      </p>
 
       <div className="space-y-4 md:space-y-6">
-        {keyFunctions.map((func, index) => (
+        {ranked.map((func, index) => (
           <KeyFunctionCard key={index} func={func} />
         ))}
       </div>
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { SecurityIssue } from '../types';
+
+interface SecretExposuresProps {
+  securityIssues?: SecurityIssue[];
+}
+
+type Filter = 'all' | 'head' | 'history';
+
+const FILTERS: Array<{ id: Filter; title: string }> = [
+  { id: 'all', title: 'All' },
+  { id: 'head', title: 'In the current tree' },
+  { id: 'history', title: 'Only in history' },
+];
+
+const SEVERITY_CLASSES: Record<SecurityIssue['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Secrets found in the tree or in the patches of past commits, one row per secret with the
+ * commit that introduced it. A secret deleted from the tree is still readable in history, so
+ * those rows stay until the credential is rotated.
+ */
+const SecretExposures: React.FC<SecretExposuresProps> = ({ securityIssues }) => {
+  const [filter, setFilter] = useState<Filter>('all');
+  const secrets = (securityIssues ?? []).filter(issue => issue.secret);
+  if (secrets.length === 0) return null;
+
+  const counts: Record<Filter, number> = {
+    all: secrets.length,
+    head: secrets.filter(issue => issue.secret!.presentAtHead).length,
+    history: secrets.filter(issue => !issue.secret!.presentAtHead).length,
+  };
+  const shown = secrets.filter(issue => filter === 'all' || issue.secret!.presentAtHead === (filter === 'head'));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+        <KeyRound className="w-6 h-6 text-red-500 mr-3" />
+        Exposed Secrets
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Credentials found in the current tree and in the patches of past commits. Deleting a secret does not
+        remove it from history, so every secret listed here should be revoked and rotated.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {FILTERS.map(({ id, title }) => (
+          <button
+            key={id}
+            onClick={() => setFilter(id)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium ${filter === id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            {title} ({counts[id]})
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 font-medium">Secret</th>
+              <th className="py-2 font-medium">Location</th>
+              <th className="py-2 font-medium">Introduced</th>
+              <th className="py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {shown.map(issue => {
+              const secret = issue.secret!;
+              return (
+                <tr key={secret.fingerprint} className="align-top">
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${SEVERITY_CLASSES[issue.severity]}`}>{issue.severity}</span>
+                    <span className="text-gray-800">{secret.rule}</span>
+                    <div className="text-xs text-gray-500 font-mono break-all">{secret.redacted}</div>
+                  </td>
+                  <td className="py-2 pr-4 font-mono text-xs text-gray-700 break-all">{issue.file}{issue.line ? `:${issue.line}` : ''}</td>
+                  <td className="py-2 pr-4 text-xs text-gray-700">
+                    {secret.introducedBy ? (
+                      <>
+                        <span className="font-mono">{secret.introducedBy.sha.slice(0, 7)}</span> by {secret.introducedBy.author}
+                        <div className="text-gray-500">{secret.introducedBy.date.slice(0, 10)}</div>
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Before the scanned history</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-xs">
+                    <div className={secret.presentAtHead ? 'text-red-700 font-medium' : 'text-amber-700'}>
+                      {secret.presentAtHead ? 'In the current tree' : 'Removed, still in history'}
+                    </div>
+                    {secret.verification && (
+                      <div className={secret.verification === 'active' ? 'text-red-700' : 'text-gray-500'}>
+                        {secret.verification === 'active' ? 'Verified live' : 'Rejected by provider'}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default SecretExposures;
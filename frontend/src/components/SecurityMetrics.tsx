@@ -1,111 +1,230 @@
-import React from 'react';
-import { SecurityConfig } from '../config/security.config';
-// We'll derive metrics from AnalysisResult, not pass currentMetrics directly
-import { AnalysisResult } from '../types'; 
-import { ShieldAlert, Server, Lock, FileWarning } from 'lucide-react'; // Removed ShieldCheck, Clock, ListChecks
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AnalysisResult } from '../types';
+import { ShieldAlert, Upload, Loader2 } from 'lucide-react';
 import VisualizationErrorBoundary from './VisualizationErrorBoundary';
+import { StorageService } from '../services/storageService';
 
 interface SecurityMetricsProps {
-  config: SecurityConfig; // Default config for display of rules
-  reportData: Pick<AnalysisResult, 'securityIssues' | 'metrics'>; // Pass necessary parts of reportData
+  reportData: AnalysisResult;
 }
 
-export const SecurityMetricsDisplay: React.FC<SecurityMetricsProps> = ({ config, reportData }) => {
-  const securityIssues = reportData.securityIssues || [];
-
-  const criticalIssues = securityIssues.filter(issue => issue.severity === 'critical').length;
-  const highIssues = securityIssues.filter(issue => issue.severity === 'high').length;
-  const mediumIssues = securityIssues.filter(issue => issue.severity === 'medium').length;
-  const lowIssues = securityIssues.filter(issue => issue.severity === 'low').length;
-  
-  // Derive a simple security score: lower is better, scale 0-10
-  const totalIssues = criticalIssues + highIssues + mediumIssues + lowIssues;
-  const securityScore = totalIssues > 0 ? Math.max(0, 10 - totalIssues) : 10;
-
-  const getScoreColor = (score: number): string => {
-    if (score >= 8) return 'text-green-600';
-    if (score >= 5) return 'text-yellow-600';
-    return 'text-red-600';
-  };
-  const scoreColor = getScoreColor(securityScore);
+type Kind = 'security' | 'debt' | 'performance';
+
+type MergedFindings = Pick<AnalysisResult, 'securityIssues' | 'technicalDebt' | 'sarifImports'>;
+
+// One row of the combined view, whichever analysis or tool it came from
+interface Finding {
+  kind: Kind;
+  severity: string;
+  file: string;
+  line?: number;
+  description: string;
+  recommendation?: string;
+  rule?: string;
+  cwe?: string;
+  tool: string;
+}
+
+const OWN_TOOL = 'Repo Auditor';
+
+const KINDS: Array<{ id: 'all' | Kind; title: string }> = [
+  { id: 'all', title: 'All' },
+  { id: 'security', title: 'Security' },
+  { id: 'debt', title: 'Technical debt' },
+  { id: 'performance', title: 'Performance' },
+];
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+};
+
+const SHOWN = 100;
+
+/**
+ * Security findings, technical debt and performance findings in one list, whether the
+ * analysis found them or another tool did. SARIF logs of other tools can be uploaded; their
+ * findings are merged into the report and attributed to the tool.
+ */
+export const SecurityMetricsDisplay: React.FC<SecurityMetricsProps> = ({ reportData }) => {
+  const [merged, setMerged] = useState<MergedFindings>(reportData);
+  const [kind, setKind] = useState<'all' | Kind>('all');
+  const [tool, setTool] = useState<string>('all');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => setMerged(reportData), [reportData]);
+
+  const findings = useMemo((): Finding[] => [
+    ...(merged.securityIssues ?? []).map(issue => ({
+      kind: 'security' as const,
+      severity: issue.severity,
+      file: issue.file,
+      line: issue.line,
+      description: issue.description,
+      recommendation: issue.recommendation,
+      rule: issue.rule,
+      cwe: issue.cwe,
+      tool: issue.source?.tool ?? OWN_TOOL,
+    })),
+    ...(merged.technicalDebt ?? []).map(debt => ({
+      kind: 'debt' as const,
+      severity: debt.severity,
+      file: debt.file,
+      line: debt.line,
+      description: debt.description,
+      recommendation: debt.recommendation,
+      rule: debt.rule ?? debt.type,
+      tool: debt.source?.tool ?? OWN_TOOL,
+    })),
+    ...(reportData.performanceMetrics ?? []).map(metric => ({
+      kind: 'performance' as const,
+      severity: 'low',
+      file: metric.file,
+      description: metric.function && metric.function !== 'N/A' ? `${metric.function}: ${metric.recommendation ?? ''}` : metric.recommendation ?? '',
+      tool: OWN_TOOL,
+    })),
+  ], [merged, reportData.performanceMetrics]);
 
+  const tools = [OWN_TOOL, ...new Set(findings.map(finding => finding.tool).filter(name => name !== OWN_TOOL))];
+  const ofTool = findings.filter(finding => tool === 'all' || finding.tool === tool);
+  const shown = ofTool.filter(finding => kind === 'all' || finding.kind === kind);
+  const countSeverity = (severity: string) => shown.filter(finding => finding.severity === severity).length;
+
+  const importSarif = async (file: File) => {
+    setImporting(true);
+    setImportError(null);
+    try {
+      const sarif = await file.text();
+      let response = await fetch(`/api/report/${encodeURIComponent(reportData.id)}/sarif/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sarif, name: file.name }),
+      });
+      if (response.status === 404) {
+        // The server no longer has the report; merge into the findings sent along
+        const { securityIssues, technicalDebt, sarifImports } = merged;
+        response = await fetch('/api/sarif/import', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ sarif, name: file.name, report: { securityIssues, technicalDebt, sarifImports } }),
+        });
+      }
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error || `Server responded with ${response.status}`);
+      setMerged(body);
+      await StorageService.storeAnalysisResult({ ...reportData, ...body })
+        .catch(err => console.warn('[SecurityMetrics] Could not store the report with the imported findings:', err));
+    } catch (err) {
+      console.error('[SecurityMetrics] SARIF import failed:', err);
+      setImportError(`Failed to import ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
 
   return (
     <VisualizationErrorBoundary>
-    <div className="p-6 bg-white rounded-xl shadow-lg border border-gray-100">
-      <h2 className="text-xl font-bold mb-6 text-gray-800 flex items-center">
-        <ShieldAlert className="w-6 h-6 mr-3 text-red-500" />
-        Security Posture
-      </h2>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4 mb-6">
-        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-            <h3 className="font-semibold text-sm text-gray-700 mb-2">Overall Security Score</h3>
-            <div className="flex items-center">
-                <p className={`text-4xl font-bold ${scoreColor}`}>{securityScore.toFixed(1)}</p>
-                <span className={`text-sm ml-1 ${scoreColor}`}>/ 10</span>
-            </div>
-            <p className="text-xs text-gray-500 mt-1">Based on identified issues and configuration.</p>
-        </div>
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-2">
+        <h3 className="text-2xl font-bold text-gray-900 flex items-center">
+          <ShieldAlert className="w-6 h-6 text-red-500 mr-3" />
+          All Findings
+        </h3>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".sarif,.json,application/sarif+json,application/json"
+          className="hidden"
+          onChange={event => event.target.files?.[0] && importSarif(event.target.files[0])}
+        />
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={importing}
+          className="flex items-center px-3 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-60"
+        >
+          {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+          Import SARIF
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Security issues, technical debt and performance findings of this analysis, together with those of SARIF logs from
+        other tools: logs committed to the repository and logs uploaded here.
+      </p>
+      {importError && <p className="text-sm text-red-600 mb-4">{importError}</p>}
+      {(merged.sarifImports ?? []).length > 0 && (
+        <ul className="text-xs text-gray-500 mb-4 space-y-1">
+          {merged.sarifImports!.map(sarifImport => (
+            <li key={sarifImport.origin}>
+              <span className="font-mono">{sarifImport.origin}</span> ({sarifImport.tools.join(', ')}): {sarifImport.securityIssues} security
+              {' '}and {sarifImport.technicalDebt} other findings
+            </li>
+          ))}
+        </ul>
+      )}
 
-        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
-          <h3 className="font-semibold text-sm text-gray-700 mb-2">Identified Issues</h3>
-           <div className="space-y-1 text-xs">
-                <IssuePill count={criticalIssues} label="Critical" color="bg-red-600" />
-                <IssuePill count={highIssues} label="High" color="bg-orange-500" />
-                <IssuePill count={mediumIssues} label="Medium" color="bg-yellow-500" />
-                <IssuePill count={lowIssues} label="Low" color="bg-blue-500" />
-           </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-3 mb-4">
+        <div className="flex flex-wrap gap-2">
+          {KINDS.map(({ id, title }) => (
+            <button
+              key={id}
+              onClick={() => setKind(id)}
+              className={`px-3 py-2 rounded-lg text-sm font-medium ${kind === id ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {title} ({ofTool.filter(finding => id === 'all' || finding.kind === id).length})
+            </button>
+          ))}
         </div>
+        {tools.length > 1 && (
+          <select
+            value={tool}
+            onChange={event => setTool(event.target.value)}
+            className="px-3 py-2 rounded-lg text-sm border border-gray-200 bg-white text-gray-700"
+          >
+            <option value="all">All tools</option>
+            {tools.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
       </div>
 
-      <div className="space-y-4">
-        <ConfigSection title="Rate Limiting (Default Config)" icon={<Server className="w-4 h-4 text-indigo-500"/>}>
-          <ConfigItem label="Max Requests" value={`${config.rateLimit.max} / ${config.rateLimit.windowMs / 60000} min`} />
-        </ConfigSection>
-
-        <ConfigSection title="File Upload Security (Default Config)" icon={<FileWarning className="w-4 h-4 text-indigo-500"/>}>
-          <ConfigItem label="Max File Size" value={`${(config.fileUpload.maxSize / (1024 * 1024)).toFixed(1)} MB`} />
-          <ConfigItem label="Allowed Types" value={config.fileUpload.allowedTypes.join(', ')} truncate />
-        </ConfigSection>
-
-        <ConfigSection title="Password Policy (Default Config)" icon={<Lock className="w-4 h-4 text-indigo-500"/>}>
-          <ConfigItem label="Min Length" value={config.password.minLength.toString()} />
-          <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600">
-            {config.password.requireUppercase && <span>Uppercase</span>}
-            {config.password.requireLowercase && <span>Lowercase</span>}
-            {config.password.requireNumbers && <span>Numbers</span>}
-            {config.password.requireSpecialChars && <span>Special Chars</span>}
-          </div>
-        </ConfigSection>
+      <div className="flex flex-wrap gap-4 text-xs mb-4">
+        <IssuePill count={countSeverity('critical')} label="Critical" color="bg-red-600" />
+        <IssuePill count={countSeverity('high')} label="High" color="bg-orange-500" />
+        <IssuePill count={countSeverity('medium')} label="Medium" color="bg-yellow-500" />
+        <IssuePill count={countSeverity('low')} label="Low" color="bg-blue-500" />
       </div>
 
-      <div className="mt-6 text-xs text-gray-500">
-        <p>Displayed configurations are defaults. Actual runtime security depends on implementation.</p>
-      </div>
+      {shown.length === 0 ? (
+        <p className="text-sm text-gray-500">No findings.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+            {shown.slice(0, SHOWN).map((finding, index) => (
+              <li key={`${finding.kind}:${finding.file}:${finding.line}:${finding.rule}:${index}`} className="py-3">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${SEVERITY_CLASSES[finding.severity] ?? 'bg-gray-100 text-gray-700'}`}>{finding.severity}</span>
+                <span className="text-sm text-gray-800">{finding.description}</span>
+                <div className="text-xs text-gray-500">
+                  {finding.tool}{finding.rule && <> · {finding.rule}</>}{finding.cwe && <> · {finding.cwe}</>}
+                  {' '}· <span className="font-mono">{finding.file}{finding.line ? `:${finding.line}` : ''}</span>
+                </div>
+                {finding.recommendation && <p className="mt-1 text-xs text-gray-600">{finding.recommendation}</p>}
+              </li>
+            ))}
+          </ul>
+          {shown.length > SHOWN && <p className="text-xs text-gray-500 mt-2">Showing {SHOWN} of {shown.length}.</p>}
+        </>
+      )}
     </div>
     </VisualizationErrorBoundary>
   );
 };
 
-const ConfigSection: React.FC<{title: string; icon: React.ReactNode; children: React.ReactNode}> = ({title, icon, children}) => (
-    <div className="p-3 bg-indigo-50/50 rounded-lg border border-indigo-100">
-        <h4 className="font-medium text-xs text-indigo-700 mb-2 flex items-center">
-            {icon} <span className="ml-1.5">{title}</span>
-        </h4>
-        <div className="space-y-1">{children}</div>
-    </div>
-);
-
-const ConfigItem: React.FC<{label: string; value: string; truncate?: boolean}> = ({label, value, truncate}) => (
-    <div className="flex justify-between items-center text-xs">
-        <span className="text-gray-600">{label}:</span>
-        <span className={`font-medium text-gray-800 ${truncate ? 'truncate max-w-[50%]' : ''}`} title={truncate ? value : undefined}>{value}</span>
-    </div>
-);
-
 const IssuePill: React.FC<{count:number; label:string; color:string}> = ({count, label, color}) => (
-    <div className="flex justify-between items-center">
+    <div className="flex items-center gap-2">
         <span className="text-gray-600">{label}:</span>
         <span className={`px-2 py-0.5 text-white rounded-full text-[0.65rem] font-semibold ${color}`}>{count}</span>
     </div>
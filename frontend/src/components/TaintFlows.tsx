@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, GitMerge } from 'lucide-react';
+import { SecurityIssue } from '../types';
+
+interface TaintFlowsProps {
+  securityIssues?: SecurityIssue[];
+}
+
+const SEVERITY_CLASSES: Record<SecurityIssue['severity'], string> = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800',
+  info: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Untrusted input that reaches a dangerous call, one row per flow. A row opens to the steps
+ * between the source and the sink, through the functions and files the value passes.
+ */
+const TaintFlows: React.FC<TaintFlowsProps> = ({ securityIssues }) => {
+  const [open, setOpen] = useState<number | null>(null);
+  const flows = (securityIssues ?? []).filter(issue => issue.taint);
+  if (flows.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 md:p-8 border border-gray-100">
+      <h3 className="text-2xl font-bold text-gray-900 mb-2 flex items-center">
+        <GitMerge className="w-6 h-6 text-red-500 mr-3" />
+        Untrusted Input Flows
+      </h3>
+      <p className="text-sm text-gray-600 mb-6">
+        Request fields, command-line arguments and the page URL followed through assignments, calls and imports to
+        shell commands, SQL, file paths, HTML responses and evaluated code.
+      </p>
+
+      <ul className="divide-y divide-gray-100">
+        {flows.map((issue, index) => {
+          const flow = issue.taint!;
+          const isOpen = open === index;
+          return (
+            <li key={`${issue.file}:${issue.line}:${index}`} className="py-3">
+              <button onClick={() => setOpen(isOpen ? null : index)} className="w-full flex items-start text-left">
+                {isOpen ? <ChevronDown className="w-4 h-4 mt-1 mr-2 text-gray-500" /> : <ChevronRight className="w-4 h-4 mt-1 mr-2 text-gray-500" />}
+                <div className="flex-1">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium mr-2 ${SEVERITY_CLASSES[issue.severity]}`}>{issue.severity}</span>
+                  <span className="text-sm text-gray-800">{issue.description}</span>
+                  <div className="text-xs text-gray-500">
+                    {issue.cwe} · <span className="font-mono">{issue.file}{issue.line ? `:${issue.line}` : ''}</span> · {flow.steps.length} steps
+                  </div>
+                </div>
+              </button>
+              {isOpen && (
+                <ol className="mt-3 ml-6 space-y-2 border-l-2 border-red-200 pl-4">
+                  {flow.steps.map((step, i) => (
+                    <li key={i} className="text-xs">
+                      <div className="text-gray-700">
+                        {step.description} <span className="text-gray-500 font-mono">{step.file}:{step.line}</span>
+                      </div>
+                      <pre className="mt-1 bg-gray-50 rounded px-2 py-1 text-gray-800 overflow-x-auto">{step.code}</pre>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {isOpen && issue.recommendation && <p className="mt-2 ml-6 text-xs text-gray-600">{issue.recommendation}</p>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default TaintFlows;
@@ -0,0 +1,183 @@
+// frontend/src/components/diagrams/CallGraphNeighbourhood.tsx
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { CallGraphEdge, CallGraphNeighbourhood as Neighbourhood } from '../../types';
+
+interface Props {
+  neighbourhood: Neighbourhood;
+  onSelect?: (file: string, name: string) => void;
+  width?: number;
+}
+
+interface PlacedNode {
+  id: string;
+  label: string;
+  file?: string;
+  name?: string;
+  column: number;
+  kind: 'focus' | 'function' | 'external' | 'dynamic';
+  x: number;
+  y: number;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 34;
+const ROW_GAP = 14;
+const MARGIN = 24;
+
+const NODE_COLORS: Record<PlacedNode['kind'], { fill: string; stroke: string }> = {
+  focus: { fill: '#dbeafe', stroke: '#2563eb' },
+  function: { fill: '#f9fafb', stroke: '#9ca3af' },
+  external: { fill: '#f5f3ff', stroke: '#8b5cf6' },
+  dynamic: { fill: '#fffbeb', stroke: '#d97706' },
+};
+
+const truncate = (text: string, length = 24) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+/**
+ * Lays the neighbourhood out in columns by distance from the focus: callers to the left,
+ * callees to the right. External and dynamic calls sit one column past their caller, drawn
+ * dashed since they do not reach a function in the repository.
+ */
+function layout(neighbourhood: Neighbourhood): { nodes: PlacedNode[]; edges: Array<{ from: string; to: string; edge: CallGraphEdge }> } {
+  const placed = new Map<string, Omit<PlacedNode, 'x' | 'y'>>();
+  for (const node of neighbourhood.nodes) {
+    placed.set(node.id, {
+      id: node.id,
+      label: node.name,
+      file: node.file,
+      name: node.name,
+      column: neighbourhood.distances[node.id] ?? 0,
+      kind: node.id === neighbourhood.focus ? 'focus' : 'function',
+    });
+  }
+
+  const edges: Array<{ from: string; to: string; edge: CallGraphEdge }> = [];
+  for (const edge of neighbourhood.edges) {
+    if (edge.resolution === 'internal' && edge.to) {
+      edges.push({ from: edge.from, to: edge.to, edge });
+      continue;
+    }
+    // An internal call always names its target; one without leads nowhere to draw
+    if (edge.resolution === 'internal') continue;
+    const id = `${edge.from}->${edge.callee}`;
+    placed.set(id, {
+      id,
+      label: edge.resolution === 'external' ? `${edge.callee} (${edge.module})` : edge.callee,
+      column: (neighbourhood.distances[edge.from] ?? 0) + 1,
+      kind: edge.resolution,
+    });
+    edges.push({ from: edge.from, to: id, edge });
+  }
+
+  const columns = d3.group([...placed.values()], node => node.column);
+  const minColumn = d3.min([...columns.keys()]) ?? 0;
+  const nodes: PlacedNode[] = [];
+  for (const [column, members] of columns) {
+    members.forEach((node, row) => {
+      nodes.push({
+        ...node,
+        x: MARGIN + (column - minColumn) * (NODE_WIDTH + 70),
+        y: MARGIN + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  }
+  return { nodes, edges };
+}
+
+const CallGraphNeighbourhood: React.FC<Props> = ({ neighbourhood, onSelect, width }) => {
+  const ref = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!ref.current) return;
+    const { nodes, edges } = layout(neighbourhood);
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const contentWidth = (d3.max(nodes, node => node.x) ?? 0) + NODE_WIDTH + MARGIN;
+    const contentHeight = (d3.max(nodes, node => node.y) ?? 0) + NODE_HEIGHT + MARGIN;
+
+    const svg = d3.select(ref.current)
+      .attr('width', width ?? contentWidth)
+      .attr('height', contentHeight)
+      .attr('viewBox', `0 0 ${contentWidth} ${contentHeight}`);
+    svg.selectAll('*').remove();
+
+    svg.append('defs').append('marker')
+      .attr('id', 'call-arrow')
+      .attr('viewBox', '0 -5 10 10')
+      .attr('refX', 10)
+      .attr('markerWidth', 6)
+      .attr('markerHeight', 6)
+      .attr('orient', 'auto')
+      .append('path')
+      .attr('d', 'M0,-5L10,0L0,5')
+      .attr('fill', '#6b7280');
+
+    const link = d3.linkHorizontal<{ source: [number, number]; target: [number, number] }, [number, number]>();
+    svg.append('g')
+      .selectAll('path')
+      .data(edges.filter(({ from, to }) => byId.has(from) && byId.has(to)))
+      .join('path')
+      .attr('d', ({ from, to }) => {
+        const source = byId.get(from)!;
+        const target = byId.get(to)!;
+        // Calls back to an earlier column, such as recursion, leave from the left edge
+        const forward = target.x > source.x;
+        return link({
+          source: [source.x + (forward ? NODE_WIDTH : 0), source.y + NODE_HEIGHT / 2],
+          target: [target.x + (forward ? 0 : NODE_WIDTH), target.y + NODE_HEIGHT / 2],
+        });
+      })
+      .attr('fill', 'none')
+      .attr('stroke', ({ edge }) => (edge.resolution === 'internal' ? '#6b7280' : NODE_COLORS[edge.resolution].stroke))
+      .attr('stroke-dasharray', ({ edge }) => (edge.resolution === 'internal' ? null : '4 3'))
+      .attr('stroke-width', 1.5)
+      .attr('marker-end', 'url(#call-arrow)')
+      .append('title')
+      .text(({ edge }) => `${edge.callee}, line ${edge.line}`);
+
+    const node = svg.append('g')
+      .selectAll('g')
+      .data(nodes)
+      .join('g')
+      .attr('transform', d => `translate(${d.x},${d.y})`)
+      .style('cursor', d => (d.file && d.kind !== 'focus' && onSelect ? 'pointer' : 'default'))
+      .on('click', (_event, d) => {
+        if (d.file && d.name && d.kind !== 'focus') onSelect?.(d.file, d.name);
+      });
+
+    node.append('rect')
+      .attr('width', NODE_WIDTH)
+      .attr('height', NODE_HEIGHT)
+      .attr('rx', 6)
+      .attr('fill', d => NODE_COLORS[d.kind].fill)
+      .attr('stroke', d => NODE_COLORS[d.kind].stroke)
+      .attr('stroke-width', d => (d.kind === 'focus' ? 2 : 1))
+      .attr('stroke-dasharray', d => (d.kind === 'external' || d.kind === 'dynamic' ? '4 3' : null));
+
+    node.append('text')
+      .attr('x', 8)
+      .attr('y', d => (d.file ? 14 : 21))
+      .style('font-size', '12px')
+      .style('font-weight', d => (d.kind === 'focus' ? '600' : '400'))
+      .style('fill', '#111827')
+      .text(d => truncate(d.label));
+
+    node.filter(d => !!d.file)
+      .append('text')
+      .attr('x', 8)
+      .attr('y', 27)
+      .style('font-size', '10px')
+      .style('fill', '#6b7280')
+      .text(d => truncate(d.file!.split('/').pop() || d.file!, 28));
+
+    node.append('title').text(d => (d.file ? `${d.label}\n${d.file}` : d.label));
+  }, [neighbourhood, onSelect, width]);
+
+  return (
+    <div className="w-full overflow-auto">
+      <svg ref={ref} />
+    </div>
+  );
+};
+
+export default CallGraphNeighbourhood;
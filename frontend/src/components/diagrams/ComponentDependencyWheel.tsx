@@ -49,15 +49,11 @@ const ComponentDependencyWheel = ({
       }
       
       // Fallback: Use package dependency graph
-      if (reportData.dependencyMetrics?.packageDependencyGraph?.links) {
-        return (reportData.dependencyMetrics.packageDependencyGraph.links as Array<{
-          source: string; 
-          target: string; 
-          value?: number;
-        }>).map(link => ({
+      if (reportData.dependencyMetrics?.dependencyGraph?.links) {
+        return reportData.dependencyMetrics.dependencyGraph.links.map(link => ({
           source: link.source,
           target: link.target,
-          value: link.value || 1
+          value: 1
         }));
       }
     }
@@ -4,6 +4,7 @@ import {
   Aperture, RotateCcw, Search, Filter, Info, 
   Zap, Eye, EyeOff, Play, Pause 
 } from 'lucide-react';
+import { PackageDependencyGraph } from '../../types';
 
 // Community detection algorithm (simplified) hoisted above component
 function detectCommunities(nodes: import('d3').SimulationNodeDatum & { id: string }[], links: import('d3').SimulationLinkDatum<any>[] ): Map<string, number> {
@@ -73,13 +74,16 @@ interface AdvancedDependencyGraphProps {
   width?: number;
   height?: number;
   title?: string;
+  // Set when the nodes are packages, to explain how each one is pulled in
+  packageGraph?: PackageDependencyGraph;
 }
 
 const AdvancedDependencyGraph: React.FC<AdvancedDependencyGraphProps> = ({ 
   dependencies = [], 
   width = 1200, 
   height = 800,
-  title = "Advanced Dependency Graph"
+  title = "Advanced Dependency Graph",
+  packageGraph
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
@@ -107,6 +111,38 @@ const AdvancedDependencyGraph: React.FC<AdvancedDependencyGraphProps> = ({
     config: '#ef4444'
   }), []);
 
+  const packageNodes = useMemo(
+    () => new Map((packageGraph?.nodes ?? []).map(node => [node.id, node])),
+    [packageGraph]
+  );
+
+  // Chain from a manifest to the selected package, following each package's shortest route
+  const selectedPackage = useMemo(() => {
+    const node = selectedNode ? packageNodes.get(selectedNode) : undefined;
+    if (!node || !packageGraph) return null;
+    const chain: string[] = [];
+    let current: typeof node | undefined = node;
+    while (current?.via) {
+      chain.unshift(current.id);
+      if (!packageNodes.has(current.via)) {
+        chain.unshift(current.via);
+        break;
+      }
+      current = packageNodes.get(current.via);
+    }
+    return {
+      node,
+      chain: chain.map(id => {
+        const step = packageNodes.get(id);
+        return step ? `${step.name}@${step.version}` : id;
+      }),
+      dependents: packageGraph.links.filter(link => link.target === node.id).length,
+      otherVersions: packageGraph.duplicates
+        .find(d => d.ecosystem === node.ecosystem && d.name === node.name)
+        ?.versions.filter(version => version !== node.version) ?? []
+    };
+  }, [selectedNode, packageNodes, packageGraph]);
+
   // Process and enhance data
   const processedData = useMemo(() => {
     if (!dependencies || dependencies.length === 0) return { nodes: [], links: [] };
@@ -306,8 +342,9 @@ const AdvancedDependencyGraph: React.FC<AdvancedDependencyGraphProps> = ({
         .style("filter", d.highlighted ? "url(#glow)" : "none");
       
       // Node labels
+      const label = packageNodes.get(d.id)?.name ?? d.id;
       group.append("text")
-        .text(d.id.length > 12 ? d.id.substring(0, 10) + "..." : d.id)
+        .text(label.length > 12 ? label.substring(0, 10) + "..." : label)
         .attr("dy", d.size + 16)
         .attr("text-anchor", "middle")
         .attr("font-size", "10px")
@@ -401,7 +438,7 @@ const AdvancedDependencyGraph: React.FC<AdvancedDependencyGraphProps> = ({
       simulation.stop();
     };
 
-  }, [processedData, createSimulation, selectedNode, showClusters, colorSchemes, linkColors]);
+  }, [processedData, createSimulation, selectedNode, showClusters, colorSchemes, linkColors, packageNodes]);
 
   // Calculate metrics
   const metrics = useMemo(() => {
@@ -544,6 +581,35 @@ const AdvancedDependencyGraph: React.FC<AdvancedDependencyGraphProps> = ({
             <h4 className="font-semibold text-gray-900 mb-2">Node Details</h4>
             <div className="text-sm space-y-1">
               <div><span className="font-medium">ID:</span> {selectedNode}</div>
+              {selectedPackage && (
+                <>
+                  <div>
+                    <span className="font-medium">Depth:</span>{' '}
+                    {selectedPackage.node.depth === undefined
+                      ? 'unknown'
+                      : selectedPackage.node.depth === 1 ? 'direct dependency' : selectedPackage.node.depth}
+                    {selectedPackage.node.dev && ' (development only)'}
+                  </div>
+                  <div><span className="font-medium">Required by:</span> {selectedPackage.dependents}</div>
+                  {selectedPackage.otherVersions.length > 0 && (
+                    <div><span className="font-medium">Also installed:</span> {selectedPackage.otherVersions.join(', ')}</div>
+                  )}
+                  <div className="pt-1">
+                    <div className="font-medium">Why is this package here?</div>
+                    {selectedPackage.chain.length > 0 ? (
+                      <ol className="mt-1 space-y-0.5 text-xs text-gray-700">
+                        {selectedPackage.chain.map((step, index) => (
+                          <li key={`${step}-${index}`} style={{ paddingLeft: index * 8 }}>
+                            {index > 0 && '→ '}{step}
+                          </li>
+                        ))}
+                      </ol>
+                    ) : (
+                      <div className="text-xs text-gray-500">The lockfile does not record which package requires it.</div>
+                    )}
+                  </div>
+                </>
+              )}
               {(() => {
                 const node = processedData.nodes.find(n => n.id === selectedNode);
                 return node ? (
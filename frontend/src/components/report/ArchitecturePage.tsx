@@ -8,13 +8,24 @@ import {
   Shield,
   Target,
   Brain, 
-  AlertTriangle
+  AlertTriangle,
+  Scale
 } from 'lucide-react';
 import SystemArchitectureView from '../SystemArchitectureView';
-import { AnalysisResult, FileInfo } from '../../types'; // Changed ExtendedFileInfo to FileInfo
+import { AnalysisResult, FileInfo, DependencyLicense, LicenseCategory } from '../../types'; // Changed ExtendedFileInfo to FileInfo
 import { defaultDependencyConfig } from '../../config/dependencies.config';
 import { defaultSecurityConfig } from '../../config/security.config';
 import { DependencyMetricsDisplay } from '../DependencyMetrics';
+import { CodeQualityMetricsDisplay } from '../CodeQualityMetrics';
+import { SecurityMetricsDisplay } from '../SecurityMetrics';
+import CodeHeatmap from '../CodeHeatmap';
+import KeyFunctionAnalysis from '../KeyFunctionAnalysis';
+import ArchitectureRules from '../ArchitectureRules';
+import DeadCodeReport from '../DeadCodeReport';
+import CloneViewer from '../CloneViewer';
+import SecretExposures from '../SecretExposures';
+import TaintFlows from '../TaintFlows';
+import InfrastructureFindings from '../InfrastructureFindings';
 
 
 interface ComplexityData {
@@ -28,6 +39,23 @@ interface ComplexityData {
   type?: string; 
 }
 
+const LICENSE_CATEGORY_COLORS: Record<LicenseCategory, string> = {
+  permissive: '#10B981',
+  'weak-copyleft': '#FBBF24',
+  'strong-copyleft': '#F59E0B',
+  'network-copyleft': '#DC2626',
+  proprietary: '#8B5CF6',
+  unknown: '#9CA3AF',
+};
+
+const LICENSE_STATUS_ORDER: Record<DependencyLicense['status'], number> = { denied: 0, review: 1, allowed: 2 };
+
+const LICENSE_STATUS_STYLES: Record<DependencyLicense['status'], string> = {
+  denied: 'bg-red-100 text-red-800',
+  review: 'bg-yellow-100 text-yellow-800',
+  allowed: 'bg-green-100 text-green-800',
+};
+
 interface ArchitecturePageProps {
   analysisResult: AnalysisResult;
 }
@@ -36,7 +64,9 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
   const [selectedDiagram, setSelectedDiagram] = useState<string>('architecture');
   const [llmConfig, setLlmConfig] = useState<import('../../types').LLMConfig | null>(null);
   
-  const { hotspots, architectureAnalysis, systemArchitecture, metrics, files = [], securityIssues, dependencyMetrics } = reportData;
+  const [showAllowedLicenses, setShowAllowedLicenses] = useState(false);
+  
+  const { hotspots, keyFunctions, architectureAnalysis, systemArchitecture, metrics, qualityMetrics, files = [], securityIssues, dependencyMetrics, licenseCompliance } = reportData;
   const archAnalysisData = architectureAnalysis || systemArchitecture;
 
   // Get LLM config from localStorage
@@ -72,10 +102,11 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
 
   const isAnalysisUnavailable = !archSummary || archSummary.includes('LLM service unavailable') || archSummary.includes('quota exhaustion') || archSummary.length < 100;
 
+  // Cyclomatic complexity of the whole file
   const getComplexityColor = (complexity: number) => {
-    if (complexity >= 80) return '#EF4444'; 
-    if (complexity >= 60) return '#F59E0B'; 
-    if (complexity >= 40) return '#10B981'; 
+    if (complexity >= 50) return '#EF4444'; 
+    if (complexity >= 20) return '#F59E0B'; 
+    if (complexity >= 10) return '#10B981'; 
     return '#3B82F6'; 
   };
 
@@ -92,6 +123,12 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
       description: 'Security vulnerabilities by severity',
       icon: <Shield />
     },
+    {
+      id: 'licenses',
+      title: 'License Compliance',
+      description: 'Dependency licenses against the license policy',
+      icon: <Scale />
+    },
     {
       id: 'complexity',
       title: 'Complexity Scatter Plot',
@@ -110,7 +147,7 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
               <ScatterChart margin={{ top: 20, right: 30, bottom: 20, left: 20 }}>
                 <CartesianGrid />
                 <XAxis type="number" dataKey="size" name="Size (bytes)" unit="b" tick={{ fontSize: 10 }} />
-                <YAxis type="number" dataKey="complexity" name="Complexity Score" unit="%" tick={{ fontSize: 10 }} />
+                <YAxis type="number" dataKey="complexity" name="Cyclomatic Complexity" tick={{ fontSize: 10 }} />
                 <ZAxis type="number" dataKey="commitCount" range={[50, 500]} name="Commit Count" unit=" commits" />
                 <RechartsTooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
                 <Legend />
@@ -173,6 +210,64 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
                 </BarChart>
               </ResponsiveContainer>
             </div>
+
+            {dependencyMetrics?.vulnerabilities && dependencyMetrics.vulnerabilities.length > 0 && (
+              <div className="bg-white rounded-lg p-6 border border-gray-200 overflow-x-auto">
+                <h4 className="text-lg font-semibold text-gray-900 mb-4">Vulnerable Dependencies</h4>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Advisory</th>
+                      <th className="py-2 pr-4 font-medium">Package</th>
+                      <th className="py-2 pr-4 font-medium">Severity</th>
+                      <th className="py-2 pr-4 font-medium">Affected</th>
+                      <th className="py-2 font-medium">Fixed in</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dependencyMetrics.vulnerabilities.map(vulnerability => (
+                      <tr key={`${vulnerability.id}-${vulnerability.ecosystem}-${vulnerability.packageName}@${vulnerability.version}`} className="border-b border-gray-100 align-top">
+                        <td className="py-2 pr-4">
+                          {vulnerability.url ? (
+                            <a href={vulnerability.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline font-mono">
+                              {vulnerability.id}
+                            </a>
+                          ) : (
+                            <span className="font-mono">{vulnerability.id}</span>
+                          )}
+                          {vulnerability.aliases.length > 0 && (
+                            <div className="text-xs text-gray-500">{vulnerability.aliases.join(', ')}</div>
+                          )}
+                          <div className="text-xs text-gray-600">{vulnerability.summary}</div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="font-mono">{vulnerability.packageName}@{vulnerability.version}</div>
+                          <div className="text-xs text-gray-500">
+                            {vulnerability.ecosystem}
+                            {vulnerability.direct === false && ' · transitive'}
+                            {vulnerability.manifestPath && <> · <span className="font-mono">{vulnerability.manifestPath}</span></>}
+                          </div>
+                          {vulnerability.dependencyPath && vulnerability.dependencyPath.length > 2 && (
+                            <div className="text-xs text-gray-500">
+                              via{' '}
+                              <span className="font-mono">
+                                {vulnerability.dependencyPath.slice(1, -1).map(id => id.slice(vulnerability.ecosystem.length + 1)).join(' → ')}
+                              </span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 capitalize" title={vulnerability.cvssVector}>
+                          {vulnerability.severity}
+                          {vulnerability.cvssScore !== undefined && <span className="text-gray-500"> ({vulnerability.cvssScore.toFixed(1)})</span>}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs">{vulnerability.affectedRanges.join(', ') || 'n/a'}</td>
+                        <td className="py-2 font-mono text-xs">{vulnerability.fixedVersions.join(', ') || 'No fix available'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
             
             {/* Add dependency metrics display if available */}
             {dependencyMetrics && (
@@ -194,6 +289,121 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
             )}
           </div>        );
       }
+      case 'licenses': {
+        if (!licenseCompliance || licenseCompliance.packages.length === 0) {
+          return (
+            <div className="text-center p-8">
+              <Scale className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h4 className="text-lg font-semibold text-gray-600 mb-2">No Licenses Checked</h4>
+              <p className="text-gray-500">No dependencies were found to check against the license policy.</p>
+            </div>
+          );
+        }
+        const { summary, policy, distribution } = licenseCompliance;
+        const licensePackages = [...licenseCompliance.packages]
+          .filter(pkg => showAllowedLicenses || pkg.status !== 'allowed')
+          .sort((a, b) => Number(b.checked) - Number(a.checked)
+            || LICENSE_STATUS_ORDER[a.status] - LICENSE_STATUS_ORDER[b.status]
+            || a.packageName.localeCompare(b.packageName));
+
+        return (
+          <div className="w-full space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Allowed', count: summary.allowed, color: 'text-green-600' },
+                { label: 'Needs review', count: summary.review, color: 'text-yellow-600' },
+                { label: 'Denied', count: summary.denied, color: 'text-red-600' },
+                { label: 'Unknown license', count: summary.unknown, color: 'text-gray-600' },
+              ].map(({ label, count, color }) => (
+                <div key={label} className="bg-white rounded-lg p-4 border border-gray-200">
+                  <div className={`text-3xl font-bold ${color}`}>{count}</div>
+                  <div className="text-sm text-gray-500">{label}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-lg p-6 border border-gray-200">
+              <h4 className="text-lg font-semibold text-gray-900 mb-4">License Distribution</h4>
+              <ResponsiveContainer width="100%" height={Math.max(150, Math.min(distribution.length, 12) * 32)}>
+                <BarChart data={distribution.slice(0, 12)} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis type="category" dataKey="license" width={180} tick={{ fontSize: 11 }} />
+                  <RechartsTooltip />
+                  <Bar dataKey="count" name="Packages">
+                    {distribution.slice(0, 12).map(entry => (
+                      <Cell key={entry.license} fill={LICENSE_CATEGORY_COLORS[entry.category]} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+              <div className="mt-3 text-xs text-gray-600 space-y-1">
+                <div><span className="font-medium">Allowed:</span> {policy.allowedLicenses.join(', ') || 'any license without copyleft terms'}</div>
+                {policy.deniedLicenses.length > 0 && <div><span className="font-medium">Denied:</span> {policy.deniedLicenses.join(', ')}</div>}
+                <div>
+                  <span className="font-medium">Copyleft:</span> weak {policy.copyleft.weak}, strong {policy.copyleft.strong}, network {policy.copyleft.network}
+                  {' · '}<span className="font-medium">Unknown licenses:</span> {policy.unknownLicenses}
+                  {!policy.checkDevDependencyLicenses && ' · development dependencies are not checked'}
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-white rounded-lg p-6 border border-gray-200 overflow-x-auto">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="text-lg font-semibold text-gray-900">Dependency Licenses</h4>
+                <label className="flex items-center text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={showAllowedLicenses}
+                    onChange={e => setShowAllowedLicenses(e.target.checked)}
+                  />
+                  Show allowed
+                </label>
+              </div>
+              {licensePackages.length === 0 ? (
+                <p className="text-sm text-gray-500">Every checked dependency has an allowed license.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">Package</th>
+                      <th className="py-2 pr-4 font-medium">License</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 font-medium">Reason</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {licensePackages.map(pkg => (
+                      <tr key={`${pkg.ecosystem}-${pkg.packageName}@${pkg.version}`} className={`border-b border-gray-100 align-top ${pkg.checked ? '' : 'opacity-60'}`}>
+                        <td className="py-2 pr-4">
+                          <div className="font-mono">{pkg.packageName}{pkg.version && `@${pkg.version}`}</div>
+                          <div className="text-xs text-gray-500">
+                            {pkg.ecosystem}
+                            {!pkg.direct && ' · transitive'}
+                            {pkg.dev && ' · dev'}
+                            {' · '}<span className="font-mono">{pkg.manifestPath}</span>
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="font-mono text-xs">{pkg.license ?? 'Unknown'}</div>
+                          <div className="text-xs text-gray-500">{pkg.category.replace('-', ' ')}</div>
+                          {pkg.licenseSource && <div className="text-xs text-gray-400 font-mono" title="Read from vendored package metadata">{pkg.licenseSource}</div>}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${LICENSE_STATUS_STYLES[pkg.status]}`}>{pkg.status}</span>
+                          {!pkg.checked && <div className="text-xs text-gray-400 mt-1">not checked</div>}
+                        </td>
+                        <td className="py-2 text-xs text-gray-600">{pkg.reason}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        );
+      }
       default:
         return <div className="p-8 text-center text-gray-500">Select a diagram to view.</div>;
     }
@@ -239,7 +449,7 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
                     </li>
                     <li className="flex items-start">
                       <span className="w-3 h-3 bg-white rounded-full mt-2 mr-3 flex-shrink-0 animate-bounce-slow"></span>
-                      <span>Average Complexity: {files.length > 0 ? (files.reduce((sum, file) => sum + (file.complexity || 0), 0) / files.length).toFixed(2) : 'N/A'}%</span>
+                      <span>Average Complexity: {files.length > 0 ? (files.reduce((sum, file) => sum + (file.complexity || 0), 0) / files.length).toFixed(2) : 'N/A'}</span>
                     </li>
                   </ul>
                   <p>You can also view additional architecture details and diagrams below.</p>
@@ -280,52 +490,26 @@ const ArchitecturePage: React.FC<ArchitecturePageProps> = ({ analysisResult: rep
         </div>
       </div>
 
+      <ArchitectureRules analysisResult={reportData} />
+
+      <DeadCodeReport technicalDebt={reportData.technicalDebt} />
+
+      <CloneViewer duplication={reportData.duplication} />
+
+      <CodeHeatmap hotspots={hotspots} qualityMetrics={qualityMetrics} />
+
+      <KeyFunctionAnalysis keyFunctions={keyFunctions} />
+
+      <SecretExposures securityIssues={securityIssues} />
+
+      <TaintFlows securityIssues={securityIssues} />
+
+      <InfrastructureFindings securityIssues={securityIssues} />
+
+      <SecurityMetricsDisplay reportData={reportData} />
+
       <div className="grid lg:grid-cols-2 gap-8">
-        <div className="bg-white rounded-2xl shadow-lg p-8 border border-gray-100">
-          <h3 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
-            <Target className="w-6 h-6 text-red-500 mr-3" />
-            Code Hotspots
-          </h3>
-          {(hotspots && hotspots.length > 0) ? (
-            <div className="space-y-4 max-h-96 overflow-y-auto pr-2">
-              {hotspots.slice(0, 10).map((hotspot, index) => ( 
-                <div 
-                  key={`${hotspot.file}-${index}`}
-                  className="p-4 border border-gray-200 rounded-lg hover:shadow-md transition-shadow duration-200"
-                >
-                  <div className="flex items-center justify-between mb-1">
-                    <h4 className="font-semibold text-gray-800 text-sm truncate" title={hotspot.path}>
-                      {hotspot.file}
-                    </h4>
-                    <div className={`px-2 py-0.5 rounded-full text-xs font-medium ${
-                      hotspot.complexity >= 80 ? 'bg-red-100 text-red-700' :
-                      hotspot.complexity >= 60 ? 'bg-orange-100 text-orange-700' :
-                      'bg-yellow-100 text-yellow-700'
-                    }`}>
-                      {hotspot.complexity}% complex
-                    </div>
-                  </div>
-                  <div className="text-xs text-gray-500 mb-2">
-                    Path: <span className="italic truncate block" title={hotspot.path}>{hotspot.path}</span>
-                  </div>
-                  <div className="text-xs text-gray-600">
-                    <span className="font-medium">{hotspot.changes}</span> recent changes, Risk: <span className={`font-medium ${hotspot.riskLevel === 'critical' || hotspot.riskLevel === 'high' ? 'text-red-600' : 'text-yellow-600'}`}>{hotspot.riskLevel}</span>
-                  </div>
-                  {hotspot.explanation && (
-                    <p className="text-xs text-gray-700 mt-2 leading-relaxed line-clamp-2" title={hotspot.explanation}>
-                      {hotspot.explanation}
-                    </p>
-                  )}
-                </div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-8 text-gray-500">
-              <Target className="w-12 h-12 text-gray-300 mx-auto mb-3" />
-              <p>No significant hotspots identified or data not available.</p>
-            </div>
-          )}
-        </div>
+        <CodeQualityMetricsDisplay metrics={metrics} qualityMetrics={qualityMetrics} />
 
         <div className="bg-white rounded-2xl shadow-lg p-8 border border-gray-100">
           <h3 className="text-2xl font-bold text-gray-900 mb-6 flex items-center">
@@ -377,7 +561,7 @@ const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload
         <p className="font-bold text-gray-800 mb-1">{data.name}</p>
         <p className="text-gray-600">Path: {data.path}</p>
         <p className="text-gray-600">Size: {data.size.toLocaleString()} bytes</p>
-        <p className="text-gray-600">Complexity: {data.complexity}%</p>
+        <p className="text-gray-600">Complexity: {data.complexity}</p>
         <p className="text-gray-600">Commits: {data.commitCount || 'N/A'}</p>
         <p className="text-gray-600">Type: {data.type}</p>
       </div>
@@ -401,7 +585,7 @@ const CustomTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload
 //       <div className="p-3 bg-white rounded-lg border shadow-lg text-xs max-w-xs">
 //         <p className="font-bold text-gray-800 mb-1">{data.name}</p>
 //         <p className="text-gray-600 truncate" title={data.path}>Path: {data.path}</p>
-//         <p className="text-gray-600">Complexity: {data.complexity}%</p>
+//         <p className="text-gray-600">Complexity: {data.complexity}</p>
 //         <p className="text-gray-600">Changes: {data.changes}</p>
 //         <p className="text-gray-600">Size (LoC): {data.size.toLocaleString()}</p>
 //         <p className="text-gray-600">Risk: <span style={{color: getComplexityColor(data.complexity)}}>{data.riskLevel}</span></p>
@@ -0,0 +1,202 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { GitBranch, Loader2, Search } from 'lucide-react';
+import { AnalysisResult, CallGraphNeighbourhood as Neighbourhood } from '../../types';
+import CallGraphNeighbourhood from '../diagrams/CallGraphNeighbourhood';
+import VisualizationErrorBoundary from '../VisualizationErrorBoundary';
+import ErrorDisplay from '../ui/ErrorDisplay';
+
+interface CallGraphPageProps {
+  analysisResult: AnalysisResult;
+}
+
+interface SelectedFunction {
+  file: string;
+  name: string;
+}
+
+const MODULE_NODE = '<module>';
+const SEARCH_RESULTS = 20;
+
+async function fetchNeighbourhood(report: AnalysisResult, selected: SelectedFunction, depth: number): Promise<Neighbourhood> {
+  const query = new URLSearchParams({ file: selected.file, function: selected.name, depth: String(depth) });
+  let response = await fetch(`/api/report/${encodeURIComponent(report.id)}/call-graph?${query}`);
+  if (response.status === 404) {
+    // The server may no longer have the report; send the call graph along
+    response = await fetch('/api/call-graph', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ report: { callGraph: report.callGraph }, file: selected.file, function: selected.name, depth }),
+    });
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Server responded with ${response.status}`);
+  }
+  return response.json();
+}
+
+const CallGraphPage = ({ analysisResult }: CallGraphPageProps) => {
+  const { callGraph, keyFunctions } = analysisResult;
+  const [selected, setSelected] = useState<SelectedFunction | null>(null);
+  const [depth, setDepth] = useState(1);
+  const [search, setSearch] = useState('');
+  const [neighbourhood, setNeighbourhood] = useState<Neighbourhood | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Key functions that are in the graph, most important first
+  const keyFunctionNodes = useMemo(() => {
+    const ids = new Set((callGraph?.nodes ?? []).map(node => node.id));
+    return [...(keyFunctions ?? [])]
+      .filter(fn => ids.has(`${fn.file}#${fn.name}`))
+      .sort((a, b) => (b.importance ?? 0) - (a.importance ?? 0));
+  }, [callGraph, keyFunctions]);
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+    return (callGraph?.nodes ?? [])
+      .filter(node => node.name !== MODULE_NODE && `${node.file}#${node.name}`.toLowerCase().includes(term))
+      .slice(0, SEARCH_RESULTS);
+  }, [callGraph, search]);
+
+  useEffect(() => {
+    if (!selected && keyFunctionNodes.length > 0) {
+      setSelected({ file: keyFunctionNodes[0].file, name: keyFunctionNodes[0].name });
+    }
+  }, [selected, keyFunctionNodes]);
+
+  useEffect(() => {
+    if (!selected || !callGraph) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchNeighbourhood(analysisResult, selected, depth)
+      .then(result => { if (!cancelled) setNeighbourhood(result); })
+      .catch(err => {
+        if (cancelled) return;
+        setNeighbourhood(null);
+        setError(err instanceof Error ? err.message : 'Failed to load the call graph');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [analysisResult, callGraph, selected, depth]);
+
+  const handleSelect = useCallback((file: string, name: string) => {
+    setSelected({ file, name });
+    setSearch('');
+  }, []);
+
+  if (!callGraph || callGraph.nodes.length === 0) {
+    return (
+      <div className="bg-white rounded-lg shadow p-6 text-center text-gray-500">
+        <GitBranch className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+        <p>No call graph is available. It is built for JavaScript and TypeScript files when key function analysis is enabled.</p>
+      </div>
+    );
+  }
+
+  const selectedId = selected ? `${selected.file}#${selected.name}` : '';
+  const edges = neighbourhood?.edges ?? [];
+  const callers = edges.filter(edge => edge.to === neighbourhood?.focus);
+  const callees = edges.filter(edge => edge.from === neighbourhood?.focus);
+  const dynamicCalls = callees.filter(edge => edge.resolution === 'dynamic').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center mb-4">
+          <GitBranch className="w-6 h-6 text-blue-600 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-900">Call Graph</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Callers of the selected function are on the left and the functions it calls on the right.
+          Dashed boxes are calls to packages and calls whose target could not be determined statically.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="block text-sm text-gray-700">
+            Key function
+            <select
+              className="mt-1 block w-full border border-gray-300 rounded-md p-2 text-sm"
+              value={keyFunctionNodes.some(fn => `${fn.file}#${fn.name}` === selectedId) ? selectedId : ''}
+              onChange={e => {
+                const fn = keyFunctionNodes.find(item => `${item.file}#${item.name}` === e.target.value);
+                if (fn) handleSelect(fn.file, fn.name);
+              }}
+            >
+              <option value="" disabled>Select a function</option>
+              {keyFunctionNodes.map(fn => (
+                <option key={`${fn.file}#${fn.name}`} value={`${fn.file}#${fn.name}`}>
+                  {fn.name} ({fn.file})
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="relative text-sm text-gray-700">
+            Any function
+            <div className="mt-1 flex items-center border border-gray-300 rounded-md px-2">
+              <Search className="w-4 h-4 text-gray-400" />
+              <input
+                className="w-full p-2 outline-none"
+                placeholder="Search by name or file"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+              />
+            </div>
+            {searchResults.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow max-h-64 overflow-auto">
+                {searchResults.map(node => (
+                  <li key={node.id}>
+                    <button
+                      className="w-full text-left px-3 py-2 hover:bg-gray-100"
+                      onClick={() => handleSelect(node.file, node.name)}
+                    >
+                      <span className="font-medium">{node.name}</span>
+                      <span className="block text-xs text-gray-500">{node.file}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <label className="block text-sm text-gray-700">
+            Depth
+            <select
+              className="mt-1 block w-full border border-gray-300 rounded-md p-2 text-sm"
+              value={depth}
+              onChange={e => setDepth(Number(e.target.value))}
+            >
+              {[1, 2, 3].map(value => (
+                <option key={value} value={value}>{value} {value === 1 ? 'call' : 'calls'} away</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        {loading && (
+          <div className="flex items-center justify-center h-32 text-gray-500">
+            <Loader2 className="w-6 h-6 animate-spin mr-2" /> Loading call graph…
+          </div>
+        )}
+        {!loading && error && <ErrorDisplay title="Call graph unavailable" message={error} type="warning" />}
+        {!loading && !error && neighbourhood && (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-4">
+              <span>{callers.length} direct {callers.length === 1 ? 'caller' : 'callers'}</span>
+              <span>{callees.filter(edge => edge.resolution === 'internal').length} functions called in the repository</span>
+              <span>{callees.filter(edge => edge.resolution === 'external').length} package calls</span>
+              <span>{dynamicCalls} unresolved {dynamicCalls === 1 ? 'call' : 'calls'}</span>
+            </div>
+            <VisualizationErrorBoundary>
+              <CallGraphNeighbourhood neighbourhood={neighbourhood} onSelect={handleSelect} />
+            </VisualizationErrorBoundary>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CallGraphPage;
@@ -12,6 +12,7 @@ import {
   GitMerge, 
   ListChecks,
   Share2, // Added for Dependency Graph
+  Package,
   ExternalLink
 } from 'lucide-react';
 import { AnalysisResult } from '../../types';
@@ -190,6 +191,45 @@ const DiagramsPage = ({ analysisResult: reportData }: DiagramsPageProps) => {
     });    return root;
   }, [reportData.apiEndpoints, files]);
 
+  // Packages near the manifests, plus every package on the way to a vulnerable one
+  const preparedPackageGraphData = useMemo(() => {
+    const graph = reportData.dependencyMetrics?.dependencyGraph;
+    if (!graph || graph.links.length === 0) return null;
+
+    const MAX_PACKAGES = 150;
+    const vulnerablePaths = (reportData.dependencyMetrics?.vulnerabilities ?? [])
+      .map(v => v.dependencyPath)
+      .filter((path): path is string[] => !!path);
+    const vulnerable = new Set(vulnerablePaths.map(path => path[path.length - 1]));
+    const onVulnerablePath = new Set(vulnerablePaths.flat());
+    const shown = new Set([
+      ...graph.projects,
+      ...onVulnerablePath,
+      ...graph.nodes
+        .filter(n => n.depth !== undefined && n.depth <= 2)
+        .sort((a, b) => a.depth! - b.depth!)
+        .slice(0, MAX_PACKAGES)
+        .map(n => n.id)
+    ]);
+    const nodes = new Map(graph.nodes.map(n => [n.id, n]));
+
+    const links = graph.links
+      .filter(link => shown.has(link.source) && shown.has(link.target))
+      .map(link => {
+        const target = nodes.get(link.target);
+        return {
+          source: link.source,
+          target: link.target,
+          value: 1,
+          type: 'reference',
+          category: (vulnerable.has(link.target) ? 'api' : target?.dev ? 'test' : target?.depth === 1 ? 'component' : 'utility') as
+            'api' | 'test' | 'component' | 'utility',
+          critical: onVulnerablePath.has(link.source) && onVulnerablePath.has(link.target)
+        };
+      });
+    return { graph, links, isTrimmed: shown.size < graph.nodes.length + graph.projects.length };
+  }, [reportData.dependencyMetrics]);
+
   const preparedDependencyGraphData = useMemo(() => {
     // Use dependencyGraph for internal module dependencies, not dependencies which contains package.json deps
     const depData = reportData.dependencyGraph; 
@@ -322,6 +362,7 @@ const DiagramsPage = ({ analysisResult: reportData }: DiagramsPageProps) => {
     { id: 'data-pipeline', title: 'Data Transformation Sankey', description: 'Visualizes data flow and transformations within the application.', icon: <Shuffle /> , category: 'Data Flow'},
     { id: 'pr-lifecycle', title: 'PR Lifecycle Gantt', description: 'Shows typical phases and durations of pull requests.', icon: <GitBranch /> , category: 'Process'},
     { id: 'dependency-graph', title: 'Project Dependency Graph', description: 'Visualizes the overall project dependencies and their relationships.', icon: <Share2 /> , category: 'Architecture'},
+    { id: 'package-graph', title: 'Package Dependency Graph', description: 'Third-party packages from the lockfiles, and the chain of packages that pulls each one in.', icon: <Package /> , category: 'Architecture'},
     // { id: 'dependency-graph-3d', title: '3D Dependency Graph', description: 'Interactive 3D visualization of project dependencies with force-directed layout.', icon: <Network /> , category: 'Architecture'}
   ];
   
@@ -453,6 +494,28 @@ const DiagramsPage = ({ analysisResult: reportData }: DiagramsPageProps) => {
           </VisualizationErrorBoundary>
         );
       }
+      case 'package-graph': {
+        return (
+          <VisualizationErrorBoundary>
+            {preparedPackageGraphData?.isTrimmed && (
+              <div className="mb-4 p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                Showing {formatLargeNumber(new Set(preparedPackageGraphData.links.map(l => l.target)).size)} of{' '}
+                {formatLargeNumber(preparedPackageGraphData.graph.nodes.length)} packages: direct dependencies, their dependencies,
+                and every package leading to a vulnerable one.
+              </div>
+            )}
+            {preparedPackageGraphData ?
+              <EnhancedDependencyGraph 
+                dependencies={preparedPackageGraphData.links} 
+                packageGraph={preparedPackageGraphData.graph}
+                width={1200} 
+                height={800}
+                title="Package Dependency Graph"
+              /> :
+              <EmptyState message="No lockfile dependencies available for the Package Dependency Graph." />}
+          </VisualizationErrorBoundary>
+        );
+      }
       // Commented out due to missing module
       // case 'dependency-graph-3d':
       //   return (
@@ -23,6 +23,9 @@ const OnboardingPage = ({ analysisResult: reportData }: OnboardingPageProps) =>
   const { basicInfo, languages, files } = reportData;
 
   const primaryLanguage = useMemo(() => basicInfo.language || 'N/A', [basicInfo.language]);
+  // Reports from GitLab, Gitea, Bitbucket Server or local repositories carry their own URL
+  const repoWebUrl = basicInfo.url || `https://github.com/${basicInfo.fullName}`;
+  const isGitHub = repoWebUrl.startsWith('https://github.com/');
   
   const languagePercentages = useMemo(() => {
     const totalBytes = Object.values(languages || {}).reduce((sum, bytes) => sum + bytes, 0);
@@ -88,7 +91,7 @@ const OnboardingPage = ({ analysisResult: reportData }: OnboardingPageProps) =>
 
   const gettingStartedSteps = useMemo(() => {
     const steps = [];
-    steps.push({ title: 'Clone Repository', command: `git clone https://github.com/${basicInfo.fullName}.git`, description: 'Get the source code.' });
+    steps.push({ title: 'Clone Repository', command: `git clone ${repoWebUrl}${isGitHub ? '.git' : ''}`, description: 'Get the source code.' });
     steps.push({ title: 'Navigate to Directory', command: `cd ${basicInfo.name}`, description: 'Enter the project folder.' });
 
     if (techStack.packageManager === 'NPM') {
@@ -124,7 +127,7 @@ const OnboardingPage = ({ analysisResult: reportData }: OnboardingPageProps) =>
          steps.push({ title: 'Run Tests', command: 'mvn test', description: 'Execute automated tests.' });
     }
     return steps;
-  }, [basicInfo.fullName, basicInfo.name, techStack, files]);
+  }, [repoWebUrl, isGitHub, basicInfo.name, techStack, files]);
 
   const quickWinIdeas = useMemo(() => [ // These remain somewhat generic as they are hard to derive automatically without LLM
     { title: 'Improve Documentation', difficulty: 'Easy', impact: 'Medium', description: 'Clarify README, add comments to complex code sections, or update outdated docs.', files: ['README.md', 'docs/'] },
@@ -295,10 +298,10 @@ const OnboardingPage = ({ analysisResult: reportData }: OnboardingPageProps) =>
           Key Resources
         </h3>
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
-          <ResourceLink href={`https://github.com/${basicInfo.fullName}`} title="GitHub Repository" description="Source code, issues, PRs." />
-          <ResourceLink href={`https://github.com/${basicInfo.fullName}/issues`} title="Issue Tracker" description="Report bugs, suggest features." />
-          <ResourceLink href={`https://github.com/${basicInfo.fullName}/pulls`} title="Pull Requests" description="Ongoing development and reviews." />
-          {basicInfo.hasWiki && <ResourceLink href={`https://github.com/${basicInfo.fullName}/wiki`} title="Project Wiki" description="Additional documentation." />}
+          <ResourceLink href={repoWebUrl} title={isGitHub ? 'GitHub Repository' : 'Repository'} description="Source code, issues, PRs." />
+          {isGitHub && <ResourceLink href={`${repoWebUrl}/issues`} title="Issue Tracker" description="Report bugs, suggest features." />}
+          {isGitHub && <ResourceLink href={`${repoWebUrl}/pulls`} title="Pull Requests" description="Ongoing development and reviews." />}
+          {isGitHub && basicInfo.hasWiki && <ResourceLink href={`${repoWebUrl}/wiki`} title="Project Wiki" description="Additional documentation." />}
           {/* Add more links if detectable, e.g., official docs website */}
         </div>
       </div>
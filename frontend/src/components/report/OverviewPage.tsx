@@ -77,7 +77,6 @@ export function OverviewPage({ analysisResult }: OverviewPageProps) {
           lowVulnerabilities: 0,
           lastScan: '',
           dependencyScore: 0,
-          packageDependencyGraph: { nodes: [], links: [] },
           vulnerabilityDistribution: []
         },
         hotspots: analysisResult.hotspots || []
@@ -17,6 +17,9 @@ import {
   BarChart3,
   Layers,
   Github,
+  PackageCheck,
+  ShieldCheck,
+  GitBranch,
   Loader2 // For loading spinner
 } from 'lucide-react';
 
@@ -26,6 +29,7 @@ import ActivityPage from '../components/report/ActivityPage';
 import CommunityPage from '../components/report/CommunityPage';
 import OnboardingPage from '../components/report/OnboardingPage';
 import DiagramsPage from '../components/report/DiagramsPage';
+import CallGraphPage from '../components/report/CallGraphPage';
 import GitHistoryPage from './GitHistoryPage';
 import { AnalysisResult } from '../types';
 import { getReportById } from '../services/reportService';
@@ -36,6 +40,23 @@ interface ReportPageProps {
   analysisResult?: AnalysisResult | null;
 }
 
+// Save an export response as a file, under the name the server gives it
+async function downloadResponse(response: Response, fallbackName: string): Promise<void> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Server responded with ${response.status}`);
+  }
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') || '')?.[1] || fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 const ReportPage = ({ analysisResult }: ReportPageProps) => {
   const { repoId } = useParams<{ repoId: string }>();
   console.log('[ReportPage] repoId from params:', repoId); // Log repoId
@@ -43,6 +64,7 @@ const ReportPage = ({ analysisResult }: ReportPageProps) => {
   const [isLoading, setIsLoading] = useState<boolean>(!analysisResult);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  const [showSbomFormats, setShowSbomFormats] = useState(false);
   const navigate = useNavigate();
   const location = useLocation(); // Get location object
   
@@ -120,6 +142,7 @@ const ReportPage = ({ analysisResult }: ReportPageProps) => {
     { id: 'overview', title: 'Overview & Vitals', icon: <BarChart3 className="w-5 h-5" />, component: OverviewPage },
     { id: 'architecture', title: 'Code Architecture & Quality', icon: <Code className="w-5 h-5" />, component: ArchitecturePage },
     { id: 'diagrams', title: 'Advanced Diagrams', icon: <Layers className="w-5 h-5" />, component: DiagramsPage },
+    { id: 'call-graph', title: 'Call Graph', icon: <GitBranch className="w-5 h-5" />, component: CallGraphPage },
     { id: 'activity', title: 'Activity & Momentum', icon: <Activity className="w-5 h-5" />, component: ActivityPage },
     { id: 'community', title: 'Community & Contributors', icon: <Users className="w-5 h-5" />, component: CommunityPage },
     { id: 'onboarding', title: 'Onboarding & Contribution Guide', icon: <BookOpen className="w-5 h-5" />, component: OnboardingPage },
@@ -146,6 +169,47 @@ const ReportPage = ({ analysisResult }: ReportPageProps) => {
     URL.revokeObjectURL(url);
   };
 
+  const handleExportSbom = async (format: 'cyclonedx' | 'spdx') => {
+    if (!reportData) return;
+    setShowSbomFormats(false);
+    try {
+      let response = await fetch(`/api/report/${encodeURIComponent(reportData.id)}/sbom?format=${format}`);
+      if (response.status === 404) {
+        // The server no longer has the report; send the parts the SBOM is built from
+        const { id, repositoryUrl, createdAt, commitSha, basicInfo, repository, dependencies } = reportData;
+        response = await fetch('/api/sbom', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format, report: { id, repositoryUrl, createdAt, commitSha, basicInfo, repository, dependencies } }),
+        });
+      }
+      await downloadResponse(response, `sbom.${format === 'spdx' ? 'spdx' : 'cdx'}.json`);
+    } catch (err) {
+      console.error('[ReportPage] SBOM export failed:', err);
+      alert(`Failed to export the SBOM: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleExportSarif = async () => {
+    if (!reportData) return;
+    try {
+      let response = await fetch(`/api/report/${encodeURIComponent(reportData.id)}/sarif`);
+      if (response.status === 404) {
+        // The server no longer has the report; send the findings the log is built from
+        const { id, repositoryUrl, createdAt, commitSha, basicInfo, securityIssues, technicalDebt, performanceMetrics } = reportData;
+        response = await fetch('/api/sarif', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ report: { id, repositoryUrl, createdAt, commitSha, basicInfo, securityIssues, technicalDebt, performanceMetrics } }),
+        });
+      }
+      await downloadResponse(response, 'findings.sarif');
+    } catch (err) {
+      console.error('[ReportPage] SARIF export failed:', err);
+      alert(`Failed to export the SARIF log: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
   const handleShareReport = async () => {
     if (!reportData) return;
     
@@ -274,6 +338,21 @@ const ReportPage = ({ analysisResult }: ReportPageProps) => {
                   <Calendar className="w-4 h-4 text-gray-500" />
                   <span>{reportData.basicInfo.updatedAt ? new Date(reportData.basicInfo.updatedAt as string).toLocaleDateString() : 'N/A'}</span>
                 </div>
+                {reportData.commitSha && (
+                  <div
+                    className="flex items-center space-x-1"
+                    title={reportData.incrementalAnalysis
+                      ? `Incremental analysis of ${reportData.incrementalAnalysis.baseSha.slice(0, 7)}..${reportData.incrementalAnalysis.headSha.slice(0, 7)}: ${reportData.incrementalAnalysis.changedFiles} changed, ${reportData.incrementalAnalysis.removedFiles} removed, ${reportData.incrementalAnalysis.reusedFiles} reused`
+                      : 'Analyzed commit'}
+                  >
+                    <GitCommit className="w-4 h-4 text-gray-500" />
+                    <span className="font-mono">
+                      {reportData.incrementalAnalysis
+                        ? `${reportData.incrementalAnalysis.baseSha.slice(0, 7)}..${reportData.commitSha.slice(0, 7)}`
+                        : reportData.commitSha.slice(0, 7)}
+                    </span>
+                  </div>
+                )}
               </div>
               
               <button
@@ -283,6 +362,38 @@ const ReportPage = ({ analysisResult }: ReportPageProps) => {
               >
                 <Share2 className="w-5 h-5" />
               </button>
+              <div className="relative">
+                <button
+                  onClick={() => setShowSbomFormats(!showSbomFormats)}
+                  className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors duration-200"
+                  title="Export Software Bill of Materials"
+                >
+                  <PackageCheck className="w-5 h-5" />
+                </button>
+                {showSbomFormats && (
+                  <div className="absolute right-0 mt-2 w-44 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50">
+                    <button
+                      onClick={() => handleExportSbom('cyclonedx')}
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
+                    >
+                      CycloneDX 1.5 JSON
+                    </button>
+                    <button
+                      onClick={() => handleExportSbom('spdx')}
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-indigo-50"
+                    >
+                      SPDX 2.3 JSON
+                    </button>
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={handleExportSarif}
+                className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors duration-200"
+                title="Export Findings as SARIF"
+              >
+                <ShieldCheck className="w-5 h-5" />
+              </button>
               <button
                 onClick={handleExportReport}
                 className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors duration-200"
@@ -113,10 +113,32 @@ async analyzeArchitecture(files: FileInfo[]): Promise<SystemArchitecture> {
       }
     };
 
+    // The analysis runs as a server-side job that outlives this connection, so an
+    // explicit cancel has to withdraw from the job as well as close the stream. The job
+    // is shared with anyone analyzing the same repository and keeps running for them.
+    let subscription: { jobId: string; subscriberId: string } | null = null;
+    eventSource.addEventListener('subscription', (event) => {
+      try {
+        const next = JSON.parse((event as MessageEvent).data);
+        // A reconnect to the same job keeps the first ID, which may be the submitter's
+        if (subscription?.jobId !== next.jobId) subscription = next;
+      } catch {
+        // Without it the job simply finishes on the server
+      }
+    });
+
     const cancel = () => {
       console.log('Analysis cancelled by user');
       this.isCancelled = true;
       cleanup();
+      if (subscription) {
+        fetch(`/api/jobs/${subscription.jobId}`, {
+          method: 'DELETE',
+          headers: { 'X-Subscriber-Id': subscription.subscriberId },
+        }).catch(error => {
+          console.warn('Failed to cancel analysis job:', error);
+        });
+      }
     };
 
     const analysisPromise = new Promise<AnalysisResult>((resolve, reject) => {      
@@ -123,6 +123,8 @@ export interface FunctionInfo {
   parameters?: FunctionParameter[]; // Updated from string[]
   returnType?: string;
   cyclomaticComplexity?: number;
+  cognitiveComplexity?: number;
+  nestingDepth?: number;
   sloc?: number;
   calls?: string[];
   description?: string;
@@ -164,16 +166,119 @@ export interface ArchitectureData {
   links: DependencyLink[];
 }
 
+export interface HalsteadMetrics {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+  time: number;
+  bugs: number;
+}
+
+export type FunctionLengthBucket = '1-10' | '11-25' | '26-50' | '51-100' | '101+';
+
+export interface FunctionLengthDistribution {
+  count: number;
+  mean: number;
+  median: number;
+  max: number;
+  buckets: Record<FunctionLengthBucket, number>;
+  longest?: { name: string; startLine: number; lines: number };
+}
+
 export interface QualityMetricDetails {
   complexity: number;
+  // Maintainability index, 0-100
   maintainability: number;
   linesOfCode: number;
+  sourceLinesOfCode?: number;
+  cognitiveComplexity?: number;
+  maxNestingDepth?: number;
+  halstead?: HalsteadMetrics;
+  functions?: FunctionLengthDistribution;
+  // Percentages from a coverage report, when the repository holds one
+  lineCoverage?: number;
+  branchCoverage?: number;
 }
 
 export interface QualityMetrics {
   [filePath: string]: QualityMetricDetails;
 }
 
+// A published advisory (OSV format) that affects the version of a dependency in use
+export interface DependencyVulnerability {
+  id: string;
+  aliases: string[];
+  packageName: string;
+  ecosystem: string;
+  version: string;
+  summary: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  cvssScore?: number;
+  cvssVector?: string;
+  affectedRanges: string[];
+  fixedVersions: string[];
+  cwe?: string;
+  url?: string;
+  manifestPath?: string;
+  direct?: boolean;
+  dependencyPath?: string[]; // Manifest path, then ecosystem:name@version of each package down to this one
+}
+
+export type LicenseCategory = 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'network-copyleft' | 'proprietary' | 'unknown';
+
+// A dependency's license and what the license policy makes of it
+export interface DependencyLicense {
+  packageName: string;
+  ecosystem: string;
+  version?: string;
+  license?: string;
+  licenseSource?: string; // Vendored metadata file the license was read from
+  category: LicenseCategory;
+  status: 'allowed' | 'review' | 'denied';
+  reason: string;
+  manifestPath: string;
+  direct: boolean;
+  dev: boolean;
+  checked: boolean; // False for development dependencies the policy leaves out
+}
+
+export interface LicenseComplianceReport {
+  policy: {
+    allowedLicenses: string[];
+    deniedLicenses: string[];
+    copyleft: { weak: string; strong: string; network: string };
+    unknownLicenses: string;
+    checkDevDependencyLicenses: boolean;
+  };
+  packages: DependencyLicense[];
+  summary: { allowed: number; review: number; denied: number; unknown: number };
+  distribution: Array<{ license: string; category: LicenseCategory; count: number }>;
+}
+
+// A locked package; depth 1 is a direct dependency, and via the package that pulls it in
+export interface PackageGraphNode {
+  id: string; // ecosystem:name@version
+  name: string;
+  ecosystem: string;
+  version: string;
+  depth?: number;
+  via?: string;
+  dev: boolean;
+}
+
+export interface PackageDependencyGraph {
+  projects: string[];
+  nodes: PackageGraphNode[];
+  links: Array<{ source: string; target: string }>;
+  duplicates: Array<{ ecosystem: string; name: string; versions: string[] }>;
+}
+
 export interface SecurityIssue {
   type: string; // e.g., 'secret', 'vulnerability'
   severity: 'critical' | 'high' | 'medium' | 'low' | 'info';
@@ -183,10 +288,58 @@ export interface SecurityIssue {
   recommendation?: string;
   cwe?: string;
   codeSnippet?: string;
+  secret?: SecretExposure; // Set on findings of secret scanning
+  taint?: TaintFlow; // Set on findings of taint analysis
+  rule?: string; // The rule that found it, for findings of the SAST rule engine, infrastructure checks and imported SARIF logs
+  infrastructure?: InfrastructureFinding; // Set on findings of infrastructure-as-code checks
+  source?: FindingSource; // Set on findings imported from another tool's SARIF log
+}
+
+// The tool and SARIF log an imported finding came from
+export interface FindingSource {
+  tool: string;
+  version?: string;
+  origin: string; // The log's path in the repository, or the name it was uploaded with
+}
+
+// A SARIF log whose findings were merged into a report
+export interface SarifImport {
+  origin: string;
+  tools: string[];
+  securityIssues: number;
+  technicalDebt: number;
+  importedAt: string;
+}
+
+export type InfrastructurePlatform = 'dockerfile' | 'compose' | 'kubernetes' | 'terraform' | 'github-actions';
+
+// What an infrastructure-as-code finding concerns, e.g. the container 'web' of 'Deployment/api'
+export interface InfrastructureFinding {
+  platform: InfrastructurePlatform;
+  resource?: string;
+}
+
+// How untrusted input reaches a dangerous call, each step from where it is read to the sink
+export interface TaintFlow {
+  source: string;
+  sink: string;
+  steps: Array<{ file: string; line: number; code: string; description: string }>;
+}
+
+// Where a secret entered the git history and whether it is still exposed; the value itself is never sent
+export interface SecretExposure {
+  rule: string;
+  fingerprint: string;
+  redacted: string;
+  introducedBy?: { sha: string; author: string; date: string; file: string; line: number };
+  presentAtHead: boolean;
+  commits: number;
+  verification?: 'active' | 'inactive';
 }
 
 export interface TechnicalDebtItem {
-  type: string; // e.g., 'smell', 'complexity', 'duplication'
+  type: string; // e.g., 'smell', 'complexity', 'duplication', 'dead-code'
+  rule?: string; // The check that found it, e.g. 'unused-export'
   severity: 'critical' | 'high' | 'medium' | 'low';
   file: string;
   line?: number;
@@ -194,6 +347,7 @@ export interface TechnicalDebtItem {
   effort?: string; // e.g., '1h', '2d'
   impact?: string;
   recommendation?: string;
+  source?: FindingSource; // Set on findings imported from another tool's SARIF log
 }
 
 export interface PerformanceMetric {
@@ -236,6 +390,8 @@ export interface Hotspot {
   explanation?: string;
   size?: number;
   primaryContributors?: string[];
+  lineCoverage?: number;
+  branchCoverage?: number;
 }
 
 export interface KeyFunction {
@@ -252,6 +408,56 @@ export interface KeyFunction {
   content?: string; // For showing source code, optional
   startLine?: number; // From FunctionInfo
   endLine?: number;   // From FunctionInfo
+  linesOfCode?: number;
+  cognitiveComplexity?: number;
+  callers?: FunctionReference[];
+  callees?: FunctionReference[];
+  fanIn?: number;
+  fanOut?: number;
+  importance?: number; // 0-100
+}
+
+export interface FunctionReference {
+  name: string;
+  file: string;
+}
+
+/**
+ * A function in the call graph. `id` is `file#name`, with `name` as on `KeyFunction`;
+ * calls made outside any function belong to the node named `<module>`.
+ */
+export interface CallGraphNode {
+  id: string;
+  name: string;
+  file: string;
+  startLine?: number;
+  endLine?: number;
+  exported?: boolean;
+}
+
+/**
+ * A call written in `from`. Internal calls reach the function `to`; external ones go to an
+ * imported package; dynamic ones have a target that could not be worked out statically,
+ * such as a callback, a computed member or a method of a local value.
+ */
+export interface CallGraphEdge {
+  from: string;
+  to?: string;
+  callee: string;
+  line: number;
+  resolution: 'internal' | 'external' | 'dynamic';
+  module?: string; // The package an external call goes to
+}
+
+export interface CallGraph {
+  nodes: CallGraphNode[];
+  edges: CallGraphEdge[];
+}
+
+// The functions within `depth` calls of `focus`: callers at negative distances, callees at positive ones
+export interface CallGraphNeighbourhood extends CallGraph {
+  focus: string;
+  distances: Record<string, number>;
 }
 
 export interface RepositoryData { // For the 'repository' field in AnalysisResult
@@ -291,6 +497,9 @@ export interface AnalysisResult {
     analyzableFileCount?: number; // New: Count of source files that were analyzed
     codeQuality?: number;
     testCoverage?: number;
+    // 'estimate' when no coverage report was found and testCoverage is guessed from test files
+    testCoverageSource?: 'report' | 'estimate';
+    branchCoverage?: number;
     busFactor?: number;
     securityScore?: number;
     technicalDebtScore?: number;
@@ -321,11 +530,13 @@ export interface AnalysisResult {
   technicalDebt?: TechnicalDebtItem[];
   performanceMetrics?: PerformanceMetric[];
   keyFunctions?: KeyFunction[];
+  callGraph?: CallGraph;
   apiEndpoints?: APIEndpoint[];
   languages?: Record<string, number>;  dependencyGraph?: ArchitectureData;
   dependencyMetrics?: {
     totalDependencies: number;
     devDependencies: number;
+    transitiveDependencies?: number;
     outdatedPackages: number;
     vulnerablePackages: number;
     criticalVulnerabilities: number;
@@ -334,12 +545,18 @@ export interface AnalysisResult {
     lowVulnerabilities: number;
     lastScan: string;
     dependencyScore: number;
-    packageDependencyGraph: { nodes: unknown[]; links: unknown[] }; // External package dependencies
+    dependencyGraph?: PackageDependencyGraph; // External package dependencies, from lockfiles
     vulnerabilityDistribution: Array<{ severity: string; count: number; color: string }>;
+    vulnerabilities?: DependencyVulnerability[];
   };
+  licenseCompliance?: LicenseComplianceReport;
   qualityMetrics?: QualityMetrics;  repository?: RepositoryData; // Using the defined RepositoryData type
   architectureAnalysis?: SystemArchitecture;
   systemArchitecture?: SystemArchitecture; // System architecture analysis with Mermaid diagram
+  architectureRules?: ArchitectureRulesReport;
+  duplication?: DuplicationReport;
+  coverage?: CoverageReport;
+  sarifImports?: SarifImport[];
   analysisWarnings?: AnalysisWarning[];
   // Diagram-specific data structures
   dependencyWheelData?: Array<{ source: string; target: string; value: number }>; // Define specific type
@@ -353,6 +570,17 @@ export interface AnalysisResult {
   pullRequests?: PullRequestData[];
   gitGraph?: GitGraphData;
   analysisMethod?: 'archive' | 'individual'; // Method used for file analysis
+  commitSha?: string; // Commit the files were read at
+  incrementalAnalysis?: IncrementalAnalysisInfo; // Set when only files changed since an earlier report were re-analyzed
+}
+
+// Commit range of an analysis that reused the per-file results of an earlier one
+export interface IncrementalAnalysisInfo {
+  baseSha: string;
+  headSha: string;
+  changedFiles: number;
+  removedFiles: number;
+  reusedFiles: number;
 }
 
 // --- System Architecture Analysis Types ---
@@ -382,3 +610,87 @@ export interface SystemArchitecture {
   patterns: string[];
   summary: string;
 }
+
+/**
+ * One import between two files, or between two components with the file import behind it.
+ */
+export interface ArchitectureImport {
+  from: string;
+  to: string;
+  file?: string;
+  line?: number;
+  specifier?: string;
+}
+
+export interface ImportCycle {
+  graph: 'file' | 'component';
+  members: string[];
+  // The shortest chain of imports from the first member back to itself
+  chain: ArchitectureImport[];
+}
+
+// Files or components in layer `from` must not import ones in layer `to`
+export interface LayerRule {
+  from: string;
+  to: string;
+  message?: string;
+}
+
+export interface ArchitectureRules {
+  layerRules: LayerRule[];
+  failOnCycles: boolean;
+}
+
+export interface LayerViolation {
+  rule: LayerRule;
+  graph: 'file' | 'component';
+  fromLayer: string;
+  toLayer: string;
+  import: ArchitectureImport;
+}
+
+export interface ArchitectureRulesReport {
+  rules: ArchitectureRules;
+  cycles: ImportCycle[];
+  violations: LayerViolation[];
+  passed: boolean;
+}
+
+export interface CloneFragment {
+  file: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+}
+
+// Type 1: identical apart from layout and comments; type 2: renamed identifiers or changed literals;
+// type 3: statements added or removed as well
+export interface CloneClass {
+  id: string;
+  type: 1 | 2 | 3;
+  tokens: number;
+  lines: number;
+  fragments: CloneFragment[];
+}
+
+export interface DuplicationReport {
+  config: { minTokens: number; gapped: boolean; maxGapTokens: number; ignoreFiles: string[] };
+  classes: CloneClass[];
+  files: Array<{ file: string; duplicatedLines: number; totalLines: number }>;
+  duplicatedLines: number;
+  totalLines: number;
+}
+
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+// Coverage read from the lcov, Istanbul, Cobertura or JaCoCo reports in the repository
+export interface CoverageReport {
+  reports: Array<{ path: string; format: 'lcov' | 'istanbul' | 'cobertura' | 'jacoco' }>;
+  files: Record<string, { lines: CoverageCount; branches?: CoverageCount }>;
+  lines: CoverageCount;
+  branches?: CoverageCount;
+  unmatchedFiles: number;
+}